@@ -0,0 +1,647 @@
+/**
+ * This module implements an immutable `CVBusinessCalendar` object, i.e. a working calendar defined
+ * by a set of weekend days and a list of holiday rules. Three kinds of holiday rules are supported:
+ * fixed dates (e.g. December 25th), dates relative to Easter Sunday (e.g. Good Friday is two days
+ * before Easter) and nth weekdays of a month (e.g. the last Monday of May). Easter is calculated in
+ * the Gregorian calendar.
+ *
+ * A business day is a day that is neither a weekend day nor a holiday. All functions of this module
+ * work on the local date of the `CVDateTime`'s they receive, i.e. the date in their time zone or
+ * with their zone offset. The `CVDateTime`'s they return keep the local time of the `CVDateTime`
+ * they were computed from.
+ */
+
+import { flow, pipe } from 'effect';
+import * as Array from 'effect/Array';
+import * as Function from 'effect/Function';
+import * as Option from 'effect/Option';
+import * as Order from 'effect/Order';
+import * as Result from 'effect/Result';
+import * as Struct from 'effect/Struct';
+
+import * as MData from '@parischap/effect-lib/MData';
+import * as MInputError from '@parischap/effect-lib/MInputError';
+import * as MNumber from '@parischap/effect-lib/MNumber';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+import { DAY_MS } from './date-time-constants.js';
+import * as CVDateTime from './DateTime.js';
+
+/**
+ * Module tag
+ *
+ * @category Module markers
+ */
+export const moduleTag = '@parischap/conversions/DateTime/BusinessCalendar/';
+const TypeId: unique symbol = Symbol.for(moduleTag) as TypeId;
+type TypeId = typeof TypeId;
+
+/**
+ * Type of a holiday rule. Weekdays go from 1 (Monday) to 7 (Sunday)
+ *
+ * - `Fixed`: the same date every year, e.g. December 25th
+ * - `EasterRelative`: a date `offset` days after (or before if negative) Easter Sunday
+ * - `NthWeekday`: the `ordinal`-th `weekday` of `month`, counting from the end of the month if
+ *   `ordinal` is negative
+ *
+ * @category Models
+ */
+export type HolidayRule =
+  | {
+      readonly _tag: 'Fixed';
+      readonly name: string;
+      readonly month: number;
+      readonly monthDay: number;
+    }
+  | { readonly _tag: 'EasterRelative'; readonly name: string; readonly offset: number }
+  | {
+      readonly _tag: 'NthWeekday';
+      readonly name: string;
+      readonly month: number;
+      readonly weekday: number;
+      readonly ordinal: number;
+    };
+
+/**
+ * Type that represents a CVBusinessCalendar
+ *
+ * @category Models
+ */
+export class Type extends MData.Class {
+  /** Name of this calendar */
+  readonly name: string;
+
+  /** Weekend days, from 1 (Monday) to 7 (Sunday) */
+  readonly weekendDays: ReadonlyArray<number>;
+
+  /** Holiday rules. When several rules fall on the same day, the first one gives its name */
+  readonly holidayRules: ReadonlyArray<HolidayRule>;
+
+  /** Returns the `id` of `this` */
+  [MData.idSymbol](): string | (() => string) {
+    return function idSymbol(this: Type) {
+      return this.name;
+    };
+  }
+
+  /** Class constructor */
+  private constructor({ name, weekendDays, holidayRules }: MTypes.Data<Type>) {
+    super();
+    this.name = name;
+    this.weekendDays = weekendDays;
+    this.holidayRules = holidayRules;
+  }
+
+  /** Static constructor */
+  static make(params: MTypes.Data<Type>): Type {
+    return new Type(params);
+  }
+
+  /** Returns the TypeMarker of the class */
+  protected get [TypeId](): TypeId {
+    return TypeId;
+  }
+}
+
+/**
+ * Builds a `Fixed` holiday rule
+ *
+ * @category Holiday rules
+ */
+export const fixedHoliday = (params: {
+  readonly name: string;
+  readonly month: number;
+  readonly monthDay: number;
+}): HolidayRule => ({ _tag: 'Fixed', ...params });
+
+/**
+ * Builds an `EasterRelative` holiday rule
+ *
+ * @category Holiday rules
+ */
+export const easterHoliday = (params: {
+  readonly name: string;
+  readonly offset: number;
+}): HolidayRule => ({ _tag: 'EasterRelative', ...params });
+
+/**
+ * Builds an `NthWeekday` holiday rule
+ *
+ * @category Holiday rules
+ */
+export const nthWeekdayHoliday = (params: {
+  readonly name: string;
+  readonly month: number;
+  readonly weekday: number;
+  readonly ordinal: number;
+}): HolidayRule => ({ _tag: 'NthWeekday', ...params });
+
+/** Maximal number of days in each month */
+const MAX_DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+/**
+ * Checks that `value` is an integer between `min` and `max` included and, if `isZeroForbidden` is
+ * true, different from 0
+ */
+const checkInteger =
+  ({
+    name,
+    min,
+    max,
+    isZeroForbidden,
+  }: {
+    readonly name: string;
+    readonly min: number;
+    readonly max: number;
+    readonly isZeroForbidden: boolean;
+  }) =>
+  (value: number): Result.Result<number, MInputError.Type> =>
+    Number.isSafeInteger(value) && value >= min && value <= max && !(isZeroForbidden && value === 0)
+      ? Result.succeed(value)
+      : Result.fail(
+          new MInputError.Type({
+            message: `Expected ${name} to be an integer between ${min} and ${max}${isZeroForbidden ? ' different from 0' : ''}. Actual: ${value}`,
+          }),
+        );
+
+const checkHolidayRule = (rule: HolidayRule): Result.Result<HolidayRule, MInputError.Type> =>
+  Result.gen(function* () {
+    if (rule._tag === 'EasterRelative') {
+      yield* checkInteger({
+        name: `offset of '${rule.name}'`,
+        min: -366,
+        max: 366,
+        isZeroForbidden: false,
+      })(rule.offset);
+      return rule;
+    }
+    const month = yield* checkInteger({
+      name: `month of '${rule.name}'`,
+      min: 1,
+      max: 12,
+      isZeroForbidden: false,
+    })(rule.month);
+    if (rule._tag === 'Fixed') {
+      yield* checkInteger({
+        name: `month day of '${rule.name}'`,
+        min: 1,
+        max: MAX_DAYS_IN_MONTH[month - 1]!,
+        isZeroForbidden: false,
+      })(rule.monthDay);
+      return rule;
+    }
+    yield* checkInteger({
+      name: `weekday of '${rule.name}'`,
+      min: 1,
+      max: 7,
+      isZeroForbidden: false,
+    })(rule.weekday);
+    yield* checkInteger({
+      name: `ordinal of '${rule.name}'`,
+      min: -5,
+      max: 5,
+      isZeroForbidden: true,
+    })(rule.ordinal);
+    return rule;
+  });
+
+/**
+ * Tries to build a `CVBusinessCalendar`. `weekendDays` defaults to Saturday and Sunday and
+ * `holidayRules` to an empty array. Returns a `Success` if successful, a `Failure` otherwise.
+ * Weekend days must be integers between 1 (Monday) and 7 (Sunday) and at least one day of the week
+ * must be a working day. Holiday rules must refer to existing months, month days, weekdays and
+ * ordinals (from -5 to 5, 0 excluded). A `Fixed` rule on February 29th only applies in leap years.
+ *
+ * @category Constructors
+ */
+export const fromParts = ({
+  name,
+  weekendDays = [6, 7],
+  holidayRules = [],
+}: {
+  readonly name: string;
+  readonly weekendDays?: ReadonlyArray<number>;
+  readonly holidayRules?: ReadonlyArray<HolidayRule>;
+}): Result.Result<Type, MInputError.Type> =>
+  Result.gen(function* () {
+    const uniqueWeekendDays = yield* pipe(
+      weekendDays,
+      Array.map(checkInteger({ name: 'weekend days', min: 1, max: 7, isZeroForbidden: false })),
+      Result.all,
+      Result.map(flow(Array.dedupe, Array.sort(Order.Number))),
+    );
+    if (uniqueWeekendDays.length === 7)
+      return yield* Result.fail(
+        new MInputError.Type({ message: 'At least one day of the week must be a working day' }),
+      );
+    return Type.make({
+      name,
+      weekendDays: uniqueWeekendDays,
+      holidayRules: yield* Result.all(Array.map(holidayRules, checkHolidayRule)),
+    });
+  });
+
+/**
+ * Same as `fromParts` but returns directly a `CVBusinessCalendar` or throws if it cannot be built
+ *
+ * @category Constructors
+ */
+export const fromPartsOrThrow: MTypes.OneArgFunction<Parameters<typeof fromParts>[0], Type> = flow(
+  fromParts,
+  Result.getOrThrowWith(Function.identity),
+);
+
+/**
+ * `CVBusinessCalendar` instance with Saturday and Sunday as weekend days and no holidays
+ *
+ * @category Instances
+ */
+export const weekendsOnly: Type = fromPartsOrThrow({ name: 'weekends only' });
+
+/**
+ * `CVBusinessCalendar` instance of the TARGET2 system of the European Central Bank, the usual
+ * reference for euro settlement days
+ *
+ * @category Instances
+ */
+export const target2: Type = fromPartsOrThrow({
+  name: 'TARGET2',
+  holidayRules: [
+    fixedHoliday({ name: "New Year's Day", month: 1, monthDay: 1 }),
+    easterHoliday({ name: 'Good Friday', offset: -2 }),
+    easterHoliday({ name: 'Easter Monday', offset: 1 }),
+    fixedHoliday({ name: 'Labour Day', month: 5, monthDay: 1 }),
+    fixedHoliday({ name: 'Christmas Day', month: 12, monthDay: 25 }),
+    fixedHoliday({ name: 'Christmas Holiday', month: 12, monthDay: 26 }),
+  ],
+});
+
+/**
+ * Returns the month (3 or 4) and the day of month of Easter Sunday of `year` in the Gregorian
+ * calendar (anonymous Gregorian algorithm)
+ */
+const getEasterSunday = (year: number): readonly [month: number, monthDay: number] => {
+  const [century, yearInCentury] = MNumber.quotientAndRemainder(100)(year);
+  const golden = MNumber.intModulo(19)(year);
+  const lunarCorrection = Math.floor((century - Math.floor((century + 8) / 25) + 1) / 3);
+  const epact = MNumber.intModulo(30)(
+    19 * golden + century - Math.floor(century / 4) - lunarCorrection + 15,
+  );
+  const weekdayCorrection = MNumber.intModulo(7)(
+    32 +
+      2 * MNumber.intModulo(4)(century) +
+      2 * Math.floor(yearInCentury / 4) -
+      epact -
+      MNumber.intModulo(4)(yearInCentury),
+  );
+  const shift = Math.floor((golden + 11 * epact + 22 * weekdayCorrection) / 451);
+  const [month, dayIndex] = MNumber.quotientAndRemainder(31)(
+    epact + weekdayCorrection - 7 * shift + 114,
+  );
+  return [month, dayIndex + 1];
+};
+
+/** Returns the day `monthDay` of `month` of `year` at zone offset 0, if it exists */
+const dayOf = (year: number, month: number, monthDay: number): Option.Option<CVDateTime.Type> =>
+  pipe(CVDateTime.fromParts({ year, month, monthDay, zoneOffset: 0 }), Result.getSuccess);
+
+/** Returns the ordinal day of the date on which `rule` falls in `year`, if any */
+const getHolidayOrdinalDay =
+  (year: number) =>
+  (rule: HolidayRule): Option.Option<number> => {
+    if (rule._tag === 'Fixed')
+      return pipe(dayOf(year, rule.month, rule.monthDay), Option.map(CVDateTime.getOrdinalDay));
+
+    if (rule._tag === 'EasterRelative')
+      return pipe(
+        dayOf(year, ...getEasterSunday(year)),
+        Option.flatMap((easterSunday) =>
+          pipe(
+            CVDateTime.getOrdinalDay(easterSunday) + rule.offset,
+            Option.liftPredicate(
+              (ordinalDay) =>
+                ordinalDay >= 1 && ordinalDay <= CVDateTime.getYearDurationInDays(easterSunday),
+            ),
+          ),
+        ),
+      );
+
+    return pipe(
+      dayOf(year, rule.month, 1),
+      Option.flatMap((firstMonthDay) => {
+        const firstWeekday = CVDateTime.getWeekday(firstMonthDay);
+        const lastMonthDayNumber = CVDateTime.getNumberOfDaysInMonth(firstMonthDay);
+        const lastWeekday = 1 + MNumber.intModulo(7)(firstWeekday + lastMonthDayNumber - 2);
+        const monthDay =
+          rule.ordinal > 0
+            ? 1 + MNumber.intModulo(7)(rule.weekday - firstWeekday) + 7 * (rule.ordinal - 1)
+            : lastMonthDayNumber -
+              MNumber.intModulo(7)(lastWeekday - rule.weekday) +
+              7 * (rule.ordinal + 1);
+        return monthDay >= 1 && monthDay <= lastMonthDayNumber
+          ? Option.some(CVDateTime.getOrdinalDay(firstMonthDay) + monthDay - 1)
+          : Option.none();
+      }),
+    );
+  };
+
+/**
+ * Returns a function that gives the holidays of a year as a map from ordinal days to holiday names.
+ * Results are cached so that iterating over many days only computes the holidays of each year once
+ */
+const makeHolidayGetter = (
+  self: Type,
+): MTypes.OneArgFunction<number, ReadonlyMap<number, string>> => {
+  const cache = new Map<number, ReadonlyMap<number, string>>();
+  return (year) => {
+    const cached = cache.get(year);
+    if (cached !== undefined) return cached;
+    const holidays = new Map<number, string>();
+    for (const rule of self.holidayRules) {
+      const ordinalDay = getHolidayOrdinalDay(year)(rule);
+      if (Option.isSome(ordinalDay) && !holidays.has(ordinalDay.value))
+        holidays.set(ordinalDay.value, rule.name);
+    }
+    cache.set(year, holidays);
+    return holidays;
+  };
+};
+
+/** Returns a predicate that tells whether a `CVDateTime` falls on a business day of `self` */
+const makeBusinessDayPredicate = (self: Type): MTypes.OneArgFunction<CVDateTime.Type, boolean> => {
+  const getHolidays = makeHolidayGetter(self);
+  return (dateTime) =>
+    !Array.contains(self.weekendDays, CVDateTime.getWeekday(dateTime)) &&
+    !getHolidays(CVDateTime.getYear(dateTime)).has(CVDateTime.getOrdinalDay(dateTime));
+};
+
+/**
+ * Returns the name of the holiday on which `dateTime` falls in `self`, if any. Weekend days are not
+ * holidays unless a holiday rule falls on them.
+ *
+ * @category Utils
+ */
+export const getHolidayName =
+  (dateTime: CVDateTime.Type) =>
+  (self: Type): Option.Option<string> =>
+    pipe(
+      makeHolidayGetter(self)(CVDateTime.getYear(dateTime)).get(CVDateTime.getOrdinalDay(dateTime)),
+      Option.fromUndefinedOr,
+    );
+
+/**
+ * Returns true if `dateTime` falls on a holiday of `self`
+ *
+ * @category Predicates
+ */
+export const isHoliday =
+  (dateTime: CVDateTime.Type) =>
+  (self: Type): boolean =>
+    Option.isSome(getHolidayName(dateTime)(self));
+
+/**
+ * Returns true if `dateTime` falls on a business day of `self`, i.e. neither on a weekend day nor
+ * on a holiday
+ *
+ * @category Predicates
+ */
+export const isBusinessDay =
+  (dateTime: CVDateTime.Type) =>
+  (self: Type): boolean =>
+    makeBusinessDayPredicate(self)(dateTime);
+
+/** Returns the day with epoch day `epochDay` as a `CVDateTime` at midnight with zone offset 0 */
+const utcDayOf = (epochDay: number): Result.Result<CVDateTime.Type, MInputError.Type> =>
+  CVDateTime.fromTimestamp(epochDay * DAY_MS, 0);
+
+/**
+ * Returns a function that moves an epoch day by `n` business days of `self`, forward if `n` is
+ * positive and backward if `n` is negative
+ */
+const makeBusinessDayOffsetter = (
+  self: Type,
+): ((epochDay: number, n: number) => Result.Result<number, MInputError.Type>) => {
+  const isBusinessDayInSelf = makeBusinessDayPredicate(self);
+  return (epochDay, n) => {
+    const step = n >= 0 ? 1 : -1;
+    const start: Result.Result<
+      { readonly epochDay: number; readonly remaining: number },
+      MInputError.Type
+    > = Result.succeed({ epochDay, remaining: Math.abs(n) });
+    return pipe(
+      Array.unfold(start, (state: typeof start) =>
+        pipe(
+          state,
+          Result.getSuccess,
+          Option.filter(({ remaining }) => remaining > 0),
+          Option.map(({ epochDay, remaining }) => {
+            const next: typeof start = pipe(
+              utcDayOf(epochDay + step),
+              Result.map((utcDay) => ({
+                epochDay: epochDay + step,
+                remaining: isBusinessDayInSelf(utcDay) ? remaining - 1 : remaining,
+              })),
+            );
+            return [next, next] as const;
+          }),
+        ),
+      ),
+      Array.last,
+      Option.getOrElse(Function.constant(start)),
+      Result.map(Struct.get('epochDay')),
+    );
+  };
+};
+
+/** Moves `dateTime` to the local date of epoch day `epochDay`, keeping its local time */
+const toEpochDay =
+  (dateTime: CVDateTime.Type) =>
+  (epochDay: number): Result.Result<CVDateTime.Type, MInputError.Type> =>
+    CVDateTime.offsetDays(epochDay - CVDateTime.getEpochDay(dateTime))(dateTime);
+
+/**
+ * Moves `dateTime` by `n` business days of `self`, forward if `n` is positive and backward if `n`
+ * is negative. The result is always a business day, except when `n` is 0 in which case `dateTime`
+ * is returned unchanged. For instance, adding 1 business day to a Friday returns the next Monday
+ * (if it is not a holiday), and so does adding 1 business day to the Saturday that follows. Days
+ * are counted on local dates, so a daylight saving time transition never makes the result land on
+ * the wrong day. Returns a `Failure` if the local time of `dateTime` does not exist on the
+ * resulting day in its time zone or if the result is out of range.
+ *
+ * @category Utils
+ */
+export const addBusinessDays =
+  (dateTime: CVDateTime.Type, n: number) =>
+  (self: Type): Result.Result<CVDateTime.Type, MInputError.Type> =>
+    pipe(
+      makeBusinessDayOffsetter(self)(CVDateTime.getEpochDay(dateTime), n),
+      Result.flatMap(toEpochDay(dateTime)),
+    );
+
+/**
+ * Same as `addBusinessDays` but returns directly a `CVDateTime` or throws in case of an error
+ *
+ * @category Utils
+ */
+export const addBusinessDaysOrThrow = (
+  dateTime: CVDateTime.Type,
+  n: number,
+): MTypes.OneArgFunction<Type, CVDateTime.Type> =>
+  flow(addBusinessDays(dateTime, n), Result.getOrThrowWith(Function.identity));
+
+/**
+ * Returns the first business day of `self` strictly after `dateTime`. Fails like `addBusinessDays`
+ *
+ * @category Utils
+ */
+export const nextBusinessDay = (
+  dateTime: CVDateTime.Type,
+): MTypes.OneArgFunction<Type, Result.Result<CVDateTime.Type, MInputError.Type>> =>
+  addBusinessDays(dateTime, 1);
+
+/**
+ * Same as `nextBusinessDay` but returns directly a `CVDateTime` or throws in case of an error
+ *
+ * @category Utils
+ */
+export const nextBusinessDayOrThrow = (
+  dateTime: CVDateTime.Type,
+): MTypes.OneArgFunction<Type, CVDateTime.Type> => addBusinessDaysOrThrow(dateTime, 1);
+
+/**
+ * Returns the last business day of `self` strictly before `dateTime`. Fails like `addBusinessDays`
+ *
+ * @category Utils
+ */
+export const previousBusinessDay = (
+  dateTime: CVDateTime.Type,
+): MTypes.OneArgFunction<Type, Result.Result<CVDateTime.Type, MInputError.Type>> =>
+  addBusinessDays(dateTime, -1);
+
+/**
+ * Same as `previousBusinessDay` but returns directly a `CVDateTime` or throws in case of an error
+ *
+ * @category Utils
+ */
+export const previousBusinessDayOrThrow = (
+  dateTime: CVDateTime.Type,
+): MTypes.OneArgFunction<Type, CVDateTime.Type> => addBusinessDaysOrThrow(dateTime, -1);
+
+/**
+ * Returns the first business day of `self` in the month of `dateTime`. Fails like `addBusinessDays`
+ *
+ * @category Utils
+ */
+export const firstMonthBusinessDay =
+  (dateTime: CVDateTime.Type) =>
+  (self: Type): Result.Result<CVDateTime.Type, MInputError.Type> =>
+    pipe(
+      // Last day of the previous month
+      CVDateTime.getEpochDay(dateTime) - CVDateTime.getMonthDay(dateTime),
+      (epochDay) => makeBusinessDayOffsetter(self)(epochDay, 1),
+      Result.flatMap(toEpochDay(dateTime)),
+    );
+
+/**
+ * Same as `firstMonthBusinessDay` but returns directly a `CVDateTime` or throws in case of an error
+ *
+ * @category Utils
+ */
+export const firstMonthBusinessDayOrThrow = (
+  dateTime: CVDateTime.Type,
+): MTypes.OneArgFunction<Type, CVDateTime.Type> =>
+  flow(firstMonthBusinessDay(dateTime), Result.getOrThrowWith(Function.identity));
+
+/**
+ * Returns the last business day of `self` in the month of `dateTime`. Fails like `addBusinessDays`
+ *
+ * @category Utils
+ */
+export const lastMonthBusinessDay =
+  (dateTime: CVDateTime.Type) =>
+  (self: Type): Result.Result<CVDateTime.Type, MInputError.Type> =>
+    pipe(
+      // First day of the next month
+      CVDateTime.getEpochDay(dateTime) -
+        CVDateTime.getMonthDay(dateTime) +
+        CVDateTime.getNumberOfDaysInMonth(dateTime) +
+        1,
+      (epochDay) => makeBusinessDayOffsetter(self)(epochDay, -1),
+      Result.flatMap(toEpochDay(dateTime)),
+    );
+
+/**
+ * Same as `lastMonthBusinessDay` but returns directly a `CVDateTime` or throws in case of an error
+ *
+ * @category Utils
+ */
+export const lastMonthBusinessDayOrThrow = (
+  dateTime: CVDateTime.Type,
+): MTypes.OneArgFunction<Type, CVDateTime.Type> =>
+  flow(lastMonthBusinessDay(dateTime), Result.getOrThrowWith(Function.identity));
+
+/**
+ * Returns the number of business days of `self` between the local dates of `from` and `to`, `from`
+ * excluded and `to` included. The result is negative if `to` is before `from`: it is then the
+ * opposite of the number of business days from `to` included to `from` excluded. So,
+ * `businessDaysBetween(from, addBusinessDaysOrThrow(from, n)(self))(self)` is always a `Success` of
+ * `n`. Returns a `Failure` if one of the days to consider is out of range.
+ *
+ * @category Utils
+ */
+export const businessDaysBetween =
+  (from: CVDateTime.Type, to: CVDateTime.Type) =>
+  (self: Type): Result.Result<number, MInputError.Type> => {
+    const isBusinessDayInSelf = makeBusinessDayPredicate(self);
+    const fromEpochDay = CVDateTime.getEpochDay(from);
+    const dayDifference = CVDateTime.getEpochDay(to) - fromEpochDay;
+    const [startEpochDay, length] =
+      dayDifference >= 0
+        ? [fromEpochDay + 1, dayDifference]
+        : [fromEpochDay + dayDifference, -dayDifference];
+    return pipe(
+      Array.makeBy(length, (index) => utcDayOf(startEpochDay + index)),
+      Result.all,
+      Result.map(
+        flow(Array.filter(isBusinessDayInSelf), Array.length, (count) =>
+          dayDifference >= 0 ? count : -count,
+        ),
+      ),
+    );
+  };
+
+/**
+ * Same as `businessDaysBetween` but returns directly a number or throws in case of an error
+ *
+ * @category Utils
+ */
+export const businessDaysBetweenOrThrow = (
+  from: CVDateTime.Type,
+  to: CVDateTime.Type,
+): MTypes.OneArgFunction<Type, number> =>
+  flow(businessDaysBetween(from, to), Result.getOrThrowWith(Function.identity));
+
+/**
+ * Returns the `name` property of `self`
+ *
+ * @category Getters
+ */
+export const name: MTypes.OneArgFunction<Type, string> = Struct.get('name');
+
+/**
+ * Returns the `weekendDays` property of `self`
+ *
+ * @category Getters
+ */
+export const weekendDays: MTypes.OneArgFunction<Type, ReadonlyArray<number>> = Struct.get(
+  'weekendDays',
+);
+
+/**
+ * Returns the `holidayRules` property of `self`
+ *
+ * @category Getters
+ */
+export const holidayRules: MTypes.OneArgFunction<Type, ReadonlyArray<HolidayRule>> = Struct.get(
+  'holidayRules',
+);
@@ -0,0 +1,458 @@
+/**
+ * This module implements a `CVCalendar`, i.e. an object that can express a day in a given calendar
+ * system (era, year, month and day of month) and convert it back. `CVDateTime` internally works in
+ * the proleptic Gregorian calendar. A `CVCalendar` gives another view on the same days.
+ *
+ * Days are identified by their epoch day, i.e. the number of days elapsed since 1/1/1970 in the
+ * Gregorian calendar. An epoch day has no time zone: `CVDateTime` computes it from the local date
+ * in its own time zone.
+ *
+ * This module provides a Gregorian, a Julian, a tabular Hijri and a Japanese calendar. Other
+ * calendars can be plugged in with the `make` constructor.
+ */
+
+import { flow, pipe } from 'effect';
+import * as Array from 'effect/Array';
+import * as Function from 'effect/Function';
+import * as Option from 'effect/Option';
+import * as Result from 'effect/Result';
+import * as Struct from 'effect/Struct';
+
+import * as MData from '@parischap/effect-lib/MData';
+import * as MInputError from '@parischap/effect-lib/MInputError';
+import * as MNumber from '@parischap/effect-lib/MNumber';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+/**
+ * Module tag
+ *
+ * @category Module markers
+ */
+export const moduleTag = '@parischap/conversions/DateTime/Calendar/';
+const TypeId: unique symbol = Symbol.for(moduleTag) as TypeId;
+type TypeId = typeof TypeId;
+
+/**
+ * Type of the parts of a day expressed in a `CVCalendar`
+ *
+ * @category Models
+ */
+export interface Parts {
+  /** Index of the era in the calendar, starting at 0 */
+  readonly era: number;
+  /**
+   * Year of the day. For calendars whose eras are only informative (Gregorian, Julian, Hijri), it
+   * is an astronomical year, i.e. year 0 precedes year 1. For calendars whose years are counted
+   * from the start of each era (Japanese), it is the year in `era`, starting at 1
+   */
+  readonly year: number;
+  /** Month in the current year, starting at 1 */
+  readonly month: number;
+  /** Day in the current month, starting at 1 */
+  readonly monthDay: number;
+}
+
+/**
+ * Type of the parts expected by the `fromParts` function of a `CVCalendar`. The era is only
+ * required by calendars whose years are counted from the start of each era
+ *
+ * @category Models
+ */
+export interface InputParts extends Omit<Parts, 'era'> {
+  readonly era?: number;
+}
+
+/**
+ * Type that represents a CVCalendar
+ *
+ * @category Models
+ */
+export class Type extends MData.Class {
+  /** Name of this CVCalendar */
+  readonly name: string;
+
+  /**
+   * Identifier of this CVCalendar in the `Intl` API (e.g. 'islamic-civil'), used to retrieve
+   * localized month and era names. `none` if the `Intl` API does not know this calendar, in which
+   * case the names of the Gregorian calendar are used
+   */
+  readonly intlId: Option.Option<string>;
+
+  /**
+   * For each era of this CVCalendar in order, the epoch day of a day in that era. Used to retrieve
+   * localized era names
+   */
+  readonly eraSampleDays: MTypes.ReadonlyOverOne<number>;
+
+  /** Function that tries to express an epoch day in this CVCalendar */
+  readonly toParts: MTypes.OneArgFunction<number, Result.Result<Parts, MInputError.Type>>;
+
+  /** Function that tries to convert parts expressed in this CVCalendar into an epoch day */
+  readonly fromParts: MTypes.OneArgFunction<InputParts, Result.Result<number, MInputError.Type>>;
+
+  /** Returns the `id` of `this` */
+  [MData.idSymbol](): string | (() => string) {
+    return function idSymbol(this: Type) {
+      return this.name;
+    };
+  }
+
+  /** Class constructor */
+  private constructor({ name, intlId, eraSampleDays, toParts, fromParts }: MTypes.Data<Type>) {
+    super();
+    this.name = name;
+    this.intlId = intlId;
+    this.eraSampleDays = eraSampleDays;
+    this.toParts = toParts;
+    this.fromParts = fromParts;
+  }
+
+  /** Static constructor */
+  static make(params: MTypes.Data<Type>): Type {
+    return new Type(params);
+  }
+
+  /** Returns the TypeMarker of the class */
+  protected get [TypeId](): TypeId {
+    return TypeId;
+  }
+}
+
+/**
+ * Constructor of a `CVCalendar`. `toParts` and `fromParts` must be inverse functions of one
+ * another.
+ *
+ * @category Constructors
+ */
+export const make = (params: MTypes.Data<Type>): Type => Type.make(params);
+
+/** Number of days in each month of a common year of the Gregorian and Julian calendars */
+const COMMON_YEAR_DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+/** Number of days in each month of a leap year of the Gregorian and Julian calendars */
+const LEAP_YEAR_DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+/** Epoch day of 1/3/0 in the Gregorian calendar */
+const GREGORIAN_MARCH_EPOCH = -719_468;
+
+/** Epoch day of 1/3/0 in the Julian calendar */
+const JULIAN_MARCH_EPOCH = -719_470;
+
+/** Epoch day of 1/1/1 AH in the tabular Hijri calendar (civil epoch, Friday July 16th 622 Julian) */
+const HIJRI_EPOCH = -492_148;
+
+/**
+ * Returns the day of year of `monthDay` of `month` in a year starting on March 1st, i.e. a year in
+ * which the month lengths are regular and February comes last
+ */
+const getMarchYearDay = (month: number, monthDay: number): number =>
+  Math.floor((153 * MNumber.intModulo(12)(month + 9) + 2) / 5) + monthDay - 1;
+
+/**
+ * Returns the month and day of month of day `marchYearDay` of a year starting on March 1st. Inverse
+ * of `getMarchYearDay`
+ */
+const fromMarchYearDay = (marchYearDay: number): readonly [month: number, monthDay: number] => {
+  const monthIndex = Math.floor((5 * marchYearDay + 2) / 153);
+  return [
+    monthIndex < 10 ? monthIndex + 3 : monthIndex - 9,
+    marchYearDay - Math.floor((153 * monthIndex + 2) / 5) + 1,
+  ];
+};
+
+/**
+ * Returns a function that checks that `month` and `monthDay` of `parts` exist in a calendar whose
+ * month lengths are given by `daysInMonth`
+ */
+const checkMonthAndMonthDay =
+  (daysInMonth: MTypes.OneArgFunction<MTypes.Pair<number, number>, number>) =>
+  ({ year, month, monthDay }: InputParts): Result.Result<InputParts, MInputError.Type> =>
+    Result.gen(function* () {
+      yield* MInputError.assertInRange({
+        min: 1,
+        max: 12,
+        minIncluded: true,
+        maxIncluded: true,
+        offset: 0,
+        name: "'month'",
+      })(month);
+      yield* MInputError.assertInRange({
+        min: 1,
+        max: daysInMonth([year, month]),
+        minIncluded: true,
+        maxIncluded: true,
+        offset: 0,
+        name: "'monthDay'",
+      })(monthDay);
+      return { year, month, monthDay };
+    });
+
+/** Era of an astronomical year in a calendar with two eras, e.g. BC and AD */
+const getEraOfAstronomicalYear = (year: number): number => (year > 0 ? 1 : 0);
+
+/**
+ * Builds a calendar with the month lengths of the Gregorian calendar and a leap year every four
+ * years, from the number of days in a 400-year (Gregorian) or 4-year (Julian) period
+ */
+const makeSolarCalendar = ({
+  name,
+  intlId,
+  marchEpoch,
+  yearIsLeap,
+  cycleYears,
+  cycleDays,
+  toYearInCycle,
+}: {
+  readonly name: string;
+  readonly intlId: Option.Option<string>;
+  readonly marchEpoch: number;
+  readonly yearIsLeap: MTypes.OneArgFunction<number, boolean>;
+  readonly cycleYears: number;
+  readonly cycleDays: number;
+  readonly toYearInCycle: MTypes.OneArgFunction<number, number>;
+}): Type =>
+  Type.make({
+    name,
+    intlId,
+    eraSampleDays: [-800_000, 0],
+    toParts: (epochDay) => {
+      const [cycle, dayInCycle] = MNumber.quotientAndRemainder(cycleDays)(epochDay - marchEpoch);
+      const yearInCycle = toYearInCycle(dayInCycle);
+      const yearStartDay =
+        365 * yearInCycle +
+        Math.floor(yearInCycle / 4) -
+        (cycleYears === 400 ? Math.floor(yearInCycle / 100) : 0);
+      const [month, monthDay] = fromMarchYearDay(dayInCycle - yearStartDay);
+      const year = cycle * cycleYears + yearInCycle + (month <= 2 ? 1 : 0);
+      return Result.succeed({ era: getEraOfAstronomicalYear(year), year, month, monthDay });
+    },
+    fromParts: flow(
+      checkMonthAndMonthDay(
+        ([year, month]) =>
+          (yearIsLeap(year) ? LEAP_YEAR_DAYS_IN_MONTH : COMMON_YEAR_DAYS_IN_MONTH)[month - 1]!,
+      ),
+      Result.map(({ year, month, monthDay }) => {
+        const [cycle, yearInCycle] = MNumber.quotientAndRemainder(cycleYears)(
+          month <= 2 ? year - 1 : year,
+        );
+        return (
+          marchEpoch +
+          cycle * cycleDays +
+          365 * yearInCycle +
+          Math.floor(yearInCycle / 4) -
+          (cycleYears === 400 ? Math.floor(yearInCycle / 100) : 0) +
+          getMarchYearDay(month, monthDay)
+        );
+      }),
+    ),
+  });
+
+/**
+ * `CVCalendar` instance that represents the proleptic Gregorian calendar. Era 0 is BC, era 1 is AD.
+ * It gives the same results as `CVDateTime.getYear`, `CVDateTime.getMonth` and
+ * `CVDateTime.getMonthDay`
+ *
+ * @category Instances
+ */
+export const gregorian: Type = makeSolarCalendar({
+  name: 'Gregorian',
+  intlId: Option.some('gregory'),
+  marchEpoch: GREGORIAN_MARCH_EPOCH,
+  yearIsLeap: (year) =>
+    MNumber.intModulo(4)(year) === 0 &&
+    (MNumber.intModulo(100)(year) !== 0 || MNumber.intModulo(400)(year) === 0),
+  cycleYears: 400,
+  cycleDays: 146_097,
+  toYearInCycle: (dayInCycle) =>
+    Math.floor(
+      (dayInCycle -
+        Math.floor(dayInCycle / 1460) +
+        Math.floor(dayInCycle / 36_524) -
+        Math.floor(dayInCycle / 146_096)) /
+        365,
+    ),
+});
+
+/**
+ * `CVCalendar` instance that represents the proleptic Julian calendar, in which every fourth year
+ * is a leap year. Era 0 is BC, era 1 is AD. The `Intl` API does not know this calendar, so the
+ * names of the Gregorian calendar are used.
+ *
+ * @category Instances
+ */
+export const julian: Type = makeSolarCalendar({
+  name: 'Julian',
+  intlId: Option.none(),
+  marchEpoch: JULIAN_MARCH_EPOCH,
+  yearIsLeap: (year) => MNumber.intModulo(4)(year) === 0,
+  cycleYears: 4,
+  cycleDays: 1461,
+  toYearInCycle: (dayInCycle) => Math.min(Math.floor(dayInCycle / 365), 3),
+});
+
+/** Returns true if `year` is a leap year of the tabular Hijri calendar */
+const hijriYearIsLeap = (year: number): boolean => MNumber.intModulo(30)(14 + 11 * year) < 11;
+
+/** Returns the epoch day of the first day of `month` of `year` in the tabular Hijri calendar */
+const getHijriMonthStartDay = (year: number, month: number): number =>
+  HIJRI_EPOCH + 354 * (year - 1) + Math.floor((3 + 11 * year) / 30) + Math.ceil(29.5 * (month - 1));
+
+/**
+ * `CVCalendar` instance that represents the tabular Hijri calendar, i.e. the arithmetical
+ * approximation of the Islamic lunar calendar used for civil purposes (civil epoch, leap years 2,
+ * 5, 7, 10, 13, 16, 18, 21, 24, 26 and 29 of each 30-year cycle). Odd months have 30 days, even
+ * months 29 days, except the twelfth month that has 30 days in leap years. It has a single era
+ * (AH). It gives the same results as the 'islamic-civil' calendar of the `Intl` API.
+ *
+ * @category Instances
+ */
+export const hijriTabular: Type = Type.make({
+  name: 'Hijri (tabular)',
+  intlId: Option.some('islamic-civil'),
+  eraSampleDays: [0],
+  toParts: (epochDay) => {
+    const year = Math.floor((30 * (epochDay - HIJRI_EPOCH) + 10_646) / 10_631);
+    const month = Math.min(
+      12,
+      Math.ceil((epochDay - 29 - getHijriMonthStartDay(year, 1)) / 29.5) + 1,
+    );
+    return Result.succeed({
+      era: 0,
+      year,
+      month,
+      monthDay: epochDay - getHijriMonthStartDay(year, month) + 1,
+    });
+  },
+  fromParts: flow(
+    checkMonthAndMonthDay(([year, month]) =>
+      month === 12 ? (hijriYearIsLeap(year) ? 30 : 29) : 30 - MNumber.intModulo(2)(month - 1),
+    ),
+    Result.map(({ year, month, monthDay }) => getHijriMonthStartDay(year, month) + monthDay - 1),
+  ),
+});
+
+/** Japanese eras since the adoption of the Gregorian calendar */
+const JAPANESE_ERAS: MTypes.ReadonlyOverOne<{
+  readonly name: string;
+  readonly startYear: number;
+  readonly startMonth: number;
+  readonly startMonthDay: number;
+}> = [
+  { name: 'Meiji', startYear: 1868, startMonth: 10, startMonthDay: 23 },
+  { name: 'Taishō', startYear: 1912, startMonth: 7, startMonthDay: 30 },
+  { name: 'Shōwa', startYear: 1926, startMonth: 12, startMonthDay: 25 },
+  { name: 'Heisei', startYear: 1989, startMonth: 1, startMonthDay: 8 },
+  { name: 'Reiwa', startYear: 2019, startMonth: 5, startMonthDay: 1 },
+];
+
+/** Epoch day of the first day of each Japanese era */
+const JAPANESE_ERA_START_DAYS = Array.map(
+  JAPANESE_ERAS,
+  ({ startYear, startMonth, startMonthDay }) =>
+    pipe(
+      gregorian.fromParts({ year: startYear, month: startMonth, monthDay: startMonthDay }),
+      Result.getOrThrowWith(Function.identity),
+    ),
+);
+
+/**
+ * `CVCalendar` instance that represents the Japanese calendar, i.e. the Gregorian calendar with
+ * years counted from the start of each imperial era. Eras go from 0 (Meiji, started on October
+ * 23rd, 1868) to 4 (Reiwa, started on May 1st, 2019). Days before the Meiji era cannot be expressed
+ * in this calendar. `fromParts` requires an era.
+ *
+ * @category Instances
+ */
+export const japanese: Type = Type.make({
+  name: 'Japanese',
+  intlId: Option.some('japanese'),
+  eraSampleDays: JAPANESE_ERA_START_DAYS,
+  toParts: (epochDay) =>
+    Result.gen(function* () {
+      const era = yield* pipe(
+        JAPANESE_ERA_START_DAYS,
+        Array.findLastIndex((startDay) => startDay <= epochDay),
+        Result.fromOption(
+          () =>
+            new MInputError.Type({
+              message:
+                'Expected a day on or after the start of the Meiji era to be expressed in the Japanese calendar',
+            }),
+        ),
+      );
+      const { year, month, monthDay } = yield* gregorian.toParts(epochDay);
+      return { era, year: year - JAPANESE_ERAS[era]!.startYear + 1, month, monthDay };
+    }),
+  fromParts: ({ era, year, month, monthDay }) =>
+    Result.gen(function* () {
+      if (era === undefined)
+        return yield* Result.fail(
+          new MInputError.Type({
+            message: 'Expected an era to be provided to build a day in the Japanese calendar',
+          }),
+        );
+      const validatedEra = yield* MInputError.assertInRange({
+        min: 0,
+        max: JAPANESE_ERAS.length - 1,
+        minIncluded: true,
+        maxIncluded: true,
+        offset: 0,
+        name: "'era'",
+      })(era);
+      const { name, startYear } = JAPANESE_ERAS[validatedEra]!;
+      const epochDay = yield* gregorian.fromParts({
+        year: startYear + year - 1,
+        month,
+        monthDay,
+      });
+      const nextEraStartDay = JAPANESE_ERA_START_DAYS[validatedEra + 1];
+      if (
+        epochDay < JAPANESE_ERA_START_DAYS[validatedEra]! ||
+        (nextEraStartDay !== undefined && epochDay >= nextEraStartDay)
+      )
+        return yield* Result.fail(
+          new MInputError.Type({
+            message: `Expected year ${year}, month ${month} and day ${monthDay} to belong to the ${name} era`,
+          }),
+        );
+      return epochDay;
+    }),
+});
+
+/**
+ * Returns the `name` property of `self`
+ *
+ * @category Getters
+ */
+export const name: MTypes.OneArgFunction<Type, string> = Struct.get('name');
+
+/**
+ * Returns the `intlId` property of `self`
+ *
+ * @category Getters
+ */
+export const intlId: MTypes.OneArgFunction<Type, Option.Option<string>> = Struct.get('intlId');
+
+/**
+ * Returns the `eraSampleDays` property of `self`
+ *
+ * @category Getters
+ */
+export const eraSampleDays: MTypes.OneArgFunction<
+  Type,
+  MTypes.ReadonlyOverOne<number>
+> = Struct.get('eraSampleDays');
+
+/**
+ * Returns the `toParts` property of `self`
+ *
+ * @category Getters
+ */
+export const toParts: MTypes.OneArgFunction<Type, Type['toParts']> = Struct.get('toParts');
+
+/**
+ * Returns the `fromParts` property of `self`
+ *
+ * @category Getters
+ */
+export const fromParts: MTypes.OneArgFunction<Type, Type['fromParts']> = Struct.get('fromParts');
@@ -0,0 +1,985 @@
+/**
+ * This module implements an immutable `CVCron` object, i.e. a schedule written as a cron
+ * expression. Both the 5-field form (minute, hour, day of month, month, day of week) and the
+ * 6-field form (second, minute, hour, day of month, month, day of week) are supported.
+ *
+ * Each field accepts `*`, values, ranges (`1-5`), steps (`*\/15`, `10-40/10`, `5/10`) and
+ * comma-separated lists of these. Months and days of week can also be written with their English
+ * three-letter names (`JAN`-`DEC`, `SUN`-`SAT`), case-insensitively. Days of week go from 0
+ * (Sunday) to 7 (Sunday again). `?` is a synonym of `*` in the day-of-month and day-of-week fields.
+ * The day-of-month field also accepts `L` (last day of the month), `LW` (last weekday of the month)
+ * and `nW` (weekday nearest to day n, without leaving the month). The day-of-week field also
+ * accepts `L` (last day of the week, i.e. Saturday, normalized to `6`), `nL` (last day n of the
+ * month) and `n#k` (k-th day n of the month).
+ *
+ * Like in most cron implementations, when both the day-of-month and the day-of-week fields are
+ * restricted (i.e. do not start with `*` or `?`), a day matches if it matches either field.
+ * Otherwise, it must match both fields.
+ *
+ * Given a `CVDateTime` and a zone offset, a `CVCron` can compute the next and previous matching
+ * `CVDateTime`'s. It can also be described in plain English.
+ */
+
+import { flow, pipe } from 'effect';
+import * as Array from 'effect/Array';
+import * as Function from 'effect/Function';
+import * as Option from 'effect/Option';
+import * as Result from 'effect/Result';
+import * as Schema from 'effect/Schema';
+import * as Struct from 'effect/Struct';
+
+import * as MData from '@parischap/effect-lib/MData';
+import * as MInputError from '@parischap/effect-lib/MInputError';
+import * as MRegExp from '@parischap/effect-lib/MRegExp';
+import * as MRegExpString from '@parischap/effect-lib/MRegExpString';
+import * as MString from '@parischap/effect-lib/MString';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+import * as CVTemplate from '../formatting/template/Template.js';
+import * as CVTemplateFormatter from '../formatting/template/TemplateFormatter.js';
+import * as CVTemplateParser from '../formatting/template/TemplateParser.js';
+import * as CVTemplatePlaceholder from '../formatting/template/TemplatePart/TemplatePlaceholder/TemplatePlaceholder.js';
+import * as CVTemplateSeparator from '../formatting/template/TemplatePart/TemplateSeparator/TemplateSeparator.js';
+import * as CVDateTime from './DateTime.js';
+
+/**
+ * Module tag
+ *
+ * @category Module markers
+ */
+export const moduleTag = '@parischap/conversions/DateTime/Cron/';
+const TypeId: unique symbol = Symbol.for(moduleTag) as TypeId;
+type TypeId = typeof TypeId;
+
+/**
+ * Type of an element of a cron field. In the day-of-week field, ranges keep their values between 0
+ * and 7 whereas the weekdays of `LastWeekday` and `NthWeekday` items are stored between 0 (Sunday)
+ * and 6 (Saturday)
+ *
+ * - `All`: `*` or `?`, possibly with a step, e.g. `*\/15`
+ * - `Range`: a value, a range or a stepped range, e.g. `5`, `1-5`, `10-40/10`
+ * - `LastDay`: `L` in the day-of-month field
+ * - `LastWeekdayOfMonth`: `LW` in the day-of-month field
+ * - `NearestWeekday`: `nW` in the day-of-month field
+ * - `LastWeekday`: `nL` in the day-of-week field
+ * - `NthWeekday`: `n#k` in the day-of-week field
+ *
+ * @category Models
+ */
+export type FieldItem =
+  | { readonly _tag: 'All'; readonly step: number }
+  | {
+      readonly _tag: 'Range';
+      readonly start: number;
+      readonly end: number;
+      readonly step: number;
+    }
+  | { readonly _tag: 'LastDay' }
+  | { readonly _tag: 'LastWeekdayOfMonth' }
+  | { readonly _tag: 'NearestWeekday'; readonly day: number }
+  | { readonly _tag: 'LastWeekday'; readonly weekday: number }
+  | { readonly _tag: 'NthWeekday'; readonly weekday: number; readonly ordinal: number };
+
+/**
+ * Type of a cron field, i.e. a non-empty list of `FieldItem`'s
+ *
+ * @category Models
+ */
+export type Field = MTypes.ReadonlyOverOne<FieldItem>;
+
+/**
+ * Type that represents a CVCron
+ *
+ * @category Models
+ */
+export class Type extends MData.Class {
+  /** True if this cron was written with 6 fields. If false, `second` is always `0` */
+  readonly hasSeconds: boolean;
+
+  /** Second field */
+  readonly second: Field;
+
+  /** Minute field */
+  readonly minute: Field;
+
+  /** Hour field */
+  readonly hour: Field;
+
+  /** Day-of-month field */
+  readonly monthDay: Field;
+
+  /** Month field */
+  readonly month: Field;
+
+  /** Day-of-week field */
+  readonly weekday: Field;
+
+  /** Returns the `id` of `this` */
+  [MData.idSymbol](): string | (() => string) {
+    return function idSymbol(this: Type) {
+      return toExpression(this);
+    };
+  }
+
+  /** Class constructor */
+  private constructor({
+    hasSeconds,
+    second,
+    minute,
+    hour,
+    monthDay,
+    month,
+    weekday,
+  }: MTypes.Data<Type>) {
+    super();
+    this.hasSeconds = hasSeconds;
+    this.second = second;
+    this.minute = minute;
+    this.hour = hour;
+    this.monthDay = monthDay;
+    this.month = month;
+    this.weekday = weekday;
+  }
+
+  /** Static constructor */
+  static make(params: MTypes.Data<Type>): Type {
+    return new Type(params);
+  }
+
+  /** Returns the TypeMarker of the class */
+  protected get [TypeId](): TypeId {
+    return TypeId;
+  }
+}
+
+/** Description of the values a field can take */
+interface FieldSpec {
+  readonly min: number;
+  readonly max: number;
+  readonly names: ReadonlyArray<string>;
+  readonly isDayOfMonth: boolean;
+  readonly isDayOfWeek: boolean;
+}
+
+const MONTH_NAMES = [
+  'JAN',
+  'FEB',
+  'MAR',
+  'APR',
+  'MAY',
+  'JUN',
+  'JUL',
+  'AUG',
+  'SEP',
+  'OCT',
+  'NOV',
+  'DEC',
+];
+
+const WEEKDAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+const ENGLISH_MONTHS = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+];
+
+const ENGLISH_WEEKDAYS = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+
+const ENGLISH_ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth'];
+
+const numericSpec = (min: number, max: number): FieldSpec => ({
+  min,
+  max,
+  names: [],
+  isDayOfMonth: false,
+  isDayOfWeek: false,
+});
+
+const secondSpec = numericSpec(0, 59);
+const minuteSpec = numericSpec(0, 59);
+const hourSpec = numericSpec(0, 23);
+const monthDaySpec: FieldSpec = { ...numericSpec(1, 31), isDayOfMonth: true };
+// Month names start at 1
+const monthSpec: FieldSpec = { ...numericSpec(1, 12), names: ['', ...MONTH_NAMES] };
+const weekdaySpec: FieldSpec = { ...numericSpec(0, 7), names: WEEKDAY_NAMES, isDayOfWeek: true };
+
+/**
+ * If no match is found within that many years, we consider that a `CVCron` never matches. This is
+ * more than the period after which weekdays repeat on the same dates within a century
+ */
+const MAX_SEARCH_YEARS = 30;
+
+/** Regular expression matching an unsigned integer */
+const UNSIGNED_INTEGER_REGEXP = pipe(
+  MRegExpString.digit,
+  MRegExpString.oneOrMore,
+  MRegExpString.makeLine,
+  MRegExp.fromRegExpString(),
+);
+
+/** Regular expression matching a strictly positive integer */
+const STEP_REGEXP = pipe(
+  MRegExpString.digit,
+  MRegExpString.zeroOrMore,
+  MString.prepend(MRegExpString.nonZeroDigit),
+  MRegExpString.makeLine,
+  MRegExp.fromRegExpString(),
+);
+
+/** Regular expression matching an ordinal between 1 and 5 */
+const ORDINAL_REGEXP = pipe(
+  MRegExpString.anyCharIn(['1', '2', '3', '4', '5']),
+  MRegExpString.makeLine,
+  MRegExp.fromRegExpString(),
+);
+
+/** Regular expression matching the whitespace that separates the fields of a cron expression */
+const FIELD_SEPARATOR_REGEXP = pipe(
+  MRegExpString.space,
+  MRegExpString.oneOrMore,
+  MRegExp.fromRegExpString(),
+);
+
+/** Reads a value of a field written as a number or, if the field has names, as a name */
+const parseValue =
+  (spec: FieldSpec, name: string) =>
+  (text: string): Result.Result<number, MInputError.Type> =>
+    Result.gen(function* () {
+      const nameIndex = text === '' ? -1 : spec.names.indexOf(text.toUpperCase());
+      if (nameIndex !== -1) return nameIndex;
+      const value = yield* pipe(
+        text,
+        MInputError.assertMatches({
+          regExp: UNSIGNED_INTEGER_REGEXP,
+          regExpDescriptor: `an integer${Array.isReadonlyArrayNonEmpty(spec.names) ? ' or a three-letter name' : ''}`,
+          name,
+        }),
+        Result.map((s) => +s),
+      );
+      return yield* MInputError.assertInRange({
+        min: spec.min,
+        max: spec.max,
+        minIncluded: true,
+        maxIncluded: true,
+        offset: 0,
+        name,
+      })(value);
+    });
+
+/** Reads a step */
+const parseStep = (name: string) => (text: string) =>
+  pipe(
+    text,
+    MInputError.assertMatches({
+      regExp: STEP_REGEXP,
+      regExpDescriptor: 'a strictly positive integer',
+      name: `${name} step`,
+    }),
+    Result.map((s) => +s),
+  );
+
+/** Days of week are stored between 0 and 6 */
+const normalizeWeekday = (spec: FieldSpec) => (value: number) =>
+  spec.isDayOfWeek ? value % 7 : value;
+
+/** Reads an element of a field */
+const parseFieldItem =
+  (spec: FieldSpec, name: string) =>
+  (text: string): Result.Result<FieldItem, MInputError.Type> =>
+    Result.gen(function* () {
+      const upperText = text.toUpperCase();
+      if (spec.isDayOfMonth) {
+        if (upperText === 'L') return { _tag: 'LastDay' } as const;
+        if (upperText === 'LW') return { _tag: 'LastWeekdayOfMonth' } as const;
+        if (upperText.endsWith('W'))
+          return {
+            _tag: 'NearestWeekday',
+            day: yield* parseValue(spec, name)(text.slice(0, -1)),
+          } as const;
+      }
+      if (spec.isDayOfWeek) {
+        // A bare `L` is the last day of the week, i.e. Saturday
+        if (upperText === 'L') return { _tag: 'Range', start: 6, end: 6, step: 1 } as const;
+        if (upperText.endsWith('L') && upperText.length > 1)
+          return {
+            _tag: 'LastWeekday',
+            weekday: pipe(yield* parseValue(spec, name)(text.slice(0, -1)), normalizeWeekday(spec)),
+          } as const;
+        const sharpIndex = text.indexOf('#');
+        if (sharpIndex !== -1)
+          return {
+            _tag: 'NthWeekday',
+            weekday: pipe(
+              yield* parseValue(spec, name)(text.slice(0, sharpIndex)),
+              normalizeWeekday(spec),
+            ),
+            ordinal: yield* pipe(
+              text.slice(sharpIndex + 1),
+              MInputError.assertMatches({
+                regExp: ORDINAL_REGEXP,
+                regExpDescriptor: 'an integer between 1 and 5',
+                name: `${name} ordinal`,
+              }),
+              Result.map((s) => +s),
+            ),
+          } as const;
+      }
+
+      const slashIndex = text.indexOf('/');
+      const [rangeText, step] =
+        slashIndex !== -1
+          ? [text.slice(0, slashIndex), yield* parseStep(name)(text.slice(slashIndex + 1))]
+          : [text, 1];
+
+      if (rangeText === '*' || (rangeText === '?' && (spec.isDayOfMonth || spec.isDayOfWeek)))
+        return { _tag: 'All', step } as const;
+
+      const hyphenIndex = rangeText.indexOf('-');
+      const start = yield* parseValue(
+        spec,
+        name,
+      )(hyphenIndex !== -1 ? rangeText.slice(0, hyphenIndex) : rangeText);
+      const end =
+        hyphenIndex !== -1
+          ? pipe(
+              yield* parseValue(spec, name)(rangeText.slice(hyphenIndex + 1)),
+              // `MON-SUN` ends on 7
+              (end) => (spec.isDayOfWeek && end === 0 ? 7 : end),
+            )
+          : // `5/10` means from 5 to the maximal value by steps of 10
+            slashIndex !== -1
+            ? spec.max
+            : start;
+      if (end < start)
+        return yield* Result.fail(
+          new MInputError.Type({
+            message: `Expected the start of ${name} range to be less than or equal to its end. Actual: '${rangeText}'`,
+          }),
+        );
+      return { _tag: 'Range', start, end, step } as const;
+    });
+
+/** Reads a field */
+const parseField =
+  (spec: FieldSpec, name: string) =>
+  (text: string): Result.Result<Field, MInputError.Type> =>
+    pipe(
+      text.split(','),
+      Array.map(parseFieldItem(spec, name)),
+      Result.all,
+      Result.map((items) => items as unknown as Field),
+    );
+
+/** Writes a value of a field */
+const valueToString = (spec: FieldSpec) => (value: number) =>
+  spec === monthSpec ? MONTH_NAMES[value - 1]! : `${value}`;
+
+/** Writes a field */
+const fieldToString = (spec: FieldSpec): MTypes.OneArgFunction<Field, string> =>
+  flow(
+    Array.map((item: FieldItem): string =>
+      item._tag === 'All'
+        ? item.step === 1
+          ? '*'
+          : `*/${item.step}`
+        : item._tag === 'Range'
+          ? pipe(
+              item.start === item.end
+                ? valueToString(spec)(item.start)
+                : `${valueToString(spec)(item.start)}-${valueToString(spec)(item.end)}`,
+              (range) => (item.step === 1 ? range : `${range}/${item.step}`),
+            )
+          : item._tag === 'LastDay'
+            ? 'L'
+            : item._tag === 'LastWeekdayOfMonth'
+              ? 'LW'
+              : item._tag === 'NearestWeekday'
+                ? `${item.day}W`
+                : item._tag === 'LastWeekday'
+                  ? `${item.weekday}L`
+                  : `${item.weekday}#${item.ordinal}`,
+    ),
+    Array.join(','),
+  );
+
+const fieldSchema = Schema.declare((input: unknown): input is Field => Array.isArray(input));
+
+/**
+ * Builds a `CVTemplatePlaceholder` that reads and writes the field at position `position` of a cron
+ * expression
+ */
+const fieldPlaceholder = <const N extends string>(name: N, position: number, spec: FieldSpec) =>
+  pipe(
+    CVTemplatePlaceholder.anythingBut({ name, forbiddenChars: [' '] }),
+    CVTemplatePlaceholder.modify({
+      descriptorMapper: (description) => `${description} read as cron field ${position}`,
+      postParser: function (this: CVTemplatePlaceholder.Type<N, Field>, text: string) {
+        return parseField(spec, `field ${position} (${this.label})`)(text);
+      },
+      preFormatter: flow(fieldToString(spec), Result.succeed),
+      t1SchemaInstance: fieldSchema,
+    }),
+  );
+
+const fiveFieldTemplate = CVTemplate.make(
+  fieldPlaceholder('minute', 1, minuteSpec),
+  CVTemplateSeparator.space,
+  fieldPlaceholder('hour', 2, hourSpec),
+  CVTemplateSeparator.space,
+  fieldPlaceholder('monthDay', 3, monthDaySpec),
+  CVTemplateSeparator.space,
+  fieldPlaceholder('month', 4, monthSpec),
+  CVTemplateSeparator.space,
+  fieldPlaceholder('weekday', 5, weekdaySpec),
+);
+
+const sixFieldTemplate = CVTemplate.make(
+  fieldPlaceholder('second', 1, secondSpec),
+  CVTemplateSeparator.space,
+  fieldPlaceholder('minute', 2, minuteSpec),
+  CVTemplateSeparator.space,
+  fieldPlaceholder('hour', 3, hourSpec),
+  CVTemplateSeparator.space,
+  fieldPlaceholder('monthDay', 4, monthDaySpec),
+  CVTemplateSeparator.space,
+  fieldPlaceholder('month', 5, monthSpec),
+  CVTemplateSeparator.space,
+  fieldPlaceholder('weekday', 6, weekdaySpec),
+);
+
+const fiveFieldParser = CVTemplateParser.fromTemplate(fiveFieldTemplate);
+const sixFieldParser = CVTemplateParser.fromTemplate(sixFieldTemplate);
+const fiveFieldFormatter = CVTemplateFormatter.fromTemplate(fiveFieldTemplate);
+const sixFieldFormatter = CVTemplateFormatter.fromTemplate(sixFieldTemplate);
+
+const zeroField: Field = [{ _tag: 'Range', start: 0, end: 0, step: 1 }];
+
+/**
+ * Tries to build a `CVCron` from a cron expression with 5 or 6 fields separated by whitespace.
+ * Returns a `Success` if successful, a `Failure` otherwise. The error message indicates the
+ * position of the faulty field.
+ *
+ * @category Constructors
+ */
+export const parse = (expression: string): Result.Result<Type, MInputError.Type> => {
+  const fields = expression.trim().split(FIELD_SEPARATOR_REGEXP);
+  const normalized = Array.join(fields, ' ');
+  return fields.length === 5
+    ? pipe(
+        normalized,
+        fiveFieldParser.parse,
+        Result.map((parts) => Type.make({ hasSeconds: false, second: zeroField, ...parts })),
+      )
+    : fields.length === 6
+      ? pipe(
+          normalized,
+          sixFieldParser.parse,
+          Result.map((parts) => Type.make({ hasSeconds: true, ...parts })),
+        )
+      : Result.fail(
+          new MInputError.Type({
+            message: `Expected a cron expression to have 5 or 6 fields. Actual: ${expression.trim() === '' ? 0 : fields.length}`,
+          }),
+        );
+};
+
+/**
+ * Same as `parse` but returns directly a `CVCron` or throws if it cannot be built
+ *
+ * @category Constructors
+ */
+export const parseOrThrow: MTypes.OneArgFunction<string, Type> = flow(
+  parse,
+  Result.getOrThrowWith(Function.identity),
+);
+
+/**
+ * Returns the normalized cron expression of `self`: months are written with their names, days of
+ * week with numbers from 0 to 7 and `?` is replaced by `*`
+ *
+ * @category Destructors
+ */
+export const toExpression = (self: Type): string =>
+  self.hasSeconds ? sixFieldFormatter.formatOrThrow(self) : fiveFieldFormatter.formatOrThrow(self);
+
+/** Returns true if `value` belongs to `item` when `item` is an `All` or `Range` item */
+const rangeContains =
+  (spec: FieldSpec) =>
+  (value: number) =>
+  (item: FieldItem): boolean =>
+    item._tag === 'All'
+      ? (value - spec.min) % item.step === 0
+      : item._tag === 'Range' &&
+        value >= item.start &&
+        value <= item.end &&
+        (value - item.start) % item.step === 0;
+
+/** Returns the sorted values of a field that does not contain day-specific items */
+const fieldValues = (spec: FieldSpec) => (field: Field) =>
+  pipe(
+    Array.range(spec.min, spec.max),
+    Array.filter((value) => Array.some(field, rangeContains(spec)(value))),
+  );
+
+/** Returns true if a day field is restricted, i.e. does not start with `*` or `?` */
+const isRestricted = (field: Field): boolean => field[0]._tag !== 'All';
+
+/** Returns the weekday (from 0 for Sunday to 6) of `dateTime` */
+const getWeekday0 = (dateTime: CVDateTime.Type): number => CVDateTime.getWeekday(dateTime) % 7;
+
+/** Returns the last day of the month of `dateTime` */
+const getLastMonthDay: MTypes.OneArgFunction<CVDateTime.Type, number> =
+  CVDateTime.getNumberOfDaysInMonth;
+
+/** Returns the weekday closest to `day` without leaving the month of `dateTime` */
+const nearestWeekday = (dateTime: CVDateTime.Type, day: number): number => {
+  const lastMonthDay = getLastMonthDay(dateTime);
+  const target = Math.min(day, lastMonthDay);
+  const weekday = getWeekday0(CVDateTime.setMonthDayOrThrow(target)(dateTime));
+  return weekday === 6
+    ? target === 1
+      ? 3
+      : target - 1
+    : weekday === 0
+      ? target === lastMonthDay
+        ? target - 2
+        : target + 1
+      : target;
+};
+
+const monthDayMatches =
+  (field: Field) =>
+  (dateTime: CVDateTime.Type): boolean => {
+    const monthDay = CVDateTime.getMonthDay(dateTime);
+    return Array.some(field, (item) =>
+      item._tag === 'LastDay'
+        ? monthDay === getLastMonthDay(dateTime)
+        : item._tag === 'LastWeekdayOfMonth'
+          ? monthDay === nearestWeekday(dateTime, 31)
+          : item._tag === 'NearestWeekday'
+            ? monthDay === nearestWeekday(dateTime, item.day)
+            : rangeContains(monthDaySpec)(monthDay)(item),
+    );
+  };
+
+const weekdayMatches =
+  (field: Field) =>
+  (dateTime: CVDateTime.Type): boolean => {
+    const weekday = getWeekday0(dateTime);
+    const monthDay = CVDateTime.getMonthDay(dateTime);
+    return Array.some(field, (item) =>
+      item._tag === 'LastWeekday'
+        ? weekday === item.weekday && monthDay + 7 > getLastMonthDay(dateTime)
+        : item._tag === 'NthWeekday'
+          ? weekday === item.weekday && Math.ceil(monthDay / 7) === item.ordinal
+          : rangeContains(weekdaySpec)(weekday)(item) ||
+            // Sunday is both 0 and 7
+            (weekday === 0 && rangeContains(weekdaySpec)(7)(item)),
+    );
+  };
+
+const dayMatches = (self: Type): MTypes.OneArgFunction<CVDateTime.Type, boolean> => {
+  const monthDayPredicate = monthDayMatches(self.monthDay);
+  const weekdayPredicate = weekdayMatches(self.weekday);
+  return isRestricted(self.monthDay) && isRestricted(self.weekday)
+    ? (dateTime) => monthDayPredicate(dateTime) || weekdayPredicate(dateTime)
+    : (dateTime) => monthDayPredicate(dateTime) && weekdayPredicate(dateTime);
+};
+
+const setTime =
+  (hour: number, minute: number, second: number): MTypes.OneArgFunction<CVDateTime.Type> =>
+  (dateTime) =>
+    pipe(
+      dateTime,
+      CVDateTime.setHour23OrThrow(hour),
+      CVDateTime.setMinuteOrThrow(minute),
+      CVDateTime.setSecondOrThrow(second),
+    );
+
+/**
+ * Searches the first (if `isForward` is true) or last (otherwise) `CVDateTime` that matches `self`
+ * starting from `start` included
+ */
+const search = (self: Type, isForward: boolean) => {
+  const seconds = fieldValues(secondSpec)(self.second);
+  const minutes = fieldValues(minuteSpec)(self.minute);
+  const hours = fieldValues(hourSpec)(self.hour);
+  const months = fieldValues(monthSpec)(self.month);
+  const dayPredicate = dayMatches(self);
+
+  // Returns the first value of `values` greater (forward) or less (backward) than or equal to `value`
+  const findValue = (values: ReadonlyArray<number>, value: number): Option.Option<number> =>
+    isForward
+      ? Array.findFirst(values, (v) => v >= value)
+      : Array.findLast(values, (v) => v <= value);
+
+  const [firstHour, firstMinute, firstSecond] = isForward ? [0, 0, 0] : [23, 59, 59];
+  const toNextDay: MTypes.OneArgFunction<CVDateTime.Type> = flow(
+    CVDateTime.offsetDaysOrThrow(isForward ? 1 : -1),
+    setTime(firstHour, firstMinute, firstSecond),
+  );
+
+  // Moves to the first second (forward) or last second (backward) of the next matching month
+  const toNextMonth: MTypes.OneArgFunction<CVDateTime.Type> = isForward
+    ? flow(
+        CVDateTime.toFirstMonthDayOrThrow,
+        CVDateTime.offsetMonthsOrThrow(1, false),
+        setTime(firstHour, firstMinute, firstSecond),
+      )
+    : flow(CVDateTime.toFirstMonthDayOrThrow, toNextDay);
+
+  // Moves to the first second (forward) or last second (backward) of the next hour
+  const toNextHour: MTypes.OneArgFunction<CVDateTime.Type> = flow(
+    CVDateTime.setMinuteOrThrow(isForward ? 59 : 0),
+    CVDateTime.setSecondOrThrow(isForward ? 59 : 0),
+    CVDateTime.offsetSecondsOrThrow(isForward ? 1 : -1),
+  );
+
+  // Moves to the first second (forward) or last second (backward) of the next minute
+  const toNextMinute: MTypes.OneArgFunction<CVDateTime.Type> = flow(
+    CVDateTime.setSecondOrThrow(isForward ? 59 : 0),
+    CVDateTime.offsetSecondsOrThrow(isForward ? 1 : -1),
+  );
+
+  return (start: CVDateTime.Type): Option.Option<CVDateTime.Type> => {
+    const limitYear =
+      CVDateTime.getYear(start) + (isForward ? MAX_SEARCH_YEARS : -MAX_SEARCH_YEARS);
+
+    // Each step either returns a result or moves strictly towards `limitYear`
+    const searchFrom = (current: CVDateTime.Type): Option.Option<CVDateTime.Type> => {
+      if (
+        isForward
+          ? CVDateTime.getYear(current) > limitYear
+          : CVDateTime.getYear(current) < limitYear
+      )
+        return Option.none();
+      if (!Array.contains(months, CVDateTime.getMonth(current)))
+        return searchFrom(toNextMonth(current));
+      if (!dayPredicate(current)) return searchFrom(toNextDay(current));
+
+      const currentHour = CVDateTime.getHour23(current);
+      return pipe(
+        findValue(hours, currentHour),
+        Option.match({
+          onNone: () => searchFrom(toNextDay(current)),
+          onSome: (hour) => {
+            const atHour =
+              hour === currentHour ? current : setTime(hour, firstMinute, firstSecond)(current);
+            const currentMinute = CVDateTime.getMinute(atHour);
+            return pipe(
+              findValue(minutes, currentMinute),
+              Option.match({
+                onNone: () => searchFrom(toNextHour(atHour)),
+                onSome: (minute) => {
+                  const atMinute =
+                    minute === currentMinute
+                      ? atHour
+                      : pipe(
+                          atHour,
+                          CVDateTime.setMinuteOrThrow(minute),
+                          CVDateTime.setSecondOrThrow(firstSecond),
+                        );
+                  return pipe(
+                    findValue(seconds, CVDateTime.getSecond(atMinute)),
+                    Option.match({
+                      onNone: () => searchFrom(toNextMinute(atMinute)),
+                      onSome: (second) =>
+                        Option.some(CVDateTime.setSecondOrThrow(second)(atMinute)),
+                    }),
+                  );
+                },
+              }),
+            );
+          },
+        }),
+      );
+    };
+
+    return searchFrom(start);
+  };
+};
+
+/**
+ * Returns the first `CVDateTime` strictly after `dateTime` that matches `self`, with local times
+ * evaluated at zone offset `zoneOffset` (which defaults to the zone offset of `dateTime`). The
+ * result is expressed with that zone offset. Returns a `None` if `self` never matches, e.g. for `0
+ * 0 30 2 *`.
+ *
+ * @category Utils
+ */
+export const next =
+  (dateTime: CVDateTime.Type, zoneOffset: number = CVDateTime.zoneOffset(dateTime)) =>
+  (self: Type): Option.Option<CVDateTime.Type> =>
+    pipe(
+      dateTime,
+      CVDateTime.setZoneOffsetKeepTimestampOrThrow(zoneOffset),
+      CVDateTime.setMillisecondOrThrow(0),
+      CVDateTime.offsetSecondsOrThrow(1),
+      search(self, true),
+    );
+
+/**
+ * Returns the last `CVDateTime` strictly before `dateTime` that matches `self`, with local times
+ * evaluated at zone offset `zoneOffset` (which defaults to the zone offset of `dateTime`). The
+ * result is expressed with that zone offset. Returns a `None` if `self` never matches.
+ *
+ * @category Utils
+ */
+export const previous =
+  (dateTime: CVDateTime.Type, zoneOffset: number = CVDateTime.zoneOffset(dateTime)) =>
+  (self: Type): Option.Option<CVDateTime.Type> =>
+    pipe(
+      dateTime,
+      CVDateTime.setZoneOffsetKeepTimestampOrThrow(zoneOffset),
+      (localDateTime) =>
+        CVDateTime.getMillisecond(localDateTime) === 0
+          ? CVDateTime.offsetSecondsOrThrow(-1)(localDateTime)
+          : CVDateTime.setMillisecondOrThrow(0)(localDateTime),
+      search(self, false),
+    );
+
+/** Joins `items` with commas and a final 'and' */
+const joinWithAnd = (items: ReadonlyArray<string>): string =>
+  items.length <= 1
+    ? Array.join(items, '')
+    : `${Array.join(items.slice(0, -1), ', ')} and ${items[items.length - 1]}`;
+
+type RangeItem = Extract<FieldItem, { readonly _tag: 'Range' }>;
+
+const isPlainRange = (item: FieldItem): item is RangeItem =>
+  item._tag === 'Range' && item.step === 1;
+
+/**
+ * Describes `field`. Values and ranges without a step are grouped in a single phrase built by
+ * `describePlain`. Other items are described one by one by `describeOther`
+ */
+const describeField =
+  ({
+    valueToText,
+    describePlain,
+    describeOther,
+  }: {
+    readonly valueToText: MTypes.OneArgFunction<number, string>;
+    readonly describePlain: (list: string, isPlural: boolean) => string;
+    readonly describeOther: MTypes.OneArgFunction<FieldItem, string>;
+  }) =>
+  (field: Field): string => {
+    const plain = Array.filter(field, isPlainRange);
+    const plainDescriptions = Array.isReadonlyArrayNonEmpty(plain)
+      ? [
+          describePlain(
+            joinWithAnd(
+              Array.map(plain, ({ start, end }) =>
+                start === end
+                  ? valueToText(start)
+                  : `${valueToText(start)} through ${valueToText(end)}`,
+              ),
+            ),
+            plain.length > 1 || plain[0].start !== plain[0].end,
+          ),
+        ]
+      : [];
+    return joinWithAnd([
+      ...plainDescriptions,
+      ...pipe(
+        field,
+        Array.filter((item) => !isPlainRange(item)),
+        Array.map(describeOther),
+      ),
+    ]);
+  };
+
+const describeTimeField = (unit: string, isFirst: boolean): MTypes.OneArgFunction<Field, string> =>
+  describeField({
+    valueToText: (value) => `${value}`,
+    describePlain: (list, isPlural) =>
+      `${isFirst ? 'at ' : ''}${unit}${isPlural ? 's' : ''} ${list}`,
+    describeOther: (item) =>
+      item._tag === 'All'
+        ? item.step === 1
+          ? `every ${unit}`
+          : `every ${item.step} ${unit}s`
+        : item._tag === 'Range'
+          ? `every ${item.step} ${unit}s from ${item.start} through ${item.end}`
+          : '',
+  });
+
+const isSingleValue = (field: Field): boolean =>
+  field.length === 1 && field[0]._tag === 'Range' && field[0].start === field[0].end;
+
+const isEveryUnit = (field: Field): boolean =>
+  field.length === 1 && field[0]._tag === 'All' && field[0].step === 1;
+
+const pad2 = (value: number) => `${value}`.padStart(2, '0');
+
+const singleValue = (field: Field): number => (field[0]._tag === 'Range' ? field[0].start : 0);
+
+const describeTime = (self: Type): string => {
+  const fields: ReadonlyArray<readonly [string, Field]> = self.hasSeconds
+    ? [
+        ['second', self.second],
+        ['minute', self.minute],
+        ['hour', self.hour],
+      ]
+    : [
+        ['minute', self.minute],
+        ['hour', self.hour],
+      ];
+  if (Array.every(fields, ([, field]) => isSingleValue(field)))
+    return `at ${pad2(singleValue(self.hour))}:${pad2(singleValue(self.minute))}${self.hasSeconds ? `:${pad2(singleValue(self.second))}` : ''}`;
+
+  const descriptions: Array<string> = [];
+  for (const [index, [unit, field]] of fields.entries()) {
+    if (index > 0 && Array.every(fields.slice(index), ([, field]) => isEveryUnit(field))) {
+      // 'at minute 5 of every hour' but 'every 5 minutes'
+      const [, previousField] = fields[index - 1]!;
+      if (previousField[0]._tag !== 'All') descriptions.push(`every ${unit}`);
+      break;
+    }
+    descriptions.push(describeTimeField(unit, index === 0)(field));
+  }
+  return Array.join(descriptions, ' of ');
+};
+
+const describeMonthDay: MTypes.OneArgFunction<Field, string> = describeField({
+  valueToText: (value) => `${value}`,
+  describePlain: (list, isPlural) => `on day${isPlural ? 's' : ''} ${list} of the month`,
+  describeOther: (item) =>
+    item._tag === 'LastDay'
+      ? 'on the last day of the month'
+      : item._tag === 'LastWeekdayOfMonth'
+        ? 'on the last weekday of the month'
+        : item._tag === 'NearestWeekday'
+          ? `on the weekday nearest day ${item.day} of the month`
+          : item._tag === 'All'
+            ? item.step === 1
+              ? 'every day'
+              : `every ${item.step} days`
+            : item._tag === 'Range'
+              ? `every ${item.step} days from day ${item.start} through ${item.end} of the month`
+              : '',
+});
+
+const englishWeekday = (weekday: number): string => ENGLISH_WEEKDAYS[weekday % 7]!;
+
+const describeWeekday: MTypes.OneArgFunction<Field, string> = describeField({
+  valueToText: englishWeekday,
+  describePlain: (list) => `on ${list}`,
+  describeOther: (item) =>
+    item._tag === 'LastWeekday'
+      ? `on the last ${englishWeekday(item.weekday)} of the month`
+      : item._tag === 'NthWeekday'
+        ? `on the ${ENGLISH_ORDINALS[item.ordinal - 1]!} ${englishWeekday(item.weekday)} of the month`
+        : item._tag === 'All'
+          ? item.step === 1
+            ? 'every day'
+            : `every ${item.step} days of the week`
+          : item._tag === 'Range'
+            ? `every ${item.step} days of the week from ${englishWeekday(item.start)} through ${englishWeekday(item.end)}`
+            : '',
+});
+
+const englishMonth = (month: number): string => ENGLISH_MONTHS[month - 1]!;
+
+const describeMonth: MTypes.OneArgFunction<Field, string> = describeField({
+  valueToText: englishMonth,
+  describePlain: (list) => `in ${list}`,
+  describeOther: (item) =>
+    item._tag === 'All'
+      ? `every ${item.step} months`
+      : item._tag === 'Range'
+        ? `every ${item.step} months from ${englishMonth(item.start)} through ${englishMonth(item.end)}`
+        : '',
+});
+
+/**
+ * Returns a human-readable description of `self` in English, e.g. 'At 09:30, on Monday through
+ * Friday' for `30 9 * * 1-5`
+ *
+ * @category Destructors
+ */
+export const toDescription = (self: Type): string => {
+  const monthDayDescription = isEveryUnit(self.monthDay) ? '' : describeMonthDay(self.monthDay);
+  const weekdayDescription = isEveryUnit(self.weekday) ? '' : describeWeekday(self.weekday);
+  const dayDescription =
+    isRestricted(self.monthDay) && isRestricted(self.weekday)
+      ? `${monthDayDescription} or ${weekdayDescription}`
+      : pipe(
+          [monthDayDescription, weekdayDescription],
+          Array.filter((s) => s !== ''),
+          Array.join(', '),
+        );
+  const description = pipe(
+    [describeTime(self), dayDescription, isEveryUnit(self.month) ? '' : describeMonth(self.month)],
+    Array.filter((s) => s !== ''),
+    Array.join(', '),
+  );
+  return `${description.charAt(0).toUpperCase()}${description.slice(1)}`;
+};
+
+/**
+ * Returns the `hasSeconds` property of `self`
+ *
+ * @category Getters
+ */
+export const hasSeconds: MTypes.OneArgFunction<Type, boolean> = Struct.get('hasSeconds');
+
+/**
+ * Returns the `second` property of `self`
+ *
+ * @category Getters
+ */
+export const second: MTypes.OneArgFunction<Type, Field> = Struct.get('second');
+
+/**
+ * Returns the `minute` property of `self`
+ *
+ * @category Getters
+ */
+export const minute: MTypes.OneArgFunction<Type, Field> = Struct.get('minute');
+
+/**
+ * Returns the `hour` property of `self`
+ *
+ * @category Getters
+ */
+export const hour: MTypes.OneArgFunction<Type, Field> = Struct.get('hour');
+
+/**
+ * Returns the `monthDay` property of `self`
+ *
+ * @category Getters
+ */
+export const monthDay: MTypes.OneArgFunction<Type, Field> = Struct.get('monthDay');
+
+/**
+ * Returns the `month` property of `self`
+ *
+ * @category Getters
+ */
+export const month: MTypes.OneArgFunction<Type, Field> = Struct.get('month');
+
+/**
+ * Returns the `weekday` property of `self`
+ *
+ * @category Getters
+ */
+export const weekday: MTypes.OneArgFunction<Type, Field> = Struct.get('weekday');
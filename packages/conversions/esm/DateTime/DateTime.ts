@@ -17,6 +17,13 @@
  * `timestamp = t+zox3600` and `zoneOffset = 0`. That's the reason for the zonedTimestamp field
  * which is equal to `t+zox3600`. All calculations are performed UTC using zonedTimestamp instead of
  * timestamp.
+ *
+ * A `CVDateTime` object can also be attached to an IANA time zone (e.g. 'Europe/Paris'). In that
+ * case, the `zoneOffset` is no longer fixed: it is recalculated each time the timestamp changes so
+ * that it always matches the offset that prevails in that time zone at that timestamp. When a
+ * setter yields a local time that is ambiguous (it occurs twice when clocks are set back) or that
+ * does not exist (it is skipped when clocks are set forward), the local time is resolved according
+ * to the `CVDateTimeZoneDisambiguation` that was passed along with the time zone name.
  */
 
 import { flow, pipe } from 'effect';
@@ -32,17 +39,18 @@ import * as Struct from 'effect/Struct';
 
 import * as MData from '@parischap/effect-lib/MData';
 import * as MEquivalenceBasedEqualityData from '@parischap/effect-lib/MEquivalenceBasedEqualityData';
-import * as MFunction from '@parischap/effect-lib/MFunction';
 import * as MInputError from '@parischap/effect-lib/MInputError';
 import * as MNumber from '@parischap/effect-lib/MNumber';
 import * as MPredicate from '@parischap/effect-lib/MPredicate';
 import type * as MTypes from '@parischap/effect-lib/MTypes';
 
+import type * as CVCalendar from './Calendar.js';
 import type * as CVDateTimeParts from './DateTimeParts.js';
 
 import * as CVGregorianDate from '../internal/DateTime/GregorianDate.js';
 import * as CVIsoDate from '../internal/DateTime/IsoDate.js';
 import * as CVTime from '../internal/DateTime/Time.js';
+import * as CVTimeZone from '../internal/DateTime/TimeZone.js';
 import * as CVZoneOffsetParts from '../internal/DateTime/ZoneOffsetParts.js';
 import {
   DAY_MS,
@@ -54,6 +62,7 @@ import {
   MINUTE_MS,
   SECOND_MS,
 } from './date-time-constants.js';
+import * as CVDateTimeZoneDisambiguation from './DateTimeZoneDisambiguation.js';
 
 /**
  * Module tag
@@ -106,6 +115,21 @@ const uncalculated = {
   _zoneOffsetParts: Option.none(),
 };
 
+/**
+ * Converts a zone offset in hours into a whole number of milliseconds. Offsets that include seconds
+ * (e.g. the +00:09:21 local mean time of Paris) cannot be represented exactly in hours
+ */
+const zoneOffsetToMs = (zoneOffset: number): number => Math.round(zoneOffset * HOUR_MS);
+
+const validateZoneOffset = MInputError.assertInRange({
+  min: -13,
+  max: 15,
+  minIncluded: false,
+  maxIncluded: false,
+  offset: 0,
+  name: "'zoneOffset'",
+});
+
 /**
  * Type that represents a CVDateTime
  *
@@ -137,6 +161,12 @@ export class Type extends MEquivalenceBasedEqualityData.Class {
   /** Calculated field equal to timestamp + zoneOffsetx3600 */
   readonly zonedTimestamp: number;
 
+  /**
+   * IANA time zone this DateTime is attached to, if any. When present, `zoneOffset` is the offset
+   * that prevails in that time zone at `timestamp`
+   */
+  readonly timeZone: Option.Option<CVTimeZone.Type>;
+
   /**
    * Returns the `gregorianDate` of `this` for the given time zone -Calculates it if necessary and
    * stores it for future use
@@ -217,6 +247,7 @@ export class Type extends MEquivalenceBasedEqualityData.Class {
     zoneOffset,
     _zoneOffsetParts,
     zonedTimestamp,
+    timeZone,
   }: {
     readonly timestamp: number;
     readonly _gregorianDate: Option.Option<CVGregorianDate.Type>;
@@ -225,6 +256,7 @@ export class Type extends MEquivalenceBasedEqualityData.Class {
     readonly zoneOffset: number;
     readonly _zoneOffsetParts: Option.Option<CVZoneOffsetParts.Type>;
     readonly zonedTimestamp: number;
+    readonly timeZone: Option.Option<CVTimeZone.Type>;
   }) {
     super();
     this.timestamp = timestamp;
@@ -234,6 +266,7 @@ export class Type extends MEquivalenceBasedEqualityData.Class {
     this.zoneOffset = zoneOffset;
     this.zoneOffsetParts = _zoneOffsetParts;
     this.zonedTimestamp = zonedTimestamp;
+    this.timeZone = timeZone;
   }
 
   /**
@@ -241,12 +274,17 @@ export class Type extends MEquivalenceBasedEqualityData.Class {
    * have been carried out yet. The `zonedTimestamp` field is automatically calculated. Does not
    * check any input parameters
    */
-  private static uncalculatedFromTimestamp(timestamp: number, zoneOffset: number): Type {
+  private static uncalculatedFromTimestamp(
+    timestamp: number,
+    zoneOffset: number,
+    timeZone: Option.Option<CVTimeZone.Type> = Option.none(),
+  ): Type {
     return new Type({
       ...uncalculated,
       timestamp,
       zoneOffset,
-      zonedTimestamp: timestamp + zoneOffset * HOUR_MS,
+      zonedTimestamp: timestamp + zoneOffsetToMs(zoneOffset),
+      timeZone,
     });
   }
 
@@ -258,9 +296,63 @@ export class Type extends MEquivalenceBasedEqualityData.Class {
   private static uncalculatedFromZonedTimestamp(zonedTimestamp: number, zoneOffset: number): Type {
     return new Type({
       ...uncalculated,
-      timestamp: zonedTimestamp - zoneOffset * HOUR_MS,
+      timestamp: zonedTimestamp - zoneOffsetToMs(zoneOffset),
       zoneOffset,
       zonedTimestamp: zonedTimestamp,
+      timeZone: Option.none(),
+    });
+  }
+
+  /**
+   * Constructor that creates a DateTime attached to `timeZone` from a timestamp. The `zoneOffset`
+   * is the one that prevails in `timeZone` at `timestamp`. Does not check `timestamp`
+   */
+  private static fromTimestampInTimeZone(
+    timestamp: number,
+    timeZone: CVTimeZone.Type,
+  ): Result.Result<Type, MInputError.Type> {
+    return pipe(
+      timeZone,
+      CVTimeZone.zoneOffsetAt(timestamp),
+      validateZoneOffset,
+      Result.map((zoneOffset) =>
+        Type.uncalculatedFromTimestamp(timestamp, zoneOffset, Option.some(timeZone)),
+      ),
+    );
+  }
+
+  /**
+   * Constructor that creates a DateTime attached to `timeZone` from a zonedTimestamp. Ambiguous or
+   * skipped local times are resolved according to the disambiguation option of `timeZone`. The
+   * passed `calculated` fields are kept if the local time could be kept as is. Does not check
+   * `zonedTimestamp`
+   */
+  private static fromZonedTimestampInTimeZone(
+    zonedTimestamp: number,
+    timeZone: CVTimeZone.Type,
+    calculated: {
+      readonly _gregorianDate: Option.Option<CVGregorianDate.Type>;
+      readonly _isoDate: Option.Option<CVIsoDate.Type>;
+      readonly _time: Option.Option<CVTime.Type>;
+    } = uncalculated,
+  ): Result.Result<Type, MInputError.Type> {
+    return Result.gen(function* () {
+      const { timestamp, zoneOffset } = yield* pipe(
+        timeZone,
+        CVTimeZone.resolveZonedTimestamp(zonedTimestamp),
+      );
+      yield* validateZoneOffset(zoneOffset);
+      // If the local time was skipped, the resolved local time differs from the requested one
+      return timestamp === zonedTimestamp - zoneOffsetToMs(zoneOffset)
+        ? new Type({
+            ...calculated,
+            timestamp,
+            zoneOffset,
+            _zoneOffsetParts: Option.none(),
+            zonedTimestamp,
+            timeZone: Option.some(timeZone),
+          })
+        : Type.uncalculatedFromTimestamp(timestamp, zoneOffset, Option.some(timeZone));
     });
   }
 
@@ -281,8 +373,15 @@ export class Type extends MEquivalenceBasedEqualityData.Class {
         offset: 0,
         name: 'timestamp',
       }),
-      Result.map((validatedTimestamp) =>
-        Type.uncalculatedFromTimestamp(validatedTimestamp, this.zoneOffset),
+      Result.flatMap((validatedTimestamp) =>
+        pipe(
+          this.timeZone,
+          Option.match({
+            onNone: () =>
+              Result.succeed(Type.uncalculatedFromTimestamp(validatedTimestamp, this.zoneOffset)),
+            onSome: (timeZone) => Type.fromTimestampInTimeZone(validatedTimestamp, timeZone),
+          }),
+        ),
       ),
     );
   }
@@ -291,7 +390,7 @@ export class Type extends MEquivalenceBasedEqualityData.Class {
    * If possible, returns a `Success` of a copy of `self` with zoneOffset set to `zoneOffset`.
    * Returns a `Failure` of an error otherwise. `timestamp` must be an integer comprised in the
    * range [MIN_TIMESTAMP, MAX_TIMESTAMP] representing the number of milliseconds since 1/1/1970
-   * 00:00:00:000+0:00.
+   * 00:00:00:000+0:00. The returned DateTime is not attached to any IANA time zone
    */
   _setZoneOffset(
     keepTimestamp: boolean,
@@ -311,17 +410,7 @@ export class Type extends MEquivalenceBasedEqualityData.Class {
           : Type.uncalculatedFromZonedTimestamp(zonedTimestamp, validatedZoneOffset);
 
       if (MPredicate.isPrimitive(zoneOffset)) {
-        const validatedZoneOffset = yield* pipe(
-          zoneOffset,
-          MInputError.assertInRange({
-            min: -13,
-            max: 15,
-            minIncluded: false,
-            maxIncluded: false,
-            offset: 0,
-            name: "'zoneOffset'",
-          }),
-        );
+        const validatedZoneOffset = yield* validateZoneOffset(zoneOffset);
         return buildFromZoneOffset(validatedZoneOffset);
       }
 
@@ -335,6 +424,25 @@ export class Type extends MEquivalenceBasedEqualityData.Class {
     });
   }
 
+  /**
+   * If possible, returns a `Success` of a copy of `self` attached to the IANA time zone named
+   * `zoneName`. Returns a `Failure` of an error otherwise. If `keepTimestamp` is true, the
+   * timestamp of `self` is kept and its parts are recalculated in the new time zone. Otherwise, the
+   * parts of `self` are kept and its timestamp is recalculated
+   */
+  _setZoneName(
+    keepTimestamp: boolean,
+    zoneName: string,
+    disambiguation: CVDateTimeZoneDisambiguation.Type,
+  ): Result.Result<Type, MInputError.Type> {
+    const { timestamp, zonedTimestamp } = this;
+    return Result.flatMap(CVTimeZone.fromName({ name: zoneName, disambiguation }), (timeZone) =>
+      keepTimestamp
+        ? Type.fromTimestampInTimeZone(timestamp, timeZone)
+        : Type.fromZonedTimestampInTimeZone(zonedTimestamp, timeZone),
+    );
+  }
+
   /**
    * Tries to build a `CVDateTime` from `timestamp`, the number of milliseconds since 1/1/1970
    * 00:00:00:000+0:00, and `zoneOffset` which gives the offset between the local time and the UTC
@@ -543,7 +651,7 @@ export class Type extends MEquivalenceBasedEqualityData.Class {
         }
         const withHour11 =
           hour11 !== undefined ? yield* setHour11(hour11)(zonedOrigin) : zonedOrigin;
-        return meridiem === 12 ? setMeridiem(12)(withHour11) : withHour11;
+        return meridiem === 12 ? yield* setMeridiem(12)(withHour11) : withHour11;
       });
 
       const withMinute = minute !== undefined ? yield* setMinute(minute)(withHour) : withHour;
@@ -642,51 +750,105 @@ export class Type extends MEquivalenceBasedEqualityData.Class {
     });
   }
 
+  /**
+   * Returns a copy of `this` with `zonedTimestamp` offset by `offset` and the passed `calculated`
+   * fields. If `this` is attached to an IANA time zone, the `zoneOffset` is recalculated, which may
+   * fail if the new local time is ambiguous or skipped
+   */
+  private offsetZonedTimestamp(
+    offset: number,
+    calculated: {
+      readonly _gregorianDate: Option.Option<CVGregorianDate.Type>;
+      readonly _isoDate: Option.Option<CVIsoDate.Type>;
+      readonly _time: Option.Option<CVTime.Type>;
+    },
+  ): Result.Result<Type, MInputError.Type> {
+    const zonedTimestamp = this.zonedTimestamp + offset;
+    return pipe(
+      this.timeZone,
+      Option.match({
+        onNone: () =>
+          Result.succeed(
+            new Type({
+              ...calculated,
+              timestamp: this.timestamp + offset,
+              zoneOffset: this.zoneOffset,
+              _zoneOffsetParts: this.zoneOffsetParts,
+              zonedTimestamp,
+              timeZone: Option.none(),
+            }),
+          ),
+        onSome: (timeZone) =>
+          Type.fromZonedTimestampInTimeZone(zonedTimestamp, timeZone, calculated),
+      }),
+    );
+  }
+
   /** Returns a copy of `this` with `_gregorianDate` set to `gregorianDate` */
-  _setGregorianDate(gregorianDate: CVGregorianDate.Type): Type {
+  _setGregorianDate(gregorianDate: CVGregorianDate.Type): Result.Result<Type, MInputError.Type> {
     const selfTimestamp = this._gregorianDate.timestamp;
-    const offset = gregorianDate.timestamp - selfTimestamp;
-    return new Type({
-      timestamp: this.timestamp + offset,
+    return this.offsetZonedTimestamp(gregorianDate.timestamp - selfTimestamp, {
       _gregorianDate: Option.some(gregorianDate),
       _isoDate: Option.none(),
       _time: this.time,
-      zoneOffset: this.zoneOffset,
-      _zoneOffsetParts: this.zoneOffsetParts,
-      zonedTimestamp: this.zonedTimestamp + offset,
     });
   }
 
   /** Returns a copy of this with `isoDate` set to `isoDate` */
-  _setIsoDate(isoDate: CVIsoDate.Type): Type {
+  _setIsoDate(isoDate: CVIsoDate.Type): Result.Result<Type, MInputError.Type> {
     const selfTimestamp = this._isoDate.timestamp;
-    const offset = isoDate.timestamp - selfTimestamp;
-    return new Type({
-      timestamp: this.timestamp + offset,
+    return this.offsetZonedTimestamp(isoDate.timestamp - selfTimestamp, {
       _gregorianDate: Option.none(),
       _isoDate: Option.some(isoDate),
       _time: this.time,
-      zoneOffset: this.zoneOffset,
-      _zoneOffsetParts: this.zoneOffsetParts,
-      zonedTimestamp: this.zonedTimestamp + offset,
     });
   }
 
   /** Returns a copy of this with `time` set to `time` */
-  _setTime(time: CVTime.Type): Type {
+  _setTime(time: CVTime.Type): Result.Result<Type, MInputError.Type> {
     const selfTimestampOffset = this._time.timestampOffset;
-    const offset = time.timestampOffset - selfTimestampOffset;
-    return new Type({
-      timestamp: this.timestamp + offset,
+    return this.offsetZonedTimestamp(time.timestampOffset - selfTimestampOffset, {
       _gregorianDate: this.gregorianDate,
       _isoDate: this.isoDate,
       _time: Option.some(time),
-      zoneOffset: this.zoneOffset,
-      _zoneOffsetParts: this.zoneOffsetParts,
-      zonedTimestamp: this.zonedTimestamp + offset,
     });
   }
 
+  /**
+   * If possible, returns a `Success` of a copy of `this` offset by `offset` days. Returns a
+   * `Failure` of an error otherwise. If `this` is attached to an IANA time zone, the local date is
+   * offset and the local time is kept, so the elapsed time may differ from `offset` times 24 hours
+   * across a daylight saving time change
+   */
+  _offsetDays(offset: number): Result.Result<Type, MInputError.Type> {
+    const msOffset = offset * DAY_MS;
+    return pipe(
+      this.timeZone,
+      Option.match({
+        onNone: () => this._setTimestamp(this.timestamp + msOffset),
+        onSome: () =>
+          pipe(
+            this.timestamp + msOffset,
+            MInputError.assertInRange({
+              min: MIN_TIMESTAMP,
+              max: MAX_TIMESTAMP,
+              minIncluded: true,
+              maxIncluded: true,
+              offset: 0,
+              name: 'timestamp',
+            }),
+            Result.flatMap(() =>
+              this.offsetZonedTimestamp(msOffset, {
+                _gregorianDate: Option.none(),
+                _isoDate: Option.none(),
+                _time: this.time,
+              }),
+            ),
+          ),
+      }),
+    );
+  }
+
   /** Calculates the hash value of `this` */
   [Hash.symbol](): number {
     return 0;
@@ -889,12 +1051,18 @@ export const fromPartsOrThrow: (parts: CVDateTimeParts.Type) => Type = flow(
 export const fromDate = (date: Date): Type => fromTimestampOrThrow(date.getTime());
 
 /**
- * Builds a `CVDateTime` from an `effect/DateTime.Zoned`
+ * Builds a `CVDateTime` from an `effect/DateTime.Zoned`. If `date` has a named time zone, the
+ * returned `CVDateTime` is attached to that IANA time zone
  *
  * @category Constructors
  */
 export const fromEffectDateTime = (date: DateTime.Zoned): Type =>
-  fromTimestampOrThrow(DateTime.toEpochMillis(date), DateTime.zonedOffset(date));
+  date.zone._tag === 'Named'
+    ? pipe(
+        fromTimestampOrThrow(DateTime.toEpochMillis(date), 0),
+        setZoneNameKeepTimestampOrThrow(date.zone.id),
+      )
+    : fromTimestampOrThrow(DateTime.toEpochMillis(date), DateTime.zonedOffset(date));
 
 /**
  * Builds a Javascript `Date` from a `CVDateTime`
@@ -904,12 +1072,19 @@ export const fromEffectDateTime = (date: DateTime.Zoned): Type =>
 export const toDate = (self: Type): Date => new Date(timestamp(self));
 
 /**
- * Builds an `effect/DateTime.Zoned` from a `CVDateTime`
+ * Builds an `effect/DateTime.Zoned` from a `CVDateTime`. If `self` is attached to an IANA time
+ * zone, the returned `effect/DateTime.Zoned` has a named time zone
  *
  * @category Utils
  */
 export const toEffectDateTime = (self: Type): DateTime.Zoned =>
-  DateTime.makeZonedUnsafe(timestamp(self), { timeZone: self.zoneOffset });
+  DateTime.makeZonedUnsafe(timestamp(self), {
+    timeZone: pipe(
+      self,
+      zoneName,
+      Option.getOrElse(() => self.zoneOffset),
+    ),
+  });
 
 /**
  * Returns the timestamp property of `self` as a number
@@ -918,6 +1093,13 @@ export const toEffectDateTime = (self: Type): DateTime.Zoned =>
  */
 export const timestamp: MTypes.OneArgFunction<Type, number> = Struct.get('timestamp');
 
+/**
+ * Returns the `zoneOffset` property of `self`
+ *
+ * @category Getters
+ */
+export const zoneOffset: MTypes.OneArgFunction<Type, number> = Struct.get('zoneOffset');
+
 /**
  * Returns the `gregorianDate` property of `self`
  *
@@ -948,6 +1130,16 @@ export const time: MTypes.OneArgFunction<Type, CVTime.Type> = Struct.get('_time'
 export const zoneOffsetParts: MTypes.OneArgFunction<Type, CVZoneOffsetParts.Type> =
   Struct.get('_zoneOffsetParts');
 
+/**
+ * Returns the name of the IANA time zone `self` is attached to, if any
+ *
+ * @category Getters
+ */
+export const zoneName: MTypes.OneArgFunction<Type, Option.Option<string>> = flow(
+  Struct.get('timeZone'),
+  Option.map(CVTimeZone.name),
+);
+
 /**
  * Returns the (Gregorian) year of `self` for the given time zone
  *
@@ -958,6 +1150,16 @@ export const getYear: MTypes.OneArgFunction<Type, number> = flow(
   CVGregorianDate.year,
 );
 
+/**
+ * Returns the (Gregorian) era of `self` for the given time zone: 0 for years before year 1 (BC), 1
+ * otherwise (AD)
+ *
+ * @category Destructors
+ */
+export const getEra: MTypes.OneArgFunction<Type, 0 | 1> = flow(getYear, (year) =>
+  year > 0 ? 1 : 0,
+);
+
 /**
  * Returns the ordinalDay of `self` for the given time zone
  *
@@ -988,6 +1190,24 @@ export const getMonthDay: MTypes.OneArgFunction<Type, number> = flow(
   CVGregorianDate.getMonthDay,
 );
 
+/**
+ * Returns the number of days of the month of `self` for the given time zone
+ *
+ * @category Destructors
+ */
+export const getNumberOfDaysInMonth = (self: Type): number =>
+  pipe(self, gregorianDate, CVGregorianDate.getNumberOfDaysInMonth(getMonth(self)));
+
+/**
+ * Returns the number of days of the year of `self` for the given time zone
+ *
+ * @category Destructors
+ */
+export const getYearDurationInDays: MTypes.OneArgFunction<Type, number> = flow(
+  gregorianDate,
+  CVGregorianDate.getYearDurationInDays,
+);
+
 /**
  * Returns the isoYear of `self` for the given time zone
  *
@@ -1081,6 +1301,34 @@ export const getZoneSecond: MTypes.OneArgFunction<Type, number> = flow(
   CVZoneOffsetParts.zoneSecond,
 );
 
+/**
+ * Returns the number of days elapsed since 1/1/1970 until the day of `self` in its time zone
+ *
+ * @category Destructors
+ */
+export const getEpochDay = (self: Type): number => Math.floor(self.zonedTimestamp / DAY_MS);
+
+/**
+ * If possible, returns a `Success` of the era, year, month and monthDay of the day of `self` in
+ * `calendar`. Returns a `Failure` if that day cannot be expressed in `calendar`.
+ *
+ * @category Destructors
+ */
+export const getCalendarDate =
+  (calendar: CVCalendar.Type) =>
+  (self: Type): Result.Result<CVCalendar.Parts, MInputError.Type> =>
+    calendar.toParts(getEpochDay(self));
+
+/**
+ * Same as `getCalendarDate` but returns directly the parts or throws in case of an error
+ *
+ * @category Destructors
+ */
+export const getCalendarDateOrThrow: MTypes.OneArgFunction<
+  CVCalendar.Type,
+  MTypes.OneArgFunction<Type, CVCalendar.Parts>
+> = flow(getCalendarDate, Function.compose(Result.getOrThrowWith(Function.identity)));
+
 /**
  * If possible, returns a `Success` of a `CVDateTime` having year `year` and the same `month`,
  * `monthDay`, `hour23`, `minute`, `second`, `millisecond` and `zoneOffset` as `self`. Returns a
@@ -1096,7 +1344,7 @@ export const setYear =
       self,
       gregorianDate,
       CVGregorianDate.setYear(year),
-      Result.map(self._setGregorianDate.bind(self)),
+      Result.flatMap(self._setGregorianDate.bind(self)),
     );
 
 /**
@@ -1124,7 +1372,7 @@ export const setOrdinalDay =
       self,
       gregorianDate,
       CVGregorianDate.setOrdinalDay(ordinalDay),
-      Result.map(self._setGregorianDate.bind(self)),
+      Result.flatMap(self._setGregorianDate.bind(self)),
     );
 
 /**
@@ -1152,7 +1400,7 @@ export const setMonth =
       self,
       gregorianDate,
       CVGregorianDate.setMonth(month),
-      Result.map(self._setGregorianDate.bind(self)),
+      Result.flatMap(self._setGregorianDate.bind(self)),
     );
 
 /**
@@ -1180,7 +1428,7 @@ export const setMonthDay =
       self,
       gregorianDate,
       CVGregorianDate.setMonthDay(monthDay),
-      Result.map(self._setGregorianDate.bind(self)),
+      Result.flatMap(self._setGregorianDate.bind(self)),
     );
 
 /**
@@ -1204,7 +1452,7 @@ export const setMonthDayOrThrow: MTypes.OneArgFunction<number, MTypes.OneArgFunc
 export const setIsoYear =
   (isoYear: number) =>
   (self: Type): Result.Result<Type, MInputError.Type> =>
-    pipe(self, isoDate, CVIsoDate.setYear(isoYear), Result.map(self._setIsoDate.bind(self)));
+    pipe(self, isoDate, CVIsoDate.setYear(isoYear), Result.flatMap(self._setIsoDate.bind(self)));
 
 /**
  * Same as `setIsoYear` but returns directly a `CVDateTime` or throws in case of an error
@@ -1227,7 +1475,7 @@ export const setIsoYearOrThrow: MTypes.OneArgFunction<number, MTypes.OneArgFunct
 export const setIsoWeek =
   (isoWeek: number) =>
   (self: Type): Result.Result<Type, MInputError.Type> =>
-    pipe(self, isoDate, CVIsoDate.setIsoWeek(isoWeek), Result.map(self._setIsoDate.bind(self)));
+    pipe(self, isoDate, CVIsoDate.setIsoWeek(isoWeek), Result.flatMap(self._setIsoDate.bind(self)));
 
 /**
  * Same as `setIsoWeek` but returns directly a `CVDateTime` or throws in case of an error
@@ -1250,7 +1498,7 @@ export const setIsoWeekOrThrow: MTypes.OneArgFunction<number, MTypes.OneArgFunct
 export const setWeekday =
   (weekday: number) =>
   (self: Type): Result.Result<Type, MInputError.Type> =>
-    pipe(self, isoDate, CVIsoDate.setWeekday(weekday), Result.map(self._setIsoDate.bind(self)));
+    pipe(self, isoDate, CVIsoDate.setWeekday(weekday), Result.flatMap(self._setIsoDate.bind(self)));
 
 /**
  * Same as `setWeekday` but returns directly a `CVDateTime` or throws in case of an error
@@ -1273,7 +1521,7 @@ export const setWeekdayOrThrow: MTypes.OneArgFunction<number, MTypes.OneArgFunct
 export const setHour23 =
   (hour23: number) =>
   (self: Type): Result.Result<Type, MInputError.Type> =>
-    pipe(self, time, CVTime.setHour23(hour23), Result.map(self._setTime.bind(self)));
+    pipe(self, time, CVTime.setHour23(hour23), Result.flatMap(self._setTime.bind(self)));
 
 /**
  * Same as `setHour23` but returns directly a `CVDateTime` or throws in case of an error
@@ -1296,7 +1544,7 @@ export const setHour23OrThrow: MTypes.OneArgFunction<number, MTypes.OneArgFuncti
 export const setHour11 =
   (hour11: number) =>
   (self: Type): Result.Result<Type, MInputError.Type> =>
-    pipe(self, time, CVTime.setHour11(hour11), Result.map(self._setTime.bind(self)));
+    pipe(self, time, CVTime.setHour11(hour11), Result.flatMap(self._setTime.bind(self)));
 
 /**
  * Same as `setHour11` but returns directly a `CVDateTime` or throws in case of an error
@@ -1309,16 +1557,28 @@ export const setHour11OrThrow: MTypes.OneArgFunction<number, MTypes.OneArgFuncti
 );
 
 /**
- * Returns a `CVDateTime` having meridiem `meridiem` and the same `year`, `ordinalDay`, `hour11`,
- * `minute`, `second`, `millisecond` and `zoneOffset` as `self`
+ * If possible, returns a `Success` of a `CVDateTime` having meridiem `meridiem` and the same
+ * `year`, `ordinalDay`, `hour11`, `minute`, `second`, `millisecond` and `zoneOffset` as `self`.
+ * Returns a `Failure` of an error otherwise. Can only fail if `self` is attached to an IANA time
+ * zone and the resulting local time is rejected by its disambiguation option
  *
  * @category Setters
  */
 export const setMeridiem =
   (meridiem: 0 | 12) =>
-  (self: Type): Type =>
+  (self: Type): Result.Result<Type, MInputError.Type> =>
     pipe(self, time, CVTime.setMeridiem(meridiem), self._setTime.bind(self));
 
+/**
+ * Same as `setMeridiem` but returns directly a `CVDateTime` or throws in case of an error
+ *
+ * @category Setters
+ */
+export const setMeridiemOrThrow: MTypes.OneArgFunction<0 | 12, MTypes.OneArgFunction<Type>> = flow(
+  setMeridiem,
+  Function.compose(Result.getOrThrowWith(Function.identity)),
+);
+
 /**
  * If possible, returns a `Success` of a `CVDateTime` having minute `minute` and the same `year`,
  * `ordinalDay`, `hour23`, `second`, `millisecond` and `zoneOffset` as `self`. Returns a `Failure`
@@ -1330,7 +1590,7 @@ export const setMeridiem =
 export const setMinute =
   (minute: number) =>
   (self: Type): Result.Result<Type, MInputError.Type> =>
-    pipe(self, time, CVTime.setMinute(minute), Result.map(self._setTime.bind(self)));
+    pipe(self, time, CVTime.setMinute(minute), Result.flatMap(self._setTime.bind(self)));
 
 /**
  * Same as `setMinute` but returns directly a `CVDateTime` or throws in case of an error
@@ -1353,7 +1613,7 @@ export const setMinuteOrThrow: MTypes.OneArgFunction<number, MTypes.OneArgFuncti
 export const setSecond =
   (second: number) =>
   (self: Type): Result.Result<Type, MInputError.Type> =>
-    pipe(self, time, CVTime.setSecond(second), Result.map(self._setTime.bind(self)));
+    pipe(self, time, CVTime.setSecond(second), Result.flatMap(self._setTime.bind(self)));
 
 /**
  * Same as `setSecond` but returns directly a `CVDateTime` or throws in case of an error
@@ -1376,7 +1636,7 @@ export const setSecondOrThrow: MTypes.OneArgFunction<number, MTypes.OneArgFuncti
 export const setMillisecond =
   (millisecond: number) =>
   (self: Type): Result.Result<Type, MInputError.Type> =>
-    pipe(self, time, CVTime.setMillisecond(millisecond), Result.map(self._setTime.bind(self)));
+    pipe(self, time, CVTime.setMillisecond(millisecond), Result.flatMap(self._setTime.bind(self)));
 
 /**
  * Same as `setMillisecond` but returns directly a `CVDateTime` or throws in case of an error
@@ -1388,6 +1648,34 @@ export const setMillisecondOrThrow: MTypes.OneArgFunction<
   MTypes.OneArgFunction<Type>
 > = flow(setMillisecond, Function.compose(Result.getOrThrowWith(Function.identity)));
 
+/**
+ * If possible, returns a `Success` of a `CVDateTime` on the day represented by `calendarDate` in
+ * `calendar` and having the same `hour23`, `minute`, `second`, `millisecond` and `zoneOffset` as
+ * `self`. Returns a `Failure` otherwise. `calendarDate.era` is only required by calendars whose
+ * years are counted from the start of each era.
+ *
+ * @category Setters
+ */
+export const setCalendarDate =
+  (calendar: CVCalendar.Type, calendarDate: CVCalendar.InputParts) =>
+  (self: Type): Result.Result<Type, MInputError.Type> =>
+    pipe(
+      calendarDate,
+      calendar.fromParts,
+      Result.flatMap((epochDay) => offsetDays(epochDay - getEpochDay(self))(self)),
+    );
+
+/**
+ * Same as `setCalendarDate` but returns directly a `CVDateTime` or throws in case of an error
+ *
+ * @category Setters
+ */
+export const setCalendarDateOrThrow = (
+  calendar: CVCalendar.Type,
+  calendarDate: CVCalendar.InputParts,
+): MTypes.OneArgFunction<Type> =>
+  flow(setCalendarDate(calendar, calendarDate), Result.getOrThrowWith(Function.identity));
+
 /**
  * If possible, returns a `Success` of a copy of `self` with the same `timestamp` and zoneOffset set
  * to `zoneOffset`.
@@ -1408,6 +1696,8 @@ export const setMillisecondOrThrow: MTypes.OneArgFunction<
  * `zoneHour`, `zoneMinute` and `zoneSecond` should be integers. `zoneOffset`, when expressed as a
  * number of hours, does not need to be an integer.
  *
+ * The returned `CVDateTime` is not attached to any IANA time zone.
+ *
  * @category Setters
  */
 export const setZoneOffsetKeepTimestamp =
@@ -1476,6 +1766,78 @@ export const setZoneOffsetKeepPartsOrThrow: MTypes.OneArgFunction<
   MTypes.OneArgFunction<Type>
 > = flow(setZoneOffsetKeepParts, Function.compose(Result.getOrThrowWith(Function.identity)));
 
+/**
+ * If possible, returns a `Success` of a copy of `self` with the same `timestamp` as `self` and
+ * attached to the IANA time zone named `zoneName` (e.g. 'Europe/Paris'). Returns a `Failure` of an
+ * error otherwise, e.g. if `zoneName` is not a valid IANA time zone name.
+ *
+ * From then on, the `zoneOffset` of the returned `CVDateTime` is recalculated each time its
+ * timestamp changes so that it matches the offset that prevails in that time zone at that
+ * timestamp. If a setter yields a local time that is ambiguous or that does not exist in that time
+ * zone, the local time is resolved according to `disambiguation` (see
+ * CVDateTimeZoneDisambiguation.ts). If omitted, `disambiguation` is taken equal to `Compatible`.
+ *
+ * Calling `setZoneOffsetKeepTimestamp` or `setZoneOffsetKeepParts` on the returned `CVDateTime`
+ * detaches it from the time zone.
+ *
+ * @category Setters
+ */
+export const setZoneNameKeepTimestamp =
+  (
+    zoneName: string,
+    disambiguation: CVDateTimeZoneDisambiguation.Type = CVDateTimeZoneDisambiguation.Type
+      .Compatible,
+  ) =>
+  (self: Type): Result.Result<Type, MInputError.Type> =>
+    self._setZoneName(true, zoneName, disambiguation);
+
+/**
+ * Same as `setZoneNameKeepTimestamp` but returns directly a `CVDateTime` or throws in case of an
+ * error
+ *
+ * @category Setters
+ */
+export const setZoneNameKeepTimestampOrThrow: (
+  zoneName: string,
+  disambiguation?: CVDateTimeZoneDisambiguation.Type,
+) => MTypes.OneArgFunction<Type> = flow(
+  setZoneNameKeepTimestamp,
+  Function.compose(Result.getOrThrowWith(Function.identity)),
+);
+
+/**
+ * If possible, returns a `Success` of a copy of `self` with the same parts (except `zoneOffset`) as
+ * `self` and attached to the IANA time zone named `zoneName` (e.g. 'Europe/Paris'). Returns a
+ * `Failure` of an error otherwise, e.g. if `zoneName` is not a valid IANA time zone name or if the
+ * local time of `self` is ambiguous or does not exist in that time zone and `disambiguation` is
+ * `Reject`.
+ *
+ * See `setZoneNameKeepTimestamp` for more details
+ *
+ * @category Setters
+ */
+export const setZoneNameKeepParts =
+  (
+    zoneName: string,
+    disambiguation: CVDateTimeZoneDisambiguation.Type = CVDateTimeZoneDisambiguation.Type
+      .Compatible,
+  ) =>
+  (self: Type): Result.Result<Type, MInputError.Type> =>
+    self._setZoneName(false, zoneName, disambiguation);
+
+/**
+ * Same as `setZoneNameKeepParts` but returns directly a `CVDateTime` or throws in case of an error
+ *
+ * @category Setters
+ */
+export const setZoneNameKeepPartsOrThrow: (
+  zoneName: string,
+  disambiguation?: CVDateTimeZoneDisambiguation.Type,
+) => MTypes.OneArgFunction<Type> = flow(
+  setZoneNameKeepParts,
+  Function.compose(Result.getOrThrowWith(Function.identity)),
+);
+
 /**
  * Returns true if the (Gregorian) year of `self` for the given time zone is a leap year. Returns
  * false otherwise
@@ -1510,8 +1872,7 @@ export const isFirstMonthDay: Predicate.Predicate<Type> = (self) => getMonthDay(
  */
 
 export const isLastMonthDay: Predicate.Predicate<Type> = (self) =>
-  getMonthDay(self) ===
-  pipe(self, gregorianDate, CVGregorianDate.getNumberOfDaysInMonth(getMonth(self)));
+  getMonthDay(self) === getNumberOfDaysInMonth(self);
 
 /**
  * Returns true if `self` is the first day of a year in the given timezone
@@ -1528,7 +1889,7 @@ export const isFirstYearDay: Predicate.Predicate<Type> = (self) => getOrdinalDay
  */
 
 export const isLastYearDay: Predicate.Predicate<Type> = (self) =>
-  getOrdinalDay(self) === pipe(self, gregorianDate, CVGregorianDate.getYearDurationInDays);
+  getOrdinalDay(self) === getYearDurationInDays(self);
 
 /**
  * Returns true if `self` is the first day of an iso year in the given timezone
@@ -1548,71 +1909,173 @@ export const isLastIsoYearDay: Predicate.Predicate<Type> = (self) =>
   getIsoWeek(self) === pipe(self, isoDate, CVIsoDate.getLastIsoWeek) && getWeekday(self) === 7;
 
 /**
- * Returns a copy of `self` where `monthDay` is set to the first day of the current month. All time
- * parts (`hour23`, `hour11`, `meridiem`, `minute`, `second`, `millisecond`) are left unchanged
+ * If possible, returns a `Success` of a copy of `self` where `monthDay` is set to the first day of
+ * the current month. Returns a `Failure` of an error otherwise. All time parts (`hour23`, `hour11`,
+ * `meridiem`, `minute`, `second`, `millisecond`) are left unchanged. Can only fail if `self` is
+ * attached to an IANA time zone and the resulting local time is rejected by its disambiguation
+ * option
  *
  * @category Offsetters
  */
-export const toFirstMonthDay: MTypes.OneArgFunction<Type> = setMonthDayOrThrow(1);
+export const toFirstMonthDay: MTypes.OneArgFunction<
+  Type,
+  Result.Result<Type, MInputError.Type>
+> = setMonthDay(1);
 
 /**
- * Returns a copy of `self` where `monthDay` is set to the last day of the current month. All time
- * parts (`hour23`, `hour11`, `meridiem`, `minute`, `second`, `millisecond`) are left unchanged
+ * Same as `toFirstMonthDay` but returns directly a `CVDateTime` or throws in case of an error
  *
  * @category Offsetters
  */
-export const toLastMonthDay = (self: Type): Type =>
-  setMonthDayOrThrow(
-    pipe(self, gregorianDate, CVGregorianDate.getNumberOfDaysInMonth(getMonth(self))),
-  )(self);
+export const toFirstMonthDayOrThrow: MTypes.OneArgFunction<Type> = flow(
+  toFirstMonthDay,
+  Result.getOrThrowWith(Function.identity),
+);
+
+/**
+ * If possible, returns a `Success` of a copy of `self` where `monthDay` is set to the last day of
+ * the current month. Returns a `Failure` of an error otherwise. All time parts (`hour23`, `hour11`,
+ * `meridiem`, `minute`, `second`, `millisecond`) are left unchanged. Can only fail if `self` is
+ * attached to an IANA time zone and the resulting local time is rejected by its disambiguation
+ * option
+ *
+ * @category Offsetters
+ */
+export const toLastMonthDay = (self: Type): Result.Result<Type, MInputError.Type> =>
+  setMonthDay(getNumberOfDaysInMonth(self))(self);
+
+/**
+ * Same as `toLastMonthDay` but returns directly a `CVDateTime` or throws in case of an error
+ *
+ * @category Offsetters
+ */
+export const toLastMonthDayOrThrow: MTypes.OneArgFunction<Type> = flow(
+  toLastMonthDay,
+  Result.getOrThrowWith(Function.identity),
+);
+
+/**
+ * If possible, returns a `Success` of a copy of `self` where `ordinalDay` is set to the first day
+ * of the current year. Returns a `Failure` of an error otherwise. All time parts (`hour23`,
+ * `hour11`, `meridiem`, `minute`, `second`, `millisecond`) are left unchanged. Can only fail if
+ * `self` is attached to an IANA time zone and the resulting local time is rejected by its
+ * disambiguation option
+ *
+ * @category Offsetters
+ */
+export const toFirstYearDay: MTypes.OneArgFunction<
+  Type,
+  Result.Result<Type, MInputError.Type>
+> = setOrdinalDay(1);
+
+/**
+ * Same as `toFirstYearDay` but returns directly a `CVDateTime` or throws in case of an error
+ *
+ * @category Offsetters
+ */
+export const toFirstYearDayOrThrow: MTypes.OneArgFunction<Type> = flow(
+  toFirstYearDay,
+  Result.getOrThrowWith(Function.identity),
+);
+
+/**
+ * If possible, returns a `Success` of a copy of `self` where `ordinalDay` is set to the last day of
+ * the current year. Returns a `Failure` of an error otherwise. All time parts (`hour23`, `hour11`,
+ * `meridiem`, `minute`, `second`, `millisecond`) are left unchanged. Can only fail if `self` is
+ * attached to an IANA time zone and the resulting local time is rejected by its disambiguation
+ * option
+ *
+ * @category Offsetters
+ */
+export const toLastYearDay = (self: Type): Result.Result<Type, MInputError.Type> =>
+  setOrdinalDay(getYearDurationInDays(self))(self);
 
 /**
- * Returns a copy of `self` where `ordinalDay` is set to the first day of the current year. All time
- * parts (`hour23`, `hour11`, `meridiem`, `minute`, `second`, `millisecond`) are left unchanged
+ * Same as `toLastYearDay` but returns directly a `CVDateTime` or throws in case of an error
  *
  * @category Offsetters
  */
-export const toFirstYearDay = (self: Type): Type => setOrdinalDayOrThrow(1)(self);
+export const toLastYearDayOrThrow: MTypes.OneArgFunction<Type> = flow(
+  toLastYearDay,
+  Result.getOrThrowWith(Function.identity),
+);
 
 /**
- * Returns a copy of `self` where `ordinalDay` is set to the last day of the current year. All time
- * parts (`hour23`, `hour11`, `meridiem`, `minute`, `second`, `millisecond`) are left unchanged
+ * If possible, returns a `Success` of a copy of `self` where `isoWeek` and `weekday` are set to 1.
+ * Returns a `Failure` of an error otherwise. All time parts (`hour23`, `hour11`, `meridiem`,
+ * `minute`, `second`, `millisecond`) are left unchanged. Can only fail if `self` is attached to an
+ * IANA time zone and the resulting local time is rejected by its disambiguation option
  *
  * @category Offsetters
  */
-export const toLastYearDay = (self: Type): Type =>
-  setOrdinalDayOrThrow(pipe(self, gregorianDate, CVGregorianDate.getYearDurationInDays))(self);
+export const toFirstIsoYearDay = (self: Type): Result.Result<Type, MInputError.Type> =>
+  pipe(
+    self,
+    isoDate,
+    CVIsoDate.setIsoWeek(1),
+    Result.flatMap(CVIsoDate.setWeekday(1)),
+    Result.flatMap(self._setIsoDate.bind(self)),
+  );
 
 /**
- * Returns a copy of `self` where `isoWeek` and `weekday` are set to 1. All time parts (`hour23`,
- * `hour11`, `meridiem`, `minute`, `second`, `millisecond`) are left unchanged
+ * Same as `toFirstIsoYearDay` but returns directly a `CVDateTime` or throws in case of an error
  *
  * @category Offsetters
  */
-export const toFirstIsoYearDay: MTypes.OneArgFunction<Type> = flow(
-  setIsoWeekOrThrow(1),
-  setWeekdayOrThrow(1),
+export const toFirstIsoYearDayOrThrow: MTypes.OneArgFunction<Type> = flow(
+  toFirstIsoYearDay,
+  Result.getOrThrowWith(Function.identity),
 );
 
 /**
- * Returns a copy of `self` where `isoWeek` is set to the last week of the current iso year.
- * `weekday` and all time parts (`hour23`, `hour11`, `meridiem`, `minute`, `second`, `millisecond`)
- * are left unchanged
+ * If possible, returns a `Success` of a copy of `self` where `isoWeek` is set to the last week of
+ * the current iso year. Returns a `Failure` of an error otherwise. `weekday` and all time parts
+ * (`hour23`, `hour11`, `meridiem`, `minute`, `second`, `millisecond`) are left unchanged. Can only
+ * fail if `self` is attached to an IANA time zone and the resulting local time is rejected by its
+ * disambiguation option
+ *
+ * @category Offsetters
+ */
+export const toLastIsoYearWeek = (self: Type): Result.Result<Type, MInputError.Type> =>
+  setIsoWeek(pipe(self, isoDate, CVIsoDate.getLastIsoWeek))(self);
+
+/**
+ * Same as `toLastIsoYearWeek` but returns directly a `CVDateTime` or throws in case of an error
  *
  * @category Offsetters
  */
-export const toLastIsoYearWeek = (self: Type): Type =>
-  pipe(self, setIsoWeekOrThrow(pipe(self, isoDate, CVIsoDate.getLastIsoWeek)));
+export const toLastIsoYearWeekOrThrow: MTypes.OneArgFunction<Type> = flow(
+  toLastIsoYearWeek,
+  Result.getOrThrowWith(Function.identity),
+);
 
 /**
- * Returns a copy of `self` where `isoWeek` is set to the last week of the current iso year and
- * `weekday` is set to 7. All time parts (`hour23`, `hour11`, `meridiem`, `minute`, `second`,
- * `millisecond`) are left unchanged
+ * If possible, returns a `Success` of a copy of `self` where `isoWeek` is set to the last week of
+ * the current iso year and `weekday` is set to 7. Returns a `Failure` of an error otherwise. All
+ * time parts (`hour23`, `hour11`, `meridiem`, `minute`, `second`, `millisecond`) are left
+ * unchanged. Can only fail if `self` is attached to an IANA time zone and the resulting local time
+ * is rejected by its disambiguation option
  *
  * @category Offsetters
  */
-export const toLastIsoYearDay = (self: Type): Type =>
-  pipe(self, toLastIsoYearWeek, setWeekdayOrThrow(7));
+export const toLastIsoYearDay = (self: Type): Result.Result<Type, MInputError.Type> =>
+  pipe(
+    self,
+    isoDate,
+    CVIsoDate.setIsoWeek(pipe(self, isoDate, CVIsoDate.getLastIsoWeek)),
+    Result.flatMap(CVIsoDate.setWeekday(7)),
+    Result.flatMap(self._setIsoDate.bind(self)),
+  );
+
+/**
+ * Same as `toLastIsoYearDay` but returns directly a `CVDateTime` or throws in case of an error
+ *
+ * @category Offsetters
+ */
+export const toLastIsoYearDayOrThrow: MTypes.OneArgFunction<Type> = flow(
+  toLastIsoYearDay,
+  Result.getOrThrowWith(Function.identity),
+);
 
 /**
  * If possible, returns a `Success` of a copy of `self` offset by `offset` years and having the same
@@ -1662,12 +2125,25 @@ export const offsetMonths =
     );
     const offsetToLastMonthDay = respectMonthEnd && isLastMonthDay(self);
 
+    // The target date is calculated before being set so that no intermediate local time is
+    // resolved in the time zone of `self`
     return pipe(
       self,
-      offsetToLastMonthDay ? setMonthDayOrThrow(1) : Function.identity,
-      setMonthOrThrow(targetMonthIndex + 1),
-      setYear(getYear(self) + yearOffset),
-      Result.map(MFunction.fIfTrue({ condition: offsetToLastMonthDay, f: toLastMonthDay })),
+      gregorianDate,
+      offsetToLastMonthDay ? CVGregorianDate.setMonthDay(1) : Result.succeed,
+      Result.flatMap(CVGregorianDate.setMonth(targetMonthIndex + 1)),
+      Result.flatMap(CVGregorianDate.setYear(getYear(self) + yearOffset)),
+      Result.flatMap((targetDate) =>
+        offsetToLastMonthDay
+          ? pipe(
+              targetDate,
+              CVGregorianDate.setMonthDay(
+                pipe(targetDate, CVGregorianDate.getNumberOfDaysInMonth(targetMonthIndex + 1)),
+              ),
+            )
+          : Result.succeed(targetDate),
+      ),
+      Result.flatMap(self._setGregorianDate.bind(self)),
     );
   };
 
@@ -1686,14 +2162,16 @@ export const offsetMonthsOrThrow: (
 
 /**
  * If possible, returns a `Success` of a copy of `self` offset by `offset` days. Returns a `Failure`
- * of an error otherwise.
+ * of an error otherwise. If `self` is attached to an IANA time zone, its local date is offset and
+ * its local time (`hour23`, `minute`, `second`, `millisecond`) is kept, so the elapsed time is not
+ * necessarily `offset` times 24 hours when a daylight saving time change occurs in between
  *
  * @category Offsetters
  */
-export const offsetDays = (
-  offset: number,
-): MTypes.OneArgFunction<Type, Result.Result<Type, MInputError.Type>> =>
-  offsetMilliseconds(offset * DAY_MS);
+export const offsetDays =
+  (offset: number) =>
+  (self: Type): Result.Result<Type, MInputError.Type> =>
+    self._offsetDays(offset);
 
 /**
  * Same as `offsetDays` but returns directly a `CVDateTime` or throws in case of an error
@@ -1719,11 +2197,19 @@ export const offsetIsoYears =
   (self: Type): Result.Result<Type, MInputError.Type> => {
     const offsetToLastIsoYearDay = respectYearEnd && isLastIsoYearDay(self);
 
+    // The target date is calculated before being set so that no intermediate local time is
+    // resolved in the time zone of `self`
     return pipe(
       self,
-      offsetToLastIsoYearDay ? setIsoWeekOrThrow(1) : Function.identity,
-      setIsoYear(getIsoYear(self) + offset),
-      Result.map(MFunction.fIfTrue({ condition: offsetToLastIsoYearDay, f: toLastIsoYearWeek })),
+      isoDate,
+      offsetToLastIsoYearDay ? CVIsoDate.setIsoWeek(1) : Result.succeed,
+      Result.flatMap(CVIsoDate.setYear(getIsoYear(self) + offset)),
+      Result.flatMap((targetDate) =>
+        offsetToLastIsoYearDay
+          ? pipe(targetDate, CVIsoDate.setIsoWeek(CVIsoDate.getLastIsoWeek(targetDate)))
+          : Result.succeed(targetDate),
+      ),
+      Result.flatMap(self._setIsoDate.bind(self)),
     );
   };
 
@@ -0,0 +1,55 @@
+/**
+ * This module defines the list of the options that can be used to resolve a local time that is
+ * ambiguous (it occurs twice, e.g. when clocks are set back) or that does not exist (it is skipped,
+ * e.g. when clocks are set forward) in an IANA time zone (see Temporal disambiguation option)
+ */
+
+import { flow } from 'effect';
+import * as Function from 'effect/Function';
+
+import * as MMatch from '@parischap/effect-lib/MMatch';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+/**
+ * Type that represents the possible disambiguation options
+ *
+ * @category Models
+ */
+export enum Type {
+  /**
+   * Same behavior as the JavaScript Date object. An ambiguous local time is resolved to the earlier
+   * instant. A skipped local time is moved forward by the length of the gap (e.g. 02:30 becomes
+   * 03:30 when clocks are set forward from 02:00 to 03:00)
+   */
+  Compatible = 0,
+  /**
+   * An ambiguous local time is resolved to the earlier instant. A skipped local time is moved
+   * backward by the length of the gap (e.g. 02:30 becomes 01:30 when clocks are set forward from
+   * 02:00 to 03:00)
+   */
+  Earlier = 1,
+  /**
+   * An ambiguous local time is resolved to the later instant. A skipped local time is moved forward
+   * by the length of the gap (e.g. 02:30 becomes 03:30 when clocks are set forward from 02:00 to
+   * 03:00)
+   */
+  Later = 2,
+  /** Ambiguous and skipped local times are rejected */
+  Reject = 3,
+}
+
+/**
+ * Returns the name of `self`
+ *
+ * @category Destructors
+ */
+export const toString: MTypes.OneArgFunction<Type, string> = flow(
+  MMatch.make,
+  flow(
+    MMatch.whenIs(Type.Compatible, Function.constant('Compatible')),
+    MMatch.whenIs(Type.Earlier, Function.constant('Earlier')),
+    MMatch.whenIs(Type.Later, Function.constant('Later')),
+    MMatch.whenIs(Type.Reject, Function.constant('Reject')),
+  ),
+  MMatch.exhaustive,
+);
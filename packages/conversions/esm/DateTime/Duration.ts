@@ -0,0 +1,299 @@
+/**
+ * This module implements an immutable `CVDuration` object, i.e. an exact amount of time expressed
+ * in milliseconds. Unlike a `CVPeriod`, a `CVDuration` does not depend on the calendar: one day is
+ * always equal to 24 hours, even on days when clocks are set back or forward.
+ *
+ * A `CVDuration` can be added to or subtracted from a `CVDateTime`. It can be formatted to and
+ * parsed from an ISO 8601 duration string (e.g. `PT76H3M2.5S`).
+ */
+
+import { flow, pipe } from 'effect';
+import type * as Equivalence from 'effect/Equivalence';
+import * as Function from 'effect/Function';
+import * as Hash from 'effect/Hash';
+import * as Predicate from 'effect/Predicate';
+import * as Result from 'effect/Result';
+import * as Struct from 'effect/Struct';
+
+import * as MData from '@parischap/effect-lib/MData';
+import * as MEquivalenceBasedEqualityData from '@parischap/effect-lib/MEquivalenceBasedEqualityData';
+import * as MInputError from '@parischap/effect-lib/MInputError';
+import * as MString from '@parischap/effect-lib/MString';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+import { DAY_MS, HOUR_MS, MINUTE_MS, SECOND_MS, WEEK_MS } from './date-time-constants.js';
+import * as CVDateTime from './DateTime.js';
+import * as CVPeriod from './Period.js';
+
+/**
+ * Module tag
+ *
+ * @category Module markers
+ */
+export const moduleTag = '@parischap/conversions/DateTime/Duration/';
+const TypeId: unique symbol = Symbol.for(moduleTag) as TypeId;
+type TypeId = typeof TypeId;
+
+/**
+ * Type that represents a CVDuration
+ *
+ * @category Models
+ */
+export class Type extends MEquivalenceBasedEqualityData.Class {
+  /** Number of milliseconds of this duration. Should be a finite integer */
+  readonly milliseconds: number;
+
+  /** Class constructor */
+  private constructor({ milliseconds }: MTypes.Data<Type>) {
+    super();
+    this.milliseconds = milliseconds;
+  }
+
+  /** Static constructor */
+  static make(params: MTypes.Data<Type>): Type {
+    return new Type(params);
+  }
+
+  /** Returns the `id` of `this` */
+  [MData.idSymbol](): string | (() => string) {
+    return function idSymbol(this: Type) {
+      return toIsoString(this);
+    };
+  }
+
+  /** Calculates the hash value of `this` */
+  [Hash.symbol](): number {
+    return 0;
+  }
+
+  /** Function that implements the equivalence of `this` and `that` */
+  [MEquivalenceBasedEqualityData.isEquivalentToSymbol](this: this, that: this): boolean {
+    return equivalence(this, that);
+  }
+
+  /** Predicate that returns true if `that` has the same type marker as `this` */
+  [MEquivalenceBasedEqualityData.hasSameTypeMarkerAsSymbol](that: unknown): boolean {
+    return Predicate.hasProperty(that, TypeId);
+  }
+
+  /** Returns the TypeMarker of the class */
+  protected get [TypeId](): TypeId {
+    return TypeId;
+  }
+}
+
+/**
+ * Equivalence
+ *
+ * @category Equivalences
+ */
+export const equivalence: Equivalence.Equivalence<Type> = (self, that) =>
+  self.milliseconds === that.milliseconds;
+
+/**
+ * Tries to build a `CVDuration` from a number of milliseconds. `milliseconds` must be a safe
+ * integer. Returns a `Success` if successful, a `Failure` otherwise.
+ *
+ * @category Constructors
+ */
+export const fromMilliseconds = (milliseconds: number): Result.Result<Type, MInputError.Type> =>
+  Number.isSafeInteger(milliseconds)
+    ? Result.succeed(Type.make({ milliseconds }))
+    : Result.fail(
+        new MInputError.Type({
+          message: `Expected 'milliseconds' to be a safe integer. Actual: ${milliseconds}`,
+        }),
+      );
+
+/**
+ * Same as `fromMilliseconds` but returns directly a `CVDuration` or throws if it cannot be built
+ *
+ * @category Constructors
+ */
+export const fromMillisecondsOrThrow: MTypes.OneArgFunction<number, Type> = flow(
+  fromMilliseconds,
+  Result.getOrThrowWith(Function.identity),
+);
+
+/**
+ * Builds a `CVDuration` from its components. Omitted components are taken equal to 0. Weeks and
+ * days are considered to last exactly 7x24 hours and 24 hours respectively. All components should
+ * be finite integers. They need not have the same sign.
+ *
+ * @category Constructors
+ */
+export const make = ({
+  weeks = 0,
+  days = 0,
+  hours = 0,
+  minutes = 0,
+  seconds = 0,
+  milliseconds = 0,
+}: {
+  readonly weeks?: number;
+  readonly days?: number;
+  readonly hours?: number;
+  readonly minutes?: number;
+  readonly seconds?: number;
+  readonly milliseconds?: number;
+}): Type =>
+  Type.make({
+    milliseconds:
+      weeks * WEEK_MS +
+      days * DAY_MS +
+      hours * HOUR_MS +
+      minutes * MINUTE_MS +
+      seconds * SECOND_MS +
+      milliseconds,
+  });
+
+/**
+ * `CVDuration` instance that represents a null duration
+ *
+ * @category Instances
+ */
+export const zero: Type = Type.make({ milliseconds: 0 });
+
+/**
+ * Returns the exact duration between `start` and `end`. The result is negative if `end` is before
+ * `start`
+ *
+ * @category Constructors
+ */
+export const between = (start: CVDateTime.Type, end: CVDateTime.Type): Type =>
+  Type.make({ milliseconds: CVDateTime.timestamp(end) - CVDateTime.timestamp(start) });
+
+/**
+ * Tries to build a `CVDuration` from an ISO 8601 duration string, e.g. `PT76H3M2.5S` or `-P2DT4H`.
+ * Year and month components are not accepted as their duration is not fixed. Week and day
+ * components are considered to last exactly 7x24 hours and 24 hours respectively. The seconds
+ * component may have up to three decimals. Returns a `Success` if successful, a `Failure`
+ * otherwise.
+ *
+ * @category Constructors
+ */
+export const fromIsoString = (isoString: string): Result.Result<Type, MInputError.Type> =>
+  pipe(
+    isoString,
+    CVPeriod.fromIsoString,
+    Result.filterOrFail(
+      (period) => period.years === 0 && period.months === 0,
+      () =>
+        new MInputError.Type({
+          message: `Expected duration not to have any year or month component. Actual: '${isoString}'`,
+        }),
+    ),
+    Result.map((period) =>
+      make({
+        weeks: period.weeks,
+        days: period.days,
+        hours: period.hours,
+        minutes: period.minutes,
+        seconds: period.seconds,
+        milliseconds: period.milliseconds,
+      }),
+    ),
+  );
+
+/**
+ * Same as `fromIsoString` but returns directly a `CVDuration` or throws in case of an error
+ *
+ * @category Constructors
+ */
+export const fromIsoStringOrThrow: MTypes.OneArgFunction<string, Type> = flow(
+  fromIsoString,
+  Result.getOrThrowWith(Function.identity),
+);
+
+/**
+ * Returns the `milliseconds` property of `self`
+ *
+ * @category Getters
+ */
+export const milliseconds: MTypes.OneArgFunction<Type, number> = Struct.get('milliseconds');
+
+/**
+ * Returns the ISO 8601 representation of `self`. Only hours, minutes and seconds are used, e.g.
+ * `PT76H3M2.5S`, because days do not always last 24 hours. A negative duration is prefixed with a
+ * minus sign. A null duration is represented by `PT0S`.
+ *
+ * @category Destructors
+ */
+export const toIsoString = (self: Type): string => {
+  const absMilliseconds = Math.abs(self.milliseconds);
+  const hours = Math.trunc(absMilliseconds / HOUR_MS);
+  const minutes = Math.trunc((absMilliseconds % HOUR_MS) / MINUTE_MS);
+  const seconds = Math.trunc((absMilliseconds % MINUTE_MS) / SECOND_MS);
+  const millisecondPart = absMilliseconds % SECOND_MS;
+  const secondPart =
+    millisecondPart === 0
+      ? seconds.toString()
+      : `${seconds}.${pipe(millisecondPart.toString().padStart(3, '0'), MString.trimEnd('0'))}`;
+
+  return (
+    (self.milliseconds < 0 ? '-' : '') +
+    'PT' +
+    (hours === 0 ? '' : `${hours}H`) +
+    (minutes === 0 ? '' : `${minutes}M`) +
+    (seconds === 0 && millisecondPart === 0 && absMilliseconds !== 0 ? '' : `${secondPart}S`)
+  );
+};
+
+/**
+ * Returns a `CVDuration` equal to `self` plus `that`
+ *
+ * @category Utils
+ */
+export const sum =
+  (that: Type) =>
+  (self: Type): Type =>
+    Type.make({ milliseconds: self.milliseconds + that.milliseconds });
+
+/**
+ * Returns a `CVDuration` equal to the opposite of `self`
+ *
+ * @category Utils
+ */
+export const negate = (self: Type): Type => Type.make({ milliseconds: -self.milliseconds });
+
+/**
+ * If possible, returns a `Success` of a copy of `dateTime` offset by `self`. Returns a `Failure` of
+ * an error otherwise.
+ *
+ * @category Utils
+ */
+export const addToDateTime = (
+  self: Type,
+): MTypes.OneArgFunction<CVDateTime.Type, Result.Result<CVDateTime.Type, MInputError.Type>> =>
+  CVDateTime.offsetMilliseconds(self.milliseconds);
+
+/**
+ * Same as `addToDateTime` but returns directly a `CVDateTime` or throws in case of an error
+ *
+ * @category Utils
+ */
+export const addToDateTimeOrThrow: MTypes.OneArgFunction<
+  Type,
+  MTypes.OneArgFunction<CVDateTime.Type>
+> = flow(addToDateTime, Function.compose(Result.getOrThrowWith(Function.identity)));
+
+/**
+ * If possible, returns a `Success` of a copy of `dateTime` offset by the opposite of `self`.
+ * Returns a `Failure` of an error otherwise.
+ *
+ * @category Utils
+ */
+export const subtractFromDateTime: MTypes.OneArgFunction<
+  Type,
+  MTypes.OneArgFunction<CVDateTime.Type, Result.Result<CVDateTime.Type, MInputError.Type>>
+> = flow(negate, addToDateTime);
+
+/**
+ * Same as `subtractFromDateTime` but returns directly a `CVDateTime` or throws in case of an error
+ *
+ * @category Utils
+ */
+export const subtractFromDateTimeOrThrow: MTypes.OneArgFunction<
+  Type,
+  MTypes.OneArgFunction<CVDateTime.Type>
+> = flow(subtractFromDateTime, Function.compose(Result.getOrThrowWith(Function.identity)));
@@ -0,0 +1,587 @@
+/**
+ * This module implements an immutable `CVPeriod` object, i.e. an amount of time expressed in
+ * calendar units (years, months, weeks, days, hours, minutes, seconds and milliseconds). Unlike a
+ * `CVDuration`, the exact length of a `CVPeriod` depends on the `CVDateTime` it is added to: one
+ * month added to January 31st yields the last day of February; one day added to the day before
+ * clocks are set forward in an IANA time zone lasts 23 hours.
+ *
+ * When a `CVPeriod` is added to a `CVDateTime`, years, months, weeks and days are added to the
+ * local date of the `CVDateTime` (the day of month is clamped to the last day of the target month
+ * if need be) and the local time is left unchanged. Then, hours, minutes, seconds and milliseconds
+ * are added as an exact amount of time.
+ *
+ * A `CVPeriod` can be formatted to and parsed from an ISO 8601 duration string (e.g. `P3M2DT4H`).
+ */
+
+import { flow, pipe } from 'effect';
+import * as Array from 'effect/Array';
+import type * as Equivalence from 'effect/Equivalence';
+import * as Function from 'effect/Function';
+import * as Hash from 'effect/Hash';
+import * as Option from 'effect/Option';
+import * as Predicate from 'effect/Predicate';
+import * as Result from 'effect/Result';
+import * as String from 'effect/String';
+import * as Struct from 'effect/Struct';
+
+import * as MData from '@parischap/effect-lib/MData';
+import * as MEquivalenceBasedEqualityData from '@parischap/effect-lib/MEquivalenceBasedEqualityData';
+import * as MInputError from '@parischap/effect-lib/MInputError';
+import * as MRegExpString from '@parischap/effect-lib/MRegExpString';
+import * as MString from '@parischap/effect-lib/MString';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+import * as CVTimeZone from '../internal/DateTime/TimeZone.js';
+import { DAY_MS, HOUR_MS, MINUTE_MS, SECOND_MS } from './date-time-constants.js';
+import * as CVDateTime from './DateTime.js';
+import * as CVDateTimeZoneDisambiguation from './DateTimeZoneDisambiguation.js';
+
+/**
+ * Module tag
+ *
+ * @category Module markers
+ */
+export const moduleTag = '@parischap/conversions/DateTime/Period/';
+const TypeId: unique symbol = Symbol.for(moduleTag) as TypeId;
+type TypeId = typeof TypeId;
+
+/** Names of the fields of a CVPeriod in decreasing order of magnitude */
+const FIELD_NAMES = [
+  'years',
+  'months',
+  'weeks',
+  'days',
+  'hours',
+  'minutes',
+  'seconds',
+  'milliseconds',
+] as const;
+
+const isoComponent = (name: string, designator: string): string =>
+  MRegExpString.optional(
+    MRegExpString.capture(name)(MRegExpString.oneOrMore(MRegExpString.digit)) + designator,
+  );
+
+/** Function that matches an ISO 8601 duration and extracts its components */
+const matchIsoString = MString.matchWithCapturingGroups(
+  new RegExp(
+    MRegExpString.makeLine(
+      MRegExpString.optionalCapture('sign')(MRegExpString.sign) +
+        'P' +
+        isoComponent('years', 'Y') +
+        isoComponent('months', 'M') +
+        isoComponent('weeks', 'W') +
+        isoComponent('days', 'D') +
+        MRegExpString.optional(
+          'T' +
+            isoComponent('hours', 'H') +
+            isoComponent('minutes', 'M') +
+            MRegExpString.optional(
+              MRegExpString.capture('seconds')(MRegExpString.oneOrMore(MRegExpString.digit)) +
+                MRegExpString.optional(
+                  MRegExpString.anyCharIn([MRegExpString.dot, ',']) +
+                    MRegExpString.capture('fraction')(
+                      MRegExpString.repeatBetween(1, 3)(MRegExpString.digit),
+                    ),
+                ) +
+                'S',
+            ),
+        ),
+    ),
+  ),
+  ['sign', 'years', 'months', 'weeks', 'days', 'hours', 'minutes', 'seconds', 'fraction'],
+);
+
+/**
+ * Type that represents a CVPeriod. All fields are integers with the same sign
+ *
+ * @category Models
+ */
+export class Type extends MEquivalenceBasedEqualityData.Class {
+  /** Number of years */
+  readonly years: number;
+
+  /** Number of months */
+  readonly months: number;
+
+  /** Number of weeks */
+  readonly weeks: number;
+
+  /** Number of days */
+  readonly days: number;
+
+  /** Number of hours */
+  readonly hours: number;
+
+  /** Number of minutes */
+  readonly minutes: number;
+
+  /** Number of seconds */
+  readonly seconds: number;
+
+  /** Number of milliseconds */
+  readonly milliseconds: number;
+
+  /** Class constructor */
+  private constructor({
+    years,
+    months,
+    weeks,
+    days,
+    hours,
+    minutes,
+    seconds,
+    milliseconds,
+  }: MTypes.Data<Type>) {
+    super();
+    this.years = years;
+    this.months = months;
+    this.weeks = weeks;
+    this.days = days;
+    this.hours = hours;
+    this.minutes = minutes;
+    this.seconds = seconds;
+    this.milliseconds = milliseconds;
+  }
+
+  /** Static constructor */
+  static make(params: MTypes.Data<Type>): Type {
+    return new Type(params);
+  }
+
+  /** Returns the `id` of `this` */
+  [MData.idSymbol](): string | (() => string) {
+    return function idSymbol(this: Type) {
+      return toIsoString(this);
+    };
+  }
+
+  /** Calculates the hash value of `this` */
+  [Hash.symbol](): number {
+    return 0;
+  }
+
+  /** Function that implements the equivalence of `this` and `that` */
+  [MEquivalenceBasedEqualityData.isEquivalentToSymbol](this: this, that: this): boolean {
+    return equivalence(this, that);
+  }
+
+  /** Predicate that returns true if `that` has the same type marker as `this` */
+  [MEquivalenceBasedEqualityData.hasSameTypeMarkerAsSymbol](that: unknown): boolean {
+    return Predicate.hasProperty(that, TypeId);
+  }
+
+  /** Returns the TypeMarker of the class */
+  protected get [TypeId](): TypeId {
+    return TypeId;
+  }
+}
+
+/**
+ * Equivalence. Two `CVPeriod`'s are equivalent if all their fields are equal. So `P1D` and `PT24H`
+ * are not equivalent
+ *
+ * @category Equivalences
+ */
+export const equivalence: Equivalence.Equivalence<Type> = (self, that) =>
+  Array.every(FIELD_NAMES, (fieldName) => self[fieldName] === that[fieldName]);
+
+/**
+ * Tries to build a `CVPeriod` from its components. Omitted components are taken equal to 0. All
+ * components must be safe integers with the same sign. Returns a `Success` if successful, a
+ * `Failure` otherwise.
+ *
+ * @category Constructors
+ */
+export const fromParts = (
+  parts: Partial<MTypes.Data<Type>>,
+): Result.Result<Type, MInputError.Type> => {
+  const fields = {
+    years: 0,
+    months: 0,
+    weeks: 0,
+    days: 0,
+    hours: 0,
+    minutes: 0,
+    seconds: 0,
+    milliseconds: 0,
+    ...parts,
+  };
+
+  const nonIntegerField = Array.findFirst(
+    FIELD_NAMES,
+    (fieldName) => !Number.isSafeInteger(fields[fieldName]),
+  );
+  if (Option.isSome(nonIntegerField))
+    return Result.fail(
+      new MInputError.Type({
+        message: `Expected '${nonIntegerField.value}' to be a safe integer. Actual: ${fields[nonIntegerField.value]}`,
+      }),
+    );
+
+  if (
+    Array.some(FIELD_NAMES, (fieldName) => fields[fieldName] < 0) &&
+    Array.some(FIELD_NAMES, (fieldName) => fields[fieldName] > 0)
+  )
+    return Result.fail(
+      new MInputError.Type({
+        message: 'Expected all the components of a period to have the same sign',
+      }),
+    );
+
+  return Result.succeed(Type.make(fields));
+};
+
+/**
+ * Same as `fromParts` but returns directly a `CVPeriod` or throws if it cannot be built
+ *
+ * @category Constructors
+ */
+export const fromPartsOrThrow: MTypes.OneArgFunction<Partial<MTypes.Data<Type>>, Type> = flow(
+  fromParts,
+  Result.getOrThrowWith(Function.identity),
+);
+
+/**
+ * `CVPeriod` instance that represents a null period
+ *
+ * @category Instances
+ */
+export const zero: Type = fromPartsOrThrow({});
+
+/**
+ * Tries to build a `CVPeriod` from an ISO 8601 duration string, e.g. `P3M2DT4H` or `-P1Y2W`. The
+ * seconds component may have up to three decimals, separated from the integer part by a dot or a
+ * comma. Returns a `Success` if successful, a `Failure` otherwise.
+ *
+ * @category Constructors
+ */
+export const fromIsoString = (isoString: string): Result.Result<Type, MInputError.Type> =>
+  pipe(
+    isoString,
+    matchIsoString,
+    // At least one component must be present and 'T' may not be followed by nothing
+    Option.filter(
+      ({ groups }) =>
+        Array.some(
+          [
+            groups.years,
+            groups.months,
+            groups.weeks,
+            groups.days,
+            groups.hours,
+            groups.minutes,
+            groups.seconds,
+          ],
+          String.isNonEmpty,
+        ) && !isoString.endsWith('T'),
+    ),
+    Result.fromOption(() =>
+      MInputError.notMatching({
+        regExpDescriptor: 'an ISO 8601 duration',
+        actual: isoString,
+        name: 'period',
+      }),
+    ),
+    Result.flatMap(({ groups: { sign, fraction, ...components } }) => {
+      const toSignedNumber = (s: string): number => {
+        const n = s === '' ? 0 : +s;
+        return sign === '-' ? 0 - n : n;
+      };
+      return fromParts({
+        years: toSignedNumber(components.years),
+        months: toSignedNumber(components.months),
+        weeks: toSignedNumber(components.weeks),
+        days: toSignedNumber(components.days),
+        hours: toSignedNumber(components.hours),
+        minutes: toSignedNumber(components.minutes),
+        seconds: toSignedNumber(components.seconds),
+        milliseconds: toSignedNumber(fraction.padEnd(3, '0')),
+      });
+    }),
+  );
+
+/**
+ * Same as `fromIsoString` but returns directly a `CVPeriod` or throws in case of an error
+ *
+ * @category Constructors
+ */
+export const fromIsoStringOrThrow: MTypes.OneArgFunction<string, Type> = flow(
+  fromIsoString,
+  Result.getOrThrowWith(Function.identity),
+);
+
+/**
+ * Returns the `years` property of `self`
+ *
+ * @category Getters
+ */
+export const years: MTypes.OneArgFunction<Type, number> = Struct.get('years');
+
+/**
+ * Returns the `months` property of `self`
+ *
+ * @category Getters
+ */
+export const months: MTypes.OneArgFunction<Type, number> = Struct.get('months');
+
+/**
+ * Returns the `weeks` property of `self`
+ *
+ * @category Getters
+ */
+export const weeks: MTypes.OneArgFunction<Type, number> = Struct.get('weeks');
+
+/**
+ * Returns the `days` property of `self`
+ *
+ * @category Getters
+ */
+export const days: MTypes.OneArgFunction<Type, number> = Struct.get('days');
+
+/**
+ * Returns the `hours` property of `self`
+ *
+ * @category Getters
+ */
+export const hours: MTypes.OneArgFunction<Type, number> = Struct.get('hours');
+
+/**
+ * Returns the `minutes` property of `self`
+ *
+ * @category Getters
+ */
+export const minutes: MTypes.OneArgFunction<Type, number> = Struct.get('minutes');
+
+/**
+ * Returns the `seconds` property of `self`
+ *
+ * @category Getters
+ */
+export const seconds: MTypes.OneArgFunction<Type, number> = Struct.get('seconds');
+
+/**
+ * Returns the `milliseconds` property of `self`
+ *
+ * @category Getters
+ */
+export const milliseconds: MTypes.OneArgFunction<Type, number> = Struct.get('milliseconds');
+
+/**
+ * Returns true if at least one component of `self` is strictly negative
+ *
+ * @category Predicates
+ */
+export const isNegative: Predicate.Predicate<Type> = (self) =>
+  Array.some(FIELD_NAMES, (fieldName) => self[fieldName] < 0);
+
+/**
+ * Returns the ISO 8601 representation of `self`, e.g. `P1Y2M3W4DT5H6M7.008S`. Null components are
+ * omitted. A negative period is prefixed with a minus sign. A null period is represented by `PT0S`.
+ * Milliseconds are expressed as a fraction of seconds, so the `milliseconds` component of `self` is
+ * carried over to the `seconds` component if it is greater than 999.
+ *
+ * @category Destructors
+ */
+export const toIsoString = (self: Type): string => {
+  const format = (value: number, designator: string): string =>
+    value === 0 ? '' : `${Math.abs(value)}${designator}`;
+  const absMilliseconds = Math.abs(self.milliseconds);
+  const absSeconds = Math.abs(self.seconds) + Math.trunc(absMilliseconds / SECOND_MS);
+  const millisecondPart = absMilliseconds % SECOND_MS;
+  const secondPart =
+    absSeconds === 0 && millisecondPart === 0
+      ? ''
+      : `${absSeconds}${millisecondPart === 0 ? '' : '.' + pipe(millisecondPart.toString().padStart(3, '0'), MString.trimEnd('0'))}S`;
+  const datePart =
+    format(self.years, 'Y') +
+    format(self.months, 'M') +
+    format(self.weeks, 'W') +
+    format(self.days, 'D');
+  const timePart = format(self.hours, 'H') + format(self.minutes, 'M') + secondPart;
+
+  if (datePart === '' && timePart === '') return 'PT0S';
+  return (isNegative(self) ? '-' : '') + 'P' + datePart + (timePart === '' ? '' : 'T' + timePart);
+};
+
+/**
+ * Returns a `CVPeriod` whose components are the opposite of those of `self`
+ *
+ * @category Utils
+ */
+export const negate = (self: Type): Type =>
+  Type.make({
+    years: 0 - self.years,
+    months: 0 - self.months,
+    weeks: 0 - self.weeks,
+    days: 0 - self.days,
+    hours: 0 - self.hours,
+    minutes: 0 - self.minutes,
+    seconds: 0 - self.seconds,
+    milliseconds: 0 - self.milliseconds,
+  });
+
+/**
+ * Offsets the local date of `dateTime` by `monthOffset` months and `dayOffset` days, leaving its
+ * local time unchanged. The day of month is clamped to the last day of the target month if need be.
+ * Calculations are done on a copy of `dateTime` with a null zone offset so that no intermediate
+ * local time gets resolved in the time zone of `dateTime`.
+ */
+const offsetLocalDate =
+  (monthOffset: number, dayOffset: number) =>
+  (dateTime: CVDateTime.Type): Result.Result<CVDateTime.Type, MInputError.Type> =>
+    Result.gen(function* () {
+      const monthDay = CVDateTime.getMonthDay(dateTime);
+      const localStartOfMonth = yield* pipe(
+        CVDateTime.fromTimestamp(dateTime.zonedTimestamp, 0),
+        Result.flatMap(CVDateTime.setMonthDay(1)),
+        Result.flatMap(CVDateTime.offsetMonths(monthOffset, false)),
+      );
+      const localDateTime = yield* pipe(
+        localStartOfMonth,
+        CVDateTime.setMonthDay(
+          Math.min(monthDay, CVDateTime.getNumberOfDaysInMonth(localStartOfMonth)),
+        ),
+        Result.flatMap(CVDateTime.offsetDays(dayOffset)),
+      );
+      return yield* Option.match(dateTime.timeZone, {
+        onNone: () => CVDateTime.setZoneOffsetKeepParts(dateTime.zoneOffset)(localDateTime),
+        onSome: (timeZone) =>
+          CVDateTime.setZoneNameKeepParts(
+            CVTimeZone.name(timeZone),
+            CVTimeZone.disambiguation(timeZone),
+          )(localDateTime),
+      });
+    });
+
+/**
+ * If possible, returns a `Success` of a copy of `dateTime` offset by `self`. Returns a `Failure` of
+ * an error otherwise. Years, months, weeks and days are first added to the local date of
+ * `dateTime`. If the target day does not exist in the target month, the last day of the target
+ * month is used. Then, hours, minutes, seconds and milliseconds are added as an exact amount of
+ * time. If `dateTime` is attached to an IANA time zone, a local time that is ambiguous or skipped
+ * after adding the date part is resolved according to the disambiguation option of that time zone.
+ *
+ * @category Utils
+ */
+export const addToDateTime =
+  (self: Type) =>
+  (dateTime: CVDateTime.Type): Result.Result<CVDateTime.Type, MInputError.Type> =>
+    pipe(
+      dateTime,
+      self.years === 0 && self.months === 0 && self.weeks === 0 && self.days === 0
+        ? Result.succeed
+        : offsetLocalDate(self.years * 12 + self.months, self.weeks * 7 + self.days),
+      Result.flatMap(
+        CVDateTime.offsetMilliseconds(
+          self.hours * HOUR_MS +
+            self.minutes * MINUTE_MS +
+            self.seconds * SECOND_MS +
+            self.milliseconds,
+        ),
+      ),
+    );
+
+/**
+ * Same as `addToDateTime` but returns directly a `CVDateTime` or throws in case of an error
+ *
+ * @category Utils
+ */
+export const addToDateTimeOrThrow: MTypes.OneArgFunction<
+  Type,
+  MTypes.OneArgFunction<CVDateTime.Type>
+> = flow(addToDateTime, Function.compose(Result.getOrThrowWith(Function.identity)));
+
+/**
+ * If possible, returns a `Success` of a copy of `dateTime` offset by the opposite of `self`.
+ * Returns a `Failure` of an error otherwise. See `addToDateTime` for more details
+ *
+ * @category Utils
+ */
+export const subtractFromDateTime: MTypes.OneArgFunction<
+  Type,
+  MTypes.OneArgFunction<CVDateTime.Type, Result.Result<CVDateTime.Type, MInputError.Type>>
+> = flow(negate, addToDateTime);
+
+/**
+ * Same as `subtractFromDateTime` but returns directly a `CVDateTime` or throws in case of an error
+ *
+ * @category Utils
+ */
+export const subtractFromDateTimeOrThrow: MTypes.OneArgFunction<
+  Type,
+  MTypes.OneArgFunction<CVDateTime.Type>
+> = flow(subtractFromDateTime, Function.compose(Result.getOrThrowWith(Function.identity)));
+
+/**
+ * Returns the difference between `end` and `start` expressed in calendar units. The returned
+ * `CVPeriod` has no `weeks` component, a `months` component in the range [-11, 11] and a `days`
+ * component that is less than the length of a month. It is negative if `end` is before `start`.
+ * Adding the returned `CVPeriod` to `start` with `addToDateTime` yields `end` (save for local times
+ * that are ambiguous or skipped in the time zone of `start`). The local date of `end` is calculated
+ * in the time zone (or with the zone offset) of `start`. Never fails, whatever the disambiguation
+ * option of the time zone of `start`.
+ *
+ * @category Constructors
+ */
+export const between = (start: CVDateTime.Type, end: CVDateTime.Type): Type => {
+  const endTimestamp = CVDateTime.timestamp(end);
+  const sign = endTimestamp < CVDateTime.timestamp(start) ? -1 : 1;
+  // Returns true if `dateTime` is beyond `end` when moving from `start` to `end`
+  const overshoots = (dateTime: CVDateTime.Type): boolean =>
+    (CVDateTime.timestamp(dateTime) - endTimestamp) * sign > 0;
+  // Probe dates are resolved with the Compatible disambiguation option so that an intermediate
+  // local time that is skipped or ambiguous in the time zone of `start` does not make the
+  // calculation fail. Probe dates lie between `start` and `end`, so they are always in range
+  const probeStart = Option.match(start.timeZone, {
+    onNone: () => start,
+    onSome: (timeZone) =>
+      CVDateTime.setZoneNameKeepTimestampOrThrow(
+        CVTimeZone.name(timeZone),
+        CVDateTimeZoneDisambiguation.Type.Compatible,
+      )(start),
+  });
+  const offsetStart = (monthOffset: number, dayOffset: number): CVDateTime.Type =>
+    pipe(
+      probeStart,
+      offsetLocalDate(monthOffset, dayOffset),
+      Result.getOrThrowWith(Function.identity),
+    );
+
+  const localEnd = Option.match(start.timeZone, {
+    onNone: () => CVDateTime.setZoneOffsetKeepTimestampOrThrow(start.zoneOffset)(end),
+    onSome: (timeZone) =>
+      CVDateTime.setZoneNameKeepTimestampOrThrow(CVTimeZone.name(timeZone))(end),
+  });
+
+  const estimatedMonths =
+    (CVDateTime.getYear(localEnd) - CVDateTime.getYear(start)) * 12 +
+    CVDateTime.getMonth(localEnd) -
+    CVDateTime.getMonth(start);
+  const totalMonths = overshoots(offsetStart(estimatedMonths, 0))
+    ? estimatedMonths - sign
+    : estimatedMonths;
+
+  const estimatedDays = Math.trunc(
+    (localEnd.zonedTimestamp - offsetStart(totalMonths, 0).zonedTimestamp) / DAY_MS,
+  );
+  const totalDays = overshoots(offsetStart(totalMonths, estimatedDays))
+    ? estimatedDays - sign
+    : estimatedDays;
+
+  const remainder = Math.abs(
+    endTimestamp - CVDateTime.timestamp(offsetStart(totalMonths, totalDays)),
+  );
+  const signed = (n: number): number => (sign < 0 ? 0 - n : n);
+
+  return Type.make({
+    years: signed(Math.trunc(Math.abs(totalMonths) / 12)),
+    months: signed(Math.abs(totalMonths) % 12),
+    weeks: 0,
+    days: signed(Math.abs(totalDays)),
+    hours: signed(Math.trunc(remainder / HOUR_MS)),
+    minutes: signed(Math.trunc((remainder % HOUR_MS) / MINUTE_MS)),
+    seconds: signed(Math.trunc((remainder % MINUTE_MS) / SECOND_MS)),
+    milliseconds: signed(remainder % SECOND_MS),
+  });
+};
@@ -0,0 +1,949 @@
+/**
+ * This module implements an immutable `CVRecurrence` object, i.e. a calendar recurrence rule as
+ * defined by the RRULE property of RFC 5545 (iCalendar). DAILY, WEEKLY, MONTHLY and YEARLY
+ * frequencies are supported along with the INTERVAL, BYMONTH, BYMONTHDAY, BYDAY, BYSETPOS, COUNT
+ * and UNTIL rule parts. Weeks always start on Monday, as ISO weeks do.
+ *
+ * A `CVRecurrence` can be parsed from and formatted to an RRULE string (e.g.
+ * `FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1`). Given a start `CVDateTime`, it generates its
+ * occurrences lazily as an `Iterable` or a `Stream` of `CVDateTime`'s. All occurrences have the
+ * same local time as the start `CVDateTime` and are expressed in its time zone (or with its zone
+ * offset). Like in RFC 5545, the start `CVDateTime` is only an occurrence if it matches the rule.
+ */
+
+import { flow, pipe } from 'effect';
+import * as Array from 'effect/Array';
+import * as Function from 'effect/Function';
+import * as Iterable from 'effect/Iterable';
+import * as Option from 'effect/Option';
+import * as Order from 'effect/Order';
+import * as Result from 'effect/Result';
+import * as Stream from 'effect/Stream';
+import * as String from 'effect/String';
+import * as Struct from 'effect/Struct';
+
+import * as MData from '@parischap/effect-lib/MData';
+import * as MInputError from '@parischap/effect-lib/MInputError';
+import * as MRegExp from '@parischap/effect-lib/MRegExp';
+import * as MRegExpString from '@parischap/effect-lib/MRegExpString';
+import * as MString from '@parischap/effect-lib/MString';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+import * as CVDateTimeFormat from '../formatting/DateTimeFormat/DateTimeFormat.js';
+import * as CVDateTimeFormatContext from '../formatting/DateTimeFormat/DateTimeFormatContext/DateTimeFormatContext.js';
+import * as CVDateTimeFormatPlaceholder from '../formatting/DateTimeFormat/DateTimeFormatPart/DateTimeFormatPlaceholder.js';
+import * as CVDateTimeFormatSeparator from '../formatting/DateTimeFormat/DateTimeFormatPart/DateTimeFormatSeparator.js';
+import * as CVDateTimeFormatter from '../formatting/DateTimeFormat/DateTimeFormatter.js';
+import * as CVDateTimeLenientParser from '../formatting/DateTimeFormat/DateTimeLenientParser.js';
+import * as CVTimeZone from '../internal/DateTime/TimeZone.js';
+import { DAY_MS } from './date-time-constants.js';
+import * as CVDateTime from './DateTime.js';
+
+/**
+ * Module tag
+ *
+ * @category Module markers
+ */
+export const moduleTag = '@parischap/conversions/DateTime/Recurrence/';
+const TypeId: unique symbol = Symbol.for(moduleTag) as TypeId;
+type TypeId = typeof TypeId;
+
+/**
+ * Type of the frequency of a `CVRecurrence`
+ *
+ * @category Models
+ */
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+/**
+ * Type of an element of the BYDAY rule part, e.g. `MO` (every Monday) or `-1FR` (last Friday)
+ *
+ * @category Models
+ */
+export interface WeekdayRule {
+  /** Weekday, from 1 (Monday) to 7 (Sunday) */
+  readonly weekday: number;
+
+  /**
+   * If present, only the `ordinal`-th `weekday` of the month (MONTHLY frequency, or YEARLY
+   * frequency with a BYMONTH rule part) or of the year (YEARLY frequency without BYMONTH rule part)
+   * is selected. A negative ordinal counts from the end of the month or year
+   */
+  readonly ordinal: Option.Option<number>;
+}
+
+/**
+ * Type that represents a CVRecurrence
+ *
+ * @category Models
+ */
+export class Type extends MData.Class {
+  /** Frequency of this recurrence */
+  readonly frequency: Frequency;
+
+  /** Number of frequency periods between two periods that contain occurrences */
+  readonly interval: number;
+
+  /** Months (from 1 to 12) to which occurrences are restricted. All months if empty */
+  readonly byMonth: ReadonlyArray<number>;
+
+  /**
+   * Days of month (from 1 to 31, or from -31 to -1 counting from the end of the month) to which
+   * occurrences are restricted. All days if empty
+   */
+  readonly byMonthDay: ReadonlyArray<number>;
+
+  /** Weekdays to which occurrences are restricted. All weekdays if empty */
+  readonly byDay: ReadonlyArray<WeekdayRule>;
+
+  /**
+   * Positions (from 1, or from -1 counting from the end) of the occurrences to keep among those of
+   * each frequency period. All occurrences are kept if empty
+   */
+  readonly bySetPos: ReadonlyArray<number>;
+
+  /** Maximal number of occurrences */
+  readonly count: Option.Option<number>;
+
+  /** Date after which there is no more occurrence */
+  readonly until: Option.Option<CVDateTime.Type>;
+
+  /** Returns the `id` of `this` */
+  [MData.idSymbol](): string | (() => string) {
+    return function idSymbol(this: Type) {
+      return toRRuleString(this);
+    };
+  }
+
+  /** Class constructor */
+  private constructor({
+    frequency,
+    interval,
+    byMonth,
+    byMonthDay,
+    byDay,
+    bySetPos,
+    count,
+    until,
+  }: MTypes.Data<Type>) {
+    super();
+    this.frequency = frequency;
+    this.interval = interval;
+    this.byMonth = byMonth;
+    this.byMonthDay = byMonthDay;
+    this.byDay = byDay;
+    this.bySetPos = bySetPos;
+    this.count = count;
+    this.until = until;
+  }
+
+  /** Static constructor */
+  static make(params: MTypes.Data<Type>): Type {
+    return new Type(params);
+  }
+
+  /** Returns the TypeMarker of the class */
+  protected get [TypeId](): TypeId {
+    return TypeId;
+  }
+}
+
+const FREQUENCIES: ReadonlyArray<Frequency> = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+const WEEKDAY_NAMES = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+/**
+ * If no occurrence is found during that many milliseconds, we consider that the recurrence has no
+ * more occurrences. This is more than the longest gap between two February 29ths
+ */
+const MAX_GAP_MS = 8 * 366 * DAY_MS;
+
+/** Format of the UNTIL rule part when it is a UTC date-time */
+const untilDateTimeFormat = CVDateTimeFormat.make(
+  CVDateTimeFormatPlaceholder.make('yyyy'),
+  CVDateTimeFormatPlaceholder.make('MM'),
+  CVDateTimeFormatPlaceholder.make('dd'),
+  CVDateTimeFormatSeparator.make('T'),
+  CVDateTimeFormatPlaceholder.make('HH'),
+  CVDateTimeFormatPlaceholder.make('mm'),
+  CVDateTimeFormatPlaceholder.make('ss'),
+  CVDateTimeFormatPlaceholder.make('Z'),
+);
+
+/** Format of the UNTIL rule part when it is a date */
+const untilDateFormat = CVDateTimeFormat.make(
+  CVDateTimeFormatPlaceholder.make('yyyy'),
+  CVDateTimeFormatPlaceholder.make('MM'),
+  CVDateTimeFormatPlaceholder.make('dd'),
+);
+
+const untilParser = CVDateTimeLenientParser.make({
+  dateTimeFormats: [untilDateTimeFormat, untilDateFormat],
+  context: CVDateTimeFormatContext.enGB,
+  isTolerant: false,
+});
+
+const untilFormatter = CVDateTimeFormatter.make({
+  dateTimeFormat: untilDateTimeFormat,
+  context: CVDateTimeFormatContext.enGB,
+});
+
+/**
+ * Parses the UNTIL rule part. A date is understood as the last millisecond of that day in UTC so
+ * that occurrences on that day are included
+ */
+const parseUntil = (value: string): Result.Result<CVDateTime.Type, MInputError.Type> =>
+  pipe(
+    value,
+    untilParser.parse,
+    Result.flatMap(({ dateTimeFormat, dateTime }) =>
+      dateTimeFormat === untilDateFormat
+        ? pipe(
+            dateTime,
+            CVDateTime.setZoneOffsetKeepParts(0),
+            Result.flatMap(CVDateTime.offsetMilliseconds(DAY_MS - 1)),
+          )
+        : Result.succeed(dateTime),
+    ),
+  );
+
+/** Regular expression that matches a possibly signed integer */
+const INTEGER_REGEXP = pipe(
+  MRegExpString.digit,
+  MRegExpString.oneOrMore,
+  MString.prepend(MRegExpString.optional(MRegExpString.sign)),
+  MRegExpString.makeLine,
+  MRegExp.fromRegExpString(),
+);
+
+/** Regular expression that matches an unsigned integer */
+const UNSIGNED_INTEGER_REGEXP = pipe(
+  MRegExpString.digit,
+  MRegExpString.oneOrMore,
+  MRegExpString.makeLine,
+  MRegExp.fromRegExpString(),
+);
+
+/** Function that matches a BYDAY rule, e.g. `-1FR`, and extracts its ordinal and weekday */
+const matchWeekdayRule = MString.matchWithCapturingGroups(
+  pipe(
+    MRegExpString.optionalCapture('ordinal')(
+      MRegExpString.optional(MRegExpString.sign) +
+        MRegExpString.repeatBetween(1, 2)(MRegExpString.digit),
+    ) + MRegExpString.capture('weekdayName')(MRegExpString.either(...WEEKDAY_NAMES)),
+    MRegExpString.makeLine,
+    MRegExp.fromRegExpString(),
+  ),
+  ['ordinal', 'weekdayName'],
+);
+
+/** Function that matches an RRULE part, e.g. `FREQ=DAILY`, and extracts its key and value */
+const matchRulePart = MString.matchWithCapturingGroups(
+  pipe(
+    MRegExpString.capture('key')(MRegExpString.oneOrMore(MRegExpString.upperCaseLetter)) +
+      '=' +
+      MRegExpString.capture('value')(MRegExpString.oneOrMore(MRegExpString.anyCharButLineBreak)),
+    MRegExpString.makeLine,
+    MRegExp.fromRegExpString(),
+  ),
+  ['key', 'value'],
+);
+
+/**
+ * Checks that all `values` are integers between `min` and `max` included and, if `isZeroForbidden`
+ * is true, different from 0
+ */
+const checkIntegers =
+  ({
+    name,
+    min,
+    max,
+    isZeroForbidden,
+  }: {
+    readonly name: string;
+    readonly min: number;
+    readonly max: number;
+    readonly isZeroForbidden: boolean;
+  }) =>
+  (values: ReadonlyArray<number>): Result.Result<ReadonlyArray<number>, MInputError.Type> =>
+    pipe(
+      values,
+      Array.findFirst(
+        (value) =>
+          !Number.isSafeInteger(value) ||
+          value < min ||
+          value > max ||
+          (isZeroForbidden && value === 0),
+      ),
+      Option.match({
+        onNone: () => Result.succeed(values),
+        onSome: (value) =>
+          Result.fail(
+            new MInputError.Type({
+              message: `Expected ${name} to be an integer between ${min} and ${max}${isZeroForbidden ? ' different from 0' : ''}. Actual: ${value}`,
+            }),
+          ),
+      }),
+    );
+
+/**
+ * Tries to build a `CVRecurrence` from its components. Omitted components take their default value:
+ * an interval of 1, no BYxxx restriction, no count and no end date. Returns a `Success` if
+ * successful, a `Failure` otherwise. Components must respect the constraints of RFC 5545:
+ *
+ * - `interval` and `count` must be strictly positive integers and `count` and `until` may not be both
+ *   present
+ * - `byMonthDay` may not be used with the WEEKLY frequency
+ * - `byDay` ordinals may only be used with the MONTHLY and YEARLY frequencies
+ * - `bySetPos` must be used with at least another BYxxx restriction
+ *
+ * @category Constructors
+ */
+export const fromParts = ({
+  frequency,
+  interval = 1,
+  byMonth = [],
+  byMonthDay = [],
+  byDay = [],
+  bySetPos = [],
+  count,
+  until,
+}: {
+  readonly frequency: Frequency;
+  readonly interval?: number | undefined;
+  readonly byMonth?: ReadonlyArray<number>;
+  readonly byMonthDay?: ReadonlyArray<number>;
+  readonly byDay?: ReadonlyArray<WeekdayRule>;
+  readonly bySetPos?: ReadonlyArray<number>;
+  readonly count?: number | undefined;
+  readonly until?: CVDateTime.Type | undefined;
+}): Result.Result<Type, MInputError.Type> =>
+  Result.gen(function* () {
+    yield* checkIntegers({
+      name: "'interval'",
+      min: 1,
+      max: Number.MAX_SAFE_INTEGER,
+      isZeroForbidden: false,
+    })([interval]);
+    yield* checkIntegers({ name: "'byMonth'", min: 1, max: 12, isZeroForbidden: false })(byMonth);
+    yield* checkIntegers({ name: "'byMonthDay'", min: -31, max: 31, isZeroForbidden: true })(
+      byMonthDay,
+    );
+    yield* checkIntegers({ name: 'weekdays', min: 1, max: 7, isZeroForbidden: false })(
+      Array.map(byDay, Struct.get('weekday')),
+    );
+    const maxOrdinal = frequency === 'YEARLY' && byMonth.length === 0 ? 53 : 5;
+    yield* checkIntegers({
+      name: 'weekday ordinals',
+      min: -maxOrdinal,
+      max: maxOrdinal,
+      isZeroForbidden: true,
+    })(Array.getSomes(Array.map(byDay, Struct.get('ordinal'))));
+    yield* checkIntegers({ name: "'bySetPos'", min: -366, max: 366, isZeroForbidden: true })(
+      bySetPos,
+    );
+    if (count !== undefined)
+      yield* checkIntegers({
+        name: "'count'",
+        min: 1,
+        max: Number.MAX_SAFE_INTEGER,
+        isZeroForbidden: false,
+      })([count]);
+
+    if (count !== undefined && until !== undefined)
+      return yield* Result.fail(
+        new MInputError.Type({ message: "'count' and 'until' may not be both present" }),
+      );
+    if (frequency === 'WEEKLY' && byMonthDay.length > 0)
+      return yield* Result.fail(
+        new MInputError.Type({
+          message: "'byMonthDay' may not be used with the WEEKLY frequency",
+        }),
+      );
+    if (
+      (frequency === 'DAILY' || frequency === 'WEEKLY') &&
+      Array.some(byDay, flow(Struct.get('ordinal'), Option.isSome))
+    )
+      return yield* Result.fail(
+        new MInputError.Type({
+          message: `Weekday ordinals may not be used with the ${frequency} frequency`,
+        }),
+      );
+    if (bySetPos.length > 0 && byMonth.length + byMonthDay.length + byDay.length === 0)
+      return yield* Result.fail(
+        new MInputError.Type({
+          message: "'bySetPos' must be used with 'byMonth', 'byMonthDay' or 'byDay'",
+        }),
+      );
+
+    return Type.make({
+      frequency,
+      interval,
+      byMonth,
+      byMonthDay,
+      byDay,
+      bySetPos,
+      count: Option.fromUndefinedOr(count),
+      until: Option.fromUndefinedOr(until),
+    });
+  });
+
+/**
+ * Same as `fromParts` but returns directly a `CVRecurrence` or throws if it cannot be built
+ *
+ * @category Constructors
+ */
+export const fromPartsOrThrow: MTypes.OneArgFunction<Parameters<typeof fromParts>[0], Type> = flow(
+  fromParts,
+  Result.getOrThrowWith(Function.identity),
+);
+
+const parseIntegerList = (
+  name: string,
+  value: string,
+): Result.Result<ReadonlyArray<number>, MInputError.Type> =>
+  pipe(
+    value.split(','),
+    Array.map(
+      flow(
+        MInputError.assertMatches({
+          regExp: INTEGER_REGEXP,
+          regExpDescriptor: 'a comma-separated list of integers',
+          name,
+        }),
+        Result.map((s) => +s),
+      ),
+    ),
+    Result.all,
+  );
+
+const parseWeekdayRule = (value: string): Result.Result<WeekdayRule, MInputError.Type> =>
+  pipe(
+    value,
+    matchWeekdayRule,
+    Option.map(({ groups: { ordinal, weekdayName } }) => ({
+      weekday: WEEKDAY_NAMES.indexOf(weekdayName) + 1,
+      ordinal: pipe(
+        ordinal,
+        Option.liftPredicate(String.isNonEmpty),
+        Option.map((s) => +s),
+      ),
+    })),
+    Result.fromOption(() =>
+      MInputError.notMatching({
+        regExpDescriptor: 'an optional ordinal followed by a two-letter weekday',
+        actual: value,
+        name: 'BYDAY',
+      }),
+    ),
+  );
+
+/**
+ * Tries to build a `CVRecurrence` from an RFC 5545 RRULE string, e.g. `FREQ=WEEKLY;BYDAY=MO,WE`,
+ * optionally prefixed with `RRULE:`. The UNTIL rule part must be a UTC date-time, e.g.
+ * `20251231T235959Z`, or a date, e.g. `20251231`, which is understood as the end of that day in
+ * UTC. The WKST rule part is only accepted with the `MO` value. Returns a `Success` if successful,
+ * a `Failure` otherwise.
+ *
+ * @category Constructors
+ */
+export const fromRRuleString = (rRuleString: string): Result.Result<Type, MInputError.Type> =>
+  Result.gen(function* () {
+    const ruleParts = pipe(
+      rRuleString.startsWith('RRULE:') ? rRuleString.slice(6) : rRuleString,
+      (body) => body.split(';'),
+    );
+
+    const rule = new Map<string, string>();
+    for (const rulePart of ruleParts) {
+      const [key, value] = yield* pipe(
+        rulePart,
+        matchRulePart,
+        Option.map(({ groups: { key, value } }) => [key, value] as const),
+        Result.fromOption(() =>
+          MInputError.notMatching({
+            regExpDescriptor: 'of the form KEY=VALUE',
+            actual: rulePart,
+            name: 'RRULE part',
+          }),
+        ),
+      );
+      if (rule.has(key))
+        return yield* Result.fail(
+          new MInputError.Type({ message: `RRULE part '${key}' is present more than once` }),
+        );
+      rule.set(key, value);
+    }
+
+    for (const key of rule.keys())
+      if (
+        !Array.contains(
+          [
+            'FREQ',
+            'INTERVAL',
+            'BYMONTH',
+            'BYMONTHDAY',
+            'BYDAY',
+            'BYSETPOS',
+            'COUNT',
+            'UNTIL',
+            'WKST',
+          ],
+          key,
+        )
+      )
+        return yield* Result.fail(
+          new MInputError.Type({ message: `RRULE part '${key}' is not supported` }),
+        );
+
+    const frequency = yield* pipe(
+      rule.get('FREQ'),
+      Option.fromUndefinedOr,
+      Option.filter((value): value is Frequency => Array.contains(FREQUENCIES, value)),
+      Result.fromOption(
+        () =>
+          new MInputError.Type({
+            message: `Expected RRULE part 'FREQ' to be one of ${Array.join(FREQUENCIES, ', ')}. Actual: '${rule.get('FREQ') ?? ''}'`,
+          }),
+      ),
+    );
+
+    const wkst = rule.get('WKST');
+    if (wkst !== undefined && wkst !== 'MO')
+      return yield* Result.fail(
+        new MInputError.Type({
+          message: `Only weeks starting on Monday are supported. Actual RRULE part 'WKST': '${wkst}'`,
+        }),
+      );
+
+    const integer = (key: string): Result.Result<number | undefined, MInputError.Type> =>
+      pipe(
+        rule.get(key),
+        Option.fromUndefinedOr,
+        Option.match({
+          onNone: () => Result.succeed(undefined),
+          onSome: flow(
+            MInputError.assertMatches({
+              regExp: UNSIGNED_INTEGER_REGEXP,
+              regExpDescriptor: 'an unsigned integer',
+              name: key,
+            }),
+            Result.map((s) => +s),
+          ),
+        }),
+      );
+
+    const integerList = (key: string): Result.Result<ReadonlyArray<number>, MInputError.Type> =>
+      pipe(
+        rule.get(key),
+        Option.fromUndefinedOr,
+        Option.match({
+          onNone: () => Result.succeed(Array.empty()),
+          onSome: (value) => parseIntegerList(key, value),
+        }),
+      );
+
+    return yield* fromParts({
+      frequency,
+      interval: yield* integer('INTERVAL'),
+      byMonth: yield* integerList('BYMONTH'),
+      byMonthDay: yield* integerList('BYMONTHDAY'),
+      byDay: yield* pipe(
+        rule.get('BYDAY'),
+        Option.fromUndefinedOr,
+        Option.match({
+          onNone: () => Result.succeed(Array.empty()),
+          onSome: (value) => pipe(value.split(','), Array.map(parseWeekdayRule), Result.all),
+        }),
+      ),
+      bySetPos: yield* integerList('BYSETPOS'),
+      count: yield* integer('COUNT'),
+      until: yield* pipe(
+        rule.get('UNTIL'),
+        Option.fromUndefinedOr,
+        Option.match({
+          onNone: () => Result.succeed(undefined),
+          onSome: parseUntil,
+        }),
+      ),
+    });
+  });
+
+/**
+ * Same as `fromRRuleString` but returns directly a `CVRecurrence` or throws in case of an error
+ *
+ * @category Constructors
+ */
+export const fromRRuleStringOrThrow: MTypes.OneArgFunction<string, Type> = flow(
+  fromRRuleString,
+  Result.getOrThrowWith(Function.identity),
+);
+
+const toList: MTypes.OneArgFunction<ReadonlyArray<number>, string> = flow(
+  Array.map((n) => n.toString()),
+  Array.join(','),
+);
+
+/**
+ * Returns the RFC 5545 RRULE string of `self`, without the `RRULE:` prefix. The INTERVAL rule part
+ * is omitted when equal to 1. The UNTIL rule part is written as a UTC date-time
+ *
+ * @category Destructors
+ */
+export const toRRuleString = (self: Type): string =>
+  pipe(
+    [
+      Option.some(`FREQ=${self.frequency}`),
+      Option.liftPredicate(`INTERVAL=${self.interval}`, () => self.interval !== 1),
+      Option.liftPredicate(`BYMONTH=${toList(self.byMonth)}`, () => self.byMonth.length > 0),
+      Option.liftPredicate(
+        `BYMONTHDAY=${toList(self.byMonthDay)}`,
+        () => self.byMonthDay.length > 0,
+      ),
+      Option.liftPredicate(
+        `BYDAY=${pipe(
+          self.byDay,
+          Array.map(
+            ({ weekday, ordinal }) =>
+              Option.match(ordinal, { onNone: () => '', onSome: (n) => n.toString() }) +
+              WEEKDAY_NAMES[weekday - 1],
+          ),
+          Array.join(','),
+        )}`,
+        () => self.byDay.length > 0,
+      ),
+      Option.liftPredicate(`BYSETPOS=${toList(self.bySetPos)}`, () => self.bySetPos.length > 0),
+      Option.map(self.count, (count) => `COUNT=${count}`),
+      Option.map(
+        self.until,
+        (until) =>
+          `UNTIL=${pipe(
+            until,
+            CVDateTime.setZoneOffsetKeepTimestampOrThrow(0),
+            untilFormatter.formatOrThrow,
+          )}`,
+      ),
+    ],
+    Array.getSomes,
+    Array.join(';'),
+  );
+
+/**
+ * Returns a copy of `local`, a `CVDateTime` with a null zone offset, having the same local parts
+ * but expressed in the time zone (or with the zone offset) of `reference`
+ */
+const withZoneOf =
+  (reference: CVDateTime.Type) =>
+  (local: CVDateTime.Type): Result.Result<CVDateTime.Type, MInputError.Type> =>
+    Option.match(reference.timeZone, {
+      onNone: () => CVDateTime.setZoneOffsetKeepParts(reference.zoneOffset)(local),
+      onSome: (timeZone) =>
+        CVDateTime.setZoneNameKeepParts(
+          CVTimeZone.name(timeZone),
+          CVTimeZone.disambiguation(timeZone),
+        )(local),
+    });
+
+/**
+ * Returns the days (as `CVDateTime`'s with a null zone offset) of the `index`-th frequency period
+ * of `self` starting from `localStart` that match all the BYxxx restrictions of `self`, or a `None`
+ * if that period is out of the range of `CVDateTime`
+ */
+const periodDays =
+  (self: Type, localStart: CVDateTime.Type) =>
+  (
+    index: number,
+  ): Option.Option<{
+    readonly firstDay: CVDateTime.Type;
+    readonly days: ReadonlyArray<CVDateTime.Type>;
+  }> => {
+    const periodOffset = index * self.interval;
+    const firstDayResult =
+      self.frequency === 'DAILY'
+        ? CVDateTime.offsetDays(periodOffset)(localStart)
+        : self.frequency === 'WEEKLY'
+          ? pipe(
+              localStart,
+              CVDateTime.setWeekday(1),
+              Result.flatMap(CVDateTime.offsetDays(7 * periodOffset)),
+            )
+          : self.frequency === 'MONTHLY'
+            ? pipe(
+                localStart,
+                CVDateTime.toFirstMonthDay,
+                Result.flatMap(CVDateTime.offsetMonths(periodOffset, false)),
+              )
+            : pipe(
+                localStart,
+                CVDateTime.toFirstYearDay,
+                Result.flatMap(CVDateTime.offsetYears(periodOffset, false)),
+              );
+
+    const isYearScope = self.frequency === 'YEARLY' && self.byMonth.length === 0;
+    const hasDayRestriction = self.byDay.length > 0 || self.byMonthDay.length > 0;
+
+    const matches = (day: CVDateTime.Type): boolean => {
+      const month = CVDateTime.getMonth(day);
+      const monthDay = CVDateTime.getMonthDay(day);
+      const weekday = CVDateTime.getWeekday(day);
+      // Only calculated when needed as they are costly
+      const daysInMonth = (): number => CVDateTime.getNumberOfDaysInMonth(day);
+      const [scopeDay, daysInScope] = isYearScope
+        ? [CVDateTime.getOrdinalDay(day), (): number => CVDateTime.getYearDurationInDays(day)]
+        : [monthDay, daysInMonth];
+
+      return (
+        (self.byMonth.length === 0 || Array.contains(self.byMonth, month)) &&
+        (self.byMonthDay.length === 0 ||
+          Array.some(self.byMonthDay, (n) =>
+            n > 0 ? n === monthDay : n === monthDay - daysInMonth() - 1,
+          )) &&
+        (self.byDay.length === 0 ||
+          Array.some(
+            self.byDay,
+            (rule) =>
+              rule.weekday === weekday &&
+              Option.match(rule.ordinal, {
+                onNone: Function.constTrue,
+                onSome: (n) =>
+                  n > 0
+                    ? n === Math.ceil(scopeDay / 7)
+                    : n === 0 - Math.ceil((daysInScope() - scopeDay + 1) / 7),
+              }),
+          )) &&
+        // Default restrictions based on the start date
+        (self.frequency === 'WEEKLY'
+          ? self.byDay.length > 0 || weekday === CVDateTime.getWeekday(localStart)
+          : self.frequency === 'MONTHLY'
+            ? hasDayRestriction || monthDay === CVDateTime.getMonthDay(localStart)
+            : self.frequency === 'YEARLY'
+              ? hasDayRestriction ||
+                (monthDay === CVDateTime.getMonthDay(localStart) &&
+                  (self.byMonth.length > 0 || month === CVDateTime.getMonth(localStart)))
+              : true)
+      );
+    };
+
+    return pipe(
+      firstDayResult,
+      Result.flatMap((firstDay) =>
+        pipe(
+          self.frequency === 'DAILY'
+            ? 1
+            : self.frequency === 'WEEKLY'
+              ? 7
+              : self.frequency === 'MONTHLY'
+                ? CVDateTime.getNumberOfDaysInMonth(firstDay)
+                : CVDateTime.getYearDurationInDays(firstDay),
+          Array.makeBy((dayIndex) => CVDateTime.offsetDays(dayIndex)(firstDay)),
+          Result.all,
+          Result.map((days) => ({ firstDay, days: Array.filter(days, matches) })),
+        ),
+      ),
+      Result.getSuccess,
+    );
+  };
+
+/**
+ * Keeps the elements of `days` whose positions are in `self.bySetPos`, or all of them if
+ * `self.bySetPos` is empty
+ */
+const applySetPos =
+  (self: Type) =>
+  (days: ReadonlyArray<CVDateTime.Type>): ReadonlyArray<CVDateTime.Type> =>
+    self.bySetPos.length === 0
+      ? days
+      : pipe(
+          self.bySetPos,
+          Array.map((position) =>
+            pipe(days, Array.get(position > 0 ? position - 1 : days.length + position)),
+          ),
+          Array.getSomes,
+          Array.dedupe,
+          Array.sort(Order.mapInput(Order.Number, CVDateTime.timestamp)),
+        );
+
+/**
+ * Returns the occurrences of `self` that are on or after `start`. The result is a lazy iterable
+ * that is infinite unless `self` has a count or an end date. Occurrences have the same local time
+ * as `start` and are expressed in its time zone (or with its zone offset). Local times that are
+ * ambiguous or skipped in the time zone of `start` are resolved according to its disambiguation
+ * option. The iteration stops if no occurrence is found during eight years.
+ *
+ * @category Utils
+ */
+export const occurrences =
+  (start: CVDateTime.Type) =>
+  (self: Type): Iterable<CVDateTime.Type> => {
+    const localStart = CVDateTime.fromTimestampOrThrow(start.zonedTimestamp, 0);
+    const startTimestamp = CVDateTime.timestamp(start);
+    const getPeriodDays = periodDays(self, localStart);
+    // Local timestamps may differ from real ones by up to 14 hours
+    const localUntilTimestamp = Option.map(
+      self.until,
+      flow(CVDateTime.timestamp, (timestamp) => timestamp + DAY_MS),
+    );
+
+    const periods = Iterable.unfold(
+      { index: 0, lastLocalTimestamp: localStart.zonedTimestamp },
+      ({ index, lastLocalTimestamp }) =>
+        pipe(
+          index,
+          getPeriodDays,
+          Option.filter(
+            ({ firstDay }) =>
+              firstDay.zonedTimestamp - lastLocalTimestamp <= MAX_GAP_MS &&
+              Option.match(localUntilTimestamp, {
+                onNone: Function.constTrue,
+                onSome: (timestamp) => firstDay.zonedTimestamp <= timestamp,
+              }),
+          ),
+          Option.map(({ firstDay, days }) => {
+            const selectedDays = applySetPos(self)(days);
+            return [
+              selectedDays,
+              {
+                index: index + 1,
+                lastLocalTimestamp: pipe(
+                  selectedDays,
+                  Array.last,
+                  Option.match({
+                    onNone: () => lastLocalTimestamp,
+                    onSome: () => firstDay.zonedTimestamp,
+                  }),
+                ),
+              },
+            ] as const;
+          }),
+        ),
+    );
+
+    const all = pipe(
+      periods,
+      Iterable.flatten,
+      Iterable.filterMap(withZoneOf(start)),
+      Iterable.filter((dateTime) => CVDateTime.timestamp(dateTime) >= startTimestamp),
+      (dateTimes) =>
+        Option.match(self.until, {
+          onNone: () => dateTimes,
+          onSome: (until) =>
+            Iterable.takeWhile(
+              dateTimes,
+              (dateTime) => CVDateTime.timestamp(dateTime) <= CVDateTime.timestamp(until),
+            ),
+        }),
+    );
+
+    return Option.match(self.count, {
+      onNone: () => all,
+      onSome: (count) => Iterable.take(all, count),
+    });
+  };
+
+/**
+ * Same as `occurrences` but returns a `Stream`
+ *
+ * @category Utils
+ */
+export const occurrenceStream = (
+  start: CVDateTime.Type,
+): MTypes.OneArgFunction<Type, Stream.Stream<CVDateTime.Type>> =>
+  flow(occurrences(start), Stream.fromIterable);
+
+/**
+ * Returns a `Some` of the first occurrence of `self` (see `occurrences`) that is strictly after
+ * `dateTime`, or a `None` if there is none
+ *
+ * @category Utils
+ */
+export const nextOccurrenceAfter =
+  (start: CVDateTime.Type, dateTime: CVDateTime.Type) =>
+  (self: Type): Option.Option<CVDateTime.Type> =>
+    pipe(
+      self,
+      occurrences(start),
+      Iterable.findFirst(
+        (occurrence) => CVDateTime.timestamp(occurrence) > CVDateTime.timestamp(dateTime),
+      ),
+    );
+
+/**
+ * Returns the occurrences of `self` (see `occurrences`) that are on or after `from` and on or
+ * before `to`
+ *
+ * @category Utils
+ */
+export const occurrencesBetween =
+  (start: CVDateTime.Type, from: CVDateTime.Type, to: CVDateTime.Type) =>
+  (self: Type): ReadonlyArray<CVDateTime.Type> =>
+    pipe(
+      self,
+      occurrences(start),
+      Iterable.takeWhile(
+        (occurrence) => CVDateTime.timestamp(occurrence) <= CVDateTime.timestamp(to),
+      ),
+      Iterable.filter(
+        (occurrence) => CVDateTime.timestamp(occurrence) >= CVDateTime.timestamp(from),
+      ),
+      Array.fromIterable,
+    );
+
+/**
+ * Returns the `frequency` property of `self`
+ *
+ * @category Getters
+ */
+export const frequency: MTypes.OneArgFunction<Type, Frequency> = Struct.get('frequency');
+
+/**
+ * Returns the `interval` property of `self`
+ *
+ * @category Getters
+ */
+export const interval: MTypes.OneArgFunction<Type, number> = Struct.get('interval');
+
+/**
+ * Returns the `byMonth` property of `self`
+ *
+ * @category Getters
+ */
+export const byMonth: MTypes.OneArgFunction<Type, ReadonlyArray<number>> = Struct.get('byMonth');
+
+/**
+ * Returns the `byMonthDay` property of `self`
+ *
+ * @category Getters
+ */
+export const byMonthDay: MTypes.OneArgFunction<Type, ReadonlyArray<number>> = Struct.get(
+  'byMonthDay',
+);
+
+/**
+ * Returns the `byDay` property of `self`
+ *
+ * @category Getters
+ */
+export const byDay: MTypes.OneArgFunction<Type, ReadonlyArray<WeekdayRule>> = Struct.get('byDay');
+
+/**
+ * Returns the `bySetPos` property of `self`
+ *
+ * @category Getters
+ */
+export const bySetPos: MTypes.OneArgFunction<Type, ReadonlyArray<number>> = Struct.get('bySetPos');
+
+/**
+ * Returns the `count` property of `self`
+ *
+ * @category Getters
+ */
+export const count: MTypes.OneArgFunction<Type, Option.Option<number>> = Struct.get('count');
+
+/**
+ * Returns the `until` property of `self`
+ *
+ * @category Getters
+ */
+export const until: MTypes.OneArgFunction<Type, Option.Option<CVDateTime.Type>> = Struct.get(
+  'until',
+);
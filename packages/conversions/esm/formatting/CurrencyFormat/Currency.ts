@@ -0,0 +1,183 @@
+/**
+ * This module implements a `CVCurrency`, i.e. the description of a currency used by a
+ * `CVCurrencyFormat`: its ISO 4217 code (e.g. 'EUR'), its symbol (e.g. '€') and its number of minor
+ * units (e.g. 2 for EUR, 0 for JPY, 3 for KWD)
+ */
+
+import { pipe } from 'effect';
+import * as Array from 'effect/Array';
+import * as Option from 'effect/Option';
+import * as Struct from 'effect/Struct';
+
+import * as MData from '@parischap/effect-lib/MData';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+/**
+ * Module tag
+ *
+ * @category Module markers
+ */
+export const moduleTag = '@parischap/conversions/formatting/CurrencyFormat/Currency/';
+const TypeId: unique symbol = Symbol.for(moduleTag) as TypeId;
+type TypeId = typeof TypeId;
+
+/**
+ * Type that represents a `CVCurrency`
+ *
+ * @category Models
+ */
+export class Type extends MData.Class {
+  /** ISO 4217 code of this currency, e.g. 'EUR'. Usually made of three upper-case letters */
+  readonly code: string;
+
+  /**
+   * Symbol of this currency, e.g. '€'. Several currencies may share the same symbol (e.g. '$' for
+   * USD, CAD and AUD). Use the code as symbol if there is no specific symbol
+   */
+  readonly symbol: string;
+
+  /**
+   * Number of digits of the fractional part of an amount in this currency (2 for EUR, 0 for JPY, 3
+   * for KWD...). Must be a positive integer
+   */
+  readonly minorUnits: number;
+
+  /** Class constructor */
+  private constructor({ code, symbol, minorUnits }: MTypes.Data<Type>) {
+    super();
+    this.code = code;
+    this.symbol = symbol;
+    this.minorUnits = minorUnits;
+  }
+
+  /** Static constructor */
+  static make(params: MTypes.Data<Type>): Type {
+    return new Type(params);
+  }
+
+  /** Returns the `id` of `this` */
+  [MData.idSymbol](): string | (() => string) {
+    return function idSymbol(this: Type) {
+      return this.code;
+    };
+  }
+
+  /** Returns the TypeMarker of the class */
+  protected get [TypeId](): TypeId {
+    return TypeId;
+  }
+}
+
+/**
+ * Constructor
+ *
+ * @category Constructors
+ */
+export const make = (params: MTypes.Data<Type>): Type => Type.make(params);
+
+const safeCurrencyFormat = Option.liftThrowable(
+  (code: string) =>
+    new Intl.NumberFormat('en', {
+      style: 'currency',
+      currency: code,
+      currencyDisplay: 'narrowSymbol',
+    }),
+);
+
+/**
+ * Tries to build a `CVCurrency` from the ISO 4217 code `code` (case-insensitive) by probing the
+ * `Intl.NumberFormat` API. The symbol is the narrow symbol used in English (e.g. '$' for USD, 'CHF'
+ * for CHF). Returns a `Some` if successful. Returns a `None` if `code` is not a well-formed
+ * currency code. Note that well-formed but non-existent codes (e.g. 'XYZ') are accepted by the
+ * `Intl.NumberFormat` API: they are given the code as symbol and 2 minor units.
+ *
+ * @category Constructors
+ */
+export const fromCode = (code: string): Option.Option<Type> =>
+  Option.gen(function* () {
+    const currencyFormat = yield* safeCurrencyFormat(code);
+    const resolvedOptions = currencyFormat.resolvedOptions();
+    const currency = yield* Option.fromNullishOr(resolvedOptions.currency);
+    const minorUnits = yield* Option.fromNullishOr(resolvedOptions.maximumFractionDigits);
+    const symbol = yield* pipe(
+      currencyFormat.formatToParts(0),
+      Array.findFirst((part) => part.type === 'currency'),
+      Option.map(Struct.get('value')),
+    );
+
+    return make({ code: currency, symbol, minorUnits });
+  });
+
+/**
+ * Same as `fromCode` but returns directly a `CVCurrency` or throws in case of an error
+ *
+ * @category Constructors
+ */
+export const fromCodeOrThrow = (code: string): Type =>
+  pipe(
+    fromCode(code),
+    Option.getOrThrowWith(() => new Error(`A CVCurrency could not be built for code '${code}'`)),
+  );
+
+/**
+ * Returns the `code` property of `self`
+ *
+ * @category Getters
+ */
+export const code: MTypes.OneArgFunction<Type, string> = Struct.get('code');
+
+/**
+ * Returns the `symbol` property of `self`
+ *
+ * @category Getters
+ */
+export const symbol: MTypes.OneArgFunction<Type, string> = Struct.get('symbol');
+
+/**
+ * Returns the `minorUnits` property of `self`
+ *
+ * @category Getters
+ */
+export const minorUnits: MTypes.OneArgFunction<Type, number> = Struct.get('minorUnits');
+
+/**
+ * Euro `CVCurrency` instance
+ *
+ * @category Instances
+ */
+export const eur: Type = make({ code: 'EUR', symbol: '€', minorUnits: 2 });
+
+/**
+ * United States dollar `CVCurrency` instance
+ *
+ * @category Instances
+ */
+export const usd: Type = make({ code: 'USD', symbol: '$', minorUnits: 2 });
+
+/**
+ * Pound sterling `CVCurrency` instance
+ *
+ * @category Instances
+ */
+export const gbp: Type = make({ code: 'GBP', symbol: '£', minorUnits: 2 });
+
+/**
+ * Swiss franc `CVCurrency` instance
+ *
+ * @category Instances
+ */
+export const chf: Type = make({ code: 'CHF', symbol: 'CHF', minorUnits: 2 });
+
+/**
+ * Japanese yen `CVCurrency` instance
+ *
+ * @category Instances
+ */
+export const jpy: Type = make({ code: 'JPY', symbol: '¥', minorUnits: 0 });
+
+/**
+ * Kuwaiti dinar `CVCurrency` instance
+ *
+ * @category Instances
+ */
+export const kwd: Type = make({ code: 'KWD', symbol: 'KWD', minorUnits: 3 });
@@ -0,0 +1,409 @@
+/**
+ * This module implements a `CVCurrencyFormat` which describes the possible options to format/parse
+ * an amount of money, e.g. '$1,234.50', '1 234,50 €', '(¥1,235)' or 'KWD 12.500'. A
+ * `CVCurrencyFormat` wraps a `CVNumberBase10Format` that is used to format/parse the number part of
+ * the amount. The number of fractional digits of that `CVNumberBase10Format` is overridden by the
+ * number of minor units of the currency of the amount (2 for EUR, 0 for JPY, 3 for KWD...)
+ */
+
+import { flow, pipe } from 'effect';
+import * as Array from 'effect/Array';
+import type * as BigDecimal from 'effect/BigDecimal';
+import * as Function from 'effect/Function';
+import * as Struct from 'effect/Struct';
+
+import * as MData from '@parischap/effect-lib/MData';
+import * as MMatch from '@parischap/effect-lib/MMatch';
+import * as MStruct from '@parischap/effect-lib/MStruct';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+import * as CVNumberBase10Format from '../NumberBase10Format/NumberBase10Format.js';
+import * as CVCurrency from './Currency.js';
+import * as CVCurrencyFormatCurrencyDisplayOption from './CurrencyFormatCurrencyDisplayOption/CurrencyFormatCurrencyDisplayOption.js';
+import * as CVCurrencyFormatCurrencyPositionOption from './CurrencyFormatCurrencyPositionOption/CurrencyFormatCurrencyPositionOption.js';
+
+/**
+ * Module tag
+ *
+ * @category Module markers
+ */
+export const moduleTag = '@parischap/conversions/formatting/CurrencyFormat/';
+const TypeId: unique symbol = Symbol.for(moduleTag) as TypeId;
+type TypeId = typeof TypeId;
+
+/**
+ * Type of the values formatted/parsed with a `CVCurrencyFormat`
+ *
+ * @category Models
+ */
+export interface Amount {
+  /** Value of the amount */
+  readonly amount: BigDecimal.BigDecimal;
+
+  /** ISO 4217 code of the currency of the amount, e.g. 'EUR' */
+  readonly currency: string;
+}
+
+/**
+ * Type that represents a `CVCurrencyFormat`
+ *
+ * @category Models
+ */
+export class Type extends MData.Class {
+  /**
+   * Format of the number part of the amount. Its `minimumFractionalDigits` and
+   * `maximumFractionalDigits` properties are not used: they are replaced by the number of minor
+   * units of the currency of the amount. Its scientific notation option should be `None`. Will not
+   * throw otherwise but unexpected results might occur
+   */
+  readonly numberBase10Format: CVNumberBase10Format.Type;
+
+  /**
+   * Currencies handled by this format.
+   *
+   * Formatting: conversion will fail if the currency of the amount is not present in the array.
+   *
+   * Parsing: conversion will fail if the currency written in the text is not present in the array.
+   * If several currencies share the same symbol, the first one in the array is returned
+   */
+  readonly currencies: ReadonlyArray<CVCurrency.Type>;
+
+  /** Currency display option. See CVCurrencyFormatCurrencyDisplayOption.ts */
+  readonly currencyDisplayOption: CVCurrencyFormatCurrencyDisplayOption.Type;
+
+  /** Currency position option. See CVCurrencyFormatCurrencyPositionOption.ts */
+  readonly currencyPositionOption: CVCurrencyFormatCurrencyPositionOption.Type;
+
+  /**
+   * String written between the currency and the number, e.g. '' in '$12.50' or ' ' in '12,50 €'.
+   *
+   * Parsing: conversion will fail if that exact string is not present between the currency and the
+   * number.
+   */
+  readonly currencySeparator: string;
+
+  /**
+   * Formatting: if `true`, amounts that `numberBase10Format` would write with a minus sign are
+   * written between parentheses without that sign, e.g. '($12.50)'.
+   *
+   * Parsing: if `true`, amounts written between parentheses are read as if they were preceded by a
+   * minus sign and amounts preceded by a minus sign are rejected.
+   */
+  readonly isAccountingStyle: boolean;
+
+  /** Class constructor */
+  private constructor({
+    numberBase10Format,
+    currencies,
+    currencyDisplayOption,
+    currencyPositionOption,
+    currencySeparator,
+    isAccountingStyle,
+  }: MTypes.Data<Type>) {
+    super();
+    this.numberBase10Format = numberBase10Format;
+    this.currencies = currencies;
+    this.currencyDisplayOption = currencyDisplayOption;
+    this.currencyPositionOption = currencyPositionOption;
+    this.currencySeparator = currencySeparator;
+    this.isAccountingStyle = isAccountingStyle;
+  }
+
+  /** Static constructor */
+  static make(params: MTypes.Data<Type>): Type {
+    return new Type(params);
+  }
+
+  /** Returns the `id` of `this` */
+  [MData.idSymbol](): string | (() => string) {
+    return moduleTag;
+  }
+
+  /** Returns the TypeMarker of the class */
+  protected get [TypeId](): TypeId {
+    return TypeId;
+  }
+}
+
+/**
+ * Constructor
+ *
+ * @category Constructors
+ */
+export const make = (params: MTypes.Data<Type>): Type => Type.make(params);
+
+/**
+ * Returns the `numberBase10Format` property of `self`
+ *
+ * @category Getters
+ */
+export const numberBase10Format: MTypes.OneArgFunction<Type, CVNumberBase10Format.Type> =
+  Struct.get('numberBase10Format');
+
+/**
+ * Returns the `currencies` property of `self`
+ *
+ * @category Getters
+ */
+export const currencies: MTypes.OneArgFunction<Type, ReadonlyArray<CVCurrency.Type>> = Struct.get(
+  'currencies',
+);
+
+/**
+ * Returns the `currencyDisplayOption` property of `self`
+ *
+ * @category Getters
+ */
+export const currencyDisplayOption: MTypes.OneArgFunction<
+  Type,
+  CVCurrencyFormatCurrencyDisplayOption.Type
+> = Struct.get('currencyDisplayOption');
+
+/**
+ * Returns the `currencyPositionOption` property of `self`
+ *
+ * @category Getters
+ */
+export const currencyPositionOption: MTypes.OneArgFunction<
+  Type,
+  CVCurrencyFormatCurrencyPositionOption.Type
+> = Struct.get('currencyPositionOption');
+
+/**
+ * Returns the `currencySeparator` property of `self`
+ *
+ * @category Getters
+ */
+export const currencySeparator: MTypes.OneArgFunction<Type, string> =
+  Struct.get('currencySeparator');
+
+/**
+ * Returns the `isAccountingStyle` property of `self`
+ *
+ * @category Getters
+ */
+export const isAccountingStyle: MTypes.OneArgFunction<Type, boolean> =
+  Struct.get('isAccountingStyle');
+
+/**
+ * Returns the string that represents `currency` in an amount formatted with `self`, i.e. the symbol
+ * or the code of `currency` depending on the `currencyDisplayOption` of `self`
+ *
+ * @category Destructors
+ */
+export const currencyMarker =
+  (currency: CVCurrency.Type) =>
+  (self: Type): string =>
+    self.currencyDisplayOption === CVCurrencyFormatCurrencyDisplayOption.Type.Symbol
+      ? currency.symbol
+      : currency.code;
+
+/**
+ * Returns a short description of `self`, e.g. 'potentially signed UK-style number amount in EUR,
+ * USD with currency symbol before'
+ *
+ * @category Destructors
+ */
+export const toDescription = (self: Type): string =>
+  `${CVNumberBase10Format.toDescription(self.numberBase10Format)} amount in ` +
+  pipe(self.currencies, Array.map(CVCurrency.code), Array.join(', ')) +
+  ' with currency ' +
+  (self.currencyDisplayOption === CVCurrencyFormatCurrencyDisplayOption.Type.Symbol
+    ? 'symbol '
+    : 'code ') +
+  pipe(
+    self.currencyPositionOption,
+    MMatch.make,
+    MMatch.whenIs(CVCurrencyFormatCurrencyPositionOption.Type.Before, Function.constant('before')),
+    MMatch.whenIs(CVCurrencyFormatCurrencyPositionOption.Type.After, Function.constant('after')),
+    MMatch.exhaustive,
+  ) +
+  (self.isAccountingStyle ? ' and negative amounts between parentheses' : '');
+
+/**
+ * Returns a copy of `self` with `numberBase10Format` set to `numberBase10Format`
+ *
+ * @category Modifiers
+ */
+export const withNumberBase10Format = (
+  numberBase10Format: CVNumberBase10Format.Type,
+): MTypes.OneArgFunction<Type> =>
+  flow(
+    MStruct.append({
+      numberBase10Format,
+    }),
+    make,
+  );
+
+/**
+ * Returns a copy of `self` with `currencies` set to `currencies`
+ *
+ * @category Modifiers
+ */
+export const withCurrencies = (
+  ...currencies: ReadonlyArray<CVCurrency.Type>
+): MTypes.OneArgFunction<Type> =>
+  flow(
+    MStruct.append({
+      currencies,
+    }),
+    make,
+  );
+
+/**
+ * Returns a copy of `self` with `currencyDisplayOption` set to `Symbol`
+ *
+ * @category Modifiers
+ */
+export const withCurrencySymbol: MTypes.OneArgFunction<Type> = flow(
+  MStruct.append({
+    currencyDisplayOption: CVCurrencyFormatCurrencyDisplayOption.Type.Symbol,
+  }),
+  make,
+);
+
+/**
+ * Returns a copy of `self` with `currencyDisplayOption` set to `Code`
+ *
+ * @category Modifiers
+ */
+export const withCurrencyCode: MTypes.OneArgFunction<Type> = flow(
+  MStruct.append({
+    currencyDisplayOption: CVCurrencyFormatCurrencyDisplayOption.Type.Code,
+  }),
+  make,
+);
+
+/**
+ * Returns a copy of `self` with `currencyPositionOption` set to `Before`
+ *
+ * @category Modifiers
+ */
+export const withCurrencyBefore: MTypes.OneArgFunction<Type> = flow(
+  MStruct.append({
+    currencyPositionOption: CVCurrencyFormatCurrencyPositionOption.Type.Before,
+  }),
+  make,
+);
+
+/**
+ * Returns a copy of `self` with `currencyPositionOption` set to `After`
+ *
+ * @category Modifiers
+ */
+export const withCurrencyAfter: MTypes.OneArgFunction<Type> = flow(
+  MStruct.append({
+    currencyPositionOption: CVCurrencyFormatCurrencyPositionOption.Type.After,
+  }),
+  make,
+);
+
+/**
+ * Returns a copy of `self` with `currencySeparator` set to `currencySeparator`
+ *
+ * @category Modifiers
+ */
+export const withCurrencySeparator = (currencySeparator: string): MTypes.OneArgFunction<Type> =>
+  flow(
+    MStruct.append({
+      currencySeparator,
+    }),
+    make,
+  );
+
+/**
+ * Returns a copy of `self` with `isAccountingStyle` set to `true`
+ *
+ * @category Modifiers
+ */
+export const withAccountingStyle: MTypes.OneArgFunction<Type> = flow(
+  MStruct.append({
+    isAccountingStyle: true,
+  }),
+  make,
+);
+
+/**
+ * Returns a copy of `self` with `isAccountingStyle` set to `false`
+ *
+ * @category Modifiers
+ */
+export const withoutAccountingStyle: MTypes.OneArgFunction<Type> = flow(
+  MStruct.append({
+    isAccountingStyle: false,
+  }),
+  make,
+);
+
+const defaultCurrencies: ReadonlyArray<CVCurrency.Type> = [
+  CVCurrency.eur,
+  CVCurrency.usd,
+  CVCurrency.gbp,
+  CVCurrency.chf,
+  CVCurrency.jpy,
+  CVCurrency.kwd,
+];
+
+/**
+ * `CVCurrencyFormat` instance that writes the currency symbol before a UK-style number, e.g.
+ * '£1,234.50' or '-$12.00'. Handles EUR, USD, GBP, CHF, JPY and KWD. Used in countries like the UK,
+ * the US, English-speaking Canada, Australia...
+ *
+ * @category Instances
+ */
+export const ukStyleAmount: Type = make({
+  numberBase10Format: CVNumberBase10Format.ukStyleNumber,
+  currencies: defaultCurrencies,
+  currencyDisplayOption: CVCurrencyFormatCurrencyDisplayOption.Type.Symbol,
+  currencyPositionOption: CVCurrencyFormatCurrencyPositionOption.Type.Before,
+  currencySeparator: '',
+  isAccountingStyle: false,
+});
+
+/**
+ * Same as `ukStyleAmount` but negative amounts are written between parentheses, e.g. '($12.00)'
+ *
+ * @category Instances
+ */
+export const ukStyleAccountingAmount: Type = pipe(ukStyleAmount, withAccountingStyle);
+
+/**
+ * `CVCurrencyFormat` instance that writes the currency symbol after a French-style number, e.g. '1
+ * 234,50 €'. Handles EUR, USD, GBP, CHF, JPY and KWD. Used in countries like France,
+ * French-speaking Canada, French-speaking Belgium...
+ *
+ * @category Instances
+ */
+export const frenchStyleAmount: Type = make({
+  numberBase10Format: CVNumberBase10Format.frenchStyleNumber,
+  currencies: defaultCurrencies,
+  currencyDisplayOption: CVCurrencyFormatCurrencyDisplayOption.Type.Symbol,
+  currencyPositionOption: CVCurrencyFormatCurrencyPositionOption.Type.After,
+  currencySeparator: ' ',
+  isAccountingStyle: false,
+});
+
+/**
+ * `CVCurrencyFormat` instance that writes the currency symbol followed by a space before a
+ * Dutch-style number, e.g. '€ 1.234,50'. Handles EUR, USD, GBP, CHF, JPY and KWD. Used in countries
+ * like the Netherlands, Dutch-speaking Belgium...
+ *
+ * @category Instances
+ */
+export const dutchStyleAmount: Type = pipe(
+  frenchStyleAmount,
+  withNumberBase10Format(CVNumberBase10Format.dutchStyleNumber),
+  withCurrencyBefore,
+);
+
+/**
+ * `CVCurrencyFormat` instance that writes the ISO 4217 code of the currency followed by a space
+ * before a UK-style number, e.g. 'USD 1,234.50'. Handles EUR, USD, GBP, CHF, JPY and KWD
+ *
+ * @category Instances
+ */
+export const isoCodeAmount: Type = pipe(
+  ukStyleAmount,
+  withCurrencyCode,
+  withCurrencySeparator(' '),
+);
@@ -0,0 +1,14 @@
+/** This module implements a type that represents the possible ways of displaying a currency */
+
+/**
+ * Type of a CVCurrencyFormatCurrencyDisplayOption
+ *
+ * @category Models
+ */
+export enum Type {
+  /** The currency is represented by its symbol, e.g. '€' */
+  Symbol = 0,
+
+  /** The currency is represented by its ISO 4217 code, e.g. 'EUR' */
+  Code = 1,
+}
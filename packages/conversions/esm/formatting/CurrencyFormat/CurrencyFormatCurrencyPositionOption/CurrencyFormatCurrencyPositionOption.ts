@@ -0,0 +1,14 @@
+/** This module implements a type that represents the possible positions of a currency */
+
+/**
+ * Type of a CVCurrencyFormatCurrencyPositionOption
+ *
+ * @category Models
+ */
+export enum Type {
+  /** The currency is written before the amount, e.g. '$12.50'. The sign, if any, comes first */
+  Before = 0,
+
+  /** The currency is written after the amount, e.g. '12,50 €' */
+  After = 1,
+}
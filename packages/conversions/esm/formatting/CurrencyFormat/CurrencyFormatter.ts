@@ -0,0 +1,152 @@
+/**
+ * This module implements a CVCurrencyFormatter, i.e. an object that can convert an amount into a
+ * string according to the CVCurrencyFormat that was used to construct it
+ */
+
+import { pipe } from 'effect';
+import * as Array from 'effect/Array';
+import * as Option from 'effect/Option';
+import * as String from 'effect/String';
+import * as Struct from 'effect/Struct';
+
+import * as MData from '@parischap/effect-lib/MData';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+import * as CVNumberBase10Format from '../NumberBase10Format/NumberBase10Format.js';
+import * as CVNumberBase10Formatter from '../NumberBase10Format/NumberBase10Formatter.js';
+import * as CVCurrencyFormat from './CurrencyFormat.js';
+import * as CVCurrencyFormatCurrencyPositionOption from './CurrencyFormatCurrencyPositionOption/CurrencyFormatCurrencyPositionOption.js';
+
+/**
+ * Module tag
+ *
+ * @category Module markers
+ */
+export const moduleTag = '@parischap/conversions/formatting/CurrencyFormat/CurrencyFormatter/';
+const TypeId: unique symbol = Symbol.for(moduleTag) as TypeId;
+type TypeId = typeof TypeId;
+
+/**
+ * Type that represents a CVCurrencyFormatter
+ *
+ * @category Models
+ */
+export class Type extends MData.Class {
+  /** Description of this formatter */
+  readonly description: string;
+
+  /**
+   * Function that formats an amount respecting the options represented by the CVCurrencyFormat from
+   * which `this` was constructed. If successful, that function returns a `some` of the formatted
+   * amount. Otherwise, it returns a `none` (it will return a `none` only if the currency of the
+   * amount is not handled by the CVCurrencyFormat). The amount is rounded to the number of minor
+   * units of its currency with the rounding option of the underlying CVNumberBase10Format
+   */
+  readonly format: MTypes.OneArgFunction<CVCurrencyFormat.Amount, Option.Option<string>>;
+
+  /** Same as `format` but throws instead of returning a `none` in case of failure */
+  readonly formatOrThrow: MTypes.OneArgFunction<CVCurrencyFormat.Amount, string>;
+
+  /** Returns the `id` of `this` */
+  [MData.idSymbol](): string | (() => string) {
+    return function idSymbol(this: Type) {
+      return this.description;
+    };
+  }
+
+  /** Class constructor */
+  constructor(currencyFormat: CVCurrencyFormat.Type) {
+    super();
+    this.description = `${CVCurrencyFormat.toDescription(currencyFormat)} formatter`;
+    const { numberBase10Format, currencySeparator, isAccountingStyle } = currencyFormat;
+    const { minusSign } = numberBase10Format;
+    const isCurrencyBefore =
+      currencyFormat.currencyPositionOption === CVCurrencyFormatCurrencyPositionOption.Type.Before;
+
+    const currencyFormatters = pipe(
+      currencyFormat.currencies,
+      Array.map((currency) => ({
+        code: currency.code,
+        marker: CVCurrencyFormat.currencyMarker(currency)(currencyFormat),
+        numberFormatter: pipe(
+          numberBase10Format,
+          CVNumberBase10Format.withNDecimals(currency.minorUnits),
+          CVNumberBase10Formatter.fromFormat,
+          CVNumberBase10Formatter.format,
+        ),
+      })),
+    );
+
+    this.format = ({ amount, currency }) =>
+      Option.gen(function* () {
+        const { marker, numberFormatter } = yield* Array.findFirst(
+          currencyFormatters,
+          ({ code }) => code === currency,
+        );
+
+        const formattedNumber = yield* numberFormatter(amount);
+
+        const signString = pipe(formattedNumber, String.startsWith(minusSign))
+          ? minusSign
+          : pipe(formattedNumber, String.startsWith('+'))
+            ? '+'
+            : '';
+
+        const unsignedNumber = formattedNumber.slice(signString.length);
+
+        const unsignedAmount = isCurrencyBefore
+          ? `${marker}${currencySeparator}${unsignedNumber}`
+          : `${unsignedNumber}${currencySeparator}${marker}`;
+
+        return isAccountingStyle && signString === minusSign
+          ? `(${unsignedAmount})`
+          : `${signString}${unsignedAmount}`;
+      });
+
+    this.formatOrThrow = (amount) =>
+      pipe(
+        amount,
+        this.format,
+        Option.getOrThrowWith(
+          () =>
+            new Error(
+              `Currency '${amount.currency}' is not handled by the ${CVCurrencyFormat.toDescription(currencyFormat)} format`,
+            ),
+        ),
+      );
+  }
+
+  /** Returns the TypeMarker of the class */
+  protected get [TypeId](): TypeId {
+    return TypeId;
+  }
+}
+
+/**
+ * Constructor of a CVCurrencyFormatter from a CVCurrencyFormat
+ *
+ * @category Constructors
+ */
+export const fromFormat = (format: CVCurrencyFormat.Type) => new Type(format);
+
+/**
+ * Returns the `description` property of `self`
+ *
+ * @category Getters
+ */
+export const description: MTypes.OneArgFunction<Type, string> = Struct.get('description');
+
+/**
+ * Returns the `format` property of `self`.
+ *
+ * @category Getters
+ */
+export const format: MTypes.OneArgFunction<Type, Type['format']> = Struct.get('format');
+
+/**
+ * Returns the `formatOrThrow` property of `self`.
+ *
+ * @category Getters
+ */
+export const formatOrThrow: MTypes.OneArgFunction<Type, Type['formatOrThrow']> =
+  Struct.get('formatOrThrow');
@@ -0,0 +1,258 @@
+/**
+ * This module implements a CVCurrencyParser, i.e. an object that can convert a string into an
+ * amount according to the CVCurrencyFormat that was used to construct it
+ */
+
+import { pipe } from 'effect';
+import * as Array from 'effect/Array';
+import type * as BigDecimal from 'effect/BigDecimal';
+import * as Option from 'effect/Option';
+import * as Predicate from 'effect/Predicate';
+import * as String from 'effect/String';
+import * as Struct from 'effect/Struct';
+import * as Tuple from 'effect/Tuple';
+
+import * as MData from '@parischap/effect-lib/MData';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+import * as CVNumberBase10Format from '../NumberBase10Format/NumberBase10Format.js';
+import * as CVNumberBase10Parser from '../NumberBase10Format/NumberBase10Parser.js';
+import * as CVCurrencyFormat from './CurrencyFormat.js';
+import * as CVCurrencyFormatCurrencyPositionOption from './CurrencyFormatCurrencyPositionOption/CurrencyFormatCurrencyPositionOption.js';
+
+/**
+ * Module tag
+ *
+ * @category Module markers
+ */
+export const moduleTag = '@parischap/conversions/formatting/CurrencyFormat/CurrencyParser/';
+const TypeId: unique symbol = Symbol.for(moduleTag) as TypeId;
+type TypeId = typeof TypeId;
+
+/**
+ * Type that represents a CVCurrencyParser
+ *
+ * @category Models
+ */
+export class Type extends MData.Class {
+  /** Description of this parser */
+  readonly description: string;
+
+  /**
+   * Function that tries to extract, from the start of a string `text`, an amount respecting the
+   * options represented by the CVCurrencyFormat from which `this` was constructed. If successful,
+   * returns a `some` containing the extracted `value` and `parsedText` (the part of `text` that
+   * could be analyzed as representing an amount). Otherwise, it returns a `none`. The number of
+   * fractional digits must be equal to the number of minor units of the currency
+   */
+  readonly extract: MTypes.OneArgFunction<
+    string,
+    Option.Option<MTypes.Pair<CVCurrencyFormat.Amount, string>>
+  >;
+
+  /** Same as `extract` but throws in case of failure */
+  readonly extractOrThrow: MTypes.OneArgFunction<
+    string,
+    MTypes.Pair<CVCurrencyFormat.Amount, string>
+  >;
+
+  /**
+   * Same as `extract` but the whole of the input text must represent an amount, not just its start.
+   * `parsedText` does not need to be returned since it is equal to the input text
+   */
+  readonly parse: MTypes.OneArgFunction<string, Option.Option<CVCurrencyFormat.Amount>>;
+
+  /** Same as `parse` but throws in case of failure */
+  readonly parseOrThrow: MTypes.OneArgFunction<string, CVCurrencyFormat.Amount>;
+
+  /** Returns the `id` of `this` */
+  [MData.idSymbol](): string | (() => string) {
+    return function idSymbol(this: Type) {
+      return this.description;
+    };
+  }
+
+  /** Class constructor */
+  constructor(currencyFormat: CVCurrencyFormat.Type) {
+    super();
+    this.description = `${CVCurrencyFormat.toDescription(currencyFormat)} parser`;
+    const { numberBase10Format, currencySeparator, isAccountingStyle } = currencyFormat;
+    const { minusSign } = numberBase10Format;
+    const isCurrencyBefore =
+      currencyFormat.currencyPositionOption === CVCurrencyFormatCurrencyPositionOption.Type.Before;
+
+    const currencyParsers = pipe(
+      currencyFormat.currencies,
+      Array.map((currency) => ({
+        code: currency.code,
+        marker: CVCurrencyFormat.currencyMarker(currency)(currencyFormat),
+        numberExtractor: pipe(
+          numberBase10Format,
+          CVNumberBase10Format.withNDecimals(currency.minorUnits),
+          CVNumberBase10Parser.fromFormat,
+          CVNumberBase10Parser.extractAsBigDecimal,
+        ),
+      })),
+    );
+
+    /*
+     * Tries to read an amount in one of the handled currencies from the start of `text`. Returns the
+     * amount and the length of the consumed text. When the amount is written between parentheses,
+     * `text` starts after the opening parenthesis and the number is read as if it was preceded by a
+     * minus sign
+     */
+    const bodyExtractor = (
+      text: string,
+      isBetweenParentheses: boolean,
+    ): Option.Option<{ amount: BigDecimal.BigDecimal; currency: string; length: number }> =>
+      pipe(
+        currencyParsers,
+        Array.findFirst(({ code, marker, numberExtractor }) =>
+          Option.gen(function* () {
+            if (isCurrencyBefore) {
+              const signString = isBetweenParentheses
+                ? ''
+                : pipe(text, String.startsWith(minusSign))
+                  ? minusSign
+                  : pipe(text, String.startsWith('+'))
+                    ? '+'
+                    : '';
+              const currencyString = `${marker}${currencySeparator}`;
+              const rest = yield* pipe(
+                text.slice(signString.length),
+                Option.liftPredicate(String.startsWith(currencyString)),
+              );
+              // The sign, if any, must precede the currency
+              const unsignedNumber = yield* pipe(
+                rest.slice(currencyString.length),
+                Option.liftPredicate(
+                  Predicate.not(
+                    (numberText) =>
+                      pipe(numberText, String.startsWith(minusSign)) ||
+                      pipe(numberText, String.startsWith('+')),
+                  ),
+                ),
+              );
+              const usedSign = isBetweenParentheses ? minusSign : signString;
+              const [amount, match] = yield* numberExtractor(usedSign + unsignedNumber);
+              return {
+                amount,
+                currency: code,
+                length: signString.length + currencyString.length + match.length - usedSign.length,
+              };
+            }
+            const usedSign = isBetweenParentheses ? minusSign : '';
+            const [amount, match] = yield* numberExtractor(usedSign + text);
+            const numberLength = match.length - usedSign.length;
+            const currencyString = `${currencySeparator}${marker}`;
+            yield* pipe(
+              text.slice(numberLength),
+              Option.liftPredicate(String.startsWith(currencyString)),
+            );
+            return { amount, currency: code, length: numberLength + currencyString.length };
+          }),
+        ),
+      );
+
+    this.extract = (text) =>
+      Option.gen(function* () {
+        const isBetweenParentheses = isAccountingStyle && pipe(text, String.startsWith('('));
+        // In accounting style, negative amounts must be written between parentheses
+        yield* pipe(
+          text,
+          Option.liftPredicate(
+            () => !isAccountingStyle || !pipe(text, String.startsWith(minusSign)),
+          ),
+        );
+        const openingLength = isBetweenParentheses ? 1 : 0;
+        const { amount, currency, length } = yield* bodyExtractor(
+          text.slice(openingLength),
+          isBetweenParentheses,
+        );
+        const closingLength = isBetweenParentheses
+          ? yield* pipe(
+              text.slice(openingLength + length),
+              Option.liftPredicate(String.startsWith(')')),
+              Option.as(1),
+            )
+          : 0;
+        return Tuple.make(
+          { amount, currency },
+          text.slice(0, openingLength + length + closingLength),
+        );
+      });
+
+    this.extractOrThrow = (text) =>
+      pipe(
+        text,
+        this.extract,
+        Option.getOrThrowWith(
+          () => new Error(`An amount could not be parsed from the start of '${text}'`),
+        ),
+      );
+
+    this.parse = (text) =>
+      pipe(
+        text,
+        this.extract,
+        Option.filter(([, match]) => match.length === text.length),
+        Option.map(Tuple.get(0)),
+      );
+
+    this.parseOrThrow = (text) =>
+      pipe(
+        text,
+        this.parse,
+        Option.getOrThrowWith(() => new Error(`An amount could not be parsed from '${text}'`)),
+      );
+  }
+
+  /** Returns the TypeMarker of the class */
+  protected get [TypeId](): TypeId {
+    return TypeId;
+  }
+}
+
+/**
+ * Constructor of a CVCurrencyParser from a CVCurrencyFormat
+ *
+ * @category Constructors
+ */
+export const fromFormat = (format: CVCurrencyFormat.Type) => new Type(format);
+
+/**
+ * Returns the `description` property of `self`
+ *
+ * @category Getters
+ */
+export const description: MTypes.OneArgFunction<Type, string> = Struct.get('description');
+
+/**
+ * Returns the `extract` property of `self`.
+ *
+ * @category Getters
+ */
+export const extract: MTypes.OneArgFunction<Type, Type['extract']> = Struct.get('extract');
+
+/**
+ * Returns the `extractOrThrow` property of `self`.
+ *
+ * @category Getters
+ */
+export const extractOrThrow: MTypes.OneArgFunction<Type, Type['extractOrThrow']> =
+  Struct.get('extractOrThrow');
+
+/**
+ * Returns the `parse` property of `self`.
+ *
+ * @category Getters
+ */
+export const parse: MTypes.OneArgFunction<Type, Type['parse']> = Struct.get('parse');
+
+/**
+ * Returns the `parseOrThrow` property of `self`.
+ *
+ * @category Getters
+ */
+export const parseOrThrow: MTypes.OneArgFunction<Type, Type['parseOrThrow']> =
+  Struct.get('parseOrThrow');
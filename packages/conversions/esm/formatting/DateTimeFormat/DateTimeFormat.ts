@@ -286,3 +286,153 @@ export const shortDate = make(
   CVDateTimeFormatPartSeparator.space,
   CVDateTimeFormatPartPlaceholder.make('yyyy'),
 );
+
+/**
+ * `CVDateTimeFormat` instance for the RFC 3339 date-time format without fractional seconds
+ * (yyyy-MM-ddTHH:mm:ssXXX, e.g. `2005-06-05T14:05:05Z` or `2005-06-05T14:05:05+02:00`).
+ *
+ * @category Instances
+ */
+export const rfc3339 = make(
+  CVDateTimeFormatPartPlaceholder.make('yyyy'),
+  CVDateTimeFormatPartSeparator.hyphen,
+  CVDateTimeFormatPartPlaceholder.make('MM'),
+  CVDateTimeFormatPartSeparator.hyphen,
+  CVDateTimeFormatPartPlaceholder.make('dd'),
+  CVDateTimeFormatPartSeparator.make('T'),
+  CVDateTimeFormatPartPlaceholder.make('HH'),
+  CVDateTimeFormatPartSeparator.colon,
+  CVDateTimeFormatPartPlaceholder.make('mm'),
+  CVDateTimeFormatPartSeparator.colon,
+  CVDateTimeFormatPartPlaceholder.make('ss'),
+  CVDateTimeFormatPartPlaceholder.make('XXX'),
+);
+
+/**
+ * `CVDateTimeFormat` instance for the RFC 3339 date-time format with fractional seconds
+ * (yyyy-MM-ddTHH:mm:ss.S+XXX, e.g. `2005-06-05T14:05:05.007Z` or `2005-06-05T14:05:05.5+02:00`).
+ * When parsing, the fraction of second may have any number of digits and is truncated to
+ * milliseconds. When formatting, it is written on 3 digits.
+ *
+ * @category Instances
+ */
+export const rfc3339Ms = make(
+  CVDateTimeFormatPartPlaceholder.make('yyyy'),
+  CVDateTimeFormatPartSeparator.hyphen,
+  CVDateTimeFormatPartPlaceholder.make('MM'),
+  CVDateTimeFormatPartSeparator.hyphen,
+  CVDateTimeFormatPartPlaceholder.make('dd'),
+  CVDateTimeFormatPartSeparator.make('T'),
+  CVDateTimeFormatPartPlaceholder.make('HH'),
+  CVDateTimeFormatPartSeparator.colon,
+  CVDateTimeFormatPartPlaceholder.make('mm'),
+  CVDateTimeFormatPartSeparator.colon,
+  CVDateTimeFormatPartPlaceholder.make('ss'),
+  CVDateTimeFormatPartSeparator.dot,
+  CVDateTimeFormatPartPlaceholder.make('S+'),
+  CVDateTimeFormatPartPlaceholder.make('XXX'),
+);
+
+/**
+ * `CVDateTimeFormat` instance for the RFC 2822 date-time format used in emails (iii, d MMM yyyy
+ * HH:mm:ss zHzHzmzm, e.g. `Tue, 1 Jul 2003 10:52:37 +0200`). Day and month names are in English, so
+ * it should be used with the `CVDateTimeFormatContext.enGB` context. RFC 2822 makes the weekday
+ * optional and allows a zero-padded day: use `CVDateTimeLenientParser.rfc2822` to parse such
+ * dates.
+ *
+ * @category Instances
+ */
+export const rfc2822 = make(
+  CVDateTimeFormatPartPlaceholder.make('iii'),
+  CVDateTimeFormatPartSeparator.comma,
+  CVDateTimeFormatPartSeparator.space,
+  CVDateTimeFormatPartPlaceholder.make('d'),
+  CVDateTimeFormatPartSeparator.space,
+  CVDateTimeFormatPartPlaceholder.make('MMM'),
+  CVDateTimeFormatPartSeparator.space,
+  CVDateTimeFormatPartPlaceholder.make('yyyy'),
+  CVDateTimeFormatPartSeparator.space,
+  CVDateTimeFormatPartPlaceholder.make('HH'),
+  CVDateTimeFormatPartSeparator.colon,
+  CVDateTimeFormatPartPlaceholder.make('mm'),
+  CVDateTimeFormatPartSeparator.colon,
+  CVDateTimeFormatPartPlaceholder.make('ss'),
+  CVDateTimeFormatPartSeparator.space,
+  CVDateTimeFormatPartPlaceholder.make('zHzH'),
+  CVDateTimeFormatPartPlaceholder.make('zmzm'),
+);
+
+/**
+ * `CVDateTimeFormat` instance for the RFC 2822 date-time format without the optional weekday (d MMM
+ * yyyy HH:mm:ss zHzHzmzm, e.g. `1 Jul 2003 10:52:37 +0200`). Month names are in English, so it
+ * should be used with the `CVDateTimeFormatContext.enGB` context.
+ *
+ * @category Instances
+ */
+export const rfc2822WithoutWeekday = make(
+  CVDateTimeFormatPartPlaceholder.make('d'),
+  CVDateTimeFormatPartSeparator.space,
+  CVDateTimeFormatPartPlaceholder.make('MMM'),
+  CVDateTimeFormatPartSeparator.space,
+  CVDateTimeFormatPartPlaceholder.make('yyyy'),
+  CVDateTimeFormatPartSeparator.space,
+  CVDateTimeFormatPartPlaceholder.make('HH'),
+  CVDateTimeFormatPartSeparator.colon,
+  CVDateTimeFormatPartPlaceholder.make('mm'),
+  CVDateTimeFormatPartSeparator.colon,
+  CVDateTimeFormatPartPlaceholder.make('ss'),
+  CVDateTimeFormatPartSeparator.space,
+  CVDateTimeFormatPartPlaceholder.make('zHzH'),
+  CVDateTimeFormatPartPlaceholder.make('zmzm'),
+);
+
+/**
+ * `CVDateTimeFormat` instance for the IMF-fixdate format used in HTTP headers (iii, dd MMM yyyy
+ * HH:mm:ss GMT, e.g. `Sun, 06 Nov 1994 08:49:37 GMT`). Only UTC dates can be formatted. Day and
+ * month names are in English, so it should be used with the `CVDateTimeFormatContext.enGB`
+ * context.
+ *
+ * @category Instances
+ */
+export const imfFixdate = make(
+  CVDateTimeFormatPartPlaceholder.make('iii'),
+  CVDateTimeFormatPartSeparator.comma,
+  CVDateTimeFormatPartSeparator.space,
+  CVDateTimeFormatPartPlaceholder.make('dd'),
+  CVDateTimeFormatPartSeparator.space,
+  CVDateTimeFormatPartPlaceholder.make('MMM'),
+  CVDateTimeFormatPartSeparator.space,
+  CVDateTimeFormatPartPlaceholder.make('yyyy'),
+  CVDateTimeFormatPartSeparator.space,
+  CVDateTimeFormatPartPlaceholder.make('HH'),
+  CVDateTimeFormatPartSeparator.colon,
+  CVDateTimeFormatPartPlaceholder.make('mm'),
+  CVDateTimeFormatPartSeparator.colon,
+  CVDateTimeFormatPartPlaceholder.make('ss'),
+  CVDateTimeFormatPartSeparator.space,
+  CVDateTimeFormatPartPlaceholder.make('GMT'),
+);
+
+/**
+ * `CVDateTimeFormat` instance for the date format of the Common Log Format used by web servers
+ * (dd/MMM/yyyy:HH:mm:ss zHzHzmzm, e.g. `10/Oct/2000:13:55:36 -0700`). Month names are in English,
+ * so it should be used with the `CVDateTimeFormatContext.enGB` context.
+ *
+ * @category Instances
+ */
+export const commonLogFormat = make(
+  CVDateTimeFormatPartPlaceholder.make('dd'),
+  CVDateTimeFormatPartSeparator.slash,
+  CVDateTimeFormatPartPlaceholder.make('MMM'),
+  CVDateTimeFormatPartSeparator.slash,
+  CVDateTimeFormatPartPlaceholder.make('yyyy'),
+  CVDateTimeFormatPartSeparator.colon,
+  CVDateTimeFormatPartPlaceholder.make('HH'),
+  CVDateTimeFormatPartSeparator.colon,
+  CVDateTimeFormatPartPlaceholder.make('mm'),
+  CVDateTimeFormatPartSeparator.colon,
+  CVDateTimeFormatPartPlaceholder.make('ss'),
+  CVDateTimeFormatPartSeparator.space,
+  CVDateTimeFormatPartPlaceholder.make('zHzH'),
+  CVDateTimeFormatPartPlaceholder.make('zmzm'),
+);
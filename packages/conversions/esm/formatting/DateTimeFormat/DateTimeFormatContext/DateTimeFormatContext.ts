@@ -3,15 +3,24 @@
  * `CVDateTimeFormatPlaceHolder` and a `CVTemplatePlaceholder`. For each `CVDateTimeFormatToken`, it
  * contains a `CVDateTimeFormatPlaceHolder` which can format/parse that token. As some tokens are
  * language-dependent, e.g. weekday names, this module provides a constructor from locales, or from
- * translated strings
+ * translated strings. Month and era names can be retrieved in a calendar other than the Gregorian
+ * calendar.
+ *
+ * When built from a locale, the meridiem names used by the `a` token are the abbreviated AM/PM
+ * markers reported by `Intl.DateTimeFormat` for that locale. For a number of locales (e.g. German
+ * or French), the CLDR data has no localized abbreviated markers, so the English 'AM' and 'PM' are
+ * used. Use the `B` token to get the localized flexible day periods (e.g. 'nachm.' in German)
  */
 
 import { flow, pipe } from 'effect';
 import * as Array from 'effect/Array';
+import * as Function from 'effect/Function';
 import * as HashMap from 'effect/HashMap';
 import * as Number from 'effect/Number';
 import * as Option from 'effect/Option';
+import * as RegExp from 'effect/RegExp';
 import * as Result from 'effect/Result';
+import * as Schema from 'effect/Schema';
 import * as Struct from 'effect/Struct';
 import * as Tuple from 'effect/Tuple';
 
@@ -19,18 +28,25 @@ import * as MArray from '@parischap/effect-lib/MArray';
 import * as MData from '@parischap/effect-lib/MData';
 import * as MInputError from '@parischap/effect-lib/MInputError';
 import * as MPredicate from '@parischap/effect-lib/MPredicate';
+import * as MRegExp from '@parischap/effect-lib/MRegExp';
+import * as MRegExpString from '@parischap/effect-lib/MRegExpString';
 import * as MString from '@parischap/effect-lib/MString';
 import type * as MTypes from '@parischap/effect-lib/MTypes';
 
+import type * as CVCalendar from '../../../DateTime/Calendar.js';
 import type * as CVDateTimeFormatTokenMap from '../../../internal/formatting/DateTimeFormat/DateTimeFormatContext/DateTimeFormatTokenMap.js';
 import type * as CVDateTimePartName from '../../../internal/formatting/DateTimeFormat/DateTimePartName.js';
 import type * as CVDateTimeFormatToken from '../DateTimeFormatToken.js';
 import type * as CVDayPeriodNames from './DayPeriodNames.js';
+import type * as CVEraNames from './EraNames.js';
+import type * as CVFlexibleDayPeriodNames from './FlexibleDayPeriodNames.js';
 import type * as CVMonthNames from './MonthNames.js';
 import type * as CVWeekDayNames from './WeekDayNames.js';
 
-import { DAY_MS } from '../../../DateTime/date-time-constants.js';
+import { DAY_MS, HOUR_MS, MINUTE_MS } from '../../../DateTime/date-time-constants.js';
 import * as CVNumberBase10Format from '../../NumberBase10Format/NumberBase10Format.js';
+import * as CVNumberBase10FormatSignDisplayOption from '../../NumberBase10Format/NumberBase10FormatSignDisplayOption/NumberBase10FormatSignDisplayOption.js';
+import * as CVOrdinalSuffixes from '../../OrdinalSuffixes.js';
 import * as CVTemplatePlaceholder from '../../template/TemplatePart/TemplatePlaceholder/TemplatePlaceholder.js';
 
 /**
@@ -64,6 +80,231 @@ const MONTH_DATES = pipe(
   Array.map((timestamp) => new Date(timestamp)),
 );
 
+/**
+ * Each element of this array will be sent to Intl.DateTimeFormat to retrieve the corresponding day
+ * period name ('AM', 'PM') in a given locale
+ */
+const MERIDIEM_DATES = pipe(
+  [1, 13],
+  Array.map((hour) => new Date(hour * HOUR_MS)),
+);
+
+/**
+ * Each element of this array will be sent to Intl.DateTimeFormat to retrieve the flexible day
+ * period name that applies to the corresponding hour of the day in a given locale. We use the
+ * middle of each hour so as to get the name of the period rather than the name of a specific
+ * instant (e.g. midnight)
+ */
+const HOUR_DATES = pipe(
+  24,
+  Array.makeBy((hour) => new Date(hour * HOUR_MS + 30 * MINUTE_MS)),
+);
+
+/**
+ * Each element of this array will be sent to Intl.DateTimeFormat to retrieve the corresponding era
+ * name in a given locale. The first one is a date before year 1, the second one a date after year
+ * 1
+ */
+const ERA_DATES = pipe(
+  [-800_000, 0],
+  Array.map((day) => new Date(day * DAY_MS)),
+);
+
+/**
+ * Same as `CVTemplatePlaceholder.number` but the parser does not require zero padding: it reads at
+ * least one digit and at most as many digits as the padded length of `numberBase10Format`. A sign
+ * is optional unless `numberBase10Format` never displays signs, in which case it is forbidden. The
+ * formatter is unchanged
+ */
+const tolerantNumber = <const N extends string>({
+  name,
+  numberBase10Format,
+}: {
+  readonly name: N;
+  readonly numberBase10Format: CVNumberBase10Format.Type;
+}): CVTemplatePlaceholder.Type<N, number> => {
+  const strictNumber = CVTemplatePlaceholder.number({ name, numberBase10Format });
+  return pipe(
+    CVTemplatePlaceholder.fulfilling({
+      name,
+      regExp: pipe(
+        MRegExpString.digit,
+        pipe(
+          numberBase10Format.integerPartPadding,
+          Option.match({
+            onNone: () => MRegExpString.oneOrMore,
+            onSome: ({ length }) => MRegExpString.repeatBetween(1, length),
+          }),
+        ),
+        MString.prepend(
+          numberBase10Format.signDisplayOption === CVNumberBase10FormatSignDisplayOption.Type.Never
+            ? ''
+            : MRegExpString.optional(MRegExpString.sign),
+        ),
+        MRegExpString.atStart,
+        MRegExp.fromRegExpString(),
+      ),
+      regExpDescriptor: `${CVNumberBase10Format.toDescription(numberBase10Format)} with optional zero padding`,
+    }),
+    CVTemplatePlaceholder.modify({
+      descriptorMapper: Function.identity,
+      postParser: (value: string) => Result.succeed(+value),
+      preFormatter: function (this: CVTemplatePlaceholder.Type<N, number>, value: number) {
+        return strictNumber.formatter.call(this, value);
+      },
+      t1SchemaInstance: Schema.Number,
+    }),
+  );
+};
+
+/**
+ * Returns a copy of `self` whose parser also consumes the ordinal suffix that `ordinalSuffixes`
+ * expects after the parsed value, if present. The suffix is matched regardless of case. The
+ * formatter is unchanged
+ */
+const withOptionalOrdinalSuffix =
+  (ordinalSuffixes: CVOrdinalSuffixes.Type) =>
+  <const N extends string>(
+    self: CVTemplatePlaceholder.Type<N, number>,
+  ): CVTemplatePlaceholder.Type<N, number> =>
+    CVTemplatePlaceholder.make({
+      name: self.name,
+      description: `${self.description} and optional ${ordinalSuffixes.name} ordinal suffix`,
+      parser: function (this: CVTemplatePlaceholder.Type<N, number>, text) {
+        return Result.map(self.parser.call(this, text), ([value, leftOver]) => {
+          const suffix = ordinalSuffixes.suffix(value);
+          return Tuple.make(
+            value,
+            leftOver.slice(0, suffix.length).toLowerCase() === suffix.toLowerCase()
+              ? leftOver.slice(suffix.length)
+              : leftOver,
+          );
+        });
+      },
+      formatter: self.formatter,
+      tSchemaInstance: self.tSchemaInstance,
+    });
+
+/**
+ * `CVTemplatePlaceholder` of a fraction of second written on one or more digits. The parser reads
+ * at least one digit and truncates the fraction to milliseconds. The formatter writes the
+ * milliseconds on 3 digits
+ */
+const threeDigitMillisecond = CVTemplatePlaceholder.number({
+  name: 'millisecond',
+  numberBase10Format: CVNumberBase10Format.threeDigitUnsignedInteger,
+});
+const secondFraction: CVTemplatePlaceholder.Type<'millisecond', number> = pipe(
+  CVTemplatePlaceholder.fulfilling({
+    name: 'millisecond',
+    regExp: pipe(
+      MRegExpString.digit,
+      MRegExpString.oneOrMore,
+      MRegExpString.atStart,
+      MRegExp.fromRegExpString(),
+    ),
+    regExpDescriptor: 'a fraction of second on one or more digits',
+  }),
+  CVTemplatePlaceholder.modify({
+    descriptorMapper: Function.identity,
+    postParser: (fraction: string) => Result.succeed(+fraction.slice(0, 3).padEnd(3, '0')),
+    preFormatter: function (
+      this: CVTemplatePlaceholder.Type<'millisecond', number>,
+      millisecond: number,
+    ) {
+      return threeDigitMillisecond.formatter.call(this, millisecond);
+    },
+    t1SchemaInstance: Schema.Number,
+  }),
+);
+
+/** Regular expression string matching exactly two digits */
+const TWO_DIGITS = pipe(MRegExpString.digit, MRegExpString.repeatBetween(2, 2));
+
+/**
+ * Builds the `CVTemplatePlaceholder` of an ISO 8601 zone designator: 'Z' for a null zone offset,
+ * signed hours and minutes otherwise. In the extended format, hours and minutes are separated by a
+ * colon and minutes are always present. In the basic format, there is no separator and minutes are
+ * omitted when they are null. Zone offsets with a non-null second part cannot be formatted
+ */
+const zoneDesignator = (isExtended: boolean): CVTemplatePlaceholder.Type<'zoneOffset', number> =>
+  pipe(
+    CVTemplatePlaceholder.fulfilling({
+      name: 'zoneOffset',
+      regExp: pipe(
+        TWO_DIGITS,
+        isExtended ? MString.prepend(':') : MRegExpString.optional,
+        MString.prepend(MRegExpString.sign + TWO_DIGITS),
+        (offset) => MRegExpString.either('Z', offset),
+        MRegExpString.atStart,
+        MRegExp.fromRegExpString(),
+      ),
+      regExpDescriptor: isExtended
+        ? "'Z' or a signed zone offset in hours and minutes (ex: -05:30)"
+        : "'Z' or a signed zone offset in hours and optional minutes (ex: +05, -0530)",
+    }),
+    CVTemplatePlaceholder.modify({
+      descriptorMapper: Function.identity,
+      postParser: (designator: string) => {
+        if (designator === 'Z') return Result.succeed(0);
+        const hours =
+          +designator.slice(1, 3) + (designator.length > 3 ? +designator.slice(-2) / 60 : 0);
+        return Result.succeed(designator.startsWith('-') ? -hours : hours);
+      },
+      preFormatter: function (
+        this: CVTemplatePlaceholder.Type<'zoneOffset', number>,
+        zoneOffset: number,
+      ) {
+        if (zoneOffset === 0) return Result.succeed('Z');
+        const seconds = Math.round(Math.abs(zoneOffset) * 3600);
+        if (seconds % 60 !== 0)
+          return Result.fail(
+            new MInputError.Type({
+              message: `${this.label}: zone offset ${zoneOffset} cannot be written with hours and minutes only`,
+            }),
+          );
+        const hours = MString.fromNumber(10)(Math.trunc(seconds / 3600)).padStart(2, '0');
+        const minutes = MString.fromNumber(10)((seconds % 3600) / 60).padStart(2, '0');
+        return Result.succeed(
+          (zoneOffset < 0 ? '-' : '+') +
+            hours +
+            (isExtended ? `:${minutes}` : minutes === '00' ? '' : minutes),
+        );
+      },
+      t1SchemaInstance: Schema.Number,
+    }),
+  );
+
+/**
+ * Builds the `CVTemplatePlaceholder` of a literal UTC designator such as 'Z' or 'GMT'. The parser
+ * reads `designator` and returns a null zone offset. The formatter only accepts a null zone offset
+ */
+const utcDesignator = (designator: string): CVTemplatePlaceholder.Type<'zoneOffset', number> =>
+  pipe(
+    CVTemplatePlaceholder.fulfilling({
+      name: 'zoneOffset',
+      regExp: pipe(designator, RegExp.escape, MRegExpString.atStart, MRegExp.fromRegExpString()),
+      regExpDescriptor: `'${designator}'`,
+    }),
+    CVTemplatePlaceholder.modify({
+      descriptorMapper: Function.identity,
+      postParser: () => Result.succeed(0),
+      preFormatter: function (
+        this: CVTemplatePlaceholder.Type<'zoneOffset', number>,
+        zoneOffset: number,
+      ) {
+        return zoneOffset === 0
+          ? Result.succeed(designator)
+          : Result.fail(
+              new MInputError.Type({
+                message: `${this.label}: expected a null zone offset to write '${designator}'. Actual: ${zoneOffset}`,
+              }),
+            );
+      },
+      t1SchemaInstance: Schema.Number,
+    }),
+  );
+
 /**
  * Type that represents a CVDateTimeFormatContext
  *
@@ -76,6 +317,13 @@ export class Type extends MData.Class {
   /** TokenMap of this `CVDateTimeFormatContext` */
   readonly tokenMap: CVDateTimeFormatTokenMap.Type;
 
+  /**
+   * TokenMap used by tolerant parsers: names are matched regardless of case, zero padding is
+   * optional (except for 4-digit years) and days of month may be followed by their ordinal suffix.
+   * Formatting is the same as with `tokenMap`
+   */
+  readonly tolerantTokenMap: CVDateTimeFormatTokenMap.Type;
+
   /** Returns the `id` of `this` */
   [MData.idSymbol](): string | (() => string) {
     return function idSymbol(this: Type) {
@@ -84,10 +332,11 @@ export class Type extends MData.Class {
   }
 
   /** Class constructor */
-  private constructor({ name, tokenMap }: MTypes.Data<Type>) {
+  private constructor({ name, tokenMap, tolerantTokenMap }: MTypes.Data<Type>) {
     super();
     this.name = name;
     this.tokenMap = tokenMap;
+    this.tolerantTokenMap = tolerantTokenMap;
   }
 
   /** Static constructor */
@@ -110,9 +359,15 @@ export const fromNames = ({
   name,
   shortWeekdayNames,
   longWeekdayNames,
+  narrowWeekdayNames,
   shortMonthNames,
   longMonthNames,
+  narrowMonthNames,
   dayPeriodNames,
+  flexibleDayPeriodNames,
+  shortEraNames,
+  longEraNames,
+  monthDayOrdinalSuffixes = CVOrdinalSuffixes.english,
 }: {
   /* Name of this Context*/
   readonly name: string;
@@ -123,359 +378,469 @@ export const fromNames = ({
   /** Array of the long weekday names */
   readonly longWeekdayNames: CVWeekDayNames.Type;
 
+  /** Array of the narrow weekday names. They need not be unique */
+  readonly narrowWeekdayNames: CVWeekDayNames.Type;
+
   /** Array of the short month names */
   readonly shortMonthNames: CVMonthNames.Type;
 
   /** Array of the long month names */
   readonly longMonthNames: CVMonthNames.Type;
 
+  /** Array of the narrow month names. They need not be unique */
+  readonly narrowMonthNames: CVMonthNames.Type;
+
   /** Array of the day period names ('AM', 'PM') */
   readonly dayPeriodNames: CVDayPeriodNames.Type;
+
+  /** Array of the flexible day period names that apply to each hour of the day, from 0 to 23 */
+  readonly flexibleDayPeriodNames: CVFlexibleDayPeriodNames.Type;
+
+  /** Array of the short era names ('BC', 'AD'), in the order of the calendar eras */
+  readonly shortEraNames: CVEraNames.Type;
+
+  /** Array of the long era names ('Before Christ', 'Anno Domini'), in the order of the calendar eras */
+  readonly longEraNames: CVEraNames.Type;
+
+  /**
+   * Ordinal suffixes used by the ordinal day of month token ('do'). Default is
+   * `CVOrdinalSuffixes.english`
+   */
+  readonly monthDayOrdinalSuffixes?: CVOrdinalSuffixes.Type;
 }): Type => {
-  const tokenMapEntries: ReadonlyArray<
-    readonly [
-      CVDateTimeFormatToken.Type,
-      CVTemplatePlaceholder.Type<CVDateTimePartName.Type, number>,
-    ]
-  > = [
-    [
-      'y',
-      CVTemplatePlaceholder.number({
-        name: 'year',
-        numberBase10Format: CVNumberBase10Format.unsignedInteger,
-      }),
-    ],
-    [
-      'yy',
-      pipe(
+  const makeTokenMap = (isTolerant: boolean): CVDateTimeFormatTokenMap.Type => {
+    const numberPlaceholder = isTolerant ? tolerantNumber : CVTemplatePlaceholder.number;
+    const monthDayPlaceholder = isTolerant
+      ? withOptionalOrdinalSuffix(monthDayOrdinalSuffixes)
+      : Function.identity;
+    const isCaseSensitive = !isTolerant;
+
+    const tokenMapEntries: ReadonlyArray<
+      readonly [
+        CVDateTimeFormatToken.Type,
+        CVTemplatePlaceholder.Type<CVDateTimePartName.Type, number>,
+      ]
+    > = [
+      [
+        'G',
+        CVTemplatePlaceholder.numberMappedLiterals({
+          name: 'era',
+          isCaseSensitive,
+          keyValuePairs: pipe(
+            shortEraNames,
+            Array.map((name, i) => Tuple.make(name, i)),
+          ),
+        }),
+      ],
+      [
+        'GGGG',
+        CVTemplatePlaceholder.numberMappedLiterals({
+          name: 'era',
+          isCaseSensitive,
+          keyValuePairs: pipe(
+            longEraNames,
+            Array.map((name, i) => Tuple.make(name, i)),
+          ),
+        }),
+      ],
+      [
+        'y',
+        numberPlaceholder({
+          name: 'year',
+          numberBase10Format: CVNumberBase10Format.unsignedInteger,
+        }),
+      ],
+      [
+        'yy',
+        pipe(
+          numberPlaceholder({
+            name: 'year',
+            numberBase10Format: CVNumberBase10Format.twoDigitUnsignedInteger,
+          }),
+          CVTemplatePlaceholder.modify({
+            descriptorMapper: MString.append(' between 2000 and 2099 included'),
+            postParser: function (this: CVTemplatePlaceholder.Type<'year', number>, value) {
+              return pipe(
+                value,
+                Number.sum(2000),
+                MInputError.assertInRange({
+                  min: 2000,
+                  max: 2099,
+                  minIncluded: true,
+                  maxIncluded: true,
+                  offset: -2000,
+                  name: this.label,
+                }),
+              );
+            },
+            preFormatter: function (this: CVTemplatePlaceholder.Type<'year', number>, value) {
+              return pipe(
+                value,
+                MInputError.assertInRange({
+                  min: 2000,
+                  max: 2099,
+                  minIncluded: true,
+                  maxIncluded: true,
+                  offset: 0,
+                  name: this.label,
+                }),
+                Result.map(Number.subtract(2000)),
+              );
+            },
+          }),
+        ),
+      ],
+      [
+        'yyyy',
         CVTemplatePlaceholder.number({
           name: 'year',
-          numberBase10Format: CVNumberBase10Format.twoDigitUnsignedInteger,
+          numberBase10Format: CVNumberBase10Format.fourDigitUnsignedInteger,
         }),
-        CVTemplatePlaceholder.modify({
-          descriptorMapper: MString.append(' between 2000 and 2099 included'),
-          postParser: function (this: CVTemplatePlaceholder.Type<'year', number>, value) {
-            return pipe(
-              value,
-              Number.sum(2000),
-              MInputError.assertInRange({
-                min: 2000,
-                max: 2099,
-                minIncluded: true,
-                maxIncluded: true,
-                offset: -2000,
-                name: this.label,
-              }),
-            );
-          },
-          preFormatter: function (this: CVTemplatePlaceholder.Type<'year', number>, value) {
-            return pipe(
-              value,
-              MInputError.assertInRange({
-                min: 2000,
-                max: 2099,
-                minIncluded: true,
-                maxIncluded: true,
-                offset: 0,
-                name: this.label,
-              }),
-              Result.map(Number.subtract(2000)),
-            );
-          },
+      ],
+      [
+        'R',
+        numberPlaceholder({
+          name: 'isoYear',
+          numberBase10Format: CVNumberBase10Format.unsignedInteger,
         }),
-      ),
-    ],
-    [
-      'yyyy',
-      CVTemplatePlaceholder.number({
-        name: 'year',
-        numberBase10Format: CVNumberBase10Format.fourDigitUnsignedInteger,
-      }),
-    ],
-    [
-      'R',
-      CVTemplatePlaceholder.number({
-        name: 'isoYear',
-        numberBase10Format: CVNumberBase10Format.unsignedInteger,
-      }),
-    ],
-    [
-      'RR',
-      pipe(
+      ],
+      [
+        'RR',
+        pipe(
+          numberPlaceholder({
+            name: 'isoYear',
+            numberBase10Format: CVNumberBase10Format.twoDigitUnsignedInteger,
+          }),
+          CVTemplatePlaceholder.modify({
+            descriptorMapper: MString.append(' between 2000 and 2099 included'),
+            postParser: function (this: CVTemplatePlaceholder.Type<'isoYear', number>, value) {
+              return pipe(
+                value,
+                Number.sum(2000),
+                MInputError.assertInRange({
+                  min: 2000,
+                  max: 2099,
+                  minIncluded: true,
+                  maxIncluded: true,
+                  offset: -2000,
+                  name: this.label,
+                }),
+              );
+            },
+            preFormatter: function (this: CVTemplatePlaceholder.Type<'isoYear', number>, value) {
+              return pipe(
+                value,
+                MInputError.assertInRange({
+                  min: 2000,
+                  max: 2099,
+                  minIncluded: true,
+                  maxIncluded: true,
+                  offset: 0,
+                  name: this.label,
+                }),
+                Result.map(Number.subtract(2000)),
+              );
+            },
+          }),
+        ),
+      ],
+      [
+        'RRRR',
         CVTemplatePlaceholder.number({
           name: 'isoYear',
+          numberBase10Format: CVNumberBase10Format.fourDigitUnsignedInteger,
+        }),
+      ],
+      [
+        'M',
+        numberPlaceholder({
+          name: 'month',
+          numberBase10Format: CVNumberBase10Format.unsignedInteger,
+        }),
+      ],
+      [
+        'MM',
+        numberPlaceholder({
+          name: 'month',
           numberBase10Format: CVNumberBase10Format.twoDigitUnsignedInteger,
         }),
-        CVTemplatePlaceholder.modify({
-          descriptorMapper: MString.append(' between 2000 and 2099 included'),
-          postParser: function (this: CVTemplatePlaceholder.Type<'isoYear', number>, value) {
-            return pipe(
-              value,
-              Number.sum(2000),
-              MInputError.assertInRange({
-                min: 2000,
-                max: 2099,
-                minIncluded: true,
-                maxIncluded: true,
-                offset: -2000,
-                name: this.label,
-              }),
-            );
-          },
-          preFormatter: function (this: CVTemplatePlaceholder.Type<'isoYear', number>, value) {
-            return pipe(
-              value,
-              MInputError.assertInRange({
-                min: 2000,
-                max: 2099,
-                minIncluded: true,
-                maxIncluded: true,
-                offset: 0,
-                name: this.label,
-              }),
-              Result.map(Number.subtract(2000)),
-            );
-          },
+      ],
+      [
+        'MMM',
+        CVTemplatePlaceholder.numberMappedLiterals({
+          name: 'month',
+          isCaseSensitive,
+          keyValuePairs: pipe(
+            shortMonthNames,
+            Array.map((name, i) => Tuple.make(name, i + 1)),
+          ),
         }),
-      ),
-    ],
-    [
-      'RRRR',
-      CVTemplatePlaceholder.number({
-        name: 'isoYear',
-        numberBase10Format: CVNumberBase10Format.fourDigitUnsignedInteger,
-      }),
-    ],
-    [
-      'M',
-      CVTemplatePlaceholder.number({
-        name: 'month',
-        numberBase10Format: CVNumberBase10Format.unsignedInteger,
-      }),
-    ],
-    [
-      'MM',
-      CVTemplatePlaceholder.number({
-        name: 'month',
-        numberBase10Format: CVNumberBase10Format.twoDigitUnsignedInteger,
-      }),
-    ],
-    [
-      'MMM',
-      CVTemplatePlaceholder.numberMappedLiterals({
-        name: 'month',
-        keyValuePairs: pipe(
-          shortMonthNames,
-          Array.map((name, i) => Tuple.make(name, i + 1)),
-        ),
-      }),
-    ],
-    [
-      'MMMM',
-      CVTemplatePlaceholder.numberMappedLiterals({
-        name: 'month',
-        keyValuePairs: pipe(
-          longMonthNames,
-          Array.map((name, i) => Tuple.make(name, i + 1)),
-        ),
-      }),
-    ],
-    [
-      'I',
-      CVTemplatePlaceholder.number({
-        name: 'isoWeek',
-        numberBase10Format: CVNumberBase10Format.unsignedInteger,
-      }),
-    ],
-    [
-      'II',
-      CVTemplatePlaceholder.number({
-        name: 'isoWeek',
-        numberBase10Format: CVNumberBase10Format.twoDigitUnsignedInteger,
-      }),
-    ],
-    [
-      'd',
-      CVTemplatePlaceholder.number({
-        name: 'monthDay',
-        numberBase10Format: CVNumberBase10Format.unsignedInteger,
-      }),
-    ],
-    [
-      'dd',
-      CVTemplatePlaceholder.number({
-        name: 'monthDay',
-        numberBase10Format: CVNumberBase10Format.twoDigitUnsignedInteger,
-      }),
-    ],
-    [
-      'D',
-      CVTemplatePlaceholder.number({
-        name: 'ordinalDay',
-        numberBase10Format: CVNumberBase10Format.unsignedInteger,
-      }),
-    ],
-    [
-      'DDD',
-      CVTemplatePlaceholder.number({
-        name: 'ordinalDay',
-        numberBase10Format: CVNumberBase10Format.threeDigitUnsignedInteger,
-      }),
-    ],
-    [
-      'i',
-      CVTemplatePlaceholder.number({
-        name: 'weekday',
-        numberBase10Format: CVNumberBase10Format.unsignedInteger,
-      }),
-    ],
-    [
-      'iii',
-      CVTemplatePlaceholder.numberMappedLiterals({
-        name: 'weekday',
-        keyValuePairs: pipe(
-          shortWeekdayNames,
-          Array.map((name, i) => Tuple.make(name, i + 1)),
-        ),
-      }),
-    ],
-    [
-      'iiii',
-      CVTemplatePlaceholder.numberMappedLiterals({
-        name: 'weekday',
-        keyValuePairs: pipe(
-          longWeekdayNames,
-          Array.map((name, i) => Tuple.make(name, i + 1)),
+      ],
+      [
+        'MMMM',
+        CVTemplatePlaceholder.numberMappedLiterals({
+          name: 'month',
+          isCaseSensitive,
+          keyValuePairs: pipe(
+            longMonthNames,
+            Array.map((name, i) => Tuple.make(name, i + 1)),
+          ),
+        }),
+      ],
+      [
+        'MMMMM',
+        CVTemplatePlaceholder.numberMappedLiterals({
+          name: 'narrowMonth',
+          isCaseSensitive,
+          keyValuePairs: pipe(
+            narrowMonthNames,
+            Array.map((name, i) => Tuple.make(name, i + 1)),
+          ),
+        }),
+      ],
+      [
+        'I',
+        numberPlaceholder({
+          name: 'isoWeek',
+          numberBase10Format: CVNumberBase10Format.unsignedInteger,
+        }),
+      ],
+      [
+        'II',
+        numberPlaceholder({
+          name: 'isoWeek',
+          numberBase10Format: CVNumberBase10Format.twoDigitUnsignedInteger,
+        }),
+      ],
+      [
+        'd',
+        pipe(
+          numberPlaceholder({
+            name: 'monthDay',
+            numberBase10Format: CVNumberBase10Format.unsignedInteger,
+          }),
+          monthDayPlaceholder,
         ),
-      }),
-    ],
-    [
-      'a',
-      CVTemplatePlaceholder.numberMappedLiterals({
-        name: 'meridiem',
-        keyValuePairs: pipe(
-          dayPeriodNames,
-          Array.map((name, i) => Tuple.make(name, i * 12)),
+      ],
+      [
+        'do',
+        CVTemplatePlaceholder.ordinalNumber({
+          name: 'monthDay',
+          ordinalSuffixes: monthDayOrdinalSuffixes,
+        }),
+      ],
+      [
+        'dd',
+        pipe(
+          numberPlaceholder({
+            name: 'monthDay',
+            numberBase10Format: CVNumberBase10Format.twoDigitUnsignedInteger,
+          }),
+          monthDayPlaceholder,
         ),
-      }),
-    ],
-    [
-      'H',
-      CVTemplatePlaceholder.number({
-        name: 'hour23',
-        numberBase10Format: CVNumberBase10Format.unsignedInteger,
-      }),
-    ],
-    [
-      'HH',
-      CVTemplatePlaceholder.number({
-        name: 'hour23',
-        numberBase10Format: CVNumberBase10Format.twoDigitUnsignedInteger,
-      }),
-    ],
-    [
-      'K',
-      CVTemplatePlaceholder.number({
-        name: 'hour11',
-        numberBase10Format: CVNumberBase10Format.unsignedInteger,
-      }),
-    ],
-    [
-      'KK',
-      CVTemplatePlaceholder.number({
-        name: 'hour11',
-        numberBase10Format: CVNumberBase10Format.twoDigitUnsignedInteger,
-      }),
-    ],
-    [
-      'm',
-      CVTemplatePlaceholder.number({
-        name: 'minute',
-        numberBase10Format: CVNumberBase10Format.unsignedInteger,
-      }),
-    ],
-    [
-      'mm',
-      CVTemplatePlaceholder.number({
-        name: 'minute',
-        numberBase10Format: CVNumberBase10Format.twoDigitUnsignedInteger,
-      }),
-    ],
-    [
-      's',
-      CVTemplatePlaceholder.number({
-        name: 'second',
-        numberBase10Format: CVNumberBase10Format.unsignedInteger,
-      }),
-    ],
-    [
-      'ss',
-      CVTemplatePlaceholder.number({
-        name: 'second',
-        numberBase10Format: CVNumberBase10Format.twoDigitUnsignedInteger,
-      }),
-    ],
-    [
-      'S',
-      CVTemplatePlaceholder.number({
-        name: 'millisecond',
-        numberBase10Format: CVNumberBase10Format.unsignedInteger,
-      }),
-    ],
-    [
-      'SSS',
-      CVTemplatePlaceholder.number({
-        name: 'millisecond',
-        numberBase10Format: CVNumberBase10Format.threeDigitUnsignedInteger,
-      }),
-    ],
-    [
-      'zH',
-      CVTemplatePlaceholder.number({
-        name: 'zoneHour',
-        numberBase10Format: CVNumberBase10Format.signedInteger,
-      }),
-    ],
-    [
-      'zHzH',
-      CVTemplatePlaceholder.number({
-        name: 'zoneHour',
-        numberBase10Format: CVNumberBase10Format.twoDigitSignedInteger,
-      }),
-    ],
-    [
-      'zm',
-      CVTemplatePlaceholder.number({
-        name: 'zoneMinute',
-        numberBase10Format: CVNumberBase10Format.unsignedInteger,
-      }),
-    ],
-    [
-      'zmzm',
-      CVTemplatePlaceholder.number({
-        name: 'zoneMinute',
-        numberBase10Format: CVNumberBase10Format.twoDigitUnsignedInteger,
-      }),
-    ],
-    [
-      'zs',
-      CVTemplatePlaceholder.number({
-        name: 'zoneSecond',
-        numberBase10Format: CVNumberBase10Format.unsignedInteger,
-      }),
-    ],
-    [
-      'zszs',
-      CVTemplatePlaceholder.number({
-        name: 'zoneSecond',
-        numberBase10Format: CVNumberBase10Format.twoDigitUnsignedInteger,
-      }),
-    ],
-  ];
+      ],
+      [
+        'D',
+        numberPlaceholder({
+          name: 'ordinalDay',
+          numberBase10Format: CVNumberBase10Format.unsignedInteger,
+        }),
+      ],
+      [
+        'DDD',
+        numberPlaceholder({
+          name: 'ordinalDay',
+          numberBase10Format: CVNumberBase10Format.threeDigitUnsignedInteger,
+        }),
+      ],
+      [
+        'i',
+        numberPlaceholder({
+          name: 'weekday',
+          numberBase10Format: CVNumberBase10Format.unsignedInteger,
+        }),
+      ],
+      [
+        'iii',
+        CVTemplatePlaceholder.numberMappedLiterals({
+          name: 'weekday',
+          isCaseSensitive,
+          keyValuePairs: pipe(
+            shortWeekdayNames,
+            Array.map((name, i) => Tuple.make(name, i + 1)),
+          ),
+        }),
+      ],
+      [
+        'iiii',
+        CVTemplatePlaceholder.numberMappedLiterals({
+          name: 'weekday',
+          isCaseSensitive,
+          keyValuePairs: pipe(
+            longWeekdayNames,
+            Array.map((name, i) => Tuple.make(name, i + 1)),
+          ),
+        }),
+      ],
+      [
+        'iiiii',
+        CVTemplatePlaceholder.numberMappedLiterals({
+          name: 'narrowWeekday',
+          isCaseSensitive,
+          keyValuePairs: pipe(
+            narrowWeekdayNames,
+            Array.map((name, i) => Tuple.make(name, i + 1)),
+          ),
+        }),
+      ],
+      [
+        'a',
+        CVTemplatePlaceholder.numberMappedLiterals({
+          name: 'meridiem',
+          isCaseSensitive,
+          keyValuePairs: pipe(
+            dayPeriodNames,
+            Array.map((name, i) => Tuple.make(name, i * 12)),
+          ),
+        }),
+      ],
+      [
+        'B',
+        CVTemplatePlaceholder.numberMappedLiterals({
+          name: 'dayPeriod',
+          isCaseSensitive,
+          keyValuePairs: pipe(
+            flexibleDayPeriodNames,
+            Array.map((name, i) => Tuple.make(name, i)),
+          ),
+        }),
+      ],
+      [
+        'H',
+        numberPlaceholder({
+          name: 'hour23',
+          numberBase10Format: CVNumberBase10Format.unsignedInteger,
+        }),
+      ],
+      [
+        'HH',
+        numberPlaceholder({
+          name: 'hour23',
+          numberBase10Format: CVNumberBase10Format.twoDigitUnsignedInteger,
+        }),
+      ],
+      [
+        'K',
+        numberPlaceholder({
+          name: 'hour11',
+          numberBase10Format: CVNumberBase10Format.unsignedInteger,
+        }),
+      ],
+      [
+        'KK',
+        numberPlaceholder({
+          name: 'hour11',
+          numberBase10Format: CVNumberBase10Format.twoDigitUnsignedInteger,
+        }),
+      ],
+      [
+        'm',
+        numberPlaceholder({
+          name: 'minute',
+          numberBase10Format: CVNumberBase10Format.unsignedInteger,
+        }),
+      ],
+      [
+        'mm',
+        numberPlaceholder({
+          name: 'minute',
+          numberBase10Format: CVNumberBase10Format.twoDigitUnsignedInteger,
+        }),
+      ],
+      [
+        's',
+        numberPlaceholder({
+          name: 'second',
+          numberBase10Format: CVNumberBase10Format.unsignedInteger,
+        }),
+      ],
+      [
+        'ss',
+        numberPlaceholder({
+          name: 'second',
+          numberBase10Format: CVNumberBase10Format.twoDigitUnsignedInteger,
+        }),
+      ],
+      [
+        'S',
+        numberPlaceholder({
+          name: 'millisecond',
+          numberBase10Format: CVNumberBase10Format.unsignedInteger,
+        }),
+      ],
+      [
+        'SSS',
+        numberPlaceholder({
+          name: 'millisecond',
+          numberBase10Format: CVNumberBase10Format.threeDigitUnsignedInteger,
+        }),
+      ],
+      ['S+', secondFraction],
+      [
+        'zH',
+        numberPlaceholder({
+          name: 'zoneHour',
+          numberBase10Format: CVNumberBase10Format.signedInteger,
+        }),
+      ],
+      [
+        'zHzH',
+        numberPlaceholder({
+          name: 'zoneHour',
+          numberBase10Format: CVNumberBase10Format.twoDigitSignedInteger,
+        }),
+      ],
+      [
+        'zm',
+        numberPlaceholder({
+          name: 'zoneMinute',
+          numberBase10Format: CVNumberBase10Format.unsignedInteger,
+        }),
+      ],
+      [
+        'zmzm',
+        numberPlaceholder({
+          name: 'zoneMinute',
+          numberBase10Format: CVNumberBase10Format.twoDigitUnsignedInteger,
+        }),
+      ],
+      [
+        'zs',
+        numberPlaceholder({
+          name: 'zoneSecond',
+          numberBase10Format: CVNumberBase10Format.unsignedInteger,
+        }),
+      ],
+      [
+        'zszs',
+        numberPlaceholder({
+          name: 'zoneSecond',
+          numberBase10Format: CVNumberBase10Format.twoDigitUnsignedInteger,
+        }),
+      ],
+      ['X', zoneDesignator(false)],
+      ['XXX', zoneDesignator(true)],
+      ['Z', utcDesignator('Z')],
+      ['GMT', utcDesignator('GMT')],
+    ];
+
+    return HashMap.make(...tokenMapEntries);
+  };
 
   return Type.make({
     name,
-    tokenMap: HashMap.make(...tokenMapEntries),
+    tokenMap: makeTokenMap(false),
+    tolerantTokenMap: makeTokenMap(true),
   });
 };
 
@@ -488,6 +853,7 @@ export const enGB: Type = fromNames({
   name: 'en-GB',
   longWeekdayNames: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'],
   shortWeekdayNames: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'],
+  narrowWeekdayNames: ['M', 'T', 'W', 'T', 'F', 'S', 'S'],
   longMonthNames: [
     'January',
     'February',
@@ -516,13 +882,42 @@ export const enGB: Type = fromNames({
     'Nov',
     'Dec',
   ],
+  narrowMonthNames: ['J', 'F', 'M', 'A', 'M', 'J', 'J', 'A', 'S', 'O', 'N', 'D'],
   dayPeriodNames: ['AM', 'PM'],
+  flexibleDayPeriodNames: [
+    'in the morning',
+    'in the morning',
+    'in the morning',
+    'in the morning',
+    'in the morning',
+    'in the morning',
+    'in the morning',
+    'in the morning',
+    'in the morning',
+    'in the morning',
+    'in the morning',
+    'in the morning',
+    'noon',
+    'in the afternoon',
+    'in the afternoon',
+    'in the afternoon',
+    'in the afternoon',
+    'in the afternoon',
+    'in the evening',
+    'in the evening',
+    'in the evening',
+    'at night',
+    'at night',
+    'at night',
+  ],
+  shortEraNames: ['BC', 'AD'],
+  longEraNames: ['Before Christ', 'Anno Domini'],
 });
 
 const safeDateTimeFormat = Option.liftThrowable(Intl.DateTimeFormat);
 
 const extractType = (
-  type: 'weekday' | 'month',
+  type: 'weekday' | 'month' | 'dayPeriod' | 'era',
 ): MTypes.OneArgFunction<ReadonlyArray<Intl.DateTimeFormatPart>, Option.Option<string>> =>
   flow(
     Array.findFirst(flow(Struct.get('type'), MPredicate.strictEquals(type))),
@@ -531,19 +926,62 @@ const extractType = (
 
 const extractWeekday = extractType('weekday');
 const extractMonth = extractType('month');
+const extractDayPeriod = extractType('dayPeriod');
+const extractEra = extractType('era');
+
+/**
+ * Returns the dates to send to Intl.DateTimeFormat to retrieve the month names of `calendar`: the
+ * first day of each month of the year that follows the one of 1/1/1970 in `calendar`
+ */
+const getCalendarMonthDates = (calendar: CVCalendar.Type): Option.Option<ReadonlyArray<Date>> =>
+  Option.gen(function* () {
+    const { era, year } = yield* Result.getSuccess(calendar.toParts(0));
+    return yield* pipe(
+      12,
+      Array.makeBy((monthIndex) =>
+        pipe(
+          calendar.fromParts({ era, year: year + 1, month: monthIndex + 1, monthDay: 1 }),
+          Result.getSuccess,
+          Option.map((day) => new Date(day * DAY_MS)),
+        ),
+      ),
+      Option.all,
+    );
+  });
 
 /**
  * Tries to build a `CVDateTimeFormatContext` from locale `locale`. Returns a `Some` if successful.
  * Returns a `None` otherwise (non-existent or unavailable locale,...),
  *
+ * If `calendar` is passed, month and era names are those of `calendar` in `locale`, e.g. 'Ramadan'
+ * and 'AH' for the tabular Hijri calendar in English. For calendars unknown to the `Intl` API, the
+ * names of the Gregorian calendar are used. The context can then be passed along with `calendar` to
+ * `CVDateTimeFormatter.make` and `CVDateTimeParser.make`.
+ *
  * @category Constructors
  */
-export const fromLocale = (locale: string): Option.Option<Type> =>
+export const fromLocale = (locale: string, calendar?: CVCalendar.Type): Option.Option<Type> =>
   Option.gen(function* () {
+    const calendarOptions =
+      calendar === undefined
+        ? {}
+        : { calendar: Option.getOrElse(calendar.intlId, Function.constant('gregory')) };
+
+    const monthDates =
+      calendar === undefined || Option.isNone(calendar.intlId)
+        ? MONTH_DATES
+        : yield* getCalendarMonthDates(calendar);
+
+    const eraDates =
+      calendar === undefined
+        ? ERA_DATES
+        : Array.map(calendar.eraSampleDays, (day) => new Date(day * DAY_MS));
+
     const longDateTimeFormatInLocale = yield* safeDateTimeFormat(locale, {
       timeZone: 'UTC',
       weekday: 'long',
       month: 'long',
+      ...calendarOptions,
     });
 
     const toLongParts = Intl.DateTimeFormat.prototype.formatToParts.bind(
@@ -554,6 +992,7 @@ export const fromLocale = (locale: string): Option.Option<Type> =>
       timeZone: 'UTC',
       weekday: 'short',
       month: 'short',
+      ...calendarOptions,
     });
 
     const toShortParts = Intl.DateTimeFormat.prototype.formatToParts.bind(
@@ -566,7 +1005,7 @@ export const fromLocale = (locale: string): Option.Option<Type> =>
     )) as unknown as CVWeekDayNames.Type;
 
     const longMonthNames = (yield* pipe(
-      MONTH_DATES,
+      monthDates,
       MArray.mapUnlessNone(flow(toLongParts, extractMonth)),
     )) as unknown as CVMonthNames.Type;
 
@@ -576,19 +1015,98 @@ export const fromLocale = (locale: string): Option.Option<Type> =>
     )) as unknown as CVWeekDayNames.Type;
 
     const shortMonthNames = (yield* pipe(
-      MONTH_DATES,
+      monthDates,
       MArray.mapUnlessNone(flow(toShortParts, extractMonth)),
     )) as unknown as CVMonthNames.Type;
 
-    const dayPeriodNames: CVDayPeriodNames.Type = ['AM', 'PM'];
+    const toNarrowParts = Intl.DateTimeFormat.prototype.formatToParts.bind(
+      yield* safeDateTimeFormat(locale, {
+        timeZone: 'UTC',
+        weekday: 'narrow',
+        month: 'narrow',
+        ...calendarOptions,
+      }),
+    );
+
+    const narrowWeekdayNames = (yield* pipe(
+      WEEKDAY_DATES,
+      MArray.mapUnlessNone(flow(toNarrowParts, extractWeekday)),
+    )) as unknown as CVWeekDayNames.Type;
+
+    const narrowMonthNames = (yield* pipe(
+      monthDates,
+      MArray.mapUnlessNone(flow(toNarrowParts, extractMonth)),
+    )) as unknown as CVMonthNames.Type;
+
+    const toMeridiemParts = Intl.DateTimeFormat.prototype.formatToParts.bind(
+      yield* safeDateTimeFormat(locale, {
+        timeZone: 'UTC',
+        hour: 'numeric',
+        hourCycle: 'h12',
+      }),
+    );
+
+    const dayPeriodNames = (yield* pipe(
+      MERIDIEM_DATES,
+      MArray.mapUnlessNone(flow(toMeridiemParts, extractDayPeriod)),
+    )) as unknown as CVDayPeriodNames.Type;
+
+    const toFlexibleDayPeriodParts = Intl.DateTimeFormat.prototype.formatToParts.bind(
+      yield* safeDateTimeFormat(locale, {
+        timeZone: 'UTC',
+        dayPeriod: 'short',
+      }),
+    );
+
+    const flexibleDayPeriodNames = (yield* pipe(
+      HOUR_DATES,
+      MArray.mapUnlessNone(flow(toFlexibleDayPeriodParts, extractDayPeriod)),
+    )) as unknown as CVFlexibleDayPeriodNames.Type;
+
+    const toShortEraParts = Intl.DateTimeFormat.prototype.formatToParts.bind(
+      yield* safeDateTimeFormat(locale, {
+        timeZone: 'UTC',
+        era: 'short',
+        year: 'numeric',
+        ...calendarOptions,
+      }),
+    );
+
+    const shortEraNames = (yield* pipe(
+      eraDates,
+      MArray.mapUnlessNone(flow(toShortEraParts, extractEra)),
+    )) as unknown as CVEraNames.Type;
+
+    const toLongEraParts = Intl.DateTimeFormat.prototype.formatToParts.bind(
+      yield* safeDateTimeFormat(locale, {
+        timeZone: 'UTC',
+        era: 'long',
+        year: 'numeric',
+        ...calendarOptions,
+      }),
+    );
+
+    const longEraNames = (yield* pipe(
+      eraDates,
+      MArray.mapUnlessNone(flow(toLongEraParts, extractEra)),
+    )) as unknown as CVEraNames.Type;
 
     return fromNames({
-      name: locale,
+      name: calendar === undefined ? locale : `${locale} (${calendar.name} calendar)`,
       shortWeekdayNames,
       longWeekdayNames,
+      narrowWeekdayNames,
       shortMonthNames,
       longMonthNames,
+      narrowMonthNames,
       dayPeriodNames,
+      flexibleDayPeriodNames,
+      shortEraNames,
+      longEraNames,
+      monthDayOrdinalSuffixes: pipe(
+        CVOrdinalSuffixes.fromLocale(locale, true),
+        Option.getOrElse(Function.constant(CVOrdinalSuffixes.english)),
+      ),
     });
   });
 
@@ -598,10 +1116,9 @@ export const fromLocale = (locale: string): Option.Option<Type> =>
  *
  * @category Constructors
  */
-export const fromLocaleOrThrow = (locale: string): Type =>
+export const fromLocaleOrThrow = (locale: string, calendar?: CVCalendar.Type): Type =>
   pipe(
-    locale,
-    fromLocale,
+    fromLocale(locale, calendar),
     Option.getOrThrowWith(
       () => new Error(`A CVDateTimeFormat.Context could not be built for locale '${locale}'`),
     ),
@@ -621,3 +1138,11 @@ export const name: MTypes.OneArgFunction<Type, string> = Struct.get('name');
  */
 export const tokenMap: MTypes.OneArgFunction<Type, CVDateTimeFormatTokenMap.Type> =
   Struct.get('tokenMap');
+
+/**
+ * Returns the `tolerantTokenMap` property of `self`
+ *
+ * @category Getters
+ */
+export const tolerantTokenMap: MTypes.OneArgFunction<Type, CVDateTimeFormatTokenMap.Type> =
+  Struct.get('tolerantTokenMap');
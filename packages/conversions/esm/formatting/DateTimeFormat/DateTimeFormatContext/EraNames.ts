@@ -0,0 +1,12 @@
+/**
+ * Module that implements a type that represents the names of the eras of a calendar, in the order
+ * of the calendar eras, e.g. BC and AD for the Gregorian calendar
+ */
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+/**
+ * Type of a CVEraNames
+ *
+ * @category Models
+ */
+export interface Type extends MTypes.ReadonlyOverOne<string> {}
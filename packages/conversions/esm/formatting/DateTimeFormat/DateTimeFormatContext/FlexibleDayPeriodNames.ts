@@ -0,0 +1,12 @@
+/**
+ * Module that implements a type that represents the names of the flexible day periods (e.g. in the
+ * morning, in the afternoon) that apply to each of the twenty-four hours of a day
+ */
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+/**
+ * Type of a CVFlexibleDayPeriodNames
+ *
+ * @category Models
+ */
+export interface Type extends MTypes.ReadonlyTuple<string, 24> {}
@@ -6,17 +6,23 @@
  */
 
 import { flow, pipe } from 'effect';
+import * as Function from 'effect/Function';
 import * as HashMap from 'effect/HashMap';
 import * as Option from 'effect/Option';
+import * as Result from 'effect/Result';
 
 import * as MMatch from '@parischap/effect-lib/MMatch';
+import * as MRegExp from '@parischap/effect-lib/MRegExp';
+import * as MRegExpString from '@parischap/effect-lib/MRegExpString';
+import * as MString from '@parischap/effect-lib/MString';
 import type * as MTypes from '@parischap/effect-lib/MTypes';
 
 import type * as CVTemplatePart from '../../template/TemplatePart/TemplatePart.js';
-import type * as CVTemplatePlaceholder from '../../template/TemplatePart/TemplatePlaceholder/TemplatePlaceholder.js';
 import type * as CVDateTimeFormatContext from '../DateTimeFormatContext/DateTimeFormatContext.js';
 import type * as CVDateTimeFormatToken from '../DateTimeFormatToken.js';
 
+import * as CVDateTimePartName from '../../../internal/formatting/DateTimeFormat/DateTimePartName.js';
+import * as CVTemplatePlaceholder from '../../template/TemplatePart/TemplatePlaceholder/TemplatePlaceholder.js';
 import * as CVTemplateSeparator from '../../template/TemplatePart/TemplateSeparator/TemplateSeparator.js';
 import * as CVDateTimeFormatPlaceholder from './DateTimeFormatPlaceholder.js';
 import * as CVDateTimeFormatSeparator from './DateTimeFormatSeparator.js';
@@ -44,17 +50,58 @@ export const isPlaceholder = (u: Type): u is CVDateTimeFormatPlaceholder.Type =>
 export const isSeparator = (u: Type): u is CVDateTimeFormatSeparator.Type =>
   u instanceof CVDateTimeFormatSeparator.Type;
 
+/** Regular expression that matches a string that contains no letter and no digit */
+const NON_ALPHANUMERIC_REGEXP = pipe(
+  MRegExpString.charNotIn([MRegExpString.unicodeLetter, MRegExpString.unicodeNumber]),
+  MRegExpString.zeroOrMore,
+  MRegExpString.makeLine,
+  MRegExp.fromRegExpString('u'),
+);
+
+/**
+ * `CVTemplatePlaceholder` that replaces non-alphanumeric separators in tolerant mode. It accepts
+ * any separator character surrounded by optional spaces, or nothing at all. It always parses to the
+ * same value so that it can appear several times in a template
+ */
+const tolerantSeparator = pipe(
+  CVTemplatePlaceholder.fulfilling({
+    name: CVDateTimePartName.tolerantSeparator,
+    regExp: pipe(
+      MRegExpString.charNotIn([
+        MRegExpString.space,
+        MRegExpString.unicodeLetter,
+        MRegExpString.unicodeNumber,
+      ]),
+      MString.append(MRegExpString.spaces),
+      MRegExpString.optional,
+      MString.prepend(MRegExpString.spaces),
+      MRegExpString.atStart,
+      MRegExp.fromRegExpString('u'),
+    ),
+    regExpDescriptor: 'an optional separator character surrounded by optional spaces',
+  }),
+  CVTemplatePlaceholder.modify({
+    descriptorMapper: Function.identity,
+    postParser: () => Result.succeed(''),
+    preFormatter: Result.succeed,
+  }),
+);
+
 /**
- * Converts self to its CVTemplatePart equivalent
+ * Converts self to its CVTemplatePart equivalent. If `isTolerant` is true (default is false), the
+ * tolerant token map of `context` is used and separators that contain no letter and no digit are
+ * replaced by a placeholder that accepts any separator character. The resulting `CVTemplatePart`'s
+ * should then only be used for parsing
  *
  * @category Destructors
  */
 export const toTemplatePart = (
   context: CVDateTimeFormatContext.Type,
+  isTolerant = false,
 ): MTypes.OneArgFunction<Type, CVTemplatePart.Type<string, any>> => {
   const getter = (token: CVDateTimeFormatToken.Type): CVTemplatePlaceholder.Type<string, number> =>
     pipe(
-      context.tokenMap,
+      isTolerant ? context.tolerantTokenMap : context.tokenMap,
       HashMap.get(token),
       Option.getOrThrowWith(
         () => new Error(`Abnormal error: no TemplatePart was defined for token '${token}'`),
@@ -64,7 +111,11 @@ export const toTemplatePart = (
   return flow(
     MMatch.make,
     MMatch.when(isPlaceholder, flow(CVDateTimeFormatPlaceholder.token, getter)),
-    MMatch.when(isSeparator, ({ value }) => CVTemplateSeparator.make(value)),
+    MMatch.when(isSeparator, ({ value }) =>
+      isTolerant && NON_ALPHANUMERIC_REGEXP.test(value)
+        ? tolerantSeparator
+        : CVTemplateSeparator.make(value),
+    ),
     MMatch.exhaustive,
   );
 };
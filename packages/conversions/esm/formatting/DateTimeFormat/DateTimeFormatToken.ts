@@ -10,6 +10,10 @@
  * @category Models
  */
 export type Type =
+  /* Short era name (ex: AD). Formatting only: when parsing, it is checked against the year */
+  | 'G'
+  /* Long era name (ex: Anno Domini). Formatting only: when parsing, it is checked against the year */
+  | 'GGGG'
   /* Gregorian year (ex: 2005) */
   | 'y'
   /* Gregorian year on 2 digits left-padded with 0's corresponding to years 2000-2099 (ex: 05 for 2005) */
@@ -30,12 +34,16 @@ export type Type =
   | 'MMM'
   /* Long month name (ex: June) */
   | 'MMMM'
+  /* Narrow month name (ex: J). Formatting only: when parsing, it is checked against the month */
+  | 'MMMMM'
   /* IsoWeek (ex: 6) */
   | 'I'
   /* IsoWeek (ex: 06) */
   | 'II'
   /* Day of month (ex: 5) */
   | 'd'
+  /* Ordinal day of month (ex: 5th in English, 1er or 5 in French) */
+  | 'do'
   /* Day of month on 2 digits left-padded with 0's (ex: 05) */
   | 'dd'
   /* Day of year (ex: 97) */
@@ -48,8 +56,12 @@ export type Type =
   | 'iii'
   /* Long weekday name (ex: Monday) */
   | 'iiii'
+  /* Narrow weekday name (ex: M). Formatting only: when parsing, it is checked against the weekday */
+  | 'iiiii'
   /* Meridiem (ex: 'AM' for 0, 'PM' for 12) */
   | 'a'
+  /* Flexible day period (ex: in the morning). Formatting only: when parsing, it is checked against the hour */
+  | 'B'
   /* Hour in the range 0..23 (ex:5, 14) */
   | 'H'
   /* Hour on 2 digits in the range 0..23 left-padded with 0's (ex:05, 14) */
@@ -70,6 +82,8 @@ export type Type =
   | 'S'
   /* Millisecond on 3 digits left-padded with 0's (ex: 005) */
   | 'SSS'
+  /* Fraction of second on one or more digits, truncated to milliseconds when parsing and written on 3 digits when formatting (ex: 5 for 500ms, 0071 for 7ms) */
+  | 'S+'
   /* Hour part of the timezone offset (ex: 5, -6) */
   | 'zH'
   /* Hour part of the timezone offset on 2 digits left-padded with 0's possibly prefixed by a minus sign (ex: 10, -05) */
@@ -81,4 +95,12 @@ export type Type =
   /* Second part of the timezone offset (ex: 5) */
   | 'zs'
   /* Second part of the timezone offset on 2 digits left-padded with 0's (ex: 05) */
-  | 'zszs';
+  | 'zszs'
+  /* ISO 8601 basic zone designator: 'Z' for UTC, signed hours otherwise, followed by minutes if they are not null (ex: Z, +05, -0530) */
+  | 'X'
+  /* ISO 8601 extended zone designator as used by RFC 3339: 'Z' for UTC, signed hours and minutes otherwise (ex: Z, +05:00, -05:30) */
+  | 'XXX'
+  /* Literal 'Z' for UTC. Formatting fails if the timezone offset is not null */
+  | 'Z'
+  /* Literal 'GMT' for UTC as used by HTTP dates. Formatting fails if the timezone offset is not null */
+  | 'GMT';
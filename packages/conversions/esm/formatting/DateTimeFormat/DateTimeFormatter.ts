@@ -1,6 +1,7 @@
 /**
  * This module implements a `CVDateTimeFormatter`, i.e. an object that can convert a `CVDateTime`
- * into a string according to the passed `CVDateTimeFormat` and `CVDateTimeFormatContext`.
+ * into a string according to the passed `CVDateTimeFormat` and `CVDateTimeFormatContext`. If a
+ * `CVCalendar` is passed, the era, year, month and month day are expressed in that calendar.
  */
 
 import { flow, pipe } from 'effect';
@@ -19,12 +20,13 @@ import * as MMatch from '@parischap/effect-lib/MMatch';
 import * as MString from '@parischap/effect-lib/MString';
 import type * as MTypes from '@parischap/effect-lib/MTypes';
 
-import type * as CVDateTimePartName from '../../internal/formatting/DateTimeFormat/DateTimePartName.js';
+import type * as CVCalendar from '../../DateTime/Calendar.js';
 import type * as CVDateTimeFormat from './DateTimeFormat.js';
 import type * as CVDateTimeFormatContext from './DateTimeFormatContext/DateTimeFormatContext.js';
 
 import * as CVDateTime from '../../DateTime/DateTime.js';
 import * as CVDateTimeFormatParts from '../../internal/formatting/DateTimeFormat/DateTimeFormatParts.js';
+import * as CVDateTimePartName from '../../internal/formatting/DateTimeFormat/DateTimePartName.js';
 import * as CVTemplateFormatter from '../template/TemplateFormatter.js';
 import * as CVTemplatePart from '../template/TemplatePart/TemplatePart.js';
 import * as CVTemplatePlaceholder from '../template/TemplatePart/TemplatePlaceholder/TemplatePlaceholder.js';
@@ -72,9 +74,11 @@ export class Type extends MData.Class {
   static make({
     dateTimeFormat,
     context,
+    calendar,
   }: {
     readonly dateTimeFormat: CVDateTimeFormat.Type;
     readonly context: CVDateTimeFormatContext.Type;
+    readonly calendar?: CVCalendar.Type | undefined;
   }): Type {
     const DateTimePartReader = (
       f: MTypes.OneArgFunction<CVDateTime.Type, number>,
@@ -120,6 +124,10 @@ export class Type extends MData.Class {
                 MMatch.whenIs('zoneHour', DateTimePartReader(CVDateTime.getZoneHour)),
                 MMatch.whenIs('zoneMinute', DateTimePartReader(CVDateTime.getZoneMinute)),
                 MMatch.whenIs('zoneSecond', DateTimePartReader(CVDateTime.getZoneSecond)),
+                MMatch.whenIs('zoneOffset', DateTimePartReader(CVDateTime.zoneOffset)),
+                MMatch.when(CVDateTimePartName.isDerived, (partName) =>
+                  DateTimePartReader(CVDateTimePartName.derivedPartReaders[partName])(partName),
+                ),
               ),
               MMatch.orElse(() => Option.none()),
             ),
@@ -131,21 +139,36 @@ export class Type extends MData.Class {
       Record.fromEntries,
     );
 
+    const readCalendarDependentValues = CVDateTimePartName.calendarDependentValuesReader(calendar);
+
+    const formatParts = pipe(
+      templateParts,
+      Function.tupled(CVTemplateFormatter.fromTemplateParts),
+      CVTemplateFormatter.format,
+    );
+
     const format = (d: CVDateTime.Type) =>
       pipe(
-        toParts,
-        Record.map(Function.apply(d)),
-        pipe(
-          templateParts,
-          Function.tupled(CVTemplateFormatter.fromTemplateParts),
-          CVTemplateFormatter.format,
+        d,
+        readCalendarDependentValues,
+        Result.flatMap((calendarDependentValues) =>
+          pipe(
+            toParts,
+            Record.map(
+              (reader, partName) =>
+                calendarDependentValues[partName as CVDateTimePartName.Type] ?? reader(d),
+            ),
+            formatParts,
+          ),
         ),
       );
     return new Type({
       name: pipe(
         dateTimeFormat.name,
         MString.prepend("'"),
-        MString.append(`' formatter in '${context.name}' context`),
+        MString.append(
+          `' formatter in '${context.name}' context${calendar === undefined ? '' : ` and '${calendar.name}' calendar`}`,
+        ),
       ),
       format,
       formatOrThrow: flow(format, Result.getOrThrowWith(Function.identity)),
@@ -161,6 +184,11 @@ export class Type extends MData.Class {
 /**
  * Builds a `CVDateTimeFormatter` from a `CVDateTimeFormat` and a `CVDateTimeFormatContext`.
  *
+ * If `calendar` is passed, the era, year, month and month day are expressed in that calendar. Other
+ * parts (ordinal day, iso year, iso week...) are not calendar-dependent. Formatting fails if the
+ * `CVDateTime` cannot be expressed in `calendar`. The month and era names of `context` must match
+ * the calendar (see `CVDateTimeFormatContext.fromLocale`).
+ *
  * @category Constructors
  */
 export const make = Type.make.bind(Type);
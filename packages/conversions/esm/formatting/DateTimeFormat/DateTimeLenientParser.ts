@@ -0,0 +1,192 @@
+/**
+ * This module implements a `CVDateTimeLenientParser`, i.e. an object that tries to convert a string
+ * into a `CVDateTime` with several candidate `CVDateTimeFormat`'s in a given
+ * `CVDateTimeFormatContext`. The candidates are tried in order and the first one that matches is
+ * returned along with the parsed `CVDateTime`. By default, candidates are parsed in tolerant mode
+ * (see `CVDateTimeParser.make`) so that user-entered dates like '5/6/2024', '05-06-2024' or '5 JUNE
+ * 2024' can be read with few formats.
+ */
+
+import { flow, pipe } from 'effect';
+import * as Array from 'effect/Array';
+import * as Function from 'effect/Function';
+import * as Result from 'effect/Result';
+import * as Struct from 'effect/Struct';
+
+import * as MData from '@parischap/effect-lib/MData';
+import * as MInputError from '@parischap/effect-lib/MInputError';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+import type * as CVCalendar from '../../DateTime/Calendar.js';
+import type * as CVDateTime from '../../DateTime/DateTime.js';
+
+import * as CVDateTimeFormat from './DateTimeFormat.js';
+import * as CVDateTimeFormatContext from './DateTimeFormatContext/DateTimeFormatContext.js';
+import * as CVDateTimeParser from './DateTimeParser.js';
+
+/**
+ * Module tag
+ *
+ * @category Module markers
+ */
+export const moduleTag = '@parischap/conversions/formatting/DateTimeFormat/DateTimeLenientParser/';
+const TypeId: unique symbol = Symbol.for(moduleTag) as TypeId;
+type TypeId = typeof TypeId;
+
+/**
+ * Type of the result of a successful parsing
+ *
+ * @category Models
+ */
+export interface Match {
+  /** The first candidate `CVDateTimeFormat` that matched the text */
+  readonly dateTimeFormat: CVDateTimeFormat.Type;
+
+  /** The parsed `CVDateTime` */
+  readonly dateTime: CVDateTime.Type;
+}
+
+/**
+ * Type that represents a CVDateTimeLenientParser
+ *
+ * @category Models
+ */
+export class Type extends MData.Class {
+  /** Name of this CVDateTimeLenientParser */
+  readonly name: string;
+
+  /**
+   * Function that tries to parse a string with each candidate format in turn. Returns a `Success`
+   * of the first match. Returns a `Failure` that lists why each candidate was rejected otherwise
+   */
+  readonly parse: MTypes.OneArgFunction<string, Result.Result<Match, MInputError.Type>>;
+
+  /** Same as `parse` but throws instead of returning a `Failure` in case of failure. */
+  readonly parseOrThrow: MTypes.OneArgFunction<string, Match>;
+
+  /** Returns the `id` of `this` */
+  [MData.idSymbol](): string | (() => string) {
+    return function idSymbol(this: Type) {
+      return this.name;
+    };
+  }
+
+  /** Class constructor */
+  private constructor({ name, parse, parseOrThrow }: MTypes.Data<Type>) {
+    super();
+    this.name = name;
+    this.parse = parse;
+    this.parseOrThrow = parseOrThrow;
+  }
+
+  /** Static constructor */
+  static make({
+    dateTimeFormats,
+    context,
+    isTolerant = true,
+    calendar,
+  }: {
+    readonly dateTimeFormats: MTypes.ReadonlyOverOne<CVDateTimeFormat.Type>;
+    readonly context: CVDateTimeFormatContext.Type;
+    readonly isTolerant?: boolean;
+    readonly calendar?: CVCalendar.Type | undefined;
+  }): Type {
+    const candidates = pipe(
+      dateTimeFormats,
+      Array.map((dateTimeFormat) => ({
+        dateTimeFormat,
+        parser: CVDateTimeParser.make({ dateTimeFormat, context, isTolerant, calendar }),
+      })),
+    );
+
+    const noMatch: Result.Result<Match, ReadonlyArray<string>> = Result.fail(Array.empty());
+
+    const parse = (text: string): Result.Result<Match, MInputError.Type> =>
+      pipe(
+        candidates,
+        Array.reduce(noMatch, (previous, { dateTimeFormat, parser }) =>
+          Result.orElse(previous, (reasons) =>
+            pipe(
+              text,
+              parser.parse,
+              Result.map((dateTime) => ({ dateTimeFormat, dateTime })),
+              Result.mapError(({ message }) =>
+                Array.append(reasons, `- ${parser.name}: ${message}`),
+              ),
+            ),
+          ),
+        ),
+        Result.mapError(
+          (reasons) =>
+            new MInputError.Type({
+              message: `'${text}' does not match any of the candidate formats:\n${Array.join(reasons, '\n')}`,
+            }),
+        ),
+      );
+
+    return new Type({
+      name: `${isTolerant ? 'tolerant ' : ''}lenient parser of [${pipe(
+        dateTimeFormats,
+        Array.map((dateTimeFormat) => `'${dateTimeFormat.name}'`),
+        Array.join(', '),
+      )}] in '${context.name}' context${calendar === undefined ? '' : ` and '${calendar.name}' calendar`}`,
+      parse,
+      parseOrThrow: flow(parse, Result.getOrThrowWith(Function.identity)),
+    });
+  }
+
+  /** Returns the TypeMarker of the class */
+  protected get [TypeId](): TypeId {
+    return TypeId;
+  }
+}
+
+/**
+ * Builds a `CVDateTimeLenientParser` from a non-empty array of candidate `CVDateTimeFormat`'s and a
+ * `CVDateTimeFormatContext`. Candidates are tried in the order in which they are provided. If
+ * `isTolerant` is true (default), each candidate is parsed in tolerant mode (see
+ * `CVDateTimeParser.make`). If `calendar` is passed, candidates read dates in that calendar.
+ *
+ * @category Constructors
+ */
+export const make = (params: {
+  readonly dateTimeFormats: MTypes.ReadonlyOverOne<CVDateTimeFormat.Type>;
+  readonly context: CVDateTimeFormatContext.Type;
+  readonly isTolerant?: boolean;
+  readonly calendar?: CVCalendar.Type | undefined;
+}): Type => Type.make(params);
+
+/**
+ * `CVDateTimeLenientParser` instance for RFC 2822 dates (see `CVDateTimeFormat.rfc2822`). It
+ * accepts dates with or without the optional weekday, with or without a zero-padded day and with
+ * day and month names in any case (e.g. `Tue, 1 Jul 2003 10:52:37 +0200` or `01 jul 2003 10:52:37
+ * +0200`).
+ *
+ * @category Instances
+ */
+export const rfc2822: Type = make({
+  dateTimeFormats: [CVDateTimeFormat.rfc2822, CVDateTimeFormat.rfc2822WithoutWeekday],
+  context: CVDateTimeFormatContext.enGB,
+});
+
+/**
+ * Returns the `name` property of `self`.
+ *
+ * @category Getters
+ */
+export const name: MTypes.OneArgFunction<Type, string> = Struct.get('name');
+
+/**
+ * Returns the `parse` property of `self`.
+ *
+ * @category Getters
+ */
+export const parse: MTypes.OneArgFunction<Type, Type['parse']> = Struct.get('parse');
+
+/**
+ * Returns the `parseOrThrow` property of `self`.
+ *
+ * @category Getters
+ */
+export const parseOrThrow: MTypes.OneArgFunction<Type, Type['parseOrThrow']> =
+  Struct.get('parseOrThrow');
@@ -1,25 +1,32 @@
 /**
  * This module implements a `CVDateTimeParser`, i.e. an object that can convert a string into a
- * `CVDateTime` according to the passed `CVDateTimeFormat` and `CVDateTimeFormatContext`.
+ * `CVDateTime` according to the passed `CVDateTimeFormat` and `CVDateTimeFormatContext`. If a
+ * `CVCalendar` is passed, the era, year, month and month day are read in that calendar.
  */
 
 import { pipe, flow } from 'effect';
+import * as Array from 'effect/Array';
 import * as Function from 'effect/Function';
+import * as Record from 'effect/Record';
 import * as Result from 'effect/Result';
 import * as Struct from 'effect/Struct';
 
 import * as MData from '@parischap/effect-lib/MData';
-import type * as MInputError from '@parischap/effect-lib/MInputError';
+import * as MInputError from '@parischap/effect-lib/MInputError';
 import * as MString from '@parischap/effect-lib/MString';
 import type * as MTypes from '@parischap/effect-lib/MTypes';
 
 import type * as CVDateTimeParts from '../../DateTime/DateTimeParts.js';
+import type * as CVTemplatePlaceholder from '../template/TemplatePart/TemplatePlaceholder/TemplatePlaceholder.js';
 import type * as CVDateTimeFormat from './DateTimeFormat.js';
 import type * as CVDateTimeFormatContext from './DateTimeFormatContext/DateTimeFormatContext.js';
 
+import * as CVCalendar from '../../DateTime/Calendar.js';
 import * as CVDateTime from '../../DateTime/DateTime.js';
 import * as CVDateTimeFormatParts from '../../internal/formatting/DateTimeFormat/DateTimeFormatParts.js';
+import * as CVDateTimePartName from '../../internal/formatting/DateTimeFormat/DateTimePartName.js';
 import * as CVTemplateParser from '../template/TemplateParser.js';
+import * as CVTemplatePart from '../template/TemplatePart/TemplatePart.js';
 
 /**
  * Module tag
@@ -64,22 +71,110 @@ export class Type extends MData.Class {
   static make({
     dateTimeFormat,
     context,
+    isTolerant = false,
+    calendar,
   }: {
     readonly dateTimeFormat: CVDateTimeFormat.Type;
     readonly context: CVDateTimeFormatContext.Type;
+    readonly isTolerant?: boolean;
+    readonly calendar?: CVCalendar.Type | undefined;
   }): Type {
-    const parse = pipe(
+    const templateParts = pipe(
       dateTimeFormat.parts,
-      CVDateTimeFormatParts.toTemplateParts(context),
+      CVDateTimeFormatParts.toTemplateParts(context, isTolerant),
+    );
+
+    // Derived parts do not contribute to the result. They are only checked against it
+    const derivedPlaceholders = pipe(
+      templateParts,
+      Array.filter(
+        (
+          templatePart,
+        ): templatePart is CVTemplatePlaceholder.Type<CVDateTimePartName.Derived, number> =>
+          CVTemplatePart.isPlaceholder(templatePart) &&
+          CVDateTimePartName.isDerived(templatePart.name),
+      ),
+    );
+
+    const readCalendarDependentValues = CVDateTimePartName.calendarDependentValuesReader(calendar);
+
+    const checkDerivedParts =
+      (parts: Record<string, unknown>) =>
+      (dateTime: CVDateTime.Type): Result.Result<CVDateTime.Type, MInputError.Type> =>
+        Result.gen(function* () {
+          const calendarDependentValues = yield* readCalendarDependentValues(dateTime);
+          for (const placeholder of derivedPlaceholders) {
+            const expected = yield* placeholder.formatter(
+              calendarDependentValues[placeholder.name] ??
+                CVDateTimePartName.derivedPartReaders[placeholder.name](dateTime),
+            );
+            const actual = yield* placeholder.formatter(parts[placeholder.name] as number);
+            if (expected !== actual)
+              return yield* Result.fail(
+                new MInputError.Type({
+                  message: `${placeholder.label}: expected '${expected}' for the parsed date. Actual: '${actual}'`,
+                }),
+              );
+          }
+          return dateTime;
+        });
+
+    // When a calendar is used, the year, month and month day are converted to the Gregorian calendar
+    const toGregorianParts =
+      (era: number | undefined) =>
+      (parts: CVDateTimeParts.Type): Result.Result<CVDateTimeParts.Type, MInputError.Type> => {
+        if (calendar === undefined) return Result.succeed(parts);
+        const { year, month, monthDay, ...otherParts } = parts;
+        if (year === undefined && month === undefined && monthDay === undefined)
+          return Result.succeed(otherParts);
+        if (year === undefined || month === undefined || monthDay === undefined)
+          return Result.fail(
+            new MInputError.Type({
+              message: `Expected year, month and month day to be all present or all absent when parsing in the ${calendar.name} calendar`,
+            }),
+          );
+        return pipe(
+          calendar.fromParts(
+            era === undefined ? { year, month, monthDay } : { era, year, month, monthDay },
+          ),
+          Result.flatMap(CVCalendar.gregorian.toParts),
+          Result.map((gregorianParts) => ({
+            ...otherParts,
+            year: gregorianParts.year,
+            month: gregorianParts.month,
+            monthDay: gregorianParts.monthDay,
+          })),
+        );
+      };
+
+    const parse = pipe(
+      templateParts,
       Function.tupled(CVTemplateParser.fromTemplateParts),
       CVTemplateParser.parse,
-      Function.compose(Result.flatMap((o) => CVDateTime.fromParts(o as CVDateTimeParts.Type))),
+      Function.compose(
+        Result.flatMap((parts) =>
+          pipe(
+            parts,
+            Record.filter(
+              (_, partName) =>
+                !CVDateTimePartName.isDerived(partName) &&
+                partName !== CVDateTimePartName.tolerantSeparator,
+            ),
+            (o) => o as CVDateTimeParts.Type,
+            toGregorianParts((parts as Record<string, unknown>)['era'] as number | undefined),
+            Result.flatMap(CVDateTime.fromParts),
+            Result.flatMap(checkDerivedParts(parts)),
+          ),
+        ),
+      ),
     );
     return new Type({
       name: pipe(
         dateTimeFormat.name,
         MString.prepend("'"),
-        MString.append(`' parser in '${context.name}' context`),
+        MString.append(
+          `' ${isTolerant ? 'tolerant ' : ''}parser in '${context.name}' context${calendar === undefined ? '' : ` and '${calendar.name}' calendar`}`,
+        ),
       ),
       parse,
       parseOrThrow: flow(parse, Result.getOrThrowWith(Function.identity)),
@@ -95,11 +190,22 @@ export class Type extends MData.Class {
 /**
  * Builds a `CVDateTimeParser` from a `CVDateTimeFormat` and a `CVDateTimeFormatContext`.
  *
+ * If `isTolerant` is true (default is false), the parser accepts month, weekday, day period and era
+ * names in any case, numbers without their zero padding (except 4-digit years) and any separator
+ * character (or none) in place of a separator that contains no letter and no digit.
+ *
+ * If `calendar` is passed, the era, year, month and month day are read in that calendar. The year,
+ * month and month day must then be all present or all absent. The era is required by calendars
+ * whose years are counted from the start of each era (e.g. the Japanese calendar). Other parts
+ * (ordinal day, iso year, iso week...) are not calendar-dependent.
+ *
  * @category Constructors
  */
 export const make = (params: {
   readonly dateTimeFormat: CVDateTimeFormat.Type;
   readonly context: CVDateTimeFormatContext.Type;
+  readonly isTolerant?: boolean;
+  readonly calendar?: CVCalendar.Type | undefined;
 }): Type => Type.make(params);
 
 /**
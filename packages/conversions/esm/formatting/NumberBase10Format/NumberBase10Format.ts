@@ -4,10 +4,12 @@
  */
 
 import { flow, pipe } from 'effect';
+import * as Array from 'effect/Array';
 import * as Function from 'effect/Function';
 import * as Number from 'effect/Number';
 import * as Option from 'effect/Option';
 import * as Predicate from 'effect/Predicate';
+import * as String from 'effect/String';
 import * as Struct from 'effect/Struct';
 
 import * as MData from '@parischap/effect-lib/MData';
@@ -44,6 +46,37 @@ export class Type extends MData.Class {
    */
   readonly thousandSeparator: string;
 
+  /**
+   * Number of digits of the rightmost group of digits of the integer part separated by
+   * `thousandSeparator`. Usually 3. Must be a strictly positive integer. Will not throw otherwise
+   * but unexpected results might occur. Not used if `thousandSeparator` is an empty string.
+   *
+   * Parsing: conversion will fail if the rightmost group of digits does not have this size
+   */
+  readonly primaryGroupSize: number;
+
+  /**
+   * Number of digits of the other groups of digits of the integer part separated by
+   * `thousandSeparator`. Usually 3. Indian-style numbers use 2 (e.g. 12,34,567). Must be a strictly
+   * positive integer. Will not throw otherwise but unexpected results might occur. Not used if
+   * `thousandSeparator` is an empty string.
+   *
+   * Parsing: conversion will fail if one of the other groups of digits does not have this size
+   * (apart from the leftmost group which may be shorter)
+   */
+  readonly secondaryGroupSize: number;
+
+  /**
+   * Minimum number of digits that must be on the left of the rightmost group for
+   * `thousandSeparator` to be used. Usually 1. Some locales use 2 (e.g. in Spanish, 1234 is not
+   * grouped but 12.345 is). Must be a strictly positive integer. Will not throw otherwise but
+   * unexpected results might occur. Not used if `thousandSeparator` is an empty string.
+   *
+   * Parsing: conversion will fail if the integer part is grouped when it should not be and
+   * vice-versa
+   */
+  readonly minimumGroupingDigits: number;
+
   /**
    * Fractional separator. Usually a one-character string different from `thousandSeparator`. Will
    * not throw otherwise but unexpected results might occur.
@@ -105,9 +138,42 @@ export class Type extends MData.Class {
    * (unless `maximumFractionalDigits` is `+Infinity`).
    *
    * Parsing: will fail if the input string has too many fractional digits.
+   *
+   * Not used if the significant digits of `this` are used (see `minimumSignificantDigits`)
    */
   readonly maximumFractionalDigits: number;
 
+  /**
+   * Minimum number of significant digits of the mantissa. Must be a positive integer (>=0) less
+   * than or equal to `maximumSignificantDigits`. Will not throw otherwise but unexpected results
+   * might occur. Significant digits are used if `minimumSignificantDigits` is strictly positive or
+   * `maximumSignificantDigits` is finite. In that case, `minimumFractionalDigits` and
+   * `maximumFractionalDigits` are not used. Use 0 and `+Infinity` to use fractional digits
+   * instead.
+   *
+   * Formatting: the fractional part will be right-padded with `0`'s if necessary to respect the
+   * condition, e.g. 1.2 is written 1.200 with 4 significant digits.
+   *
+   * Parsing: will fail if the input string does not respect this condition. The trailing zeros of a
+   * number that has no fractional part may or may not be significant, e.g. 1200 is deemed to have
+   * between 2 and 4 significant digits.
+   */
+  readonly minimumSignificantDigits: number;
+
+  /**
+   * Maximum number of significant digits of the mantissa. Must be an integer value greater than or
+   * equal to `minimumSignificantDigits`. Will not throw otherwise but unexpected results might
+   * occur. Can take the +Infinity value. See `minimumSignificantDigits` for when significant digits
+   * are used.
+   *
+   * Formatting: the number will be rounded using the roundingOption to respect the condition
+   * (unless `maximumSignificantDigits` is `+Infinity`), e.g. 1234.5 is written 1200 and 0.012345 is
+   * written 0.012 with 2 significant digits.
+   *
+   * Parsing: will fail if the input string has too many significant digits.
+   */
+  readonly maximumSignificantDigits: number;
+
   /**
    * Possible characters to use to represent e-notation. Usually ['e','E']. Must be an array of one-
    * character strings. Will not throw otherwise but unexpected results will occur. Not used if
@@ -129,30 +195,49 @@ export class Type extends MData.Class {
   /** Sign display options. See CVNumberBase10FormatSignDisplayOption.ts */
   readonly signDisplayOption: CVNumberBase10FormatSignDisplayOption.Type;
 
+  /**
+   * String used to represent the minus sign. Usually '-'. Some locales use the unicode minus sign
+   * '−', possibly preceded by a direction mark. Must not be an empty string nor '+'. Will not throw
+   * otherwise but unexpected results might occur.
+   */
+  readonly minusSign: string;
+
   /** Class constructor */
   private constructor({
     thousandSeparator,
+    primaryGroupSize,
+    secondaryGroupSize,
+    minimumGroupingDigits,
     fractionalSeparator,
     showNullIntegerPart,
     integerPartPadding,
     minimumFractionalDigits,
     maximumFractionalDigits,
+    minimumSignificantDigits,
+    maximumSignificantDigits,
     eNotationChars,
     scientificNotationOption,
     roundingOption,
     signDisplayOption,
+    minusSign,
   }: MTypes.Data<Type>) {
     super();
     this.thousandSeparator = thousandSeparator;
+    this.primaryGroupSize = primaryGroupSize;
+    this.secondaryGroupSize = secondaryGroupSize;
+    this.minimumGroupingDigits = minimumGroupingDigits;
     this.fractionalSeparator = fractionalSeparator;
     this.showNullIntegerPart = showNullIntegerPart;
     this.integerPartPadding = integerPartPadding;
     this.minimumFractionalDigits = minimumFractionalDigits;
     this.maximumFractionalDigits = maximumFractionalDigits;
+    this.minimumSignificantDigits = minimumSignificantDigits;
+    this.maximumSignificantDigits = maximumSignificantDigits;
     this.eNotationChars = eNotationChars;
     this.scientificNotationOption = scientificNotationOption;
     this.roundingOption = roundingOption;
     this.signDisplayOption = signDisplayOption;
+    this.minusSign = minusSign;
   }
 
   /** Static constructor */
@@ -180,6 +265,116 @@ type IntegerPartPadding = Type['integerPartPadding'];
  */
 export const make = (params: MTypes.Data<Type>): Type => Type.make(params);
 
+const safeNumberFormat = Option.liftThrowable(
+  (locale: string) =>
+    new Intl.NumberFormat(locale, { maximumFractionDigits: 3, numberingSystem: 'latn' }),
+);
+
+const extractValues = (
+  type: Intl.NumberFormatPartTypes,
+): MTypes.OneArgFunction<ReadonlyArray<Intl.NumberFormatPart>, Array<string>> =>
+  flow(
+    Array.filter(flow(Struct.get('type'), MPredicate.strictEquals(type))),
+    Array.map(Struct.get('value')),
+  );
+
+const extractIntegers = extractValues('integer');
+const extractGroups = extractValues('group');
+const extractDecimals = extractValues('decimal');
+
+/**
+ * Tries to build a `CVNumberBase10Format` from locale `locale` by probing the `Intl.NumberFormat`
+ * API: thousand and fractional separators, minus sign and grouping of digits (including the Indian
+ * grouping of digits and the minimum number of grouping digits) are those of `locale`. Returns a
+ * `Some` if successful. Returns a `None` otherwise (non-existent or unavailable locale,...).
+ *
+ * Like `Intl.NumberFormat`, the returned format shows at most three fractional digits, rounds with
+ * the `HalfExpand` rounding option and displays the sign of negative numbers only (including
+ * negative zero). Numbers are always written with Latin digits (0 to 9): for locales that use
+ * another numbering system by default, parsing only round-trips the output of an
+ * `Intl.NumberFormat` built with the `numberingSystem: 'latn'` option.
+ *
+ * @category Constructors
+ */
+export const fromLocale = (locale: string): Option.Option<Type> =>
+  Option.gen(function* () {
+    const numberFormat = yield* safeNumberFormat(locale);
+    const toParts = Intl.NumberFormat.prototype.formatToParts.bind(numberFormat);
+    const parts = toParts(-1_234_567_890.5);
+
+    const minusSign = yield* pipe(
+      parts,
+      Array.takeWhile(flow(Struct.get('type'), Predicate.not(MPredicate.strictEquals('integer')))),
+      Array.map(Struct.get('value')),
+      Array.join(''),
+      Option.liftPredicate(String.isNonEmpty),
+    );
+
+    const fractionalSeparator = yield* pipe(parts, extractDecimals, Array.head);
+
+    const thousandSeparator = pipe(
+      parts,
+      extractGroups,
+      Array.head,
+      Option.getOrElse(MFunction.constEmptyString),
+    );
+
+    // Sizes of the integer groups, starting from the right. The leftmost group may be incomplete
+    const groupSizes = pipe(parts, extractIntegers, Array.map(String.length), Array.reverse);
+    const primaryGroupSize = thousandSeparator === '' ? 3 : yield* Array.head(groupSizes);
+    const secondaryGroupSize = pipe(
+      groupSizes,
+      Option.liftPredicate((sizes) => sizes.length > 2),
+      Option.flatMap(Array.get(1)),
+      Option.getOrElse(Function.constant(primaryGroupSize)),
+    );
+
+    const minimumGroupingDigits = pipe(
+      [1, 2, 3],
+      Array.findFirst((n) =>
+        pipe(
+          10 ** (primaryGroupSize + n - 1),
+          toParts,
+          extractGroups,
+          Array.isReadonlyArrayNonEmpty,
+        ),
+      ),
+      Option.getOrElse(Function.constant(1)),
+    );
+
+    return make({
+      thousandSeparator,
+      primaryGroupSize,
+      secondaryGroupSize,
+      minimumGroupingDigits,
+      fractionalSeparator,
+      showNullIntegerPart: true,
+      integerPartPadding: Option.none(),
+      minimumFractionalDigits: 0,
+      maximumFractionalDigits: 3,
+      minimumSignificantDigits: 0,
+      maximumSignificantDigits: Infinity,
+      eNotationChars: ['e', 'E'],
+      scientificNotationOption: CVNumberBase10FormatScientificNotationOption.Type.None,
+      roundingOption: CVRoundingOption.Type.HalfExpand,
+      signDisplayOption: CVNumberBase10FormatSignDisplayOption.Type.Auto,
+      minusSign,
+    });
+  });
+
+/**
+ * Same as `fromLocale` but returns directly a `CVNumberBase10Format` or throws in case of an error
+ *
+ * @category Constructors
+ */
+export const fromLocaleOrThrow = (locale: string): Type =>
+  pipe(
+    fromLocale(locale),
+    Option.getOrThrowWith(
+      () => new Error(`A CVNumberBase10Format could not be built for locale '${locale}'`),
+    ),
+  );
+
 /**
  * Returns the `thousandSeparator` property of `self`
  *
@@ -188,6 +383,29 @@ export const make = (params: MTypes.Data<Type>): Type => Type.make(params);
 export const thousandSeparator: MTypes.OneArgFunction<Type, string> =
   Struct.get('thousandSeparator');
 
+/**
+ * Returns the `primaryGroupSize` property of `self`
+ *
+ * @category Getters
+ */
+export const primaryGroupSize: MTypes.OneArgFunction<Type, number> = Struct.get('primaryGroupSize');
+
+/**
+ * Returns the `secondaryGroupSize` property of `self`
+ *
+ * @category Getters
+ */
+export const secondaryGroupSize: MTypes.OneArgFunction<Type, number> =
+  Struct.get('secondaryGroupSize');
+
+/**
+ * Returns the `minimumGroupingDigits` property of `self`
+ *
+ * @category Getters
+ */
+export const minimumGroupingDigits: MTypes.OneArgFunction<Type, number> =
+  Struct.get('minimumGroupingDigits');
+
 /**
  * Returns the `fractionalSeparator` property of `self`
  *
@@ -228,6 +446,24 @@ export const minimumFractionalDigits: MTypes.OneArgFunction<Type, number> =
 export const maximumFractionalDigits: MTypes.OneArgFunction<Type, number> =
   Struct.get('maximumFractionalDigits');
 
+/**
+ * Returns the `minimumSignificantDigits` property of `self`
+ *
+ * @category Getters
+ */
+export const minimumSignificantDigits: MTypes.OneArgFunction<Type, number> = Struct.get(
+  'minimumSignificantDigits',
+);
+
+/**
+ * Returns the `maximumSignificantDigits` property of `self`
+ *
+ * @category Getters
+ */
+export const maximumSignificantDigits: MTypes.OneArgFunction<Type, number> = Struct.get(
+  'maximumSignificantDigits',
+);
+
 /**
  * Returns the `eNotationChars` property of `self`
  *
@@ -265,6 +501,22 @@ export const signDisplayOption: MTypes.OneArgFunction<
   CVNumberBase10FormatSignDisplayOption.Type
 > = Struct.get('signDisplayOption');
 
+/**
+ * Returns the `minusSign` property of `self`
+ *
+ * @category Getters
+ */
+export const minusSign: MTypes.OneArgFunction<Type, string> = Struct.get('minusSign');
+
+/**
+ * Returns `true` if `self` uses significant digits rather than fractional digits, i.e. if
+ * `minimumSignificantDigits` is strictly positive or `maximumSignificantDigits` is finite
+ *
+ * @category Predicates
+ */
+export const usesSignificantDigits = (self: Type): boolean =>
+  self.minimumSignificantDigits > 0 || self.maximumSignificantDigits !== Infinity;
+
 /**
  * Returns a `some` of the length of `self` if `self` represents a fixed-length number format.
  * Return a `none` otherwise
@@ -273,6 +525,7 @@ export const signDisplayOption: MTypes.OneArgFunction<
  */
 export const getFixedLength = (self: Type): Option.Option<number> =>
   Option.gen(function* () {
+    yield* pipe(self, Option.liftPredicate(Predicate.not(usesSignificantDigits)));
     const { length: integerPartLength } = yield* self.integerPartPadding;
     const signLength = yield* pipe(
       self.signDisplayOption,
@@ -311,14 +564,18 @@ export const toDescription = (self: Type): string => {
   const {
     integerPartPadding,
     thousandSeparator,
+    secondaryGroupSize,
     fractionalSeparator,
     minimumFractionalDigits,
     maximumFractionalDigits,
+    minimumSignificantDigits,
+    maximumSignificantDigits,
     scientificNotationOption,
     signDisplayOption,
   } = self;
 
-  const isInteger = maximumFractionalDigits <= 0;
+  const hasSignificantDigits = usesSignificantDigits(self);
+  const isInteger = !hasSignificantDigits && maximumFractionalDigits <= 0;
   const isUngrouped = thousandSeparator.length === 0;
   return (
     Option.match(integerPartPadding, {
@@ -344,14 +601,29 @@ export const toDescription = (self: Type): string => {
         ? 'French-style '
         : thousandSeparator === '.' && (fractionalSeparator === ',' || isInteger)
           ? 'Dutch-style '
-          : (isUngrouped || thousandSeparator === ',') && (fractionalSeparator === '.' || isInteger)
-            ? 'UK-style '
-            : '') +
-    (isInteger
-      ? 'integer'
-      : minimumFractionalDigits === maximumFractionalDigits
-        ? `${MString.fromNumber(10)(minimumFractionalDigits)}-decimal number`
-        : 'number') +
+          : thousandSeparator === ',' &&
+              secondaryGroupSize === 2 &&
+              (fractionalSeparator === '.' || isInteger)
+            ? 'Indian-style '
+            : (isUngrouped || thousandSeparator === ',') &&
+                (fractionalSeparator === '.' || isInteger)
+              ? 'UK-style '
+              : '') +
+    (hasSignificantDigits
+      ? 'number with ' +
+        (minimumSignificantDigits === maximumSignificantDigits
+          ? MString.fromNumber(10)(minimumSignificantDigits)
+          : maximumSignificantDigits === Infinity
+            ? `at least ${MString.fromNumber(10)(minimumSignificantDigits)}`
+            : minimumSignificantDigits === 0
+              ? `at most ${MString.fromNumber(10)(maximumSignificantDigits)}`
+              : `${MString.fromNumber(10)(minimumSignificantDigits)} to ${MString.fromNumber(10)(maximumSignificantDigits)}`) +
+        ' significant digits'
+      : isInteger
+        ? 'integer'
+        : minimumFractionalDigits === maximumFractionalDigits
+          ? `${MString.fromNumber(10)(minimumFractionalDigits)}-decimal number`
+          : 'number') +
     pipe(
       scientificNotationOption,
       MMatch.make,
@@ -427,6 +699,79 @@ export const withMinNDecimals =
       make,
     );
 
+/**
+ * Returns a copy of `self` with `minimumSignificantDigits` and `maximumSignificantDigits` set to
+ * `n`. `n` must be a finite strictly positive integer
+ *
+ * @category Modifiers
+ */
+export const withNSignificantDigits = (
+  significantDigitNumber: number,
+): MTypes.OneArgFunction<Type> =>
+  flow(
+    MStruct.append({
+      minimumSignificantDigits: significantDigitNumber,
+      maximumSignificantDigits: significantDigitNumber,
+    }),
+    make,
+  );
+
+/**
+ * Returns a copy of `self` with `maximumSignificantDigits` set to `n`. `n` must be a strictly
+ * positive integer (`+Infinity` allowed)
+ *
+ * @category Modifiers
+ */
+export const withMaxNSignificantDigits =
+  (maxSignificantDigitNumber: number) =>
+  (self: Type): Type =>
+    pipe(
+      self,
+      MStruct.append({
+        minimumSignificantDigits: Math.min(
+          self.minimumSignificantDigits,
+          maxSignificantDigitNumber,
+        ),
+        maximumSignificantDigits: maxSignificantDigitNumber,
+      }),
+      make,
+    );
+
+/**
+ * Returns a copy of `self` with `minimumSignificantDigits` set to `n`. `n` must be a finite
+ * positive integer
+ *
+ * @category Modifiers
+ */
+export const withMinNSignificantDigits =
+  (minSignificantDigitNumber: number) =>
+  (self: Type): Type =>
+    pipe(
+      self,
+      MStruct.append({
+        minimumSignificantDigits: minSignificantDigitNumber,
+        maximumSignificantDigits: Math.max(
+          self.maximumSignificantDigits,
+          minSignificantDigitNumber,
+        ),
+      }),
+      make,
+    );
+
+/**
+ * Returns a copy of `self` with `minimumSignificantDigits` set to 0 and `maximumSignificantDigits`
+ * set to `+Infinity`, so that fractional digits are used instead of significant digits
+ *
+ * @category Modifiers
+ */
+export const withoutSignificantDigits: MTypes.OneArgFunction<Type> = flow(
+  MStruct.append({
+    minimumSignificantDigits: 0,
+    maximumSignificantDigits: Infinity,
+  }),
+  make,
+);
+
 /**
  * Returns a copy of `self` with `scientificNotationOption` set to `None`
  *
@@ -495,6 +840,52 @@ export const withThousandSeparator = (thousandSeparator: string): MTypes.OneArgF
  */
 export const withoutThousandSeparator: MTypes.OneArgFunction<Type> = withThousandSeparator('');
 
+/**
+ * Returns a copy of `self` with `primaryGroupSize` set to `primaryGroupSize` and
+ * `secondaryGroupSize` set to `secondaryGroupSize`
+ *
+ * @category Modifiers
+ */
+export const withGroupSizes = (
+  primaryGroupSize: number,
+  secondaryGroupSize: number,
+): MTypes.OneArgFunction<Type> =>
+  flow(
+    MStruct.append({
+      primaryGroupSize,
+      secondaryGroupSize,
+    }),
+    make,
+  );
+
+/**
+ * Returns a copy of `self` with `minimumGroupingDigits` set to `minimumGroupingDigits`
+ *
+ * @category Modifiers
+ */
+export const withMinimumGroupingDigits = (
+  minimumGroupingDigits: number,
+): MTypes.OneArgFunction<Type> =>
+  flow(
+    MStruct.append({
+      minimumGroupingDigits,
+    }),
+    make,
+  );
+
+/**
+ * Returns a copy of `self` with `minusSign` set to `minusSign`
+ *
+ * @category Modifiers
+ */
+export const withMinusSign = (minusSign: string): MTypes.OneArgFunction<Type> =>
+  flow(
+    MStruct.append({
+      minusSign,
+    }),
+    make,
+  );
+
 /**
  * Returns a copy of `self` with `fractionalSeparator` set to `fractionalSeparator`
  *
@@ -735,14 +1126,20 @@ export const spacePadded: MTypes.OneArgFunction<number, MTypes.OneArgFunction<Ty
  */
 export const frenchStyleNumber: Type = make({
   thousandSeparator: ' ',
+  primaryGroupSize: 3,
+  secondaryGroupSize: 3,
+  minimumGroupingDigits: 1,
   fractionalSeparator: ',',
   showNullIntegerPart: true,
   minimumFractionalDigits: 0,
   maximumFractionalDigits: 3,
+  minimumSignificantDigits: 0,
+  maximumSignificantDigits: Infinity,
   eNotationChars: ['e', 'E'],
   scientificNotationOption: CVNumberBase10FormatScientificNotationOption.Type.None,
   roundingOption: CVRoundingOption.Type.HalfExpand,
   signDisplayOption: CVNumberBase10FormatSignDisplayOption.Type.Negative,
+  minusSign: '-',
   integerPartPadding: Option.none(),
 });
 
@@ -828,6 +1225,23 @@ export const ukStyleUngroupedNumber: Type = pipe(ukStyleNumber, withoutThousandS
  */
 export const ukStyleInteger: Type = pipe(ukStyleNumber, withMaxNDecimals(0));
 
+/**
+ * `CVNumberBase10Format` instance that uses a dot as fractional separator, a comma as thousand
+ * separator with the Indian grouping of digits (e.g. 12,34,567) and shows at most three fractional
+ * digits. Used in India, Pakistan, Bangladesh, Nepal...
+ *
+ * @category Instances
+ */
+export const indianStyleNumber: Type = pipe(ukStyleNumber, withGroupSizes(3, 2));
+
+/**
+ * Indian-style integer `CVNumberBase10Format` instance. Used in India, Pakistan, Bangladesh,
+ * Nepal...
+ *
+ * @category Instances
+ */
+export const indianStyleInteger: Type = pipe(indianStyleNumber, withMaxNDecimals(0));
+
 /**
  * Integer `CVNumberBase10Format` instance with no thousand separator
  *
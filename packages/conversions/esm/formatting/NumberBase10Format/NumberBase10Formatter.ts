@@ -18,7 +18,6 @@ import * as MBigDecimal from '@parischap/effect-lib/MBigDecimal';
 import * as MData from '@parischap/effect-lib/MData';
 import * as MFunction from '@parischap/effect-lib/MFunction';
 import * as MPredicate from '@parischap/effect-lib/MPredicate';
-import * as MRegExpString from '@parischap/effect-lib/MRegExpString';
 import * as MString from '@parischap/effect-lib/MString';
 import type * as MTypes from '@parischap/effect-lib/MTypes';
 
@@ -26,6 +25,7 @@ import * as CVScientificNotationMantissaAdjuster from '../../internal/formatting
 import * as CVSignFormatter from '../../internal/formatting/NumberBase10Format/NumberBase10FormatSignDisplayOption/SignFormatter.js';
 import * as CVRounder from '../../rounding/Rounder.js';
 import * as CVRounderParams from '../../rounding/RounderParams.js';
+import * as CVRounderParamsPrecisionOption from '../../rounding/RounderParamsPrecisionOption/RounderParamsPrecisionOption.js';
 import * as CVNumberBase10Format from './NumberBase10Format.js';
 
 /**
@@ -73,8 +73,21 @@ export class Type extends MData.Class {
   constructor(numberFormat: CVNumberBase10Format.Type) {
     super();
     this.description = `${CVNumberBase10Format.toDescription(numberFormat)} formatter`;
-    const rounder =
-      numberFormat.maximumFractionalDigits === Infinity
+    const usesSignificantDigits = CVNumberBase10Format.usesSignificantDigits(numberFormat);
+    const { minimumSignificantDigits, maximumSignificantDigits } = numberFormat;
+    const rounder = usesSignificantDigits
+      ? maximumSignificantDigits === Infinity
+        ? Function.identity
+        : pipe(
+            {
+              precision: maximumSignificantDigits,
+              roundingOption: numberFormat.roundingOption,
+              precisionOption: CVRounderParamsPrecisionOption.Type.SignificantDigits,
+            },
+            CVRounderParams.make,
+            CVRounder.bigDecimal,
+          )
+      : numberFormat.maximumFractionalDigits === Infinity
         ? Function.identity
         : pipe(
             {
@@ -101,10 +114,52 @@ export class Type extends MData.Class {
         onSome: ({ length, fillChar }) => String.padStart(length, fillChar),
       },
     );
-    const fractionalPartPadder = String.padEnd(numberFormat.minimumFractionalDigits, '0');
+    /*
+     * Pads the fractional digits with 0's. With significant digits, the digits of a non-null
+     * integer part are all significant. Otherwise, the leading 0's of the fractional part are not
+     * significant. A null number has as many significant digits as its fractional part plus one
+     */
+    const fractionalPartPadder: (
+      fractionalDigits: string,
+      isIntegerPartNull: boolean,
+      integerPartLength: number,
+    ) => string = usesSignificantDigits
+      ? (fractionalDigits, isIntegerPartNull, integerPartLength) => {
+          const significantDigitNumber = isIntegerPartNull
+            ? pipe(fractionalDigits, MString.trimStart('0'), String.length, (length) =>
+                length === 0 ? fractionalDigits.length + 1 : length,
+              )
+            : integerPartLength + fractionalDigits.length;
+          return pipe(
+            fractionalDigits,
+            String.padEnd(
+              fractionalDigits.length +
+                Math.max(0, minimumSignificantDigits - significantDigitNumber),
+              '0',
+            ),
+          );
+        }
+      : String.padEnd(numberFormat.minimumFractionalDigits, '0');
     const fractionalSeparatorPrepender = MString.prepend(numberFormat.fractionalSeparator);
     const thousandSeparatorIntersperser = Array.intersperse(numberFormat.thousandSeparator);
-    const { showNullIntegerPart } = numberFormat;
+    const { showNullIntegerPart, primaryGroupSize, secondaryGroupSize, minimumGroupingDigits } =
+      numberFormat;
+    // The rightmost group has `primaryGroupSize` digits, the other ones `secondaryGroupSize` digits
+    const integerPartGrouper: MTypes.StringTransformer = (digits) =>
+      digits.length < primaryGroupSize + minimumGroupingDigits
+        ? digits
+        : pipe(
+            digits,
+            MString.splitAtFromRight(primaryGroupSize),
+            ([left, right]) => [
+              ...MString.splitEquallyRestAtStart(secondaryGroupSize)(left),
+              right,
+            ],
+            thousandSeparatorIntersperser,
+            Array.join(''),
+          );
+    const signStringMapper: MTypes.StringTransformer = (signString) =>
+      signString === '-' ? numberFormat.minusSign : signString;
     this.format = (number) =>
       Option.gen(function* () {
         const [sign, thisAsBigDecimal] = Predicate.isNumber(number)
@@ -127,7 +182,11 @@ export class Type extends MData.Class {
           MBigDecimal.truncatedAndFollowingParts(),
         );
 
-        const signString = signFormatter({ sign, isZero: BigDecimal.isZero(absRounded) });
+        const integerDigits = integerPart.value.toString();
+
+        const signString = signStringMapper(
+          signFormatter({ sign, isZero: BigDecimal.isZero(absRounded) }),
+        );
 
         const normalizedFractionalPart = BigDecimal.normalize(fractionalPart);
 
@@ -137,21 +196,18 @@ export class Type extends MData.Class {
           Option.map(MString.fromNonNullablePrimitive),
           Option.getOrElse(MFunction.constEmptyString),
           String.padStart(normalizedFractionalPart.scale, '0'),
-          fractionalPartPadder,
+          (fractionalDigits) =>
+            fractionalPartPadder(fractionalDigits, integerPart.value === 0n, integerDigits.length),
           Option.liftPredicate(String.isNonEmpty),
           Option.map(fractionalSeparatorPrepender),
           Option.getOrElse(MFunction.constEmptyString),
         );
 
         const integerPartString = pipe(
-          integerPart.value.toString(),
+          integerDigits,
           MFunction.fIfTrue({
             condition: hasThousandSeparator,
-            f: flow(
-              MString.splitEquallyRestAtStart(MRegExpString.DIGIT_GROUP_SIZE),
-              thousandSeparatorIntersperser,
-              Array.join(''),
-            ),
+            f: integerPartGrouper,
           }),
           Result.liftPredicate(
             Predicate.not(MPredicate.strictEquals('0')),
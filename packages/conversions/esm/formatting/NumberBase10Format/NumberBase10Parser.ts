@@ -229,10 +229,9 @@ export class Type extends MData.Class {
       ),
       ['signPart', 'padding', 'mantissaIntegerPart', 'mantissaFractionalPart', 'exponentPart'],
     );
-    const removeThousandSeparator = MString.removeNCharsEveryMCharsFromRight({
-      m: MRegExpString.DIGIT_GROUP_SIZE,
-      n: numberFormat.thousandSeparator.length,
-    });
+    const { thousandSeparator, minusSign } = numberFormat;
+    const removeThousandSeparator: MTypes.StringTransformer =
+      thousandSeparator === '' ? Function.identity : String.replaceAll(thousandSeparator, '');
     const signParser = CVSignParser.fromSignDisplayOption(numberFormat.signDisplayOption);
     const exponentParser = CVScientificNotationParser.fromScientificNotationOption(
       numberFormat.scientificNotationOption,
@@ -241,12 +240,50 @@ export class Type extends MData.Class {
       CVScientificNotationMantissaValidator.fromScientificNotationOption(
         numberFormat.scientificNotationOption,
       );
-    const mantissaFractionalPartLengthValidator = Option.liftPredicate(
-      Number.between({
-        minimum: numberFormat.minimumFractionalDigits,
-        maximum: numberFormat.maximumFractionalDigits,
-      }),
-    );
+    const usesSignificantDigits = CVNumberBase10Format.usesSignificantDigits(numberFormat);
+    const mantissaFractionalPartLengthValidator: MTypes.OneArgFunction<
+      number,
+      Option.Option<number>
+    > = usesSignificantDigits
+      ? Option.some
+      : Option.liftPredicate(
+          Number.between({
+            minimum: numberFormat.minimumFractionalDigits,
+            maximum: numberFormat.maximumFractionalDigits,
+          }),
+        );
+    const { minimumSignificantDigits, maximumSignificantDigits } = numberFormat;
+    /*
+     * Checks the number of significant digits of the mantissa. The trailing 0's of a mantissa
+     * without a fractional part may or may not be significant. So the number of significant digits
+     * is a range. A null mantissa has as many significant digits as its fractional part plus one
+     */
+    const mantissaSignificantDigitsValidator: MTypes.OneArgFunction<
+      MTypes.Pair<string, string>,
+      Option.Option<MTypes.Pair<string, string>>
+    > = usesSignificantDigits
+      ? Option.liftPredicate(([integerDigits, fractionalDigits]) => {
+          const significantIntegerDigits = pipe(integerDigits, MString.trimStart('0'));
+          const significantFractionalDigits = pipe(fractionalDigits, MString.trimStart('0'));
+          const [lowest, highest] =
+            significantIntegerDigits.length === 0
+              ? pipe(
+                  significantFractionalDigits.length > 0
+                    ? significantFractionalDigits.length
+                    : fractionalDigits.length + 1,
+                  (length) => Tuple.make(length, length),
+                )
+              : fractionalDigits.length > 0
+                ? pipe(significantIntegerDigits.length + fractionalDigits.length, (length) =>
+                    Tuple.make(length, length),
+                  )
+                : Tuple.make(
+                    pipe(significantIntegerDigits, MString.trimEnd('0')).length,
+                    significantIntegerDigits.length,
+                  );
+          return lowest <= maximumSignificantDigits && highest >= minimumSignificantDigits;
+        })
+      : Option.some;
     const mantissaIntegerPartAndPaddingLengthValidator: MTypes.OneArgFunction<
       [mantissaIntegerPartLength: number, paddingLength: number],
       Option.Option<[mantissaIntegerPartLength: number, paddingLength: number]>
@@ -280,6 +317,10 @@ export class Type extends MData.Class {
           mantissaFractionalPart.length,
         );
 
+        yield* mantissaSignificantDigitsValidator(
+          Tuple.make(removeThousandSeparator(mantissaIntegerPart), mantissaFractionalPart),
+        );
+
         const [validatedMantissaIntegerPartLength, validatedPaddingLength] =
           yield* mantissaIntegerPartAndPaddingLengthValidator(
             Tuple.make(mantissaIntegerPart.length, padding.length),
@@ -324,7 +365,7 @@ export class Type extends MData.Class {
         const validatedMantissa = yield* scientificNotationMantissaValidator(mantissa);
         const sign = yield* signParser({
           isZero: BigDecimal.isZero(validatedMantissa),
-          sign: signPart as CVSignString.Type,
+          sign: (signPart === minusSign ? '-' : signPart) as CVSignString.Type,
         });
         const exponent = yield* exponentParser(exponentPart);
 
@@ -0,0 +1,249 @@
+/**
+ * This module implements a `CVNumberCompactFormat` which describes the possible options to
+ * format/parse a number in compact notation, e.g. '1.2K', '3.4M', '5 Md' or '1.5 GiB'. A
+ * `CVNumberCompactFormat` wraps a `CVNumberBase10Format` that is used to format/parse the mantissa,
+ * i.e. the number written before the suffix. When formatting, the mantissa is rounded to a given
+ * number of significant digits. So the number of fractional digits of that `CVNumberBase10Format`
+ * is not used
+ */
+
+import { flow, pipe } from 'effect';
+import * as Array from 'effect/Array';
+import * as Struct from 'effect/Struct';
+
+import * as MData from '@parischap/effect-lib/MData';
+import * as MStruct from '@parischap/effect-lib/MStruct';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+import * as CVNumberBase10Format from '../NumberBase10Format/NumberBase10Format.js';
+import * as CVNumberCompactSuffixTable from './NumberCompactSuffixTable.js';
+
+/**
+ * Module tag
+ *
+ * @category Module markers
+ */
+export const moduleTag = '@parischap/conversions/formatting/NumberCompactFormat/';
+const TypeId: unique symbol = Symbol.for(moduleTag) as TypeId;
+type TypeId = typeof TypeId;
+
+/**
+ * Type that represents a `CVNumberCompactFormat`
+ *
+ * @category Models
+ */
+export class Type extends MData.Class {
+  /**
+   * Format of the mantissa. Its `minimumFractionalDigits` and `maximumFractionalDigits` properties
+   * are not used. Its scientific notation option should be `None`. Will not throw otherwise but
+   * unexpected results might occur
+   */
+  readonly numberBase10Format: CVNumberBase10Format.Type;
+
+  /** Table of the suffixes that may be used. See CVNumberCompactSuffixTable.ts */
+  readonly suffixTable: CVNumberCompactSuffixTable.Type;
+
+  /**
+   * String written between the mantissa and the suffix, e.g. '' in '1.2K' or ' ' in '5 Md'.
+   *
+   * Parsing: conversion will fail if that exact string is not present between the mantissa and the
+   * suffix.
+   */
+  readonly suffixSeparator: string;
+
+  /**
+   * Formatting: maximal number of significant digits of the mantissa. The mantissa is rounded with
+   * the rounding option of `numberBase10Format` and trailing zeros of its fractional part are
+   * removed, e.g. 1234 is written '1.2K' and 1000 is written '1K' with 2 significant digits. Digits
+   * of the integer part of the mantissa are never rounded, e.g. 123_456 is written '123K' with 2
+   * significant digits. Must be a strictly positive integer.
+   *
+   * Parsing: not used. The mantissa may have any number of digits
+   */
+  readonly significantDigits: number;
+
+  /** Class constructor */
+  private constructor({
+    numberBase10Format,
+    suffixTable,
+    suffixSeparator,
+    significantDigits,
+  }: MTypes.Data<Type>) {
+    super();
+    this.numberBase10Format = numberBase10Format;
+    this.suffixTable = suffixTable;
+    this.suffixSeparator = suffixSeparator;
+    this.significantDigits = significantDigits;
+  }
+
+  /** Static constructor */
+  static make(params: MTypes.Data<Type>): Type {
+    return new Type(params);
+  }
+
+  /** Returns the `id` of `this` */
+  [MData.idSymbol](): string | (() => string) {
+    return moduleTag;
+  }
+
+  /** Returns the TypeMarker of the class */
+  protected get [TypeId](): TypeId {
+    return TypeId;
+  }
+}
+
+/**
+ * Constructor
+ *
+ * @category Constructors
+ */
+export const make = (params: MTypes.Data<Type>): Type => Type.make(params);
+
+/**
+ * Returns the `numberBase10Format` property of `self`
+ *
+ * @category Getters
+ */
+export const numberBase10Format: MTypes.OneArgFunction<Type, CVNumberBase10Format.Type> =
+  Struct.get('numberBase10Format');
+
+/**
+ * Returns the `suffixTable` property of `self`
+ *
+ * @category Getters
+ */
+export const suffixTable: MTypes.OneArgFunction<Type, CVNumberCompactSuffixTable.Type> =
+  Struct.get('suffixTable');
+
+/**
+ * Returns the `suffixSeparator` property of `self`
+ *
+ * @category Getters
+ */
+export const suffixSeparator: MTypes.OneArgFunction<Type, string> = Struct.get('suffixSeparator');
+
+/**
+ * Returns the `significantDigits` property of `self`
+ *
+ * @category Getters
+ */
+export const significantDigits: MTypes.OneArgFunction<Type, number> =
+  Struct.get('significantDigits');
+
+/**
+ * Returns a short description of `self`, e.g. 'potentially signed UK-style number in compact
+ * notation with short English suffixes K, M, B, T'
+ *
+ * @category Destructors
+ */
+export const toDescription = (self: Type): string =>
+  `${CVNumberBase10Format.toDescription(self.numberBase10Format)} in compact notation with ${self.suffixTable.name} suffixes ` +
+  pipe(self.suffixTable.entries, Array.map(Struct.get('suffix')), Array.reverse, Array.join(', '));
+
+/**
+ * Returns a copy of `self` with `numberBase10Format` set to `numberBase10Format`
+ *
+ * @category Modifiers
+ */
+export const withNumberBase10Format = (
+  numberBase10Format: CVNumberBase10Format.Type,
+): MTypes.OneArgFunction<Type> =>
+  flow(
+    MStruct.append({
+      numberBase10Format,
+    }),
+    make,
+  );
+
+/**
+ * Returns a copy of `self` with `suffixTable` set to `suffixTable`
+ *
+ * @category Modifiers
+ */
+export const withSuffixTable = (
+  suffixTable: CVNumberCompactSuffixTable.Type,
+): MTypes.OneArgFunction<Type> =>
+  flow(
+    MStruct.append({
+      suffixTable,
+    }),
+    make,
+  );
+
+/**
+ * Returns a copy of `self` with `suffixSeparator` set to `suffixSeparator`
+ *
+ * @category Modifiers
+ */
+export const withSuffixSeparator = (suffixSeparator: string): MTypes.OneArgFunction<Type> =>
+  flow(
+    MStruct.append({
+      suffixSeparator,
+    }),
+    make,
+  );
+
+/**
+ * Returns a copy of `self` with `significantDigits` set to `significantDigits`
+ *
+ * @category Modifiers
+ */
+export const withSignificantDigits = (significantDigits: number): MTypes.OneArgFunction<Type> =>
+  flow(
+    MStruct.append({
+      significantDigits,
+    }),
+    make,
+  );
+
+/**
+ * `CVNumberCompactFormat` instance that uses a UK-style number and short English suffixes with no
+ * separator and 2 significant digits, e.g. '1.2K', '-3.4M', '12B' or '999'
+ *
+ * @category Instances
+ */
+export const shortEnglishCompactNumber: Type = make({
+  numberBase10Format: CVNumberBase10Format.ukStyleNumber,
+  suffixTable: CVNumberCompactSuffixTable.shortEnglish,
+  suffixSeparator: '',
+  significantDigits: 2,
+});
+
+/**
+ * `CVNumberCompactFormat` instance that uses a French-style number and French suffixes separated by
+ * a space with 2 significant digits, e.g. '1,2 k', '-3,4 M' or '5 Md'
+ *
+ * @category Instances
+ */
+export const frenchCompactNumber: Type = make({
+  numberBase10Format: CVNumberBase10Format.frenchStyleNumber,
+  suffixTable: CVNumberCompactSuffixTable.french,
+  suffixSeparator: ' ',
+  significantDigits: 2,
+});
+
+/**
+ * `CVNumberCompactFormat` instance that uses a UK-style number and SI prefixes with no separator
+ * and 3 significant digits, e.g. '1.23k', '45.6M' or '789G'
+ *
+ * @category Instances
+ */
+export const siCompactNumber: Type = make({
+  numberBase10Format: CVNumberBase10Format.ukStyleNumber,
+  suffixTable: CVNumberCompactSuffixTable.si,
+  suffixSeparator: '',
+  significantDigits: 3,
+});
+
+/**
+ * `CVNumberCompactFormat` instance that writes byte counts with a UK-style number and binary
+ * suffixes separated by a space with 3 significant digits, e.g. '512 B', '1.5 KiB' or '2 GiB'
+ *
+ * @category Instances
+ */
+export const binaryCompactNumber: Type = make({
+  numberBase10Format: CVNumberBase10Format.ukStyleNumber,
+  suffixTable: CVNumberCompactSuffixTable.binary,
+  suffixSeparator: ' ',
+  significantDigits: 3,
+});
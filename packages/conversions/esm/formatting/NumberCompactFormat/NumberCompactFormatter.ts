@@ -0,0 +1,186 @@
+/**
+ * This module implements a CVNumberCompactFormatter, i.e. an object that can convert a number into
+ * a string in compact notation according to the CVNumberCompactFormat that was used to construct
+ * it
+ */
+
+import { pipe } from 'effect';
+import * as Array from 'effect/Array';
+import * as BigDecimal from 'effect/BigDecimal';
+import * as BigInt from 'effect/BigInt';
+import * as Option from 'effect/Option';
+import * as Predicate from 'effect/Predicate';
+import * as Struct from 'effect/Struct';
+
+import * as MBigInt from '@parischap/effect-lib/MBigInt';
+import * as MData from '@parischap/effect-lib/MData';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+import type * as CVNumberCompactSuffixTable from './NumberCompactSuffixTable.js';
+
+import * as CVRounder from '../../rounding/Rounder.js';
+import * as CVRounderParams from '../../rounding/RounderParams.js';
+import * as CVNumberBase10Format from '../NumberBase10Format/NumberBase10Format.js';
+import * as CVNumberBase10Formatter from '../NumberBase10Format/NumberBase10Formatter.js';
+import * as CVNumberCompactFormat from './NumberCompactFormat.js';
+
+/**
+ * Module tag
+ *
+ * @category Module markers
+ */
+export const moduleTag =
+  '@parischap/conversions/formatting/NumberCompactFormat/NumberCompactFormatter/';
+const TypeId: unique symbol = Symbol.for(moduleTag) as TypeId;
+type TypeId = typeof TypeId;
+
+/**
+ * Type that represents a CVNumberCompactFormatter
+ *
+ * @category Models
+ */
+export class Type extends MData.Class {
+  /** Description of this formatter */
+  readonly description: string;
+
+  /**
+   * Function that formats a `number` in compact notation respecting the options represented by the
+   * CVNumberCompactFormat from which `this` was constructed. The suffix with the largest multiplier
+   * that does not exceed the absolute value of `number` is used. If successful, that function
+   * returns a `some` of the formatted number. Otherwise, it returns a `none` (it will return a
+   * `none` only if `number` is not a finite number, i.e. `NaN` or `Infinity`). `number` can be of
+   * type number or `BigDecimal` for better accuracy.
+   */
+  readonly format: MTypes.OneArgFunction<BigDecimal.BigDecimal | number, Option.Option<string>>;
+
+  /** Same as `format` but throws instead of returning a `none` in case of failure */
+  readonly formatOrThrow: MTypes.OneArgFunction<BigDecimal.BigDecimal | number, string>;
+
+  /** Returns the `id` of `this` */
+  [MData.idSymbol](): string | (() => string) {
+    return function idSymbol(this: Type) {
+      return this.description;
+    };
+  }
+
+  /** Class constructor */
+  constructor(compactFormat: CVNumberCompactFormat.Type) {
+    super();
+    this.description = `${CVNumberCompactFormat.toDescription(compactFormat)} formatter`;
+    const { numberBase10Format, suffixTable, suffixSeparator, significantDigits } = compactFormat;
+    const { roundingOption } = numberBase10Format;
+
+    const mantissaFormatter = pipe(
+      numberBase10Format,
+      CVNumberBase10Format.withMinNDecimals(0),
+      CVNumberBase10Format.withMaxNDecimals(Infinity),
+      CVNumberBase10Formatter.fromFormat,
+      CVNumberBase10Formatter.format,
+    );
+
+    // Entry used for the numbers that are too small for any other entry
+    const fallbackEntry: CVNumberCompactSuffixTable.Entry = pipe(
+      suffixTable.entries,
+      Array.last,
+      Option.filter(({ multiplier }) => multiplier === 1n),
+      Option.getOrElse(() => ({ suffix: '', multiplier: 1n })),
+    );
+
+    const entryFinder = (absValue: BigDecimal.BigDecimal): CVNumberCompactSuffixTable.Entry =>
+      pipe(
+        suffixTable.entries,
+        Array.findFirst(({ multiplier }) =>
+          BigDecimal.isGreaterThanOrEqualTo(absValue, BigDecimal.fromBigInt(multiplier)),
+        ),
+        Option.getOrElse(() => fallbackEntry),
+      );
+
+    // Rounds `value / multiplier` to `significantDigits` significant digits
+    const mantissaRounder =
+      (value: BigDecimal.BigDecimal) =>
+      ({ multiplier }: CVNumberCompactSuffixTable.Entry): BigDecimal.BigDecimal => {
+        const mantissa = pipe(value, BigDecimal.divideUnsafe(BigDecimal.fromBigInt(multiplier)));
+        const precision = BigDecimal.isZero(mantissa)
+          ? 0
+          : Math.max(
+              0,
+              significantDigits -
+                (MBigInt.unsafeLog10(BigInt.abs(mantissa.value)) - mantissa.scale + 1),
+            );
+        return pipe(
+          mantissa,
+          CVRounder.bigDecimal(CVRounderParams.make({ precision, roundingOption })),
+        );
+      };
+
+    this.format = (number) =>
+      Option.gen(function* () {
+        const value = Predicate.isNumber(number)
+          ? yield* pipe(
+              number,
+              Option.liftPredicate(Number.isFinite),
+              Option.map(BigDecimal.fromNumberUnsafe),
+            )
+          : number;
+
+        const firstEntry = entryFinder(BigDecimal.abs(value));
+        const firstMantissa = mantissaRounder(value)(firstEntry);
+        // Rounding may bring the number in the range of a larger entry, e.g. 999_950 -> 1M
+        const entry = entryFinder(
+          pipe(
+            firstMantissa,
+            BigDecimal.multiply(BigDecimal.fromBigInt(firstEntry.multiplier)),
+            BigDecimal.abs,
+          ),
+        );
+        const mantissa = entry === firstEntry ? firstMantissa : mantissaRounder(value)(entry);
+
+        const mantissaString = yield* mantissaFormatter(BigDecimal.normalize(mantissa));
+
+        return entry.suffix === ''
+          ? mantissaString
+          : `${mantissaString}${suffixSeparator}${entry.suffix}`;
+      });
+
+    this.formatOrThrow = (number) =>
+      pipe(
+        number,
+        this.format,
+        Option.getOrThrowWith(() => new Error('Only finite numbers can be formatted')),
+      );
+  }
+
+  /** Returns the TypeMarker of the class */
+  protected get [TypeId](): TypeId {
+    return TypeId;
+  }
+}
+
+/**
+ * Constructor of a CVNumberCompactFormatter from a CVNumberCompactFormat
+ *
+ * @category Constructors
+ */
+export const fromFormat = (format: CVNumberCompactFormat.Type) => new Type(format);
+
+/**
+ * Returns the `description` property of `self`
+ *
+ * @category Getters
+ */
+export const description: MTypes.OneArgFunction<Type, string> = Struct.get('description');
+
+/**
+ * Returns the `format` property of `self`.
+ *
+ * @category Getters
+ */
+export const format: MTypes.OneArgFunction<Type, Type['format']> = Struct.get('format');
+
+/**
+ * Returns the `formatOrThrow` property of `self`.
+ *
+ * @category Getters
+ */
+export const formatOrThrow: MTypes.OneArgFunction<Type, Type['formatOrThrow']> =
+  Struct.get('formatOrThrow');
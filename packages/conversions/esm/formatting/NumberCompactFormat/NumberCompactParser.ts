@@ -0,0 +1,300 @@
+/**
+ * This module implements a CVNumberCompactParser, i.e. an object that can convert a string in
+ * compact notation into a number according to the CVNumberCompactFormat that was used to construct
+ * it
+ */
+
+import { flow, pipe } from 'effect';
+import * as Array from 'effect/Array';
+import * as BigDecimal from 'effect/BigDecimal';
+import * as Number from 'effect/Number';
+import * as Option from 'effect/Option';
+import * as Order from 'effect/Order';
+import * as String from 'effect/String';
+import * as Struct from 'effect/Struct';
+import * as Tuple from 'effect/Tuple';
+
+import * as MData from '@parischap/effect-lib/MData';
+import * as MNumber from '@parischap/effect-lib/MNumber';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+import type * as CVNumberCompactSuffixTable from './NumberCompactSuffixTable.js';
+
+import * as CVNumberBase10Format from '../NumberBase10Format/NumberBase10Format.js';
+import * as CVNumberBase10Parser from '../NumberBase10Format/NumberBase10Parser.js';
+import * as CVNumberCompactFormat from './NumberCompactFormat.js';
+
+/**
+ * Module tag
+ *
+ * @category Module markers
+ */
+export const moduleTag =
+  '@parischap/conversions/formatting/NumberCompactFormat/NumberCompactParser/';
+const TypeId: unique symbol = Symbol.for(moduleTag) as TypeId;
+type TypeId = typeof TypeId;
+
+/**
+ * Type that represents a CVNumberCompactParser
+ *
+ * @category Models
+ */
+export class Type extends MData.Class {
+  /** Description of this parser */
+  readonly description: string;
+
+  /**
+   * Function that tries to extract, from the start of a string `text`, a number in compact notation
+   * respecting the options represented by the CVNumberCompactFormat from which `this` was
+   * constructed. If successful, returns a `some` containing the extracted `value` (the mantissa
+   * multiplied by the value the suffix stands for) and `parsedText` (the part of `text` that could
+   * be analyzed as representing a number). Otherwise, it returns a `none`. The mantissa may have
+   * any number of fractional digits. The suffix may be omitted unless the suffix table of the
+   * CVNumberCompactFormat has an entry with a multiplier of 1
+   */
+  readonly extractAsBigDecimal: MTypes.OneArgFunction<
+    string,
+    Option.Option<MTypes.Pair<BigDecimal.BigDecimal, string>>
+  >;
+
+  /** Same as `extractAsBigDecimal` but throws in case of failure */
+  readonly extractAsBigDecimalOrThrow: MTypes.OneArgFunction<
+    string,
+    MTypes.Pair<BigDecimal.BigDecimal, string>
+  >;
+
+  /**
+   * Same as `extractAsBigDecimal` but returns a number. Fails if the extracted value is not in the
+   * safe integer range
+   */
+  readonly extractAsNumber: MTypes.OneArgFunction<
+    string,
+    Option.Option<MTypes.Pair<number, string>>
+  >;
+
+  /** Same as `extractAsNumber` but throws in case of failure */
+  readonly extractAsNumberOrThrow: MTypes.OneArgFunction<string, MTypes.Pair<number, string>>;
+
+  /**
+   * Same as `extractAsBigDecimal` but the whole of the input text must represent a number, not just
+   * its start. `parsedText` does not need to be returned since it is equal to the input text
+   */
+  readonly parseAsBigDecimal: MTypes.OneArgFunction<string, Option.Option<BigDecimal.BigDecimal>>;
+
+  /** Same as `parseAsBigDecimal` but throws in case of failure */
+  readonly parseAsBigDecimalOrThrow: MTypes.OneArgFunction<string, BigDecimal.BigDecimal>;
+
+  /**
+   * Same as `extractAsNumber` but the whole of the input text must represent a number, not just its
+   * start
+   */
+  readonly parseAsNumber: MTypes.OneArgFunction<string, Option.Option<number>>;
+
+  /** Same as `parseAsNumber` but throws in case of failure */
+  readonly parseAsNumberOrThrow: MTypes.OneArgFunction<string, number>;
+
+  /** Returns the `id` of `this` */
+  [MData.idSymbol](): string | (() => string) {
+    return function idSymbol(this: Type) {
+      return this.description;
+    };
+  }
+
+  /** Class constructor */
+  constructor(compactFormat: CVNumberCompactFormat.Type) {
+    super();
+    this.description = `${CVNumberCompactFormat.toDescription(compactFormat)} parser`;
+    const { numberBase10Format, suffixTable, suffixSeparator } = compactFormat;
+
+    const mantissaExtractor = pipe(
+      numberBase10Format,
+      CVNumberBase10Format.withMinNDecimals(0),
+      CVNumberBase10Format.withMaxNDecimals(Infinity),
+      CVNumberBase10Parser.fromFormat,
+      CVNumberBase10Parser.extractAsBigDecimal,
+    );
+
+    const isSuffixMandatory = pipe(
+      suffixTable.entries,
+      Array.some(({ multiplier }) => multiplier === 1n),
+    );
+
+    // Longer suffixes are tried first so that, e.g., 'Md' is not read as 'M' followed by 'd'
+    const suffixStrings: ReadonlyArray<MTypes.Pair<string, bigint>> = pipe(
+      suffixTable.entries,
+      Array.sort(
+        pipe(
+          Number.Order,
+          Order.mapInput((entry: CVNumberCompactSuffixTable.Entry) => entry.suffix.length),
+          Order.flip,
+        ),
+      ),
+      Array.map(({ suffix, multiplier }) => Tuple.make(`${suffixSeparator}${suffix}`, multiplier)),
+    );
+
+    const suffixExtractor = (text: string): Option.Option<MTypes.Pair<string, bigint>> =>
+      pipe(
+        suffixStrings,
+        Array.findFirst(([suffixString]) => pipe(text, String.startsWith(suffixString))),
+        Option.orElse(() => (isSuffixMandatory ? Option.none() : Option.some(Tuple.make('', 1n)))),
+      );
+
+    this.extractAsBigDecimal = (text) =>
+      Option.gen(function* () {
+        const [mantissa, mantissaString] = yield* mantissaExtractor(text);
+        const [suffixString, multiplier] = yield* suffixExtractor(
+          text.slice(mantissaString.length),
+        );
+        return Tuple.make(
+          BigDecimal.multiply(mantissa, BigDecimal.fromBigInt(multiplier)),
+          text.slice(0, mantissaString.length + suffixString.length),
+        );
+      });
+
+    this.extractAsBigDecimalOrThrow = (text) =>
+      pipe(
+        text,
+        this.extractAsBigDecimal,
+        Option.getOrThrowWith(
+          () => new Error(`A BigDecimal could not be parsed from the start of '${text}'`),
+        ),
+      );
+
+    this.extractAsNumber = flow(
+      this.extractAsBigDecimal,
+      Option.flatMap(([value, match]) =>
+        pipe(
+          value,
+          MNumber.fromBigDecimalOption,
+          Option.map((valueAsNumber) => Tuple.make(valueAsNumber, match)),
+        ),
+      ),
+    );
+
+    this.extractAsNumberOrThrow = (text) =>
+      pipe(
+        text,
+        this.extractAsNumber,
+        Option.getOrThrowWith(
+          () => new Error(`A number could not be parsed from the start of '${text}'`),
+        ),
+      );
+
+    this.parseAsBigDecimal = (text) =>
+      pipe(
+        text,
+        this.extractAsBigDecimal,
+        Option.filter(([, match]) => match.length === text.length),
+        Option.map(Tuple.get(0)),
+      );
+
+    this.parseAsBigDecimalOrThrow = (text) =>
+      pipe(
+        text,
+        this.parseAsBigDecimal,
+        Option.getOrThrowWith(() => new Error(`A BigDecimal could not be parsed from '${text}'`)),
+      );
+
+    this.parseAsNumber = (text) =>
+      pipe(
+        text,
+        this.extractAsNumber,
+        Option.filter(([, match]) => match.length === text.length),
+        Option.map(Tuple.get(0)),
+      );
+
+    this.parseAsNumberOrThrow = (text) =>
+      pipe(
+        text,
+        this.parseAsNumber,
+        Option.getOrThrowWith(() => new Error(`A number could not be parsed from '${text}'`)),
+      );
+  }
+
+  /** Returns the TypeMarker of the class */
+  protected get [TypeId](): TypeId {
+    return TypeId;
+  }
+}
+
+/**
+ * Constructor of a CVNumberCompactParser from a CVNumberCompactFormat
+ *
+ * @category Constructors
+ */
+export const fromFormat = (format: CVNumberCompactFormat.Type) => new Type(format);
+
+/**
+ * Returns the `description` property of `self`
+ *
+ * @category Getters
+ */
+export const description: MTypes.OneArgFunction<Type, string> = Struct.get('description');
+
+/**
+ * Returns the `extractAsBigDecimal` property of `self`.
+ *
+ * @category Getters
+ */
+export const extractAsBigDecimal: MTypes.OneArgFunction<Type, Type['extractAsBigDecimal']> =
+  Struct.get('extractAsBigDecimal');
+
+/**
+ * Returns the `extractAsBigDecimalOrThrow` property of `self`.
+ *
+ * @category Getters
+ */
+export const extractAsBigDecimalOrThrow: MTypes.OneArgFunction<
+  Type,
+  Type['extractAsBigDecimalOrThrow']
+> = Struct.get('extractAsBigDecimalOrThrow');
+
+/**
+ * Returns the `extractAsNumber` property of `self`.
+ *
+ * @category Getters
+ */
+export const extractAsNumber: MTypes.OneArgFunction<Type, Type['extractAsNumber']> =
+  Struct.get('extractAsNumber');
+
+/**
+ * Returns the `extractAsNumberOrThrow` property of `self`.
+ *
+ * @category Getters
+ */
+export const extractAsNumberOrThrow: MTypes.OneArgFunction<Type, Type['extractAsNumberOrThrow']> =
+  Struct.get('extractAsNumberOrThrow');
+
+/**
+ * Returns the `parseAsBigDecimal` property of `self`.
+ *
+ * @category Getters
+ */
+export const parseAsBigDecimal: MTypes.OneArgFunction<Type, Type['parseAsBigDecimal']> =
+  Struct.get('parseAsBigDecimal');
+
+/**
+ * Returns the `parseAsBigDecimalOrThrow` property of `self`.
+ *
+ * @category Getters
+ */
+export const parseAsBigDecimalOrThrow: MTypes.OneArgFunction<
+  Type,
+  Type['parseAsBigDecimalOrThrow']
+> = Struct.get('parseAsBigDecimalOrThrow');
+
+/**
+ * Returns the `parseAsNumber` property of `self`.
+ *
+ * @category Getters
+ */
+export const parseAsNumber: MTypes.OneArgFunction<Type, Type['parseAsNumber']> =
+  Struct.get('parseAsNumber');
+
+/**
+ * Returns the `parseAsNumberOrThrow` property of `self`.
+ *
+ * @category Getters
+ */
+export const parseAsNumberOrThrow: MTypes.OneArgFunction<Type, Type['parseAsNumberOrThrow']> =
+  Struct.get('parseAsNumberOrThrow');
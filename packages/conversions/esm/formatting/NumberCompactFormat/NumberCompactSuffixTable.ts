@@ -0,0 +1,180 @@
+/**
+ * This module implements a `CVNumberCompactSuffixTable`, i.e. the list of suffixes used by a
+ * `CVNumberCompactFormat` to abbreviate large numbers (e.g. 'K' for thousands, 'M' for millions...)
+ * with the multiplier each of them stands for
+ */
+
+import { pipe } from 'effect';
+import * as Array from 'effect/Array';
+import * as BigInt from 'effect/BigInt';
+import * as Order from 'effect/Order';
+import * as Struct from 'effect/Struct';
+
+import * as MData from '@parischap/effect-lib/MData';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+/**
+ * Module tag
+ *
+ * @category Module markers
+ */
+export const moduleTag =
+  '@parischap/conversions/formatting/NumberCompactFormat/NumberCompactSuffixTable/';
+const TypeId: unique symbol = Symbol.for(moduleTag) as TypeId;
+type TypeId = typeof TypeId;
+
+/**
+ * Type of an entry of a `CVNumberCompactSuffixTable`
+ *
+ * @category Models
+ */
+export interface Entry {
+  /** Suffix, e.g. 'K' */
+  readonly suffix: string;
+
+  /** Value the suffix stands for, e.g. 1000n. Must be a strictly positive bigint */
+  readonly multiplier: bigint;
+}
+
+/**
+ * Type that represents a `CVNumberCompactSuffixTable`
+ *
+ * @category Models
+ */
+export class Type extends MData.Class {
+  /** Name of this table, e.g. 'short English' */
+  readonly name: string;
+
+  /**
+   * Entries of this table sorted by decreasing multiplier. Suffixes must be non-empty and
+   * multipliers distinct. An entry with a multiplier of 1 (e.g. 'B' for bytes) is used for the
+   * numbers that are too small for any other entry: in that case, a suffix is always written.
+   * Otherwise, such numbers are written without any suffix.
+   */
+  readonly entries: ReadonlyArray<Entry>;
+
+  /** Class constructor */
+  private constructor({ name, entries }: MTypes.Data<Type>) {
+    super();
+    this.name = name;
+    this.entries = entries;
+  }
+
+  /** Static constructor */
+  static make(params: MTypes.Data<Type>): Type {
+    return new Type(params);
+  }
+
+  /** Returns the `id` of `this` */
+  [MData.idSymbol](): string | (() => string) {
+    return function idSymbol(this: Type) {
+      return this.name;
+    };
+  }
+
+  /** Returns the TypeMarker of the class */
+  protected get [TypeId](): TypeId {
+    return TypeId;
+  }
+}
+
+const entryOrder: Order.Order<Entry> = pipe(
+  BigInt.Order,
+  Order.mapInput((entry: Entry) => entry.multiplier),
+  Order.flip,
+);
+
+/**
+ * Constructor. `entries` need not be sorted
+ *
+ * @category Constructors
+ */
+export const make = ({
+  name,
+  entries,
+}: {
+  readonly name: string;
+  readonly entries: ReadonlyArray<Entry>;
+}): Type => Type.make({ name, entries: Array.sort(entries, entryOrder) });
+
+/**
+ * Returns the `name` property of `self`
+ *
+ * @category Getters
+ */
+export const name: MTypes.OneArgFunction<Type, string> = Struct.get('name');
+
+/**
+ * Returns the `entries` property of `self`
+ *
+ * @category Getters
+ */
+export const entries: MTypes.OneArgFunction<Type, ReadonlyArray<Entry>> = Struct.get('entries');
+
+/**
+ * Short English `CVNumberCompactSuffixTable` instance: K (thousand), M (million), B (billion) and T
+ * (trillion)
+ *
+ * @category Instances
+ */
+export const shortEnglish: Type = make({
+  name: 'short English',
+  entries: [
+    { suffix: 'K', multiplier: 1000n },
+    { suffix: 'M', multiplier: 1_000_000n },
+    { suffix: 'B', multiplier: 1_000_000_000n },
+    { suffix: 'T', multiplier: 1_000_000_000_000n },
+  ],
+});
+
+/**
+ * French `CVNumberCompactSuffixTable` instance: k (mille), M (million), Md (milliard) and Bn
+ * (billion, i.e. 10^12)
+ *
+ * @category Instances
+ */
+export const french: Type = make({
+  name: 'French',
+  entries: [
+    { suffix: 'k', multiplier: 1000n },
+    { suffix: 'M', multiplier: 1_000_000n },
+    { suffix: 'Md', multiplier: 1_000_000_000n },
+    { suffix: 'Bn', multiplier: 1_000_000_000_000n },
+  ],
+});
+
+/**
+ * SI `CVNumberCompactSuffixTable` instance: k (kilo), M (mega), G (giga), T (tera), P (peta) and E
+ * (exa)
+ *
+ * @category Instances
+ */
+export const si: Type = make({
+  name: 'SI',
+  entries: [
+    { suffix: 'k', multiplier: 10n ** 3n },
+    { suffix: 'M', multiplier: 10n ** 6n },
+    { suffix: 'G', multiplier: 10n ** 9n },
+    { suffix: 'T', multiplier: 10n ** 12n },
+    { suffix: 'P', multiplier: 10n ** 15n },
+    { suffix: 'E', multiplier: 10n ** 18n },
+  ],
+});
+
+/**
+ * Binary `CVNumberCompactSuffixTable` instance for byte counts: B (byte), KiB (kibibyte), MiB
+ * (mebibyte), GiB (gibibyte), TiB (tebibyte) and PiB (pebibyte)
+ *
+ * @category Instances
+ */
+export const binary: Type = make({
+  name: 'binary',
+  entries: [
+    { suffix: 'B', multiplier: 1n },
+    { suffix: 'KiB', multiplier: 2n ** 10n },
+    { suffix: 'MiB', multiplier: 2n ** 20n },
+    { suffix: 'GiB', multiplier: 2n ** 30n },
+    { suffix: 'TiB', multiplier: 2n ** 40n },
+    { suffix: 'PiB', multiplier: 2n ** 50n },
+  ],
+});
@@ -0,0 +1,505 @@
+/**
+ * This module implements a `CVNumberRadixFormat` which describes the possible options to
+ * format/parse an integer written in a radix other than 10 (hexadecimal, octal, binary...), e.g.
+ * `0xFF_FF`, `0o755` or `0b1010`. It can be used with numbers and bigints. Use CVNumberBase10Format
+ * for base-10 numbers
+ */
+
+import { flow, pipe } from 'effect';
+import * as Array from 'effect/Array';
+import * as Function from 'effect/Function';
+import * as Option from 'effect/Option';
+import * as Struct from 'effect/Struct';
+
+import * as MData from '@parischap/effect-lib/MData';
+import * as MFunction from '@parischap/effect-lib/MFunction';
+import * as MMatch from '@parischap/effect-lib/MMatch';
+import * as MString from '@parischap/effect-lib/MString';
+import * as MStruct from '@parischap/effect-lib/MStruct';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+import * as CVNumberBase10FormatSignDisplayOption from '../NumberBase10Format/NumberBase10FormatSignDisplayOption/NumberBase10FormatSignDisplayOption.js';
+
+/**
+ * Module tag
+ *
+ * @category Module markers
+ */
+export const moduleTag = '@parischap/conversions/formatting/NumberRadixFormat/';
+const TypeId: unique symbol = Symbol.for(moduleTag) as TypeId;
+type TypeId = typeof TypeId;
+
+/**
+ * Type that represents a `CVNumberRadixFormat`
+ *
+ * @category Models
+ */
+export class Type extends MData.Class {
+  /**
+   * Radix of the numbers to format/parse. Must be an integer between 2 and 36. Will not throw
+   * otherwise but unexpected results will occur
+   */
+  readonly radix: number;
+
+  /**
+   * Possible prefixes written between the sign (if any) and the digits, e.g. ['0x', '0X']. Use an
+   * empty array for no prefix.
+   *
+   * Formatting: the string at index 0 is used
+   *
+   * Parsing: conversion will fail if the digits are not preceded by one of the strings present in
+   * the array (unless the array is empty)
+   */
+  readonly prefixes: ReadonlyArray<string>;
+
+  /**
+   * Separator inserted between groups of `digitGroupSize` digits, starting from the right, e.g. '_'
+   * in `0xFF_FF`. Use an empty string for no separator. Usually a string made of at most one
+   * character that is not a digit in radix `radix`. Will not throw otherwise but unexpected results
+   * might occur.
+   *
+   * Parsing: if not empty, conversion will fail if the separator is not present between each group
+   * of `digitGroupSize` digits
+   */
+  readonly digitGroupSeparator: string;
+
+  /**
+   * Number of digits in a group. Must be a strictly positive integer. Will not throw otherwise but
+   * unexpected results will occur. Not used if `digitGroupSeparator` is an empty string
+   */
+  readonly digitGroupSize: number;
+
+  /**
+   * If `digitPadding` is a `none`, no padding is applied. Otherwise the digits will be left-padded
+   * with `0`'s so that there are `digitPadding` of them (digit group separators not included).
+   *
+   * Formatting: `0`'s are padded on the left of the digits until there are `digitPadding` of them.
+   * Conversion does not fail if there are more than `digitPadding` digits (they are displayed as is
+   * without any padding).
+   *
+   * Parsing: conversion will fail if there are not exactly `digitPadding` digits.
+   */
+  readonly digitPadding: Option.Option<number>;
+
+  /**
+   * Formatting: if `true`, digits above 9 are written with upper-case letters. Otherwise, they are
+   * written with lower-case letters.
+   *
+   * Parsing: not used. Both cases are accepted
+   */
+  readonly isUpperCase: boolean;
+
+  /** Sign display options. See CVNumberBase10FormatSignDisplayOption.ts */
+  readonly signDisplayOption: CVNumberBase10FormatSignDisplayOption.Type;
+
+  /** Class constructor */
+  private constructor({
+    radix,
+    prefixes,
+    digitGroupSeparator,
+    digitGroupSize,
+    digitPadding,
+    isUpperCase,
+    signDisplayOption,
+  }: MTypes.Data<Type>) {
+    super();
+    this.radix = radix;
+    this.prefixes = prefixes;
+    this.digitGroupSeparator = digitGroupSeparator;
+    this.digitGroupSize = digitGroupSize;
+    this.digitPadding = digitPadding;
+    this.isUpperCase = isUpperCase;
+    this.signDisplayOption = signDisplayOption;
+  }
+
+  /** Static constructor */
+  static make(params: MTypes.Data<Type>): Type {
+    return new Type(params);
+  }
+
+  /** Returns the `id` of `this` */
+  [MData.idSymbol](): string | (() => string) {
+    return moduleTag;
+  }
+
+  /** Returns the TypeMarker of the class */
+  protected get [TypeId](): TypeId {
+    return TypeId;
+  }
+}
+
+/**
+ * Constructor
+ *
+ * @category Constructors
+ */
+export const make = (params: MTypes.Data<Type>): Type => Type.make(params);
+
+/**
+ * Returns the `radix` property of `self`
+ *
+ * @category Getters
+ */
+export const radix: MTypes.OneArgFunction<Type, number> = Struct.get('radix');
+
+/**
+ * Returns the `prefixes` property of `self`
+ *
+ * @category Getters
+ */
+export const prefixes: MTypes.OneArgFunction<Type, ReadonlyArray<string>> = Struct.get('prefixes');
+
+/**
+ * Returns the `digitGroupSeparator` property of `self`
+ *
+ * @category Getters
+ */
+export const digitGroupSeparator: MTypes.OneArgFunction<Type, string> =
+  Struct.get('digitGroupSeparator');
+
+/**
+ * Returns the `digitGroupSize` property of `self`
+ *
+ * @category Getters
+ */
+export const digitGroupSize: MTypes.OneArgFunction<Type, number> = Struct.get('digitGroupSize');
+
+/**
+ * Returns the `digitPadding` property of `self`
+ *
+ * @category Getters
+ */
+export const digitPadding: MTypes.OneArgFunction<Type, Option.Option<number>> = Struct.get(
+  'digitPadding',
+);
+
+/**
+ * Returns the `isUpperCase` property of `self`
+ *
+ * @category Getters
+ */
+export const isUpperCase: MTypes.OneArgFunction<Type, boolean> = Struct.get('isUpperCase');
+
+/**
+ * Returns the `signDisplayOption` property of `self`
+ *
+ * @category Getters
+ */
+export const signDisplayOption: MTypes.OneArgFunction<
+  Type,
+  CVNumberBase10FormatSignDisplayOption.Type
+> = Struct.get('signDisplayOption');
+
+/**
+ * Returns the prefix used when formatting with `self`
+ *
+ * @category Destructors
+ */
+export const formattingPrefix: MTypes.OneArgFunction<Type, string> = flow(
+  Struct.get('prefixes'),
+  Array.get(0),
+  Option.getOrElse(MFunction.constEmptyString),
+);
+
+/**
+ * Returns a `some` of the length of `self` if `self` represents a fixed-length number format.
+ * Return a `none` otherwise. For a number format to be fixed-length, `digitPadding` must be a
+ * `some`, the sign must always or never be shown and all prefixes must have the same length.
+ *
+ * @category Utils
+ */
+export const getFixedLength = (self: Type): Option.Option<number> =>
+  Option.gen(function* () {
+    const digitNumber = yield* self.digitPadding;
+    const signLength = yield* pipe(
+      self.signDisplayOption,
+      MMatch.make,
+      MMatch.whenIs(CVNumberBase10FormatSignDisplayOption.Type.Always, () => Option.some(1)),
+      MMatch.whenIs(CVNumberBase10FormatSignDisplayOption.Type.Never, () => Option.some(0)),
+      MMatch.orElse(() => Option.none()),
+    );
+    const prefixLength = formattingPrefix(self).length;
+    yield* pipe(
+      self.prefixes,
+      Option.liftPredicate(Array.every((prefix) => prefix.length === prefixLength)),
+    );
+    const separatorLength =
+      self.digitGroupSeparator.length === 0
+        ? 0
+        : Math.floor((digitNumber - 1) / self.digitGroupSize) * self.digitGroupSeparator.length;
+
+    return signLength + prefixLength + digitNumber + separatorLength;
+  });
+
+/**
+ * Returns a short description of `self`, e.g. 'unsigned 4-digit hexadecimal integer with '0x'
+ * prefix'
+ *
+ * @category Destructors
+ */
+export const toDescription = (self: Type): string => {
+  const { radix, digitPadding, digitGroupSeparator, digitGroupSize, signDisplayOption } = self;
+  const prefix = formattingPrefix(self);
+  return (
+    pipe(
+      signDisplayOption,
+      MMatch.make,
+      MMatch.whenIs(
+        CVNumberBase10FormatSignDisplayOption.Type.Always,
+        Function.constant('signed '),
+      ),
+      MMatch.whenIs(
+        CVNumberBase10FormatSignDisplayOption.Type.Never,
+        Function.constant('unsigned '),
+      ),
+      MMatch.orElse(Function.constant('potentially signed ')),
+    ) +
+    Option.match(digitPadding, {
+      onNone: MFunction.constEmptyString,
+      onSome: flow(MString.fromNumber(10), MString.append('-digit ')),
+    }) +
+    (radix === 2
+      ? 'binary'
+      : radix === 8
+        ? 'octal'
+        : radix === 16
+          ? 'hexadecimal'
+          : `base-${MString.fromNumber(10)(radix)}`) +
+    ' integer' +
+    (prefix === '' ? '' : ` with '${prefix}' prefix`) +
+    (digitGroupSeparator === ''
+      ? ''
+      : ` in groups of ${MString.fromNumber(10)(digitGroupSize)} digits separated by '${digitGroupSeparator}'`)
+  );
+};
+
+/**
+ * Returns a copy of `self` with `prefixes` set to `prefixes`
+ *
+ * @category Modifiers
+ */
+export const withPrefixes = (...prefixes: ReadonlyArray<string>): MTypes.OneArgFunction<Type> =>
+  flow(
+    MStruct.append({
+      prefixes,
+    }),
+    make,
+  );
+
+/**
+ * Returns a copy of `self` with `prefixes` set to an empty array
+ *
+ * @category Modifiers
+ */
+export const withoutPrefix: MTypes.OneArgFunction<Type> = withPrefixes();
+
+/**
+ * Returns a copy of `self` with `digitGroupSeparator` set to `digitGroupSeparator`
+ *
+ * @category Modifiers
+ */
+export const withDigitGroupSeparator = (digitGroupSeparator: string): MTypes.OneArgFunction<Type> =>
+  flow(
+    MStruct.append({
+      digitGroupSeparator,
+    }),
+    make,
+  );
+
+/**
+ * Returns a copy of `self` with `digitGroupSeparator` set to ''
+ *
+ * @category Modifiers
+ */
+export const withoutDigitGroupSeparator: MTypes.OneArgFunction<Type> = withDigitGroupSeparator('');
+
+/**
+ * Returns a copy of `self` with `digitGroupSize` set to `digitGroupSize`
+ *
+ * @category Modifiers
+ */
+export const withDigitGroupSize = (digitGroupSize: number): MTypes.OneArgFunction<Type> =>
+  flow(
+    MStruct.append({
+      digitGroupSize,
+    }),
+    make,
+  );
+
+/**
+ * Returns a copy of `self` with `digitPadding` set to `some(n)`
+ *
+ * @category Modifiers
+ */
+export const zeroPadded = (n: number): MTypes.OneArgFunction<Type> =>
+  flow(
+    MStruct.append({
+      digitPadding: Option.some(n),
+    }),
+    make,
+  );
+
+/**
+ * Returns a copy of `self` with `digitPadding` set to `none`
+ *
+ * @category Modifiers
+ */
+export const withoutPadding: MTypes.OneArgFunction<Type> = flow(
+  MStruct.append({
+    digitPadding: Option.none(),
+  }),
+  make,
+);
+
+/**
+ * Returns a copy of `self` with `isUpperCase` set to `true`
+ *
+ * @category Modifiers
+ */
+export const withUpperCase: MTypes.OneArgFunction<Type> = flow(
+  MStruct.append({
+    isUpperCase: true,
+  }),
+  make,
+);
+
+/**
+ * Returns a copy of `self` with `isUpperCase` set to `false`
+ *
+ * @category Modifiers
+ */
+export const withLowerCase: MTypes.OneArgFunction<Type> = flow(
+  MStruct.append({
+    isUpperCase: false,
+  }),
+  make,
+);
+
+/**
+ * Returns a copy of `self` with `signDisplayOption` set to `Auto`
+ *
+ * @category Modifiers
+ */
+export const withSignDisplayForNegative: MTypes.OneArgFunction<Type> = flow(
+  MStruct.append({
+    signDisplayOption: CVNumberBase10FormatSignDisplayOption.Type.Auto,
+  }),
+  make,
+);
+
+/**
+ * Returns a copy of `self` with `signDisplayOption` set to `Always`
+ *
+ * @category Modifiers
+ */
+export const withSignDisplay: MTypes.OneArgFunction<Type> = flow(
+  MStruct.append({
+    signDisplayOption: CVNumberBase10FormatSignDisplayOption.Type.Always,
+  }),
+  make,
+);
+
+/**
+ * Returns a copy of `self` with `signDisplayOption` set to `ExceptZero`
+ *
+ * @category Modifiers
+ */
+export const withSignDisplayExceptZero: MTypes.OneArgFunction<Type> = flow(
+  MStruct.append({
+    signDisplayOption: CVNumberBase10FormatSignDisplayOption.Type.ExceptZero,
+  }),
+  make,
+);
+
+/**
+ * Returns a copy of `self` with `signDisplayOption` set to `Negative`
+ *
+ * @category Modifiers
+ */
+export const withSignDisplayForNegativeExceptZero: MTypes.OneArgFunction<Type> = flow(
+  MStruct.append({
+    signDisplayOption: CVNumberBase10FormatSignDisplayOption.Type.Negative,
+  }),
+  make,
+);
+
+/**
+ * Returns a copy of `self` with `signDisplayOption` set to `Never`
+ *
+ * @category Modifiers
+ */
+export const withoutSignDisplay: MTypes.OneArgFunction<Type> = flow(
+  MStruct.append({
+    signDisplayOption: CVNumberBase10FormatSignDisplayOption.Type.Never,
+  }),
+  make,
+);
+
+/**
+ * Hexadecimal `CVNumberRadixFormat` instance with upper-case digits, no prefix and no digit group
+ * separator. Negative numbers are preceded by a minus sign
+ *
+ * @category Instances
+ */
+export const hexadecimal: Type = make({
+  radix: 16,
+  prefixes: [],
+  digitGroupSeparator: '',
+  digitGroupSize: 4,
+  digitPadding: Option.none(),
+  isUpperCase: true,
+  signDisplayOption: CVNumberBase10FormatSignDisplayOption.Type.Negative,
+});
+
+/**
+ * Hexadecimal `CVNumberRadixFormat` instance with upper-case digits and a `0x` prefix (`0X` is also
+ * accepted when parsing), e.g. `0xFF`
+ *
+ * @category Instances
+ */
+export const prefixedHexadecimal: Type = pipe(hexadecimal, withPrefixes('0x', '0X'));
+
+/**
+ * Octal `CVNumberRadixFormat` instance with no prefix and no digit group separator. Negative
+ * numbers are preceded by a minus sign
+ *
+ * @category Instances
+ */
+export const octal: Type = pipe(
+  hexadecimal,
+  MStruct.append({
+    radix: 8,
+    digitGroupSize: 3,
+  }),
+  make,
+);
+
+/**
+ * Octal `CVNumberRadixFormat` instance with a `0o` prefix (`0O` is also accepted when parsing),
+ * e.g. `0o755`
+ *
+ * @category Instances
+ */
+export const prefixedOctal: Type = pipe(octal, withPrefixes('0o', '0O'));
+
+/**
+ * Binary `CVNumberRadixFormat` instance with no prefix and no digit group separator. Negative
+ * numbers are preceded by a minus sign
+ *
+ * @category Instances
+ */
+export const binary: Type = pipe(
+  hexadecimal,
+  MStruct.append({
+    radix: 2,
+  }),
+  make,
+);
+
+/**
+ * Binary `CVNumberRadixFormat` instance with a `0b` prefix (`0B` is also accepted when parsing),
+ * e.g. `0b1010`
+ *
+ * @category Instances
+ */
+export const prefixedBinary: Type = pipe(binary, withPrefixes('0b', '0B'));
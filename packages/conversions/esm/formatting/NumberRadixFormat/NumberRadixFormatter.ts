@@ -0,0 +1,150 @@
+/**
+ * This module implements a CVNumberRadixFormatter, i.e. an object that can convert an integer into
+ * a string according to the CVNumberRadixFormat that was used to construct it
+ */
+
+import { flow, pipe } from 'effect';
+import * as Array from 'effect/Array';
+import * as Function from 'effect/Function';
+import * as Option from 'effect/Option';
+import * as Predicate from 'effect/Predicate';
+import * as String from 'effect/String';
+import * as Struct from 'effect/Struct';
+import * as Tuple from 'effect/Tuple';
+
+import * as MData from '@parischap/effect-lib/MData';
+import * as MFunction from '@parischap/effect-lib/MFunction';
+import * as MString from '@parischap/effect-lib/MString';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+import * as CVSignFormatter from '../../internal/formatting/NumberBase10Format/NumberBase10FormatSignDisplayOption/SignFormatter.js';
+import * as CVNumberRadixFormat from './NumberRadixFormat.js';
+
+/**
+ * Module tag
+ *
+ * @category Module markers
+ */
+export const moduleTag =
+  '@parischap/conversions/formatting/NumberRadixFormat/NumberRadixFormatter/';
+const TypeId: unique symbol = Symbol.for(moduleTag) as TypeId;
+type TypeId = typeof TypeId;
+
+/**
+ * Type that represents a CVNumberRadixFormatter
+ *
+ * @category Models
+ */
+export class Type extends MData.Class {
+  /** Description of this formatter, e.g. 'unsigned hexadecimal integer formatter' */
+  readonly description: string;
+  /**
+   * Function that formats an integer respecting the options represented by the CVNumberRadixFormat
+   * from which `this` was constructed. If successful, that function returns a `some` of the
+   * formatted integer. Otherwise, it returns a `none` (it will return a `none` only if `integer` is
+   * a number that is not an integer, i.e. `NaN`, `Infinity` or a number with a fractional part).
+   * `integer` can be of type number or bigint. As for CVNumberBase10Formatter, the sign of 0 can
+   * only be distinguished for numbers
+   */
+  readonly format: MTypes.OneArgFunction<bigint | number, Option.Option<string>>;
+
+  /** Same as `format` but throws instead of returning a `none` in case of failure */
+  readonly formatOrThrow: MTypes.OneArgFunction<bigint | number, string>;
+
+  /** Returns the `id` of `this` */
+  [MData.idSymbol](): string | (() => string) {
+    return function idSymbol(this: Type) {
+      return this.description;
+    };
+  }
+
+  /** Class constructor */
+  constructor(numberFormat: CVNumberRadixFormat.Type) {
+    super();
+    this.description = `${CVNumberRadixFormat.toDescription(numberFormat)} formatter`;
+    const signFormatter = CVSignFormatter.fromSignDisplayOption(numberFormat.signDisplayOption);
+    const prefix = CVNumberRadixFormat.formattingPrefix(numberFormat);
+    const { radix, digitGroupSeparator, digitGroupSize, isUpperCase } = numberFormat;
+    const digitPadder: MTypes.StringTransformer = Option.match(numberFormat.digitPadding, {
+      onNone: () => Function.identity,
+      onSome: (length) => String.padStart(length, '0'),
+    });
+    const digitGroupSeparatorIntersperser = Array.intersperse(digitGroupSeparator);
+
+    this.format = (integer) =>
+      Option.gen(function* () {
+        const [sign, absValueString] = Predicate.isNumber(integer)
+          ? yield* pipe(
+              integer,
+              Option.liftPredicate(Number.isInteger),
+              Option.map((validated) =>
+                Tuple.make(
+                  validated < 0 || Object.is(-0, validated) ? (-1 as const) : (1 as const),
+                  pipe(validated, Math.abs, MString.fromNumber(radix)),
+                ),
+              ),
+            )
+          : Tuple.make(
+              integer < 0n ? (-1 as const) : (1 as const),
+              MString.fromNumber(radix)(integer < 0n ? -integer : integer),
+            );
+
+        const signString = signFormatter({ sign, isZero: absValueString === '0' });
+
+        const digits = pipe(
+          absValueString,
+          MFunction.fIfTrue({ condition: isUpperCase, f: String.toUpperCase }),
+          digitPadder,
+          MFunction.fIfTrue({
+            condition: digitGroupSeparator !== '',
+            f: flow(
+              MString.splitEquallyRestAtStart(digitGroupSize),
+              digitGroupSeparatorIntersperser,
+              Array.join(''),
+            ),
+          }),
+        );
+
+        return `${signString}${prefix}${digits}`;
+      });
+
+    this.formatOrThrow = flow(
+      this.format,
+      Option.getOrThrowWith(() => new Error('Only integers can be formatted')),
+    );
+  }
+
+  /** Returns the TypeMarker of the class */
+  protected get [TypeId](): TypeId {
+    return TypeId;
+  }
+}
+
+/**
+ * Constructor of a CVNumberRadixFormatter from a CVNumberRadixFormat
+ *
+ * @category Constructors
+ */
+export const fromFormat = (format: CVNumberRadixFormat.Type) => new Type(format);
+
+/**
+ * Returns the `description` property of `self`
+ *
+ * @category Getters
+ */
+export const description: MTypes.OneArgFunction<Type, string> = Struct.get('description');
+
+/**
+ * Returns the `format` property of `self`.
+ *
+ * @category Getters
+ */
+export const format: MTypes.OneArgFunction<Type, Type['format']> = Struct.get('format');
+
+/**
+ * Returns the `formatOrThrow` property of `self`.
+ *
+ * @category Getters
+ */
+export const formatOrThrow: MTypes.OneArgFunction<Type, Type['formatOrThrow']> =
+  Struct.get('formatOrThrow');
@@ -0,0 +1,334 @@
+/**
+ * This module implements a CVNumberRadixParser, i.e. an object that can convert a string into an
+ * integer according to the CVNumberRadixFormat that was used to construct it
+ */
+
+import { flow, pipe } from 'effect';
+import * as Array from 'effect/Array';
+import * as BigInt from 'effect/BigInt';
+import * as Option from 'effect/Option';
+import * as RegExp from 'effect/RegExp';
+import * as String from 'effect/String';
+import * as Struct from 'effect/Struct';
+import * as Tuple from 'effect/Tuple';
+
+import * as MData from '@parischap/effect-lib/MData';
+import * as MRegExp from '@parischap/effect-lib/MRegExp';
+import * as MRegExpString from '@parischap/effect-lib/MRegExpString';
+import * as MString from '@parischap/effect-lib/MString';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+import type * as CVSignString from '../../internal/formatting/NumberBase10Format/NumberBase10FormatSignDisplayOption/SignString.js';
+
+import * as CVSignParser from '../../internal/formatting/NumberBase10Format/NumberBase10FormatSignDisplayOption/SignParser.js';
+import * as CVNumberRadixFormat from './NumberRadixFormat.js';
+
+/**
+ * Module tag
+ *
+ * @category Module markers
+ */
+export const moduleTag = '@parischap/conversions/formatting/NumberRadixFormat/NumberRadixParser/';
+const TypeId: unique symbol = Symbol.for(moduleTag) as TypeId;
+type TypeId = typeof TypeId;
+
+const MAX_SAFE_INTEGER = BigInt.BigInt(Number.MAX_SAFE_INTEGER);
+
+/**
+ * Type that represents a CVNumberRadixParser
+ *
+ * @category Models
+ */
+export class Type extends MData.Class {
+  /** Description of this parser, e.g. 'unsigned hexadecimal integer parser' */
+  readonly description: string;
+
+  /**
+   * Function that tries to extract, from the start of a string `text`, an integer respecting the
+   * options represented by the CVNumberRadixFormat from which `this` was constructed. If
+   * successful, returns a `some` containing the extracted `value` (`parsedText` converted to a
+   * bigint) and `parsedText` (the part of `text` that could be analyzed as representing an
+   * integer). Otherwise, it returns a `none`. As bigint's provide no possibility to distinguish
+   * `-0n` and `0n`, parsing '-0', '0', '+0' will yield the same result
+   */
+  readonly extractAsBigInt: MTypes.OneArgFunction<
+    string,
+    Option.Option<MTypes.Pair<bigint, string>>
+  >;
+
+  /** Same as `extractAsBigInt` but throws in case of failure */
+  readonly extractAsBigIntOrThrow: MTypes.OneArgFunction<string, MTypes.Pair<bigint, string>>;
+
+  /**
+   * Same as `extractAsBigInt` but returns a number. The conversion fails if the extracted value is
+   * not a safe integer. Furthermore, this function will return `-0` if your parse '-0' and `0` if
+   * you parse '0' or '+0'.
+   */
+  readonly extractAsNumber: MTypes.OneArgFunction<
+    string,
+    Option.Option<MTypes.Pair<number, string>>
+  >;
+
+  /** Same as `extractAsNumber` but throws in case of failure */
+  readonly extractAsNumberOrThrow: MTypes.OneArgFunction<string, MTypes.Pair<number, string>>;
+
+  /**
+   * Same as `extractAsBigInt` but the whole of the input text must represent an integer, not just
+   * its start. `parsedText` does not need to be returned since it is equal to the input text
+   */
+  readonly parseAsBigInt: MTypes.OneArgFunction<string, Option.Option<bigint>>;
+
+  /** Same as `parseAsBigInt` but throws in case of failure */
+  readonly parseAsBigIntOrThrow: MTypes.OneArgFunction<string, bigint>;
+
+  /**
+   * Same as `extractAsNumber` but the whole of the input text must represent an integer, not just
+   * its start. `parsedText` does not need to be returned since it is equal to the input text
+   */
+  readonly parseAsNumber: MTypes.OneArgFunction<string, Option.Option<number>>;
+
+  /** Same as `parseAsNumber` but throws in case of failure */
+  readonly parseAsNumberOrThrow: MTypes.OneArgFunction<string, number>;
+
+  /** Returns the `id` of `this` */
+  [MData.idSymbol](): string | (() => string) {
+    return function idSymbol(this: Type) {
+      return this.description;
+    };
+  }
+
+  /** Class constructor */
+  constructor(numberFormat: CVNumberRadixFormat.Type) {
+    super();
+    this.description = `${CVNumberRadixFormat.toDescription(numberFormat)} parser`;
+    const { radix, prefixes, digitGroupSeparator, digitGroupSize } = numberFormat;
+
+    const lastDigit = (radix - 1).toString(36);
+    const digit =
+      radix <= 10 ? `[0-${lastDigit}]` : `[0-9a-${lastDigit}A-${String.toUpperCase(lastDigit)}]`;
+
+    const getParts = MString.matchWithCapturingGroups(
+      pipe(
+        MRegExpString.sign,
+        MRegExpString.capture('signPart'),
+        MRegExpString.optional,
+        String.concat(
+          pipe(prefixes, Array.map(RegExp.escape), (escaped) => MRegExpString.either(...escaped)),
+        ),
+        String.concat(
+          pipe(
+            digitGroupSeparator.length === 0
+              ? MRegExpString.oneOrMore(digit)
+              : MRegExpString.repeatBetween(1, digitGroupSize)(digit) +
+                  MRegExpString.zeroOrMore(
+                    RegExp.escape(digitGroupSeparator) +
+                      MRegExpString.repeatBetween(digitGroupSize, digitGroupSize)(digit),
+                  ),
+            MRegExpString.capture('digitPart'),
+          ),
+        ),
+        MRegExpString.atStart,
+        MRegExp.fromRegExpString(),
+      ),
+      ['signPart', 'digitPart'],
+    );
+    const removeDigitGroupSeparator = MString.removeNCharsEveryMCharsFromRight({
+      m: digitGroupSize,
+      n: digitGroupSeparator.length,
+    });
+    const digitNumberValidator: MTypes.OneArgFunction<string, Option.Option<string>> = Option.match(
+      numberFormat.digitPadding,
+      {
+        onNone: () => Option.some,
+        onSome: (length) => Option.liftPredicate(MString.hasLength(length)),
+      },
+    );
+    const signParser = CVSignParser.fromSignDisplayOption(numberFormat.signDisplayOption);
+    const bigRadix = BigInt.BigInt(radix);
+
+    const extractor = (
+      input: string,
+    ): Option.Option<{ value: bigint; match: string; sign: -1 | 1; input: string }> =>
+      Option.gen(function* () {
+        const {
+          match,
+          groups: { signPart, digitPart },
+        } = yield* getParts(input);
+
+        const digits = yield* pipe(digitPart, removeDigitGroupSeparator, digitNumberValidator);
+
+        const value = pipe(
+          digits,
+          String.split(''),
+          Array.reduce(
+            0n,
+            (acc, digitChar) => acc * bigRadix + BigInt.BigInt(Number.parseInt(digitChar, radix)),
+          ),
+        );
+
+        const sign = yield* signParser({
+          isZero: value === 0n,
+          sign: signPart as CVSignString.Type,
+        });
+
+        return { value, match, sign, input };
+      });
+
+    const bigIntExtractor = flow(
+      extractor,
+      Option.map(({ value, match, sign, input }) => ({
+        value: sign === -1 ? -value : value,
+        match,
+        input,
+      })),
+    );
+
+    /* The sign is applied after the conversion to a number so that -0 is different from 0 */
+    const numberExtractor = flow(
+      extractor,
+      Option.filter(({ value }) => value <= MAX_SAFE_INTEGER),
+      Option.map(({ value, match, sign, input }) => ({
+        value: sign * Number(value),
+        match,
+        input,
+      })),
+    );
+
+    this.extractAsBigInt = flow(
+      bigIntExtractor,
+      Option.map(({ value, match }) => Tuple.make(value, match)),
+    );
+
+    this.extractAsBigIntOrThrow = (text) =>
+      pipe(
+        text,
+        this.extractAsBigInt,
+        Option.getOrThrowWith(
+          () => new Error(`A bigint could not be parsed from the start of '${text}'`),
+        ),
+      );
+
+    this.extractAsNumber = flow(
+      numberExtractor,
+      Option.map(({ value, match }) => Tuple.make(value, match)),
+    );
+
+    this.extractAsNumberOrThrow = (text) =>
+      pipe(
+        text,
+        this.extractAsNumber,
+        Option.getOrThrowWith(
+          () => new Error(`A number could not be parsed from the start of '${text}'`),
+        ),
+      );
+
+    this.parseAsBigInt = flow(
+      bigIntExtractor,
+      Option.filter(({ match, input }) => match.length === input.length),
+      Option.map(Struct.get('value')),
+    );
+
+    this.parseAsBigIntOrThrow = (text) =>
+      pipe(
+        text,
+        this.parseAsBigInt,
+        Option.getOrThrowWith(() => new Error(`A bigint could not be parsed from '${text}'`)),
+      );
+
+    this.parseAsNumber = flow(
+      numberExtractor,
+      Option.filter(({ match, input }) => match.length === input.length),
+      Option.map(Struct.get('value')),
+    );
+
+    this.parseAsNumberOrThrow = (text) =>
+      pipe(
+        text,
+        this.parseAsNumber,
+        Option.getOrThrowWith(() => new Error(`A number could not be parsed from '${text}'`)),
+      );
+  }
+
+  /** Returns the TypeMarker of the class */
+  protected get [TypeId](): TypeId {
+    return TypeId;
+  }
+}
+
+/**
+ * Constructor of a CVNumberRadixParser from a CVNumberRadixFormat
+ *
+ * @category Constructors
+ */
+export const fromFormat = (format: CVNumberRadixFormat.Type) => new Type(format);
+
+/**
+ * Returns the `description` property of `self`
+ *
+ * @category Getters
+ */
+export const description: MTypes.OneArgFunction<Type, string> = Struct.get('description');
+
+/**
+ * Returns the `extractAsBigInt` property of `self`.
+ *
+ * @category Getters
+ */
+export const extractAsBigInt: MTypes.OneArgFunction<Type, Type['extractAsBigInt']> =
+  Struct.get('extractAsBigInt');
+
+/**
+ * Returns the `extractAsBigIntOrThrow` property of `self`.
+ *
+ * @category Getters
+ */
+export const extractAsBigIntOrThrow: MTypes.OneArgFunction<Type, Type['extractAsBigIntOrThrow']> =
+  Struct.get('extractAsBigIntOrThrow');
+
+/**
+ * Returns the `extractAsNumber` property of `self`.
+ *
+ * @category Getters
+ */
+export const extractAsNumber: MTypes.OneArgFunction<Type, Type['extractAsNumber']> =
+  Struct.get('extractAsNumber');
+
+/**
+ * Returns the `extractAsNumberOrThrow` property of `self`.
+ *
+ * @category Getters
+ */
+export const extractAsNumberOrThrow: MTypes.OneArgFunction<Type, Type['extractAsNumberOrThrow']> =
+  Struct.get('extractAsNumberOrThrow');
+
+/**
+ * Returns the `parseAsBigInt` property of `self`.
+ *
+ * @category Getters
+ */
+export const parseAsBigInt: MTypes.OneArgFunction<Type, Type['parseAsBigInt']> =
+  Struct.get('parseAsBigInt');
+
+/**
+ * Returns the `parseAsBigIntOrThrow` property of `self`.
+ *
+ * @category Getters
+ */
+export const parseAsBigIntOrThrow: MTypes.OneArgFunction<Type, Type['parseAsBigIntOrThrow']> =
+  Struct.get('parseAsBigIntOrThrow');
+
+/**
+ * Returns the `parseAsNumber` property of `self`.
+ *
+ * @category Getters
+ */
+export const parseAsNumber: MTypes.OneArgFunction<Type, Type['parseAsNumber']> =
+  Struct.get('parseAsNumber');
+
+/**
+ * Returns the `parseAsNumberOrThrow` property of `self`.
+ *
+ * @category Getters
+ */
+export const parseAsNumberOrThrow: MTypes.OneArgFunction<Type, Type['parseAsNumberOrThrow']> =
+  Struct.get('parseAsNumberOrThrow');
@@ -0,0 +1,140 @@
+/**
+ * This module implements a `CVOrdinalSuffixes`, i.e. the rule that gives the suffix written after
+ * an integer to turn it into an ordinal in a given language, e.g. 'st' in '1st' or 'er' in '1er'
+ */
+
+import { pipe } from 'effect';
+import * as Option from 'effect/Option';
+import * as Struct from 'effect/Struct';
+
+import * as MData from '@parischap/effect-lib/MData';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+/**
+ * Module tag
+ *
+ * @category Module markers
+ */
+export const moduleTag = '@parischap/conversions/formatting/OrdinalSuffixes/';
+const TypeId: unique symbol = Symbol.for(moduleTag) as TypeId;
+type TypeId = typeof TypeId;
+
+/**
+ * Type that represents a `CVOrdinalSuffixes`
+ *
+ * @category Models
+ */
+export class Type extends MData.Class {
+  /** Name of this `CVOrdinalSuffixes`, e.g. 'English' */
+  readonly name: string;
+
+  /**
+   * Function that returns the suffix of the ordinal of a strictly positive integer, e.g. 'nd' for
+   * 22 in English. May return an empty string
+   */
+  readonly suffix: MTypes.OneArgFunction<number, string>;
+
+  /** Returns the `id` of `this` */
+  [MData.idSymbol](): string | (() => string) {
+    return function idSymbol(this: Type) {
+      return this.name;
+    };
+  }
+
+  /** Class constructor */
+  private constructor({ name, suffix }: MTypes.Data<Type>) {
+    super();
+    this.name = name;
+    this.suffix = suffix;
+  }
+
+  /** Static constructor */
+  static make(params: MTypes.Data<Type>): Type {
+    return new Type(params);
+  }
+
+  /** Returns the TypeMarker of the class */
+  protected get [TypeId](): TypeId {
+    return TypeId;
+  }
+}
+
+/**
+ * Constructor
+ *
+ * @category Constructors
+ */
+export const make = (params: MTypes.Data<Type>): Type => Type.make(params);
+
+/**
+ * Returns the `name` property of `self`
+ *
+ * @category Getters
+ */
+export const name: MTypes.OneArgFunction<Type, string> = Struct.get('name');
+
+/**
+ * Returns the `suffix` property of `self`
+ *
+ * @category Getters
+ */
+export const suffix: MTypes.OneArgFunction<Type, Type['suffix']> = Struct.get('suffix');
+
+/**
+ * English `CVOrdinalSuffixes` instance: '1st', '2nd', '3rd', '4th', '11th', '12th', '13th', '21st',
+ * '22nd'...
+ *
+ * @category Instances
+ */
+export const english: Type = make({
+  name: 'English',
+  suffix: (n) => {
+    const lastTwoDigits = n % 100;
+    if (lastTwoDigits >= 11 && lastTwoDigits <= 13) return 'th';
+    const lastDigit = n % 10;
+    return lastDigit === 1 ? 'st' : lastDigit === 2 ? 'nd' : lastDigit === 3 ? 'rd' : 'th';
+  },
+});
+
+/**
+ * French `CVOrdinalSuffixes` instance: '1er', '2e', '3e'...
+ *
+ * @category Instances
+ */
+export const french: Type = make({
+  name: 'French',
+  suffix: (n) => (n === 1 ? 'er' : 'e'),
+});
+
+/**
+ * French `CVOrdinalSuffixes` instance for days of month: only the first day of a month is written
+ * as an ordinal, e.g. 'le 1er juin' but 'le 2 juin'
+ *
+ * @category Instances
+ */
+export const frenchMonthDay: Type = make({
+  name: 'French day of month',
+  suffix: (n) => (n === 1 ? 'er' : ''),
+});
+
+const safeLanguage = Option.liftThrowable((locale: string) => new Intl.Locale(locale).language);
+
+/**
+ * Returns the `CVOrdinalSuffixes` instance of the language of `locale` if there is one. Returns a
+ * `none` otherwise. Only English and French are handled at the moment. If `isMonthDay` is `true`,
+ * returns the instance to use for days of month, e.g. `frenchMonthDay` for French
+ *
+ * @category Constructors
+ */
+export const fromLocale = (locale: string, isMonthDay = false): Option.Option<Type> =>
+  pipe(
+    locale,
+    safeLanguage,
+    Option.flatMap((language) =>
+      language === 'en'
+        ? Option.some(english)
+        : language === 'fr'
+          ? Option.some(isMonthDay ? frenchMonthDay : french)
+          : Option.none(),
+    ),
+  );
@@ -0,0 +1,307 @@
+/**
+ * This module implements a `CVRelativeTimeFormatContext`, i.e. the language-dependent data needed
+ * to write a time difference expressed in a given unit as a text (e.g. '3 days ago', 'in 2 hours',
+ * 'yesterday') and to read such a text back. Like `CVDateTimeFormatContext.fromLocale`, it gets its
+ * data from the `Intl` API. Numbers are always written with latin digits
+ */
+
+import { flow, pipe } from 'effect';
+import * as Array from 'effect/Array';
+import * as Option from 'effect/Option';
+import * as Order from 'effect/Order';
+import type * as Predicate from 'effect/Predicate';
+import * as Struct from 'effect/Struct';
+
+import * as MData from '@parischap/effect-lib/MData';
+import * as MPredicate from '@parischap/effect-lib/MPredicate';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+/**
+ * Module tag
+ *
+ * @category Module markers
+ */
+export const moduleTag =
+  '@parischap/conversions/formatting/RelativeTimeFormat/RelativeTimeFormatContext/';
+const TypeId: unique symbol = Symbol.for(moduleTag) as TypeId;
+type TypeId = typeof TypeId;
+
+/**
+ * Type of the units in which a time difference can be expressed
+ *
+ * @category Models
+ */
+export type Unit = 'second' | 'minute' | 'hour' | 'day' | 'week' | 'month' | 'year';
+
+/**
+ * Array of all units, from the smallest to the largest
+ *
+ * @category Constants
+ */
+export const units: ReadonlyArray<Unit> = [
+  'second',
+  'minute',
+  'hour',
+  'day',
+  'week',
+  'month',
+  'year',
+];
+
+/**
+ * Type of a text that surrounds a number of units in a given direction, e.g. 'in ' and ' days' for
+ * future days in English
+ *
+ * @category Models
+ */
+export interface Pattern {
+  /** Unit of the number */
+  readonly unit: Unit;
+
+  /** True if this pattern applies to past differences, false if it applies to future ones */
+  readonly isPast: boolean;
+
+  /** Text that precedes the number */
+  readonly prefix: string;
+
+  /** Text that follows the number */
+  readonly suffix: string;
+}
+
+/**
+ * Type of a text that stands for a specific number of units without writing that number, e.g.
+ * 'yesterday' for -1 day in English
+ *
+ * @category Models
+ */
+export interface Phrase {
+  /** Unit of the difference */
+  readonly unit: Unit;
+
+  /** Number of units */
+  readonly value: number;
+
+  /** The text */
+  readonly text: string;
+}
+
+/**
+ * Type that represents a CVRelativeTimeFormatContext
+ *
+ * @category Models
+ */
+export class Type extends MData.Class {
+  /** Name of this CVRelativeTimeFormatContext */
+  readonly name: string;
+
+  /**
+   * Function that writes a number of units as a text. `value` should be an integer. A negative
+   * `value` denotes the past
+   */
+  readonly format: (value: number, unit: Unit) => string;
+
+  /** Patterns used by `format`, sorted so that the most specific ones come first */
+  readonly patterns: ReadonlyArray<Pattern>;
+
+  /** Phrases used by `format` */
+  readonly phrases: ReadonlyArray<Phrase>;
+
+  /** Characters used by `format` to separate groups of thousands */
+  readonly groupSeparator: string;
+
+  /** Returns the `id` of `this` */
+  [MData.idSymbol](): string | (() => string) {
+    return function idSymbol(this: Type) {
+      return this.name;
+    };
+  }
+
+  /** Class constructor */
+  private constructor({ name, format, patterns, phrases, groupSeparator }: MTypes.Data<Type>) {
+    super();
+    this.name = name;
+    this.format = format;
+    this.patterns = patterns;
+    this.phrases = phrases;
+    this.groupSeparator = groupSeparator;
+  }
+
+  /** Static constructor */
+  static make(params: MTypes.Data<Type>): Type {
+    return new Type(params);
+  }
+
+  /** Returns the TypeMarker of the class */
+  protected get [TypeId](): TypeId {
+    return TypeId;
+  }
+}
+
+/**
+ * Each element of this array will be sent to Intl.RelativeTimeFormat, with both signs, to retrieve
+ * the patterns and phrases of a given locale. It contains at least one number of each plural
+ * category for all languages supported by Intl
+ */
+const SAMPLE_VALUES = pipe(
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 15, 20, 21, 22, 25, 100, 101, 102, 105],
+  Array.flatMap((value) => [value, 0 - value]),
+);
+
+const safeRelativeTimeFormat = Option.liftThrowable(
+  (locale: string, options: Intl.RelativeTimeFormatOptions) =>
+    new Intl.RelativeTimeFormat(new Intl.Locale(locale, { numberingSystem: 'latn' }), options),
+);
+
+const isLiteral: Predicate.Predicate<Intl.RelativeTimeFormatPart> = flow(
+  Struct.get('type'),
+  MPredicate.strictEquals('literal'),
+);
+
+const joinValues: MTypes.OneArgFunction<ReadonlyArray<Intl.RelativeTimeFormatPart>, string> = flow(
+  Array.map(Struct.get('value')),
+  Array.join(''),
+);
+
+/**
+ * Tries to build a `CVRelativeTimeFormatContext` for `locale` with the `style` and `numeric`
+ * options of `Intl.RelativeTimeFormat`. With the `numeric` option set to 'auto', some differences
+ * are written with phrases, e.g. 'yesterday' or 'now' in English. Returns a `Some` if successful, a
+ * `None` otherwise
+ *
+ * @category Constructors
+ */
+export const fromLocale = (
+  locale: string,
+  {
+    style = 'long',
+    numeric = 'always',
+  }: {
+    readonly style?: Intl.RelativeTimeFormatStyle;
+    readonly numeric?: Intl.RelativeTimeFormatNumeric;
+  } = {},
+): Option.Option<Type> =>
+  Option.gen(function* () {
+    const relativeTimeFormatInLocale = yield* safeRelativeTimeFormat(locale, { style, numeric });
+
+    const samples = pipe(
+      units,
+      Array.flatMap((unit) =>
+        pipe(
+          SAMPLE_VALUES,
+          Array.map((value) => ({
+            unit,
+            value,
+            parts: relativeTimeFormatInLocale.formatToParts(value, unit),
+          })),
+        ),
+      ),
+    );
+
+    const phrases = pipe(
+      samples,
+      Array.filter(({ parts }) => Array.every(parts, isLiteral)),
+      Array.map(({ unit, value, parts }) => ({ unit, value, text: joinValues(parts) })),
+      Array.dedupeWith((self, that) => self.text === that.text),
+    );
+
+    const patterns = pipe(
+      samples,
+      Array.filter(({ parts }) => !Array.every(parts, isLiteral)),
+      Array.map(({ unit, value, parts }) => ({
+        unit,
+        isPast: value < 0 || Object.is(value, -0),
+        prefix: pipe(parts, Array.takeWhile(isLiteral), joinValues),
+        suffix: pipe(parts, Array.reverse, Array.takeWhile(isLiteral), Array.reverse, joinValues),
+      })),
+      Array.dedupeWith(
+        (self, that) =>
+          self.unit === that.unit &&
+          self.isPast === that.isPast &&
+          self.prefix === that.prefix &&
+          self.suffix === that.suffix,
+      ),
+      // Most specific patterns first
+      Array.sort(
+        Order.mapInput(
+          Order.flip(Order.Number),
+          ({ prefix, suffix }: Pattern) => prefix.length + suffix.length,
+        ),
+      ),
+    );
+
+    const groupSeparator = pipe(
+      relativeTimeFormatInLocale.formatToParts(1_000_000, 'day'),
+      Array.findFirst(flow(Struct.get('type'), MPredicate.strictEquals('group'))),
+      Option.match({ onNone: () => '', onSome: Struct.get('value') }),
+    );
+
+    return Type.make({
+      name: style === 'long' && numeric === 'always' ? locale : `${locale} (${style}, ${numeric})`,
+      format: (value, unit) => relativeTimeFormatInLocale.format(value, unit),
+      patterns,
+      phrases,
+      groupSeparator,
+    });
+  });
+
+/**
+ * Same as `fromLocale` but returns directly a `CVRelativeTimeFormatContext` or throws in case of an
+ * error
+ *
+ * @category Constructors
+ */
+export const fromLocaleOrThrow = (
+  locale: string,
+  options?: {
+    readonly style?: Intl.RelativeTimeFormatStyle;
+    readonly numeric?: Intl.RelativeTimeFormatNumeric;
+  },
+): Type =>
+  pipe(
+    fromLocale(locale, options),
+    Option.getOrThrowWith(
+      () => new Error(`A CVRelativeTimeFormatContext could not be built for locale '${locale}'`),
+    ),
+  );
+
+/**
+ * `CVRelativeTimeFormatContext` instance for Great-Britain English language
+ *
+ * @category Instances
+ */
+export const enGB: Type = fromLocaleOrThrow('en-GB');
+
+/**
+ * Returns the `name` property of `self`
+ *
+ * @category Getters
+ */
+export const name: MTypes.OneArgFunction<Type, string> = Struct.get('name');
+
+/**
+ * Returns the `format` property of `self`
+ *
+ * @category Getters
+ */
+export const format: MTypes.OneArgFunction<Type, Type['format']> = Struct.get('format');
+
+/**
+ * Returns the `patterns` property of `self`
+ *
+ * @category Getters
+ */
+export const patterns: MTypes.OneArgFunction<Type, ReadonlyArray<Pattern>> = Struct.get('patterns');
+
+/**
+ * Returns the `phrases` property of `self`
+ *
+ * @category Getters
+ */
+export const phrases: MTypes.OneArgFunction<Type, ReadonlyArray<Phrase>> = Struct.get('phrases');
+
+/**
+ * Returns the `groupSeparator` property of `self`
+ *
+ * @category Getters
+ */
+export const groupSeparator: MTypes.OneArgFunction<Type, string> = Struct.get('groupSeparator');
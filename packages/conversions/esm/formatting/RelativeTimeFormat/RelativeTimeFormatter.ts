@@ -0,0 +1,185 @@
+/**
+ * This module implements a `CVRelativeTimeFormatter`, i.e. an object that writes the difference
+ * between a `CVDateTime` and a reference `CVDateTime` as a text, e.g. '3 days ago' or 'in 2 hours',
+ * according to a `CVRelativeTimeFormatContext`. The unit in which the difference is expressed is
+ * chosen with a configurable threshold for each unit.
+ */
+
+import { pipe } from 'effect';
+import * as Array from 'effect/Array';
+import * as Option from 'effect/Option';
+import * as Struct from 'effect/Struct';
+
+import * as MData from '@parischap/effect-lib/MData';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+import type * as CVDateTime from '../../DateTime/DateTime.js';
+import type * as CVRelativeTimeFormatContext from './RelativeTimeFormatContext.js';
+
+import {
+  DAY_MS,
+  HOUR_MS,
+  MINUTE_MS,
+  SECOND_MS,
+  WEEK_MS,
+} from '../../DateTime/date-time-constants.js';
+import * as CVDuration from '../../DateTime/Duration.js';
+import * as CVPeriod from '../../DateTime/Period.js';
+
+/**
+ * Module tag
+ *
+ * @category Module markers
+ */
+export const moduleTag =
+  '@parischap/conversions/formatting/RelativeTimeFormat/RelativeTimeFormatter/';
+const TypeId: unique symbol = Symbol.for(moduleTag) as TypeId;
+type TypeId = typeof TypeId;
+
+/**
+ * Type of the thresholds of a `CVRelativeTimeFormatter`. A unit is used as long as the absolute
+ * value of the difference expressed in that unit is strictly less than its threshold. Otherwise,
+ * the next unit is tried. Years have no threshold. A threshold of 0 disables a unit. A unit is also
+ * used, whatever its threshold, when the difference expressed in the next enabled unit is 0
+ *
+ * @category Models
+ */
+export interface Thresholds {
+  readonly second: number;
+  readonly minute: number;
+  readonly hour: number;
+  readonly day: number;
+  readonly week: number;
+  readonly month: number;
+}
+
+/**
+ * Default thresholds: 60 seconds, 60 minutes, 24 hours, 7 days, 4 weeks and 12 months
+ *
+ * @category Instances
+ */
+export const defaultThresholds: Thresholds = {
+  second: 60,
+  minute: 60,
+  hour: 24,
+  day: 7,
+  week: 4,
+  month: 12,
+};
+
+/**
+ * Type that represents a CVRelativeTimeFormatter
+ *
+ * @category Models
+ */
+export class Type extends MData.Class {
+  /** Name of this CVRelativeTimeFormatter */
+  readonly name: string;
+
+  /**
+   * Function that writes the difference between a `CVDateTime` and `reference` as a text. The
+   * difference is negative, i.e. written in the past, if the `CVDateTime` is before `reference`
+   */
+  readonly format: (reference: CVDateTime.Type) => MTypes.OneArgFunction<CVDateTime.Type, string>;
+
+  /** Returns the `id` of `this` */
+  [MData.idSymbol](): string | (() => string) {
+    return function idSymbol(this: Type) {
+      return this.name;
+    };
+  }
+
+  /** Class constructor */
+  private constructor({ name, format }: MTypes.Data<Type>) {
+    super();
+    this.name = name;
+    this.format = format;
+  }
+
+  /** Static constructor */
+  static make({
+    context,
+    thresholds,
+  }: {
+    readonly context: CVRelativeTimeFormatContext.Type;
+    readonly thresholds?: Partial<Thresholds>;
+  }): Type {
+    const actualThresholds = { ...defaultThresholds, ...thresholds };
+
+    const format =
+      (reference: CVDateTime.Type) =>
+      (dateTime: CVDateTime.Type): string => {
+        const { milliseconds } = CVDuration.between(reference, dateTime);
+        const period = CVPeriod.between(reference, dateTime);
+        // Differences are truncated so that '3 days ago' means at least 3 full days ago
+        const differences = pipe(
+          [
+            ['second', Math.trunc(milliseconds / SECOND_MS)],
+            ['minute', Math.trunc(milliseconds / MINUTE_MS)],
+            ['hour', Math.trunc(milliseconds / HOUR_MS)],
+            ['day', Math.trunc(milliseconds / DAY_MS)],
+            ['week', Math.trunc(milliseconds / WEEK_MS)],
+            ['month', period.years * 12 + period.months],
+            ['year', period.years],
+          ] as const,
+          Array.filter(([unit]) => unit === 'year' || actualThresholds[unit] > 0),
+        );
+
+        const [unit, value] = pipe(
+          differences,
+          Array.findFirst(
+            ([unit, value], index) =>
+              unit === 'year' ||
+              Math.abs(value) < actualThresholds[unit] ||
+              pipe(
+                differences,
+                Array.get(index + 1),
+                Option.exists(([, nextValue]) => nextValue === 0),
+              ),
+          ),
+          Option.getOrThrow,
+        );
+        return context.format(value, unit);
+      };
+
+    return new Type({
+      name: `relative time formatter in '${context.name}' context`,
+      format,
+    });
+  }
+
+  /** Returns the TypeMarker of the class */
+  protected get [TypeId](): TypeId {
+    return TypeId;
+  }
+}
+
+/**
+ * Builds a `CVRelativeTimeFormatter` from a `CVRelativeTimeFormatContext` and optional thresholds.
+ * Missing thresholds are taken from `defaultThresholds`.
+ *
+ * Differences in seconds, minutes, hours, days and weeks are calculated on the exact amount of time
+ * between the two `CVDateTime`'s (one day always lasts 24 hours). Differences in months and years
+ * are calculated in calendar units (see `CVPeriod.between`). In all cases, differences are
+ * truncated toward 0.
+ *
+ * @category Constructors
+ */
+export const make = (params: {
+  readonly context: CVRelativeTimeFormatContext.Type;
+  readonly thresholds?: Partial<Thresholds>;
+}): Type => Type.make(params);
+
+/**
+ * Returns the `name` property of `self`.
+ *
+ * @category Getters
+ */
+export const name: MTypes.OneArgFunction<Type, string> = Struct.get('name');
+
+/**
+ * Returns the `format` property of `self`.
+ *
+ * @category Getters
+ */
+export const format: MTypes.OneArgFunction<Type, Type['format']> = Struct.get('format');
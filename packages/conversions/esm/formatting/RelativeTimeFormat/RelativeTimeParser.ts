@@ -0,0 +1,182 @@
+/**
+ * This module implements a `CVRelativeTimeParser`, i.e. an object that reads a text written by a
+ * `CVRelativeTimeFormatter` with the same `CVRelativeTimeFormatContext`, e.g. '3 days ago' or 'in 2
+ * hours', and converts it into a `CVDateTime` by offsetting a reference `CVDateTime`.
+ */
+
+import { flow, pipe } from 'effect';
+import * as Array from 'effect/Array';
+import * as Function from 'effect/Function';
+import * as Option from 'effect/Option';
+import * as Result from 'effect/Result';
+import * as Struct from 'effect/Struct';
+
+import * as MData from '@parischap/effect-lib/MData';
+import * as MInputError from '@parischap/effect-lib/MInputError';
+import * as MRegExp from '@parischap/effect-lib/MRegExp';
+import * as MRegExpString from '@parischap/effect-lib/MRegExpString';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+import type * as CVDateTime from '../../DateTime/DateTime.js';
+import type * as CVRelativeTimeFormatContext from './RelativeTimeFormatContext.js';
+
+import * as CVDuration from '../../DateTime/Duration.js';
+import * as CVPeriod from '../../DateTime/Period.js';
+
+/**
+ * Module tag
+ *
+ * @category Module markers
+ */
+export const moduleTag = '@parischap/conversions/formatting/RelativeTimeFormat/RelativeTimeParser/';
+const TypeId: unique symbol = Symbol.for(moduleTag) as TypeId;
+type TypeId = typeof TypeId;
+
+/** Regular expression that matches a non-empty string of digits */
+const DIGITS_REGEXP = pipe(
+  MRegExpString.digit,
+  MRegExpString.oneOrMore,
+  MRegExpString.makeLine,
+  MRegExp.fromRegExpString(),
+);
+
+/**
+ * Type that represents a CVRelativeTimeParser
+ *
+ * @category Models
+ */
+export class Type extends MData.Class {
+  /** Name of this CVRelativeTimeParser */
+  readonly name: string;
+
+  /**
+   * Function that tries to convert a text into a `CVDateTime` by offsetting `reference` by the
+   * difference read in the text
+   */
+  readonly parse: (
+    reference: CVDateTime.Type,
+  ) => MTypes.OneArgFunction<string, Result.Result<CVDateTime.Type, MInputError.Type>>;
+
+  /** Same as `parse` but throws instead of returning a `Failure` in case of failure. */
+  readonly parseOrThrow: (
+    reference: CVDateTime.Type,
+  ) => MTypes.OneArgFunction<string, CVDateTime.Type>;
+
+  /** Returns the `id` of `this` */
+  [MData.idSymbol](): string | (() => string) {
+    return function idSymbol(this: Type) {
+      return this.name;
+    };
+  }
+
+  /** Class constructor */
+  private constructor({ name, parse, parseOrThrow }: MTypes.Data<Type>) {
+    super();
+    this.name = name;
+    this.parse = parse;
+    this.parseOrThrow = parseOrThrow;
+  }
+
+  /** Static constructor */
+  static make({ context }: { readonly context: CVRelativeTimeFormatContext.Type }): Type {
+    const name = `relative time parser in '${context.name}' context`;
+
+    const readPhrase = (
+      text: string,
+    ): Option.Option<readonly [CVRelativeTimeFormatContext.Unit, number]> =>
+      pipe(
+        context.phrases,
+        Array.findFirst(({ text: phraseText }) => phraseText === text),
+        Option.map(({ unit, value }) => [unit, value] as const),
+      );
+
+    const readPattern = (
+      text: string,
+    ): Option.Option<readonly [CVRelativeTimeFormatContext.Unit, number]> =>
+      pipe(
+        context.patterns,
+        Array.findFirst(({ unit, isPast, prefix, suffix }) =>
+          text.length > prefix.length + suffix.length &&
+          text.startsWith(prefix) &&
+          text.endsWith(suffix)
+            ? pipe(
+                text.slice(prefix.length, text.length - suffix.length),
+                (digits) =>
+                  context.groupSeparator === ''
+                    ? digits
+                    : digits.replaceAll(context.groupSeparator, ''),
+                Option.liftPredicate((digits) => DIGITS_REGEXP.test(digits)),
+                Option.map((digits) => [unit, isPast ? 0 - +digits : +digits] as const),
+              )
+            : Option.none(),
+        ),
+      );
+
+    const offset = ([unit, value]: readonly [CVRelativeTimeFormatContext.Unit, number]) =>
+      unit === 'year'
+        ? CVPeriod.addToDateTime(CVPeriod.fromPartsOrThrow({ years: value }))
+        : unit === 'month'
+          ? CVPeriod.addToDateTime(CVPeriod.fromPartsOrThrow({ months: value }))
+          : CVDuration.addToDateTime(CVDuration.make({ [`${unit}s`]: value }));
+
+    const parse =
+      (reference: CVDateTime.Type) =>
+      (text: string): Result.Result<CVDateTime.Type, MInputError.Type> =>
+        pipe(
+          text,
+          readPhrase,
+          Option.orElse(() => readPattern(text)),
+          Result.fromOption(
+            () =>
+              new MInputError.Type({
+                message: `'${text}' is not a relative time in '${context.name}' context`,
+              }),
+          ),
+          Result.flatMap((difference) => offset(difference)(reference)),
+        );
+
+    return new Type({
+      name,
+      parse,
+      parseOrThrow: flow(parse, Function.compose(Result.getOrThrowWith(Function.identity))),
+    });
+  }
+
+  /** Returns the TypeMarker of the class */
+  protected get [TypeId](): TypeId {
+    return TypeId;
+  }
+}
+
+/**
+ * Builds a `CVRelativeTimeParser` from a `CVRelativeTimeFormatContext`. Like for the
+ * `CVRelativeTimeFormatter`, seconds, minutes, hours, days and weeks are added to the reference as
+ * an exact amount of time whereas months and years are added as calendar units (see
+ * `CVPeriod.addToDateTime`).
+ *
+ * @category Constructors
+ */
+export const make = (params: { readonly context: CVRelativeTimeFormatContext.Type }): Type =>
+  Type.make(params);
+
+/**
+ * Returns the `name` property of `self`.
+ *
+ * @category Getters
+ */
+export const name: MTypes.OneArgFunction<Type, string> = Struct.get('name');
+
+/**
+ * Returns the `parse` property of `self`.
+ *
+ * @category Getters
+ */
+export const parse: MTypes.OneArgFunction<Type, Type['parse']> = Struct.get('parse');
+
+/**
+ * Returns the `parseOrThrow` property of `self`.
+ *
+ * @category Getters
+ */
+export const parseOrThrow: MTypes.OneArgFunction<Type, Type['parseOrThrow']> =
+  Struct.get('parseOrThrow');
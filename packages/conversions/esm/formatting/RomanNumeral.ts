@@ -0,0 +1,168 @@
+/**
+ * This module implements conversions between integers and Roman numerals, e.g. 14 <-> 'XIV'. Only
+ * canonical Roman numerals, i.e. those that use the subtractive notation for 4s and 9s ('IV', 'IX',
+ * 'XL', 'XC', 'CD', 'CM') and never repeat a symbol more than three times, are accepted. So 'IIII',
+ * 'VX' or 'IC' are rejected. The handled range is 1 to 3999 included
+ */
+
+import { pipe } from 'effect';
+import * as Array from 'effect/Array';
+import * as Option from 'effect/Option';
+import * as Tuple from 'effect/Tuple';
+
+import * as MRegExp from '@parischap/effect-lib/MRegExp';
+import * as MRegExpString from '@parischap/effect-lib/MRegExpString';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+/**
+ * Module tag
+ *
+ * @category Module markers
+ */
+export const moduleTag = '@parischap/conversions/formatting/RomanNumeral/';
+
+/**
+ * Smallest integer that can be written as a Roman numeral
+ *
+ * @category Constants
+ */
+export const MIN_VALUE = 1;
+
+/**
+ * Largest integer that can be written as a Roman numeral
+ *
+ * @category Constants
+ */
+export const MAX_VALUE = 3999;
+
+const SYMBOLS: ReadonlyArray<MTypes.Pair<string, number>> = [
+  ['M', 1000],
+  ['CM', 900],
+  ['D', 500],
+  ['CD', 400],
+  ['C', 100],
+  ['XC', 90],
+  ['L', 50],
+  ['XL', 40],
+  ['X', 10],
+  ['IX', 9],
+  ['V', 5],
+  ['IV', 4],
+  ['I', 1],
+];
+
+/**
+ * Returns a pattern matching the canonical writing of a digit from 0 to 9 whose units are written
+ * `one`, `five` and `ten`, e.g. 'IV' or 'VIII' for `I`, `V` and `X`
+ */
+const digitRegExpString = (one: string, five: string, ten: string): string =>
+  MRegExpString.either(
+    one + ten,
+    one + five,
+    MRegExpString.optional(five) + MRegExpString.repeatBetween(0, 3)(one),
+  );
+
+/** Regular expression matching the longest canonical Roman numeral at the start of a string */
+const canonicalRegExp = pipe(
+  MRegExpString.repeatBetween(0, 3)('M') +
+    digitRegExpString('C', 'D', 'M') +
+    digitRegExpString('X', 'L', 'C') +
+    digitRegExpString('I', 'V', 'X'),
+  MRegExpString.atStart,
+  MRegExp.fromRegExpString(),
+);
+
+/** Regular expression matching an upper-case Roman letter */
+const romanLetterRegExp = pipe(
+  ['I', 'V', 'X', 'L', 'C', 'D', 'M'],
+  MRegExpString.anyCharIn,
+  MRegExp.fromRegExpString(),
+);
+
+/**
+ * Writes `value` as an upper-case Roman numeral. Returns a `none` if `value` is not an integer
+ * between `MIN_VALUE` and `MAX_VALUE` included
+ *
+ * @category Destructors
+ */
+export const fromNumber = (value: number): Option.Option<string> =>
+  Number.isInteger(value) && value >= MIN_VALUE && value <= MAX_VALUE
+    ? Option.some(
+        pipe(
+          SYMBOLS,
+          Array.reduce(Tuple.make('', value), ([result, rest], [symbol, symbolValue]) =>
+            Tuple.make(result + symbol.repeat(Math.floor(rest / symbolValue)), rest % symbolValue),
+          ),
+          Tuple.get(0),
+        ),
+      )
+    : Option.none();
+
+/**
+ * Same as `fromNumber` but throws in case of failure
+ *
+ * @category Destructors
+ */
+export const fromNumberOrThrow = (value: number): string =>
+  pipe(
+    value,
+    fromNumber,
+    Option.getOrThrowWith(() => new Error(`${value} cannot be written as a Roman numeral`)),
+  );
+
+/**
+ * Tries to extract an upper-case canonical Roman numeral from the start of `text`. If successful,
+ * returns a `some` of its value and of the extracted text. Otherwise, returns a `none`. Extraction
+ * fails if the canonical Roman numeral is directly followed by another Roman letter, e.g. 'IIII'
+ *
+ * @category Constructors
+ */
+export const extract = (text: string): Option.Option<MTypes.Pair<number, string>> =>
+  pipe(
+    canonicalRegExp.exec(text),
+    Option.fromNullishOr,
+    Option.map(([match]) => match),
+    Option.filter((match) => match !== '' && !romanLetterRegExp.test(text.charAt(match.length))),
+    Option.map((match) =>
+      Tuple.make(
+        pipe(
+          SYMBOLS,
+          Array.reduce(Tuple.make(0, match), ([result, rest], [symbol, symbolValue]) => {
+            const count = pipe(
+              Array.range(1, 3),
+              Array.takeWhile((n) => rest.startsWith(symbol.repeat(n))),
+              Array.length,
+            );
+            return Tuple.make(result + count * symbolValue, rest.slice(count * symbol.length));
+          }),
+          Tuple.get(0),
+        ),
+        match,
+      ),
+    ),
+  );
+
+/**
+ * Same as `extract` but the whole of `text` must be a canonical Roman numeral
+ *
+ * @category Constructors
+ */
+export const parse = (text: string): Option.Option<number> =>
+  pipe(
+    text,
+    extract,
+    Option.filter(([, match]) => match.length === text.length),
+    Option.map(Tuple.get(0)),
+  );
+
+/**
+ * Same as `parse` but throws in case of failure
+ *
+ * @category Constructors
+ */
+export const parseOrThrow = (text: string): number =>
+  pipe(
+    text,
+    parse,
+    Option.getOrThrowWith(() => new Error(`'${text}' is not a canonical Roman numeral`)),
+  );
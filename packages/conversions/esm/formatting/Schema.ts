@@ -8,30 +8,88 @@ import * as Array from 'effect/Array';
 import type * as BigDecimal from 'effect/BigDecimal';
 import type * as DateTime from 'effect/DateTime';
 import * as Effect from 'effect/Effect';
+import * as Function from 'effect/Function';
 import * as Option from 'effect/Option';
-import * as Record from 'effect/Record';
 import * as Result from 'effect/Result';
 import * as Schema from 'effect/Schema';
 import * as SchemaIssue from 'effect/SchemaIssue';
 import * as SchemaTransformation from 'effect/SchemaTransformation';
-import * as Tuple from 'effect/Tuple';
+import * as Struct from 'effect/Struct';
 
-import * as MMatch from '@parischap/effect-lib/MMatch';
-import * as MTuple from '@parischap/effect-lib/MTuple';
+import type * as MInputError from '@parischap/effect-lib/MInputError';
 import type * as MTypes from '@parischap/effect-lib/MTypes';
 
+import type * as CVCurrencyFormat from './CurrencyFormat/CurrencyFormat.js';
 import type * as CVNumberBase10Format from './NumberBase10Format/NumberBase10Format.js';
+import type * as CVNumberRadixFormat from './NumberRadixFormat/NumberRadixFormat.js';
 import type * as CVTemplate from './template/Template.js';
 
 import * as CVDateTime from '../DateTime/DateTime.js';
+import * as CVDuration from '../DateTime/Duration.js';
+import * as CVPeriod from '../DateTime/Period.js';
+import * as CVTemplateParts from '../internal/formatting/template/TemplateParts.js';
+import * as CVCurrencyFormatter from './CurrencyFormat/CurrencyFormatter.js';
+import * as CVCurrencyParser from './CurrencyFormat/CurrencyParser.js';
+import * as CVDateTimeFormat from './DateTimeFormat/DateTimeFormat.js';
+import * as CVDateTimeFormatContext from './DateTimeFormat/DateTimeFormatContext/DateTimeFormatContext.js';
 import * as CVDateTimeFormatter from './DateTimeFormat/DateTimeFormatter.js';
+import * as CVDateTimeLenientParser from './DateTimeFormat/DateTimeLenientParser.js';
 import * as CVDateTimeParser from './DateTimeFormat/DateTimeParser.js';
 import * as CVNumberBase10Formatter from './NumberBase10Format/NumberBase10Formatter.js';
 import * as CVNumberBase10Parser from './NumberBase10Format/NumberBase10Parser.js';
+import * as CVNumberRadixFormatter from './NumberRadixFormat/NumberRadixFormatter.js';
+import * as CVNumberRadixParser from './NumberRadixFormat/NumberRadixParser.js';
 import * as CVTemplateFormatter from './template/TemplateFormatter.js';
+import * as CVTemplateParseError from './template/TemplateParseError.js';
 import * as CVTemplateParser from './template/TemplateParser.js';
-import * as CVTemplatePart from './template/TemplatePart/TemplatePart.js';
-import * as CVTemplatePlaceholder from './template/TemplatePart/TemplatePlaceholder/TemplatePlaceholder.js';
+
+/**
+ * Returns a function that builds the `SchemaIssue` raised when a text cannot be parsed by the
+ * parser described by `description`. `extract` is used to find the offset of the first character of
+ * the text that could not be parsed
+ */
+const _unparsableIssueFactory =
+  (
+    description: string,
+    extract: MTypes.OneArgFunction<string, Option.Option<MTypes.Pair<unknown, string>>>,
+  ) =>
+  (actual: string): SchemaIssue.Issue => {
+    const offset = pipe(
+      actual,
+      extract,
+      Option.match({ onNone: Function.constant(0), onSome: ([, consumed]) => consumed.length }),
+    );
+    return new SchemaIssue.InvalidValue(Option.some(actual), {
+      message: `${description}: '${actual}' could not be parsed from offset ${offset}`,
+      offset,
+    });
+  };
+
+/**
+ * Builds the `SchemaIssue` raised when the parsing or formatting of `actual` fails with
+ * `inputError`. The message of `inputError` is kept. If `inputError` is a `CVTemplateParseError`
+ * raised by a placeholder, the returned issue points to that placeholder and its annotations also
+ * contain the offset at which parsing failed
+ */
+const _issueFromInputError =
+  (actual: unknown) =>
+  (inputError: MInputError.Type): SchemaIssue.Issue => {
+    if (!CVTemplateParseError.isTemplateParseError(inputError))
+      return new SchemaIssue.InvalidValue(Option.some(actual), { message: inputError.message });
+    const invalidValue = new SchemaIssue.InvalidValue(Option.some(actual), {
+      message: inputError.message,
+      offset: inputError.offset,
+    });
+    return pipe(
+      inputError,
+      CVTemplateParseError.path,
+      Option.liftPredicate(Array.isReadonlyArrayNonEmpty),
+      Option.match({
+        onNone: Function.constant(invalidValue),
+        onSome: (path) => new SchemaIssue.Pointer(path, invalidValue),
+      }),
+    );
+  };
 
 /**
  * A `Schema` that transforms a string into a number according to the `format`. Read documentation
@@ -42,10 +100,11 @@ import * as CVTemplatePlaceholder from './template/TemplatePart/TemplatePlacehol
 export const FiniteFromString = (
   format: CVNumberBase10Format.Type,
 ): Schema.Codec<number, string> => {
-  const parseFunction = pipe(
-    format,
-    CVNumberBase10Parser.fromFormat,
-    CVNumberBase10Parser.parseAsNumber,
+  const parser = CVNumberBase10Parser.fromFormat(format);
+  const parseFunction = CVNumberBase10Parser.parseAsNumber(parser);
+  const unparsableIssue = _unparsableIssueFactory(
+    parser.description,
+    CVNumberBase10Parser.extractAsNumber(parser),
   );
   const formatFunction = pipe(
     format,
@@ -60,7 +119,7 @@ export const FiniteFromString = (
           pipe(
             s,
             parseFunction,
-            Result.fromOption(() => new SchemaIssue.InvalidValue(Option.some(s))),
+            Result.fromOption(() => unparsableIssue(s)),
             Effect.fromResult,
           ),
         encode: (s) =>
@@ -84,10 +143,11 @@ export const FiniteFromString = (
 export const BigDecimalFromString = (
   format: CVNumberBase10Format.Type,
 ): Schema.Codec<BigDecimal.BigDecimal, string> => {
-  const parseFunction = pipe(
-    format,
-    CVNumberBase10Parser.fromFormat,
-    CVNumberBase10Parser.parseAsBigDecimal,
+  const parser = CVNumberBase10Parser.fromFormat(format);
+  const parseFunction = CVNumberBase10Parser.parseAsBigDecimal(parser);
+  const unparsableIssue = _unparsableIssueFactory(
+    parser.description,
+    CVNumberBase10Parser.extractAsBigDecimal(parser),
   );
   const formatFunction = pipe(
     format,
@@ -102,15 +162,134 @@ export const BigDecimalFromString = (
           pipe(
             s,
             parseFunction,
+            Result.fromOption(() => unparsableIssue(s)),
+            Effect.fromResult,
+          ),
+        encode: flow(formatFunction, Effect.succeed),
+      }),
+    ),
+  );
+};
+
+/**
+ * A `Schema` that transforms a string into an integer according to `format`. Read documentation of
+ * module NumberRadixFormat.ts for more details
+ *
+ * @category Utils
+ */
+export const IntFromRadixString = (
+  format: CVNumberRadixFormat.Type,
+): Schema.Codec<number, string> => {
+  const parser = CVNumberRadixParser.fromFormat(format);
+  const parseFunction = CVNumberRadixParser.parseAsNumber(parser);
+  const unparsableIssue = _unparsableIssueFactory(
+    parser.description,
+    CVNumberRadixParser.extractAsNumber(parser),
+  );
+  const formatFunction = pipe(
+    format,
+    CVNumberRadixFormatter.fromFormat,
+    CVNumberRadixFormatter.format,
+  );
+  return Schema.String.pipe(
+    Schema.decodeTo(
+      Schema.Int,
+      SchemaTransformation.transformOrFail({
+        decode: (s) =>
+          pipe(
+            s,
+            parseFunction,
+            Result.fromOption(() => unparsableIssue(s)),
+            Effect.fromResult,
+          ),
+        encode: (s) =>
+          pipe(
+            s,
+            formatFunction,
             Result.fromOption(() => new SchemaIssue.InvalidValue(Option.some(s))),
             Effect.fromResult,
           ),
+      }),
+    ),
+  );
+};
+
+/**
+ * A `Schema` that transforms a string into a bigint according to `format`. Read documentation of
+ * module NumberRadixFormat.ts for more details
+ *
+ * @category Utils
+ */
+export const BigIntFromRadixString = (
+  format: CVNumberRadixFormat.Type,
+): Schema.Codec<bigint, string> => {
+  const parser = CVNumberRadixParser.fromFormat(format);
+  const parseFunction = CVNumberRadixParser.parseAsBigInt(parser);
+  const unparsableIssue = _unparsableIssueFactory(
+    parser.description,
+    CVNumberRadixParser.extractAsBigInt(parser),
+  );
+  const formatFunction = pipe(
+    format,
+    CVNumberRadixFormatter.fromFormat,
+    CVNumberRadixFormatter.formatOrThrow,
+  );
+  return Schema.String.pipe(
+    Schema.decodeTo(
+      Schema.BigInt,
+      SchemaTransformation.transformOrFail({
+        decode: (s) =>
+          pipe(
+            s,
+            parseFunction,
+            Result.fromOption(() => unparsableIssue(s)),
+            Effect.fromResult,
+          ),
         encode: flow(formatFunction, Effect.succeed),
       }),
     ),
   );
 };
 
+/**
+ * A `Schema` that transforms a string into a `{ amount, currency }` value according to `format`.
+ * Read documentation of module CurrencyFormat.ts for more details
+ *
+ * @category Utils
+ */
+export const AmountFromString = (
+  format: CVCurrencyFormat.Type,
+): Schema.Codec<CVCurrencyFormat.Amount, string> => {
+  const parser = CVCurrencyParser.fromFormat(format);
+  const parseFunction = CVCurrencyParser.parse(parser);
+  const unparsableIssue = _unparsableIssueFactory(
+    parser.description,
+    CVCurrencyParser.extract(parser),
+  );
+  const formatFunction = pipe(format, CVCurrencyFormatter.fromFormat, CVCurrencyFormatter.format);
+  return Schema.String.pipe(
+    Schema.decodeTo(
+      Schema.Struct({ amount: Schema.BigDecimal, currency: Schema.String }),
+      SchemaTransformation.transformOrFail({
+        decode: (s) =>
+          pipe(
+            s,
+            parseFunction,
+            Result.fromOption(() => unparsableIssue(s)),
+            Effect.fromResult,
+          ),
+        encode: (s) =>
+          pipe(
+            s,
+            formatFunction,
+            Result.fromOption(() => new SchemaIssue.InvalidValue(Option.some(s))),
+            Effect.fromResult,
+          ),
+      }),
+    ),
+  );
+};
+
 const CVDateTimeFromSelf: Schema.Codec<CVDateTime.Type> = Schema.declare(
   (input: unknown): input is CVDateTime.Type => input instanceof CVDateTime.Type,
 );
@@ -176,19 +355,9 @@ export const CVDateTimeFromString = (
       CVDateTimeFromSelf,
       SchemaTransformation.transformOrFail({
         decode: (s) =>
-          pipe(
-            s,
-            parseFunction,
-            Result.mapError(() => new SchemaIssue.InvalidValue(Option.some(s))),
-            Effect.fromResult,
-          ),
+          pipe(s, parseFunction, Result.mapError(_issueFromInputError(s)), Effect.fromResult),
         encode: (d) =>
-          pipe(
-            d,
-            formatFunction,
-            Result.mapError(() => new SchemaIssue.InvalidValue(Option.some(d))),
-            Effect.fromResult,
-          ),
+          pipe(d, formatFunction, Result.mapError(_issueFromInputError(d)), Effect.fromResult),
       }),
     ),
   );
@@ -220,6 +389,149 @@ export const DateTimeZonedFromString = (
 ): Schema.Codec<DateTime.Zoned, string> =>
   CVDateTimeFromString(parser, formatter).pipe(Schema.decodeTo(DateTimeZonedFromCVDateTime));
 
+/** Builds a `CVDateTimeFromString` `Schema` from `dateTimeFormat` in the `enGB` context */
+const CVDateTimeFromEnGBString = (
+  dateTimeFormat: CVDateTimeFormat.Type,
+): Schema.Codec<CVDateTime.Type, string> =>
+  CVDateTimeFromString(
+    CVDateTimeParser.make({ dateTimeFormat, context: CVDateTimeFormatContext.enGB }),
+    CVDateTimeFormatter.make({ dateTimeFormat, context: CVDateTimeFormatContext.enGB }),
+  );
+
+/**
+ * A `Schema` that transforms an RFC 3339 timestamp with milliseconds (e.g.
+ * `2005-06-05T14:05:05.007Z`) into a `CVDateTime`. See `CVDateTimeFormat.rfc3339Ms`
+ *
+ * @category Instances
+ */
+export const CVDateTimeFromRfc3339String: Schema.Codec<CVDateTime.Type, string> =
+  CVDateTimeFromEnGBString(CVDateTimeFormat.rfc3339Ms);
+
+/** `CVDateTimeFormatter` used to encode RFC 2822 dates */
+const rfc2822Formatter = CVDateTimeFormatter.make({
+  dateTimeFormat: CVDateTimeFormat.rfc2822,
+  context: CVDateTimeFormatContext.enGB,
+});
+
+/**
+ * A `Schema` that transforms an RFC 2822 date (e.g. `Tue, 1 Jul 2003 10:52:37 +0200`) into a
+ * `CVDateTime`. Decoding accepts dates without weekday or with a zero-padded day (see
+ * `CVDateTimeLenientParser.rfc2822`). Encoding uses `CVDateTimeFormat.rfc2822`
+ *
+ * @category Instances
+ */
+export const CVDateTimeFromRfc2822String: Schema.Codec<CVDateTime.Type, string> =
+  Schema.String.pipe(
+    Schema.decodeTo(
+      CVDateTimeFromSelf,
+      SchemaTransformation.transformOrFail({
+        decode: (s) =>
+          pipe(
+            s,
+            CVDateTimeLenientParser.rfc2822.parse,
+            Result.map(Struct.get('dateTime')),
+            Result.mapError(_issueFromInputError(s)),
+            Effect.fromResult,
+          ),
+        encode: (d) =>
+          pipe(
+            d,
+            CVDateTimeFormatter.format(rfc2822Formatter),
+            Result.mapError(_issueFromInputError(d)),
+            Effect.fromResult,
+          ),
+      }),
+    ),
+  );
+
+/**
+ * A `Schema` that transforms an IMF-fixdate HTTP date (e.g. `Sun, 06 Nov 1994 08:49:37 GMT`) into a
+ * `CVDateTime`. Only UTC `CVDateTime`'s can be encoded. See `CVDateTimeFormat.imfFixdate`
+ *
+ * @category Instances
+ */
+export const CVDateTimeFromImfFixdateString: Schema.Codec<CVDateTime.Type, string> =
+  CVDateTimeFromEnGBString(CVDateTimeFormat.imfFixdate);
+
+/**
+ * A `Schema` that transforms a Common Log Format date (e.g. `10/Oct/2000:13:55:36 -0700`) into a
+ * `CVDateTime`. See `CVDateTimeFormat.commonLogFormat`
+ *
+ * @category Instances
+ */
+export const CVDateTimeFromCommonLogFormatString: Schema.Codec<CVDateTime.Type, string> =
+  CVDateTimeFromEnGBString(CVDateTimeFormat.commonLogFormat);
+
+const CVDurationFromSelf: Schema.Codec<CVDuration.Type> = Schema.declare(
+  (input: unknown): input is CVDuration.Type => input instanceof CVDuration.Type,
+);
+
+export {
+  /**
+   * A `Schema` that represents a `CVDuration`
+   *
+   * @category Instances
+   */
+  CVDurationFromSelf as CVDuration,
+};
+
+/**
+ * A `Schema` that transforms an ISO 8601 duration string (e.g. `PT76H3M2.5S`) into a `CVDuration`.
+ * Read documentation of module Duration.ts for more details
+ *
+ * @category Utils
+ */
+export const CVDurationFromString: Schema.Codec<CVDuration.Type, string> = Schema.String.pipe(
+  Schema.decodeTo(
+    CVDurationFromSelf,
+    SchemaTransformation.transformOrFail({
+      decode: (s) =>
+        pipe(
+          s,
+          CVDuration.fromIsoString,
+          Result.mapError(_issueFromInputError(s)),
+          Effect.fromResult,
+        ),
+      encode: flow(CVDuration.toIsoString, Effect.succeed),
+    }),
+  ),
+);
+
+const CVPeriodFromSelf: Schema.Codec<CVPeriod.Type> = Schema.declare(
+  (input: unknown): input is CVPeriod.Type => input instanceof CVPeriod.Type,
+);
+
+export {
+  /**
+   * A `Schema` that represents a `CVPeriod`
+   *
+   * @category Instances
+   */
+  CVPeriodFromSelf as CVPeriod,
+};
+
+/**
+ * A `Schema` that transforms an ISO 8601 duration string (e.g. `P3M2DT4H`) into a `CVPeriod`. Read
+ * documentation of module Period.ts for more details
+ *
+ * @category Utils
+ */
+export const CVPeriodFromString: Schema.Codec<CVPeriod.Type, string> = Schema.String.pipe(
+  Schema.decodeTo(
+    CVPeriodFromSelf,
+    SchemaTransformation.transformOrFail({
+      decode: (s) =>
+        pipe(
+          s,
+          CVPeriod.fromIsoString,
+          Result.mapError(_issueFromInputError(s)),
+          Effect.fromResult,
+        ),
+      encode: flow(CVPeriod.toIsoString, Effect.succeed),
+    }),
+  ),
+);
+
 /**
  * A `Schema` that transforms a string into an object according to `template`. Read documentation of
  * module Template.ts for more details
@@ -238,24 +550,7 @@ export const Template = <PlaceholderTypes extends MTypes.Object>(
 
   const schemaOutput = pipe(
     template.templateParts,
-    Array.filterMap(
-      flow(
-        MMatch.make,
-        MMatch.when(CVTemplatePart.isSeparator, () => Result.failVoid),
-        MMatch.when(
-          CVTemplatePart.isPlaceholder,
-          flow(
-            MTuple.replicate(2),
-            Tuple.evolve(
-              Tuple.make(CVTemplatePlaceholder.name, CVTemplatePlaceholder.tSchemaInstance),
-            ),
-            Result.succeed,
-          ),
-        ),
-        MMatch.exhaustive,
-      ),
-    ),
-    Record.fromEntries,
+    CVTemplateParts.getSchemaFields,
     Schema.Struct,
   ) as unknown as Schema.Codec<PlaceholderTypes>;
 
@@ -264,19 +559,9 @@ export const Template = <PlaceholderTypes extends MTypes.Object>(
       schemaOutput,
       SchemaTransformation.transformOrFail({
         decode: (s) =>
-          pipe(
-            s,
-            parseFunction,
-            Result.mapError(() => new SchemaIssue.InvalidValue(Option.some(s))),
-            Effect.fromResult,
-          ),
+          pipe(s, parseFunction, Result.mapError(_issueFromInputError(s)), Effect.fromResult),
         encode: (d) =>
-          pipe(
-            d,
-            formatFunction,
-            Result.mapError(() => new SchemaIssue.InvalidValue(Option.some(d))),
-            Effect.fromResult,
-          ),
+          pipe(d, formatFunction, Result.mapError(_issueFromInputError(d)), Effect.fromResult),
       }),
     ),
   );
@@ -0,0 +1,281 @@
+/**
+ * This module implements a CVSpellOutFormatter, i.e. an object that can write integers, ordinals
+ * and amounts of money in words according to the CVSpellOutRuleSet that was used to construct it,
+ * e.g. 'one thousand two hundred and thirty-four', 'twenty-first' or 'one thousand two hundred and
+ * thirty-four euros and fifty cents'
+ */
+
+import { pipe } from 'effect';
+import * as Array from 'effect/Array';
+import * as BigDecimal from 'effect/BigDecimal';
+import * as Option from 'effect/Option';
+import * as Predicate from 'effect/Predicate';
+import * as Struct from 'effect/Struct';
+
+import * as MData from '@parischap/effect-lib/MData';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+import type * as CVCurrencyFormat from '../CurrencyFormat/CurrencyFormat.js';
+
+import * as CVRounder from '../../rounding/Rounder.js';
+import * as CVRounderParams from '../../rounding/RounderParams.js';
+import * as CVSpellOutRuleSet from './SpellOutRuleSet.js';
+
+/**
+ * Module tag
+ *
+ * @category Module markers
+ */
+export const moduleTag = '@parischap/conversions/formatting/SpellOutFormat/SpellOutFormatter/';
+const TypeId: unique symbol = Symbol.for(moduleTag) as TypeId;
+type TypeId = typeof TypeId;
+
+/**
+ * Type that represents a CVSpellOutFormatter
+ *
+ * @category Models
+ */
+export class Type extends MData.Class {
+  /** Description of this formatter */
+  readonly description: string;
+
+  /**
+   * Function that writes an integer in words, e.g. 'minus twenty-one'. If successful, that function
+   * returns a `some` of the written integer. Otherwise, it returns a `none` (it will return a
+   * `none` only if the integer is a number that is not a safe integer or if it is too large for the
+   * scales of the CVSpellOutRuleSet from which `this` was constructed)
+   */
+  readonly formatCardinal: MTypes.OneArgFunction<bigint | number, Option.Option<string>>;
+
+  /** Same as `formatCardinal` but throws instead of returning a `none` in case of failure */
+  readonly formatCardinalOrThrow: MTypes.OneArgFunction<bigint | number, string>;
+
+  /**
+   * Same as `formatCardinal` but writes the ordinal form of the integer, e.g. 'twenty-first'. Also
+   * returns a `none` if the integer is not strictly positive
+   */
+  readonly formatOrdinal: MTypes.OneArgFunction<bigint | number, Option.Option<string>>;
+
+  /** Same as `formatOrdinal` but throws instead of returning a `none` in case of failure */
+  readonly formatOrdinalOrThrow: MTypes.OneArgFunction<bigint | number, string>;
+
+  /**
+   * Function that writes an amount of money in words, e.g. 'one thousand two hundred and
+   * thirty-four euros and fifty cents'. The amount is first rounded to the number of minor units of
+   * its currency with the `HalfExpand` rounding option. The major units are omitted if there are
+   * only minor units, e.g. 'fifty cents'. If successful, that function returns a `some` of the
+   * written amount. Otherwise, it returns a `none` (it will return a `none` only if the currency of
+   * the amount is not handled by the CVSpellOutRuleSet from which `this` was constructed or if the
+   * amount is too large)
+   */
+  readonly formatAmount: MTypes.OneArgFunction<CVCurrencyFormat.Amount, Option.Option<string>>;
+
+  /** Same as `formatAmount` but throws instead of returning a `none` in case of failure */
+  readonly formatAmountOrThrow: MTypes.OneArgFunction<CVCurrencyFormat.Amount, string>;
+
+  /** Returns the `id` of `this` */
+  [MData.idSymbol](): string | (() => string) {
+    return function idSymbol(this: Type) {
+      return this.description;
+    };
+  }
+
+  /** Class constructor */
+  constructor(ruleSet: CVSpellOutRuleSet.Type) {
+    super();
+    this.description = `${ruleSet.name} spell-out formatter`;
+    const { zeroWord, minusWord, groupWords, scaleNouns, quantity, amountConnector } = ruleSet;
+    const toOrdinal = CVSpellOutRuleSet.toOrdinal(ruleSet);
+
+    const unsignedCardinalFormatter = (value: bigint): Option.Option<string> => {
+      if (value === 0n) return Option.some(zeroWord);
+      // Groups of three digits, lowest scale first
+      const groups = Array.unfold(value, (rest) =>
+        rest === 0n ? Option.none() : Option.some([Number(rest % 1000n), rest / 1000n] as const),
+      );
+      if (groups.length > scaleNouns.length + 1) return Option.none();
+      return pipe(
+        groups,
+        Array.map((group, scale) => ({ group, scale })),
+        Array.filter(({ group }) => group !== 0),
+        Array.reverse,
+        Array.map(({ group, scale }, index) =>
+          pipe(
+            [
+              groupWords({ value: group, scale, hasHigherGroups: index > 0 }),
+              pipe(
+                scaleNouns,
+                Array.get(scale - 1),
+                Option.match({
+                  onNone: () => '',
+                  onSome: ({ singular, plural }) => (group > 1 ? plural : singular),
+                }),
+              ),
+            ],
+            Array.filter((part) => part !== ''),
+            Array.join(' '),
+          ),
+        ),
+        Array.join(' '),
+        Option.some,
+      );
+    };
+
+    const toBigInt = (value: bigint | number): Option.Option<bigint> =>
+      Predicate.isNumber(value)
+        ? pipe(value, Option.liftPredicate(Number.isSafeInteger), Option.map(BigInt))
+        : Option.some(value);
+
+    const signedCardinalFormatter = (value: bigint): Option.Option<string> =>
+      value < 0n
+        ? pipe(
+            unsignedCardinalFormatter(-value),
+            Option.map((cardinal) => `${minusWord} ${cardinal}`),
+          )
+        : unsignedCardinalFormatter(value);
+
+    this.formatCardinal = (value) => pipe(value, toBigInt, Option.flatMap(signedCardinalFormatter));
+
+    this.formatCardinalOrThrow = (value) =>
+      pipe(
+        value,
+        this.formatCardinal,
+        Option.getOrThrowWith(
+          () => new Error(`Integer '${value}' could not be written in ${ruleSet.name} words`),
+        ),
+      );
+
+    this.formatOrdinal = (value) =>
+      pipe(
+        value,
+        toBigInt,
+        Option.filter((n) => n > 0n),
+        Option.flatMap(unsignedCardinalFormatter),
+        Option.map(toOrdinal),
+      );
+
+    this.formatOrdinalOrThrow = (value) =>
+      pipe(
+        value,
+        this.formatOrdinal,
+        Option.getOrThrowWith(
+          () => new Error(`Integer '${value}' could not be written as a ${ruleSet.name} ordinal`),
+        ),
+      );
+
+    this.formatAmount = ({ amount, currency }) =>
+      Option.gen(function* () {
+        const {
+          currency: { minorUnits },
+          major,
+          minor,
+        } = yield* pipe(ruleSet, CVSpellOutRuleSet.currencyNamesFromCode(currency));
+        const { value } = pipe(
+          amount,
+          CVRounder.bigDecimal(CVRounderParams.make({ precision: minorUnits })),
+          BigDecimal.scale(minorUnits),
+        );
+        const absValue = value < 0n ? -value : value;
+        const minorUnitsPerMajorUnit = 10n ** BigInt(minorUnits);
+        const majorValue = absValue / minorUnitsPerMajorUnit;
+        const minorValue = absValue % minorUnitsPerMajorUnit;
+
+        const majorText =
+          majorValue === 0n && minorValue !== 0n
+            ? ''
+            : quantity(majorValue, yield* unsignedCardinalFormatter(majorValue), major);
+        const minorText =
+          minorValue === 0n
+            ? ''
+            : quantity(minorValue, yield* unsignedCardinalFormatter(minorValue), minor);
+
+        return (
+          (value < 0n ? `${minusWord} ` : '') +
+          pipe(
+            [majorText, minorText],
+            Array.filter((part) => part !== ''),
+            Array.join(` ${amountConnector} `),
+          )
+        );
+      });
+
+    this.formatAmountOrThrow = (amount) =>
+      pipe(
+        amount,
+        this.formatAmount,
+        Option.getOrThrowWith(
+          () =>
+            new Error(
+              `Amount '${BigDecimal.format(amount.amount)} ${amount.currency}' could not be written in ${ruleSet.name} words`,
+            ),
+        ),
+      );
+  }
+
+  /** Returns the TypeMarker of the class */
+  protected get [TypeId](): TypeId {
+    return TypeId;
+  }
+}
+
+/**
+ * Constructor of a CVSpellOutFormatter from a CVSpellOutRuleSet
+ *
+ * @category Constructors
+ */
+export const fromRuleSet = (ruleSet: CVSpellOutRuleSet.Type) => new Type(ruleSet);
+
+/**
+ * Returns the `description` property of `self`
+ *
+ * @category Getters
+ */
+export const description: MTypes.OneArgFunction<Type, string> = Struct.get('description');
+
+/**
+ * Returns the `formatCardinal` property of `self`.
+ *
+ * @category Getters
+ */
+export const formatCardinal: MTypes.OneArgFunction<Type, Type['formatCardinal']> =
+  Struct.get('formatCardinal');
+
+/**
+ * Returns the `formatCardinalOrThrow` property of `self`.
+ *
+ * @category Getters
+ */
+export const formatCardinalOrThrow: MTypes.OneArgFunction<Type, Type['formatCardinalOrThrow']> =
+  Struct.get('formatCardinalOrThrow');
+
+/**
+ * Returns the `formatOrdinal` property of `self`.
+ *
+ * @category Getters
+ */
+export const formatOrdinal: MTypes.OneArgFunction<Type, Type['formatOrdinal']> =
+  Struct.get('formatOrdinal');
+
+/**
+ * Returns the `formatOrdinalOrThrow` property of `self`.
+ *
+ * @category Getters
+ */
+export const formatOrdinalOrThrow: MTypes.OneArgFunction<Type, Type['formatOrdinalOrThrow']> =
+  Struct.get('formatOrdinalOrThrow');
+
+/**
+ * Returns the `formatAmount` property of `self`.
+ *
+ * @category Getters
+ */
+export const formatAmount: MTypes.OneArgFunction<Type, Type['formatAmount']> =
+  Struct.get('formatAmount');
+
+/**
+ * Returns the `formatAmountOrThrow` property of `self`.
+ *
+ * @category Getters
+ */
+export const formatAmountOrThrow: MTypes.OneArgFunction<Type, Type['formatAmountOrThrow']> =
+  Struct.get('formatAmountOrThrow');
@@ -0,0 +1,569 @@
+/**
+ * This module implements a CVSpellOutParser, i.e. an object that can read integers, ordinals and
+ * amounts of money written in words according to the CVSpellOutRuleSet that was used to construct
+ * it. Only the spellings that the CVSpellOutFormatter built from the same CVSpellOutRuleSet would
+ * produce are accepted, e.g. 'one thousand and five' but not 'one thousand five' in English
+ */
+
+import { pipe } from 'effect';
+import * as Array from 'effect/Array';
+import * as BigDecimal from 'effect/BigDecimal';
+import * as Option from 'effect/Option';
+import * as String from 'effect/String';
+import * as Struct from 'effect/Struct';
+import * as Tuple from 'effect/Tuple';
+
+import * as MData from '@parischap/effect-lib/MData';
+import * as MRegExp from '@parischap/effect-lib/MRegExp';
+import * as MRegExpString from '@parischap/effect-lib/MRegExpString';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+import type * as CVCurrencyFormat from '../CurrencyFormat/CurrencyFormat.js';
+
+import * as CVSpellOutFormatter from './SpellOutFormatter.js';
+import * as CVSpellOutRuleSet from './SpellOutRuleSet.js';
+
+/**
+ * Module tag
+ *
+ * @category Module markers
+ */
+export const moduleTag = '@parischap/conversions/formatting/SpellOutFormat/SpellOutParser/';
+const TypeId: unique symbol = Symbol.for(moduleTag) as TypeId;
+type TypeId = typeof TypeId;
+
+/** A group followed by the noun of its scale, e.g. 'two hundred thousand' */
+interface Piece {
+  /** Value of the piece, e.g. 200_000n */
+  readonly value: bigint;
+
+  /** Scale of the piece, e.g. 1 */
+  readonly scale: number;
+}
+
+/** Regular expression matching a letter of any alphabet */
+const letterRegExp = pipe(MRegExpString.unicodeLetter, MRegExp.fromRegExpString('u'));
+
+// Returns true if no word continues at position `index` of `text`
+const isWordEnd = (text: string, index: number): boolean => !letterRegExp.test(text.charAt(index));
+
+/**
+ * Type that represents a CVSpellOutParser
+ *
+ * @category Models
+ */
+export class Type extends MData.Class {
+  /** Description of this parser */
+  readonly description: string;
+
+  /**
+   * Function that tries to extract, from the start of a string `text`, an integer written in words
+   * according to the CVSpellOutRuleSet from which `this` was constructed. If successful, returns a
+   * `some` containing the extracted `value` and `parsedText` (the part of `text` that could be
+   * analyzed as representing an integer). Otherwise, it returns a `none`
+   */
+  readonly extractCardinal: MTypes.OneArgFunction<
+    string,
+    Option.Option<MTypes.Pair<bigint, string>>
+  >;
+
+  /** Same as `extractCardinal` but throws in case of failure */
+  readonly extractCardinalOrThrow: MTypes.OneArgFunction<string, MTypes.Pair<bigint, string>>;
+
+  /**
+   * Same as `extractCardinal` but the whole of the input text must represent an integer, not just
+   * its start. `parsedText` does not need to be returned since it is equal to the input text
+   */
+  readonly parseCardinal: MTypes.OneArgFunction<string, Option.Option<bigint>>;
+
+  /** Same as `parseCardinal` but throws in case of failure */
+  readonly parseCardinalOrThrow: MTypes.OneArgFunction<string, bigint>;
+
+  /** Same as `extractCardinal` but for an ordinal, e.g. 'twenty-first' */
+  readonly extractOrdinal: MTypes.OneArgFunction<
+    string,
+    Option.Option<MTypes.Pair<bigint, string>>
+  >;
+
+  /** Same as `extractOrdinal` but throws in case of failure */
+  readonly extractOrdinalOrThrow: MTypes.OneArgFunction<string, MTypes.Pair<bigint, string>>;
+
+  /** Same as `parseCardinal` but for an ordinal, e.g. 'twenty-first' */
+  readonly parseOrdinal: MTypes.OneArgFunction<string, Option.Option<bigint>>;
+
+  /** Same as `parseOrdinal` but throws in case of failure */
+  readonly parseOrdinalOrThrow: MTypes.OneArgFunction<string, bigint>;
+
+  /**
+   * Same as `extractCardinal` but for an amount of money, e.g. 'one euro and fifty cents'. The
+   * currency of the amount is the first currency of the CVSpellOutRuleSet whose unit names match
+   */
+  readonly extractAmount: MTypes.OneArgFunction<
+    string,
+    Option.Option<MTypes.Pair<CVCurrencyFormat.Amount, string>>
+  >;
+
+  /** Same as `extractAmount` but throws in case of failure */
+  readonly extractAmountOrThrow: MTypes.OneArgFunction<
+    string,
+    MTypes.Pair<CVCurrencyFormat.Amount, string>
+  >;
+
+  /** Same as `parseCardinal` but for an amount of money, e.g. 'one euro and fifty cents' */
+  readonly parseAmount: MTypes.OneArgFunction<string, Option.Option<CVCurrencyFormat.Amount>>;
+
+  /** Same as `parseAmount` but throws in case of failure */
+  readonly parseAmountOrThrow: MTypes.OneArgFunction<string, CVCurrencyFormat.Amount>;
+
+  /** Returns the `id` of `this` */
+  [MData.idSymbol](): string | (() => string) {
+    return function idSymbol(this: Type) {
+      return this.description;
+    };
+  }
+
+  /** Class constructor */
+  constructor(ruleSet: CVSpellOutRuleSet.Type) {
+    super();
+    this.description = `${ruleSet.name} spell-out parser`;
+    const { zeroWord, minusWord, groupWords, scaleNouns, ordinalWord, quantity, amountConnector } =
+      ruleSet;
+    const formatter = CVSpellOutFormatter.fromRuleSet(ruleSet);
+    const toOrdinal = CVSpellOutRuleSet.toOrdinal(ruleSet);
+
+    // All the pieces the rule set can write, with their written form
+    const pieces: ReadonlyArray<MTypes.Pair<string, Piece>> = pipe(
+      Array.range(0, scaleNouns.length),
+      Array.flatMap((scale) =>
+        pipe(
+          Array.range(1, 999),
+          Array.flatMap((group) =>
+            pipe(
+              [false, true],
+              Array.map((hasHigherGroups) =>
+                Tuple.make(
+                  pipe(
+                    [
+                      groupWords({ value: group, scale, hasHigherGroups }),
+                      pipe(
+                        scaleNouns,
+                        Array.get(scale - 1),
+                        Option.match({
+                          onNone: () => '',
+                          onSome: ({ singular, plural }) => (group > 1 ? plural : singular),
+                        }),
+                      ),
+                    ],
+                    Array.filter((part) => part !== ''),
+                    Array.join(' '),
+                  ),
+                  { value: BigInt(group) * 1000n ** BigInt(scale), scale },
+                ),
+              ),
+            ),
+          ),
+        ),
+      ),
+    );
+
+    const cardinalPieces: ReadonlyMap<string, Piece> = new Map(pieces);
+
+    // The last piece of an ordinal has its last word in ordinal form
+    const ordinalPieces: ReadonlyMap<string, Piece> = new Map(
+      Array.flatMap(pieces, ([text, piece]) => {
+        const lastSeparatorIndex = Math.max(text.lastIndexOf(' '), text.lastIndexOf('-'));
+        return [
+          Tuple.make(toOrdinal(text), piece),
+          Tuple.make(
+            text.slice(0, lastSeparatorIndex + 1) +
+              ordinalWord(text.slice(lastSeparatorIndex + 1), false),
+            piece,
+          ),
+        ];
+      }),
+    );
+
+    const maxPieceLength = pipe(
+      [...cardinalPieces.keys(), ...ordinalPieces.keys()],
+      Array.map(String.length),
+      Array.reduce(0, Math.max),
+    );
+
+    // Extracts from the start of `text` the longest piece of `pieceMap` whose scale is strictly lower than `maxScale`
+    const pieceExtractor =
+      (pieceMap: ReadonlyMap<string, Piece>) =>
+      (text: string, maxScale: number): Option.Option<MTypes.Pair<Piece, number>> =>
+        pipe(
+          Array.range(1, Math.min(maxPieceLength, text.length)),
+          Array.reverse,
+          Array.findFirst((length) =>
+            isWordEnd(text, length)
+              ? pipe(
+                  pieceMap.get(text.slice(0, length)),
+                  Option.fromUndefinedOr,
+                  Option.filter(({ scale }) => scale < maxScale),
+                  Option.map((piece) => Tuple.make(piece, length)),
+                )
+              : Option.none(),
+          ),
+        );
+
+    const cardinalPieceExtractor = pieceExtractor(cardinalPieces);
+    const ordinalPieceExtractor = pieceExtractor(ordinalPieces);
+
+    /*
+     * Reads pieces separated by a space and with decreasing scales from position `position` of
+     * `text`. Returns the read value and the position of its end. For ordinals, reading stops after
+     * the first ordinal piece
+     */
+    const piecesExtractor = (isOrdinal: boolean) => {
+      const go =
+        (text: string) =>
+        (
+          position: number,
+          total: bigint,
+          maxScale: number,
+        ): Option.Option<MTypes.Pair<bigint, number>> => {
+          const rest = text.slice(position);
+          const cardinalPiece = cardinalPieceExtractor(rest, maxScale);
+          const ordinalPiece = isOrdinal ? ordinalPieceExtractor(rest, maxScale) : Option.none();
+
+          if (
+            Option.isSome(ordinalPiece) &&
+            (Option.isNone(cardinalPiece) || ordinalPiece.value[1] >= cardinalPiece.value[1])
+          ) {
+            const [{ value }, length] = ordinalPiece.value;
+            return Option.some(Tuple.make(total + value, position + length));
+          }
+
+          return pipe(
+            cardinalPiece,
+            Option.flatMap(([{ value, scale }, length]) => {
+              const newTotal = total + value;
+              const end = position + length;
+              const ending = isOrdinal ? Option.none() : Option.some(Tuple.make(newTotal, end));
+              return text.charAt(end) === ' '
+                ? pipe(
+                    go(text)(end + 1, newTotal, scale),
+                    Option.orElse(() => ending),
+                  )
+                : ending;
+            }),
+          );
+        };
+      return (text: string): Option.Option<MTypes.Pair<bigint, number>> =>
+        !isOrdinal && pipe(text, String.startsWith(zeroWord)) && isWordEnd(text, zeroWord.length)
+          ? Option.some(Tuple.make(0n, zeroWord.length))
+          : go(text)(0, 0n, Infinity);
+    };
+
+    const unsignedCardinalExtractor = piecesExtractor(false);
+    const unsignedOrdinalExtractor = piecesExtractor(true);
+
+    const minusPrefix = `${minusWord} `;
+    const signLength = (text: string): number =>
+      pipe(text, String.startsWith(minusPrefix)) ? minusPrefix.length : 0;
+
+    // Accepts only the text that the formatter would have written for `value`
+    const canonicalFilter =
+      <A>(text: string, toText: MTypes.OneArgFunction<A, Option.Option<string>>) =>
+      ([value, length]: MTypes.Pair<A, number>): Option.Option<MTypes.Pair<A, string>> => {
+        const parsedText = text.slice(0, length);
+        return pipe(
+          value,
+          toText,
+          Option.filter((formatted) => formatted === parsedText),
+          Option.as(Tuple.make(value, parsedText)),
+        );
+      };
+
+    this.extractCardinal = (text) => {
+      const sign = signLength(text);
+      return pipe(
+        text.slice(sign),
+        unsignedCardinalExtractor,
+        Option.map(([value, length]) => Tuple.make(sign === 0 ? value : -value, sign + length)),
+        Option.flatMap(canonicalFilter<bigint>(text, formatter.formatCardinal)),
+      );
+    };
+
+    this.extractCardinalOrThrow = (text) =>
+      pipe(
+        text,
+        this.extractCardinal,
+        Option.getOrThrowWith(
+          () =>
+            new Error(
+              `An integer written in ${ruleSet.name} words could not be parsed from the start of '${text}'`,
+            ),
+        ),
+      );
+
+    this.parseCardinal = (text) =>
+      pipe(
+        text,
+        this.extractCardinal,
+        Option.filter(([, match]) => match.length === text.length),
+        Option.map(Tuple.get(0)),
+      );
+
+    this.parseCardinalOrThrow = (text) =>
+      pipe(
+        text,
+        this.parseCardinal,
+        Option.getOrThrowWith(
+          () =>
+            new Error(
+              `An integer written in ${ruleSet.name} words could not be parsed from '${text}'`,
+            ),
+        ),
+      );
+
+    this.extractOrdinal = (text) =>
+      pipe(
+        text,
+        unsignedOrdinalExtractor,
+        Option.flatMap(canonicalFilter<bigint>(text, formatter.formatOrdinal)),
+      );
+
+    this.extractOrdinalOrThrow = (text) =>
+      pipe(
+        text,
+        this.extractOrdinal,
+        Option.getOrThrowWith(
+          () =>
+            new Error(`A ${ruleSet.name} ordinal could not be parsed from the start of '${text}'`),
+        ),
+      );
+
+    this.parseOrdinal = (text) =>
+      pipe(
+        text,
+        this.extractOrdinal,
+        Option.filter(([, match]) => match.length === text.length),
+        Option.map(Tuple.get(0)),
+      );
+
+    this.parseOrdinalOrThrow = (text) =>
+      pipe(
+        text,
+        this.parseOrdinal,
+        Option.getOrThrowWith(
+          () => new Error(`A ${ruleSet.name} ordinal could not be parsed from '${text}'`),
+        ),
+      );
+
+    const connector = ` ${amountConnector} `;
+
+    /*
+     * Reads `value` units of `noun` from the start of `text`, `value` being written in words at the
+     * start of `text`. Returns `value` and the length of the read text
+     */
+    const quantityExtractor =
+      (noun: CVSpellOutRuleSet.Noun) =>
+      (text: string): Option.Option<MTypes.Pair<bigint, number>> =>
+        Option.gen(function* () {
+          const [value, length] = yield* unsignedCardinalExtractor(text);
+          const quantityText = quantity(value, text.slice(0, length), noun);
+          yield* pipe(
+            text,
+            Option.liftPredicate(
+              (t) => pipe(t, String.startsWith(quantityText)) && isWordEnd(t, quantityText.length),
+            ),
+          );
+          return Tuple.make(value, quantityText.length);
+        });
+
+    this.extractAmount = (text) => {
+      const sign = signLength(text);
+      const unsignedText = text.slice(sign);
+      return pipe(
+        ruleSet.currencyNames,
+        Array.findFirst(({ currency: { code, minorUnits }, major, minor }) => {
+          const minorUnitsPerMajorUnit = 10n ** BigInt(minorUnits);
+          const minorExtractor = quantityExtractor(minor);
+          const toAmount = ([units, length]: MTypes.Pair<bigint, number>) =>
+            Tuple.make(
+              {
+                amount: BigDecimal.make(sign === 0 ? units : -units, minorUnits),
+                currency: code,
+              },
+              sign + length,
+            );
+
+          return pipe(
+            unsignedText,
+            quantityExtractor(major),
+            Option.map(([majorValue, majorLength]) =>
+              pipe(
+                unsignedText.slice(majorLength),
+                Option.liftPredicate(
+                  (rest) => minorUnits > 0 && pipe(rest, String.startsWith(connector)),
+                ),
+                Option.flatMap((rest) => minorExtractor(rest.slice(connector.length))),
+                Option.match({
+                  onNone: () => Tuple.make(majorValue * minorUnitsPerMajorUnit, majorLength),
+                  onSome: ([minorValue, minorLength]) =>
+                    Tuple.make(
+                      majorValue * minorUnitsPerMajorUnit + minorValue,
+                      majorLength + connector.length + minorLength,
+                    ),
+                }),
+              ),
+            ),
+            Option.orElse(() => (minorUnits > 0 ? minorExtractor(unsignedText) : Option.none())),
+            Option.map(toAmount),
+            Option.flatMap(canonicalFilter(text, formatter.formatAmount)),
+          );
+        }),
+      );
+    };
+
+    this.extractAmountOrThrow = (text) =>
+      pipe(
+        text,
+        this.extractAmount,
+        Option.getOrThrowWith(
+          () =>
+            new Error(
+              `An amount written in ${ruleSet.name} words could not be parsed from the start of '${text}'`,
+            ),
+        ),
+      );
+
+    this.parseAmount = (text) =>
+      pipe(
+        text,
+        this.extractAmount,
+        Option.filter(([, match]) => match.length === text.length),
+        Option.map(Tuple.get(0)),
+      );
+
+    this.parseAmountOrThrow = (text) =>
+      pipe(
+        text,
+        this.parseAmount,
+        Option.getOrThrowWith(
+          () =>
+            new Error(
+              `An amount written in ${ruleSet.name} words could not be parsed from '${text}'`,
+            ),
+        ),
+      );
+  }
+
+  /** Returns the TypeMarker of the class */
+  protected get [TypeId](): TypeId {
+    return TypeId;
+  }
+}
+
+/**
+ * Constructor of a CVSpellOutParser from a CVSpellOutRuleSet
+ *
+ * @category Constructors
+ */
+export const fromRuleSet = (ruleSet: CVSpellOutRuleSet.Type) => new Type(ruleSet);
+
+/**
+ * Returns the `description` property of `self`
+ *
+ * @category Getters
+ */
+export const description: MTypes.OneArgFunction<Type, string> = Struct.get('description');
+
+/**
+ * Returns the `extractCardinal` property of `self`.
+ *
+ * @category Getters
+ */
+export const extractCardinal: MTypes.OneArgFunction<Type, Type['extractCardinal']> =
+  Struct.get('extractCardinal');
+
+/**
+ * Returns the `extractCardinalOrThrow` property of `self`.
+ *
+ * @category Getters
+ */
+export const extractCardinalOrThrow: MTypes.OneArgFunction<Type, Type['extractCardinalOrThrow']> =
+  Struct.get('extractCardinalOrThrow');
+
+/**
+ * Returns the `parseCardinal` property of `self`.
+ *
+ * @category Getters
+ */
+export const parseCardinal: MTypes.OneArgFunction<Type, Type['parseCardinal']> =
+  Struct.get('parseCardinal');
+
+/**
+ * Returns the `parseCardinalOrThrow` property of `self`.
+ *
+ * @category Getters
+ */
+export const parseCardinalOrThrow: MTypes.OneArgFunction<Type, Type['parseCardinalOrThrow']> =
+  Struct.get('parseCardinalOrThrow');
+
+/**
+ * Returns the `extractOrdinal` property of `self`.
+ *
+ * @category Getters
+ */
+export const extractOrdinal: MTypes.OneArgFunction<Type, Type['extractOrdinal']> =
+  Struct.get('extractOrdinal');
+
+/**
+ * Returns the `extractOrdinalOrThrow` property of `self`.
+ *
+ * @category Getters
+ */
+export const extractOrdinalOrThrow: MTypes.OneArgFunction<Type, Type['extractOrdinalOrThrow']> =
+  Struct.get('extractOrdinalOrThrow');
+
+/**
+ * Returns the `parseOrdinal` property of `self`.
+ *
+ * @category Getters
+ */
+export const parseOrdinal: MTypes.OneArgFunction<Type, Type['parseOrdinal']> =
+  Struct.get('parseOrdinal');
+
+/**
+ * Returns the `parseOrdinalOrThrow` property of `self`.
+ *
+ * @category Getters
+ */
+export const parseOrdinalOrThrow: MTypes.OneArgFunction<Type, Type['parseOrdinalOrThrow']> =
+  Struct.get('parseOrdinalOrThrow');
+
+/**
+ * Returns the `extractAmount` property of `self`.
+ *
+ * @category Getters
+ */
+export const extractAmount: MTypes.OneArgFunction<Type, Type['extractAmount']> =
+  Struct.get('extractAmount');
+
+/**
+ * Returns the `extractAmountOrThrow` property of `self`.
+ *
+ * @category Getters
+ */
+export const extractAmountOrThrow: MTypes.OneArgFunction<Type, Type['extractAmountOrThrow']> =
+  Struct.get('extractAmountOrThrow');
+
+/**
+ * Returns the `parseAmount` property of `self`.
+ *
+ * @category Getters
+ */
+export const parseAmount: MTypes.OneArgFunction<Type, Type['parseAmount']> =
+  Struct.get('parseAmount');
+
+/**
+ * Returns the `parseAmountOrThrow` property of `self`.
+ *
+ * @category Getters
+ */
+export const parseAmountOrThrow: MTypes.OneArgFunction<Type, Type['parseAmountOrThrow']> =
+  Struct.get('parseAmountOrThrow');
@@ -0,0 +1,530 @@
+/**
+ * This module implements a `CVSpellOutRuleSet`, i.e. the table of rules used by a
+ * `CVSpellOutFormatter` and a `CVSpellOutParser` to write numbers in words in a given language,
+ * e.g. 'one thousand two hundred and thirty-four' or 'mille deux cent trente-quatre'. New languages
+ * can be added by building a `CVSpellOutRuleSet` with the `make` constructor.
+ *
+ * Numbers are written group by group, a group being made of three digits and multiplied by a power
+ * of 1000 called its scale, e.g. 1_234_567 is made of the group 1 with scale 2 (million), the group
+ * 234 with scale 1 (thousand) and the group 567 with scale 0. The words of a group are followed by
+ * the noun of its scale, if any. Groups are separated by a space and null groups are omitted.
+ */
+
+import { pipe } from 'effect';
+import * as Array from 'effect/Array';
+import type * as Option from 'effect/Option';
+import * as Struct from 'effect/Struct';
+
+import * as MData from '@parischap/effect-lib/MData';
+import * as MRegExp from '@parischap/effect-lib/MRegExp';
+import * as MRegExpString from '@parischap/effect-lib/MRegExpString';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+import * as CVCurrency from '../CurrencyFormat/Currency.js';
+
+/**
+ * Module tag
+ *
+ * @category Module markers
+ */
+export const moduleTag = '@parischap/conversions/formatting/SpellOutFormat/SpellOutRuleSet/';
+const TypeId: unique symbol = Symbol.for(moduleTag) as TypeId;
+type TypeId = typeof TypeId;
+
+/**
+ * Type of a noun with its singular and plural forms, e.g. { singular: 'euro', plural: 'euros' }
+ *
+ * @category Models
+ */
+export interface Noun {
+  readonly singular: string;
+  readonly plural: string;
+}
+
+/**
+ * Type of the names of the major and minor units of a currency, e.g. euros and cents
+ *
+ * @category Models
+ */
+export interface CurrencyNames {
+  /** Currency whose units are named */
+  readonly currency: CVCurrency.Type;
+
+  /** Name of the major unit, e.g. { singular: 'euro', plural: 'euros' } */
+  readonly major: Noun;
+
+  /**
+   * Name of the minor unit, e.g. { singular: 'cent', plural: 'cents' }. Not used if the currency
+   * has no minor units
+   */
+  readonly minor: Noun;
+}
+
+/**
+ * Type of the parameters passed to the `groupWords` function of a `CVSpellOutRuleSet`
+ *
+ * @category Models
+ */
+export interface GroupParams {
+  /** Value of the group. Always between 1 and 999 */
+  readonly value: number;
+
+  /** Scale of the group, i.e. the power of 1000 the group is multiplied by */
+  readonly scale: number;
+
+  /** `true` if the number contains non-null groups with a higher scale */
+  readonly hasHigherGroups: boolean;
+}
+
+/**
+ * Type that represents a `CVSpellOutRuleSet`
+ *
+ * @category Models
+ */
+export class Type extends MData.Class {
+  /** Name of this rule set, e.g. 'English' */
+  readonly name: string;
+
+  /** Word used for 0, e.g. 'zero' */
+  readonly zeroWord: string;
+
+  /** Word written before negative numbers, e.g. 'minus' */
+  readonly minusWord: string;
+
+  /**
+   * Function that returns the words of a group without the noun of its scale, e.g. 'two hundred and
+   * thirty-four' for the group 234. May return an empty string, e.g. for the group 1 with scale 1
+   * in French ('mille', not 'un mille')
+   */
+  readonly groupWords: MTypes.OneArgFunction<GroupParams, string>;
+
+  /**
+   * Nouns of the scales, starting from scale 1, e.g. thousand, million, billion... The plural form
+   * is used when the group value is greater than 1. Numbers greater than or equal to `1000 **
+   * (scaleNouns.length + 1)` cannot be written
+   */
+  readonly scaleNouns: ReadonlyArray<Noun>;
+
+  /**
+   * Function that turns the last word of a number into its ordinal form, e.g. 'one' into 'first'.
+   * `isAlone` is `true` if that word is the whole number. Words are separated by spaces and
+   * hyphens
+   */
+  readonly ordinalWord: (word: string, isAlone: boolean) => string;
+
+  /**
+   * Function that writes `value` units of `noun`, `cardinal` being `value` written in words, e.g.
+   * 'one euro' or 'un million d'euros'. `value` is always positive
+   */
+  readonly quantity: (value: bigint, cardinal: string, noun: Noun) => string;
+
+  /** Word written between the major and minor units of an amount, e.g. 'and' */
+  readonly amountConnector: string;
+
+  /** Names of the units of the currencies that can be written in words */
+  readonly currencyNames: ReadonlyArray<CurrencyNames>;
+
+  /** Class constructor */
+  private constructor({
+    name,
+    zeroWord,
+    minusWord,
+    groupWords,
+    scaleNouns,
+    ordinalWord,
+    quantity,
+    amountConnector,
+    currencyNames,
+  }: MTypes.Data<Type>) {
+    super();
+    this.name = name;
+    this.zeroWord = zeroWord;
+    this.minusWord = minusWord;
+    this.groupWords = groupWords;
+    this.scaleNouns = scaleNouns;
+    this.ordinalWord = ordinalWord;
+    this.quantity = quantity;
+    this.amountConnector = amountConnector;
+    this.currencyNames = currencyNames;
+  }
+
+  /** Static constructor */
+  static make(params: MTypes.Data<Type>): Type {
+    return new Type(params);
+  }
+
+  /** Returns the `id` of `this` */
+  [MData.idSymbol](): string | (() => string) {
+    return function idSymbol(this: Type) {
+      return this.name;
+    };
+  }
+
+  /** Returns the TypeMarker of the class */
+  protected get [TypeId](): TypeId {
+    return TypeId;
+  }
+}
+
+/**
+ * Constructor
+ *
+ * @category Constructors
+ */
+export const make = (params: MTypes.Data<Type>): Type => Type.make(params);
+
+/**
+ * Returns the `name` property of `self`
+ *
+ * @category Getters
+ */
+export const name: MTypes.OneArgFunction<Type, string> = Struct.get('name');
+
+/**
+ * Returns the `zeroWord` property of `self`
+ *
+ * @category Getters
+ */
+export const zeroWord: MTypes.OneArgFunction<Type, string> = Struct.get('zeroWord');
+
+/**
+ * Returns the `minusWord` property of `self`
+ *
+ * @category Getters
+ */
+export const minusWord: MTypes.OneArgFunction<Type, string> = Struct.get('minusWord');
+
+/**
+ * Returns the `groupWords` property of `self`
+ *
+ * @category Getters
+ */
+export const groupWords: MTypes.OneArgFunction<Type, Type['groupWords']> = Struct.get('groupWords');
+
+/**
+ * Returns the `scaleNouns` property of `self`
+ *
+ * @category Getters
+ */
+export const scaleNouns: MTypes.OneArgFunction<Type, ReadonlyArray<Noun>> = Struct.get(
+  'scaleNouns',
+);
+
+/**
+ * Returns the `ordinalWord` property of `self`
+ *
+ * @category Getters
+ */
+export const ordinalWord: MTypes.OneArgFunction<Type, Type['ordinalWord']> =
+  Struct.get('ordinalWord');
+
+/**
+ * Returns the `quantity` property of `self`
+ *
+ * @category Getters
+ */
+export const quantity: MTypes.OneArgFunction<Type, Type['quantity']> = Struct.get('quantity');
+
+/**
+ * Returns the `amountConnector` property of `self`
+ *
+ * @category Getters
+ */
+export const amountConnector: MTypes.OneArgFunction<Type, string> = Struct.get('amountConnector');
+
+/**
+ * Returns the `currencyNames` property of `self`
+ *
+ * @category Getters
+ */
+export const currencyNames: MTypes.OneArgFunction<Type, ReadonlyArray<CurrencyNames>> = Struct.get(
+  'currencyNames',
+);
+
+/**
+ * Returns the names of the units of the currency whose ISO 4217 code is `code` if `self` has them.
+ * Returns a `none` otherwise
+ *
+ * @category Destructors
+ */
+export const currencyNamesFromCode =
+  (code: string) =>
+  (self: Type): Option.Option<CurrencyNames> =>
+    pipe(
+      self.currencyNames,
+      Array.findFirst(({ currency }) => currency.code === code),
+    );
+
+/**
+ * Returns the ordinal form of `cardinal`, a number written in words according to `self`, by turning
+ * its last word into its ordinal form, e.g. 'twenty-one' into 'twenty-first'
+ *
+ * @category Destructors
+ */
+export const toOrdinal =
+  (self: Type) =>
+  (cardinal: string): string => {
+    const lastSeparatorIndex = Math.max(cardinal.lastIndexOf(' '), cardinal.lastIndexOf('-'));
+    return (
+      cardinal.slice(0, lastSeparatorIndex + 1) +
+      self.ordinalWord(cardinal.slice(lastSeparatorIndex + 1), lastSeparatorIndex === -1)
+    );
+  };
+
+const ENGLISH_UNITS = [
+  'zero',
+  'one',
+  'two',
+  'three',
+  'four',
+  'five',
+  'six',
+  'seven',
+  'eight',
+  'nine',
+  'ten',
+  'eleven',
+  'twelve',
+  'thirteen',
+  'fourteen',
+  'fifteen',
+  'sixteen',
+  'seventeen',
+  'eighteen',
+  'nineteen',
+];
+
+const ENGLISH_TENS = [
+  '',
+  '',
+  'twenty',
+  'thirty',
+  'forty',
+  'fifty',
+  'sixty',
+  'seventy',
+  'eighty',
+  'ninety',
+];
+
+const ENGLISH_IRREGULAR_ORDINALS: Record<string, string> = {
+  one: 'first',
+  two: 'second',
+  three: 'third',
+  five: 'fifth',
+  eight: 'eighth',
+  nine: 'ninth',
+  twelve: 'twelfth',
+};
+
+const englishBelowHundred = (value: number): string => {
+  if (value < 20) return ENGLISH_UNITS[value]!;
+  const units = value % 10;
+  const tens = ENGLISH_TENS[(value - units) / 10]!;
+  return units === 0 ? tens : `${tens}-${ENGLISH_UNITS[units]}`;
+};
+
+/**
+ * English `CVSpellOutRuleSet` instance that uses British conventions, e.g. 'one thousand two
+ * hundred and thirty-four', 'twenty-first' or 'one euro and fifty cents'. Handles numbers up to
+ * quintillions (10^18) and amounts in euros, US dollars, pounds sterling and Swiss francs
+ *
+ * @category Instances
+ */
+export const english: Type = make({
+  name: 'English',
+  zeroWord: 'zero',
+  minusWord: 'minus',
+  groupWords: ({ value, scale, hasHigherGroups }) => {
+    const rest = value % 100;
+    const hundreds = (value - rest) / 100;
+    // British English writes 'and' before the tens, e.g. 'one hundred and five', 'one thousand and five'
+    const useAnd = hundreds > 0 || (scale === 0 && hasHigherGroups);
+    return pipe(
+      [
+        hundreds > 0 ? `${ENGLISH_UNITS[hundreds]} hundred` : '',
+        rest === 0 ? '' : useAnd ? `and ${englishBelowHundred(rest)}` : englishBelowHundred(rest),
+      ],
+      Array.filter((part) => part !== ''),
+      Array.join(' '),
+    );
+  },
+  scaleNouns: pipe(
+    ['thousand', 'million', 'billion', 'trillion', 'quadrillion', 'quintillion'],
+    Array.map((singular) => ({ singular, plural: singular })),
+  ),
+  ordinalWord: (word) =>
+    word in ENGLISH_IRREGULAR_ORDINALS
+      ? ENGLISH_IRREGULAR_ORDINALS[word]!
+      : word.endsWith('y')
+        ? `${word.slice(0, -1)}ieth`
+        : `${word}th`,
+  quantity: (value, cardinal, { singular, plural }) =>
+    `${cardinal} ${value === 1n ? singular : plural}`,
+  amountConnector: 'and',
+  currencyNames: [
+    {
+      currency: CVCurrency.eur,
+      major: { singular: 'euro', plural: 'euros' },
+      minor: { singular: 'cent', plural: 'cents' },
+    },
+    {
+      currency: CVCurrency.usd,
+      major: { singular: 'dollar', plural: 'dollars' },
+      minor: { singular: 'cent', plural: 'cents' },
+    },
+    {
+      currency: CVCurrency.gbp,
+      major: { singular: 'pound', plural: 'pounds' },
+      minor: { singular: 'penny', plural: 'pence' },
+    },
+    {
+      currency: CVCurrency.chf,
+      major: { singular: 'Swiss franc', plural: 'Swiss francs' },
+      minor: { singular: 'centime', plural: 'centimes' },
+    },
+  ],
+});
+
+const FRENCH_UNITS = [
+  'zéro',
+  'un',
+  'deux',
+  'trois',
+  'quatre',
+  'cinq',
+  'six',
+  'sept',
+  'huit',
+  'neuf',
+  'dix',
+  'onze',
+  'douze',
+  'treize',
+  'quatorze',
+  'quinze',
+  'seize',
+];
+
+const FRENCH_TENS = ['', '', 'vingt', 'trente', 'quarante', 'cinquante', 'soixante'];
+
+/** Regular expression matching the French words that end with a plural mark, e.g. 'millions' */
+const FRENCH_PLURAL_WORD_REGEXP = pipe(
+  MRegExpString.either('cents', 'vingts', 'ions', 'ards'),
+  MRegExpString.atEnd,
+  MRegExp.fromRegExpString(),
+);
+
+/** Regular expression matching a word that starts with a vowel */
+const VOWEL_START_REGEXP = pipe(
+  ['a', 'e', 'i', 'o', 'u', 'y'],
+  MRegExpString.anyCharIn,
+  MRegExpString.atStart,
+  MRegExp.fromRegExpString('i'),
+);
+
+const FRENCH_IRREGULAR_ORDINALS: Record<string, string> = {
+  un: 'unième',
+  cinq: 'cinquième',
+  neuf: 'neuvième',
+};
+
+const frenchBelowTwenty = (value: number): string =>
+  value < 17 ? FRENCH_UNITS[value]! : `dix-${FRENCH_UNITS[value - 10]}`;
+
+// `isBeforeMille` is true when the number is followed by 'mille'. 'vingt' and 'cent' then do not
+// take the plural mark because 'mille' is not a noun, e.g. 'quatre-vingt mille'
+const frenchBelowHundred = (value: number, isBeforeMille: boolean): string => {
+  if (value < 20) return frenchBelowTwenty(value);
+  if (value >= 80)
+    return value === 80
+      ? isBeforeMille
+        ? 'quatre-vingt'
+        : 'quatre-vingts'
+      : `quatre-vingt-${frenchBelowTwenty(value - 80)}`;
+  if (value >= 70)
+    return value === 71 ? 'soixante et onze' : `soixante-${frenchBelowTwenty(value - 60)}`;
+  const units = value % 10;
+  const tens = FRENCH_TENS[(value - units) / 10]!;
+  return units === 0 ? tens : units === 1 ? `${tens} et un` : `${tens}-${FRENCH_UNITS[units]}`;
+};
+
+/**
+ * French `CVSpellOutRuleSet` instance that uses the traditional spelling (before the 1990 reform),
+ * e.g. 'mille deux cent trente-quatre', 'quatre-vingts', 'vingt et unième' or 'un euro et cinquante
+ * centimes'. Ordinals are written in the masculine form ('premier'). Handles numbers up to
+ * trillions (10^18) and amounts in euros, US dollars, pounds sterling and Swiss francs
+ *
+ * @category Instances
+ */
+export const french: Type = make({
+  name: 'French',
+  zeroWord: 'zéro',
+  minusWord: 'moins',
+  groupWords: ({ value, scale }) => {
+    // 'mille', not 'un mille'
+    if (scale === 1 && value === 1) return '';
+    const isBeforeMille = scale === 1;
+    const rest = value % 100;
+    const hundreds = (value - rest) / 100;
+    return pipe(
+      [
+        hundreds === 0
+          ? ''
+          : hundreds === 1
+            ? 'cent'
+            : `${FRENCH_UNITS[hundreds]} cent${rest === 0 && !isBeforeMille ? 's' : ''}`,
+        rest === 0 ? '' : frenchBelowHundred(rest, isBeforeMille),
+      ],
+      Array.filter((part) => part !== ''),
+      Array.join(' '),
+    );
+  },
+  scaleNouns: [
+    { singular: 'mille', plural: 'mille' },
+    { singular: 'million', plural: 'millions' },
+    { singular: 'milliard', plural: 'milliards' },
+    { singular: 'billion', plural: 'billions' },
+    { singular: 'billiard', plural: 'billiards' },
+    { singular: 'trillion', plural: 'trillions' },
+  ],
+  ordinalWord: (word, isAlone) => {
+    if (isAlone && word === 'un') return 'premier';
+    if (word in FRENCH_IRREGULAR_ORDINALS) return FRENCH_IRREGULAR_ORDINALS[word]!;
+    // Plural marks are dropped, e.g. 'quatre-vingtième', 'deux centième' or 'deux millionième'
+    const singular = FRENCH_PLURAL_WORD_REGEXP.test(word) ? word.slice(0, -1) : word;
+    return `${singular.endsWith('e') ? singular.slice(0, -1) : singular}ième`;
+  },
+  quantity: (value, cardinal, { singular, plural }) => {
+    if (value < 2n) return `${cardinal} ${singular}`;
+    // 'un million d'euros', 'deux milliards de dollars'
+    if (value % 1_000_000n === 0n)
+      return VOWEL_START_REGEXP.test(plural)
+        ? `${cardinal} d'${plural}`
+        : `${cardinal} de ${plural}`;
+    return `${cardinal} ${plural}`;
+  },
+  amountConnector: 'et',
+  currencyNames: [
+    {
+      currency: CVCurrency.eur,
+      major: { singular: 'euro', plural: 'euros' },
+      minor: { singular: 'centime', plural: 'centimes' },
+    },
+    {
+      currency: CVCurrency.usd,
+      major: { singular: 'dollar', plural: 'dollars' },
+      minor: { singular: 'cent', plural: 'cents' },
+    },
+    {
+      currency: CVCurrency.gbp,
+      major: { singular: 'livre sterling', plural: 'livres sterling' },
+      minor: { singular: 'penny', plural: 'pence' },
+    },
+    {
+      currency: CVCurrency.chf,
+      major: { singular: 'franc suisse', plural: 'francs suisses' },
+      minor: { singular: 'centime', plural: 'centimes' },
+    },
+  ],
+});
@@ -0,0 +1,329 @@
+/**
+ * This module implements combinators that turn one or several `CVTemplate`'s into a
+ * `CVTemplatePlaceholder`. They let you describe texts that are not strictly linear:
+ *
+ * - `optional` describes a group of template parts that may be absent. Its value is an `Option` of
+ *   the record of values of the group
+ * - `repeated` describes a group of template parts that is repeated with a separator between
+ *   occurrences. Its value is an array of the records of values of each occurrence
+ * - `alternatives` describes several groups of template parts of which exactly one is present. Its
+ *   value is the record of values of the present group tagged with the key under which that group
+ *   was passed (discriminated union)
+ *
+ * As the returned objects are `CVTemplatePlaceholder`'s, they can be used in a `CVTemplate` like
+ * any other placeholder and, therefore, be nested. They are supported by `CVTemplateParser`,
+ * `CVTemplateFormatter` and `CVSchema.Template`
+ */
+
+import { flow, pipe } from 'effect';
+import * as Array from 'effect/Array';
+import * as Function from 'effect/Function';
+import * as Option from 'effect/Option';
+import * as Record from 'effect/Record';
+import * as Result from 'effect/Result';
+import * as Schema from 'effect/Schema';
+import type * as Struct from 'effect/Struct';
+import * as Tuple from 'effect/Tuple';
+
+import * as MInputError from '@parischap/effect-lib/MInputError';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+import type * as CVTemplate from './Template.js';
+import type * as CVTemplateSeparator from './TemplatePart/TemplateSeparator/TemplateSeparator.js';
+
+import * as CVTemplateParts from '../../internal/formatting/template/TemplateParts.js';
+import * as CVTemplateFormatter from './TemplateFormatter.js';
+import * as CVTemplateParseError from './TemplateParseError.js';
+import * as CVTemplateParser from './TemplateParser.js';
+import * as CVTemplatePlaceholder from './TemplatePart/TemplatePlaceholder/TemplatePlaceholder.js';
+
+/**
+ * Module tag
+ *
+ * @category Module markers
+ */
+export const moduleTag = '@parischap/conversions/formatting/template/TemplateCombinator/';
+
+/**
+ * Utility type that extracts the type of the record of values of a `CVTemplate`
+ *
+ * @category Utility types
+ */
+export type ExtractPlaceholderTypes<T extends CVTemplate.Type<MTypes.Object>> =
+  T extends CVTemplate.Type<infer PlaceholderTypes> ? PlaceholderTypes : never;
+
+/**
+ * Type of the value of an `alternatives` placeholder built from the record of `CVTemplate`'s `TS`
+ *
+ * @category Utility types
+ */
+export type AlternativeTypes<
+  TS extends Record.ReadonlyRecord<string, CVTemplate.Type<MTypes.Object>>,
+> = {
+  readonly [K in keyof TS & string]: Struct.Simplify<
+    { readonly _tag: K } & ExtractPlaceholderTypes<TS[K]>
+  >;
+}[keyof TS & string];
+
+const _schemaFields = <PlaceholderTypes extends MTypes.Object>(
+  template: CVTemplate.Type<PlaceholderTypes>,
+) => CVTemplateParts.getSchemaFields(template.templateParts);
+
+/**
+ * Returns a `CVTemplatePlaceholder` that represents the optional presence of `template`.
+ *
+ * Parsing: the parser tries to parse the start of the text with `template`. If it succeeds, it
+ * returns a `some` of the parsed record of values. Otherwise, it returns a `none` and consumes
+ * nothing. So parsing never fails.
+ *
+ * Formatting: a `none` is formatted as an empty string. A `some` is formatted with `template`
+ *
+ * @category Constructors
+ */
+export const optional = <const N extends string, PlaceholderTypes extends MTypes.Object>({
+  name,
+  template,
+}: {
+  readonly name: N;
+  readonly template: CVTemplate.Type<PlaceholderTypes>;
+}): CVTemplatePlaceholder.Type<N, Option.Option<PlaceholderTypes>> => {
+  const templateParser = CVTemplateParser.fromTemplate(template);
+  const templateFormatter = CVTemplateFormatter.fromTemplate(template);
+
+  return CVTemplatePlaceholder.make({
+    name,
+    description: `optional '${template.syntheticDescription}'`,
+    parser: (text) =>
+      pipe(
+        text,
+        templateParser.extract,
+        Result.match({
+          onFailure: () => Tuple.make(Option.none<PlaceholderTypes>(), text),
+          onSuccess: ([record, leftOver]) => Tuple.make(Option.some(record), leftOver),
+        }),
+        Result.succeed,
+      ),
+    formatter: Option.match({
+      onNone: () => Result.succeed(''),
+      onSome: templateFormatter.format,
+    }),
+    tSchemaInstance: Schema.Option(
+      Schema.Struct(_schemaFields(template)),
+    ) as unknown as Schema.Codec<Option.Option<PlaceholderTypes>>,
+  });
+};
+
+/**
+ * Returns a `CVTemplatePlaceholder` that represents at least `minCount` and at most `maxCount`
+ * occurrences of `template`, two consecutive occurrences being separated by `separator`.
+ *
+ * Parsing: the parser greedily parses as many occurrences of `template` as it can, up to
+ * `maxCount`. A separator is only consumed if it is followed by an occurrence of `template`. The
+ * parser fails if less than `minCount` occurrences could be parsed. The error then points to the
+ * place where the next occurrence could not be parsed, its path containing the index of that
+ * occurrence.
+ *
+ * Formatting: each value of the passed array is formatted with `template` and the results are
+ * joined with `separator`. The formatter fails if the array contains less than `minCount` or more
+ * than `maxCount` values
+ *
+ * @category Constructors
+ */
+export const repeated = <const N extends string, PlaceholderTypes extends MTypes.Object>({
+  name,
+  template,
+  separator,
+  minCount = 0,
+  maxCount = Number.POSITIVE_INFINITY,
+}: {
+  readonly name: N;
+  readonly template: CVTemplate.Type<PlaceholderTypes>;
+  readonly separator: CVTemplateSeparator.Type;
+  readonly minCount?: number;
+  readonly maxCount?: number;
+}): CVTemplatePlaceholder.Type<N, ReadonlyArray<PlaceholderTypes>> => {
+  const templateParser = CVTemplateParser.fromTemplate(template);
+  const templateFormatter = CVTemplateFormatter.fromTemplate(template);
+  const separatorValue = separator.value;
+  const countDescription =
+    maxCount === Number.POSITIVE_INFINITY ? `at least ${minCount}` : `${minCount} to ${maxCount}`;
+
+  // Greedily extracts occurrences of `template` from the start of `remainingText`, `values` being the
+  // occurrences already extracted. Also returns the error that stopped the extraction, if any
+  const extractOccurrences = (
+    values: ReadonlyArray<PlaceholderTypes>,
+    remainingText: string,
+  ): readonly [
+    values: ReadonlyArray<PlaceholderTypes>,
+    remainingText: string,
+    lastError: Option.Option<CVTemplateParseError.Type>,
+  ] => {
+    const isFirst = values.length === 0;
+    if (values.length >= maxCount || (!isFirst && !remainingText.startsWith(separatorValue)))
+      return Tuple.make(values, remainingText, Option.none());
+    return pipe(
+      isFirst ? remainingText : remainingText.slice(separatorValue.length),
+      templateParser.extract,
+      Result.match({
+        onFailure: (error) => Tuple.make(values, remainingText, Option.some(error)),
+        onSuccess: ([value, leftOver]) =>
+          // Avoid looping forever on occurrences that consume no text
+          leftOver.length === remainingText.length
+            ? Tuple.make(values, remainingText, Option.none())
+            : extractOccurrences(Array.append(values, value), leftOver),
+      }),
+    );
+  };
+
+  return CVTemplatePlaceholder.make({
+    name,
+    description: `${countDescription} occurrence(s) of '${template.syntheticDescription}' separated by '${separatorValue}'`,
+    parser: function (this: CVTemplatePlaceholder.Type<N, ReadonlyArray<PlaceholderTypes>>, text) {
+      const [values, remainingText, lastError] = extractOccurrences(Array.empty(), text);
+      if (values.length >= minCount) return Result.succeed(Tuple.make(values, remainingText));
+
+      const message = `${this.label} contains '${text}' from the start of which ${countDescription} occurrence(s) of '${template.syntheticDescription}' separated by '${separatorValue}' could not be extracted`;
+      return Result.fail(
+        pipe(
+          lastError,
+          Option.match({
+            onNone: () => new MInputError.Type({ message }),
+            // The occurrence that failed is the one following the extracted ones
+            onSome: (error) =>
+              CVTemplateParseError.nest({
+                text,
+                key: values.length,
+                message: `${message}. ${error.message}`,
+              })(error),
+          }),
+        ),
+      );
+    },
+    formatter: function (
+      this: CVTemplatePlaceholder.Type<N, ReadonlyArray<PlaceholderTypes>>,
+      values,
+    ) {
+      return pipe(
+        values,
+        Result.liftPredicate(
+          ({ length }) => length >= minCount && length <= maxCount,
+          ({ length }) =>
+            new MInputError.Type({
+              message: `${this.label}: expected ${countDescription} value(s). Actual: ${length}`,
+            }),
+        ),
+        Result.flatMap(flow(Array.map(templateFormatter.format), Result.all)),
+        Result.map(Array.join(separatorValue)),
+      );
+    },
+    tSchemaInstance: Schema.Array(
+      Schema.Struct(_schemaFields(template)),
+    ) as unknown as Schema.Codec<ReadonlyArray<PlaceholderTypes>>,
+  });
+};
+
+/**
+ * Returns a `CVTemplatePlaceholder` that represents exactly one of the `CVTemplate`'s of the
+ * `alternatives` record. The value of this placeholder is the record of values of the matching
+ * template with an extra `_tag` property set to the key of that template in `alternatives`.
+ *
+ * Parsing: the parser tries each template in the order of `alternatives` and returns the result of
+ * the first one that succeeds. It fails if no template succeeds. The error then points to the place
+ * where the template that went the furthest in the text failed, its path containing the key of that
+ * template.
+ *
+ * Formatting: the passed value is formatted with the template whose key is the `_tag` of that value
+ *
+ * @category Constructors
+ */
+export const alternatives = <
+  const N extends string,
+  const TS extends Record.ReadonlyRecord<string, CVTemplate.Type<MTypes.Object>>,
+>({
+  name,
+  alternatives,
+}: {
+  readonly name: N;
+  readonly alternatives: TS;
+}): CVTemplatePlaceholder.Type<N, AlternativeTypes<TS>> => {
+  const entries = Record.toEntries(alternatives);
+  const parsers = Array.map(
+    entries,
+    Tuple.evolve(Tuple.make(Function.identity, CVTemplateParser.fromTemplate)),
+  );
+  const formatters = Record.map(alternatives, CVTemplateFormatter.fromTemplate);
+
+  return CVTemplatePlaceholder.make({
+    name,
+    description: `one of ${pipe(
+      entries,
+      Array.map(([tag, template]) => `'${template.syntheticDescription}' (${tag})`),
+      Array.join(', '),
+    )}`,
+    parser: function (this: CVTemplatePlaceholder.Type<N, AlternativeTypes<TS>>, text) {
+      // Error of the alternative that went the furthest in `text`, along with its tag
+      const noMatch: Result.Result<
+        MTypes.Pair<AlternativeTypes<TS>, string>,
+        Option.Option<MTypes.Pair<string, CVTemplateParseError.Type>>
+      > = Result.fail(Option.none());
+
+      return pipe(
+        parsers,
+        Array.reduce(noMatch, (previous, [tag, templateParser]) =>
+          Result.orElse(previous, (furthestError) =>
+            pipe(
+              text,
+              templateParser.extract,
+              Result.map(
+                Tuple.evolve(
+                  Tuple.make(
+                    (record: MTypes.Object) => ({ _tag: tag, ...record }) as AlternativeTypes<TS>,
+                    Function.identity,
+                  ),
+                ),
+              ),
+              Result.mapError((error) =>
+                pipe(
+                  furthestError,
+                  Option.filter(([, { offset }]) => offset >= error.offset),
+                  Option.orElseSome(() => Tuple.make(tag, error)),
+                ),
+              ),
+            ),
+          ),
+        ),
+        Result.mapError((furthestError) => {
+          const message = `${this.label} contains '${text}' from the start of which none of ${pipe(
+            entries,
+            Array.map(Tuple.get(0)),
+            Array.join(', '),
+          )} could be extracted`;
+          return pipe(
+            furthestError,
+            Option.match({
+              onNone: () => new MInputError.Type({ message }),
+              onSome: ([tag, error]) =>
+                CVTemplateParseError.nest({
+                  text,
+                  key: tag,
+                  message: `${message}. ${error.message}`,
+                })(error),
+            }),
+          );
+        }),
+      );
+    },
+    formatter: (value) =>
+      pipe(
+        formatters,
+        Record.get(value._tag),
+        // This error should not happen due to typing
+        Option.getOrThrowWith(() => new Error(`Abnormal error: unknown alternative ${value._tag}`)),
+        CVTemplateFormatter.format,
+        Function.apply(value),
+      ),
+    tSchemaInstance: Schema.Union(
+      Array.map(entries, ([tag, template]) => Schema.TaggedStruct(tag, _schemaFields(template))),
+    ) as unknown as Schema.Codec<AlternativeTypes<TS>>,
+  });
+};
@@ -0,0 +1,211 @@
+/**
+ * This module implements a `CVTemplateParseError`, i.e. the error returned by a `CVTemplateParser`
+ * when it fails to parse a text. It is an `MInputError` that also keeps track of the parsed text,
+ * of the offset and length of the part of that text that could not be parsed and of the
+ * `CVTemplatePart` that was expected there. It can render a caret-style excerpt of the text, e.g.:
+ *
+ *     2024-13-01
+ *          ^^
+ */
+
+import { pipe } from 'effect';
+import * as Array from 'effect/Array';
+import * as Function from 'effect/Function';
+import * as Option from 'effect/Option';
+
+import * as MInputError from '@parischap/effect-lib/MInputError';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+import * as CVTemplatePart from './TemplatePart/TemplatePart.js';
+import * as CVTemplatePlaceholder from './TemplatePart/TemplatePlaceholder/TemplatePlaceholder.js';
+
+/**
+ * Module tag
+ *
+ * @category Module markers
+ */
+export const moduleTag = '@parischap/conversions/formatting/template/TemplateParseError/';
+
+/**
+ * Type that represents a `CVTemplateParseError`
+ *
+ * @category Models
+ */
+export class Type extends MInputError.Type {
+  /** The text that was being parsed */
+  readonly text: string;
+
+  /** Offset in `text` of the first character that could not be parsed */
+  readonly offset: number;
+
+  /** Length of the part of `text` starting at `offset` that could not be parsed. At least 1 */
+  readonly length: number;
+
+  /**
+   * The `CVTemplatePart` that was expected at `offset`. `none` if the end of the text was expected,
+   * i.e. some text was left over after the last template part
+   */
+  readonly expected: Option.Option<CVTemplatePart.Type<string, any>>;
+
+  /**
+   * Name of the placeholder that could not be parsed. `none` if the error was raised by a separator
+   * or by text left over after the last template part
+   */
+  readonly placeholderName: Option.Option<string>;
+
+  /**
+   * Path of the value that could not be parsed within the record of values returned by a
+   * `CVTemplateParser`. Placeholders built with `CVTemplateCombinator` add the name of the
+   * combinator placeholder followed by the index of the failing occurrence or the tag of the
+   * failing alternative
+   */
+  readonly path: ReadonlyArray<string | number>;
+
+  /** Class constructor */
+  constructor({
+    message,
+    text,
+    offset,
+    length,
+    expected,
+    path,
+  }: {
+    readonly message: string;
+    readonly text: string;
+    readonly offset: number;
+    readonly length: number;
+    readonly expected: Option.Option<CVTemplatePart.Type<string, any>>;
+    readonly path?: ReadonlyArray<string | number>;
+  }) {
+    super({ message });
+    this.text = text;
+    this.offset = offset;
+    this.length = Math.max(length, 1);
+    this.expected = expected;
+    this.placeholderName = pipe(
+      expected,
+      Option.filter(CVTemplatePart.isPlaceholder),
+      Option.map(CVTemplatePlaceholder.name),
+    );
+    this.path = path ?? Option.toArray(this.placeholderName);
+  }
+}
+
+/**
+ * Type guard that tells whether an `MInputError` is a `CVTemplateParseError`
+ *
+ * @category Guards
+ */
+export const isTemplateParseError = (u: MInputError.Type): u is Type => u instanceof Type;
+
+/**
+ * Returns a copy of `self` relative to `text`, of which the text of `self` must be a suffix: the
+ * offset of `self` is shifted accordingly and `key` is prepended to its path. The message of `self`
+ * is replaced by `message` if one is provided
+ *
+ * @category Constructors
+ */
+export const nest =
+  ({
+    text,
+    key,
+    message,
+  }: {
+    readonly text: string;
+    readonly key: string | number;
+    readonly message?: string;
+  }) =>
+  (self: Type): Type =>
+    new Type({
+      message: message ?? self.message,
+      text,
+      offset: text.length - self.text.length + self.offset,
+      length: self.length,
+      expected: self.expected,
+      path: Array.prepend(self.path, key),
+    });
+
+/**
+ * Builds a `CVTemplateParseError` from an `MInputError` raised while parsing `text` at `offset`.
+ * `length` is the length of the part of `text` that could not be parsed and `expected` the
+ * `CVTemplatePart` that was expected at `offset` (or a `none` if the end of the text was expected).
+ * If `inputError` is itself a `CVTemplateParseError` raised by a placeholder (e.g. a placeholder
+ * built with `CVTemplateCombinator`), it is nested under the name of that placeholder (see `nest`)
+ * so that its offset, length and path are kept
+ *
+ * @category Constructors
+ */
+export const fromInputError =
+  (params: {
+    readonly text: string;
+    readonly offset: number;
+    readonly length: number;
+    readonly expected: Option.Option<CVTemplatePart.Type<string, any>>;
+  }) =>
+  (inputError: MInputError.Type): Type => {
+    const expectedPlaceholder = Option.filter(params.expected, CVTemplatePart.isPlaceholder);
+    return isTemplateParseError(inputError) && Option.isSome(expectedPlaceholder)
+      ? nest({ text: params.text, key: expectedPlaceholder.value.name })(inputError)
+      : new Type({ message: inputError.message, ...params });
+  };
+
+/**
+ * Returns the path of `self` within the record of values returned by a `CVTemplateParser`, i.e. an
+ * array containing the name of the placeholder that failed or an empty array if no placeholder
+ * failed. If the placeholder that failed was built with `CVTemplateCombinator`, the path goes on
+ * with the index of the failing occurrence or the tag of the failing alternative and the path of
+ * the error within that occurrence or alternative, e.g. `['times', 1, 'mm']`
+ *
+ * @category Destructors
+ */
+export const path = (self: Type): ReadonlyArray<string | number> => self.path;
+
+/**
+ * Returns the part of the text of `self` that was not parsed, starting at the offset at which
+ * parsing failed
+ *
+ * @category Destructors
+ */
+export const remainingText = (self: Type): string => self.text.slice(self.offset);
+
+/**
+ * Returns a description of what was expected at the offset at which parsing failed, e.g. `#MM:
+ * unsigned integer`, `separator '/'` or `end of text`
+ *
+ * @category Destructors
+ */
+export const expectedDescription = (self: Type): string =>
+  pipe(
+    self.expected,
+    Option.match({
+      onNone: Function.constant('end of text'),
+      onSome: (part) =>
+        CVTemplatePart.isPlaceholder(part)
+          ? CVTemplatePlaceholder.getLabelledDescription(part)
+          : `separator '${part.value}'`,
+    }),
+  );
+
+/**
+ * Returns a two-line caret-style excerpt of the text of `self`: the text itself on the first line
+ * and carets under the part that could not be parsed on the second line. `styleCarets` lets you
+ * style the carets, e.g. `(carets) => ASText.toAnsiString(ASStyle.red(carets))` with the
+ * `@parischap/ansi-styles` package (default: no styling)
+ *
+ * @category Destructors
+ */
+export const excerpt =
+  (styleCarets: MTypes.StringTransformer = Function.identity) =>
+  (self: Type): string =>
+    `${self.text}\n${' '.repeat(self.offset)}${styleCarets('^'.repeat(self.length))}`;
+
+/**
+ * Returns a full report of `self`: its message, what was expected, the remaining text and a
+ * caret-style excerpt (see `excerpt`)
+ *
+ * @category Destructors
+ */
+export const toReport =
+  (styleCarets?: MTypes.StringTransformer) =>
+  (self: Type): string =>
+    `${self.message}\nExpected: ${expectedDescription(self)}\nRemaining text: '${remainingText(self)}'\n\n${excerpt(styleCarets)(self)}`;
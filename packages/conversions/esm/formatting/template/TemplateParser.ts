@@ -6,8 +6,10 @@
  */
 
 import { flow, pipe } from 'effect';
+import * as Array from 'effect/Array';
 import * as Equal from 'effect/Equal';
 import * as Function from 'effect/Function';
+import * as Number from 'effect/Number';
 import * as Option from 'effect/Option';
 import * as Record from 'effect/Record';
 import * as Result from 'effect/Result';
@@ -24,6 +26,7 @@ import type * as CVTemplate from './Template.js';
 
 import * as CVTemplateSeparatorParser from '../../internal/formatting/template/TemplatePart/TemplateSeparator/TemplateSeparatorParser.js';
 import * as CVTemplateParts from '../../internal/formatting/template/TemplateParts.js';
+import * as CVTemplateParseError from './TemplateParseError.js';
 import * as CVTemplatePart from './TemplatePart/TemplatePart.js';
 
 /**
@@ -44,12 +47,28 @@ export class Type<out PlaceholderTypes extends MTypes.Object> extends MData.Clas
   /** Description of this CVTemplateParser */
   readonly description: string;
 
-  /** Function that tries to parse a text according to the template passed to build this parser */
-  readonly parse: MTypes.OneArgFunction<string, Result.Result<PlaceholderTypes, MInputError.Type>>;
+  /**
+   * Function that tries to parse a text according to the template passed to build this parser. In
+   * case of failure, the returned error tells at which offset of the text and in which placeholder
+   * (if any) parsing failed
+   */
+  readonly parse: MTypes.OneArgFunction<
+    string,
+    Result.Result<PlaceholderTypes, CVTemplateParseError.Type>
+  >;
 
   /** Same as `parse` but throws in case of failure */
   readonly parseOrThrow: MTypes.OneArgFunction<string, PlaceholderTypes>;
 
+  /**
+   * Same as `parse` but the text need not be fully consumed by the template. If successful, returns
+   * a `success` of the parsed record and of what has not been consumed
+   */
+  readonly extract: MTypes.OneArgFunction<
+    string,
+    Result.Result<MTypes.Pair<PlaceholderTypes, string>, CVTemplateParseError.Type>
+  >;
+
   /** Returns the `id` of `this` */
   [MData.idSymbol](): string | (() => string) {
     return function idSymbol(this: Type<PlaceholderTypes>) {
@@ -58,11 +77,17 @@ export class Type<out PlaceholderTypes extends MTypes.Object> extends MData.Clas
   }
 
   /** Class constructor */
-  private constructor({ description, parse, parseOrThrow }: MTypes.Data<Type<PlaceholderTypes>>) {
+  private constructor({
+    description,
+    parse,
+    parseOrThrow,
+    extract,
+  }: MTypes.Data<Type<PlaceholderTypes>>) {
     super();
     this.description = description;
     this.parse = parse;
     this.parseOrThrow = parseOrThrow;
+    this.extract = extract;
   }
 
   /** Class constructor */
@@ -75,16 +100,40 @@ export class Type<out PlaceholderTypes extends MTypes.Object> extends MData.Clas
     readonly placeholderDescription: string;
     readonly templateParts: CVTemplateParts.Type;
   }): Type<never> {
-    const parse = (text: string) =>
+    // Length of the part of `remainingText` that a failing placeholder at position `pos` is
+    // deemed responsible for: up to the next separator of the template if it can be found in
+    // `remainingText`, otherwise up to the end of `remainingText`
+    const placeholderErrorLength = (pos: number, remainingText: string): number =>
+      pipe(
+        templateParts,
+        Array.drop(pos + 1),
+        Array.findFirst(CVTemplatePart.isSeparator),
+        Option.map(({ value }) => remainingText.indexOf(value)),
+        Option.filter(Number.isGreaterThanOrEqualTo(0)),
+        Option.getOrElse(Function.constant(remainingText.length)),
+      );
+
+    const extract = (text: string) =>
       pipe(
         templateParts,
         MArray.reduceUnlessLeft(
           Tuple.make(text, Record.empty<string, unknown>()),
           ([remainingText, result], templatePart: CVTemplatePart.Type<string, unknown>, pos) =>
             Result.gen(function* () {
+              const offset = text.length - remainingText.length;
               if (CVTemplatePart.isPlaceholder(templatePart)) {
-                const [consumed, leftOver] = yield* templatePart.parser(remainingText);
                 const { name } = templatePart;
+                const [consumed, leftOver] = yield* pipe(
+                  templatePart.parser(remainingText),
+                  Result.mapError(
+                    CVTemplateParseError.fromInputError({
+                      text,
+                      offset,
+                      length: placeholderErrorLength(pos, remainingText),
+                      expected: Option.some(templatePart),
+                    }),
+                  ),
+                );
                 return yield* pipe(
                   result,
                   Record.get(name),
@@ -92,12 +141,17 @@ export class Type<out PlaceholderTypes extends MTypes.Object> extends MData.Clas
                     onNone: () =>
                       Result.succeed(Tuple.make(leftOver, Record.set(result, name, consumed))),
                     onSome: flow(
-                      Result.liftPredicate(
-                        Equal.equals(consumed),
-                        (oldValue) =>
+                      Result.liftPredicate(Equal.equals(consumed), (oldValue) =>
+                        CVTemplateParseError.fromInputError({
+                          text,
+                          offset,
+                          length: remainingText.length - leftOver.length,
+                          expected: Option.some(templatePart),
+                        })(
                           new MInputError.Type({
                             message: `${templatePart.label} is present more than once in template and receives differing values '${MString.fromUnknown(oldValue)}' and '${MString.fromUnknown(consumed)}'`,
                           }),
+                        ),
                       ),
                       Result.andThen(Tuple.make(leftOver, result)),
                     ),
@@ -105,24 +159,48 @@ export class Type<out PlaceholderTypes extends MTypes.Object> extends MData.Clas
                 );
               }
               const parser = CVTemplateSeparatorParser.fromSeparator(templatePart);
-              const leftOver = yield* parser(pos + 1, remainingText);
+              const leftOver = yield* pipe(
+                parser(pos + 1, remainingText),
+                Result.mapError(
+                  CVTemplateParseError.fromInputError({
+                    text,
+                    offset,
+                    length: Math.min(templatePart.value.length, remainingText.length),
+                    expected: Option.some(templatePart),
+                  }),
+                ),
+              );
               return Tuple.make(leftOver, result);
             }),
         ),
-        Result.flatMap(([leftOver, result]) =>
-          Result.gen(function* () {
-            yield* pipe(
-              leftOver,
-              MInputError.assertEmpty({ name: 'text not consumed by template' }),
-            );
-            return result as never;
-          }),
+        Result.map(([leftOver, result]) => Tuple.make(result as never, leftOver)),
+      );
+
+    const parse = (text: string) =>
+      pipe(
+        text,
+        extract,
+        Result.flatMap(([result, leftOver]) =>
+          pipe(
+            leftOver,
+            MInputError.assertEmpty({ name: 'text not consumed by template' }),
+            Result.mapError(
+              CVTemplateParseError.fromInputError({
+                text,
+                offset: text.length - leftOver.length,
+                length: leftOver.length,
+                expected: Option.none(),
+              }),
+            ),
+            Result.map(Function.constant(result)),
+          ),
         ),
       );
     return new Type({
       description: `${syntheticDescription} parser\n\n${placeholderDescription}`,
       parse,
       parseOrThrow: flow(parse, Result.getOrThrowWith(Function.identity)),
+      extract,
     });
   }
 
@@ -185,3 +263,12 @@ export const parse: <PlaceholderTypes extends MTypes.Object>(
 export const parseOrThrow: <PlaceholderTypes extends MTypes.Object>(
   self: Type<PlaceholderTypes>,
 ) => Type<PlaceholderTypes>['parseOrThrow'] = Struct.get('parseOrThrow');
+
+/**
+ * Returns the `extract` property of `self`.
+ *
+ * @category Parsing
+ */
+export const extract: <PlaceholderTypes extends MTypes.Object>(
+  self: Type<PlaceholderTypes>,
+) => Type<PlaceholderTypes>['extract'] = Struct.get('extract');
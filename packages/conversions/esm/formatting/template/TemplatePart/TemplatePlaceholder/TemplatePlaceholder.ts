@@ -14,6 +14,7 @@
 
 import { flow, pipe } from 'effect';
 import * as Array from 'effect/Array';
+import * as BigDecimal from 'effect/BigDecimal';
 import * as Function from 'effect/Function';
 import * as HashMap from 'effect/HashMap';
 import * as Option from 'effect/Option';
@@ -25,6 +26,7 @@ import * as Tuple from 'effect/Tuple';
 
 import * as MData from '@parischap/effect-lib/MData';
 import * as MInputError from '@parischap/effect-lib/MInputError';
+import * as MNumber from '@parischap/effect-lib/MNumber';
 import * as MRegExp from '@parischap/effect-lib/MRegExp';
 import * as MRegExpString from '@parischap/effect-lib/MRegExpString';
 import * as MString from '@parischap/effect-lib/MString';
@@ -33,9 +35,21 @@ import * as MStruct from '@parischap/effect-lib/MStruct';
 import * as MTuple from '@parischap/effect-lib/MTuple';
 import type * as MTypes from '@parischap/effect-lib/MTypes';
 
+import type * as CVOrdinalSuffixes from '../../../OrdinalSuffixes.js';
+import type * as CVSpellOutRuleSet from '../../../SpellOutFormat/SpellOutRuleSet.js';
+
+import * as CVCurrencyFormat from '../../../CurrencyFormat/CurrencyFormat.js';
+import * as CVCurrencyFormatter from '../../../CurrencyFormat/CurrencyFormatter.js';
+import * as CVCurrencyParser from '../../../CurrencyFormat/CurrencyParser.js';
 import * as CVNumberBase10Format from '../../../NumberBase10Format/NumberBase10Format.js';
 import * as CVNumberBase10Formatter from '../../../NumberBase10Format/NumberBase10Formatter.js';
 import * as CVNumberBase10Parser from '../../../NumberBase10Format/NumberBase10Parser.js';
+import * as CVNumberRadixFormat from '../../../NumberRadixFormat/NumberRadixFormat.js';
+import * as CVNumberRadixFormatter from '../../../NumberRadixFormat/NumberRadixFormatter.js';
+import * as CVNumberRadixParser from '../../../NumberRadixFormat/NumberRadixParser.js';
+import * as CVRomanNumeral from '../../../RomanNumeral.js';
+import * as CVSpellOutFormatter from '../../../SpellOutFormat/SpellOutFormatter.js';
+import * as CVSpellOutParser from '../../../SpellOutFormat/SpellOutParser.js';
 
 /**
  * Module tag
@@ -443,6 +457,478 @@ export const number = <const N extends string>({
   );
 };
 
+const _radixInteger = <const N extends string, T extends bigint | number>({
+  name,
+  numberRadixFormat,
+  extractor,
+  parser,
+  schemaInstance,
+}: {
+  readonly name: N;
+  readonly numberRadixFormat: CVNumberRadixFormat.Type;
+  readonly extractor: MTypes.OneArgFunction<
+    CVNumberRadixParser.Type,
+    MTypes.OneArgFunction<string, Option.Option<MTypes.Pair<T, string>>>
+  >;
+  readonly parser: MTypes.OneArgFunction<
+    CVNumberRadixParser.Type,
+    MTypes.OneArgFunction<string, Option.Option<T>>
+  >;
+  readonly schemaInstance: Schema.Codec<T, T>;
+}): Type<N, T> => {
+  const description = CVNumberRadixFormat.toDescription(numberRadixFormat);
+  const numberParser = CVNumberRadixParser.fromFormat(numberRadixFormat);
+  const numberFormatter = pipe(
+    numberRadixFormat,
+    CVNumberRadixFormatter.fromFormat,
+    CVNumberRadixFormatter.format,
+  );
+
+  return pipe(
+    numberRadixFormat,
+    CVNumberRadixFormat.getFixedLength,
+    Option.match({
+      onNone: () =>
+        make({
+          name,
+          description,
+          parser: function (this: Type<N, T>, text) {
+            return pipe(
+              text,
+              extractor(numberParser),
+              Result.fromOption(
+                () =>
+                  new MInputError.Type({
+                    message: `${this.label} contains '${text}' from the start of which a(n) ${description} could not be extracted`,
+                  }),
+              ),
+              Result.map(
+                Tuple.evolve(
+                  Tuple.make(Function.identity, flow(String.length, _flippedTakeRightBut(text))),
+                ),
+              ),
+            );
+          },
+          formatter: function (this: Type<N, T>, value) {
+            return pipe(
+              value,
+              numberFormatter,
+              Result.fromOption(
+                () =>
+                  new MInputError.Type({
+                    message: `${this.label}: value '${value}' cannot be converted to a(n) ${description}`,
+                  }),
+              ),
+            );
+          },
+          tSchemaInstance: schemaInstance,
+        }),
+      onSome: (length) =>
+        pipe(
+          { name, length },
+          fixedLength,
+          modify({
+            descriptorMapper: MString.append(` to ${description}`),
+            postParser: function (this: Type<N, T>, input: string) {
+              return pipe(
+                input,
+                parser(numberParser),
+                Result.fromOption(
+                  () =>
+                    new MInputError.Type({
+                      message: `${this.label}: value '${input}' cannot be converted to a(n) ${description}`,
+                    }),
+                ),
+              );
+            },
+            preFormatter: function (this: Type<N, T>, value) {
+              return pipe(
+                value,
+                numberFormatter,
+                Result.fromOption(
+                  () =>
+                    new MInputError.Type({
+                      message: `${this.label}: value '${value}' cannot be converted to a(n) ${description}`,
+                    }),
+                ),
+              );
+            },
+            t1SchemaInstance: schemaInstance,
+          }),
+        ),
+    }),
+  );
+};
+
+/**
+ * `CVTemplatePlaceholder` instance that tries to parse/format an integer written in a radix other
+ * than 10 (e.g. hexadecimal) according to the passed `numberRadixFormat`.
+ *
+ * Parsing: if `numberRadixFormat` has a fixed length of `l` (see
+ * `CVNumberRadixFormat.getFixedLength`), the parser first reads `l` characters from the text and
+ * tries to convert them to a number in the given format. Otherwise it reads from the text all the
+ * characters that it can interpret as a number in the provided `numberRadixFormat` and converts the
+ * consumed text into a number. Parsing fails if the result is not a safe integer.
+ *
+ * Formatting: the number is converted to a string according to `numberRadixFormat`. If
+ * `numberRadixFormat` has a fixed length of `l`, the formatter will fail if the result of the
+ * conversion is not exactly `l`-characters long. The formatter also fails if the passed number is
+ * not an integer.
+ *
+ * @category Constructors
+ */
+export const radixNumber = <const N extends string>({
+  name,
+  numberRadixFormat,
+}: {
+  readonly name: N;
+  readonly numberRadixFormat: CVNumberRadixFormat.Type;
+}): Type<N, number> =>
+  _radixInteger({
+    name,
+    numberRadixFormat,
+    extractor: CVNumberRadixParser.extractAsNumber,
+    parser: CVNumberRadixParser.parseAsNumber,
+    schemaInstance: Schema.Number,
+  });
+
+/**
+ * Same as `radixNumber` but the parser returns a bigint and the formatter expects a bigint. Use it
+ * for integers that are not safe integers
+ *
+ * @category Constructors
+ */
+export const radixBigInt = <const N extends string>({
+  name,
+  numberRadixFormat,
+}: {
+  readonly name: N;
+  readonly numberRadixFormat: CVNumberRadixFormat.Type;
+}): Type<N, bigint> =>
+  _radixInteger({
+    name,
+    numberRadixFormat,
+    extractor: CVNumberRadixParser.extractAsBigInt,
+    parser: CVNumberRadixParser.parseAsBigInt,
+    schemaInstance: Schema.BigInt,
+  });
+
+/**
+ * `CVTemplatePlaceholder` instance that tries to parse/format an amount of money according to the
+ * passed `currencyFormat`.
+ *
+ * Parsing: the parser reads from the text all the characters that it can interpret as an amount in
+ * the provided `currencyFormat` and converts the consumed text into a `{ amount, currency }`
+ * value.
+ *
+ * Formatting: the amount is converted to a string according to `currencyFormat`. The formatter
+ * fails if the currency of the amount is not handled by `currencyFormat`.
+ *
+ * @category Constructors
+ */
+export const currencyAmount = <const N extends string>({
+  name,
+  currencyFormat,
+}: {
+  readonly name: N;
+  readonly currencyFormat: CVCurrencyFormat.Type;
+}): Type<N, CVCurrencyFormat.Amount> => {
+  const description = CVCurrencyFormat.toDescription(currencyFormat);
+  const amountExtractor = pipe(
+    currencyFormat,
+    CVCurrencyParser.fromFormat,
+    CVCurrencyParser.extract,
+  );
+  const amountFormatter = pipe(
+    currencyFormat,
+    CVCurrencyFormatter.fromFormat,
+    CVCurrencyFormatter.format,
+  );
+
+  return make({
+    name,
+    description,
+    parser: function (this: Type<N, CVCurrencyFormat.Amount>, text) {
+      return pipe(
+        text,
+        amountExtractor,
+        Result.fromOption(
+          () =>
+            new MInputError.Type({
+              message: `${this.label} contains '${text}' from the start of which a(n) ${description} could not be extracted`,
+            }),
+        ),
+        Result.map(
+          Tuple.evolve(
+            Tuple.make(Function.identity, flow(String.length, _flippedTakeRightBut(text))),
+          ),
+        ),
+      );
+    },
+    formatter: function (this: Type<N, CVCurrencyFormat.Amount>, value) {
+      return pipe(
+        value,
+        amountFormatter,
+        Result.fromOption(
+          () =>
+            new MInputError.Type({
+              message: `${this.label}: currency '${value.currency}' is not handled by the ${description} format`,
+            }),
+        ),
+      );
+    },
+    tSchemaInstance: Schema.Struct({ amount: Schema.BigDecimal, currency: Schema.String }),
+  });
+};
+
+const _fromExtractor = <const N extends string, T>({
+  name,
+  description,
+  extractor,
+  formatter,
+  valueWriter,
+  tSchemaInstance,
+}: {
+  readonly name: N;
+  readonly description: string;
+  readonly extractor: MTypes.OneArgFunction<string, Option.Option<MTypes.Pair<T, string>>>;
+  readonly formatter: MTypes.OneArgFunction<T, Option.Option<string>>;
+  readonly valueWriter: MTypes.OneArgFunction<T, string>;
+  readonly tSchemaInstance: Schema.Codec<T, T>;
+}): Type<N, T> =>
+  make({
+    name,
+    description,
+    parser: function (this: Type<N, T>, text) {
+      return pipe(
+        text,
+        extractor,
+        Result.fromOption(
+          () =>
+            new MInputError.Type({
+              message: `${this.label} contains '${text}' from the start of which a(n) ${description} could not be extracted`,
+            }),
+        ),
+        Result.map(
+          Tuple.evolve(
+            Tuple.make(Function.identity, flow(String.length, _flippedTakeRightBut(text))),
+          ),
+        ),
+      );
+    },
+    formatter: function (this: Type<N, T>, value) {
+      return pipe(
+        value,
+        formatter,
+        Result.fromOption(
+          () =>
+            new MInputError.Type({
+              message: `${this.label}: value '${valueWriter(value)}' cannot be converted to a(n) ${description}`,
+            }),
+        ),
+      );
+    },
+    tSchemaInstance,
+  });
+
+/**
+ * `CVTemplatePlaceholder` instance that tries to parse/format an integer written in words according
+ * to the passed `ruleSet`, e.g. 'one thousand two hundred and thirty-four'.
+ *
+ * Parsing: the parser reads from the text all the words that it can interpret as an integer in the
+ * provided `ruleSet` and converts the consumed text into a number. Parsing fails if the result is
+ * not a safe integer.
+ *
+ * Formatting: the number is written in words according to `ruleSet`. The formatter fails if the
+ * passed number is not a safe integer or if it is too large for `ruleSet`.
+ *
+ * @category Constructors
+ */
+export const spelledOutNumber = <const N extends string>({
+  name,
+  ruleSet,
+}: {
+  readonly name: N;
+  readonly ruleSet: CVSpellOutRuleSet.Type;
+}): Type<N, number> =>
+  _fromExtractor({
+    name,
+    description: `integer written in ${ruleSet.name} words`,
+    extractor: flow(
+      pipe(ruleSet, CVSpellOutParser.fromRuleSet, CVSpellOutParser.extractCardinal),
+      Option.flatMap(([value, parsedText]) =>
+        pipe(
+          value,
+          MNumber.fromBigIntOption,
+          Option.map((n) => Tuple.make(n, parsedText)),
+        ),
+      ),
+    ),
+    formatter: pipe(ruleSet, CVSpellOutFormatter.fromRuleSet, CVSpellOutFormatter.formatCardinal),
+    valueWriter: (value) => `${value}`,
+    tSchemaInstance: Schema.Number,
+  });
+
+/**
+ * Same as `spelledOutNumber` but for an ordinal, e.g. 'twenty-first'. The formatter also fails if
+ * the passed number is not strictly positive
+ *
+ * @category Constructors
+ */
+export const spelledOutOrdinal = <const N extends string>({
+  name,
+  ruleSet,
+}: {
+  readonly name: N;
+  readonly ruleSet: CVSpellOutRuleSet.Type;
+}): Type<N, number> =>
+  _fromExtractor({
+    name,
+    description: `ordinal written in ${ruleSet.name} words`,
+    extractor: flow(
+      pipe(ruleSet, CVSpellOutParser.fromRuleSet, CVSpellOutParser.extractOrdinal),
+      Option.flatMap(([value, parsedText]) =>
+        pipe(
+          value,
+          MNumber.fromBigIntOption,
+          Option.map((n) => Tuple.make(n, parsedText)),
+        ),
+      ),
+    ),
+    formatter: pipe(ruleSet, CVSpellOutFormatter.fromRuleSet, CVSpellOutFormatter.formatOrdinal),
+    valueWriter: (value) => `${value}`,
+    tSchemaInstance: Schema.Number,
+  });
+
+/**
+ * `CVTemplatePlaceholder` instance that tries to parse/format an amount of money written in words
+ * according to the passed `ruleSet`, e.g. 'one thousand two hundred and thirty-four euros and fifty
+ * cents'.
+ *
+ * Parsing: the parser reads from the text all the words that it can interpret as an amount in the
+ * provided `ruleSet` and converts the consumed text into a `{ amount, currency }` value.
+ *
+ * Formatting: the amount is rounded to the number of minor units of its currency and written in
+ * words according to `ruleSet`. The formatter fails if the currency of the amount is not handled by
+ * `ruleSet`.
+ *
+ * @category Constructors
+ */
+export const spelledOutAmount = <const N extends string>({
+  name,
+  ruleSet,
+}: {
+  readonly name: N;
+  readonly ruleSet: CVSpellOutRuleSet.Type;
+}): Type<N, CVCurrencyFormat.Amount> =>
+  _fromExtractor({
+    name,
+    description: `amount written in ${ruleSet.name} words`,
+    extractor: pipe(ruleSet, CVSpellOutParser.fromRuleSet, CVSpellOutParser.extractAmount),
+    formatter: pipe(ruleSet, CVSpellOutFormatter.fromRuleSet, CVSpellOutFormatter.formatAmount),
+    valueWriter: ({ amount, currency }) => `${BigDecimal.format(amount)} ${currency}`,
+    tSchemaInstance: Schema.Struct({ amount: Schema.BigDecimal, currency: Schema.String }),
+  });
+
+/**
+ * `CVTemplatePlaceholder` instance that tries to parse/format an integer written as a Roman
+ * numeral, e.g. 'XIV'. Roman numerals are written in upper case unless `isLowerCase` is true
+ * (default is false), e.g. 'xiv'.
+ *
+ * Parsing: the parser reads from the text the longest canonical Roman numeral in the expected case
+ * (see `CVRomanNumeral`) and converts it into a number. Parsing fails if that Roman numeral is
+ * directly followed by another Roman letter in the same case, e.g. 'IIII'.
+ *
+ * Formatting: the number is written as a Roman numeral. The formatter fails if the passed number is
+ * not an integer between 1 and 3999 included.
+ *
+ * @category Constructors
+ */
+export const romanNumeral = <const N extends string>({
+  name,
+  isLowerCase = false,
+}: {
+  readonly name: N;
+  readonly isLowerCase?: boolean;
+}): Type<N, number> => {
+  const leadingLettersRegExp = pipe(
+    ['C', 'D', 'I', 'L', 'M', 'V', 'X'],
+    Array.map((letter) => (isLowerCase ? letter.toLowerCase() : letter)),
+    MRegExpString.anyCharIn,
+    MRegExpString.zeroOrMore,
+    MRegExpString.atStart,
+    MRegExp.fromRegExpString(),
+  );
+  return _fromExtractor({
+    name,
+    description: `${isLowerCase ? 'lower' : 'upper'}-case Roman numeral`,
+    extractor: (text) =>
+      pipe(
+        // Only the leading Roman letters in the expected case are considered
+        leadingLettersRegExp.exec(text)![0].toUpperCase(),
+        CVRomanNumeral.extract,
+        Option.map(([value, parsedText]) => Tuple.make(value, text.slice(0, parsedText.length))),
+      ),
+    formatter: flow(
+      CVRomanNumeral.fromNumber,
+      Option.map((romanNumeral) => (isLowerCase ? romanNumeral.toLowerCase() : romanNumeral)),
+    ),
+    valueWriter: (value) => `${value}`,
+    tSchemaInstance: Schema.Number,
+  });
+};
+
+/** Regular expression matching the leading digits of a strictly positive integer */
+const LEADING_ORDINAL_DIGITS_REGEXP = pipe(
+  MRegExpString.digit,
+  MRegExpString.zeroOrMore,
+  MString.prepend(MRegExpString.nonZeroDigit),
+  MRegExpString.atStart,
+  MRegExp.fromRegExpString(),
+);
+
+/**
+ * `CVTemplatePlaceholder` instance that tries to parse/format a strictly positive integer written
+ * in digits followed by its ordinal suffix as given by `ordinalSuffixes`, e.g. '1st', '22nd' in
+ * English or '1er', '2e' in French.
+ *
+ * Parsing: the parser reads from the text all the digits it can find (the first one may not be a
+ * 0), converts them into a number and checks that they are followed by the suffix expected for that
+ * number. Parsing fails if the result is not a safe integer.
+ *
+ * Formatting: the number is written in digits followed by its suffix. The formatter fails if the
+ * passed number is not a strictly positive safe integer.
+ *
+ * @category Constructors
+ */
+export const ordinalNumber = <const N extends string>({
+  name,
+  ordinalSuffixes,
+}: {
+  readonly name: N;
+  readonly ordinalSuffixes: CVOrdinalSuffixes.Type;
+}): Type<N, number> =>
+  _fromExtractor({
+    name,
+    description: `integer followed by its ${ordinalSuffixes.name} ordinal suffix`,
+    extractor: (text) =>
+      Option.gen(function* () {
+        const digits = yield* MString.match(LEADING_ORDINAL_DIGITS_REGEXP)(text);
+        const value = yield* pipe(Number(digits), Option.liftPredicate(Number.isSafeInteger));
+        const ordinal = digits + ordinalSuffixes.suffix(value);
+        return yield* pipe(
+          Tuple.make(value, ordinal),
+          Option.liftPredicate(() => text.startsWith(ordinal)),
+        );
+      }),
+    formatter: flow(
+      Option.liftPredicate((value: number) => Number.isSafeInteger(value) && value > 0),
+      Option.map((value) => `${value}${ordinalSuffixes.suffix(value)}`),
+    ),
+    valueWriter: (value) => `${value}`,
+    tSchemaInstance: Schema.Number,
+  });
+
 /**
  * Builds a `CVTemplatePlaceholder` instance that works as a map:
  *
@@ -459,16 +945,21 @@ export const number = <const N extends string>({
  * such a `Schema` with the `Schema.declare` function (if you don't provide it, the `Schema` will
  * return an error)
  *
+ * If `isCaseSensitive` is false (default is true), the parser ignores case when looking for a key.
+ * The formatter always writes the key as it was provided.
+ *
  * @category Constructors
  */
 export const mappedLiterals = <const N extends string, T>({
   name,
   keyValuePairs,
   schemaInstance = Schema.declare((_input: unknown): _input is T => false),
+  isCaseSensitive = true,
 }: {
   readonly name: N;
   readonly keyValuePairs: ReadonlyArray<readonly [string, T]>;
   readonly schemaInstance?: Schema.Codec<T>;
+  readonly isCaseSensitive?: boolean;
 }): Type<N, T> => {
   const keys = pipe(
     keyValuePairs,
@@ -490,12 +981,17 @@ export const mappedLiterals = <const N extends string, T>({
     HashMap.fromIterable,
   );
 
-  const isTheStartOf = Function.flip(String.startsWith);
+  const isTheStartOf: MTypes.OneArgFunction<
+    string,
+    MTypes.OneArgFunction<string, boolean>
+  > = isCaseSensitive
+    ? Function.flip(String.startsWith)
+    : (text) => (key) => text.slice(0, key.length).toLowerCase() === key.toLowerCase();
   const flippedTakeRightBut = Function.flip(MString.takeRightBut);
 
   return make({
     name,
-    description: `from ${keys} to ${values}`,
+    description: `from ${keys} to ${values}${isCaseSensitive ? '' : ' (case-insensitive)'}`,
     parser: function (this: Type<N, T>, text) {
       return pipe(
         keyValuePairs,
@@ -547,6 +1043,7 @@ export const mappedLiterals = <const N extends string, T>({
 export const numberMappedLiterals = <const N extends string>(params: {
   readonly name: N;
   readonly keyValuePairs: ReadonlyArray<readonly [string, number]>;
+  readonly isCaseSensitive?: boolean;
 }): Type<N, number> => mappedLiterals({ ...params, schemaInstance: Schema.Number });
 
 /**
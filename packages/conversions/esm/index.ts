@@ -1,5 +1,14 @@
 // ************** This file is automatically generated. Any modifications will be lost ************************
 
+export * as CVBusinessCalendar from './DateTime/BusinessCalendar.js';
+export * as CVCalendar from './DateTime/Calendar.js';
+export * as CVCron from './DateTime/Cron.js';
+export * as CVCurrency from './formatting/CurrencyFormat/Currency.js';
+export * as CVCurrencyFormat from './formatting/CurrencyFormat/CurrencyFormat.js';
+export * as CVCurrencyFormatCurrencyDisplayOption from './formatting/CurrencyFormat/CurrencyFormatCurrencyDisplayOption/CurrencyFormatCurrencyDisplayOption.js';
+export * as CVCurrencyFormatCurrencyPositionOption from './formatting/CurrencyFormat/CurrencyFormatCurrencyPositionOption/CurrencyFormatCurrencyPositionOption.js';
+export * as CVCurrencyFormatter from './formatting/CurrencyFormat/CurrencyFormatter.js';
+export * as CVCurrencyParser from './formatting/CurrencyFormat/CurrencyParser.js';
 export * as CVDateTime from './DateTime/DateTime.js';
 export * as CVDateTimeConstants from './DateTime/date-time-constants.js';
 export * as CVDateTimeFormat from './formatting/DateTimeFormat/DateTimeFormat.js';
@@ -9,21 +18,46 @@ export * as CVDateTimeFormatPlaceholder from './formatting/DateTimeFormat/DateTi
 export * as CVDateTimeFormatSeparator from './formatting/DateTimeFormat/DateTimeFormatPart/DateTimeFormatSeparator.js';
 export * as CVDateTimeFormatToken from './formatting/DateTimeFormat/DateTimeFormatToken.js';
 export * as CVDateTimeFormatter from './formatting/DateTimeFormat/DateTimeFormatter.js';
+export * as CVDateTimeLenientParser from './formatting/DateTimeFormat/DateTimeLenientParser.js';
 export * as CVDateTimeParser from './formatting/DateTimeFormat/DateTimeParser.js';
 export * as CVDateTimeParts from './DateTime/DateTimeParts.js';
+export * as CVDateTimeZoneDisambiguation from './DateTime/DateTimeZoneDisambiguation.js';
 export * as CVDayPeriodNames from './formatting/DateTimeFormat/DateTimeFormatContext/DayPeriodNames.js';
+export * as CVDuration from './DateTime/Duration.js';
+export * as CVEraNames from './formatting/DateTimeFormat/DateTimeFormatContext/EraNames.js';
+export * as CVFlexibleDayPeriodNames from './formatting/DateTimeFormat/DateTimeFormatContext/FlexibleDayPeriodNames.js';
 export * as CVMonthNames from './formatting/DateTimeFormat/DateTimeFormatContext/MonthNames.js';
 export * as CVNumberBase10Format from './formatting/NumberBase10Format/NumberBase10Format.js';
 export * as CVNumberBase10FormatScientificNotationOption from './formatting/NumberBase10Format/NumberBase10FormatScientificNotationOption/NumberBase10FormatScientificNotationOption.js';
 export * as CVNumberBase10FormatSignDisplayOption from './formatting/NumberBase10Format/NumberBase10FormatSignDisplayOption/NumberBase10FormatSignDisplayOption.js';
 export * as CVNumberBase10Formatter from './formatting/NumberBase10Format/NumberBase10Formatter.js';
 export * as CVNumberBase10Parser from './formatting/NumberBase10Format/NumberBase10Parser.js';
+export * as CVNumberCompactFormat from './formatting/NumberCompactFormat/NumberCompactFormat.js';
+export * as CVNumberCompactFormatter from './formatting/NumberCompactFormat/NumberCompactFormatter.js';
+export * as CVNumberCompactParser from './formatting/NumberCompactFormat/NumberCompactParser.js';
+export * as CVNumberCompactSuffixTable from './formatting/NumberCompactFormat/NumberCompactSuffixTable.js';
+export * as CVNumberRadixFormat from './formatting/NumberRadixFormat/NumberRadixFormat.js';
+export * as CVNumberRadixFormatter from './formatting/NumberRadixFormat/NumberRadixFormatter.js';
+export * as CVNumberRadixParser from './formatting/NumberRadixFormat/NumberRadixParser.js';
+export * as CVOrdinalSuffixes from './formatting/OrdinalSuffixes.js';
+export * as CVPeriod from './DateTime/Period.js';
+export * as CVRecurrence from './DateTime/Recurrence.js';
+export * as CVRelativeTimeFormatContext from './formatting/RelativeTimeFormat/RelativeTimeFormatContext.js';
+export * as CVRelativeTimeFormatter from './formatting/RelativeTimeFormat/RelativeTimeFormatter.js';
+export * as CVRelativeTimeParser from './formatting/RelativeTimeFormat/RelativeTimeParser.js';
+export * as CVRomanNumeral from './formatting/RomanNumeral.js';
 export * as CVRounder from './rounding/Rounder.js';
 export * as CVRounderParams from './rounding/RounderParams.js';
+export * as CVRounderParamsPrecisionOption from './rounding/RounderParamsPrecisionOption/RounderParamsPrecisionOption.js';
 export * as CVRoundingOption from './rounding/RoundingOption/RoundingOption.js';
 export * as CVSchema from './formatting/Schema.js';
+export * as CVSpellOutFormatter from './formatting/SpellOutFormat/SpellOutFormatter.js';
+export * as CVSpellOutParser from './formatting/SpellOutFormat/SpellOutParser.js';
+export * as CVSpellOutRuleSet from './formatting/SpellOutFormat/SpellOutRuleSet.js';
 export * as CVTemplate from './formatting/template/Template.js';
+export * as CVTemplateCombinator from './formatting/template/TemplateCombinator.js';
 export * as CVTemplateFormatter from './formatting/template/TemplateFormatter.js';
+export * as CVTemplateParseError from './formatting/template/TemplateParseError.js';
 export * as CVTemplateParser from './formatting/template/TemplateParser.js';
 export * as CVTemplatePart from './formatting/template/TemplatePart/TemplatePart.js';
 export * as CVTemplatePlaceholder from './formatting/template/TemplatePart/TemplatePlaceholder/TemplatePlaceholder.js';
@@ -0,0 +1,284 @@
+/**
+ * This module implements an object that represents an IANA time zone (e.g. 'Europe/Paris'). It
+ * calculates the zone offset that prevails at a given timestamp and converts a local time, i.e. a
+ * zonedTimestamp, into a timestamp. The latter conversion is not always possible: when clocks are
+ * set back, some local times occur twice; when clocks are set forward, some local times are
+ * skipped. Such situations are resolved according to a `CVDateTimeZoneDisambiguation`.
+ */
+
+import { pipe } from 'effect';
+import * as Array from 'effect/Array';
+import * as Number from 'effect/Number';
+import * as Option from 'effect/Option';
+import * as Order from 'effect/Order';
+import * as Result from 'effect/Result';
+import * as Struct from 'effect/Struct';
+
+import * as MData from '@parischap/effect-lib/MData';
+import * as MInputError from '@parischap/effect-lib/MInputError';
+import * as MNumber from '@parischap/effect-lib/MNumber';
+import * as MRegExp from '@parischap/effect-lib/MRegExp';
+import * as MRegExpString from '@parischap/effect-lib/MRegExpString';
+import * as MString from '@parischap/effect-lib/MString';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+import {
+  DAY_MS,
+  HOUR_MS,
+  MAX_TIMESTAMP,
+  MIN_TIMESTAMP,
+  MINUTE_MS,
+  SECOND_MS,
+} from '../../DateTime/date-time-constants.js';
+import * as CVDateTimeZoneDisambiguation from '../../DateTime/DateTimeZoneDisambiguation.js';
+import * as CVGregorianDate from './GregorianDate.js';
+import * as CVTime from './Time.js';
+
+/**
+ * Module tag
+ *
+ * @category Module markers
+ */
+export const moduleTag = '@parischap/conversions/internal/DateTime/TimeZone/';
+const TypeId: unique symbol = Symbol.for(moduleTag) as TypeId;
+type TypeId = typeof TypeId;
+
+/** Regular expression string that matches two digits */
+const TWO_DIGITS = pipe(MRegExpString.digit, MRegExpString.repeatBetween(2, 2));
+
+/** Regular expression that matches the `longOffset` time zone name returned by Intl.DateTimeFormat */
+const LONG_OFFSET_REGEXP = pipe(
+  Array.make(
+    MRegExpString.capture('sign')(MRegExpString.sign),
+    MRegExpString.capture('hour')(TWO_DIGITS),
+    ':',
+    MRegExpString.capture('minute')(TWO_DIGITS),
+    pipe(TWO_DIGITS, MRegExpString.capture('second'), MString.prepend(':'), MRegExpString.optional),
+  ),
+  Array.join(''),
+  MRegExpString.optional,
+  MString.prepend('GMT'),
+  MRegExpString.makeLine,
+  MRegExp.fromRegExpString(),
+);
+
+const safeDateTimeFormat = Option.liftThrowable(
+  (timeZone: string) =>
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      timeZoneName: 'longOffset',
+    }),
+);
+
+const byTimestamp: Order.Order<{ readonly timestamp: number }> = Order.mapInput(
+  Order.Number,
+  Struct.get('timestamp'),
+);
+
+/**
+ * Type that represents a CVTimeZone
+ *
+ * @category Models
+ */
+export class Type extends MData.Class {
+  /** IANA name of the time zone, as resolved by Intl.DateTimeFormat (e.g. 'Europe/Paris') */
+  readonly name: string;
+
+  /** Option used to resolve ambiguous or skipped local times */
+  readonly disambiguation: CVDateTimeZoneDisambiguation.Type;
+
+  /** Function that returns the parts of a Date formatted in the time zone */
+  private readonly toParts: MTypes.OneArgFunction<Date, ReadonlyArray<Intl.DateTimeFormatPart>>;
+
+  /** Returns the `id` of `this` */
+  [MData.idSymbol](): string | (() => string) {
+    return function idSymbol(this: Type) {
+      return `${this.name}(${CVDateTimeZoneDisambiguation.toString(this.disambiguation)})`;
+    };
+  }
+
+  /** Class constructor */
+  private constructor({
+    name,
+    disambiguation,
+    toParts,
+  }: {
+    readonly name: string;
+    readonly disambiguation: CVDateTimeZoneDisambiguation.Type;
+    readonly toParts: MTypes.OneArgFunction<Date, ReadonlyArray<Intl.DateTimeFormatPart>>;
+  }) {
+    super();
+    this.name = name;
+    this.disambiguation = disambiguation;
+    this.toParts = toParts;
+  }
+
+  /**
+   * Tries to build a CVTimeZone from the IANA time zone name `name`. Returns a `Success` if
+   * successful, a `Failure` otherwise.
+   */
+  static fromName({
+    name,
+    disambiguation,
+  }: {
+    readonly name: string;
+    readonly disambiguation: CVDateTimeZoneDisambiguation.Type;
+  }): Result.Result<Type, MInputError.Type> {
+    return pipe(
+      name,
+      safeDateTimeFormat,
+      Option.map(
+        (dateTimeFormat) =>
+          new Type({
+            name: dateTimeFormat.resolvedOptions().timeZone,
+            disambiguation,
+            toParts: Intl.DateTimeFormat.prototype.formatToParts.bind(dateTimeFormat),
+          }),
+      ),
+      Result.fromOption(
+        () =>
+          new MInputError.Type({
+            message: `'${name}' is not a valid IANA time zone name`,
+          }),
+      ),
+    );
+  }
+
+  /**
+   * Returns the zone offset in milliseconds that prevails in the time zone at `timestamp`. The
+   * result is always an integer, even for historic offsets that include seconds (e.g. +00:09:21).
+   * `timestamp` is clamped to the range [MIN_TIMESTAMP, MAX_TIMESTAMP]
+   */
+  _zoneOffsetMsAt(timestamp: number): number {
+    return pipe(
+      new Date(Number.clamp(timestamp, { minimum: MIN_TIMESTAMP, maximum: MAX_TIMESTAMP })),
+      this.toParts,
+      Array.findFirst((part) => part.type === 'timeZoneName'),
+      Option.flatMap((part) =>
+        pipe(
+          part.value,
+          MString.matchWithCapturingGroups(LONG_OFFSET_REGEXP, [
+            'sign',
+            'hour',
+            'minute',
+            'second',
+          ]),
+        ),
+      ),
+      Option.map(({ groups: { sign, hour, minute, second } }) => {
+        // Missing parts are captured as empty strings, which convert to 0
+        const milliseconds = +hour * HOUR_MS + +minute * MINUTE_MS + +second * SECOND_MS;
+        return sign === '-' ? -milliseconds : milliseconds;
+      }),
+      Option.getOrElse(() => 0),
+    );
+  }
+
+  /** Returns the TypeMarker of the class */
+  protected get [TypeId](): TypeId {
+    return TypeId;
+  }
+}
+
+/**
+ * Tries to build a CVTimeZone from the IANA time zone name `name`. Returns a `Success` if
+ * successful, a `Failure` otherwise.
+ *
+ * @category Constructors
+ */
+export const fromName = (params: {
+  readonly name: string;
+  readonly disambiguation: CVDateTimeZoneDisambiguation.Type;
+}): Result.Result<Type, MInputError.Type> => Type.fromName(params);
+
+/**
+ * Returns the `name` property of `self`
+ *
+ * @category Getters
+ */
+export const name: MTypes.OneArgFunction<Type, string> = Struct.get('name');
+
+/**
+ * Returns the `disambiguation` property of `self`
+ *
+ * @category Getters
+ */
+export const disambiguation: MTypes.OneArgFunction<Type, CVDateTimeZoneDisambiguation.Type> =
+  Struct.get('disambiguation');
+
+/**
+ * Returns the zone offset in hours that prevails in `self` at `timestamp`
+ *
+ * @category Destructors
+ */
+export const zoneOffsetAt =
+  (timestamp: number) =>
+  (self: Type): number =>
+    self._zoneOffsetMsAt(timestamp) / HOUR_MS;
+
+/**
+ * Tries to convert `zonedTimestamp`, i.e. a local time in `self` expressed as a number of
+ * milliseconds since 1/1/1970 00:00:00:000 local time, into a timestamp. Returns a `Success` of the
+ * timestamp and of the zone offset that prevails at that timestamp if successful. Returns a
+ * `Failure` if the local time is ambiguous or skipped and the disambiguation option of `self` is
+ * `Reject`.
+ *
+ * @category Destructors
+ */
+export const resolveZonedTimestamp =
+  (zonedTimestamp: number) =>
+  (
+    self: Type,
+  ): Result.Result<
+    { readonly timestamp: number; readonly zoneOffset: number },
+    MInputError.Type
+  > => {
+    const { disambiguation } = self;
+    // Offsets are handled in milliseconds so that the calculated timestamps remain integers
+    const offsetBefore = self._zoneOffsetMsAt(zonedTimestamp - DAY_MS);
+    const offsetAfter = self._zoneOffsetMsAt(zonedTimestamp + DAY_MS);
+    const localTime = `${pipe(zonedTimestamp, CVGregorianDate.fromTimestamp, CVGregorianDate.getIsoString)}T\
+${pipe(zonedTimestamp, MNumber.intModulo(DAY_MS), CVTime.fromTimestamp, CVTime.getIsoString)}`;
+
+    // Each candidate timestamp is valid only if the offset that prevails at that timestamp is the
+    // one that was used to calculate it
+    const candidates = pipe(
+      Array.dedupe([offsetBefore, offsetAfter]),
+      Array.map((zoneOffsetMs) => ({ timestamp: zonedTimestamp - zoneOffsetMs, zoneOffsetMs })),
+      Array.filter(
+        ({ timestamp, zoneOffsetMs }) => self._zoneOffsetMsAt(timestamp) === zoneOffsetMs,
+      ),
+      Array.sort(byTimestamp),
+      Array.map(({ timestamp, zoneOffsetMs }) => ({
+        timestamp,
+        zoneOffset: zoneOffsetMs / HOUR_MS,
+      })),
+    );
+
+    if (Array.isReadonlyArrayNonEmpty(candidates)) {
+      if (candidates.length === 1) return Result.succeed(candidates[0]);
+      if (disambiguation === CVDateTimeZoneDisambiguation.Type.Reject)
+        return Result.fail(
+          new MInputError.Type({
+            message: `Local time ${localTime} is ambiguous in time zone '${self.name}'`,
+          }),
+        );
+      return Result.succeed(
+        disambiguation === CVDateTimeZoneDisambiguation.Type.Later
+          ? Array.lastNonEmpty(candidates)
+          : candidates[0],
+      );
+    }
+
+    if (disambiguation === CVDateTimeZoneDisambiguation.Type.Reject)
+      return Result.fail(
+        new MInputError.Type({
+          message: `Local time ${localTime} does not exist in time zone '${self.name}'`,
+        }),
+      );
+
+    const timestamp =
+      zonedTimestamp -
+      (disambiguation === CVDateTimeZoneDisambiguation.Type.Earlier ? offsetAfter : offsetBefore);
+    return Result.succeed({ timestamp, zoneOffset: self._zoneOffsetMsAt(timestamp) / HOUR_MS });
+  };
@@ -88,12 +88,16 @@ export class Type extends MData.Class {
  * @category Constructors
  */
 export const fromZoneOffset = (zoneOffset: number): Type => {
-  const zoneHour = Math.trunc(zoneOffset);
-  const minutesSeconds = Math.abs(zoneOffset - zoneHour) * 60;
-  const zoneMinute = Math.trunc(minutesSeconds);
-  const zoneSecond = Math.trunc((minutesSeconds - zoneMinute) * 60);
-
-  return new Type({ zoneHour, zoneMinute, zoneSecond });
+  // Working on a whole number of seconds prevents offsets like +00:09:21, which cannot be
+  // represented exactly in hours, from being truncated to +00:09:20
+  const absSeconds = Math.round(Math.abs(zoneOffset) * 3600);
+  const absHour = Math.trunc(absSeconds / 3600);
+
+  return new Type({
+    zoneHour: zoneOffset < 0 ? -absHour : absHour,
+    zoneMinute: Math.trunc(absSeconds / 60) % 60,
+    zoneSecond: absSeconds % 60,
+  });
 };
 
 /**
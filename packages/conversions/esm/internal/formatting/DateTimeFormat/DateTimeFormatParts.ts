@@ -16,11 +16,13 @@ import * as CVDateTimeFormatPart from '../../../formatting/DateTimeFormat/DateTi
 export interface Type extends ReadonlyArray<CVDateTimeFormatPart.Type> {}
 
 /**
- * Converts self to its CVTemplateParts equivalent
+ * Converts self to its CVTemplateParts equivalent. See `CVDateTimeFormatPart.toTemplatePart` for
+ * the meaning of `isTolerant`
  *
  * @category Destructors
  */
 export const toTemplateParts = (
   context: CVDateTimeFormatContext.Type,
+  isTolerant = false,
 ): MTypes.OneArgFunction<Type, CVTemplateParts.Type> =>
-  Array.map(CVDateTimeFormatPart.toTemplatePart(context));
+  Array.map(CVDateTimeFormatPart.toTemplatePart(context, isTolerant));
@@ -1,3 +1,67 @@
+import { flow } from 'effect';
+import * as Result from 'effect/Result';
+
+import type * as MInputError from '@parischap/effect-lib/MInputError';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+import type * as CVCalendar from '../../../DateTime/Calendar.js';
 import type * as CVDateTimeParts from '../../../DateTime/DateTimeParts.js';
 
-export type Type = keyof CVDateTimeParts.Type;
+import * as CVDateTime from '../../../DateTime/DateTime.js';
+
+/**
+ * Names of the parts that can be read from a `CVDateTime` but are not used to build one. When
+ * parsing, they are only checked against the parsed `CVDateTime`
+ */
+export type Derived = 'era' | 'narrowMonth' | 'narrowWeekday' | 'dayPeriod';
+
+export type Type = keyof CVDateTimeParts.Type | Derived;
+
+/** Map between the name of a derived part and the function that reads it from a `CVDateTime` */
+export const derivedPartReaders: {
+  readonly [k in Derived]: MTypes.OneArgFunction<CVDateTime.Type, number>;
+} = {
+  era: CVDateTime.getEra,
+  narrowMonth: CVDateTime.getMonth,
+  narrowWeekday: CVDateTime.getWeekday,
+  dayPeriod: CVDateTime.getHour23,
+};
+
+/** Returns true if `name` is the name of a derived part */
+export const isDerived = (name: string): name is Derived => name in derivedPartReaders;
+
+/** Names of the parts whose value depends on the calendar in which a `CVDateTime` is expressed */
+export type CalendarDependent = 'era' | 'year' | 'month' | 'narrowMonth' | 'monthDay';
+
+/** Type of the values of the calendar-dependent parts of a `CVDateTime`, indexed by part name */
+export type CalendarDependentValues = { readonly [k in Type]?: number };
+
+/**
+ * Returns a function that reads the values of the calendar-dependent parts of a `CVDateTime` in
+ * `calendar`. If `calendar` is `undefined`, the returned function returns no value so the usual
+ * Gregorian readers apply
+ */
+export const calendarDependentValuesReader = (
+  calendar: CVCalendar.Type | undefined,
+): MTypes.OneArgFunction<
+  CVDateTime.Type,
+  Result.Result<CalendarDependentValues, MInputError.Type>
+> =>
+  calendar === undefined
+    ? () => Result.succeed({})
+    : flow(
+        CVDateTime.getCalendarDate(calendar),
+        Result.map(({ era, year, month, monthDay }) => ({
+          era,
+          year,
+          month,
+          narrowMonth: month,
+          monthDay,
+        })),
+      );
+
+/**
+ * Name of the `CVTemplatePlaceholder` that replaces separators in tolerant mode. It does not
+ * contribute to the parsed `CVDateTime`
+ */
+export const tolerantSeparator = 'tolerantSeparator';
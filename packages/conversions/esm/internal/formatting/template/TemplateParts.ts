@@ -1,10 +1,14 @@
 import { flow } from 'effect';
 import * as Array from 'effect/Array';
+import * as Record from 'effect/Record';
 import * as Result from 'effect/Result';
+import type * as Schema from 'effect/Schema';
+import * as Tuple from 'effect/Tuple';
 
 import * as MFunction from '@parischap/effect-lib/MFunction';
 /** This module implements an array of `CVTemplatePart`'s (see TemplatePart.ts) */
 import * as MMatch from '@parischap/effect-lib/MMatch';
+import * as MTuple from '@parischap/effect-lib/MTuple';
 import type * as MTypes from '@parischap/effect-lib/MTypes';
 
 import * as CVTemplatePart from '../../../formatting/template/TemplatePart/TemplatePart.js';
@@ -65,3 +69,30 @@ export const getPlaceholderDescription: MTypes.OneArgFunction<Type, string> = fl
   ),
   Array.join('.\n'),
 );
+
+/**
+ * Returns the fields of the `Schema.Struct` that represents the record of values of `self`, i.e.
+ * the `tSchemaInstance` of each `CVTemplatePlaceholder` of `self` indexed by its name
+ *
+ * @category Destructors
+ */
+export const getSchemaFields: MTypes.OneArgFunction<Type, Schema.Struct.Fields> = flow(
+  Array.filterMap(
+    flow(
+      MMatch.make,
+      MMatch.when(CVTemplatePart.isSeparator, MFunction.constFailVoid),
+      MMatch.when(
+        CVTemplatePart.isPlaceholder,
+        flow(
+          MTuple.replicate(2),
+          Tuple.evolve(
+            Tuple.make(CVTemplatePlaceholder.name, CVTemplatePlaceholder.tSchemaInstance),
+          ),
+          Result.succeed,
+        ),
+      ),
+      MMatch.exhaustive,
+    ),
+  ),
+  Record.fromEntries,
+);
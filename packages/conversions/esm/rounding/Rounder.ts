@@ -1,10 +1,12 @@
 /**
  * This module implements a CVRounder, i.e. a function that can round a number or a BigDecimal to
- * the given `precision` and according to the passed `CVRoundingOption`
+ * the given `precision` (a number of fractional or significant digits) and according to the passed
+ * `CVRoundingOption`
  */
 
 import { pipe } from 'effect';
 import * as BigDecimal from 'effect/BigDecimal';
+import * as BigInt from 'effect/BigInt';
 
 import * as MBigDecimal from '@parischap/effect-lib/MBigDecimal';
 import * as MBigInt from '@parischap/effect-lib/MBigInt';
@@ -14,6 +16,7 @@ import type * as MTypes from '@parischap/effect-lib/MTypes';
 import type * as CVRounderParams from './RounderParams.js';
 
 import * as CVRoundingOptionCorrecter from '../internal/rounding/RoundingOption/RoundingOptionCorrecter.js';
+import * as CVRounderParamsPrecisionOption from './RounderParamsPrecisionOption/RounderParamsPrecisionOption.js';
 
 const bigDecimal10 = BigDecimal.make(10n, 0);
 
@@ -26,39 +29,38 @@ export interface Type<
   in out N extends number | BigDecimal.BigDecimal,
 > extends MTypes.OneArgFunction<N> {}
 
-/**
- * Constructor of a number rounder from a CVRounderParams
- *
- * @category Constructors
- */
-export const number = (rounderParams: CVRounderParams.Type): Type<number> => {
-  const shiftMultiplicand = pipe(1, MNumber.shift(rounderParams.precision));
-  const unshiftMultiplicand = 1 / shiftMultiplicand;
-
-  const correcter = CVRoundingOptionCorrecter.fromRoundingOption(rounderParams.roundingOption);
+// Rounder that keeps `precision` fractional digits. `precision` may be negative
+const numberRounder = (
+  precision: number,
+  correcter: CVRoundingOptionCorrecter.Type,
+): Type<number> => {
+  const powerOfTen = pipe(1, MNumber.shift(Math.abs(precision)));
+  // Dividing by a power of 10 is more accurate than multiplying by its inverse, so a negative
+  // precision shifts by dividing and unshifts by multiplying
+  const [shift, unshift]: readonly [Type<number>, Type<number>] =
+    precision >= 0
+      ? [(n) => n * powerOfTen, (n) => n / powerOfTen]
+      : [(n) => n / powerOfTen, (n) => n * powerOfTen];
 
   return (n) => {
-    const shiftedSelf = shiftMultiplicand * n;
+    const shiftedSelf = shift(n);
     const truncatedShiftedSelf = Math.trunc(shiftedSelf);
     const firstFollowingDigit = Math.trunc((shiftedSelf - truncatedShiftedSelf) * 10);
-    return (
-      unshiftMultiplicand *
-      (truncatedShiftedSelf +
-        correcter({ firstFollowingDigit, isEven: truncatedShiftedSelf % 2 === 0 }))
+    return unshift(
+      truncatedShiftedSelf +
+        correcter({ firstFollowingDigit, isEven: truncatedShiftedSelf % 2 === 0 }),
     );
   };
 };
 
-/**
- * Constructor of a BigDecimal rounder from a CVRounderParams
- *
- * @category Constructors
- */
-export const bigDecimal = (rounderParams: CVRounderParams.Type): Type<BigDecimal.BigDecimal> => {
-  const shiftValue = BigDecimal.make(1n, -rounderParams.precision);
+// Rounder that keeps `precision` fractional digits. `precision` may be negative
+const bigDecimalRounder = (
+  precision: number,
+  correcter: CVRoundingOptionCorrecter.Type,
+): Type<BigDecimal.BigDecimal> => {
+  const shiftValue = BigDecimal.make(1n, -precision);
   const shift = BigDecimal.multiply(shiftValue);
   const unshift = BigDecimal.divideUnsafe(shiftValue);
-  const correcter = CVRoundingOptionCorrecter.fromRoundingOption(rounderParams.roundingOption);
 
   return (n) => {
     const shiftedSelf = shift(n);
@@ -83,3 +85,42 @@ export const bigDecimal = (rounderParams: CVRounderParams.Type): Type<BigDecimal
     );
   };
 };
+
+/**
+ * Constructor of a number rounder from a CVRounderParams. When the `precisionOption` of
+ * `rounderParams` is `SignificantDigits`, 0 and non-finite numbers are returned unchanged
+ *
+ * @category Constructors
+ */
+export const number = (rounderParams: CVRounderParams.Type): Type<number> => {
+  const { precision } = rounderParams;
+  const correcter = CVRoundingOptionCorrecter.fromRoundingOption(rounderParams.roundingOption);
+
+  return rounderParams.precisionOption === CVRounderParamsPrecisionOption.Type.FractionalDigits
+    ? numberRounder(precision, correcter)
+    : (n) =>
+        n === 0 || !Number.isFinite(n)
+          ? n
+          : numberRounder(precision - Math.floor(Math.log10(Math.abs(n))) - 1, correcter)(n);
+};
+
+/**
+ * Constructor of a BigDecimal rounder from a CVRounderParams. When the `precisionOption` of
+ * `rounderParams` is `SignificantDigits`, 0 is returned unchanged
+ *
+ * @category Constructors
+ */
+export const bigDecimal = (rounderParams: CVRounderParams.Type): Type<BigDecimal.BigDecimal> => {
+  const { precision } = rounderParams;
+  const correcter = CVRoundingOptionCorrecter.fromRoundingOption(rounderParams.roundingOption);
+
+  return rounderParams.precisionOption === CVRounderParamsPrecisionOption.Type.FractionalDigits
+    ? bigDecimalRounder(precision, correcter)
+    : (n) =>
+        BigDecimal.isZero(n)
+          ? n
+          : bigDecimalRounder(
+              precision - (MBigInt.unsafeLog10(BigInt.abs(n.value)) - n.scale) - 1,
+              correcter,
+            )(n);
+};
@@ -10,6 +10,7 @@ import * as MEquivalenceBasedEqualityData from '@parischap/effect-lib/MEquivalen
 import * as MString from '@parischap/effect-lib/MString';
 import type * as MTypes from '@parischap/effect-lib/MTypes';
 
+import * as CVRounderParamsPrecisionOption from './RounderParamsPrecisionOption/RounderParamsPrecisionOption.js';
 import * as CVRoundingOption from './RoundingOption/RoundingOption.js';
 
 /**
@@ -27,17 +28,24 @@ type TypeId = typeof TypeId;
  * @category Models
  */
 export class Type extends MEquivalenceBasedEqualityData.Class {
-  /** The precision at which to round the number. Must be a finite positive integer. */
+  /**
+   * The precision at which to round the number. Must be a finite positive integer. Must be strictly
+   * positive if `precisionOption` is `SignificantDigits`
+   */
   readonly precision: number;
 
   /** The rounding mode to use */
   readonly roundingOption: CVRoundingOption.Type;
 
+  /** Meaning of `precision`. See CVRounderParamsPrecisionOption.ts */
+  readonly precisionOption: CVRounderParamsPrecisionOption.Type;
+
   /** Class constructor */
-  private constructor({ precision, roundingOption }: MTypes.Data<Type>) {
+  private constructor({ precision, roundingOption, precisionOption }: MTypes.Data<Type>) {
     super();
     this.precision = precision;
     this.roundingOption = roundingOption;
+    this.precisionOption = precisionOption;
   }
 
   /** Static constructor */
@@ -49,7 +57,11 @@ export class Type extends MEquivalenceBasedEqualityData.Class {
   [MData.idSymbol](): string | (() => string) {
     return function idSymbol(this: Type) {
       return `${CVRoundingOption.toString(this.roundingOption)}RounderWith\
-${MString.fromNumber(10)(this.precision)}Precision`;
+${MString.fromNumber(10)(this.precision)}${
+        this.precisionOption === CVRounderParamsPrecisionOption.Type.SignificantDigits
+          ? 'SignificantDigits'
+          : 'Precision'
+      }`;
     };
   }
 
@@ -80,20 +92,25 @@ ${MString.fromNumber(10)(this.precision)}Precision`;
  * @category Equivalences
  */
 export const equivalence: Equivalence.Equivalence<Type> = (self, that) =>
-  self.precision === that.precision && self.roundingOption === that.roundingOption;
+  self.precision === that.precision &&
+  self.roundingOption === that.roundingOption &&
+  self.precisionOption === that.precisionOption;
 
 /**
- * Constructs a `CVRounderParams` with the specified `precision` and `roundingOption`
+ * Constructs a `CVRounderParams` with the specified `precision`, `roundingOption` and
+ * `precisionOption`
  *
  * @category Constructors
  */
 export const make = ({
   precision = 0,
   roundingOption = CVRoundingOption.Type.HalfExpand,
+  precisionOption = CVRounderParamsPrecisionOption.Type.FractionalDigits,
 }: {
   readonly precision?: number;
   readonly roundingOption?: CVRoundingOption.Type;
-} = {}): Type => Type.make({ precision, roundingOption });
+  readonly precisionOption?: CVRounderParamsPrecisionOption.Type;
+} = {}): Type => Type.make({ precision, roundingOption, precisionOption });
 
 /**
  * `CVRounderParams` instance that uses the `HalfExpand` `CVRoundingOption` and `precision=2`. Can
@@ -103,6 +120,17 @@ export const make = ({
  */
 export const halfExpand2 = make({ precision: 2 });
 
+/**
+ * `CVRounderParams` instance that uses the `HalfExpand` `CVRoundingOption` and keeps 3 significant
+ * digits. Can be used in scientific and engineering apps
+ *
+ * @category Instances
+ */
+export const halfExpand3SignificantDigits = make({
+  precision: 3,
+  precisionOption: CVRounderParamsPrecisionOption.Type.SignificantDigits,
+});
+
 /**
  * Returns the `precision` property of `self`
  *
@@ -117,3 +145,11 @@ export const precision: MTypes.OneArgFunction<Type, number> = Struct.get('precis
  */
 export const roundingOption: MTypes.OneArgFunction<Type, CVRoundingOption.Type> =
   Struct.get('roundingOption');
+
+/**
+ * Returns the `precisionOption` property of `self`
+ *
+ * @category Getters
+ */
+export const precisionOption: MTypes.OneArgFunction<Type, CVRounderParamsPrecisionOption.Type> =
+  Struct.get('precisionOption');
@@ -0,0 +1,17 @@
+/** This module implements a type that represents the possible meanings of the precision of a rounder */
+
+/**
+ * Type of a CVRounderParamsPrecisionOption
+ *
+ * @category Models
+ */
+export enum Type {
+  /** The precision is the number of fractional digits to keep, e.g. 1.23 for 1.23456 and 2 */
+  FractionalDigits = 0,
+
+  /**
+   * The precision is the number of significant digits to keep, e.g. 1.23 for 1.23456 and 3 or 1200
+   * for 1234 and 2
+   */
+  SignificantDigits = 1,
+}
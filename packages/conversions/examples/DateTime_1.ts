@@ -1,6 +1,7 @@
 import { pipe } from 'effect';
 
 import * as CVDateTime from '@parischap/conversions/CVDateTime';
+import * as CVDateTimeZoneDisambiguation from '@parischap/conversions/CVDateTimeZoneDisambiguation';
 
 /** You can create a CVDateTime from a timestamp and timeZoneOffset expressed in hours */
 // Result: '1970-01-01T05:15:00.000+05:15
@@ -125,6 +126,39 @@ console.log(pipe(aDate, CVDateTime.setZoneOffsetKeepTimestamp(5.75)));
 // Result: { _id: 'Result', _tag: 'Success', success: '1970-08-31T00:00:00.000+05:45' }
 console.log(pipe(aDate, CVDateTime.setZoneOffsetKeepParts(5.75)));
 
+/**
+ * You can also attach a CVDateTime to an IANA time zone. In that case, the zoneOffset is
+ * recalculated each time the timestamp changes. Local times that are ambiguous or skipped in that
+ * time zone are resolved according to the CVDateTimeZoneDisambiguation passed as second argument
+ * (`Compatible` by default)
+ */
+const aParisDate = pipe(aDate, CVDateTime.setZoneNameKeepTimestampOrThrow('Europe/Paris'));
+
+// Result: '1970-08-31T01:00:00.000+01:00'
+console.log(aParisDate);
+
+// Result: { _id: 'Result', _tag: 'Success', success: '1970-12-31T01:00:00.000+01:00' }
+console.log(pipe(aParisDate, CVDateTime.setMonth(12)));
+
+// Result: {
+//   _id: 'Result',
+//   _tag: 'Failure',
+//   failure: {
+//     message: "Local time 2025-03-30T02:00:00.000 does not exist in time zone 'Europe/Paris'",
+//     _tag: '@parischap/effect-lib/InputError/'
+//   }
+// }
+console.log(
+  pipe(
+    CVDateTime.fromPartsOrThrow({ year: 2025, month: 3, monthDay: 30, zoneOffset: 0 }),
+    CVDateTime.setZoneNameKeepPartsOrThrow(
+      'Europe/Paris',
+      CVDateTimeZoneDisambiguation.Type.Reject,
+    ),
+    CVDateTime.setHour23(2),
+  ),
+);
+
 /**
  * You can also modify the CVDateTime.Parts of an existing CVDateTime object with the provided
  * offsetters. Do keep in mind that the initial CVDateTime object is unchanged: you get a copy with
@@ -132,7 +166,7 @@ console.log(pipe(aDate, CVDateTime.setZoneOffsetKeepParts(5.75)));
  * API).
  */
 // Result: '1970-01-01T00:00:00.000+00:00'
-console.log(pipe(aDate, CVDateTime.toFirstYearDay));
+console.log(pipe(aDate, CVDateTime.toFirstYearDayOrThrow));
 
 // Result: {
 //   _id: 'Result',
@@ -0,0 +1,371 @@
+import { pipe } from 'effect';
+import * as Option from 'effect/Option';
+import * as Result from 'effect/Result';
+
+import * as TestUtils from '@parischap/configs/TestUtils';
+import * as CVBusinessCalendar from '@parischap/conversions/CVBusinessCalendar';
+import * as CVDateTime from '@parischap/conversions/CVDateTime';
+import * as CVDateTimeZoneDisambiguation from '@parischap/conversions/CVDateTimeZoneDisambiguation';
+
+import { describe, it } from 'vitest';
+
+describe('CVBusinessCalendar', () => {
+  const { target2 } = CVBusinessCalendar;
+
+  const dateOf = (year: number, month: number, monthDay: number) =>
+    CVDateTime.fromPartsOrThrow({ year, month, monthDay, hour23: 9, zoneOffset: 0 });
+
+  const toLocalDate = (dateTime: CVDateTime.Type): string =>
+    CVDateTime.getIsoString(dateTime).slice(0, 10);
+
+  const usHolidays = CVBusinessCalendar.fromPartsOrThrow({
+    name: 'US',
+    holidayRules: [
+      CVBusinessCalendar.fixedHoliday({ name: 'Independence Day', month: 7, monthDay: 4 }),
+      CVBusinessCalendar.nthWeekdayHoliday({
+        name: 'Memorial Day',
+        month: 5,
+        weekday: 1,
+        ordinal: -1,
+      }),
+      CVBusinessCalendar.nthWeekdayHoliday({
+        name: 'Thanksgiving',
+        month: 11,
+        weekday: 4,
+        ordinal: 4,
+      }),
+    ],
+  });
+
+  describe('Tag, .toString()', () => {
+    it('moduleTag', () => {
+      TestUtils.assertEquals(
+        Option.some(CVBusinessCalendar.moduleTag),
+        TestUtils.moduleTagFromTestFilePath(import.meta.filename),
+      );
+    });
+
+    it('.toString()', () => {
+      TestUtils.strictEqual(target2.toString(), 'TARGET2');
+    });
+  });
+
+  describe('fromParts', () => {
+    it('Wrong weekend day', () => {
+      TestUtils.assertFailureMessage(
+        CVBusinessCalendar.fromParts({ name: 'test', weekendDays: [0] }),
+        'Expected weekend days to be an integer between 1 and 7. Actual: 0',
+      );
+    });
+
+    it('No working day', () => {
+      TestUtils.assertFailureMessage(
+        CVBusinessCalendar.fromParts({ name: 'test', weekendDays: [1, 2, 3, 4, 5, 6, 7] }),
+        'At least one day of the week must be a working day',
+      );
+    });
+
+    it('Non-existent date', () => {
+      TestUtils.assertFailureMessage(
+        CVBusinessCalendar.fromParts({
+          name: 'test',
+          holidayRules: [
+            CVBusinessCalendar.fixedHoliday({ name: 'Never', month: 2, monthDay: 30 }),
+          ],
+        }),
+        "Expected month day of 'Never' to be an integer between 1 and 29. Actual: 30",
+      );
+    });
+
+    it('Null ordinal', () => {
+      TestUtils.assertFailureMessage(
+        CVBusinessCalendar.fromParts({
+          name: 'test',
+          holidayRules: [
+            CVBusinessCalendar.nthWeekdayHoliday({
+              name: 'Never',
+              month: 1,
+              weekday: 1,
+              ordinal: 0,
+            }),
+          ],
+        }),
+        "Expected ordinal of 'Never' to be an integer between -5 and 5 different from 0. Actual: 0",
+      );
+    });
+
+    it('Passing', () => {
+      TestUtils.assertEquals(
+        pipe(
+          CVBusinessCalendar.fromPartsOrThrow({ name: 'test', weekendDays: [7, 5, 5] }),
+          CVBusinessCalendar.weekendDays,
+        ),
+        [5, 7],
+      );
+    });
+  });
+
+  describe('getHolidayName', () => {
+    it('Fixed holiday', () => {
+      TestUtils.assertSome(
+        CVBusinessCalendar.getHolidayName(dateOf(2025, 7, 4))(usHolidays),
+        'Independence Day',
+      );
+    });
+
+    it('Easter-relative holidays', () => {
+      TestUtils.assertSome(
+        CVBusinessCalendar.getHolidayName(dateOf(2025, 4, 18))(target2),
+        'Good Friday',
+      );
+      TestUtils.assertSome(
+        CVBusinessCalendar.getHolidayName(dateOf(2024, 4, 1))(target2),
+        'Easter Monday',
+      );
+      TestUtils.assertSome(
+        CVBusinessCalendar.getHolidayName(dateOf(2000, 4, 24))(target2),
+        'Easter Monday',
+      );
+    });
+
+    it('Nth weekday holidays', () => {
+      TestUtils.assertSome(
+        CVBusinessCalendar.getHolidayName(dateOf(2025, 11, 27))(usHolidays),
+        'Thanksgiving',
+      );
+      TestUtils.assertSome(
+        CVBusinessCalendar.getHolidayName(dateOf(2024, 5, 27))(usHolidays),
+        'Memorial Day',
+      );
+    });
+
+    it('Not a holiday', () => {
+      TestUtils.assertNone(CVBusinessCalendar.getHolidayName(dateOf(2025, 4, 17))(target2));
+    });
+  });
+
+  describe('isBusinessDay', () => {
+    it('Working day', () => {
+      TestUtils.assertTrue(CVBusinessCalendar.isBusinessDay(dateOf(2025, 4, 17))(target2));
+    });
+
+    it('Weekend day', () => {
+      TestUtils.assertFalse(CVBusinessCalendar.isBusinessDay(dateOf(2025, 4, 19))(target2));
+    });
+
+    it('Holiday', () => {
+      TestUtils.assertFalse(CVBusinessCalendar.isBusinessDay(dateOf(2025, 4, 21))(target2));
+    });
+
+    it('Local date is used', () => {
+      // Friday March 14th 2025 at 23:00 UTC is Saturday 15th at 01:00 at zone offset +2
+      const fridayEvening = CVDateTime.fromPartsOrThrow({
+        year: 2025,
+        month: 3,
+        monthDay: 14,
+        hour23: 23,
+        zoneOffset: 0,
+      });
+      TestUtils.assertTrue(CVBusinessCalendar.isBusinessDay(fridayEvening)(target2));
+      TestUtils.assertFalse(
+        CVBusinessCalendar.isBusinessDay(
+          CVDateTime.setZoneOffsetKeepTimestampOrThrow(2)(fridayEvening),
+        )(target2),
+      );
+    });
+  });
+
+  describe('addBusinessDays', () => {
+    it('Over Easter', () => {
+      TestUtils.assertSuccess(
+        pipe(
+          target2,
+          CVBusinessCalendar.addBusinessDays(dateOf(2025, 4, 17), 1),
+          Result.map(toLocalDate),
+        ),
+        '2025-04-22',
+      );
+    });
+
+    it('Backward', () => {
+      TestUtils.assertSuccess(
+        pipe(
+          target2,
+          CVBusinessCalendar.addBusinessDays(dateOf(2025, 4, 22), -1),
+          Result.map(toLocalDate),
+        ),
+        '2025-04-17',
+      );
+    });
+
+    it('Over a weekend', () => {
+      TestUtils.assertSuccess(
+        pipe(
+          target2,
+          CVBusinessCalendar.addBusinessDays(dateOf(2025, 3, 14), 5),
+          Result.map(toLocalDate),
+        ),
+        '2025-03-21',
+      );
+    });
+
+    it('Zero', () => {
+      TestUtils.assertSuccess(
+        CVBusinessCalendar.addBusinessDays(dateOf(2025, 4, 19), 0)(target2),
+        dateOf(2025, 4, 19),
+      );
+    });
+
+    it('Time is kept', () => {
+      TestUtils.assertSuccess(
+        pipe(
+          target2,
+          CVBusinessCalendar.addBusinessDays(dateOf(2025, 4, 17), 1),
+          Result.map(CVDateTime.getHour23),
+        ),
+        9,
+      );
+    });
+
+    describe('Daylight saving time', () => {
+      // Tuesday, September 21st 2021, 00:30 in Tehran. Clocks went back from 24:00 to 23:00 that day
+      const beforeFallBack = pipe(
+        CVDateTime.fromPartsOrThrow({
+          year: 2021,
+          month: 9,
+          monthDay: 21,
+          minute: 30,
+          zoneOffset: 4.5,
+        }),
+        CVDateTime.setZoneNameKeepTimestampOrThrow('Asia/Tehran'),
+      );
+
+      it('Longer day', () => {
+        TestUtils.assertSuccess(
+          pipe(
+            CVBusinessCalendar.weekendsOnly,
+            CVBusinessCalendar.addBusinessDays(beforeFallBack, 1),
+            Result.map(CVDateTime.getIsoString),
+          ),
+          '2021-09-22T00:30:00.000+03:30',
+        );
+      });
+
+      it('Local time rejected on the resulting day', () => {
+        // Sunday, March 21st 2021, 00:30 in Tehran. Clocks jumped from 24:00 to 01:00 that night
+        const beforeSpringForward = pipe(
+          CVDateTime.fromPartsOrThrow({
+            year: 2021,
+            month: 3,
+            monthDay: 21,
+            minute: 30,
+            zoneOffset: 3.5,
+          }),
+          CVDateTime.setZoneNameKeepTimestampOrThrow(
+            'Asia/Tehran',
+            CVDateTimeZoneDisambiguation.Type.Reject,
+          ),
+        );
+        TestUtils.assertFailureMessage(
+          pipe(
+            CVBusinessCalendar.weekendsOnly,
+            CVBusinessCalendar.addBusinessDays(beforeSpringForward, 1),
+          ),
+          "Local time 2021-03-22T00:30:00.000 does not exist in time zone 'Asia/Tehran'",
+        );
+      });
+    });
+  });
+
+  describe('nextBusinessDay, previousBusinessDay', () => {
+    it('nextBusinessDay', () => {
+      TestUtils.assertSuccess(
+        pipe(
+          target2,
+          CVBusinessCalendar.nextBusinessDay(dateOf(2025, 12, 24)),
+          Result.map(toLocalDate),
+        ),
+        '2025-12-29',
+      );
+    });
+
+    it('previousBusinessDay', () => {
+      TestUtils.assertSuccess(
+        pipe(
+          target2,
+          CVBusinessCalendar.previousBusinessDay(dateOf(2026, 1, 2)),
+          Result.map(toLocalDate),
+        ),
+        '2025-12-31',
+      );
+    });
+  });
+
+  describe('firstMonthBusinessDay, lastMonthBusinessDay', () => {
+    it('firstMonthBusinessDay', () => {
+      TestUtils.assertSuccess(
+        pipe(
+          target2,
+          CVBusinessCalendar.firstMonthBusinessDay(dateOf(2025, 5, 10)),
+          Result.map(toLocalDate),
+        ),
+        '2025-05-02',
+      );
+    });
+
+    it('lastMonthBusinessDay', () => {
+      TestUtils.assertSuccess(
+        pipe(
+          target2,
+          CVBusinessCalendar.lastMonthBusinessDay(dateOf(2025, 8, 10)),
+          Result.map(toLocalDate),
+        ),
+        '2025-08-29',
+      );
+    });
+  });
+
+  describe('businessDaysBetween', () => {
+    it('Whole year', () => {
+      TestUtils.assertSuccess(
+        CVBusinessCalendar.businessDaysBetween(dateOf(2024, 12, 31), dateOf(2025, 12, 31))(target2),
+        255,
+      );
+    });
+
+    it('Forward', () => {
+      TestUtils.assertSuccess(
+        CVBusinessCalendar.businessDaysBetween(dateOf(2025, 4, 17), dateOf(2025, 4, 22))(target2),
+        1,
+      );
+    });
+
+    it('Backward', () => {
+      TestUtils.assertSuccess(
+        CVBusinessCalendar.businessDaysBetween(dateOf(2025, 4, 22), dateOf(2025, 4, 17))(target2),
+        -1,
+      );
+    });
+
+    it('Same day', () => {
+      TestUtils.assertSuccess(
+        CVBusinessCalendar.businessDaysBetween(dateOf(2025, 4, 17), dateOf(2025, 4, 17))(target2),
+        0,
+      );
+    });
+
+    it('Consistency with addBusinessDays', () => {
+      const from = dateOf(2025, 3, 14);
+      TestUtils.assertSuccess(
+        pipe(
+          target2,
+          CVBusinessCalendar.businessDaysBetween(
+            from,
+            CVBusinessCalendar.addBusinessDaysOrThrow(from, -27)(target2),
+          ),
+        ),
+        -27,
+      );
+    });
+  });
+});
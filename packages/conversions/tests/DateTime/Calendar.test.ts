@@ -0,0 +1,201 @@
+import { pipe } from 'effect';
+import * as Option from 'effect/Option';
+import * as Result from 'effect/Result';
+
+import * as TestUtils from '@parischap/configs/TestUtils';
+import * as CVCalendar from '@parischap/conversions/CVCalendar';
+import * as CVDateTime from '@parischap/conversions/CVDateTime';
+
+import { describe, it } from 'vitest';
+
+describe('CVCalendar', () => {
+  const { gregorian, julian, hijriTabular, japanese } = CVCalendar;
+
+  // Saturday, March 15th 2025, 10:07:30 UTC
+  const reference = CVDateTime.fromPartsOrThrow({
+    year: 2025,
+    month: 3,
+    monthDay: 15,
+    hour23: 10,
+    minute: 7,
+    second: 30,
+    zoneOffset: 0,
+  });
+
+  const roundTrips = (calendar: CVCalendar.Type, epochDay: number) =>
+    pipe(epochDay, calendar.toParts, Result.flatMap(calendar.fromParts));
+
+  describe('Tag, .toString()', () => {
+    it('moduleTag', () => {
+      TestUtils.assertEquals(
+        Option.some(CVCalendar.moduleTag),
+        TestUtils.moduleTagFromTestFilePath(import.meta.filename),
+      );
+    });
+
+    it('.toString()', () => {
+      TestUtils.strictEqual(hijriTabular.toString(), 'Hijri (tabular)');
+    });
+  });
+
+  describe('gregorian', () => {
+    it('toParts', () => {
+      TestUtils.assertSuccess(gregorian.toParts(0), { era: 1, year: 1970, month: 1, monthDay: 1 });
+      TestUtils.assertSuccess(gregorian.toParts(-719_469), {
+        era: 0,
+        year: 0,
+        month: 2,
+        monthDay: 29,
+      });
+    });
+
+    it('fromParts', () => {
+      TestUtils.assertSuccess(gregorian.fromParts({ year: 2000, month: 3, monthDay: 1 }), 11_017);
+      TestUtils.assertFailureMessage(
+        gregorian.fromParts({ year: 2100, month: 2, monthDay: 29 }),
+        "Expected 'monthDay' to be between 1 (included) and 28 (included). Actual: 29",
+      );
+    });
+
+    it('Same results as CVDateTime', () => {
+      TestUtils.assertSuccess(CVDateTime.getCalendarDate(gregorian)(reference), {
+        era: 1,
+        year: 2025,
+        month: 3,
+        monthDay: 15,
+      });
+    });
+  });
+
+  describe('julian', () => {
+    it('toParts', () => {
+      TestUtils.assertSuccess(julian.toParts(0), { era: 1, year: 1969, month: 12, monthDay: 19 });
+    });
+
+    it('fromParts', () => {
+      // The Gregorian calendar was introduced on October 15th 1582, the day after October 4th 1582
+      TestUtils.assertSuccess(julian.fromParts({ year: 1582, month: 10, monthDay: 4 }), -141_428);
+      TestUtils.assertSuccess(
+        gregorian.fromParts({ year: 1582, month: 10, monthDay: 15 }),
+        -141_427,
+      );
+    });
+
+    it('Leap years', () => {
+      TestUtils.assertSuccess(
+        pipe(
+          julian.fromParts({ year: 1900, month: 2, monthDay: 29 }),
+          Result.flatMap(julian.toParts),
+        ),
+        { era: 1, year: 1900, month: 2, monthDay: 29 },
+      );
+    });
+
+    it('Round trip', () => {
+      TestUtils.assertSuccess(roundTrips(julian, -800_001), -800_001);
+    });
+  });
+
+  describe('hijriTabular', () => {
+    it('Epoch', () => {
+      TestUtils.assertSuccess(hijriTabular.toParts(-492_148), {
+        era: 0,
+        year: 1,
+        month: 1,
+        monthDay: 1,
+      });
+    });
+
+    it('toParts', () => {
+      TestUtils.assertSuccess(CVDateTime.getCalendarDate(hijriTabular)(reference), {
+        era: 0,
+        year: 1446,
+        month: 9,
+        monthDay: 15,
+      });
+    });
+
+    it('Leap years', () => {
+      TestUtils.assertSuccess(
+        hijriTabular.fromParts({ year: 1445, month: 12, monthDay: 30 }),
+        19_911,
+      );
+      TestUtils.assertFailureMessage(
+        hijriTabular.fromParts({ year: 1446, month: 12, monthDay: 30 }),
+        "Expected 'monthDay' to be between 1 (included) and 29 (included). Actual: 30",
+      );
+    });
+
+    it('Round trip', () => {
+      TestUtils.assertSuccess(roundTrips(hijriTabular, -600_000), -600_000);
+    });
+  });
+
+  describe('japanese', () => {
+    it('toParts', () => {
+      TestUtils.assertSuccess(CVDateTime.getCalendarDate(japanese)(reference), {
+        era: 4,
+        year: 7,
+        month: 3,
+        monthDay: 15,
+      });
+      TestUtils.assertSuccess(japanese.toParts(6946), {
+        era: 2,
+        year: 64,
+        month: 1,
+        monthDay: 7,
+      });
+    });
+
+    it('Before the Meiji era', () => {
+      TestUtils.assertFailureMessage(
+        japanese.toParts(-36_960),
+        'Expected a day on or after the start of the Meiji era to be expressed in the Japanese calendar',
+      );
+    });
+
+    it('fromParts', () => {
+      TestUtils.assertSuccess(japanese.fromParts({ era: 3, year: 1, month: 1, monthDay: 8 }), 6947);
+      TestUtils.assertFailureMessage(
+        japanese.fromParts({ year: 1, month: 1, monthDay: 8 }),
+        'Expected an era to be provided to build a day in the Japanese calendar',
+      );
+      TestUtils.assertFailureMessage(
+        japanese.fromParts({ era: 3, year: 31, month: 5, monthDay: 1 }),
+        'Expected year 31, month 5 and day 1 to belong to the Heisei era',
+      );
+    });
+  });
+
+  describe('CVDateTime.setCalendarDate', () => {
+    it('Time is kept', () => {
+      TestUtils.strictEqual(
+        pipe(
+          reference,
+          CVDateTime.setCalendarDateOrThrow(hijriTabular, { year: 1446, month: 10, monthDay: 1 }),
+          CVDateTime.getIsoString,
+        ),
+        '2025-03-31T10:07:30.000+00:00',
+      );
+    });
+
+    it('Local date is used', () => {
+      TestUtils.strictEqual(
+        pipe(
+          reference,
+          CVDateTime.setZoneOffsetKeepTimestampOrThrow(-11),
+          CVDateTime.setCalendarDateOrThrow(japanese, { era: 4, year: 1, month: 5, monthDay: 1 }),
+          CVDateTime.getIsoString,
+        ),
+        '2019-05-01T23:07:30.000-11:00',
+      );
+    });
+
+    it('Failure', () => {
+      TestUtils.assertFailureMessage(
+        CVDateTime.setCalendarDate(japanese, { year: 1, month: 5, monthDay: 1 })(reference),
+        'Expected an era to be provided to build a day in the Japanese calendar',
+      );
+    });
+  });
+});
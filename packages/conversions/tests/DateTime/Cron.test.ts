@@ -0,0 +1,244 @@
+import { pipe } from 'effect';
+import * as Option from 'effect/Option';
+import * as Result from 'effect/Result';
+
+import * as TestUtils from '@parischap/configs/TestUtils';
+import * as CVCron from '@parischap/conversions/CVCron';
+import * as CVDateTime from '@parischap/conversions/CVDateTime';
+
+import { describe, it } from 'vitest';
+
+describe('CVCron', () => {
+  // Saturday, March 15th 2025, 10:07:30 UTC
+  const reference = CVDateTime.fromPartsOrThrow({
+    year: 2025,
+    month: 3,
+    monthDay: 15,
+    hour23: 10,
+    minute: 7,
+    second: 30,
+    zoneOffset: 0,
+  });
+
+  const toIsoString = Option.map(CVDateTime.getIsoString);
+
+  const nextOf = (expression: string, zoneOffset?: number) =>
+    pipe(expression, CVCron.parseOrThrow, CVCron.next(reference, zoneOffset), toIsoString);
+
+  const previousOf = (expression: string) =>
+    pipe(expression, CVCron.parseOrThrow, CVCron.previous(reference), toIsoString);
+
+  describe('Tag, .toString()', () => {
+    it('moduleTag', () => {
+      TestUtils.assertEquals(
+        Option.some(CVCron.moduleTag),
+        TestUtils.moduleTagFromTestFilePath(import.meta.filename),
+      );
+    });
+
+    it('.toString()', () => {
+      TestUtils.strictEqual(
+        CVCron.parseOrThrow('0  9 ? jan,jul mon-fri').toString(),
+        '0 9 * JAN,JUL 1-5',
+      );
+    });
+  });
+
+  describe('parse', () => {
+    it('Wrong number of fields', () => {
+      TestUtils.assertFailureMessage(
+        CVCron.parse('* * * *'),
+        'Expected a cron expression to have 5 or 6 fields. Actual: 4',
+      );
+    });
+
+    it('Out-of-range value', () => {
+      TestUtils.assertFailureMessage(
+        CVCron.parse('60 * * * *'),
+        'Expected field 1 (#minute) to be between 0 (included) and 59 (included). Actual: 60',
+      );
+    });
+
+    it('Unknown name', () => {
+      TestUtils.assertFailureMessage(
+        CVCron.parse('0 * * * * FOO'),
+        "Expected field 6 (#weekday) to be an integer or a three-letter name. Actual: 'FOO'",
+      );
+    });
+
+    it('Reversed range', () => {
+      TestUtils.assertFailureMessage(
+        CVCron.parse('* 5-1 * * *'),
+        "Expected the start of field 2 (#hour) range to be less than or equal to its end. Actual: '5-1'",
+      );
+    });
+
+    it('Null step', () => {
+      TestUtils.assertFailureMessage(
+        CVCron.parse('*/0 * * * *'),
+        "Expected field 1 (#minute) step to be a strictly positive integer. Actual: '0'",
+      );
+    });
+
+    it('Wrong ordinal', () => {
+      TestUtils.assertFailureMessage(
+        CVCron.parse('* * * * 1#6'),
+        "Expected field 5 (#weekday) ordinal to be an integer between 1 and 5. Actual: '6'",
+      );
+    });
+
+    it('L in the month field', () => {
+      TestUtils.assertFailureMessage(
+        CVCron.parse('* * * L *'),
+        "Expected field 4 (#month) to be an integer or a three-letter name. Actual: 'L'",
+      );
+    });
+
+    it('Bare L in the day-of-week field', () => {
+      TestUtils.assertSuccess(
+        pipe('0 0 * * L', CVCron.parse, Result.map(CVCron.toExpression)),
+        '0 0 * * 6',
+      );
+    });
+
+    it('Passing', () => {
+      TestUtils.assertSuccess(
+        pipe('*/10 0-30/5 1,2 LW,15W * *', CVCron.parse, Result.map(CVCron.toExpression)),
+        '*/10 0-30/5 1,2 LW,15W * *',
+      );
+    });
+  });
+
+  describe('next', () => {
+    it('Every minute', () => {
+      TestUtils.assertSome(nextOf('* * * * *'), '2025-03-15T10:08:00.000+00:00');
+    });
+
+    it('Steps', () => {
+      TestUtils.assertSome(nextOf('*/15 * * * *'), '2025-03-15T10:15:00.000+00:00');
+    });
+
+    it('Seconds', () => {
+      TestUtils.assertSome(nextOf('*/10 * * * * *'), '2025-03-15T10:07:40.000+00:00');
+    });
+
+    it('Weekdays', () => {
+      TestUtils.assertSome(nextOf('30 9 * * MON-FRI'), '2025-03-17T09:30:00.000+00:00');
+    });
+
+    it('Sunday as 7', () => {
+      TestUtils.assertSome(nextOf('0 0 * * 7'), '2025-03-16T00:00:00.000+00:00');
+    });
+
+    it('Last day of the month', () => {
+      TestUtils.assertSome(nextOf('0 0 L * *'), '2025-03-31T00:00:00.000+00:00');
+    });
+
+    it('Nearest weekday', () => {
+      // March 15th 2025 is a Saturday, so its nearest weekday is Friday 14th
+      TestUtils.assertSome(nextOf('0 12 15W * *'), '2025-04-15T12:00:00.000+00:00');
+    });
+
+    it('Last weekday of the month', () => {
+      TestUtils.assertSome(nextOf('0 0 LW 5 *'), '2025-05-30T00:00:00.000+00:00');
+    });
+
+    it('Last Friday of the month', () => {
+      TestUtils.assertSome(nextOf('30 8 * * 5L'), '2025-03-28T08:30:00.000+00:00');
+    });
+
+    it('Last day of the week', () => {
+      TestUtils.assertSome(nextOf('0 12 * * L'), '2025-03-15T12:00:00.000+00:00');
+    });
+
+    it('Nth weekday of the month', () => {
+      TestUtils.assertSome(nextOf('0 0 * * FRI#5'), '2025-05-30T00:00:00.000+00:00');
+    });
+
+    it('Day-of-month or day-of-week', () => {
+      TestUtils.assertSome(nextOf('0 0 1,15 * 1'), '2025-03-17T00:00:00.000+00:00');
+    });
+
+    it('Day-of-month and day-of-week', () => {
+      TestUtils.assertSome(nextOf('0 0 */2 * 1'), '2025-03-17T00:00:00.000+00:00');
+    });
+
+    it('February 29th', () => {
+      TestUtils.assertSome(nextOf('0 0 29 2 *'), '2028-02-29T00:00:00.000+00:00');
+    });
+
+    it('Never', () => {
+      TestUtils.assertNone(nextOf('0 0 30 2 *'));
+    });
+
+    it('With a zone offset', () => {
+      TestUtils.assertSome(nextOf('0 9 * * *', 2), '2025-03-16T09:00:00.000+02:00');
+    });
+  });
+
+  describe('previous', () => {
+    it('Exact match is excluded', () => {
+      TestUtils.assertSome(previousOf('30 7 10 * * *'), '2025-03-14T10:07:30.000+00:00');
+    });
+
+    it('Hours', () => {
+      TestUtils.assertSome(previousOf('0 9-17 * * *'), '2025-03-15T10:00:00.000+00:00');
+    });
+
+    it('Months', () => {
+      TestUtils.assertSome(previousOf('0 0 1 JAN *'), '2025-01-01T00:00:00.000+00:00');
+    });
+
+    it('Last day of the month', () => {
+      TestUtils.assertSome(previousOf('0 0 L * *'), '2025-02-28T00:00:00.000+00:00');
+    });
+
+    it('Nth weekday of the month', () => {
+      TestUtils.assertSome(previousOf('0 0 * * 1#2'), '2025-03-10T00:00:00.000+00:00');
+    });
+  });
+
+  describe('toDescription', () => {
+    it('Single time', () => {
+      TestUtils.strictEqual(
+        pipe('30 9 * * 1-5', CVCron.parseOrThrow, CVCron.toDescription),
+        'At 09:30, on Monday through Friday',
+      );
+    });
+
+    it('Steps', () => {
+      TestUtils.strictEqual(
+        pipe('*/15 * * * *', CVCron.parseOrThrow, CVCron.toDescription),
+        'Every 15 minutes',
+      );
+    });
+
+    it('Lists', () => {
+      TestUtils.strictEqual(
+        pipe('5,10,20-30 9 * * *', CVCron.parseOrThrow, CVCron.toDescription),
+        'At minutes 5, 10 and 20 through 30 of hour 9',
+      );
+    });
+
+    it('Every minute', () => {
+      TestUtils.strictEqual(
+        pipe('30 * * * * *', CVCron.parseOrThrow, CVCron.toDescription),
+        'At second 30 of every minute',
+      );
+    });
+
+    it('Special days', () => {
+      TestUtils.strictEqual(
+        pipe('0 0 L,15W * *', CVCron.parseOrThrow, CVCron.toDescription),
+        'At 00:00, on the last day of the month and on the weekday nearest day 15 of the month',
+      );
+    });
+
+    it('Day-of-month or day-of-week', () => {
+      TestUtils.strictEqual(
+        pipe('0 0 1,15 JAN 5#2', CVCron.parseOrThrow, CVCron.toDescription),
+        'At 00:00, on days 1 and 15 of the month or on the second Friday of the month, in January',
+      );
+    });
+  });
+});
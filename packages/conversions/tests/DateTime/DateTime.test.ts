@@ -8,6 +8,7 @@ import * as Tuple from 'effect/Tuple';
 import * as TestUtils from '@parischap/configs/TestUtils';
 import * as CVDateTime from '@parischap/conversions/CVDateTime';
 import { DAY_MS, SHORT_YEAR_MS, WEEK_MS } from '@parischap/conversions/CVDateTimeConstants';
+import * as CVDateTimeZoneDisambiguation from '@parischap/conversions/CVDateTimeZoneDisambiguation';
 import * as MArray from '@parischap/effect-lib/MArray';
 
 import { describe, it } from 'vitest';
@@ -1159,8 +1160,8 @@ describe('CVDateTime', () => {
         pipe(testDate, CVDateTime.setHour11(4), Result.map(CVDateTime.timestamp)),
         Date.UTC(2024, 5, 23, 15, 43, 27, 654),
       );
-      TestUtils.strictEqual(
-        pipe(testDate, CVDateTime.setMeridiem(0), CVDateTime.timestamp),
+      TestUtils.assertSuccess(
+        pipe(testDate, CVDateTime.setMeridiem(0), Result.map(CVDateTime.timestamp)),
         Date.UTC(2024, 5, 23, 4, 43, 27, 654),
       );
       TestUtils.assertSuccess(
@@ -1377,6 +1378,210 @@ describe('CVDateTime', () => {
         '2024-03-01T07:00:00.000-08:00',
       );
     });
+
+    describe('Change zoneName', () => {
+      const winterInParis = pipe(
+        CVDateTime.fromTimestampOrThrow(Date.UTC(2025, 0, 15, 12), 0),
+        CVDateTime.setZoneNameKeepTimestampOrThrow('Europe/Paris'),
+      );
+
+      it('Invalid zone name', () => {
+        TestUtils.assertFailureMessage(
+          pipe(winterInParis, CVDateTime.setZoneNameKeepTimestamp('Europe/Pariss')),
+          "'Europe/Pariss' is not a valid IANA time zone name",
+        );
+      });
+
+      it('setZoneNameKeepTimestamp', () => {
+        TestUtils.strictEqual(
+          CVDateTime.getIsoString(winterInParis),
+          '2025-01-15T13:00:00.000+01:00',
+        );
+        TestUtils.assertSome(CVDateTime.zoneName(winterInParis), 'Europe/Paris');
+      });
+
+      it('Local mean time with a zone offset in seconds', () => {
+        const lmtInParis = pipe(
+          CVDateTime.fromTimestampOrThrow(Date.UTC(1890, 0, 1, 12), 0),
+          CVDateTime.setZoneNameKeepTimestampOrThrow('Europe/Paris'),
+        );
+        TestUtils.strictEqual(CVDateTime.getMinute(lmtInParis), 9);
+        TestUtils.strictEqual(CVDateTime.getSecond(lmtInParis), 21);
+        TestUtils.strictEqual(CVDateTime.getMillisecond(lmtInParis), 0);
+        TestUtils.strictEqual(CVDateTime.getZoneSecond(lmtInParis), 21);
+        TestUtils.strictEqual(
+          pipe(
+            CVDateTime.fromTimestampOrThrow(Date.UTC(1890, 0, 1, 12), 0),
+            CVDateTime.setZoneNameKeepPartsOrThrow('Europe/Paris'),
+            CVDateTime.timestamp,
+          ),
+          Date.UTC(1890, 0, 1, 12) - 561_000,
+        );
+      });
+
+      it('setZoneNameKeepParts', () => {
+        TestUtils.assertSuccess(
+          pipe(
+            winterInParis,
+            CVDateTime.setZoneNameKeepParts('America/New_York'),
+            Result.map(CVDateTime.getIsoString),
+          ),
+          '2025-01-15T13:00:00.000-05:00',
+        );
+      });
+
+      it('Offset is recalculated', () => {
+        TestUtils.assertSuccess(
+          pipe(winterInParis, CVDateTime.setMonth(7), Result.map(CVDateTime.getIsoString)),
+          '2025-07-15T13:00:00.000+02:00',
+        );
+        TestUtils.assertSuccess(
+          pipe(winterInParis, CVDateTime.offsetDays(180), Result.map(CVDateTime.getIsoString)),
+          '2025-07-14T13:00:00.000+02:00',
+        );
+      });
+
+      it('offsetDays keeps the local time', () => {
+        TestUtils.assertSuccess(
+          pipe(
+            winterInParis,
+            CVDateTime.setMonthOrThrow(3),
+            CVDateTime.setMonthDayOrThrow(29),
+            CVDateTime.offsetDays(1),
+            Result.map(CVDateTime.getIsoString),
+          ),
+          '2025-03-30T13:00:00.000+02:00',
+        );
+        TestUtils.assertSuccess(
+          pipe(
+            winterInParis,
+            CVDateTime.setMonthOrThrow(10),
+            CVDateTime.setMonthDayOrThrow(27),
+            CVDateTime.offsetDays(-1),
+            Result.map(CVDateTime.getIsoString),
+          ),
+          '2025-10-26T13:00:00.000+01:00',
+        );
+      });
+
+      it('offsetMonths and toLastMonthDay fail on a rejected local time', () => {
+        const feb29InParis = pipe(
+          CVDateTime.fromPartsOrThrow({
+            year: 2024,
+            month: 2,
+            monthDay: 29,
+            hour23: 2,
+            minute: 30,
+            zoneOffset: 1,
+          }),
+          CVDateTime.setZoneNameKeepTimestampOrThrow(
+            'Europe/Paris',
+            CVDateTimeZoneDisambiguation.Type.Reject,
+          ),
+        );
+        TestUtils.assertFailureMessage(
+          pipe(feb29InParis, CVDateTime.offsetMonths(1, true)),
+          "Local time 2024-03-31T02:30:00.000 does not exist in time zone 'Europe/Paris'",
+        );
+        TestUtils.assertFailureMessage(
+          pipe(
+            feb29InParis,
+            CVDateTime.offsetMonths(1, false),
+            Result.flatMap(CVDateTime.toLastMonthDay),
+          ),
+          "Local time 2024-03-31T02:30:00.000 does not exist in time zone 'Europe/Paris'",
+        );
+      });
+
+      it('setZoneOffset detaches from time zone', () => {
+        const detached = pipe(winterInParis, CVDateTime.setZoneOffsetKeepTimestampOrThrow(1));
+        TestUtils.assertNone(CVDateTime.zoneName(detached));
+        TestUtils.assertSuccess(
+          pipe(detached, CVDateTime.setMonth(7), Result.map(CVDateTime.getIsoString)),
+          '2025-07-15T13:00:00.000+01:00',
+        );
+      });
+
+      describe('Skipped local time', () => {
+        const springForward = (disambiguation: CVDateTimeZoneDisambiguation.Type) =>
+          pipe(
+            winterInParis,
+            CVDateTime.setZoneNameKeepTimestampOrThrow('Europe/Paris', disambiguation),
+            CVDateTime.setMonthOrThrow(3),
+            CVDateTime.setMonthDayOrThrow(30),
+            CVDateTime.setHour23(2),
+            Result.map(CVDateTime.getIsoString),
+          );
+
+        it('Compatible', () => {
+          TestUtils.assertSuccess(
+            springForward(CVDateTimeZoneDisambiguation.Type.Compatible),
+            '2025-03-30T03:00:00.000+02:00',
+          );
+        });
+
+        it('Earlier', () => {
+          TestUtils.assertSuccess(
+            springForward(CVDateTimeZoneDisambiguation.Type.Earlier),
+            '2025-03-30T01:00:00.000+01:00',
+          );
+        });
+
+        it('Later', () => {
+          TestUtils.assertSuccess(
+            springForward(CVDateTimeZoneDisambiguation.Type.Later),
+            '2025-03-30T03:00:00.000+02:00',
+          );
+        });
+
+        it('Reject', () => {
+          TestUtils.assertFailureMessage(
+            springForward(CVDateTimeZoneDisambiguation.Type.Reject),
+            "Local time 2025-03-30T02:00:00.000 does not exist in time zone 'Europe/Paris'",
+          );
+        });
+      });
+
+      describe('Ambiguous local time', () => {
+        const fallBack = (disambiguation: CVDateTimeZoneDisambiguation.Type) =>
+          pipe(
+            winterInParis,
+            CVDateTime.setZoneNameKeepTimestampOrThrow('Europe/Paris', disambiguation),
+            CVDateTime.setMonthOrThrow(10),
+            CVDateTime.setMonthDayOrThrow(26),
+            CVDateTime.setHour23(2),
+            Result.map(CVDateTime.getIsoString),
+          );
+
+        it('Compatible', () => {
+          TestUtils.assertSuccess(
+            fallBack(CVDateTimeZoneDisambiguation.Type.Compatible),
+            '2025-10-26T02:00:00.000+02:00',
+          );
+        });
+
+        it('Earlier', () => {
+          TestUtils.assertSuccess(
+            fallBack(CVDateTimeZoneDisambiguation.Type.Earlier),
+            '2025-10-26T02:00:00.000+02:00',
+          );
+        });
+
+        it('Later', () => {
+          TestUtils.assertSuccess(
+            fallBack(CVDateTimeZoneDisambiguation.Type.Later),
+            '2025-10-26T02:00:00.000+01:00',
+          );
+        });
+
+        it('Reject', () => {
+          TestUtils.assertFailureMessage(
+            fallBack(CVDateTimeZoneDisambiguation.Type.Reject),
+            "Local time 2025-10-26T02:00:00.000 is ambiguous in time zone 'Europe/Paris'",
+          );
+        });
+      });
+    });
   });
 
   describe('isFirstMonthDay', () => {
@@ -1462,50 +1667,50 @@ describe('CVDateTime', () => {
   });
 
   it('toFirstMonthDay', () => {
-    TestUtils.strictEqual(
-      pipe(feb29_2020, CVDateTime.toFirstMonthDay, CVDateTime.timestamp),
+    TestUtils.assertSuccess(
+      pipe(feb29_2020, CVDateTime.toFirstMonthDay, Result.map(CVDateTime.timestamp)),
       Date.UTC(2020, 1, 1),
     );
   });
 
   it('toLastMonthDay', () => {
     TestUtils.assertSuccess(
-      pipe(feb29_2020, CVDateTime.offsetDays(-10), Result.map(CVDateTime.toLastMonthDay)),
+      pipe(feb29_2020, CVDateTime.offsetDays(-10), Result.flatMap(CVDateTime.toLastMonthDay)),
       feb29_2020,
     );
   });
 
   it('toFirstYearDay', () => {
-    TestUtils.strictEqual(
-      pipe(feb29_2020, CVDateTime.toFirstYearDay, CVDateTime.timestamp),
+    TestUtils.assertSuccess(
+      pipe(feb29_2020, CVDateTime.toFirstYearDay, Result.map(CVDateTime.timestamp)),
       Date.UTC(2020, 0, 1),
     );
   });
 
   it('toLastYearDay', () => {
-    TestUtils.strictEqual(
-      pipe(feb29_2020, CVDateTime.toLastYearDay, CVDateTime.timestamp),
+    TestUtils.assertSuccess(
+      pipe(feb29_2020, CVDateTime.toLastYearDay, Result.map(CVDateTime.timestamp)),
       Date.UTC(2020, 11, 31),
     );
   });
 
   it('toFirstIsoYearDay', () => {
-    TestUtils.strictEqual(
-      pipe(feb29_2020, CVDateTime.toFirstIsoYearDay, CVDateTime.timestamp),
+    TestUtils.assertSuccess(
+      pipe(feb29_2020, CVDateTime.toFirstIsoYearDay, Result.map(CVDateTime.timestamp)),
       Date.UTC(2019, 11, 30),
     );
   });
 
   it('toLastIsoYearWeek', () => {
-    TestUtils.strictEqual(
-      pipe(feb29_2020, CVDateTime.toLastIsoYearWeek, CVDateTime.timestamp),
+    TestUtils.assertSuccess(
+      pipe(feb29_2020, CVDateTime.toLastIsoYearWeek, Result.map(CVDateTime.timestamp)),
       Date.UTC(2021, 0, 2),
     );
   });
 
   it('toLastIsoYearDay', () => {
-    TestUtils.strictEqual(
-      pipe(feb29_2020, CVDateTime.toLastIsoYearDay, CVDateTime.timestamp),
+    TestUtils.assertSuccess(
+      pipe(feb29_2020, CVDateTime.toLastIsoYearDay, Result.map(CVDateTime.timestamp)),
       Date.UTC(2021, 0, 3),
     );
   });
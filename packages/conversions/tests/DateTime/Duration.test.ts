@@ -0,0 +1,124 @@
+import { pipe } from 'effect';
+import * as Option from 'effect/Option';
+
+import * as TestUtils from '@parischap/configs/TestUtils';
+import * as CVDateTime from '@parischap/conversions/CVDateTime';
+import * as CVDuration from '@parischap/conversions/CVDuration';
+
+import { describe, it } from 'vitest';
+
+describe('CVDuration', () => {
+  const duration = CVDuration.make({
+    days: 3,
+    hours: 4,
+    minutes: 3,
+    seconds: 2,
+    milliseconds: 500,
+  });
+
+  describe('Tag, .toString()', () => {
+    it('moduleTag', () => {
+      TestUtils.assertEquals(
+        Option.some(CVDuration.moduleTag),
+        TestUtils.moduleTagFromTestFilePath(import.meta.filename),
+      );
+    });
+
+    it('.toString()', () => {
+      TestUtils.strictEqual(duration.toString(), 'PT76H3M2.5S');
+    });
+  });
+
+  describe('Equivalence', () => {
+    it('Matching', () => {
+      TestUtils.assertTrue(
+        CVDuration.equivalence(CVDuration.make({ days: 1 }), CVDuration.make({ hours: 24 })),
+      );
+    });
+
+    it('Non-matching', () => {
+      TestUtils.assertFalse(CVDuration.equivalence(duration, CVDuration.zero));
+    });
+  });
+
+  describe('fromMilliseconds', () => {
+    it('Not passing', () => {
+      TestUtils.assertFailureMessage(
+        CVDuration.fromMilliseconds(1.5),
+        "Expected 'milliseconds' to be a safe integer. Actual: 1.5",
+      );
+      TestUtils.assertFailure(CVDuration.fromMilliseconds(Number.NaN));
+      TestUtils.assertFailure(CVDuration.fromMilliseconds(Number.POSITIVE_INFINITY));
+    });
+
+    it('Passing', () => {
+      TestUtils.assertSuccess(CVDuration.fromMilliseconds(273_782_500), duration);
+      TestUtils.assertTrue(
+        CVDuration.equivalence(
+          CVDuration.fromMillisecondsOrThrow(-1000),
+          CVDuration.make({ seconds: -1 }),
+        ),
+      );
+    });
+  });
+
+  describe('fromIsoString', () => {
+    it('Not passing', () => {
+      TestUtils.assertFailureMessage(
+        CVDuration.fromIsoString('P1M'),
+        "Expected duration not to have any year or month component. Actual: 'P1M'",
+      );
+      TestUtils.assertFailure(CVDuration.fromIsoString('PT'));
+    });
+
+    it('Passing', () => {
+      TestUtils.assertSuccess(CVDuration.fromIsoString('P3DT4H3M2.5S'), duration);
+      TestUtils.assertSuccess(CVDuration.fromIsoString('-P1W'), CVDuration.make({ weeks: -1 }));
+    });
+  });
+
+  describe('toIsoString', () => {
+    it('Null duration', () => {
+      TestUtils.strictEqual(CVDuration.toIsoString(CVDuration.zero), 'PT0S');
+    });
+
+    it('Negative duration', () => {
+      TestUtils.strictEqual(CVDuration.toIsoString(CVDuration.negate(duration)), '-PT76H3M2.5S');
+    });
+  });
+
+  it('sum', () => {
+    TestUtils.assertEquals(
+      pipe(duration, CVDuration.sum(CVDuration.negate(duration))),
+      CVDuration.zero,
+    );
+  });
+
+  describe('DateTime arithmetic', () => {
+    const start = CVDateTime.setZoneNameKeepPartsOrThrow('Europe/Paris')(
+      CVDateTime.fromPartsOrThrow({ year: 2024, month: 3, monthDay: 30, hour23: 12 }),
+    );
+    const oneDay = CVDuration.make({ days: 1 });
+
+    it('addToDateTime', () => {
+      TestUtils.strictEqual(
+        pipe(start, CVDuration.addToDateTimeOrThrow(oneDay), CVDateTime.getIsoString),
+        '2024-03-31T13:00:00.000+02:00',
+      );
+    });
+
+    it('subtractFromDateTime', () => {
+      TestUtils.strictEqual(
+        pipe(start, CVDuration.subtractFromDateTimeOrThrow(oneDay), CVDateTime.getIsoString),
+        '2024-03-29T12:00:00.000+01:00',
+      );
+    });
+
+    it('between', () => {
+      TestUtils.assertEquals(
+        CVDuration.between(start, CVDuration.addToDateTimeOrThrow(oneDay)(start)),
+        oneDay,
+      );
+    });
+  });
+});
@@ -0,0 +1,247 @@
+import { pipe } from 'effect';
+import * as Option from 'effect/Option';
+import * as Result from 'effect/Result';
+
+import * as TestUtils from '@parischap/configs/TestUtils';
+import * as CVDateTime from '@parischap/conversions/CVDateTime';
+import * as CVDateTimeZoneDisambiguation from '@parischap/conversions/CVDateTimeZoneDisambiguation';
+import * as CVPeriod from '@parischap/conversions/CVPeriod';
+
+import { describe, it } from 'vitest';
+
+describe('CVPeriod', () => {
+  const period = CVPeriod.fromPartsOrThrow({ months: 3, days: 2, hours: 4 });
+
+  describe('Tag, .toString()', () => {
+    it('moduleTag', () => {
+      TestUtils.assertEquals(
+        Option.some(CVPeriod.moduleTag),
+        TestUtils.moduleTagFromTestFilePath(import.meta.filename),
+      );
+    });
+
+    it('.toString()', () => {
+      TestUtils.strictEqual(period.toString(), 'P3M2DT4H');
+    });
+  });
+
+  describe('Equivalence', () => {
+    it('Matching', () => {
+      TestUtils.assertTrue(
+        CVPeriod.equivalence(period, CVPeriod.fromIsoStringOrThrow('P0Y3M2DT4H0M')),
+      );
+    });
+
+    it('Non-matching', () => {
+      TestUtils.assertFalse(
+        CVPeriod.equivalence(
+          CVPeriod.fromPartsOrThrow({ days: 1 }),
+          CVPeriod.fromPartsOrThrow({ hours: 24 }),
+        ),
+      );
+    });
+  });
+
+  describe('fromParts', () => {
+    it('Non-integer component', () => {
+      TestUtils.assertFailureMessage(
+        CVPeriod.fromParts({ days: 1.5 }),
+        "Expected 'days' to be a safe integer. Actual: 1.5",
+      );
+    });
+
+    it('Components with different signs', () => {
+      TestUtils.assertFailureMessage(
+        CVPeriod.fromParts({ months: 1, days: -1 }),
+        'Expected all the components of a period to have the same sign',
+      );
+    });
+  });
+
+  describe('fromIsoString', () => {
+    it('Not passing', () => {
+      TestUtils.assertFailureMessage(
+        CVPeriod.fromIsoString('P'),
+        "Expected period to be an ISO 8601 duration. Actual: 'P'",
+      );
+      TestUtils.assertFailure(CVPeriod.fromIsoString('PT'));
+      TestUtils.assertFailure(CVPeriod.fromIsoString('P1DT'));
+      TestUtils.assertFailure(CVPeriod.fromIsoString('P1.5D'));
+      TestUtils.assertFailure(CVPeriod.fromIsoString('P-1D'));
+      TestUtils.assertFailure(CVPeriod.fromIsoString('PT1.2345S'));
+    });
+
+    it('Passing', () => {
+      TestUtils.assertSuccess(
+        CVPeriod.fromIsoString('P1Y2M3W4DT5H6M7,08S'),
+        CVPeriod.fromPartsOrThrow({
+          years: 1,
+          months: 2,
+          weeks: 3,
+          days: 4,
+          hours: 5,
+          minutes: 6,
+          seconds: 7,
+          milliseconds: 80,
+        }),
+      );
+      TestUtils.assertSuccess(
+        CVPeriod.fromIsoString('-P1Y2W'),
+        CVPeriod.fromPartsOrThrow({ years: -1, weeks: -2 }),
+      );
+    });
+  });
+
+  describe('toIsoString', () => {
+    it('Null period', () => {
+      TestUtils.strictEqual(CVPeriod.toIsoString(CVPeriod.zero), 'PT0S');
+    });
+
+    it('Negative period', () => {
+      TestUtils.strictEqual(CVPeriod.toIsoString(CVPeriod.negate(period)), '-P3M2DT4H');
+    });
+
+    it('Milliseconds carried over to seconds', () => {
+      TestUtils.strictEqual(
+        CVPeriod.toIsoString(CVPeriod.fromPartsOrThrow({ seconds: 1, milliseconds: 2500 })),
+        'PT3.5S',
+      );
+    });
+  });
+
+  describe('addToDateTime', () => {
+    const jan31 = CVDateTime.fromPartsOrThrow({
+      year: 2024,
+      month: 1,
+      monthDay: 31,
+      hour23: 10,
+      zoneOffset: 0,
+    });
+
+    it('Day of month clamped to the end of the target month', () => {
+      TestUtils.assertSuccess(
+        pipe(
+          jan31,
+          CVPeriod.addToDateTime(CVPeriod.fromPartsOrThrow({ months: 1 })),
+          Result.map(CVDateTime.getIsoString),
+        ),
+        '2024-02-29T10:00:00.000+00:00',
+      );
+    });
+
+    it('Date units then time units', () => {
+      TestUtils.strictEqual(
+        pipe(jan31, CVPeriod.addToDateTimeOrThrow(period), CVDateTime.getIsoString),
+        '2024-05-02T14:00:00.000+00:00',
+      );
+    });
+
+    it('subtractFromDateTime', () => {
+      TestUtils.strictEqual(
+        pipe(
+          jan31,
+          CVPeriod.subtractFromDateTimeOrThrow(CVPeriod.fromPartsOrThrow({ years: 1, weeks: 1 })),
+          CVDateTime.getIsoString,
+        ),
+        '2023-01-24T10:00:00.000+00:00',
+      );
+    });
+
+    it('Local time kept across a change of zone offset', () => {
+      const beforeDst = CVDateTime.setZoneNameKeepPartsOrThrow('Europe/Paris')(
+        CVDateTime.fromPartsOrThrow({ year: 2024, month: 3, monthDay: 30, hour23: 12 }),
+      );
+      const afterDst = CVPeriod.addToDateTimeOrThrow(CVPeriod.fromPartsOrThrow({ days: 1 }))(
+        beforeDst,
+      );
+      TestUtils.strictEqual(CVDateTime.getIsoString(afterDst), '2024-03-31T12:00:00.000+02:00');
+      TestUtils.strictEqual(
+        CVDateTime.timestamp(afterDst) - CVDateTime.timestamp(beforeDst),
+        23 * 3_600_000,
+      );
+    });
+  });
+
+  describe('between', () => {
+    const start = CVDateTime.fromPartsOrThrow({
+      year: 2024,
+      month: 1,
+      monthDay: 31,
+      hour23: 10,
+      zoneOffset: 0,
+    });
+    const end = CVDateTime.fromPartsOrThrow({
+      year: 2025,
+      month: 3,
+      monthDay: 1,
+      hour23: 9,
+      minute: 30,
+      zoneOffset: 0,
+    });
+
+    it('Null period', () => {
+      TestUtils.assertEquals(CVPeriod.between(start, start), CVPeriod.zero);
+    });
+
+    it('Positive period', () => {
+      const result = CVPeriod.between(start, end);
+      TestUtils.strictEqual(CVPeriod.toIsoString(result), 'P1Y1MT23H30M');
+      TestUtils.assertTrue(
+        CVDateTime.equivalence(CVPeriod.addToDateTimeOrThrow(result)(start), end),
+      );
+    });
+
+    it('Negative period', () => {
+      const result = CVPeriod.between(end, start);
+      TestUtils.strictEqual(CVPeriod.toIsoString(result), '-P1Y1MT23H30M');
+      TestUtils.assertTrue(
+        CVDateTime.equivalence(CVPeriod.addToDateTimeOrThrow(result)(end), start),
+      );
+    });
+
+    it('end in a different zone offset', () => {
+      TestUtils.strictEqual(
+        pipe(
+          CVPeriod.between(
+            CVDateTime.fromPartsOrThrow({ year: 2024, month: 6, monthDay: 1, zoneOffset: 2 }),
+            CVDateTime.fromPartsOrThrow({ year: 2024, month: 6, monthDay: 3, zoneOffset: -1 }),
+          ),
+          CVPeriod.toIsoString,
+        ),
+        'P2DT3H',
+      );
+    });
+
+    it('Intermediate local time rejected in the time zone of start', () => {
+      TestUtils.strictEqual(
+        pipe(
+          CVPeriod.between(
+            pipe(
+              CVDateTime.fromPartsOrThrow({
+                year: 2025,
+                month: 1,
+                monthDay: 30,
+                hour23: 2,
+                minute: 30,
+                zoneOffset: 1,
+              }),
+              CVDateTime.setZoneNameKeepTimestampOrThrow(
+                'Europe/Paris',
+                CVDateTimeZoneDisambiguation.Type.Reject,
+              ),
+            ),
+            CVDateTime.fromPartsOrThrow({
+              year: 2025,
+              month: 3,
+              monthDay: 31,
+              hour23: 10,
+              zoneOffset: 2,
+            }),
+          ),
+          CVPeriod.toIsoString,
+        ),
+        'P2M1DT7H30M',
+      );
+    });
+  });
+});
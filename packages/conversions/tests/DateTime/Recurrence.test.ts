@@ -0,0 +1,309 @@
+import { Effect, pipe } from 'effect';
+import * as Array from 'effect/Array';
+import * as Iterable from 'effect/Iterable';
+import * as Option from 'effect/Option';
+import * as Stream from 'effect/Stream';
+
+import * as TestUtils from '@parischap/configs/TestUtils';
+import * as CVDateTime from '@parischap/conversions/CVDateTime';
+import * as CVRecurrence from '@parischap/conversions/CVRecurrence';
+
+import { describe, it } from 'vitest';
+
+describe('CVRecurrence', () => {
+  // Tuesday, September 2nd 1997, 9:00 in New York, as in the examples of RFC 5545
+  const start = CVDateTime.fromPartsOrThrow({
+    year: 1997,
+    month: 9,
+    monthDay: 2,
+    hour23: 9,
+    zoneOffset: -4,
+  });
+
+  const toLocalDates = (dateTimes: Iterable<CVDateTime.Type>): ReadonlyArray<string> =>
+    pipe(
+      dateTimes,
+      Array.fromIterable,
+      Array.map((dateTime) => CVDateTime.getIsoString(dateTime).slice(0, 10)),
+    );
+
+  const firstOccurrences = (rRuleString: string, n = 10): ReadonlyArray<string> =>
+    pipe(
+      rRuleString,
+      CVRecurrence.fromRRuleStringOrThrow,
+      CVRecurrence.occurrences(start),
+      Iterable.take(n),
+      toLocalDates,
+    );
+
+  describe('Tag, .toString()', () => {
+    it('moduleTag', () => {
+      TestUtils.assertEquals(
+        Option.some(CVRecurrence.moduleTag),
+        TestUtils.moduleTagFromTestFilePath(import.meta.filename),
+      );
+    });
+
+    it('.toString()', () => {
+      TestUtils.strictEqual(
+        CVRecurrence.fromRRuleStringOrThrow('RRULE:FREQ=WEEKLY;BYDAY=TU,TH;INTERVAL=1').toString(),
+        'FREQ=WEEKLY;BYDAY=TU,TH',
+      );
+    });
+  });
+
+  describe('fromParts', () => {
+    it('Out-of-range value', () => {
+      TestUtils.assertFailureMessage(
+        CVRecurrence.fromParts({ frequency: 'MONTHLY', byMonthDay: [0] }),
+        "Expected 'byMonthDay' to be an integer between -31 and 31 different from 0. Actual: 0",
+      );
+    });
+
+    it('Count and until', () => {
+      TestUtils.assertFailureMessage(
+        CVRecurrence.fromParts({ frequency: 'DAILY', count: 3, until: start }),
+        "'count' and 'until' may not be both present",
+      );
+    });
+
+    it('Ordinal with the WEEKLY frequency', () => {
+      TestUtils.assertFailureMessage(
+        CVRecurrence.fromParts({
+          frequency: 'WEEKLY',
+          byDay: [{ weekday: 1, ordinal: Option.some(1) }],
+        }),
+        'Weekday ordinals may not be used with the WEEKLY frequency',
+      );
+    });
+
+    it('bySetPos alone', () => {
+      TestUtils.assertFailureMessage(
+        CVRecurrence.fromParts({ frequency: 'MONTHLY', bySetPos: [1] }),
+        "'bySetPos' must be used with 'byMonth', 'byMonthDay' or 'byDay'",
+      );
+    });
+
+    it('Passing', () => {
+      TestUtils.strictEqual(
+        CVRecurrence.toRRuleString(
+          CVRecurrence.fromPartsOrThrow({
+            frequency: 'YEARLY',
+            interval: 2,
+            byMonth: [1, 3],
+            byDay: [{ weekday: 7, ordinal: Option.some(-1) }],
+            until: CVDateTime.fromPartsOrThrow({
+              year: 2030,
+              month: 1,
+              monthDay: 1,
+              hour23: 2,
+              zoneOffset: 2,
+            }),
+          }),
+        ),
+        'FREQ=YEARLY;INTERVAL=2;BYMONTH=1,3;BYDAY=-1SU;UNTIL=20300101T000000Z',
+      );
+    });
+  });
+
+  describe('fromRRuleString', () => {
+    it('Unsupported part', () => {
+      TestUtils.assertFailureMessage(
+        CVRecurrence.fromRRuleString('FREQ=DAILY;BYHOUR=9'),
+        "RRULE part 'BYHOUR' is not supported",
+      );
+    });
+
+    it('Missing frequency', () => {
+      TestUtils.assertFailureMessage(
+        CVRecurrence.fromRRuleString('COUNT=2'),
+        "Expected RRULE part 'FREQ' to be one of DAILY, WEEKLY, MONTHLY, YEARLY. Actual: ''",
+      );
+    });
+
+    it('Duplicate part', () => {
+      TestUtils.assertFailureMessage(
+        CVRecurrence.fromRRuleString('FREQ=DAILY;COUNT=2;COUNT=3'),
+        "RRULE part 'COUNT' is present more than once",
+      );
+    });
+
+    it('Invalid BYDAY', () => {
+      TestUtils.assertFailure(CVRecurrence.fromRRuleString('FREQ=MONTHLY;BYDAY=1MON'));
+    });
+
+    it('Week not starting on Monday', () => {
+      TestUtils.assertFailure(CVRecurrence.fromRRuleString('FREQ=WEEKLY;WKST=SU'));
+    });
+
+    it('Invalid UNTIL', () => {
+      TestUtils.assertFailure(CVRecurrence.fromRRuleString('FREQ=DAILY;UNTIL=1997-12-24'));
+    });
+
+    it('Passing', () => {
+      const rRuleString = 'FREQ=MONTHLY;BYMONTHDAY=-3,1;BYSETPOS=1;COUNT=5';
+      TestUtils.strictEqual(
+        pipe(rRuleString, CVRecurrence.fromRRuleStringOrThrow, CVRecurrence.toRRuleString),
+        rRuleString,
+      );
+    });
+  });
+
+  describe('occurrences', () => {
+    it('Daily with count', () => {
+      TestUtils.assertEquals(firstOccurrences('FREQ=DAILY;COUNT=3'), [
+        '1997-09-02',
+        '1997-09-03',
+        '1997-09-04',
+      ]);
+    });
+
+    it('Daily until', () => {
+      TestUtils.assertEquals(firstOccurrences('FREQ=DAILY;UNTIL=19970905T130000Z'), [
+        '1997-09-02',
+        '1997-09-03',
+        '1997-09-04',
+        '1997-09-05',
+      ]);
+      TestUtils.assertEquals(firstOccurrences('FREQ=DAILY;UNTIL=19970905T125959Z'), [
+        '1997-09-02',
+        '1997-09-03',
+        '1997-09-04',
+      ]);
+    });
+
+    it('Daily until a date', () => {
+      TestUtils.assertEquals(firstOccurrences('FREQ=DAILY;UNTIL=19970904'), [
+        '1997-09-02',
+        '1997-09-03',
+        '1997-09-04',
+      ]);
+    });
+
+    it('Every other week on Tuesday and Thursday', () => {
+      TestUtils.assertEquals(
+        firstOccurrences('FREQ=WEEKLY;INTERVAL=2;WKST=MO;BYDAY=TU,TH;COUNT=6'),
+        ['1997-09-02', '1997-09-04', '1997-09-16', '1997-09-18', '1997-09-30', '1997-10-02'],
+      );
+    });
+
+    it('Monthly on the first Friday', () => {
+      TestUtils.assertEquals(firstOccurrences('FREQ=MONTHLY;BYDAY=1FR;COUNT=3'), [
+        '1997-09-05',
+        '1997-10-03',
+        '1997-11-07',
+      ]);
+    });
+
+    it('Monthly on the third-to-last day', () => {
+      TestUtils.assertEquals(firstOccurrences('FREQ=MONTHLY;BYMONTHDAY=-3', 3), [
+        '1997-09-28',
+        '1997-10-29',
+        '1997-11-28',
+      ]);
+    });
+
+    it('Monthly on the second-to-last weekday', () => {
+      TestUtils.assertEquals(firstOccurrences('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-2', 3), [
+        '1997-09-29',
+        '1997-10-30',
+        '1997-11-27',
+      ]);
+    });
+
+    it('Every Friday the 13th', () => {
+      TestUtils.assertEquals(firstOccurrences('FREQ=MONTHLY;BYDAY=FR;BYMONTHDAY=13', 3), [
+        '1998-02-13',
+        '1998-03-13',
+        '1998-11-13',
+      ]);
+    });
+
+    it('Yearly on the 20th Monday', () => {
+      TestUtils.assertEquals(firstOccurrences('FREQ=YEARLY;BYDAY=20MO', 2), [
+        '1998-05-18',
+        '1999-05-17',
+      ]);
+    });
+
+    it('Yearly on February 29th', () => {
+      TestUtils.assertEquals(firstOccurrences('FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=29', 2), [
+        '2000-02-29',
+        '2004-02-29',
+      ]);
+    });
+
+    it('Rule without any occurrence', () => {
+      TestUtils.assertEquals(firstOccurrences('FREQ=MONTHLY;BYMONTH=2;BYMONTHDAY=30'), []);
+    });
+
+    it('Time zone and local time are kept', () => {
+      const parisStart = CVDateTime.setZoneNameKeepPartsOrThrow('Europe/Paris')(
+        CVDateTime.fromPartsOrThrow({
+          year: 2024,
+          month: 3,
+          monthDay: 30,
+          hour23: 9,
+          zoneOffset: 0,
+        }),
+      );
+      TestUtils.assertEquals(
+        pipe(
+          CVRecurrence.fromRRuleStringOrThrow('FREQ=DAILY;COUNT=2'),
+          CVRecurrence.occurrences(parisStart),
+          Array.fromIterable,
+          Array.map(CVDateTime.getIsoString),
+        ),
+        ['2024-03-30T09:00:00.000+01:00', '2024-03-31T09:00:00.000+02:00'],
+      );
+    });
+  });
+
+  describe('Helpers', () => {
+    const recurrence = CVRecurrence.fromRRuleStringOrThrow('FREQ=WEEKLY;BYDAY=MO,FR');
+
+    it('nextOccurrenceAfter', () => {
+      TestUtils.assertEquals(
+        pipe(
+          recurrence,
+          CVRecurrence.nextOccurrenceAfter(
+            start,
+            CVDateTime.fromPartsOrThrow({
+              year: 1997,
+              month: 9,
+              monthDay: 5,
+              hour23: 9,
+              zoneOffset: -4,
+            }),
+          ),
+          Option.map((dateTime) => toLocalDates([dateTime])),
+        ),
+        Option.some(['1997-09-08']),
+      );
+    });
+
+    it('occurrencesBetween', () => {
+      TestUtils.assertEquals(
+        toLocalDates(
+          CVRecurrence.occurrencesBetween(
+            start,
+            CVDateTime.fromPartsOrThrow({ year: 1997, month: 9, monthDay: 10, zoneOffset: -4 }),
+            CVDateTime.fromPartsOrThrow({ year: 1997, month: 9, monthDay: 22, zoneOffset: -4 }),
+          )(recurrence),
+        ),
+        ['1997-09-12', '1997-09-15', '1997-09-19'],
+      );
+    });
+
+    it('occurrenceStream', async () => {
+      const result = await pipe(
+        recurrence,
+        CVRecurrence.occurrenceStream(start),
+        Stream.take(2),
+        Stream.runCollect,
+        Effect.runPromise,
+      );
+      TestUtils.assertEquals(toLocalDates(result), ['1997-09-05', '1997-09-08']);
+    });
+  });
+});
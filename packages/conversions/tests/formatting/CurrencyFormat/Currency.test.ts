@@ -0,0 +1,38 @@
+import * as Option from 'effect/Option';
+
+import * as TestUtils from '@parischap/configs/TestUtils';
+import * as CVCurrency from '@parischap/conversions/CVCurrency';
+
+import { describe, it } from 'vitest';
+
+describe('CVCurrency', () => {
+  describe('Tag, .toString()', () => {
+    it('moduleTag', () => {
+      TestUtils.assertEquals(
+        Option.some(CVCurrency.moduleTag),
+        TestUtils.moduleTagFromTestFilePath(import.meta.filename),
+      );
+    });
+
+    it('.toString()', () => {
+      TestUtils.strictEqual(CVCurrency.eur.toString(), 'EUR');
+    });
+  });
+
+  describe('fromCode', () => {
+    it('Malformed code', () => {
+      TestUtils.assertNone(CVCurrency.fromCode('EU'));
+    });
+
+    it('Same results as pre-defined instances', () => {
+      TestUtils.assertSome(CVCurrency.fromCode('eur'), CVCurrency.eur);
+      TestUtils.assertSome(CVCurrency.fromCode('JPY'), CVCurrency.jpy);
+      TestUtils.assertSome(CVCurrency.fromCode('KWD'), CVCurrency.kwd);
+    });
+
+    it('fromCodeOrThrow', () => {
+      TestUtils.strictEqual(CVCurrency.fromCodeOrThrow('INR').symbol, '₹');
+      TestUtils.throws(() => CVCurrency.fromCodeOrThrow('EU'));
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { pipe } from 'effect';
+import * as Option from 'effect/Option';
+
+import * as TestUtils from '@parischap/configs/TestUtils';
+import * as CVCurrency from '@parischap/conversions/CVCurrency';
+import * as CVCurrencyFormat from '@parischap/conversions/CVCurrencyFormat';
+
+import { describe, it } from 'vitest';
+
+describe('CVCurrencyFormat', () => {
+  const { ukStyleAmount } = CVCurrencyFormat;
+
+  it('moduleTag', () => {
+    TestUtils.assertEquals(
+      Option.some(CVCurrencyFormat.moduleTag),
+      TestUtils.moduleTagFromTestFilePath(import.meta.filename),
+    );
+  });
+
+  describe('toDescription', () => {
+    it('ukStyleAmount', () => {
+      TestUtils.strictEqual(
+        pipe(
+          ukStyleAmount,
+          CVCurrencyFormat.withCurrencies(CVCurrency.eur, CVCurrency.usd),
+          CVCurrencyFormat.toDescription,
+        ),
+        'potentially signed UK-style number amount in EUR, USD with currency symbol before',
+      );
+    });
+
+    it('frenchStyleAmount in accounting style', () => {
+      TestUtils.strictEqual(
+        pipe(
+          CVCurrencyFormat.frenchStyleAmount,
+          CVCurrencyFormat.withCurrencies(CVCurrency.eur),
+          CVCurrencyFormat.withCurrencyCode,
+          CVCurrencyFormat.withAccountingStyle,
+          CVCurrencyFormat.toDescription,
+        ),
+        'potentially signed French-style number amount in EUR with currency code after and negative amounts between parentheses',
+      );
+    });
+  });
+
+  it('currencyMarker', () => {
+    TestUtils.strictEqual(CVCurrencyFormat.currencyMarker(CVCurrency.gbp)(ukStyleAmount), '£');
+    TestUtils.strictEqual(
+      CVCurrencyFormat.currencyMarker(CVCurrency.gbp)(CVCurrencyFormat.isoCodeAmount),
+      'GBP',
+    );
+  });
+});
@@ -0,0 +1,113 @@
+import { pipe } from 'effect';
+import * as BigDecimal from 'effect/BigDecimal';
+import * as Option from 'effect/Option';
+
+import * as TestUtils from '@parischap/configs/TestUtils';
+import * as CVCurrencyFormat from '@parischap/conversions/CVCurrencyFormat';
+import * as CVCurrencyFormatter from '@parischap/conversions/CVCurrencyFormatter';
+import * as CVNumberBase10Format from '@parischap/conversions/CVNumberBase10Format';
+
+import { describe, it } from 'vitest';
+
+describe('CVCurrencyFormatter', () => {
+  const amount = (value: number, currency: string): CVCurrencyFormat.Amount => ({
+    amount: BigDecimal.fromNumberUnsafe(value),
+    currency,
+  });
+
+  describe('moduleTag and .toString()', () => {
+    it('moduleTag', () => {
+      TestUtils.assertEquals(
+        Option.some(CVCurrencyFormatter.moduleTag),
+        TestUtils.moduleTagFromTestFilePath(import.meta.filename),
+      );
+    });
+
+    it('description', () => {
+      TestUtils.strictEqual(
+        pipe(
+          CVCurrencyFormat.isoCodeAmount,
+          CVCurrencyFormatter.fromFormat,
+          CVCurrencyFormatter.description,
+        ),
+        'potentially signed UK-style number amount in EUR, USD, GBP, CHF, JPY, KWD with currency code before formatter',
+      );
+    });
+  });
+
+  describe('format', () => {
+    describe('ukStyleAmount', () => {
+      const formatter = pipe(
+        CVCurrencyFormat.ukStyleAmount,
+        CVCurrencyFormatter.fromFormat,
+        CVCurrencyFormatter.format,
+      );
+
+      it('Minor units', () => {
+        TestUtils.assertSome(formatter(amount(1234.5, 'USD')), '$1,234.50');
+        TestUtils.assertSome(formatter(amount(1234.5, 'JPY')), '¥1,235');
+        TestUtils.assertSome(formatter(amount(12.5, 'KWD')), 'KWD12.500');
+      });
+
+      it('Negative amount', () => {
+        TestUtils.assertSome(formatter(amount(-12, 'EUR')), '-€12.00');
+      });
+
+      it('Amount rounded to zero', () => {
+        TestUtils.assertSome(formatter(amount(-0.001, 'EUR')), '€0.00');
+      });
+
+      it('Unhandled currency', () => {
+        TestUtils.assertNone(formatter(amount(12, 'CAD')));
+      });
+    });
+
+    describe('ukStyleAccountingAmount', () => {
+      const formatter = pipe(
+        CVCurrencyFormat.ukStyleAccountingAmount,
+        CVCurrencyFormatter.fromFormat,
+        CVCurrencyFormatter.format,
+      );
+
+      it('Negative amount', () => {
+        TestUtils.assertSome(formatter(amount(-1234.5, 'GBP')), '(£1,234.50)');
+      });
+
+      it('Positive amount', () => {
+        TestUtils.assertSome(formatter(amount(1234.5, 'GBP')), '£1,234.50');
+      });
+    });
+
+    describe('frenchStyleAmount', () => {
+      const formatter = pipe(
+        CVCurrencyFormat.frenchStyleAmount,
+        CVCurrencyFormat.withNumberBase10Format(
+          pipe(CVNumberBase10Format.frenchStyleNumber, CVNumberBase10Format.withSignDisplay),
+        ),
+        CVCurrencyFormatter.fromFormat,
+        CVCurrencyFormatter.format,
+      );
+
+      it('Signed amounts', () => {
+        TestUtils.assertSome(formatter(amount(-1234.5, 'EUR')), '-1 234,50 €');
+        TestUtils.assertSome(formatter(amount(3, 'CHF')), '+3,00 CHF');
+      });
+    });
+  });
+
+  describe('formatOrThrow', () => {
+    const formatOrThrow = pipe(
+      CVCurrencyFormat.dutchStyleAmount,
+      CVCurrencyFormatter.fromFormat,
+      CVCurrencyFormatter.formatOrThrow,
+    );
+
+    it('Handled currency', () => {
+      TestUtils.strictEqual(formatOrThrow(amount(-1234.5, 'EUR')), '-€ 1.234,50');
+    });
+
+    it('Unhandled currency', () => {
+      TestUtils.throws(() => formatOrThrow(amount(12, 'CAD')));
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { pipe } from 'effect';
+import * as BigDecimal from 'effect/BigDecimal';
+import * as Option from 'effect/Option';
+import * as Tuple from 'effect/Tuple';
+
+import * as TestUtils from '@parischap/configs/TestUtils';
+import * as CVCurrency from '@parischap/conversions/CVCurrency';
+import * as CVCurrencyFormat from '@parischap/conversions/CVCurrencyFormat';
+import * as CVCurrencyParser from '@parischap/conversions/CVCurrencyParser';
+
+import { describe, it } from 'vitest';
+
+describe('CVCurrencyParser', () => {
+  const amount = (value: bigint, scale: number, currency: string): CVCurrencyFormat.Amount => ({
+    amount: BigDecimal.make(value, scale),
+    currency,
+  });
+
+  describe('moduleTag and .toString()', () => {
+    it('moduleTag', () => {
+      TestUtils.assertEquals(
+        Option.some(CVCurrencyParser.moduleTag),
+        TestUtils.moduleTagFromTestFilePath(import.meta.filename),
+      );
+    });
+
+    it('description', () => {
+      TestUtils.strictEqual(
+        pipe(
+          CVCurrencyFormat.frenchStyleAmount,
+          CVCurrencyFormat.withCurrencies(CVCurrency.eur),
+          CVCurrencyParser.fromFormat,
+          CVCurrencyParser.description,
+        ),
+        'potentially signed French-style number amount in EUR with currency symbol after parser',
+      );
+    });
+  });
+
+  describe('extract', () => {
+    describe('ukStyleAmount', () => {
+      const extractor = pipe(
+        CVCurrencyFormat.ukStyleAmount,
+        CVCurrencyParser.fromFormat,
+        CVCurrencyParser.extract,
+      );
+
+      it('Passing', () => {
+        TestUtils.assertSome(
+          extractor('-$1,234.50 due'),
+          Tuple.make(amount(-123_450n, 2, 'USD'), '-$1,234.50'),
+        );
+        TestUtils.assertSome(extractor('¥1,235'), Tuple.make(amount(1235n, 0, 'JPY'), '¥1,235'));
+        TestUtils.assertSome(
+          extractor('KWD12.500'),
+          Tuple.make(amount(12_500n, 3, 'KWD'), 'KWD12.500'),
+        );
+      });
+
+      it('Wrong number of minor units', () => {
+        TestUtils.assertNone(extractor('$12.5'));
+        TestUtils.assertNone(extractor('¥12.50'));
+      });
+
+      it('Unhandled currency', () => {
+        TestUtils.assertNone(extractor('₹12.50'));
+      });
+
+      it('Sign after the currency', () => {
+        TestUtils.assertNone(extractor('$-12.50'));
+      });
+    });
+
+    describe('ukStyleAccountingAmount', () => {
+      const extractor = pipe(
+        CVCurrencyFormat.ukStyleAccountingAmount,
+        CVCurrencyParser.fromFormat,
+        CVCurrencyParser.extract,
+      );
+
+      it('Between parentheses', () => {
+        TestUtils.assertSome(
+          extractor('(£1,234.50) due'),
+          Tuple.make(amount(-123_450n, 2, 'GBP'), '(£1,234.50)'),
+        );
+      });
+
+      it('Missing closing parenthesis', () => {
+        TestUtils.assertNone(extractor('(£1,234.50'));
+      });
+
+      it('Minus sign', () => {
+        TestUtils.assertNone(extractor('-£1,234.50'));
+      });
+    });
+
+    describe('frenchStyleAmount', () => {
+      const extractor = pipe(
+        CVCurrencyFormat.frenchStyleAmount,
+        CVCurrencyParser.fromFormat,
+        CVCurrencyParser.extract,
+      );
+
+      it('Passing', () => {
+        TestUtils.assertSome(
+          extractor('-1 234,50 € TTC'),
+          Tuple.make(amount(-123_450n, 2, 'EUR'), '-1 234,50 €'),
+        );
+      });
+
+      it('Missing separator', () => {
+        TestUtils.assertNone(extractor('12,50€'));
+      });
+    });
+  });
+
+  describe('extractOrThrow', () => {
+    const extractOrThrow = pipe(
+      CVCurrencyFormat.isoCodeAmount,
+      CVCurrencyParser.fromFormat,
+      CVCurrencyParser.extractOrThrow,
+    );
+
+    it('Passing', () => {
+      TestUtils.assertEquals(
+        extractOrThrow('CHF 3.00 only'),
+        Tuple.make(amount(300n, 2, 'CHF'), 'CHF 3.00'),
+      );
+    });
+
+    it('Not passing', () => {
+      TestUtils.throws(() => extractOrThrow('Fr. 3.00'));
+    });
+  });
+
+  describe('parse', () => {
+    const parser = pipe(
+      CVCurrencyFormat.dutchStyleAmount,
+      CVCurrencyParser.fromFormat,
+      CVCurrencyParser.parse,
+    );
+
+    it('Passing', () => {
+      TestUtils.assertSome(parser('€ 1.234,50'), amount(123_450n, 2, 'EUR'));
+    });
+
+    it('Not passing', () => {
+      TestUtils.assertNone(parser('€ 1.234,50 '));
+    });
+  });
+
+  describe('parseOrThrow', () => {
+    const parseOrThrow = pipe(
+      CVCurrencyFormat.ukStyleAmount,
+      CVCurrencyParser.fromFormat,
+      CVCurrencyParser.parseOrThrow,
+    );
+
+    it('Passing', () => {
+      TestUtils.assertEquals(parseOrThrow('$0.00'), amount(0n, 2, 'USD'));
+    });
+
+    it('Not passing', () => {
+      TestUtils.throws(() => parseOrThrow('$0.00 '));
+    });
+  });
+});
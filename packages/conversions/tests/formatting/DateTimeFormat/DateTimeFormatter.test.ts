@@ -1,6 +1,7 @@
 import * as Option from 'effect/Option';
 
 import * as TestUtils from '@parischap/configs/TestUtils';
+import * as CVCalendar from '@parischap/conversions/CVCalendar';
 import * as CVDateTime from '@parischap/conversions/CVDateTime';
 import * as CVDateTimeFormat from '@parischap/conversions/CVDateTimeFormat';
 import * as CVDateTimeFormatContext from '@parischap/conversions/CVDateTimeFormatContext';
@@ -88,6 +89,20 @@ describe('CVDateTimeFormatter', () => {
     placeholder('zszs'),
   );
 
+  const namesFormat = CVDateTimeFormat.make(
+    placeholder('G'),
+    sep.space,
+    placeholder('GGGG'),
+    sep.space,
+    placeholder('MMMMM'),
+    sep.space,
+    placeholder('iiiii'),
+    sep.space,
+    placeholder('a'),
+    sep.space,
+    placeholder('B'),
+  );
+
   const isoFormatter = CVDateTimeFormatter.make({
     dateTimeFormat: isoFormat,
     context: enGBContext,
@@ -168,6 +183,206 @@ describe('CVDateTimeFormatter', () => {
         );
       });
     });
+
+    describe('Names format', () => {
+      const dateTime = CVDateTime.fromPartsOrThrow({
+        year: 2025,
+        month: 7,
+        monthDay: 17,
+        hour23: 15,
+        zoneOffset: 0,
+      });
+
+      it('enGB', () => {
+        TestUtils.assertSuccess(
+          CVDateTimeFormatter.format(
+            CVDateTimeFormatter.make({ dateTimeFormat: namesFormat, context: enGBContext }),
+          )(dateTime),
+          'AD Anno Domini J T PM in the afternoon',
+        );
+      });
+
+      it('Year before the common era', () => {
+        TestUtils.assertSuccess(
+          CVDateTimeFormatter.format(
+            CVDateTimeFormatter.make({ dateTimeFormat: namesFormat, context: enGBContext }),
+          )(CVDateTime.setYearOrThrow(-43)(dateTime)),
+          'BC Before Christ J W PM in the afternoon',
+        );
+      });
+
+      // The CLDR data has no localized abbreviated meridiem markers for German, so 'a' yields 'PM'
+      it('de-DE', () => {
+        TestUtils.assertSuccess(
+          CVDateTimeFormatter.format(
+            CVDateTimeFormatter.make({
+              dateTimeFormat: namesFormat,
+              context: CVDateTimeFormatContext.fromLocaleOrThrow('de-DE'),
+            }),
+          )(dateTime),
+          'n. Chr. n. Chr. J D PM nachm.',
+        );
+      });
+
+      it('ja-JP', () => {
+        TestUtils.assertSuccess(
+          CVDateTimeFormatter.format(
+            CVDateTimeFormatter.make({
+              dateTimeFormat: namesFormat,
+              context: CVDateTimeFormatContext.fromLocaleOrThrow('ja-JP'),
+            }),
+          )(dateTime),
+          '西暦 西暦 7 木 午後 昼',
+        );
+      });
+    });
+  });
+
+  describe('Zone designators', () => {
+    const format = CVDateTimeFormatter.format(
+      CVDateTimeFormatter.make({
+        dateTimeFormat: CVDateTimeFormat.make(placeholder('X'), sep.space, placeholder('XXX')),
+        context: enGBContext,
+      }),
+    );
+    const dateTime = CVDateTime.fromPartsOrThrow({ year: 2025, zoneOffset: 0 });
+
+    it('UTC', () => {
+      TestUtils.assertSuccess(format(dateTime), 'Z Z');
+    });
+
+    it('Offset with minutes', () => {
+      TestUtils.assertSuccess(
+        format(CVDateTime.setZoneOffsetKeepTimestampOrThrow(-5.5)(dateTime)),
+        '-0530 -05:30',
+      );
+    });
+
+    it('Offset without minutes', () => {
+      TestUtils.assertSuccess(
+        format(CVDateTime.setZoneOffsetKeepTimestampOrThrow(2)(dateTime)),
+        '+02 +02:00',
+      );
+    });
+
+    it('Offset with seconds', () => {
+      TestUtils.assertFailureMessage(
+        format(CVDateTime.setZoneOffsetKeepTimestampOrThrow(1 / 3600)(dateTime)),
+        `#zoneOffset: zone offset ${1 / 3600} cannot be written with hours and minutes only`,
+      );
+    });
+
+    it('Literal Z', () => {
+      const formatZ = CVDateTimeFormatter.format(
+        CVDateTimeFormatter.make({
+          dateTimeFormat: CVDateTimeFormat.make(placeholder('HH'), placeholder('Z')),
+          context: enGBContext,
+        }),
+      );
+      TestUtils.assertSuccess(formatZ(dateTime), '00Z');
+      TestUtils.assertFailureMessage(
+        formatZ(CVDateTime.setZoneOffsetKeepTimestampOrThrow(1)(dateTime)),
+        "#zoneOffset: expected a null zone offset to write 'Z'. Actual: 1",
+      );
+    });
+  });
+
+  describe('Ordinal day of month', () => {
+    const ordinalDayFormat = CVDateTimeFormat.make(
+      placeholder('do'),
+      sep.space,
+      placeholder('MMMM'),
+    );
+    const dateTime = CVDateTime.fromPartsOrThrow({ year: 2025, month: 6, monthDay: 3 });
+
+    it('enGB', () => {
+      TestUtils.assertSuccess(
+        CVDateTimeFormatter.format(
+          CVDateTimeFormatter.make({ dateTimeFormat: ordinalDayFormat, context: enGBContext }),
+        )(dateTime),
+        '3rd June',
+      );
+    });
+
+    it('fr-FR', () => {
+      const format = CVDateTimeFormatter.format(
+        CVDateTimeFormatter.make({
+          dateTimeFormat: ordinalDayFormat,
+          context: CVDateTimeFormatContext.fromLocaleOrThrow('fr-FR'),
+        }),
+      );
+      TestUtils.assertSuccess(format(dateTime), '3 juin');
+      TestUtils.assertSuccess(format(CVDateTime.setMonthDayOrThrow(1)(dateTime)), '1er juin');
+    });
+  });
+
+  describe('Calendars', () => {
+    const dateTime = CVDateTime.fromPartsOrThrow({
+      year: 2025,
+      month: 3,
+      monthDay: 15,
+      zoneOffset: 0,
+    });
+
+    it('Hijri calendar', () => {
+      const hijriFormatter = CVDateTimeFormatter.make({
+        dateTimeFormat: CVDateTimeFormat.make(
+          placeholder('d'),
+          sep.space,
+          placeholder('MMMM'),
+          sep.space,
+          placeholder('y'),
+          sep.space,
+          placeholder('G'),
+        ),
+        context: CVDateTimeFormatContext.fromLocaleOrThrow('en-GB', CVCalendar.hijriTabular),
+        calendar: CVCalendar.hijriTabular,
+      });
+      TestUtils.strictEqual(
+        hijriFormatter.toString(),
+        "'d MMMM y G' formatter in 'en-GB (Hijri (tabular) calendar)' context and 'Hijri (tabular)' calendar",
+      );
+      TestUtils.assertSuccess(
+        CVDateTimeFormatter.format(hijriFormatter)(dateTime),
+        '15 Ramadan 1446 AH',
+      );
+    });
+
+    it('Japanese calendar', () => {
+      const format = CVDateTimeFormatter.format(
+        CVDateTimeFormatter.make({
+          dateTimeFormat: CVDateTimeFormat.make(
+            placeholder('GGGG'),
+            placeholder('y'),
+            sep.make('年'),
+            placeholder('M'),
+            sep.make('月'),
+            placeholder('d'),
+            sep.make('日'),
+          ),
+          context: CVDateTimeFormatContext.fromLocaleOrThrow('ja-JP', CVCalendar.japanese),
+          calendar: CVCalendar.japanese,
+        }),
+      );
+      TestUtils.assertSuccess(format(dateTime), '令和7年3月15日');
+      TestUtils.assertFailureMessage(
+        format(CVDateTime.setYearOrThrow(1850)(dateTime)),
+        'Expected a day on or after the start of the Meiji era to be expressed in the Japanese calendar',
+      );
+    });
+
+    it('Julian calendar', () => {
+      TestUtils.assertSuccess(
+        CVDateTimeFormatter.format(
+          CVDateTimeFormatter.make({
+            dateTimeFormat: isoFormat,
+            context: enGBContext,
+            calendar: CVCalendar.julian,
+          }),
+        )(dateTime),
+        '2025-03-02T00:00:00,000+00:00',
+      );
+    });
   });
 
   describe('formatOrThrow', () => {
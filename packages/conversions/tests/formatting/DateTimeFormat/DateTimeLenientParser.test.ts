@@ -0,0 +1,191 @@
+import { pipe } from 'effect';
+import * as Option from 'effect/Option';
+import * as Result from 'effect/Result';
+import * as Struct from 'effect/Struct';
+
+import * as TestUtils from '@parischap/configs/TestUtils';
+import * as CVDateTime from '@parischap/conversions/CVDateTime';
+import * as CVDateTimeFormat from '@parischap/conversions/CVDateTimeFormat';
+import * as CVDateTimeFormatContext from '@parischap/conversions/CVDateTimeFormatContext';
+import * as CVDateTimeFormatPlaceholder from '@parischap/conversions/CVDateTimeFormatPlaceholder';
+import * as CVDateTimeFormatSeparator from '@parischap/conversions/CVDateTimeFormatSeparator';
+import * as CVDateTimeLenientParser from '@parischap/conversions/CVDateTimeLenientParser';
+
+import { describe, it } from 'vitest';
+
+describe('CVDateTimeLenientParser', () => {
+  const placeholder = CVDateTimeFormatPlaceholder.make;
+  const sep = CVDateTimeFormatSeparator;
+  const enGBContext = CVDateTimeFormatContext.enGB;
+
+  const numericFormat = CVDateTimeFormat.make(
+    placeholder('dd'),
+    sep.slash,
+    placeholder('MM'),
+    sep.slash,
+    placeholder('yyyy'),
+    placeholder('zHzH'),
+  );
+
+  const shortYearFormat = CVDateTimeFormat.make(
+    placeholder('dd'),
+    sep.slash,
+    placeholder('MM'),
+    sep.slash,
+    placeholder('yy'),
+    placeholder('zHzH'),
+  );
+
+  const literalFormat = CVDateTimeFormat.make(
+    placeholder('MMMM'),
+    sep.space,
+    placeholder('d'),
+    sep.make(', '),
+    placeholder('yyyy'),
+    placeholder('zHzH'),
+  );
+
+  const lenientParser = CVDateTimeLenientParser.make({
+    dateTimeFormats: [numericFormat, shortYearFormat, literalFormat],
+    context: enGBContext,
+  });
+
+  const strictParser = CVDateTimeLenientParser.make({
+    dateTimeFormats: [numericFormat, shortYearFormat],
+    context: enGBContext,
+    isTolerant: false,
+  });
+
+  const june5th2024 = Date.UTC(2024, 5, 5);
+
+  describe('Tag, .toString()', () => {
+    it('moduleTag', () => {
+      TestUtils.assertEquals(
+        Option.some(CVDateTimeLenientParser.moduleTag),
+        TestUtils.moduleTagFromTestFilePath(import.meta.filename),
+      );
+    });
+
+    it('.toString()', () => {
+      TestUtils.strictEqual(
+        strictParser.toString(),
+        "lenient parser of ['dd/MM/yyyyzHzH', 'dd/MM/yyzHzH'] in 'en-GB' context",
+      );
+    });
+  });
+
+  describe('parse', () => {
+    const parse = CVDateTimeLenientParser.parse(lenientParser);
+
+    it('Non-matching: lists why each candidate was rejected', () => {
+      TestUtils.assertFailureMessage(
+        strictParser.parse('5/6/24+00'),
+        `'5/6/24+00' does not match any of the candidate formats:
+- 'dd/MM/yyyyzHzH' parser in 'en-GB' context: #monthDay: value '5/' cannot be converted to a(n) 0-left-padded unsigned integer
+- 'dd/MM/yyzHzH' parser in 'en-GB' context: #monthDay: value '5/' cannot be converted to a(n) 0-left-padded unsigned integer`,
+      );
+    });
+
+    it('Matching: optional zero padding and any separator', () => {
+      TestUtils.assertSuccess(
+        pipe(
+          parse('5-6-2024+0'),
+          Result.map(({ dateTime }) => CVDateTime.timestamp(dateTime)),
+        ),
+        june5th2024,
+      );
+    });
+
+    it('Matching: first matching format is returned', () => {
+      const result = parse('05.06.24+00');
+      TestUtils.assertSuccess(
+        pipe(
+          result,
+          Result.map(({ dateTimeFormat }) => dateTimeFormat),
+        ),
+        shortYearFormat,
+      );
+      TestUtils.assertSuccess(
+        pipe(
+          result,
+          Result.map(({ dateTime }) => CVDateTime.timestamp(dateTime)),
+        ),
+        june5th2024,
+      );
+    });
+
+    it('Matching: names in any case', () => {
+      TestUtils.assertSuccess(
+        pipe(
+          parse('JUNE 5, 2024+00'),
+          Result.map(({ dateTime }) => CVDateTime.timestamp(dateTime)),
+        ),
+        june5th2024,
+      );
+    });
+
+    it('Matching: day of month with its ordinal suffix', () => {
+      TestUtils.assertSuccess(
+        pipe(
+          parse('June 5th, 2024+00'),
+          Result.map(({ dateTime }) => CVDateTime.timestamp(dateTime)),
+        ),
+        june5th2024,
+      );
+    });
+
+    it('Non-matching: day of month with a wrong ordinal suffix', () => {
+      TestUtils.assertFailure(parse('June 5st, 2024+00'));
+    });
+  });
+
+  describe('parseOrThrow', () => {
+    const parseOrThrow = CVDateTimeLenientParser.parseOrThrow(lenientParser);
+
+    it('Matching: returns the match directly', () => {
+      TestUtils.strictEqual(parseOrThrow('june 5 2024+00').dateTimeFormat, literalFormat);
+    });
+
+    it('Non-matching: throws on invalid input', () => {
+      TestUtils.throws(() => parseOrThrow('not-a-date'));
+    });
+  });
+
+  describe('rfc2822', () => {
+    const target = CVDateTime.fromPartsOrThrow({
+      year: 2003,
+      month: 7,
+      monthDay: 1,
+      hour23: 10,
+      minute: 52,
+      second: 37,
+      zoneOffset: 2,
+    });
+    const parse = CVDateTimeLenientParser.parse(CVDateTimeLenientParser.rfc2822);
+
+    it('With weekday', () => {
+      TestUtils.assertSuccess(
+        pipe('Tue, 1 Jul 2003 10:52:37 +0200', parse, Result.map(Struct.get('dateTime'))),
+        target,
+      );
+    });
+
+    it('Zero-padded day', () => {
+      TestUtils.assertSuccess(
+        pipe('Tue, 01 Jul 2003 10:52:37 +0200', parse, Result.map(Struct.get('dateTime'))),
+        target,
+      );
+    });
+
+    it('Without weekday', () => {
+      TestUtils.assertSuccess(
+        pipe('01 Jul 2003 10:52:37 +0200', parse, Result.map(Struct.get('dateTime'))),
+        target,
+      );
+    });
+
+    it('Wrong weekday', () => {
+      TestUtils.assertFailure(parse('Wed, 1 Jul 2003 10:52:37 +0200'));
+    });
+  });
+});
@@ -3,6 +3,7 @@ import * as Option from 'effect/Option';
 import * as Result from 'effect/Result';
 
 import * as TestUtils from '@parischap/configs/TestUtils';
+import * as CVCalendar from '@parischap/conversions/CVCalendar';
 import * as CVDateTime from '@parischap/conversions/CVDateTime';
 import * as CVDateTimeFormat from '@parischap/conversions/CVDateTimeFormat';
 import * as CVDateTimeFormatContext from '@parischap/conversions/CVDateTimeFormatContext';
@@ -172,6 +173,248 @@ describe('CVDateTimeParser', () => {
         );
       });
     });
+
+    describe('Names format / enGB', () => {
+      const parse = CVDateTimeParser.parse(
+        CVDateTimeParser.make({
+          dateTimeFormat: CVDateTimeFormat.make(
+            placeholder('yyyy'),
+            sep.hyphen,
+            placeholder('MM'),
+            sep.hyphen,
+            placeholder('dd'),
+            sep.space,
+            placeholder('HH'),
+            sep.space,
+            placeholder('GGGG'),
+            sep.space,
+            placeholder('MMMMM'),
+            sep.space,
+            placeholder('iiiii'),
+            sep.space,
+            placeholder('B'),
+            placeholder('zHzH'),
+          ),
+          context: enGBContext,
+        }),
+      );
+
+      it('Non-matching: rejects a narrow weekday that does not match the date', () => {
+        TestUtils.assertFailureMessage(
+          parse('2025-07-17 15 Anno Domini J M in the afternoon+00'),
+          "#narrowWeekday: expected 'T' for the parsed date. Actual: 'M'",
+        );
+      });
+
+      it('Non-matching: rejects a day period that does not match the hour', () => {
+        TestUtils.assertFailureMessage(
+          parse('2025-07-17 15 Anno Domini J T in the morning+00'),
+          "#dayPeriod: expected 'in the afternoon' for the parsed date. Actual: 'in the morning'",
+        );
+      });
+
+      it('Matching: names are only checked', () => {
+        TestUtils.assertSuccess(
+          pipe(
+            '2025-07-17 15 Anno Domini J T in the afternoon+00',
+            parse,
+            Result.map(CVDateTime.timestamp),
+          ),
+          Date.UTC(2025, 6, 17, 15),
+        );
+      });
+    });
+  });
+
+  describe('Zone designators', () => {
+    const parse = CVDateTimeParser.parse(
+      CVDateTimeParser.make({
+        dateTimeFormat: CVDateTimeFormat.make(placeholder('yyyy'), placeholder('X')),
+        context: enGBContext,
+      }),
+    );
+
+    it('Non-matching', () => {
+      TestUtils.assertFailure(parse('2025+5'));
+    });
+
+    it('Matching', () => {
+      TestUtils.assertSuccess(pipe('2025Z', parse, Result.map(CVDateTime.zoneOffset)), 0);
+      TestUtils.assertSuccess(pipe('2025-05', parse, Result.map(CVDateTime.zoneOffset)), -5);
+      TestUtils.assertSuccess(pipe('2025+0530', parse, Result.map(CVDateTime.zoneOffset)), 5.5);
+    });
+  });
+
+  describe('Ordinal day of month', () => {
+    const parse = CVDateTimeParser.parse(
+      CVDateTimeParser.make({
+        dateTimeFormat: CVDateTimeFormat.make(
+          placeholder('do'),
+          sep.space,
+          placeholder('MMMM'),
+          sep.space,
+          placeholder('yyyy'),
+        ),
+        context: enGBContext,
+      }),
+    );
+
+    it('Non-matching', () => {
+      TestUtils.assertFailure(parse('3th June 2025'));
+    });
+
+    it('Matching', () => {
+      TestUtils.assertSuccess(
+        pipe('22nd June 2025', parse, Result.map(CVDateTime.getMonthDay)),
+        22,
+      );
+    });
+  });
+
+  describe('rfc3339Ms', () => {
+    const parse = CVDateTimeParser.parse(
+      CVDateTimeParser.make({ dateTimeFormat: CVDateTimeFormat.rfc3339Ms, context: enGBContext }),
+    );
+
+    it('Fraction of second with any number of digits', () => {
+      TestUtils.assertSuccess(
+        pipe('2005-06-05T14:05:05.5Z', parse, Result.map(CVDateTime.getMillisecond)),
+        500,
+      );
+      TestUtils.assertSuccess(
+        pipe('2005-06-05T14:05:05.007Z', parse, Result.map(CVDateTime.getMillisecond)),
+        7,
+      );
+      TestUtils.assertSuccess(
+        pipe('2005-06-05T14:05:05.123456+02:00', parse, Result.map(CVDateTime.getMillisecond)),
+        123,
+      );
+    });
+
+    it('Missing fraction of second', () => {
+      TestUtils.assertFailure(parse('2005-06-05T14:05:05.Z'));
+    });
+  });
+
+  describe('Tolerant mode', () => {
+    const tolerantParser = CVDateTimeParser.make({
+      dateTimeFormat: CVDateTimeFormat.make(
+        placeholder('dd'),
+        sep.slash,
+        placeholder('MMM'),
+        sep.slash,
+        placeholder('yyyy'),
+        sep.space,
+        placeholder('HH'),
+        sep.make('h'),
+        placeholder('mm'),
+        placeholder('zHzH'),
+      ),
+      context: enGBContext,
+      isTolerant: true,
+    });
+    const parse = CVDateTimeParser.parse(tolerantParser);
+
+    it('.toString()', () => {
+      TestUtils.strictEqual(
+        tolerantParser.toString(),
+        "'dd/MMM/yyyy HHhmmzHzH' tolerant parser in 'en-GB' context",
+      );
+    });
+
+    it('Non-matching: 4-digit years must have 4 digits', () => {
+      TestUtils.assertFailure(parse('5/JUN/24 9h5+0'));
+    });
+
+    it('Non-matching: separators with letters are kept', () => {
+      TestUtils.assertFailure(parse('5/JUN/2024 9:5+0'));
+    });
+
+    it('Matching', () => {
+      TestUtils.assertSuccess(
+        pipe('5-jun 2024 9h5+0', parse, Result.map(CVDateTime.timestamp)),
+        Date.UTC(2024, 5, 5, 9, 5),
+      );
+    });
+  });
+
+  describe('Calendars', () => {
+    const japaneseParser = CVDateTimeParser.make({
+      dateTimeFormat: CVDateTimeFormat.make(
+        placeholder('GGGG'),
+        placeholder('y'),
+        sep.make('年'),
+        placeholder('M'),
+        sep.make('月'),
+        placeholder('d'),
+        sep.make('日'),
+        placeholder('zHzH'),
+      ),
+      context: CVDateTimeFormatContext.fromLocaleOrThrow('ja-JP', CVCalendar.japanese),
+      calendar: CVCalendar.japanese,
+    });
+    const parseJapanese = CVDateTimeParser.parse(japaneseParser);
+
+    const hijriParser = CVDateTimeParser.make({
+      dateTimeFormat: CVDateTimeFormat.make(
+        placeholder('d'),
+        sep.space,
+        placeholder('MMMM'),
+        sep.space,
+        placeholder('y'),
+        sep.space,
+        placeholder('G'),
+        placeholder('zHzH'),
+      ),
+      context: CVDateTimeFormatContext.fromLocaleOrThrow('en-GB', CVCalendar.hijriTabular),
+      calendar: CVCalendar.hijriTabular,
+    });
+    const parseHijri = CVDateTimeParser.parse(hijriParser);
+
+    it('Japanese calendar', () => {
+      TestUtils.assertSuccess(
+        pipe('令和7年3月15日+00', parseJapanese, Result.map(CVDateTime.timestamp)),
+        Date.UTC(2025, 2, 15),
+      );
+      TestUtils.assertSuccess(
+        pipe('昭和64年1月7日+00', parseJapanese, Result.map(CVDateTime.timestamp)),
+        Date.UTC(1989, 0, 7),
+      );
+    });
+
+    it('Japanese calendar: date outside of its era', () => {
+      TestUtils.assertFailureMessage(
+        parseJapanese('昭和64年1月8日+00'),
+        'Expected year 64, month 1 and day 8 to belong to the Shōwa era',
+      );
+    });
+
+    it('Hijri calendar', () => {
+      TestUtils.assertSuccess(
+        pipe('1 Shawwal 1446 AH+00', parseHijri, Result.map(CVDateTime.timestamp)),
+        Date.UTC(2025, 2, 31),
+      );
+    });
+
+    it('Hijri calendar: non-existent day', () => {
+      TestUtils.assertFailureMessage(
+        parseHijri('30 Shawwal 1446 AH+00'),
+        "Expected 'monthDay' to be between 1 (included) and 29 (included). Actual: 30",
+      );
+    });
+
+    it('Incomplete date', () => {
+      TestUtils.assertFailureMessage(
+        CVDateTimeParser.parse(
+          CVDateTimeParser.make({
+            dateTimeFormat: CVDateTimeFormat.make(placeholder('MM'), sep.slash, placeholder('y')),
+            context: enGBContext,
+            calendar: CVCalendar.julian,
+          }),
+        )('03/2025'),
+        'Expected year, month and month day to be all present or all absent when parsing in the Julian calendar',
+      );
+    });
   });
 
   describe('parseOrThrow', () => {
@@ -83,5 +83,75 @@ describe('CVNumberBase10Format', () => {
         '0-left-padded potentially signed French-style integer',
       );
     });
+
+    it('Indian-style number', () => {
+      TestUtils.assertEquals(
+        CVNumberBase10Format.toDescription(CVNumberBase10Format.indianStyleNumber),
+        'potentially signed Indian-style number',
+      );
+    });
+
+    it('Numbers with significant digits', () => {
+      TestUtils.assertEquals(
+        pipe(
+          CVNumberBase10Format.ukStyleNumber,
+          CVNumberBase10Format.withNSignificantDigits(3),
+          CVNumberBase10Format.toDescription,
+        ),
+        'potentially signed UK-style number with 3 significant digits',
+      );
+      TestUtils.assertEquals(
+        pipe(
+          CVNumberBase10Format.ukStyleNumber,
+          CVNumberBase10Format.withMinNSignificantDigits(2),
+          CVNumberBase10Format.withMaxNSignificantDigits(5),
+          CVNumberBase10Format.toDescription,
+        ),
+        'potentially signed UK-style number with 2 to 5 significant digits',
+      );
+      TestUtils.assertEquals(
+        pipe(
+          CVNumberBase10Format.integer,
+          CVNumberBase10Format.withMaxNSignificantDigits(4),
+          CVNumberBase10Format.toDescription,
+        ),
+        'potentially signed French-style number with at most 4 significant digits',
+      );
+    });
+  });
+
+  describe('fromLocale', () => {
+    it('Unknown locale', () => {
+      TestUtils.assertNone(CVNumberBase10Format.fromLocale('not a locale'));
+    });
+
+    it('en-US', () => {
+      const format = CVNumberBase10Format.fromLocaleOrThrow('en-US');
+      TestUtils.strictEqual(format.thousandSeparator, ',');
+      TestUtils.strictEqual(format.fractionalSeparator, '.');
+      TestUtils.strictEqual(format.minusSign, '-');
+      TestUtils.strictEqual(format.primaryGroupSize, 3);
+      TestUtils.strictEqual(format.secondaryGroupSize, 3);
+      TestUtils.strictEqual(format.minimumGroupingDigits, 1);
+    });
+
+    it('en-IN', () => {
+      const format = CVNumberBase10Format.fromLocaleOrThrow('en-IN');
+      TestUtils.strictEqual(format.primaryGroupSize, 3);
+      TestUtils.strictEqual(format.secondaryGroupSize, 2);
+    });
+
+    it('es-ES', () => {
+      const format = CVNumberBase10Format.fromLocaleOrThrow('es-ES');
+      TestUtils.strictEqual(format.thousandSeparator, '.');
+      TestUtils.strictEqual(format.fractionalSeparator, ',');
+      TestUtils.strictEqual(format.minimumGroupingDigits, 2);
+    });
+
+    it('sv-SE', () => {
+      const format = CVNumberBase10Format.fromLocaleOrThrow('sv-SE');
+      TestUtils.strictEqual(format.thousandSeparator, '\u00A0');
+      TestUtils.strictEqual(format.minusSign, '\u2212');
+    });
   });
 });
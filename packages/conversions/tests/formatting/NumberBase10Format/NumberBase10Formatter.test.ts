@@ -164,6 +164,131 @@ describe('CVNumberBase10Formatter', () => {
     });
   });
 
+  describe('Indian grouping', () => {
+    const formatter = pipe(
+      CVNumberBase10Format.indianStyleNumber,
+      CVNumberBase10Formatter.fromFormat,
+      CVNumberBase10Formatter.format,
+    );
+
+    it('Less than a lakh', () => {
+      TestUtils.assertSome(formatter(999), '999');
+      TestUtils.assertSome(formatter(12_345.5), '12,345.5');
+    });
+
+    it('More than a lakh', () => {
+      TestUtils.assertSome(formatter(-1_234_567.891), '-12,34,567.891');
+    });
+  });
+
+  describe('Minimum grouping digits and minus sign', () => {
+    const formatter = pipe(
+      frenchStyleNumber,
+      CVNumberBase10Format.withMinimumGroupingDigits(2),
+      CVNumberBase10Format.withMinusSign('\u2212'),
+      CVNumberBase10Formatter.fromFormat,
+      CVNumberBase10Formatter.format,
+    );
+
+    it('Four-digit number', () => {
+      TestUtils.assertSome(formatter(-1234), '\u22121234');
+    });
+
+    it('Five-digit number', () => {
+      TestUtils.assertSome(formatter(12_345), '12 345');
+    });
+  });
+
+  describe('Significant digits', () => {
+    it('Exactly 3 significant digits', () => {
+      const formatter = pipe(
+        CVNumberBase10Format.ukStyleNumber,
+        CVNumberBase10Format.withNSignificantDigits(3),
+        CVNumberBase10Formatter.fromFormat,
+        CVNumberBase10Formatter.format,
+      );
+      TestUtils.assertSome(formatter(1234.5), '1,230');
+      TestUtils.assertSome(formatter(0.012345), '0.0123');
+      TestUtils.assertSome(formatter(1.2), '1.20');
+      TestUtils.assertSome(formatter(0), '0.00');
+      TestUtils.assertSome(formatter(-99.96), '-100');
+    });
+
+    it('At most 2 significant digits', () => {
+      const formatter = pipe(
+        CVNumberBase10Format.ukStyleNumber,
+        CVNumberBase10Format.withMaxNSignificantDigits(2),
+        CVNumberBase10Formatter.fromFormat,
+        CVNumberBase10Formatter.format,
+      );
+      TestUtils.assertSome(formatter(123_456_789), '120,000,000');
+      TestUtils.assertSome(formatter(1.2), '1.2');
+      TestUtils.assertSome(formatter(0), '0');
+    });
+
+    it('At least 4 significant digits', () => {
+      const formatter = pipe(
+        CVNumberBase10Format.ukStyleNumber,
+        CVNumberBase10Format.withMinNSignificantDigits(4),
+        CVNumberBase10Formatter.fromFormat,
+        CVNumberBase10Formatter.format,
+      );
+      TestUtils.assertSome(formatter(0.012345), '0.012345');
+      TestUtils.assertSome(formatter(1.2), '1.200');
+      TestUtils.assertSome(formatter(1200), '1,200');
+    });
+
+    it('Engineering notation with 3 significant digits', () => {
+      const formatter = pipe(
+        CVNumberBase10Format.ukStyleNumber,
+        CVNumberBase10Format.withNSignificantDigits(3),
+        CVNumberBase10Format.withEngineeringScientificNotation,
+        CVNumberBase10Formatter.fromFormat,
+        CVNumberBase10Formatter.format,
+      );
+      TestUtils.assertSome(formatter(0.012345), '12.3e-3');
+      TestUtils.assertSome(formatter(1200), '1.20e3');
+    });
+
+    it('Same output as Intl.NumberFormat', () => {
+      const formatter = pipe(
+        CVNumberBase10Format.ukStyleNumber,
+        CVNumberBase10Format.withMinNSignificantDigits(2),
+        CVNumberBase10Format.withMaxNSignificantDigits(4),
+        CVNumberBase10Formatter.fromFormat,
+        CVNumberBase10Formatter.format,
+      );
+      const intlFormat = new Intl.NumberFormat('en-GB', {
+        minimumSignificantDigits: 2,
+        maximumSignificantDigits: 4,
+      });
+      for (const number of [123_456, 1.5, 0.00012345, -98.765, 0, 7])
+        TestUtils.assertSome(formatter(number), intlFormat.format(number));
+    });
+  });
+
+  describe('fromLocale', () => {
+    const locales = ['en-US', 'en-IN', 'fr-FR', 'de-CH', 'es-ES', 'sv-SE', 'ar-EG', 'ja-JP'];
+    const numbers = [-1_234_567.891, 1234, 12_345, 0.5, -0];
+
+    it('Same output as Intl.NumberFormat', () => {
+      for (const locale of locales) {
+        const formatter = pipe(
+          locale,
+          CVNumberBase10Format.fromLocaleOrThrow,
+          CVNumberBase10Formatter.fromFormat,
+          CVNumberBase10Formatter.format,
+        );
+        const intlFormat = new Intl.NumberFormat(locale, {
+          maximumFractionDigits: 3,
+          numberingSystem: 'latn',
+        });
+        for (const number of numbers)
+          TestUtils.assertSome(formatter(number), intlFormat.format(number));
+      }
+    });
+  });
+
   describe('formatOrThrow', () => {
     const formatOrThrow = pipe(
       frenchStyleNumber,
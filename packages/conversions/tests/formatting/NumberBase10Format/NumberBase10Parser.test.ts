@@ -378,6 +378,97 @@ describe('CVNumberBase10Parser', () => {
     });
   });
 
+  describe('Indian grouping', () => {
+    const numberParser = pipe(
+      CVNumberBase10Format.indianStyleNumber,
+      CVNumberBase10Parser.fromFormat,
+      CVNumberBase10Parser.parseAsNumber,
+    );
+
+    it('Properly grouped numbers', () => {
+      TestUtils.assertSome(numberParser('12,345.5'), 12_345.5);
+      TestUtils.assertSome(numberParser('-12,34,567.891'), -1_234_567.891);
+    });
+
+    it('Badly grouped numbers', () => {
+      TestUtils.assertNone(numberParser('1,234,567'));
+      TestUtils.assertNone(numberParser('12,34,5'));
+    });
+  });
+
+  describe('Significant digits', () => {
+    it('Exactly 3 significant digits', () => {
+      const numberParser = pipe(
+        CVNumberBase10Format.ukStyleNumber,
+        CVNumberBase10Format.withNSignificantDigits(3),
+        CVNumberBase10Parser.fromFormat,
+        CVNumberBase10Parser.parseAsNumber,
+      );
+      TestUtils.assertSome(numberParser('1.20'), 1.2);
+      TestUtils.assertSome(numberParser('0.0123'), 0.0123);
+      TestUtils.assertSome(numberParser('0.00'), 0);
+      TestUtils.assertNone(numberParser('1.2'));
+      TestUtils.assertNone(numberParser('1.234'));
+      TestUtils.assertNone(numberParser('0.0'));
+    });
+
+    it('Trailing zeros of integers', () => {
+      const numberParser = pipe(
+        CVNumberBase10Format.ukStyleNumber,
+        CVNumberBase10Format.withMaxNSignificantDigits(2),
+        CVNumberBase10Parser.fromFormat,
+        CVNumberBase10Parser.parseAsNumber,
+      );
+      TestUtils.assertSome(numberParser('120,000,000'), 120_000_000);
+      TestUtils.assertNone(numberParser('1,230'));
+    });
+  });
+
+  describe('Minimum grouping digits and minus sign', () => {
+    const numberParser = pipe(
+      frenchStyleNumber,
+      CVNumberBase10Format.withMinimumGroupingDigits(2),
+      CVNumberBase10Format.withMinusSign('\u2212'),
+      CVNumberBase10Parser.fromFormat,
+      CVNumberBase10Parser.parseAsNumber,
+    );
+
+    it('Four-digit number', () => {
+      TestUtils.assertSome(numberParser('\u22121234'), -1234);
+      TestUtils.assertNone(numberParser('1 234'));
+    });
+
+    it('Five-digit number', () => {
+      TestUtils.assertSome(numberParser('12 345'), 12_345);
+    });
+
+    it('Hyphen-minus is not accepted', () => {
+      TestUtils.assertNone(numberParser('-12'));
+    });
+  });
+
+  describe('fromLocale', () => {
+    const locales = ['en-US', 'en-IN', 'fr-FR', 'de-CH', 'es-ES', 'sv-SE', 'ar-EG', 'ja-JP'];
+    const numbers = [-1_234_567.891, 1234, 12_345, 0.5, -0];
+
+    it('Parses Intl.NumberFormat output', () => {
+      for (const locale of locales) {
+        const numberParser = pipe(
+          locale,
+          CVNumberBase10Format.fromLocaleOrThrow,
+          CVNumberBase10Parser.fromFormat,
+          CVNumberBase10Parser.parseAsNumber,
+        );
+        const intlFormat = new Intl.NumberFormat(locale, {
+          maximumFractionDigits: 3,
+          numberingSystem: 'latn',
+        });
+        for (const number of numbers)
+          TestUtils.assertSome(numberParser(intlFormat.format(number)), number);
+      }
+    });
+  });
+
   describe('extractAsBigDecimalOrThrow', () => {
     const bigDecimalExtractor = pipe(
       frenchStyleNumber,
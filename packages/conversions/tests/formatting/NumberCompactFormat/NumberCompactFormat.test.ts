@@ -0,0 +1,49 @@
+import { pipe } from 'effect';
+import * as Option from 'effect/Option';
+
+import * as TestUtils from '@parischap/configs/TestUtils';
+import * as CVNumberBase10Format from '@parischap/conversions/CVNumberBase10Format';
+import * as CVNumberCompactFormat from '@parischap/conversions/CVNumberCompactFormat';
+import * as CVNumberCompactSuffixTable from '@parischap/conversions/CVNumberCompactSuffixTable';
+
+import { describe, it } from 'vitest';
+
+describe('CVNumberCompactFormat', () => {
+  it('moduleTag', () => {
+    TestUtils.assertEquals(
+      Option.some(CVNumberCompactFormat.moduleTag),
+      TestUtils.moduleTagFromTestFilePath(import.meta.filename),
+    );
+  });
+
+  describe('toDescription', () => {
+    it('shortEnglishCompactNumber', () => {
+      TestUtils.strictEqual(
+        CVNumberCompactFormat.toDescription(CVNumberCompactFormat.shortEnglishCompactNumber),
+        'potentially signed UK-style number in compact notation with short English suffixes K, M, B, T',
+      );
+    });
+
+    it('Modified frenchCompactNumber', () => {
+      TestUtils.strictEqual(
+        pipe(
+          CVNumberCompactFormat.frenchCompactNumber,
+          CVNumberCompactFormat.withNumberBase10Format(CVNumberBase10Format.ukStyleNumber),
+          CVNumberCompactFormat.withSuffixTable(CVNumberCompactSuffixTable.si),
+          CVNumberCompactFormat.toDescription,
+        ),
+        'potentially signed UK-style number in compact notation with SI suffixes k, M, G, T, P, E',
+      );
+    });
+  });
+
+  it('Modifiers', () => {
+    const format = pipe(
+      CVNumberCompactFormat.shortEnglishCompactNumber,
+      CVNumberCompactFormat.withSuffixSeparator(' '),
+      CVNumberCompactFormat.withSignificantDigits(4),
+    );
+    TestUtils.strictEqual(CVNumberCompactFormat.suffixSeparator(format), ' ');
+    TestUtils.strictEqual(CVNumberCompactFormat.significantDigits(format), 4);
+  });
+});
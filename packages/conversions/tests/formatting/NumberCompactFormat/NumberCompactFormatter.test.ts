@@ -0,0 +1,116 @@
+import { pipe } from 'effect';
+import * as BigDecimal from 'effect/BigDecimal';
+import * as Option from 'effect/Option';
+
+import * as TestUtils from '@parischap/configs/TestUtils';
+import * as CVNumberBase10Format from '@parischap/conversions/CVNumberBase10Format';
+import * as CVNumberCompactFormat from '@parischap/conversions/CVNumberCompactFormat';
+import * as CVNumberCompactFormatter from '@parischap/conversions/CVNumberCompactFormatter';
+
+import { describe, it } from 'vitest';
+
+describe('CVNumberCompactFormatter', () => {
+  describe('moduleTag and .toString()', () => {
+    it('moduleTag', () => {
+      TestUtils.assertEquals(
+        Option.some(CVNumberCompactFormatter.moduleTag),
+        TestUtils.moduleTagFromTestFilePath(import.meta.filename),
+      );
+    });
+
+    it('description', () => {
+      TestUtils.strictEqual(
+        pipe(
+          CVNumberCompactFormat.frenchCompactNumber,
+          CVNumberCompactFormatter.fromFormat,
+          CVNumberCompactFormatter.description,
+        ),
+        'potentially signed French-style number in compact notation with French suffixes k, M, Md, Bn formatter',
+      );
+    });
+  });
+
+  describe('format', () => {
+    describe('shortEnglishCompactNumber', () => {
+      const formatter = pipe(
+        CVNumberCompactFormat.shortEnglishCompactNumber,
+        CVNumberCompactFormatter.fromFormat,
+        CVNumberCompactFormatter.format,
+      );
+
+      it('Numbers too small for a suffix', () => {
+        TestUtils.assertSome(formatter(0), '0');
+        TestUtils.assertSome(formatter(999), '999');
+        TestUtils.assertSome(formatter(12.34), '12');
+        TestUtils.assertSome(formatter(-0.001234), '-0.0012');
+      });
+
+      it('Numbers with a suffix', () => {
+        TestUtils.assertSome(formatter(1234), '1.2K');
+        TestUtils.assertSome(formatter(-1234), '-1.2K');
+        TestUtils.assertSome(formatter(1000), '1K');
+        TestUtils.assertSome(formatter(123_456), '123K');
+        TestUtils.assertSome(formatter(3_450_000), '3.5M');
+        TestUtils.assertSome(formatter(BigDecimal.fromBigInt(5n * 10n ** 15n)), '5,000T');
+      });
+
+      it('Rounding to a larger suffix', () => {
+        TestUtils.assertSome(formatter(999_950), '1M');
+        TestUtils.assertSome(formatter(-999_999_999), '-1B');
+      });
+
+      it('Not finite numbers', () => {
+        TestUtils.assertNone(formatter(Number.NaN));
+        TestUtils.assertNone(formatter(Number.POSITIVE_INFINITY));
+      });
+    });
+
+    it('frenchCompactNumber', () => {
+      const formatter = pipe(
+        CVNumberCompactFormat.frenchCompactNumber,
+        CVNumberCompactFormatter.fromFormat,
+        CVNumberCompactFormatter.format,
+      );
+      TestUtils.assertSome(formatter(1234), '1,2 k');
+      TestUtils.assertSome(formatter(5_000_000_000), '5 Md');
+      TestUtils.assertSome(formatter(2_100_000_000_000), '2,1 Bn');
+    });
+
+    it('siCompactNumber with truncation', () => {
+      const formatter = pipe(
+        CVNumberCompactFormat.siCompactNumber,
+        CVNumberCompactFormat.withNumberBase10Format(
+          pipe(CVNumberBase10Format.ukStyleNumber, CVNumberBase10Format.withTruncRoundingOption),
+        ),
+        CVNumberCompactFormatter.fromFormat,
+        CVNumberCompactFormatter.format,
+      );
+      TestUtils.assertSome(formatter(1239), '1.23k');
+      TestUtils.assertSome(formatter(999_999), '999k');
+      TestUtils.assertSome(formatter(45_678_000_000_000_000), '45.6P');
+    });
+
+    it('binaryCompactNumber', () => {
+      const formatter = pipe(
+        CVNumberCompactFormat.binaryCompactNumber,
+        CVNumberCompactFormatter.fromFormat,
+        CVNumberCompactFormatter.format,
+      );
+      TestUtils.assertSome(formatter(0), '0 B');
+      TestUtils.assertSome(formatter(512), '512 B');
+      TestUtils.assertSome(formatter(1536), '1.5 KiB');
+      TestUtils.assertSome(formatter(2 ** 31), '2 GiB');
+      TestUtils.assertSome(formatter(1_500_000), '1.43 MiB');
+    });
+  });
+
+  it('formatOrThrow', () => {
+    const formatOrThrow = pipe(
+      CVNumberCompactFormat.shortEnglishCompactNumber,
+      CVNumberCompactFormatter.fromFormat,
+      CVNumberCompactFormatter.formatOrThrow,
+    );
+    TestUtils.strictEqual(formatOrThrow(1_500_000_000), '1.5B');
+    TestUtils.throws(() => formatOrThrow(Number.NaN));
+  });
+});
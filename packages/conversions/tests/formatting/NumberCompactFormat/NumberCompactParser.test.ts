@@ -0,0 +1,137 @@
+import { pipe } from 'effect';
+import * as BigDecimal from 'effect/BigDecimal';
+import * as Option from 'effect/Option';
+import * as Tuple from 'effect/Tuple';
+
+import * as TestUtils from '@parischap/configs/TestUtils';
+import * as CVNumberCompactFormat from '@parischap/conversions/CVNumberCompactFormat';
+import * as CVNumberCompactFormatter from '@parischap/conversions/CVNumberCompactFormatter';
+import * as CVNumberCompactParser from '@parischap/conversions/CVNumberCompactParser';
+
+import { describe, it } from 'vitest';
+
+describe('CVNumberCompactParser', () => {
+  describe('moduleTag and .toString()', () => {
+    it('moduleTag', () => {
+      TestUtils.assertEquals(
+        Option.some(CVNumberCompactParser.moduleTag),
+        TestUtils.moduleTagFromTestFilePath(import.meta.filename),
+      );
+    });
+
+    it('description', () => {
+      TestUtils.strictEqual(
+        pipe(
+          CVNumberCompactFormat.binaryCompactNumber,
+          CVNumberCompactParser.fromFormat,
+          CVNumberCompactParser.description,
+        ),
+        'potentially signed UK-style number in compact notation with binary suffixes B, KiB, MiB, GiB, TiB, PiB parser',
+      );
+    });
+  });
+
+  describe('extractAsBigDecimal', () => {
+    it('shortEnglishCompactNumber', () => {
+      const extractor = pipe(
+        CVNumberCompactFormat.shortEnglishCompactNumber,
+        CVNumberCompactParser.fromFormat,
+        CVNumberCompactParser.extractAsBigDecimal,
+      );
+      TestUtils.assertSome(
+        extractor('1.2K views'),
+        Tuple.make(BigDecimal.make(12_000n, 1), '1.2K'),
+      );
+      TestUtils.assertSome(
+        extractor('-3.45M'),
+        Tuple.make(BigDecimal.make(-345_000_000n, 2), '-3.45M'),
+      );
+      TestUtils.assertSome(extractor('999 views'), Tuple.make(BigDecimal.make(999n, 0), '999'));
+      TestUtils.assertNone(extractor('K'));
+    });
+
+    it('frenchCompactNumber', () => {
+      const extractor = pipe(
+        CVNumberCompactFormat.frenchCompactNumber,
+        CVNumberCompactParser.fromFormat,
+        CVNumberCompactParser.extractAsBigDecimal,
+      );
+      TestUtils.assertSome(
+        extractor('5 Md de dollars'),
+        Tuple.make(BigDecimal.make(5_000_000_000n, 0), '5 Md'),
+      );
+      TestUtils.assertSome(
+        extractor('1,5 M'),
+        Tuple.make(BigDecimal.make(15_000_000n, 1), '1,5 M'),
+      );
+      // Without the separator, the suffix is not recognized
+      TestUtils.assertSome(extractor('1,5M'), Tuple.make(BigDecimal.make(15n, 1), '1,5'));
+    });
+
+    it('binaryCompactNumber', () => {
+      const extractor = pipe(
+        CVNumberCompactFormat.binaryCompactNumber,
+        CVNumberCompactParser.fromFormat,
+        CVNumberCompactParser.extractAsBigDecimal,
+      );
+      TestUtils.assertSome(
+        extractor('1.5 KiB free'),
+        Tuple.make(BigDecimal.make(15_360n, 1), '1.5 KiB'),
+      );
+      TestUtils.assertSome(extractor('512 B'), Tuple.make(BigDecimal.make(512n, 0), '512 B'));
+      // The unit suffix is mandatory
+      TestUtils.assertNone(extractor('512'));
+    });
+  });
+
+  describe('parseAsNumber', () => {
+    const parser = pipe(
+      CVNumberCompactFormat.siCompactNumber,
+      CVNumberCompactParser.fromFormat,
+      CVNumberCompactParser.parseAsNumber,
+    );
+
+    it('Passing', () => {
+      TestUtils.assertSome(parser('1.23k'), 1230);
+      TestUtils.assertSome(parser('-45.6G'), -45_600_000_000);
+      TestUtils.assertSome(parser('0.5'), 0.5);
+    });
+
+    it('Not passing', () => {
+      TestUtils.assertNone(parser('1.23k '));
+      TestUtils.assertNone(parser('1.23x'));
+      // Out of the safe integer range
+      TestUtils.assertNone(parser('1.5E'));
+    });
+  });
+
+  it('parseAsBigDecimalOrThrow', () => {
+    const parseOrThrow = pipe(
+      CVNumberCompactFormat.siCompactNumber,
+      CVNumberCompactParser.fromFormat,
+      CVNumberCompactParser.parseAsBigDecimalOrThrow,
+    );
+    TestUtils.assertEquals(parseOrThrow('1.5E'), BigDecimal.make(15n * 10n ** 18n, 1));
+    TestUtils.throws(() => parseOrThrow('1.5 E'));
+  });
+
+  it('Round trip', () => {
+    const formatter = pipe(
+      CVNumberCompactFormat.frenchCompactNumber,
+      CVNumberCompactFormatter.fromFormat,
+      CVNumberCompactFormatter.formatOrThrow,
+    );
+    const parser = pipe(
+      CVNumberCompactFormat.frenchCompactNumber,
+      CVNumberCompactParser.fromFormat,
+      CVNumberCompactParser.parseAsNumberOrThrow,
+    );
+    for (const [value, expected] of [
+      [1234, 1200],
+      [-987_654, -988_000],
+      [5_040_000_000, 5_000_000_000],
+      [12, 12],
+    ] as const)
+      TestUtils.strictEqual(parser(formatter(value)), expected);
+  });
+});
@@ -0,0 +1,46 @@
+import { pipe } from 'effect';
+import * as Array from 'effect/Array';
+import * as Option from 'effect/Option';
+
+import * as TestUtils from '@parischap/configs/TestUtils';
+import * as CVNumberCompactSuffixTable from '@parischap/conversions/CVNumberCompactSuffixTable';
+
+import { describe, it } from 'vitest';
+
+describe('CVNumberCompactSuffixTable', () => {
+  it('moduleTag', () => {
+    TestUtils.assertEquals(
+      Option.some(CVNumberCompactSuffixTable.moduleTag),
+      TestUtils.moduleTagFromTestFilePath(import.meta.filename),
+    );
+  });
+
+  it('make sorts entries by decreasing multiplier', () => {
+    TestUtils.assertEquals(
+      pipe(
+        CVNumberCompactSuffixTable.make({
+          name: 'test',
+          entries: [
+            { suffix: 'k', multiplier: 1000n },
+            { suffix: 'M', multiplier: 1_000_000n },
+            { suffix: 'u', multiplier: 1n },
+          ],
+        }),
+        CVNumberCompactSuffixTable.entries,
+        Array.map(({ suffix }) => suffix),
+      ),
+      ['M', 'k', 'u'],
+    );
+  });
+
+  it('binary', () => {
+    TestUtils.assertEquals(
+      pipe(
+        CVNumberCompactSuffixTable.binary,
+        CVNumberCompactSuffixTable.entries,
+        Array.map(({ multiplier }) => multiplier),
+      ),
+      [2n ** 50n, 2n ** 40n, 2n ** 30n, 2n ** 20n, 1024n, 1n],
+    );
+  });
+});
@@ -0,0 +1,117 @@
+import { pipe } from 'effect';
+import * as Option from 'effect/Option';
+
+import * as TestUtils from '@parischap/configs/TestUtils';
+import * as CVNumberBase10FormatSignDisplayOption from '@parischap/conversions/CVNumberBase10FormatSignDisplayOption';
+import * as CVNumberRadixFormat from '@parischap/conversions/CVNumberRadixFormat';
+
+import { describe, it } from 'vitest';
+
+describe('CVNumberRadixFormat', () => {
+  const { prefixedHexadecimal, octal, binary } = CVNumberRadixFormat;
+
+  it('moduleTag', () => {
+    TestUtils.assertEquals(
+      Option.some(CVNumberRadixFormat.moduleTag),
+      TestUtils.moduleTagFromTestFilePath(import.meta.filename),
+    );
+  });
+
+  describe('getFixedLength', () => {
+    it('No padding', () => {
+      TestUtils.assertNone(
+        pipe(
+          prefixedHexadecimal,
+          CVNumberRadixFormat.withoutSignDisplay,
+          CVNumberRadixFormat.getFixedLength,
+        ),
+      );
+    });
+
+    it('Sign not fixed', () => {
+      TestUtils.assertNone(
+        pipe(
+          prefixedHexadecimal,
+          CVNumberRadixFormat.zeroPadded(4),
+          CVNumberRadixFormat.getFixedLength,
+        ),
+      );
+    });
+
+    it('Prefixes of different lengths', () => {
+      TestUtils.assertNone(
+        pipe(
+          prefixedHexadecimal,
+          CVNumberRadixFormat.withPrefixes('0x', '#'),
+          CVNumberRadixFormat.withoutSignDisplay,
+          CVNumberRadixFormat.zeroPadded(4),
+          CVNumberRadixFormat.getFixedLength,
+        ),
+      );
+    });
+
+    it('Fixed length with digit group separator', () => {
+      TestUtils.assertSome(
+        pipe(
+          prefixedHexadecimal,
+          CVNumberRadixFormat.withDigitGroupSeparator('_'),
+          CVNumberRadixFormat.withSignDisplay,
+          CVNumberRadixFormat.zeroPadded(8),
+          CVNumberRadixFormat.getFixedLength,
+        ),
+        12,
+      );
+    });
+  });
+
+  describe('toDescription', () => {
+    it('Octal', () => {
+      TestUtils.strictEqual(
+        CVNumberRadixFormat.toDescription(octal),
+        'potentially signed octal integer',
+      );
+    });
+
+    it('Prefixed hexadecimal with digit group separator', () => {
+      TestUtils.strictEqual(
+        pipe(
+          prefixedHexadecimal,
+          CVNumberRadixFormat.withDigitGroupSeparator('_'),
+          CVNumberRadixFormat.withoutSignDisplay,
+          CVNumberRadixFormat.toDescription,
+        ),
+        "unsigned hexadecimal integer with '0x' prefix in groups of 4 digits separated by '_'",
+      );
+    });
+
+    it('Padded binary', () => {
+      TestUtils.strictEqual(
+        pipe(
+          binary,
+          CVNumberRadixFormat.withSignDisplay,
+          CVNumberRadixFormat.zeroPadded(8),
+          CVNumberRadixFormat.toDescription,
+        ),
+        'signed 8-digit binary integer',
+      );
+    });
+
+    it('Other radix', () => {
+      TestUtils.strictEqual(
+        pipe(
+          CVNumberRadixFormat.make({
+            radix: 36,
+            prefixes: [],
+            digitGroupSeparator: '',
+            digitGroupSize: 4,
+            digitPadding: Option.none(),
+            isUpperCase: false,
+            signDisplayOption: CVNumberBase10FormatSignDisplayOption.Type.Auto,
+          }),
+          CVNumberRadixFormat.toDescription,
+        ),
+        'potentially signed base-36 integer',
+      );
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import { pipe } from 'effect';
+import * as Option from 'effect/Option';
+
+import * as TestUtils from '@parischap/configs/TestUtils';
+import * as CVNumberRadixFormat from '@parischap/conversions/CVNumberRadixFormat';
+import * as CVNumberRadixFormatter from '@parischap/conversions/CVNumberRadixFormatter';
+
+import { describe, it } from 'vitest';
+
+describe('CVNumberRadixFormatter', () => {
+  const { hexadecimal, prefixedHexadecimal, prefixedBinary } = CVNumberRadixFormat;
+
+  describe('moduleTag and .toString()', () => {
+    it('moduleTag', () => {
+      TestUtils.assertEquals(
+        Option.some(CVNumberRadixFormatter.moduleTag),
+        TestUtils.moduleTagFromTestFilePath(import.meta.filename),
+      );
+    });
+
+    it('description', () => {
+      TestUtils.assertEquals(
+        pipe(
+          prefixedHexadecimal,
+          CVNumberRadixFormatter.fromFormat,
+          CVNumberRadixFormatter.description,
+        ),
+        "potentially signed hexadecimal integer with '0x' prefix formatter",
+      );
+    });
+  });
+
+  describe('format', () => {
+    describe('General tests with prefixedHexadecimal', () => {
+      const formatter = pipe(
+        prefixedHexadecimal,
+        CVNumberRadixFormatter.fromFormat,
+        CVNumberRadixFormatter.format,
+      );
+
+      it('Zero', () => {
+        TestUtils.assertSome(formatter(0), '0x0');
+        TestUtils.assertSome(formatter(-0), '0x0');
+        TestUtils.assertSome(formatter(0n), '0x0');
+      });
+
+      it('Numbers', () => {
+        TestUtils.assertSome(formatter(255), '0xFF');
+        TestUtils.assertSome(formatter(-4096), '-0x1000');
+      });
+
+      it('Bigints', () => {
+        TestUtils.assertSome(formatter(2n ** 64n), '0x10000000000000000');
+        TestUtils.assertSome(formatter(-255n), '-0xFF');
+      });
+
+      it('Not an integer', () => {
+        TestUtils.assertNone(formatter(1.5));
+        TestUtils.assertNone(formatter(Number.NaN));
+        TestUtils.assertNone(formatter(Infinity));
+      });
+    });
+
+    it('Lower case', () => {
+      TestUtils.assertSome(
+        pipe(
+          hexadecimal,
+          CVNumberRadixFormat.withLowerCase,
+          CVNumberRadixFormatter.fromFormat,
+          CVNumberRadixFormatter.format,
+        )(48_879),
+        'beef',
+      );
+    });
+
+    it('With digit group separator and padding', () => {
+      const formatter = pipe(
+        prefixedHexadecimal,
+        CVNumberRadixFormat.withDigitGroupSeparator('_'),
+        CVNumberRadixFormat.zeroPadded(8),
+        CVNumberRadixFormatter.fromFormat,
+        CVNumberRadixFormatter.format,
+      );
+      TestUtils.assertSome(formatter(65_535), '0x0000_FFFF');
+      TestUtils.assertSome(formatter(4_295_032_831), '0x1_0000_FFFF');
+    });
+
+    it('With sign display', () => {
+      const formatter = pipe(
+        prefixedBinary,
+        CVNumberRadixFormat.withSignDisplayExceptZero,
+        CVNumberRadixFormatter.fromFormat,
+        CVNumberRadixFormatter.format,
+      );
+      TestUtils.assertSome(formatter(5), '+0b101');
+      TestUtils.assertSome(formatter(-5), '-0b101');
+      TestUtils.assertSome(formatter(0), '0b0');
+    });
+
+    it('formatOrThrow', () => {
+      const formatOrThrow = pipe(
+        prefixedBinary,
+        CVNumberRadixFormatter.fromFormat,
+        CVNumberRadixFormatter.formatOrThrow,
+      );
+      TestUtils.strictEqual(formatOrThrow(10), '0b1010');
+      TestUtils.throws(() => formatOrThrow(0.1));
+    });
+  });
+});
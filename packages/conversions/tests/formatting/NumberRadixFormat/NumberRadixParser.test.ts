@@ -0,0 +1,138 @@
+import { pipe } from 'effect';
+import * as Option from 'effect/Option';
+import * as Tuple from 'effect/Tuple';
+
+import * as TestUtils from '@parischap/configs/TestUtils';
+import * as CVNumberRadixFormat from '@parischap/conversions/CVNumberRadixFormat';
+import * as CVNumberRadixParser from '@parischap/conversions/CVNumberRadixParser';
+
+import { describe, it } from 'vitest';
+
+describe('CVNumberRadixParser', () => {
+  const { hexadecimal, prefixedHexadecimal, prefixedBinary, prefixedOctal } = CVNumberRadixFormat;
+
+  describe('moduleTag and .toString()', () => {
+    it('moduleTag', () => {
+      TestUtils.assertEquals(
+        Option.some(CVNumberRadixParser.moduleTag),
+        TestUtils.moduleTagFromTestFilePath(import.meta.filename),
+      );
+    });
+
+    it('description', () => {
+      TestUtils.assertEquals(
+        pipe(prefixedOctal, CVNumberRadixParser.fromFormat, CVNumberRadixParser.description),
+        "potentially signed octal integer with '0o' prefix parser",
+      );
+    });
+  });
+
+  describe('General tests with prefixedHexadecimal', () => {
+    const parser = CVNumberRadixParser.fromFormat(prefixedHexadecimal);
+    const parseAsNumber = CVNumberRadixParser.parseAsNumber(parser);
+
+    it('Both cases are accepted', () => {
+      TestUtils.assertSome(parseAsNumber('0xff'), 255);
+      TestUtils.assertSome(parseAsNumber('0XFf'), 255);
+    });
+
+    it('Sign', () => {
+      TestUtils.assertSome(parseAsNumber('-0x10'), -16);
+      TestUtils.assertNone(parseAsNumber('-0x0'));
+      TestUtils.assertNone(parseAsNumber('+0x10'));
+    });
+
+    it('Prefix is mandatory', () => {
+      TestUtils.assertNone(parseAsNumber('ff'));
+    });
+
+    it('Not a hexadecimal digit', () => {
+      TestUtils.assertNone(parseAsNumber('0xfg'));
+    });
+
+    it('Not a safe integer', () => {
+      TestUtils.assertNone(parseAsNumber('0x20000000000000'));
+    });
+
+    it('extractAsNumber', () => {
+      TestUtils.assertSome(
+        CVNumberRadixParser.extractAsNumber(parser)('0x1Fg'),
+        Tuple.make(31, '0x1F'),
+      );
+      TestUtils.assertNone(CVNumberRadixParser.extractAsNumber(parser)('g'));
+    });
+
+    it('parseAsBigInt', () => {
+      TestUtils.assertSome(
+        CVNumberRadixParser.parseAsBigInt(parser)('0x10000000000000000'),
+        2n ** 64n,
+      );
+      TestUtils.assertSome(CVNumberRadixParser.parseAsBigInt(parser)('-0xff'), -255n);
+    });
+
+    it('extractAsBigInt', () => {
+      TestUtils.assertSome(
+        CVNumberRadixParser.extractAsBigInt(parser)('0xA and foo'),
+        Tuple.make(10n, '0xA'),
+      );
+    });
+
+    it('OrThrow variants', () => {
+      TestUtils.strictEqual(CVNumberRadixParser.parseAsNumberOrThrow(parser)('0x7F'), 127);
+      TestUtils.throws(() => CVNumberRadixParser.parseAsBigIntOrThrow(parser)('7F'));
+      TestUtils.assertEquals(
+        CVNumberRadixParser.extractAsBigIntOrThrow(parser)('0x7F;'),
+        Tuple.make(127n, '0x7F'),
+      );
+      TestUtils.throws(() => CVNumberRadixParser.extractAsNumberOrThrow(parser)(';'));
+    });
+  });
+
+  describe('With digit group separator', () => {
+    const parseAsNumber = pipe(
+      prefixedHexadecimal,
+      CVNumberRadixFormat.withDigitGroupSeparator('_'),
+      CVNumberRadixParser.fromFormat,
+      CVNumberRadixParser.parseAsNumber,
+    );
+
+    it('Passing', () => {
+      TestUtils.assertSome(parseAsNumber('0xFF_FFFF'), 16_777_215);
+      TestUtils.assertSome(parseAsNumber('0xF'), 15);
+    });
+
+    it('Not passing', () => {
+      TestUtils.assertNone(parseAsNumber('0xFFFFF'));
+      TestUtils.assertNone(parseAsNumber('0xFF_FFF'));
+    });
+  });
+
+  describe('With padding', () => {
+    const parseAsNumber = pipe(
+      hexadecimal,
+      CVNumberRadixFormat.zeroPadded(4),
+      CVNumberRadixParser.fromFormat,
+      CVNumberRadixParser.parseAsNumber,
+    );
+
+    it('Passing', () => {
+      TestUtils.assertSome(parseAsNumber('00FF'), 255);
+    });
+
+    it('Not passing', () => {
+      TestUtils.assertNone(parseAsNumber('FF'));
+      TestUtils.assertNone(parseAsNumber('000FF'));
+    });
+  });
+
+  it('Binary', () => {
+    const parseAsNumber = pipe(
+      prefixedBinary,
+      CVNumberRadixParser.fromFormat,
+      CVNumberRadixParser.parseAsNumber,
+    );
+    TestUtils.assertSome(parseAsNumber('0b1010'), 10);
+    TestUtils.assertSome(parseAsNumber('0B11'), 3);
+    TestUtils.assertNone(parseAsNumber('0b102'));
+  });
+});
@@ -0,0 +1,66 @@
+import { pipe } from 'effect';
+import * as Array from 'effect/Array';
+import * as Option from 'effect/Option';
+
+import * as TestUtils from '@parischap/configs/TestUtils';
+import * as CVOrdinalSuffixes from '@parischap/conversions/CVOrdinalSuffixes';
+
+import { describe, it } from 'vitest';
+
+describe('CVOrdinalSuffixes', () => {
+  it('moduleTag', () => {
+    TestUtils.assertEquals(
+      Option.some(CVOrdinalSuffixes.moduleTag),
+      TestUtils.moduleTagFromTestFilePath(import.meta.filename),
+    );
+  });
+
+  it('.toString()', () => {
+    TestUtils.strictEqual(CVOrdinalSuffixes.english.toString(), 'English');
+  });
+
+  it('english', () => {
+    TestUtils.assertEquals(
+      pipe(
+        [1, 2, 3, 4, 11, 12, 13, 21, 22, 23, 101, 111, 112],
+        Array.map(CVOrdinalSuffixes.english.suffix),
+      ),
+      ['st', 'nd', 'rd', 'th', 'th', 'th', 'th', 'st', 'nd', 'rd', 'st', 'th', 'th'],
+    );
+  });
+
+  it('french', () => {
+    TestUtils.assertEquals(pipe([1, 2, 21], Array.map(CVOrdinalSuffixes.french.suffix)), [
+      'er',
+      'e',
+      'e',
+    ]);
+  });
+
+  it('frenchMonthDay', () => {
+    TestUtils.assertEquals(pipe([1, 2, 31], Array.map(CVOrdinalSuffixes.frenchMonthDay.suffix)), [
+      'er',
+      '',
+      '',
+    ]);
+  });
+
+  describe('fromLocale', () => {
+    it('Handled languages', () => {
+      TestUtils.assertSome(CVOrdinalSuffixes.fromLocale('en-US'), CVOrdinalSuffixes.english);
+      TestUtils.assertSome(CVOrdinalSuffixes.fromLocale('fr-FR'), CVOrdinalSuffixes.french);
+      TestUtils.assertSome(
+        CVOrdinalSuffixes.fromLocale('fr-CA', true),
+        CVOrdinalSuffixes.frenchMonthDay,
+      );
+    });
+
+    it('Unhandled language', () => {
+      TestUtils.assertNone(CVOrdinalSuffixes.fromLocale('de-DE'));
+    });
+
+    it('Invalid locale', () => {
+      TestUtils.assertNone(CVOrdinalSuffixes.fromLocale('?'));
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import * as Option from 'effect/Option';
+
+import * as TestUtils from '@parischap/configs/TestUtils';
+import * as CVRelativeTimeFormatContext from '@parischap/conversions/CVRelativeTimeFormatContext';
+
+import { describe, it } from 'vitest';
+
+describe('CVRelativeTimeFormatContext', () => {
+  const { enGB } = CVRelativeTimeFormatContext;
+
+  describe('Tag, .toString()', () => {
+    it('moduleTag', () => {
+      TestUtils.assertEquals(
+        Option.some(CVRelativeTimeFormatContext.moduleTag),
+        TestUtils.moduleTagFromTestFilePath(import.meta.filename),
+      );
+    });
+
+    it('.toString()', () => {
+      TestUtils.strictEqual(enGB.toString(), 'en-GB');
+      TestUtils.strictEqual(
+        CVRelativeTimeFormatContext.fromLocaleOrThrow('fr-FR', {
+          style: 'short',
+          numeric: 'auto',
+        }).toString(),
+        'fr-FR (short, auto)',
+      );
+    });
+  });
+
+  describe('fromLocale', () => {
+    it('Invalid locale', () => {
+      TestUtils.assertNone(CVRelativeTimeFormatContext.fromLocale('12'));
+    });
+
+    it('en-GB', () => {
+      TestUtils.strictEqual(enGB.format(-3, 'day'), '3 days ago');
+      TestUtils.strictEqual(enGB.groupSeparator, ',');
+      TestUtils.assertTrue(
+        enGB.patterns.some(
+          ({ unit, isPast, prefix, suffix }) =>
+            unit === 'hour' && !isPast && prefix === 'in ' && suffix === ' hours',
+        ),
+      );
+      TestUtils.strictEqual(enGB.phrases.length, 0);
+    });
+
+    it('fr-FR with numeric auto', () => {
+      const frFR = CVRelativeTimeFormatContext.fromLocaleOrThrow('fr-FR', { numeric: 'auto' });
+      TestUtils.strictEqual(frFR.format(-1, 'day'), 'hier');
+      TestUtils.assertTrue(
+        frFR.phrases.some(
+          ({ unit, value, text }) => unit === 'day' && value === 2 && text === 'après-demain',
+        ),
+      );
+    });
+  });
+});
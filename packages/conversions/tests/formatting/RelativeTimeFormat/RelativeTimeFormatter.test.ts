@@ -0,0 +1,98 @@
+import * as Option from 'effect/Option';
+
+import * as TestUtils from '@parischap/configs/TestUtils';
+import * as CVDateTime from '@parischap/conversions/CVDateTime';
+import * as CVDuration from '@parischap/conversions/CVDuration';
+import * as CVPeriod from '@parischap/conversions/CVPeriod';
+import * as CVRelativeTimeFormatContext from '@parischap/conversions/CVRelativeTimeFormatContext';
+import * as CVRelativeTimeFormatter from '@parischap/conversions/CVRelativeTimeFormatter';
+
+import { describe, it } from 'vitest';
+
+describe('CVRelativeTimeFormatter', () => {
+  const enGBFormatter = CVRelativeTimeFormatter.make({
+    context: CVRelativeTimeFormatContext.enGB,
+  });
+  const reference = CVDateTime.fromPartsOrThrow({
+    year: 2024,
+    month: 3,
+    monthDay: 15,
+    hour23: 12,
+    zoneOffset: 0,
+  });
+  const format = CVRelativeTimeFormatter.format(enGBFormatter)(reference);
+  const offsetBy = (duration: Parameters<typeof CVDuration.make>[0]) =>
+    CVDuration.addToDateTimeOrThrow(CVDuration.make(duration))(reference);
+
+  describe('Tag, .toString()', () => {
+    it('moduleTag', () => {
+      TestUtils.assertEquals(
+        Option.some(CVRelativeTimeFormatter.moduleTag),
+        TestUtils.moduleTagFromTestFilePath(import.meta.filename),
+      );
+    });
+
+    it('.toString()', () => {
+      TestUtils.strictEqual(enGBFormatter.toString(), "relative time formatter in 'en-GB' context");
+    });
+  });
+
+  describe('format with default thresholds', () => {
+    it('Seconds', () => {
+      TestUtils.strictEqual(format(reference), 'in 0 seconds');
+      TestUtils.strictEqual(format(offsetBy({ milliseconds: -500 })), '0 seconds ago');
+      TestUtils.strictEqual(format(offsetBy({ seconds: 59, milliseconds: 999 })), 'in 59 seconds');
+    });
+
+    it('Minutes and hours', () => {
+      TestUtils.strictEqual(format(offsetBy({ seconds: -60 })), '1 minute ago');
+      TestUtils.strictEqual(format(offsetBy({ hours: 2, minutes: 59 })), 'in 2 hours');
+    });
+
+    it('Days and weeks', () => {
+      TestUtils.strictEqual(format(offsetBy({ days: -3, hours: -23 })), '3 days ago');
+      TestUtils.strictEqual(format(offsetBy({ days: 13 })), 'in 1 week');
+      TestUtils.strictEqual(format(offsetBy({ weeks: -4 })), '4 weeks ago');
+    });
+
+    it('Months and years', () => {
+      TestUtils.strictEqual(format(offsetBy({ days: 31 })), 'in 1 month');
+      TestUtils.strictEqual(
+        format(
+          CVPeriod.addToDateTimeOrThrow(CVPeriod.fromPartsOrThrow({ months: -11 }))(reference),
+        ),
+        '11 months ago',
+      );
+      TestUtils.strictEqual(
+        format(
+          CVPeriod.addToDateTimeOrThrow(CVPeriod.fromPartsOrThrow({ years: 3, months: 11 }))(
+            reference,
+          ),
+        ),
+        'in 3 years',
+      );
+    });
+  });
+
+  describe('format with custom thresholds', () => {
+    it('Disabled weeks, more days and hours', () => {
+      const formatter = CVRelativeTimeFormatter.make({
+        context: CVRelativeTimeFormatContext.enGB,
+        thresholds: { hour: 48, week: 0 },
+      });
+      const customFormat = CVRelativeTimeFormatter.format(formatter)(reference);
+      TestUtils.strictEqual(customFormat(offsetBy({ hours: -36 })), '36 hours ago');
+      TestUtils.strictEqual(customFormat(offsetBy({ days: 20 })), 'in 20 days');
+    });
+
+    it('Localized', () => {
+      const formatter = CVRelativeTimeFormatter.make({
+        context: CVRelativeTimeFormatContext.fromLocaleOrThrow('fr-FR', { numeric: 'auto' }),
+      });
+      TestUtils.strictEqual(
+        CVRelativeTimeFormatter.format(formatter)(reference)(offsetBy({ days: -1 })),
+        'hier',
+      );
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { pipe } from 'effect';
+import * as Option from 'effect/Option';
+import * as Result from 'effect/Result';
+
+import * as TestUtils from '@parischap/configs/TestUtils';
+import * as CVDateTime from '@parischap/conversions/CVDateTime';
+import * as CVDuration from '@parischap/conversions/CVDuration';
+import * as CVRelativeTimeFormatContext from '@parischap/conversions/CVRelativeTimeFormatContext';
+import * as CVRelativeTimeFormatter from '@parischap/conversions/CVRelativeTimeFormatter';
+import * as CVRelativeTimeParser from '@parischap/conversions/CVRelativeTimeParser';
+
+import { describe, it } from 'vitest';
+
+describe('CVRelativeTimeParser', () => {
+  const enGBParser = CVRelativeTimeParser.make({ context: CVRelativeTimeFormatContext.enGB });
+  const reference = CVDateTime.fromPartsOrThrow({
+    year: 2024,
+    month: 1,
+    monthDay: 31,
+    hour23: 12,
+    zoneOffset: 0,
+  });
+  const parse = CVRelativeTimeParser.parse(enGBParser)(reference);
+  const parseToTimestamp = (text: string) => pipe(text, parse, Result.map(CVDateTime.timestamp));
+
+  describe('Tag, .toString()', () => {
+    it('moduleTag', () => {
+      TestUtils.assertEquals(
+        Option.some(CVRelativeTimeParser.moduleTag),
+        TestUtils.moduleTagFromTestFilePath(import.meta.filename),
+      );
+    });
+
+    it('.toString()', () => {
+      TestUtils.strictEqual(enGBParser.toString(), "relative time parser in 'en-GB' context");
+    });
+  });
+
+  describe('parse', () => {
+    it('Non-matching', () => {
+      TestUtils.assertFailureMessage(
+        parse('3 days later'),
+        "'3 days later' is not a relative time in 'en-GB' context",
+      );
+      TestUtils.assertFailure(parse('in  days'));
+      TestUtils.assertFailure(parse('in 3.5 days'));
+    });
+
+    it('Exact units', () => {
+      TestUtils.assertSuccess(
+        parseToTimestamp('3 days ago'),
+        CVDateTime.timestamp(reference) - 3 * 86_400_000,
+      );
+      TestUtils.assertSuccess(
+        parseToTimestamp('in 1 hour'),
+        CVDateTime.timestamp(reference) + 3_600_000,
+      );
+      TestUtils.assertSuccess(
+        parseToTimestamp('in 1,000 seconds'),
+        CVDateTime.timestamp(reference) + 1_000_000,
+      );
+    });
+
+    it('Calendar units', () => {
+      TestUtils.assertSuccess(
+        parseToTimestamp('in 1 month'),
+        CVDateTime.timestamp(
+          CVDateTime.fromPartsOrThrow({
+            year: 2024,
+            month: 2,
+            monthDay: 29,
+            hour23: 12,
+            zoneOffset: 0,
+          }),
+        ),
+      );
+      TestUtils.assertSuccess(
+        parseToTimestamp('2 years ago'),
+        CVDateTime.timestamp(
+          CVDateTime.fromPartsOrThrow({
+            year: 2022,
+            month: 1,
+            monthDay: 31,
+            hour23: 12,
+            zoneOffset: 0,
+          }),
+        ),
+      );
+    });
+
+    it('Phrases', () => {
+      const frParser = CVRelativeTimeParser.make({
+        context: CVRelativeTimeFormatContext.fromLocaleOrThrow('fr-FR', { numeric: 'auto' }),
+      });
+      TestUtils.assertSuccess(
+        pipe(
+          'avant-hier',
+          CVRelativeTimeParser.parse(frParser)(reference),
+          Result.map(CVDateTime.timestamp),
+        ),
+        CVDateTime.timestamp(reference) - 2 * 86_400_000,
+      );
+      TestUtils.assertSuccess(
+        pipe(
+          'il y a 3 semaines',
+          CVRelativeTimeParser.parse(frParser)(reference),
+          Result.map(CVDateTime.timestamp),
+        ),
+        CVDateTime.timestamp(reference) - 21 * 86_400_000,
+      );
+    });
+
+    it('Round trip with the formatter', () => {
+      const format = CVRelativeTimeFormatter.format(
+        CVRelativeTimeFormatter.make({ context: CVRelativeTimeFormatContext.enGB }),
+      )(reference);
+      const dateTime = CVDuration.addToDateTimeOrThrow(CVDuration.make({ hours: -5 }))(reference);
+      TestUtils.assertSuccess(
+        pipe(dateTime, format, parse, Result.map(CVDateTime.timestamp)),
+        CVDateTime.timestamp(dateTime),
+      );
+    });
+  });
+
+  it('parseOrThrow', () => {
+    TestUtils.throws(() => CVRelativeTimeParser.parseOrThrow(enGBParser)(reference)('soon'));
+  });
+});
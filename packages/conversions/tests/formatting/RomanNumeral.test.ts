@@ -0,0 +1,68 @@
+import { pipe } from 'effect';
+import * as Option from 'effect/Option';
+import * as Tuple from 'effect/Tuple';
+
+import * as TestUtils from '@parischap/configs/TestUtils';
+import * as CVRomanNumeral from '@parischap/conversions/CVRomanNumeral';
+
+import { describe, it } from 'vitest';
+
+describe('CVRomanNumeral', () => {
+  it('moduleTag', () => {
+    TestUtils.assertEquals(
+      Option.some(CVRomanNumeral.moduleTag),
+      TestUtils.moduleTagFromTestFilePath(import.meta.filename),
+    );
+  });
+
+  describe('fromNumber', () => {
+    it('Values in range', () => {
+      TestUtils.assertSome(CVRomanNumeral.fromNumber(1), 'I');
+      TestUtils.assertSome(CVRomanNumeral.fromNumber(14), 'XIV');
+      TestUtils.assertSome(CVRomanNumeral.fromNumber(1994), 'MCMXCIV');
+      TestUtils.assertSome(CVRomanNumeral.fromNumber(3999), 'MMMCMXCIX');
+    });
+
+    it('Values out of range', () => {
+      TestUtils.assertNone(CVRomanNumeral.fromNumber(0));
+      TestUtils.assertNone(CVRomanNumeral.fromNumber(4000));
+      TestUtils.assertNone(CVRomanNumeral.fromNumber(1.5));
+    });
+
+    it('fromNumberOrThrow', () => {
+      TestUtils.throws(() => CVRomanNumeral.fromNumberOrThrow(-3));
+    });
+  });
+
+  describe('extract', () => {
+    it('Canonical Roman numeral followed by text', () => {
+      TestUtils.assertSome(CVRomanNumeral.extract('XIV. Chapter'), Tuple.make(14, 'XIV'));
+    });
+
+    it('Non-canonical Roman numerals', () => {
+      TestUtils.assertNone(CVRomanNumeral.extract('IIII'));
+      TestUtils.assertNone(CVRomanNumeral.extract('VX'));
+      TestUtils.assertNone(CVRomanNumeral.extract('IC'));
+    });
+
+    it('No Roman numeral', () => {
+      TestUtils.assertNone(CVRomanNumeral.extract('Book'));
+    });
+  });
+
+  describe('parse', () => {
+    it('Round trip', () => {
+      for (let n = CVRomanNumeral.MIN_VALUE; n <= CVRomanNumeral.MAX_VALUE; n++)
+        TestUtils.assertSome(pipe(n, CVRomanNumeral.fromNumberOrThrow, CVRomanNumeral.parse), n);
+    });
+
+    it('Trailing characters', () => {
+      TestUtils.assertNone(CVRomanNumeral.parse('XIV '));
+    });
+
+    it('parseOrThrow', () => {
+      TestUtils.strictEqual(CVRomanNumeral.parseOrThrow('MMXXVI'), 2026);
+      TestUtils.throws(() => CVRomanNumeral.parseOrThrow('MMXXVIIII'));
+    });
+  });
+});
@@ -1,8 +1,11 @@
+import { pipe } from 'effect';
 import * as BigDecimal from 'effect/BigDecimal';
 import * as DateTime from 'effect/DateTime';
+import * as Result from 'effect/Result';
 import * as Schema from 'effect/Schema';
 
 import * as TestUtils from '@parischap/configs/TestUtils';
+import * as CVCurrencyFormat from '@parischap/conversions/CVCurrencyFormat';
 import * as CVDateTime from '@parischap/conversions/CVDateTime';
 import * as CVDateTimeFormat from '@parischap/conversions/CVDateTimeFormat';
 import * as CVDateTimeFormatContext from '@parischap/conversions/CVDateTimeFormatContext';
@@ -10,8 +13,14 @@ import * as CVDateTimeFormatPlaceholder from '@parischap/conversions/CVDateTimeF
 import * as CVDateTimeFormatSeparator from '@parischap/conversions/CVDateTimeFormatSeparator';
 import * as CVDateTimeFormatter from '@parischap/conversions/CVDateTimeFormatter';
 import * as CVDateTimeParser from '@parischap/conversions/CVDateTimeParser';
+import * as CVDuration from '@parischap/conversions/CVDuration';
 import * as CVNumberBase10Format from '@parischap/conversions/CVNumberBase10Format';
+import * as CVNumberRadixFormat from '@parischap/conversions/CVNumberRadixFormat';
+import * as CVPeriod from '@parischap/conversions/CVPeriod';
 import * as CVSchema from '@parischap/conversions/CVSchema';
+import * as CVTemplate from '@parischap/conversions/CVTemplate';
+import * as CVTemplatePlaceholder from '@parischap/conversions/CVTemplatePlaceholder';
+import * as CVTemplateSeparator from '@parischap/conversions/CVTemplateSeparator';
 
 import { describe, it } from 'vitest';
 
@@ -25,6 +34,12 @@ describe('CVSchema', () => {
       it('Not passing', () => {
         TestUtils.assertFailedExit(decoder(''));
       });
+      it('Issue', () => {
+        TestUtils.assertFailure(
+          pipe('1 024,56 €', Schema.decodeResult(schema), Result.mapError(String)),
+          "potentially signed French-style number parser: '1 024,56 €' could not be parsed from offset 8",
+        );
+      });
       it('Passing', () => {
         TestUtils.assertSuccessExit(decoder(targetAsString), target);
       });
@@ -54,6 +69,78 @@ describe('CVSchema', () => {
     });
   });
 
+  describe('IntFromRadixString', () => {
+    const schema = CVSchema.IntFromRadixString(CVNumberRadixFormat.prefixedHexadecimal);
+    const target = 1024;
+    const targetAsString = '0x400';
+    describe('Decoding', () => {
+      const decoder = Schema.decodeExit(schema);
+      it('Not passing', () => {
+        TestUtils.assertFailedExit(decoder('400'));
+      });
+      it('Passing', () => {
+        TestUtils.assertSuccessExit(decoder(targetAsString), target);
+      });
+    });
+    describe('Encoding', () => {
+      const encoder = Schema.encodeExit(schema);
+      it('Not passing', () => {
+        TestUtils.assertFailedExit(encoder(10.5));
+      });
+      it('Passing', () => {
+        TestUtils.assertSuccessExit(encoder(target), targetAsString);
+      });
+    });
+  });
+
+  describe('BigIntFromRadixString', () => {
+    const schema = CVSchema.BigIntFromRadixString(
+      pipe(
+        CVNumberRadixFormat.prefixedHexadecimal,
+        CVNumberRadixFormat.withDigitGroupSeparator('_'),
+      ),
+    );
+    const target = 2n ** 64n;
+    const targetAsString = '0x1_0000_0000_0000_0000';
+    describe('Decoding', () => {
+      const decoder = Schema.decodeExit(schema);
+      it('Not passing', () => {
+        TestUtils.assertFailedExit(decoder('0x10000000000000000'));
+      });
+      it('Passing', () => {
+        TestUtils.assertSuccessExit(decoder(targetAsString), target);
+      });
+    });
+    it('Encoding', () => {
+      const encoder = Schema.encodeExit(schema);
+      TestUtils.assertSuccessExit(encoder(target), targetAsString);
+    });
+  });
+
+  describe('AmountFromString', () => {
+    const schema = CVSchema.AmountFromString(CVCurrencyFormat.frenchStyleAmount);
+    const target = { amount: BigDecimal.make(-123_450n, 2), currency: 'EUR' };
+    const targetAsString = '-1 234,50 €';
+    describe('Decoding', () => {
+      const decoder = Schema.decodeExit(schema);
+      it('Not passing', () => {
+        TestUtils.assertFailedExit(decoder('-1 234,5 €'));
+      });
+      it('Passing', () => {
+        TestUtils.assertSuccessExit(decoder(targetAsString), target);
+      });
+    });
+    describe('Encoding', () => {
+      const encoder = Schema.encodeExit(schema);
+      it('Not passing', () => {
+        TestUtils.assertFailedExit(encoder({ amount: BigDecimal.make(12n, 0), currency: 'CAD' }));
+      });
+      it('Passing', () => {
+        TestUtils.assertSuccessExit(encoder(target), targetAsString);
+      });
+    });
+  });
+
   describe('CVDateTime', () => {
     const target = CVDateTime.fromTimestampOrThrow(0);
     describe('Decoding', () => {
@@ -147,6 +234,12 @@ describe('CVSchema', () => {
         TestUtils.assertFailedExit(decoder(''));
         TestUtils.assertFailedExit(decoder('2025/12/14'));
       });
+      it('Issue', () => {
+        TestUtils.assertFailure(
+          pipe('25/08/2025 10h24', Schema.decodeResult(schema), Result.mapError(String)),
+          "Expected remaining text for separator at position 8 to start with ':'. Actual: 'h24'",
+        );
+      });
       it('Passing', () => {
         TestUtils.assertSuccessExit(decoder(targetAsString), target);
       });
@@ -164,4 +257,191 @@ describe('CVSchema', () => {
       });
     });
   });
+
+  describe('CVDateTimeFromRfc3339String', () => {
+    const target = CVDateTime.fromPartsOrThrow({
+      year: 2005,
+      month: 6,
+      monthDay: 5,
+      hour23: 14,
+      minute: 5,
+      second: 5,
+      millisecond: 7,
+      zoneHour: -5,
+      zoneMinute: 30,
+    });
+    const targetAsString = '2005-06-05T14:05:05.007-05:30';
+    describe('Decoding', () => {
+      const decoder = Schema.decodeExit(CVSchema.CVDateTimeFromRfc3339String);
+      it('Not passing', () => {
+        TestUtils.assertFailedExit(decoder('2005-06-05T14:05:05.007'));
+      });
+      it('Passing', () => {
+        TestUtils.assertSuccessExit(decoder(targetAsString), target);
+        TestUtils.assertSuccessExit(
+          decoder('2005-06-05T14:05:05.007Z'),
+          CVDateTime.setZoneOffsetKeepPartsOrThrow(0)(target),
+        );
+      });
+    });
+    it('Encoding', () => {
+      const encoder = Schema.encodeExit(CVSchema.CVDateTimeFromRfc3339String);
+      TestUtils.assertSuccessExit(encoder(target), targetAsString);
+    });
+  });
+
+  describe('CVDateTimeFromRfc2822String', () => {
+    const target = CVDateTime.fromPartsOrThrow({
+      year: 2003,
+      month: 7,
+      monthDay: 1,
+      hour23: 10,
+      minute: 52,
+      second: 37,
+      zoneOffset: 2,
+    });
+    const targetAsString = 'Tue, 1 Jul 2003 10:52:37 +0200';
+    it('Decoding', () => {
+      TestUtils.assertSuccessExit(
+        Schema.decodeExit(CVSchema.CVDateTimeFromRfc2822String)(targetAsString),
+        target,
+      );
+    });
+    it('Encoding', () => {
+      TestUtils.assertSuccessExit(
+        Schema.encodeExit(CVSchema.CVDateTimeFromRfc2822String)(target),
+        targetAsString,
+      );
+    });
+  });
+
+  describe('CVDateTimeFromImfFixdateString', () => {
+    const target = CVDateTime.fromPartsOrThrow({
+      year: 1994,
+      month: 11,
+      monthDay: 6,
+      hour23: 8,
+      minute: 49,
+      second: 37,
+      zoneOffset: 0,
+    });
+    const targetAsString = 'Sun, 06 Nov 1994 08:49:37 GMT';
+    it('Decoding', () => {
+      TestUtils.assertSuccessExit(
+        Schema.decodeExit(CVSchema.CVDateTimeFromImfFixdateString)(targetAsString),
+        target,
+      );
+    });
+    describe('Encoding', () => {
+      const encoder = Schema.encodeExit(CVSchema.CVDateTimeFromImfFixdateString);
+      it('Not passing', () => {
+        TestUtils.assertFailedExit(
+          encoder(CVDateTime.setZoneOffsetKeepTimestampOrThrow(1)(target)),
+        );
+      });
+      it('Passing', () => {
+        TestUtils.assertSuccessExit(encoder(target), targetAsString);
+      });
+    });
+  });
+
+  describe('CVDateTimeFromCommonLogFormatString', () => {
+    const target = CVDateTime.fromPartsOrThrow({
+      year: 2000,
+      month: 10,
+      monthDay: 10,
+      hour23: 13,
+      minute: 55,
+      second: 36,
+      zoneOffset: -7,
+    });
+    const targetAsString = '10/Oct/2000:13:55:36 -0700';
+    it('Decoding', () => {
+      TestUtils.assertSuccessExit(
+        Schema.decodeExit(CVSchema.CVDateTimeFromCommonLogFormatString)(targetAsString),
+        target,
+      );
+    });
+    it('Encoding', () => {
+      TestUtils.assertSuccessExit(
+        Schema.encodeExit(CVSchema.CVDateTimeFromCommonLogFormatString)(target),
+        targetAsString,
+      );
+    });
+  });
+
+  describe('Template', () => {
+    const schema = CVSchema.Template(
+      CVTemplate.make(
+        CVTemplatePlaceholder.fixedLength({ name: 'code', length: 3 }),
+        CVTemplateSeparator.colon,
+        CVTemplatePlaceholder.number({
+          name: 'quantity',
+          numberBase10Format: CVNumberBase10Format.integer,
+        }),
+      ),
+    );
+    const decode = Schema.decodeResult(schema);
+
+    describe('Decoding', () => {
+      it('Placeholder failure', () => {
+        TestUtils.assertFailure(
+          pipe('abc:x', decode, Result.mapError(String)),
+          '#quantity contains \'x\' from the start of which a(n) potentially signed integer could not be extracted\n  at ["quantity"]',
+        );
+      });
+      it('Separator failure', () => {
+        TestUtils.assertFailure(
+          pipe('abc-1', decode, Result.mapError(String)),
+          "Expected remaining text for separator at position 2 to start with ':'. Actual: '-1'",
+        );
+      });
+      it('Passing', () => {
+        TestUtils.assertSuccess(decode('abc:12'), { code: 'abc', quantity: 12 });
+      });
+    });
+
+    it('Encoding', () => {
+      TestUtils.assertFailure(
+        pipe({ code: 'abcd', quantity: 12 }, Schema.encodeResult(schema), Result.mapError(String)),
+        'Expected length of #code to be: 3. Actual: 4',
+      );
+    });
+  });
+
+  describe('CVDurationFromString', () => {
+    const target = CVDuration.make({ hours: 76, minutes: 3, seconds: 2, milliseconds: 500 });
+    const targetAsString = 'PT76H3M2.5S';
+    describe('Decoding', () => {
+      const decoder = Schema.decodeExit(CVSchema.CVDurationFromString);
+      it('Not passing', () => {
+        TestUtils.assertFailedExit(decoder('P1Y'));
+      });
+      it('Passing', () => {
+        TestUtils.assertSuccessExit(decoder(targetAsString), target);
+      });
+    });
+    it('Encoding', () => {
+      const encoder = Schema.encodeExit(CVSchema.CVDurationFromString);
+      TestUtils.assertSuccessExit(encoder(target), targetAsString);
+    });
+  });
+
+  describe('CVPeriodFromString', () => {
+    const target = CVPeriod.fromPartsOrThrow({ months: 3, days: 2, hours: 4 });
+    const targetAsString = 'P3M2DT4H';
+    describe('Decoding', () => {
+      const decoder = Schema.decodeExit(CVSchema.CVPeriodFromString);
+      it('Not passing', () => {
+        TestUtils.assertFailedExit(decoder('P'));
+      });
+      it('Passing', () => {
+        TestUtils.assertSuccessExit(decoder(targetAsString), target);
+      });
+    });
+    it('Encoding', () => {
+      const encoder = Schema.encodeExit(CVSchema.CVPeriodFromString);
+      TestUtils.assertSuccessExit(encoder(target), targetAsString);
+    });
+  });
 });
@@ -0,0 +1,152 @@
+import { pipe } from 'effect';
+import * as BigDecimal from 'effect/BigDecimal';
+import * as Option from 'effect/Option';
+
+import * as TestUtils from '@parischap/configs/TestUtils';
+import * as CVSpellOutFormatter from '@parischap/conversions/CVSpellOutFormatter';
+import * as CVSpellOutRuleSet from '@parischap/conversions/CVSpellOutRuleSet';
+
+import { describe, it } from 'vitest';
+
+describe('CVSpellOutFormatter', () => {
+  const englishFormatter = CVSpellOutFormatter.fromRuleSet(CVSpellOutRuleSet.english);
+  const frenchFormatter = CVSpellOutFormatter.fromRuleSet(CVSpellOutRuleSet.french);
+
+  describe('moduleTag and .toString()', () => {
+    it('moduleTag', () => {
+      TestUtils.assertEquals(
+        Option.some(CVSpellOutFormatter.moduleTag),
+        TestUtils.moduleTagFromTestFilePath(import.meta.filename),
+      );
+    });
+
+    it('.toString()', () => {
+      TestUtils.strictEqual(englishFormatter.toString(), 'English spell-out formatter');
+    });
+  });
+
+  describe('formatCardinal', () => {
+    it('english', () => {
+      const formatter = CVSpellOutFormatter.formatCardinal(englishFormatter);
+      TestUtils.assertSome(formatter(0), 'zero');
+      TestUtils.assertSome(formatter(13), 'thirteen');
+      TestUtils.assertSome(formatter(40), 'forty');
+      TestUtils.assertSome(formatter(-21), 'minus twenty-one');
+      TestUtils.assertSome(formatter(105), 'one hundred and five');
+      TestUtils.assertSome(formatter(1005), 'one thousand and five');
+      TestUtils.assertSome(formatter(1234), 'one thousand two hundred and thirty-four');
+      TestUtils.assertSome(formatter(2_000_300), 'two million three hundred');
+      TestUtils.assertSome(formatter(10n ** 20n), 'one hundred quintillion');
+      TestUtils.assertNone(formatter(10n ** 21n));
+      TestUtils.assertNone(formatter(1.5));
+      TestUtils.assertNone(formatter(Number.NaN));
+    });
+
+    it('french', () => {
+      const formatter = CVSpellOutFormatter.formatCardinal(frenchFormatter);
+      TestUtils.assertSome(formatter(17), 'dix-sept');
+      TestUtils.assertSome(formatter(21), 'vingt et un');
+      TestUtils.assertSome(formatter(71), 'soixante et onze');
+      TestUtils.assertSome(formatter(77), 'soixante-dix-sept');
+      TestUtils.assertSome(formatter(80), 'quatre-vingts');
+      TestUtils.assertSome(formatter(81), 'quatre-vingt-un');
+      TestUtils.assertSome(formatter(91), 'quatre-vingt-onze');
+      TestUtils.assertSome(formatter(200), 'deux cents');
+      TestUtils.assertSome(formatter(201), 'deux cent un');
+      TestUtils.assertSome(formatter(1000), 'mille');
+      TestUtils.assertSome(formatter(80_000), 'quatre-vingt mille');
+      TestUtils.assertSome(formatter(200_000), 'deux cent mille');
+      TestUtils.assertSome(formatter(80_000_000), 'quatre-vingts millions');
+      TestUtils.assertSome(formatter(1_001_000_000), 'un milliard un million');
+    });
+  });
+
+  describe('formatOrdinal', () => {
+    it('english', () => {
+      const formatter = CVSpellOutFormatter.formatOrdinal(englishFormatter);
+      TestUtils.assertSome(formatter(1), 'first');
+      TestUtils.assertSome(formatter(21), 'twenty-first');
+      TestUtils.assertSome(formatter(90), 'ninetieth');
+      TestUtils.assertSome(formatter(1000n), 'one thousandth');
+      TestUtils.assertNone(formatter(0));
+      TestUtils.assertNone(formatter(-3));
+    });
+
+    it('french', () => {
+      const formatter = CVSpellOutFormatter.formatOrdinal(frenchFormatter);
+      TestUtils.assertSome(formatter(1), 'premier');
+      TestUtils.assertSome(formatter(21), 'vingt et unième');
+      TestUtils.assertSome(formatter(101), 'cent unième');
+      TestUtils.assertSome(formatter(99), 'quatre-vingt-dix-neuvième');
+    });
+  });
+
+  describe('formatAmount', () => {
+    it('english', () => {
+      const formatter = CVSpellOutFormatter.formatAmount(englishFormatter);
+      TestUtils.assertSome(
+        formatter({ amount: BigDecimal.make(123_450n, 2), currency: 'EUR' }),
+        'one thousand two hundred and thirty-four euros and fifty cents',
+      );
+      TestUtils.assertSome(
+        formatter({ amount: BigDecimal.make(1n, 0), currency: 'GBP' }),
+        'one pound',
+      );
+      TestUtils.assertSome(
+        formatter({ amount: BigDecimal.make(-1n, 2), currency: 'GBP' }),
+        'minus one penny',
+      );
+      TestUtils.assertSome(
+        formatter({ amount: BigDecimal.make(0n, 0), currency: 'USD' }),
+        'zero dollars',
+      );
+      TestUtils.assertSome(
+        formatter({ amount: BigDecimal.make(12_345n, 3), currency: 'USD' }),
+        'twelve dollars and thirty-five cents',
+      );
+      TestUtils.assertNone(formatter({ amount: BigDecimal.make(1n, 0), currency: 'JPY' }));
+    });
+
+    it('french', () => {
+      const formatter = CVSpellOutFormatter.formatAmount(frenchFormatter);
+      TestUtils.assertSome(
+        formatter({ amount: BigDecimal.make(123_450n, 2), currency: 'EUR' }),
+        'mille deux cent trente-quatre euros et cinquante centimes',
+      );
+      TestUtils.assertSome(
+        formatter({ amount: BigDecimal.make(0n, 0), currency: 'EUR' }),
+        'zéro euro',
+      );
+      TestUtils.assertSome(
+        formatter({ amount: BigDecimal.make(1_000_000n, 0), currency: 'EUR' }),
+        "un million d'euros",
+      );
+      TestUtils.assertSome(
+        formatter({ amount: BigDecimal.make(2_000_000n, 0), currency: 'USD' }),
+        'deux millions de dollars',
+      );
+    });
+  });
+
+  it('Custom rule set', () => {
+    // American English does not write 'and' after 'hundred'
+    const { english } = CVSpellOutRuleSet;
+    const americanEnglish = CVSpellOutRuleSet.make({
+      name: 'American English',
+      zeroWord: english.zeroWord,
+      minusWord: english.minusWord,
+      groupWords: (params) => english.groupWords(params).replace('and ', ''),
+      scaleNouns: english.scaleNouns,
+      ordinalWord: english.ordinalWord,
+      quantity: english.quantity,
+      amountConnector: english.amountConnector,
+      currencyNames: english.currencyNames,
+    });
+    const formatter = pipe(
+      americanEnglish,
+      CVSpellOutFormatter.fromRuleSet,
+      CVSpellOutFormatter.formatCardinal,
+    );
+    TestUtils.assertSome(formatter(1234), 'one thousand two hundred thirty-four');
+  });
+});
@@ -0,0 +1,145 @@
+import { pipe } from 'effect';
+import * as BigDecimal from 'effect/BigDecimal';
+import * as Option from 'effect/Option';
+import * as Tuple from 'effect/Tuple';
+
+import * as TestUtils from '@parischap/configs/TestUtils';
+import * as CVSpellOutFormatter from '@parischap/conversions/CVSpellOutFormatter';
+import * as CVSpellOutParser from '@parischap/conversions/CVSpellOutParser';
+import * as CVSpellOutRuleSet from '@parischap/conversions/CVSpellOutRuleSet';
+
+import { describe, it } from 'vitest';
+
+describe('CVSpellOutParser', () => {
+  const englishParser = CVSpellOutParser.fromRuleSet(CVSpellOutRuleSet.english);
+  const frenchParser = CVSpellOutParser.fromRuleSet(CVSpellOutRuleSet.french);
+
+  describe('moduleTag and .toString()', () => {
+    it('moduleTag', () => {
+      TestUtils.assertEquals(
+        Option.some(CVSpellOutParser.moduleTag),
+        TestUtils.moduleTagFromTestFilePath(import.meta.filename),
+      );
+    });
+
+    it('.toString()', () => {
+      TestUtils.strictEqual(frenchParser.toString(), 'French spell-out parser');
+    });
+  });
+
+  describe('extractCardinal', () => {
+    it('english', () => {
+      const extractor = CVSpellOutParser.extractCardinal(englishParser);
+      TestUtils.assertSome(
+        extractor('one thousand and five apples'),
+        Tuple.make(1005n, 'one thousand and five'),
+      );
+      TestUtils.assertSome(extractor('zero'), Tuple.make(0n, 'zero'));
+      TestUtils.assertSome(
+        extractor('minus twenty-one degrees'),
+        Tuple.make(-21n, 'minus twenty-one'),
+      );
+      TestUtils.assertSome(extractor('ten and more'), Tuple.make(10n, 'ten'));
+      TestUtils.assertNone(extractor('tenth'));
+      TestUtils.assertNone(extractor('zeros'));
+    });
+
+    it('french', () => {
+      const extractor = CVSpellOutParser.extractCardinal(frenchParser);
+      TestUtils.assertSome(extractor('vingt et un ans'), Tuple.make(21n, 'vingt et un'));
+      TestUtils.assertSome(
+        extractor('quatre-vingt mille habitants'),
+        Tuple.make(80_000n, 'quatre-vingt mille'),
+      );
+    });
+  });
+
+  describe('parseCardinal', () => {
+    it('english', () => {
+      const parser = CVSpellOutParser.parseCardinal(englishParser);
+      TestUtils.assertSome(parser('one thousand two hundred and thirty-four'), 1234n);
+      TestUtils.assertSome(parser('one hundred quintillion'), 10n ** 20n);
+      // Non-canonical spellings are rejected
+      TestUtils.assertNone(parser('one thousand five'));
+      TestUtils.assertNone(parser('two hundred thousand thousand'));
+      TestUtils.assertNone(parser('minus zero'));
+    });
+
+    it('french', () => {
+      const parser = CVSpellOutParser.parseCardinal(frenchParser);
+      TestUtils.assertSome(parser('quatre-vingts millions'), 80_000_000n);
+      TestUtils.assertSome(parser('soixante et onze'), 71n);
+      TestUtils.assertNone(parser('quatre-vingt'));
+      TestUtils.assertNone(parser('un mille'));
+    });
+
+    it('Round trip', () => {
+      const formatter = pipe(
+        CVSpellOutRuleSet.french,
+        CVSpellOutFormatter.fromRuleSet,
+        CVSpellOutFormatter.formatCardinalOrThrow,
+      );
+      const parser = CVSpellOutParser.parseCardinalOrThrow(frenchParser);
+      for (const n of [1n, 16n, 70n, 99n, 100n, 180n, 999n, 1001n, 21_080n, 3_000_000_200n])
+        TestUtils.strictEqual(parser(formatter(n)), n);
+    });
+  });
+
+  describe('parseOrdinal', () => {
+    it('english', () => {
+      const parser = CVSpellOutParser.parseOrdinal(englishParser);
+      TestUtils.assertSome(parser('twenty-first'), 21n);
+      TestUtils.assertSome(parser('one hundredth'), 100n);
+      TestUtils.assertSome(parser('one thousand and second'), 1002n);
+      TestUtils.assertNone(parser('twenty-one'));
+    });
+
+    it('french', () => {
+      const parser = CVSpellOutParser.parseOrdinal(frenchParser);
+      TestUtils.assertSome(parser('premier'), 1n);
+      TestUtils.assertSome(parser('vingt et unième'), 21n);
+      TestUtils.assertSome(parser('mille unième'), 1001n);
+      TestUtils.assertNone(parser('unième'));
+      TestUtils.assertNone(parser('vingt et premier'));
+    });
+  });
+
+  describe('extractAmount', () => {
+    it('english', () => {
+      const extractor = CVSpellOutParser.extractAmount(englishParser);
+      TestUtils.assertSome(
+        extractor('one thousand two hundred and thirty-four euros and fifty cents only'),
+        Tuple.make(
+          { amount: BigDecimal.make(123_450n, 2), currency: 'EUR' },
+          'one thousand two hundred and thirty-four euros and fifty cents',
+        ),
+      );
+      TestUtils.assertSome(
+        extractor('five pounds and more'),
+        Tuple.make({ amount: BigDecimal.make(500n, 2), currency: 'GBP' }, 'five pounds'),
+      );
+      TestUtils.assertSome(
+        extractor('minus fifty cents'),
+        Tuple.make({ amount: BigDecimal.make(-50n, 2), currency: 'EUR' }, 'minus fifty cents'),
+      );
+      TestUtils.assertNone(extractor('one euros'));
+      TestUtils.assertNone(extractor('zero euros and fifty cents'));
+      TestUtils.assertNone(extractor('two hundred cents'));
+    });
+  });
+
+  describe('parseAmount', () => {
+    it('french', () => {
+      const parser = CVSpellOutParser.parseAmount(frenchParser);
+      TestUtils.assertSome(parser("un million d'euros"), {
+        amount: BigDecimal.make(100_000_000n, 2),
+        currency: 'EUR',
+      });
+      TestUtils.assertSome(parser('deux francs suisses et un centime'), {
+        amount: BigDecimal.make(201n, 2),
+        currency: 'CHF',
+      });
+      TestUtils.assertNone(parser('un million euros'));
+    });
+  });
+});
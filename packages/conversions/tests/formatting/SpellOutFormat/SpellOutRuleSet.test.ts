@@ -0,0 +1,59 @@
+import { pipe } from 'effect';
+import * as Option from 'effect/Option';
+
+import * as TestUtils from '@parischap/configs/TestUtils';
+import * as CVSpellOutRuleSet from '@parischap/conversions/CVSpellOutRuleSet';
+
+import { describe, it } from 'vitest';
+
+describe('CVSpellOutRuleSet', () => {
+  it('moduleTag', () => {
+    TestUtils.assertEquals(
+      Option.some(CVSpellOutRuleSet.moduleTag),
+      TestUtils.moduleTagFromTestFilePath(import.meta.filename),
+    );
+  });
+
+  it('.toString()', () => {
+    TestUtils.strictEqual(CVSpellOutRuleSet.french.toString(), 'French');
+  });
+
+  describe('currencyNamesFromCode', () => {
+    it('Handled currency', () => {
+      TestUtils.assertSome(
+        pipe(
+          CVSpellOutRuleSet.english,
+          CVSpellOutRuleSet.currencyNamesFromCode('GBP'),
+          Option.map(({ minor }) => minor.plural),
+        ),
+        'pence',
+      );
+    });
+
+    it('Unhandled currency', () => {
+      TestUtils.assertNone(
+        pipe(CVSpellOutRuleSet.english, CVSpellOutRuleSet.currencyNamesFromCode('JPY')),
+      );
+    });
+  });
+
+  describe('toOrdinal', () => {
+    it('english', () => {
+      const toOrdinal = CVSpellOutRuleSet.toOrdinal(CVSpellOutRuleSet.english);
+      TestUtils.strictEqual(toOrdinal('one'), 'first');
+      TestUtils.strictEqual(toOrdinal('twenty-two'), 'twenty-second');
+      TestUtils.strictEqual(toOrdinal('forty'), 'fortieth');
+      TestUtils.strictEqual(toOrdinal('one hundred and twelve'), 'one hundred and twelfth');
+    });
+
+    it('french', () => {
+      const toOrdinal = CVSpellOutRuleSet.toOrdinal(CVSpellOutRuleSet.french);
+      TestUtils.strictEqual(toOrdinal('un'), 'premier');
+      TestUtils.strictEqual(toOrdinal('vingt et un'), 'vingt et unième');
+      TestUtils.strictEqual(toOrdinal('quatre-vingts'), 'quatre-vingtième');
+      TestUtils.strictEqual(toOrdinal('trois cents'), 'trois centième');
+      TestUtils.strictEqual(toOrdinal('six'), 'sixième');
+      TestUtils.strictEqual(toOrdinal('mille'), 'millième');
+    });
+  });
+});
@@ -0,0 +1,314 @@
+import { pipe } from 'effect';
+import * as Option from 'effect/Option';
+import * as Result from 'effect/Result';
+import * as Schema from 'effect/Schema';
+
+import * as TestUtils from '@parischap/configs/TestUtils';
+import * as CVNumberBase10Format from '@parischap/conversions/CVNumberBase10Format';
+import * as CVSchema from '@parischap/conversions/CVSchema';
+import * as CVTemplate from '@parischap/conversions/CVTemplate';
+import * as CVTemplateCombinator from '@parischap/conversions/CVTemplateCombinator';
+import * as CVTemplateFormatter from '@parischap/conversions/CVTemplateFormatter';
+import * as CVTemplateParseError from '@parischap/conversions/CVTemplateParseError';
+import * as CVTemplateParser from '@parischap/conversions/CVTemplateParser';
+import * as CVTemplatePlaceholder from '@parischap/conversions/CVTemplatePlaceholder';
+import * as CVTemplateSeparator from '@parischap/conversions/CVTemplateSeparator';
+
+import { describe, it } from 'vitest';
+
+describe('CVTemplateCombinator', () => {
+  const sep = CVTemplateSeparator;
+  const twoDigits = <const N extends string>(name: N) =>
+    CVTemplatePlaceholder.number({
+      name,
+      numberBase10Format: CVNumberBase10Format.twoDigitUnsignedInteger,
+    });
+  const errorLocation = (result: Result.Result<unknown, CVTemplateParseError.Type>) =>
+    pipe(
+      result,
+      Result.flip,
+      Result.map((error) => ({
+        path: CVTemplateParseError.path(error),
+        offset: error.offset,
+        length: error.length,
+      })),
+    );
+
+  it('moduleTag', () => {
+    TestUtils.assertEquals(
+      Option.some(CVTemplateCombinator.moduleTag),
+      TestUtils.moduleTagFromTestFilePath(import.meta.filename),
+    );
+  });
+
+  describe('optional', () => {
+    const template = CVTemplate.make(
+      CVTemplatePlaceholder.number({
+        name: 'hh',
+        numberBase10Format: CVNumberBase10Format.twoDigitUnsignedInteger,
+      }),
+      sep.colon,
+      CVTemplatePlaceholder.number({
+        name: 'mm',
+        numberBase10Format: CVNumberBase10Format.twoDigitUnsignedInteger,
+      }),
+      CVTemplateCombinator.optional({
+        name: 'seconds',
+        template: CVTemplate.make(
+          sep.colon,
+          CVTemplatePlaceholder.number({
+            name: 'ss',
+            numberBase10Format: CVNumberBase10Format.twoDigitUnsignedInteger,
+          }),
+        ),
+      }),
+    );
+    const parser = CVTemplateParser.fromTemplate(template);
+    const formatter = CVTemplateFormatter.fromTemplate(template);
+
+    TestUtils.assertTrueType(
+      TestUtils.areEqualTypes<
+        typeof template,
+        CVTemplate.Type<{
+          readonly hh: number;
+          readonly mm: number;
+          readonly seconds: Option.Option<{ readonly ss: number }>;
+        }>
+      >(),
+    );
+
+    it('Description', () => {
+      TestUtils.strictEqual(template.syntheticDescription, '#hh:#mm#seconds');
+      TestUtils.strictEqual(
+        template.placeholderDescription,
+        `#hh: 2-character string to 0-left-padded unsigned integer.
+#mm: 2-character string to 0-left-padded unsigned integer.
+#seconds: optional ':#ss'`,
+      );
+    });
+
+    it('Parsing', () => {
+      TestUtils.assertSuccess(CVTemplateParser.parse(parser)('10:25'), {
+        hh: 10,
+        mm: 25,
+        seconds: Option.none(),
+      });
+      TestUtils.assertSuccess(CVTemplateParser.parse(parser)('10:25:07'), {
+        hh: 10,
+        mm: 25,
+        seconds: Option.some({ ss: 7 }),
+      });
+      TestUtils.assertFailureMessage(
+        CVTemplateParser.parse(parser)('10:25:7'),
+        "Expected text not consumed by template to be empty. Actual: ':7'",
+      );
+    });
+
+    it('Formatting', () => {
+      TestUtils.assertSuccess(
+        CVTemplateFormatter.format(formatter)({ hh: 10, mm: 25, seconds: Option.none() }),
+        '10:25',
+      );
+      TestUtils.assertSuccess(
+        CVTemplateFormatter.format(formatter)({ hh: 10, mm: 25, seconds: Option.some({ ss: 7 }) }),
+        '10:25:07',
+      );
+    });
+  });
+
+  describe('repeated', () => {
+    const template = CVTemplate.make(
+      CVTemplateCombinator.repeated({
+        name: 'times',
+        template: CVTemplate.make(twoDigits('hh'), sep.colon, twoDigits('mm')),
+        separator: sep.make(', '),
+        minCount: 1,
+        maxCount: 3,
+      }),
+      sep.dot,
+    );
+    const parse = CVTemplateParser.parse(CVTemplateParser.fromTemplate(template));
+    const format = CVTemplateFormatter.format(CVTemplateFormatter.fromTemplate(template));
+
+    TestUtils.assertTrueType(
+      TestUtils.areEqualTypes<
+        typeof template,
+        CVTemplate.Type<{
+          readonly times: ReadonlyArray<{ readonly hh: number; readonly mm: number }>;
+        }>
+      >(),
+    );
+
+    it('Description', () => {
+      TestUtils.strictEqual(
+        template.placeholderDescription,
+        "#times: 1 to 3 occurrence(s) of '#hh:#mm' separated by ', '",
+      );
+    });
+
+    it('Parsing', () => {
+      TestUtils.assertSuccess(parse('10:25.'), { times: [{ hh: 10, mm: 25 }] });
+      TestUtils.assertSuccess(parse('10:25, 11:30, 12:45.'), {
+        times: [
+          { hh: 10, mm: 25 },
+          { hh: 11, mm: 30 },
+          { hh: 12, mm: 45 },
+        ],
+      });
+      TestUtils.assertFailureMessage(
+        parse('10:25, 11:30, 12:45, 13:00.'),
+        "Expected remaining text for separator at position 2 to start with '.'. Actual: ', 13:00.'",
+      );
+      TestUtils.assertFailureMessage(
+        parse('10:25, 11.'),
+        "Expected remaining text for separator at position 2 to start with '.'. Actual: ', 11.'",
+      );
+      TestUtils.assertFailureMessage(
+        parse('.'),
+        "#times contains '.' from the start of which 1 to 3 occurrence(s) of '#hh:#mm' separated by ', ' could not be extracted. Expected length of #hh to be: 2. Actual: 1",
+      );
+    });
+
+    it('Parsing: error in an occurrence', () => {
+      const parse = CVTemplateParser.parse(
+        CVTemplateParser.fromTemplate(
+          CVTemplate.make(
+            sep.make('['),
+            CVTemplateCombinator.repeated({
+              name: 'times',
+              template: CVTemplate.make(twoDigits('hh'), sep.colon, twoDigits('mm')),
+              separator: sep.make(', '),
+              minCount: 3,
+            }),
+            sep.make(']'),
+          ),
+        ),
+      );
+      TestUtils.assertSuccess(errorLocation(parse('[10:25, 11:3x, 12:45]')), {
+        path: ['times', 1, 'mm'],
+        offset: 11,
+        length: 10,
+      });
+      // No occurrence failed: the separator is missing after the first one
+      TestUtils.assertSuccess(errorLocation(parse('[10:25]')), {
+        path: ['times'],
+        offset: 1,
+        length: 5,
+      });
+    });
+
+    it('Formatting', () => {
+      TestUtils.assertSuccess(
+        format({
+          times: [
+            { hh: 10, mm: 25 },
+            { hh: 11, mm: 30 },
+          ],
+        }),
+        '10:25, 11:30.',
+      );
+      TestUtils.assertFailureMessage(
+        format({ times: [] }),
+        '#times: expected 1 to 3 value(s). Actual: 0',
+      );
+    });
+  });
+
+  describe('alternatives', () => {
+    const template = CVTemplate.make(
+      CVTemplateCombinator.alternatives({
+        name: 'date',
+        alternatives: {
+          dayOfMonth: CVTemplate.make(twoDigits('dd'), sep.slash, twoDigits('MM')),
+          week: CVTemplate.make(sep.make('W'), twoDigits('ww')),
+        },
+      }),
+    );
+    const parse = CVTemplateParser.parse(CVTemplateParser.fromTemplate(template));
+    const format = CVTemplateFormatter.format(CVTemplateFormatter.fromTemplate(template));
+
+    TestUtils.assertTrueType(
+      TestUtils.areEqualTypes<
+        typeof template,
+        CVTemplate.Type<{
+          readonly date:
+            | { readonly _tag: 'dayOfMonth'; readonly dd: number; readonly MM: number }
+            | { readonly _tag: 'week'; readonly ww: number };
+        }>
+      >(),
+    );
+
+    it('Description', () => {
+      TestUtils.strictEqual(
+        template.placeholderDescription,
+        "#date: one of '#dd/#MM' (dayOfMonth), 'W#ww' (week)",
+      );
+    });
+
+    it('Parsing', () => {
+      TestUtils.assertSuccess(parse('25/12'), { date: { _tag: 'dayOfMonth', dd: 25, MM: 12 } });
+      TestUtils.assertSuccess(parse('W52'), { date: { _tag: 'week', ww: 52 } });
+      TestUtils.assertFailureMessage(
+        parse('X52'),
+        "#date contains 'X52' from the start of which none of dayOfMonth, week could be extracted. #dd: value 'X5' cannot be converted to a(n) 0-left-padded unsigned integer",
+      );
+    });
+
+    it('Parsing: error of the alternative that went the furthest', () => {
+      TestUtils.assertSuccess(errorLocation(parse('25/1x')), {
+        path: ['date', 'dayOfMonth', 'MM'],
+        offset: 3,
+        length: 2,
+      });
+      TestUtils.assertSuccess(errorLocation(parse('Wxx')), {
+        path: ['date', 'week', 'ww'],
+        offset: 1,
+        length: 2,
+      });
+    });
+
+    it('Formatting', () => {
+      TestUtils.assertSuccess(format({ date: { _tag: 'dayOfMonth', dd: 25, MM: 12 } }), '25/12');
+      TestUtils.assertSuccess(format({ date: { _tag: 'week', ww: 1 } }), 'W01');
+    });
+  });
+
+  describe('CVSchema.Template', () => {
+    const schema = CVSchema.Template(
+      CVTemplate.make(
+        CVTemplateCombinator.repeated({
+          name: 'dates',
+          template: CVTemplate.make(
+            twoDigits('dd'),
+            CVTemplateCombinator.optional({
+              name: 'month',
+              template: CVTemplate.make(sep.slash, twoDigits('MM')),
+            }),
+          ),
+          separator: sep.comma,
+        }),
+      ),
+    );
+
+    it('Decoding', () => {
+      TestUtils.assertSuccessExit(Schema.decodeExit(schema)('01,02/03'), {
+        dates: [
+          { dd: 1, month: Option.none() },
+          { dd: 2, month: Option.some({ MM: 3 }) },
+        ],
+      });
+    });
+
+    it('Encoding', () => {
+      TestUtils.assertSuccessExit(
+        Schema.encodeExit(schema)({
+          dates: [
+            { dd: 1, month: Option.none() },
+            { dd: 2, month: Option.some({ MM: 3 }) },
+          ],
+        }),
+        '01,02/03',
+      );
+    });
+  });
+});
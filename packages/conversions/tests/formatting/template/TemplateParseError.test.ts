@@ -0,0 +1,121 @@
+import * as Option from 'effect/Option';
+
+import * as TestUtils from '@parischap/configs/TestUtils';
+import * as CVNumberBase10Format from '@parischap/conversions/CVNumberBase10Format';
+import * as CVTemplateParseError from '@parischap/conversions/CVTemplateParseError';
+import * as CVTemplatePlaceholder from '@parischap/conversions/CVTemplatePlaceholder';
+import * as CVTemplateSeparator from '@parischap/conversions/CVTemplateSeparator';
+import * as MInputError from '@parischap/effect-lib/MInputError';
+
+import { describe, it } from 'vitest';
+
+describe('CVTemplateParseError', () => {
+  const inputError = new MInputError.Type({ message: 'Expected a month' });
+  const text = '2024-13-01';
+  const placeholderError = CVTemplateParseError.fromInputError({
+    text,
+    offset: 5,
+    length: 2,
+    expected: Option.some(
+      CVTemplatePlaceholder.number({
+        name: 'month',
+        numberBase10Format: CVNumberBase10Format.twoDigitUnsignedInteger,
+      }),
+    ),
+  })(inputError);
+  const separatorError = CVTemplateParseError.fromInputError({
+    text,
+    offset: 4,
+    length: 1,
+    expected: Option.some(CVTemplateSeparator.slash),
+  })(inputError);
+  const endOfTextError = CVTemplateParseError.fromInputError({
+    text,
+    offset: 10,
+    length: 0,
+    expected: Option.none(),
+  })(inputError);
+
+  it('moduleTag', () => {
+    TestUtils.assertEquals(
+      Option.some(CVTemplateParseError.moduleTag),
+      TestUtils.moduleTagFromTestFilePath(import.meta.filename),
+    );
+  });
+
+  it('fromInputError', () => {
+    TestUtils.strictEqual(placeholderError.message, 'Expected a month');
+    TestUtils.strictEqual(placeholderError.offset, 5);
+    TestUtils.assertSome(placeholderError.placeholderName, 'month');
+    TestUtils.assertNone(separatorError.placeholderName);
+    TestUtils.strictEqual(endOfTextError.length, 1);
+    TestUtils.assertTrue(placeholderError instanceof MInputError.Type);
+  });
+
+  it('isTemplateParseError', () => {
+    TestUtils.assertTrue(CVTemplateParseError.isTemplateParseError(placeholderError));
+    TestUtils.assertFalse(CVTemplateParseError.isTemplateParseError(inputError));
+  });
+
+  it('nest', () => {
+    const nested = CVTemplateParseError.nest({ text: `[${text}`, key: 'date' })(placeholderError);
+    TestUtils.strictEqual(nested.message, 'Expected a month');
+    TestUtils.strictEqual(nested.offset, 6);
+    TestUtils.strictEqual(nested.length, 2);
+    TestUtils.assertEquals(CVTemplateParseError.path(nested), ['date', 'month']);
+    TestUtils.strictEqual(
+      CVTemplateParseError.nest({ text, key: 0, message: 'Invalid date' })(placeholderError)
+        .message,
+      'Invalid date',
+    );
+  });
+
+  it('path', () => {
+    TestUtils.assertEquals(CVTemplateParseError.path(placeholderError), ['month']);
+    TestUtils.assertEquals(CVTemplateParseError.path(separatorError), []);
+  });
+
+  it('remainingText', () => {
+    TestUtils.strictEqual(CVTemplateParseError.remainingText(placeholderError), '13-01');
+    TestUtils.strictEqual(CVTemplateParseError.remainingText(endOfTextError), '');
+  });
+
+  it('expectedDescription', () => {
+    TestUtils.strictEqual(
+      CVTemplateParseError.expectedDescription(placeholderError),
+      '#month: 2-character string to 0-left-padded unsigned integer',
+    );
+    TestUtils.strictEqual(
+      CVTemplateParseError.expectedDescription(separatorError),
+      "separator '/'",
+    );
+    TestUtils.strictEqual(CVTemplateParseError.expectedDescription(endOfTextError), 'end of text');
+  });
+
+  describe('excerpt', () => {
+    it('Without styling', () => {
+      TestUtils.strictEqual(
+        CVTemplateParseError.excerpt()(placeholderError),
+        '2024-13-01\n     ^^',
+      );
+      TestUtils.strictEqual(
+        CVTemplateParseError.excerpt()(endOfTextError),
+        '2024-13-01\n          ^',
+      );
+    });
+
+    it('With styling', () => {
+      TestUtils.strictEqual(
+        CVTemplateParseError.excerpt((carets) => `[${carets}]`)(separatorError),
+        '2024-13-01\n    [^]',
+      );
+    });
+  });
+
+  it('toReport', () => {
+    TestUtils.strictEqual(
+      CVTemplateParseError.toReport()(placeholderError),
+      "Expected a month\nExpected: #month: 2-character string to 0-left-padded unsigned integer\nRemaining text: '13-01'\n\n2024-13-01\n     ^^",
+    );
+  });
+});
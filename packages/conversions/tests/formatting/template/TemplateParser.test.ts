@@ -1,13 +1,14 @@
+import { pipe } from 'effect';
 import * as Option from 'effect/Option';
-import type * as Result from 'effect/Result';
+import * as Result from 'effect/Result';
 
 import * as TestUtils from '@parischap/configs/TestUtils';
 import * as CVNumberBase10Format from '@parischap/conversions/CVNumberBase10Format';
 import * as CVTemplate from '@parischap/conversions/CVTemplate';
+import * as CVTemplateParseError from '@parischap/conversions/CVTemplateParseError';
 import * as CVTemplateParser from '@parischap/conversions/CVTemplateParser';
 import * as CVTemplatePlaceholder from '@parischap/conversions/CVTemplatePlaceholder';
 import * as CVTemplateSeparator from '@parischap/conversions/CVTemplateSeparator';
-import type * as MInputError from '@parischap/effect-lib/MInputError';
 
 import { describe, it } from 'vitest';
 
@@ -94,7 +95,7 @@ describe('CVTemplateParser', () => {
           text: string,
         ) => Result.Result<
           { readonly MM: number; readonly dd: number; readonly yyyy: number },
-          MInputError.Type
+          CVTemplateParseError.Type
         >
       >(),
     );
@@ -106,7 +107,7 @@ describe('CVTemplateParser', () => {
           text: string,
         ) => Result.Result<
           { readonly MM: number; readonly dd: number; readonly yyyy: number },
-          MInputError.Type
+          CVTemplateParseError.Type
         >
       >(),
     );
@@ -160,6 +161,40 @@ describe('CVTemplateParser', () => {
       );
     });
 
+    it('Error position', () => {
+      const errorPosition = (text: string) =>
+        pipe(
+          text,
+          parser1,
+          Result.flip,
+          Result.map(({ offset, placeholderName }) => ({ offset, placeholderName })),
+        );
+      TestUtils.assertSuccess(errorPosition('25/1a/2025 12'), {
+        offset: 3,
+        placeholderName: Option.some('MM'),
+      });
+      TestUtils.assertSuccess(errorPosition('25/12|2025 12'), {
+        offset: 5,
+        placeholderName: Option.none(),
+      });
+      TestUtils.assertSuccess(errorPosition('25/12/2025 12is XMas'), {
+        offset: 13,
+        placeholderName: Option.none(),
+      });
+    });
+
+    it('Error excerpt', () => {
+      const excerpt = (text: string) =>
+        pipe(text, parser1, Result.flip, Result.map(CVTemplateParseError.excerpt()));
+      TestUtils.assertSuccess(excerpt('25/1a/2025 12'), '25/1a/2025 12\n   ^^');
+      TestUtils.assertSuccess(excerpt('25/12|2025 12'), '25/12|2025 12\n     ^');
+      TestUtils.assertSuccess(
+        excerpt('25/12/2025 12is XMas'),
+        '25/12/2025 12is XMas\n             ^^^^^^^',
+      );
+      TestUtils.assertSuccess(excerpt('25/12/2025 13'), '25/12/2025 13\n           ^^');
+    });
+
     it('Matching text', () => {
       TestUtils.assertSuccess(parser1('05/12/2025 12'), {
         dd: 5,
@@ -173,4 +208,22 @@ describe('CVTemplateParser', () => {
       });
     });
   });
+
+  describe('extract', () => {
+    const extractor = CVTemplateParser.extract(templateParser1);
+
+    it('Failing text', () => {
+      TestUtils.assertFailureMessage(
+        extractor('25|12'),
+        "Expected remaining text for separator at position 2 to start with '/'. Actual: '|12'",
+      );
+    });
+
+    it('Text too long', () => {
+      TestUtils.assertSuccess(extractor('25/12/2025 12is XMas'), [
+        { dd: 25, MM: 12, yyyy: 2025 },
+        'is XMas',
+      ]);
+    });
+  });
 });
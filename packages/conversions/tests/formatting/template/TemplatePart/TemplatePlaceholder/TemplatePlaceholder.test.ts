@@ -1,9 +1,15 @@
+import { pipe } from 'effect';
+import * as BigDecimal from 'effect/BigDecimal';
 import * as Option from 'effect/Option';
 import * as Schema from 'effect/Schema';
 import * as Tuple from 'effect/Tuple';
 
 import * as TestUtils from '@parischap/configs/TestUtils';
+import * as CVCurrencyFormat from '@parischap/conversions/CVCurrencyFormat';
 import * as CVNumberBase10Format from '@parischap/conversions/CVNumberBase10Format';
+import * as CVNumberRadixFormat from '@parischap/conversions/CVNumberRadixFormat';
+import * as CVOrdinalSuffixes from '@parischap/conversions/CVOrdinalSuffixes';
+import * as CVSpellOutRuleSet from '@parischap/conversions/CVSpellOutRuleSet';
 import * as CVTemplatePlaceholder from '@parischap/conversions/CVTemplatePlaceholder';
 import * as MRegExpString from '@parischap/effect-lib/MRegExpString';
 import * as MStringFillPosition from '@parischap/effect-lib/MStringFillPosition';
@@ -201,6 +207,239 @@ describe('CVTemplatePlaceholder', () => {
     });
   });
 
+  describe('radixNumber', () => {
+    describe('fixed-length format', () => {
+      const placeholder = CVTemplatePlaceholder.radixNumber({
+        name: 'foo',
+        numberRadixFormat: pipe(
+          CVNumberRadixFormat.hexadecimal,
+          CVNumberRadixFormat.withoutSignDisplay,
+          CVNumberRadixFormat.zeroPadded(2),
+        ),
+      });
+      it('.toString()', () => {
+        TestUtils.strictEqual(
+          placeholder.toString(),
+          '#foo: 2-character string to unsigned 2-digit hexadecimal integer',
+        );
+      });
+
+      it('Parsing', () => {
+        TestUtils.assertSuccess(placeholder.parser('FF80'), Tuple.make(255, '80'));
+        TestUtils.assertFailureMessage(
+          placeholder.parser('G0'),
+          "#foo: value 'G0' cannot be converted to a(n) unsigned 2-digit hexadecimal integer",
+        );
+      });
+
+      it('Formatting', () => {
+        TestUtils.assertSuccess(placeholder.formatter(10), '0A');
+        TestUtils.assertFailureMessage(
+          placeholder.formatter(256),
+          'Expected length of #foo to be: 2. Actual: 3',
+        );
+      });
+    });
+
+    describe('Not a fixed-length format', () => {
+      const placeholder = CVTemplatePlaceholder.radixNumber({
+        name: 'foo',
+        numberRadixFormat: CVNumberRadixFormat.prefixedBinary,
+      });
+
+      it('Parsing', () => {
+        TestUtils.assertSuccess(placeholder.parser('0b101 and foo'), Tuple.make(5, ' and foo'));
+        TestUtils.assertFailureMessage(
+          placeholder.parser('101'),
+          "#foo contains '101' from the start of which a(n) potentially signed binary integer with '0b' prefix could not be extracted",
+        );
+      });
+
+      it('Formatting', () => {
+        TestUtils.assertSuccess(placeholder.formatter(-5), '-0b101');
+        TestUtils.assertFailureMessage(
+          placeholder.formatter(0.5),
+          "#foo: value '0.5' cannot be converted to a(n) potentially signed binary integer with '0b' prefix",
+        );
+      });
+    });
+  });
+
+  describe('radixBigInt', () => {
+    const placeholder = CVTemplatePlaceholder.radixBigInt({
+      name: 'foo',
+      numberRadixFormat: CVNumberRadixFormat.prefixedHexadecimal,
+    });
+
+    it('Parsing', () => {
+      TestUtils.assertSuccess(
+        placeholder.parser('0x10000000000000000;'),
+        Tuple.make(2n ** 64n, ';'),
+      );
+    });
+
+    it('Formatting', () => {
+      TestUtils.assertSuccess(placeholder.formatter(-(2n ** 64n)), '-0x10000000000000000');
+    });
+  });
+
+  describe('currencyAmount', () => {
+    const placeholder = CVTemplatePlaceholder.currencyAmount({
+      name: 'foo',
+      currencyFormat: CVCurrencyFormat.ukStyleAccountingAmount,
+    });
+
+    it('Parsing', () => {
+      TestUtils.assertSuccess(
+        placeholder.parser('(£12.50) due'),
+        Tuple.make({ amount: BigDecimal.make(-1250n, 2), currency: 'GBP' }, ' due'),
+      );
+      TestUtils.assertFailureMessage(
+        placeholder.parser('-£12.50'),
+        "#foo contains '-£12.50' from the start of which a(n) potentially signed UK-style number amount in EUR, USD, GBP, CHF, JPY, KWD with currency symbol before and negative amounts between parentheses could not be extracted",
+      );
+    });
+
+    it('Formatting', () => {
+      TestUtils.assertSuccess(
+        placeholder.formatter({ amount: BigDecimal.make(-1_234_567n, 0), currency: 'JPY' }),
+        '(¥1,234,567)',
+      );
+      TestUtils.assertFailureMessage(
+        placeholder.formatter({ amount: BigDecimal.make(12n, 0), currency: 'CAD' }),
+        "#foo: currency 'CAD' is not handled by the potentially signed UK-style number amount in EUR, USD, GBP, CHF, JPY, KWD with currency symbol before and negative amounts between parentheses format",
+      );
+    });
+  });
+
+  describe('spelledOutNumber', () => {
+    const placeholder = CVTemplatePlaceholder.spelledOutNumber({
+      name: 'foo',
+      ruleSet: CVSpellOutRuleSet.english,
+    });
+
+    it('Parsing', () => {
+      TestUtils.assertSuccess(placeholder.parser('forty-two apples'), Tuple.make(42, ' apples'));
+      TestUtils.assertFailureMessage(
+        placeholder.parser('one quintillion'),
+        "#foo contains 'one quintillion' from the start of which a(n) integer written in English words could not be extracted",
+      );
+    });
+
+    it('Formatting', () => {
+      TestUtils.assertSuccess(placeholder.formatter(-7), 'minus seven');
+      TestUtils.assertFailureMessage(
+        placeholder.formatter(1.5),
+        "#foo: value '1.5' cannot be converted to a(n) integer written in English words",
+      );
+    });
+  });
+
+  describe('spelledOutOrdinal', () => {
+    const placeholder = CVTemplatePlaceholder.spelledOutOrdinal({
+      name: 'foo',
+      ruleSet: CVSpellOutRuleSet.french,
+    });
+
+    it('Parsing', () => {
+      TestUtils.assertSuccess(
+        placeholder.parser('vingt et unième siècle'),
+        Tuple.make(21, ' siècle'),
+      );
+    });
+
+    it('Formatting', () => {
+      TestUtils.assertSuccess(placeholder.formatter(1), 'premier');
+      TestUtils.assertFailureMessage(
+        placeholder.formatter(0),
+        "#foo: value '0' cannot be converted to a(n) ordinal written in French words",
+      );
+    });
+  });
+
+  describe('spelledOutAmount', () => {
+    const placeholder = CVTemplatePlaceholder.spelledOutAmount({
+      name: 'foo',
+      ruleSet: CVSpellOutRuleSet.english,
+    });
+
+    it('Parsing', () => {
+      TestUtils.assertSuccess(
+        placeholder.parser('twelve pounds and fifty pence only'),
+        Tuple.make({ amount: BigDecimal.make(1250n, 2), currency: 'GBP' }, ' only'),
+      );
+    });
+
+    it('Formatting', () => {
+      TestUtils.assertSuccess(
+        placeholder.formatter({ amount: BigDecimal.make(123_450n, 2), currency: 'EUR' }),
+        'one thousand two hundred and thirty-four euros and fifty cents',
+      );
+      TestUtils.assertFailureMessage(
+        placeholder.formatter({ amount: BigDecimal.make(12n, 0), currency: 'CAD' }),
+        "#foo: value '12 CAD' cannot be converted to a(n) amount written in English words",
+      );
+    });
+  });
+
+  describe('romanNumeral', () => {
+    const upperCase = CVTemplatePlaceholder.romanNumeral({ name: 'foo' });
+    const lowerCase = CVTemplatePlaceholder.romanNumeral({ name: 'foo', isLowerCase: true });
+
+    it('Parsing', () => {
+      TestUtils.assertSuccess(upperCase.parser('XIV. Chapter'), Tuple.make(14, '. Chapter'));
+      TestUtils.assertSuccess(lowerCase.parser('xiv) item'), Tuple.make(14, ') item'));
+      TestUtils.assertFailureMessage(
+        upperCase.parser('IIII'),
+        "#foo contains 'IIII' from the start of which a(n) upper-case Roman numeral could not be extracted",
+      );
+      TestUtils.assertFailureMessage(
+        lowerCase.parser('XIV'),
+        "#foo contains 'XIV' from the start of which a(n) lower-case Roman numeral could not be extracted",
+      );
+    });
+
+    it('Formatting', () => {
+      TestUtils.assertSuccess(upperCase.formatter(1994), 'MCMXCIV');
+      TestUtils.assertSuccess(lowerCase.formatter(4), 'iv');
+      TestUtils.assertFailureMessage(
+        upperCase.formatter(4000),
+        "#foo: value '4000' cannot be converted to a(n) upper-case Roman numeral",
+      );
+    });
+  });
+
+  describe('ordinalNumber', () => {
+    const english = CVTemplatePlaceholder.ordinalNumber({
+      name: 'foo',
+      ordinalSuffixes: CVOrdinalSuffixes.english,
+    });
+    const french = CVTemplatePlaceholder.ordinalNumber({
+      name: 'foo',
+      ordinalSuffixes: CVOrdinalSuffixes.french,
+    });
+
+    it('Parsing', () => {
+      TestUtils.assertSuccess(english.parser('3rd of June'), Tuple.make(3, ' of June'));
+      TestUtils.assertSuccess(french.parser('1er mai'), Tuple.make(1, ' mai'));
+      TestUtils.assertFailureMessage(
+        english.parser('3th of June'),
+        "#foo contains '3th of June' from the start of which a(n) integer followed by its English ordinal suffix could not be extracted",
+      );
+      TestUtils.assertFailure(french.parser('01er'));
+    });
+
+    it('Formatting', () => {
+      TestUtils.assertSuccess(english.formatter(22), '22nd');
+      TestUtils.assertSuccess(english.formatter(111), '111th');
+      TestUtils.assertSuccess(french.formatter(2), '2e');
+      TestUtils.assertFailureMessage(
+        french.formatter(0),
+        "#foo: value '0' cannot be converted to a(n) integer followed by its French ordinal suffix",
+      );
+    });
+  });
+
   describe('mappedLiterals', () => {
     const map = CVTemplatePlaceholder.mappedLiterals({
       name: 'foo',
@@ -227,6 +466,27 @@ describe('CVTemplatePlaceholder', () => {
       it('Passing', () => {
         TestUtils.assertSuccess(map.parser('bazbar is away'), Tuple.make(12, ' is away'));
       });
+
+      it('Case-insensitive', () => {
+        const caseInsensitiveMap = CVTemplatePlaceholder.numberMappedLiterals({
+          name: 'foo',
+          keyValuePairs: [
+            ['foo', 6],
+            ['bazbar', 12],
+          ],
+          isCaseSensitive: false,
+        });
+        TestUtils.strictEqual(
+          caseInsensitiveMap.toString(),
+          '#foo: from [foo, bazbar] to [6, 12] (case-insensitive)',
+        );
+        TestUtils.assertFailure(map.parser('BazBar is away'));
+        TestUtils.assertSuccess(
+          caseInsensitiveMap.parser('BazBar is away'),
+          Tuple.make(12, ' is away'),
+        );
+        TestUtils.assertSuccess(caseInsensitiveMap.formatter(12), 'bazbar');
+      });
     });
 
     describe('Formatting', () => {
@@ -0,0 +1,55 @@
+import { pipe } from 'effect';
+import * as Option from 'effect/Option';
+import * as Result from 'effect/Result';
+
+import * as TestUtils from '@parischap/configs/TestUtils';
+import * as CVDateTimeZoneDisambiguation from '@parischap/conversions/CVDateTimeZoneDisambiguation';
+import * as CVTimeZone from '@parischap/conversions/CVTimeZone';
+
+import { describe, it } from 'vitest';
+
+describe('CVTimeZone', () => {
+  const paris = pipe(
+    { name: 'Europe/Paris', disambiguation: CVDateTimeZoneDisambiguation.Type.Compatible },
+    CVTimeZone.fromName,
+    Result.getOrThrow,
+  );
+
+  it('moduleTag', () => {
+    TestUtils.assertEquals(
+      Option.some(CVTimeZone.moduleTag),
+      TestUtils.moduleTagFromTestFilePath(import.meta.filename),
+    );
+  });
+
+  it('fromName', () => {
+    TestUtils.assertFailureMessage(
+      CVTimeZone.fromName({
+        name: 'Mars/Olympus',
+        disambiguation: CVDateTimeZoneDisambiguation.Type.Compatible,
+      }),
+      "'Mars/Olympus' is not a valid IANA time zone name",
+    );
+  });
+
+  it('zoneOffsetAt', () => {
+    TestUtils.strictEqual(pipe(paris, CVTimeZone.zoneOffsetAt(Date.UTC(2025, 0, 1))), 1);
+    TestUtils.strictEqual(pipe(paris, CVTimeZone.zoneOffsetAt(Date.UTC(2025, 6, 1))), 2);
+    // Local mean time of Paris: +00:09:21
+    TestUtils.strictEqual(
+      pipe(paris, CVTimeZone.zoneOffsetAt(Date.UTC(1890, 0, 1))),
+      561_000 / 3_600_000,
+    );
+  });
+
+  it('resolveZonedTimestamp', () => {
+    TestUtils.assertSuccess(pipe(paris, CVTimeZone.resolveZonedTimestamp(Date.UTC(2025, 6, 1))), {
+      timestamp: Date.UTC(2025, 5, 30, 22),
+      zoneOffset: 2,
+    });
+    TestUtils.assertSuccess(pipe(paris, CVTimeZone.resolveZonedTimestamp(Date.UTC(1890, 0, 1))), {
+      timestamp: Date.UTC(1890, 0, 1) - 561_000,
+      zoneOffset: 561_000 / 3_600_000,
+    });
+  });
+});
@@ -4,6 +4,7 @@ import * as BigDecimal from 'effect/BigDecimal';
 import * as TestUtils from '@parischap/configs/TestUtils';
 import * as CVRounder from '@parischap/conversions/CVRounder';
 import * as CVRounderParams from '@parischap/conversions/CVRounderParams';
+import * as CVRounderParamsPrecisionOption from '@parischap/conversions/CVRounderParamsPrecisionOption';
 import * as CVRoundingOption from '@parischap/conversions/CVRoundingOption';
 import * as MNumber from '@parischap/effect-lib/MNumber';
 
@@ -34,4 +35,43 @@ describe('CVRounder', () => {
       TestUtils.assertEquals(rounder(BigDecimal.make(-4564n, 4)), BigDecimal.make(-456n, 3));
     });
   });
+
+  describe('Significant digits', () => {
+    const significantDigitsRounderParams = CVRounderParams.make({
+      precision: 3,
+      roundingOption: CVRoundingOption.Type.HalfEven,
+      precisionOption: CVRounderParamsPrecisionOption.Type.SignificantDigits,
+    });
+
+    it('number', () => {
+      const rounder = CVRounder.number(significantDigitsRounderParams);
+      TestUtils.strictEqual(rounder(123_456), 123_000);
+      TestUtils.strictEqual(rounder(-0.0012345), -0.00123);
+      TestUtils.strictEqual(rounder(12.35), 12.4);
+      TestUtils.strictEqual(rounder(0), 0);
+    });
+
+    it('number, large integers', () => {
+      const roundTo = (precision: number) =>
+        CVRounder.number(
+          CVRounderParams.make({
+            precision,
+            roundingOption: CVRoundingOption.Type.HalfExpand,
+            precisionOption: CVRounderParamsPrecisionOption.Type.SignificantDigits,
+          }),
+        );
+      TestUtils.strictEqual(roundTo(1)(123_456), 100_000);
+      TestUtils.strictEqual(roundTo(4)(987_654_321), 987_700_000);
+      TestUtils.strictEqual(roundTo(4)(1e21 + 12_345), 1e21);
+      TestUtils.strictEqual(roundTo(2)(-4_550_000_000_000), -4_600_000_000_000);
+    });
+
+    it('BigDecimal', () => {
+      const rounder = CVRounder.bigDecimal(significantDigitsRounderParams);
+      TestUtils.assertEquals(rounder(BigDecimal.make(123_456n, 0)), BigDecimal.make(123n, -3));
+      TestUtils.assertEquals(rounder(BigDecimal.make(-12_345n, 7)), BigDecimal.make(-123n, 5));
+      TestUtils.assertEquals(rounder(BigDecimal.make(1245n, 2)), BigDecimal.make(124n, 1));
+      TestUtils.assertEquals(rounder(BigDecimal.make(9996n, 1)), BigDecimal.make(100n, -1));
+    });
+  });
 });
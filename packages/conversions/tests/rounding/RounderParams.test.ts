@@ -22,5 +22,12 @@ describe('CVRounderParams', () => {
     it('.toString()', () => {
       TestUtils.strictEqual(rounderParams.toString(), 'HalfEvenRounderWith3Precision');
     });
+
+    it('.toString() with significant digits', () => {
+      TestUtils.strictEqual(
+        CVRounderParams.halfExpand3SignificantDigits.toString(),
+        'HalfExpandRounderWith3SignificantDigits',
+      );
+    });
   });
 });
@@ -375,39 +375,87 @@ export const digit = backslashString + 'd';
  */
 export const nonZeroDigit = '[1-9]';
 
-// A regular expression string representing a group of `DIGIT_GROUP_SIZE` digits.
-const digitGroup: string = repeatBetween(DIGIT_GROUP_SIZE, DIGIT_GROUP_SIZE)(digit);
+// A regular expression string representing a group of `n` digits.
+const digitGroup = (n: number): string => repeatBetween(n, n)(digit);
 // A regular expression representing an unsigned non-null integer in base 10 to (10^(n+1))-1 without thousand separator
 const unsignedNonNullIntNPlusOneDigits = (n: number) => nonZeroDigit + repeatBetween(0, n)(digit);
 // A regular expression representing an unsigned non-null integer in base 10 without thousand separator
 const unsignedNonNullInt = unsignedNonNullIntNPlusOneDigits(Infinity);
-// A regular expression representing an unsigned non-null integer in base 10 to 999 without thousand separator
-const unsignedNonNullIntTo999 = unsignedNonNullIntNPlusOneDigits(2);
 // A regular expression representing an unsigned integer in base 10 without thousand separator
 const unsignedInt = either('0', nonZeroDigit + zeroOrMore(digit));
 
+/**
+ * Sizes of the groups of digits separated by a thousand separator. `primaryGroupSize` is the size
+ * of the rightmost group, `secondaryGroupSize` the size of the other groups. Grouping only occurs
+ * if the integer has at least `primaryGroupSize + minimumGroupingDigits` digits
+ *
+ * @category Models
+ */
+export interface Base10Grouping {
+  readonly primaryGroupSize: number;
+  readonly secondaryGroupSize: number;
+  readonly minimumGroupingDigits: number;
+}
+
+const defaultBase10Grouping: Base10Grouping = {
+  primaryGroupSize: DIGIT_GROUP_SIZE,
+  secondaryGroupSize: DIGIT_GROUP_SIZE,
+  minimumGroupingDigits: 1,
+};
+
 /**
  * Returns a regular expression string representing an unsigned non-null integer in base 10 using
  * `thousandSeparator` as thousand separator. Pass an empty string for no thousand separator.
  *
- * @category Instances
- */
-export const unsignedNonNullBase10Int = (thousandSeparator: string): string =>
-  thousandSeparator.length === 0
-    ? unsignedNonNullInt
-    : unsignedNonNullIntTo999 + zeroOrMore(RegExp.escape(thousandSeparator) + digitGroup);
+ * By default, digits are grouped by `DIGIT_GROUP_SIZE`. `grouping` allows to use other group sizes:
+ * `primaryGroupSize` is the size of the rightmost group, `secondaryGroupSize` the size of all other
+ * groups (e.g. 3 and 2 for the Indian numbering system: 12,34,567) and grouping only occurs if the
+ * integer has at least `primaryGroupSize + minimumGroupingDigits` digits (e.g. 2 in Spanish where
+ * 1234 is not grouped but 12.345 is).
+ *
+ * @category Instances
+ */
+export const unsignedNonNullBase10Int = (
+  thousandSeparator: string,
+  {
+    primaryGroupSize,
+    secondaryGroupSize,
+    minimumGroupingDigits,
+  }: Base10Grouping = defaultBase10Grouping,
+): string => {
+  if (thousandSeparator.length === 0) return unsignedNonNullInt;
+  const lastGroup = RegExp.escape(thousandSeparator) + digitGroup(primaryGroupSize);
+  return either(
+    unsignedNonNullIntNPlusOneDigits(secondaryGroupSize - 1) +
+      oneOrMore(RegExp.escape(thousandSeparator) + digitGroup(secondaryGroupSize)) +
+      lastGroup,
+    nonZeroDigit +
+      repeatBetween(
+        Math.min(minimumGroupingDigits, secondaryGroupSize) - 1,
+        secondaryGroupSize - 1,
+      )(digit) +
+      lastGroup,
+    unsignedNonNullIntNPlusOneDigits(primaryGroupSize + minimumGroupingDigits - 2),
+  );
+};
 
 /**
  * Returns a regular expression string representing an unsigned integer in base 10 using
- * `thousandSeparator` as thousand separator. Pass an empty string for no thousand separator.
+ * `thousandSeparator` as thousand separator. Pass an empty string for no thousand separator. See
+ * {@link unsignedNonNullBase10Int} for the `grouping` parameter.
  *
  * @category Instances
  */
-export const unsignedBase10Int = (thousandSeparator: string): string =>
-  either('0', unsignedNonNullBase10Int(thousandSeparator));
+export const unsignedBase10Int = (thousandSeparator: string, grouping?: Base10Grouping): string =>
+  either('0', unsignedNonNullBase10Int(thousandSeparator, grouping));
 
 // Regular expression string representing a captured optional sign
-const signPart = pipe(sign, capture('signPart'), optional);
+const signPart = (minusSign: string): string =>
+  pipe(
+    minusSign === minus ? sign : either(plus, RegExp.escape(minusSign)),
+    capture('signPart'),
+    optional,
+  );
 // Regular expression string representing the captured exponent of a number
 const exponentPart = pipe(
   sign,
@@ -435,6 +483,11 @@ const fractionalPart = repeatBetween(0, Infinity)(digit);
  *   zero or more fillChar's are tolerated between the sign and the number (or at the start of the
  *   number if it is unsigned). Beware if you use a digit as fillChar (e.g. you use '0' as
  *   `fillChar` and try to parse '0000')
+ * - `minusSign`: optional string used as minus sign (e.g. the unicode minus sign '−'). Defaults to
+ *   '-'.
+ * - `primaryGroupSize`, `secondaryGroupSize`, `minimumGroupingDigits`: optional sizes of the groups
+ *   of digits separated by `thousandSeparator` (see {@link Base10Grouping}). They default to
+ *   `DIGIT_GROUP_SIZE`, `DIGIT_GROUP_SIZE` and 1.
  *
  * @category Instances
  */
@@ -443,15 +496,30 @@ export const base10Number = ({
   fractionalSeparator,
   eNotationChars,
   fillChar,
+  minusSign = minus,
+  primaryGroupSize = DIGIT_GROUP_SIZE,
+  secondaryGroupSize = DIGIT_GROUP_SIZE,
+  minimumGroupingDigits = 1,
 }: {
   readonly thousandSeparator: string;
   readonly fractionalSeparator: string;
   readonly eNotationChars: ReadonlyArray<string>;
   readonly fillChar: string;
+  readonly minusSign?: string;
+  readonly primaryGroupSize?: number;
+  readonly secondaryGroupSize?: number;
+  readonly minimumGroupingDigits?: number;
 }): string =>
-  signPart +
+  signPart(minusSign) +
   capture('padding')(fillChar.length === 0 ? '' : zeroOrMore(fillChar)) +
-  pipe(thousandSeparator, unsignedBase10Int, optionalCapture('mantissaIntegerPart')) +
+  pipe(
+    unsignedBase10Int(thousandSeparator, {
+      primaryGroupSize,
+      secondaryGroupSize,
+      minimumGroupingDigits,
+    }),
+    optionalCapture('mantissaIntegerPart'),
+  ) +
   pipe(
     fractionalSeparator,
     RegExp.escape,
@@ -488,6 +556,22 @@ export const hexaInt: string = oneOrMore('[0-9A-Fa-f]');
  */
 export const letter = '[A-Za-z]';
 
+/**
+ * A regular expression string representing a letter of any alphabet. Regular expressions using it
+ * must be built with the 'u' flag
+ *
+ * @category Instances
+ */
+export const unicodeLetter = backslashString + 'p{L}';
+
+/**
+ * A regular expression string representing a numeric character of any script. Regular expressions
+ * using it must be built with the 'u' flag
+ *
+ * @category Instances
+ */
+export const unicodeNumber = backslashString + 'p{N}';
+
 /**
  * A regular expression string representing a lowercase letter
  *
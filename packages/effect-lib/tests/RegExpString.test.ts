@@ -85,6 +85,52 @@ describe('MRegExpString', () => {
         TestUtils.assertFalse(regExp.test('018 320'));
       });
     });
+    describe('With Indian grouping', () => {
+      const regExp = pipe(
+        MRegExpString.unsignedNonNullBase10Int(',', {
+          primaryGroupSize: 3,
+          secondaryGroupSize: 2,
+          minimumGroupingDigits: 1,
+        }),
+        MRegExpString.makeLine,
+        RegExp,
+      );
+
+      it('Passing', () => {
+        TestUtils.assertTrue(regExp.test('999'));
+        TestUtils.assertTrue(regExp.test('12,345'));
+        TestUtils.assertTrue(regExp.test('1,23,45,678'));
+      });
+
+      it('Wrong grouping', () => {
+        TestUtils.assertFalse(regExp.test('123,456'));
+        TestUtils.assertFalse(regExp.test('1,234,567'));
+        TestUtils.assertFalse(regExp.test('1234'));
+      });
+    });
+
+    describe('With minimum grouping digits', () => {
+      const regExp = pipe(
+        MRegExpString.unsignedNonNullBase10Int('.', {
+          primaryGroupSize: 3,
+          secondaryGroupSize: 3,
+          minimumGroupingDigits: 2,
+        }),
+        MRegExpString.makeLine,
+        RegExp,
+      );
+
+      it('Passing', () => {
+        TestUtils.assertTrue(regExp.test('1234'));
+        TestUtils.assertTrue(regExp.test('12.345'));
+        TestUtils.assertTrue(regExp.test('1.234.567'));
+      });
+
+      it('Not passing', () => {
+        TestUtils.assertFalse(regExp.test('1.234'));
+        TestUtils.assertFalse(regExp.test('12345'));
+      });
+    });
   });
 
   describe('unsignedBase10Int', () => {
@@ -146,12 +192,7 @@ describe('MRegExpString', () => {
   });
 
   describe('base10Number', () => {
-    const getParts = (params: {
-      readonly thousandSeparator: string;
-      readonly fractionalSeparator: string;
-      readonly eNotationChars: ReadonlyArray<string>;
-      readonly fillChar: string;
-    }) =>
+    const getParts = (params: Parameters<typeof MRegExpString.base10Number>[0]) =>
       flow(
         MString.matchWithCapturingGroups(
           pipe(params, MRegExpString.base10Number, MRegExpString.makeLine, RegExp),
@@ -297,5 +338,31 @@ describe('MRegExpString', () => {
         TestUtils.assertNone(getPartsWithNoFillChar('+  18 320.45e-2'));
       });
     });
+
+    describe('With unicode minus sign and Indian grouping', () => {
+      const getPartsWithIndianGrouping = getParts({
+        thousandSeparator: ',',
+        fractionalSeparator: '.',
+        eNotationChars: [],
+        fillChar: '',
+        minusSign: '\u2212',
+        primaryGroupSize: 3,
+        secondaryGroupSize: 2,
+      });
+
+      it('Negative number', () => {
+        TestUtils.assertSome(getPartsWithIndianGrouping('\u221212,34,567.8'), {
+          signPart: '\u2212',
+          padding: '',
+          mantissaIntegerPart: '12,34,567',
+          mantissaFractionalPart: '8',
+          exponentPart: '',
+        });
+      });
+
+      it('Hyphen-minus is not accepted', () => {
+        TestUtils.assertNone(getPartsWithIndianGrouping('-12,34,567.8'));
+      });
+    });
   });
 });
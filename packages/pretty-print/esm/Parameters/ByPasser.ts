@@ -10,15 +10,20 @@
  * Use the `make` function to define custom instances if the pre-built ones do not suit your needs.
  */
 
-import { flow } from 'effect';
+import { flow, pipe } from 'effect';
 import * as Array from 'effect/Array';
+import * as DateTime from 'effect/DateTime';
+import * as Duration from 'effect/Duration';
 import type * as Equivalence from 'effect/Equivalence';
 import * as Function from 'effect/Function';
 import * as Hash from 'effect/Hash';
 import * as Option from 'effect/Option';
 import * as Predicate from 'effect/Predicate';
+import * as Redacted from 'effect/Redacted';
 import * as Struct from 'effect/Struct';
 
+import * as ASText from '@parischap/ansi-styles/ASText';
+import * as CVDateTime from '@parischap/conversions/CVDateTime';
 import * as MData from '@parischap/effect-lib/MData';
 import * as MEquivalenceBasedEqualityData from '@parischap/effect-lib/MEquivalenceBasedEqualityData';
 import * as MMatch from '@parischap/effect-lib/MMatch';
@@ -29,6 +34,9 @@ import type * as PPResolvedNonPrimitiveParameters from '../internal/Parameters/R
 import type * as PPParameters from './Parameters.js';
 
 import * as PPValue from '../internal/stringification/Value.js';
+import * as PPConfigFormat from './ConfigFormat.js';
+import * as PPFallbackStrategy from './FallbackStrategy.js';
+import * as PPLiteralFormat from './LiteralFormat.js';
 
 /**
  * Module tag
@@ -226,3 +234,251 @@ export const dateAndRegExp: Type = make({
     MMatch.orElse(() => Option.none<string>()),
   ),
 });
+
+/**
+ * Constructor of a `PPByPasser` instance that applies `strategy` (see `PPFallbackStrategy`) to any
+ * non-primitive value: it either throws or returns a `some` of the placeholder of `strategy`. Meant
+ * to be used for the non-primitive values that cannot be represented in a literal, e.g. functions
+ *
+ * @category Constructors
+ */
+export const fallback = (strategy: PPFallbackStrategy.Type): Type =>
+  make({
+    id: `FallbackWith${PPFallbackStrategy.id(strategy)}`,
+    action: ({ nonPrimitive, parameters }) =>
+      pipe(
+        strategy,
+        PPFallbackStrategy.apply(
+          `${parameters.name(nonPrimitive.content)} cannot be represented as a literal`,
+        ),
+        Option.some,
+      ),
+  });
+
+/**
+ * Constructor of a `PPByPasser` instance that:
+ *
+ * - Returns a `some` of the ISO string of a `Date` non-primitive value as a string literal of
+ *   `format`. For the `JavaScript` format, that string literal is passed to the `Date` constructor
+ *   (e.g. `new Date('1970-01-01T00:00:00.000Z')`). Invalid dates are represented as `null` (or `new
+ *   Date(NaN)` for the `JavaScript` format)
+ * - Returns a `some` of the result of calling `.toString()` on a `RegExp` non-primitive value for the
+ *   `JavaScript` format
+ * - Returns a `none` for all other non-primitive values
+ *
+ * @category Constructors
+ */
+export const literalDateAndRegExp = (format: PPLiteralFormat.Type): Type => {
+  const isJavaScript = format === PPLiteralFormat.Type.JavaScript;
+  const quote = PPLiteralFormat.quoteString(format);
+  return make({
+    id: `${PPLiteralFormat.Type[format]}LiteralDateAndRegExp`,
+    action: flow(
+      Struct.get('nonPrimitive'),
+      PPValue.content,
+      MMatch.make,
+      MMatch.when(Predicate.isDate, (d) => {
+        const isValid = !Number.isNaN(d.getTime());
+        if (!isJavaScript) return Option.some(isValid ? quote(d.toISOString()) : 'null');
+        return Option.some(`new Date(${isValid ? quote(d.toISOString()) : 'NaN'})`);
+      }),
+      MMatch.when(
+        (u): u is RegExp => isJavaScript && u instanceof RegExp,
+        (r) => Option.some(r.toString()),
+      ),
+      MMatch.orElse(() => Option.none<string>()),
+    ),
+  });
+};
+
+/**
+ * Constructor of a `PPByPasser` instance that:
+ *
+ * - Returns a `some` of the ISO string of a valid `Date` non-primitive value, which both YAML and
+ *   TOML read as a date-time. Invalid dates are represented as the string `Invalid Date` quoted as
+ *   required by `format`
+ * - Returns a `some` of the result of calling `.toString()` on a `RegExp` non-primitive value, quoted
+ *   as required by `format`
+ * - Returns a `none` for all other non-primitive values
+ *
+ * @category Constructors
+ */
+export const configDateAndRegExp = (format: PPConfigFormat.Type): Type => {
+  const quote = PPConfigFormat.quoteString(format);
+  return make({
+    id: `${PPConfigFormat.Type[format]}DateAndRegExp`,
+    action: flow(
+      Struct.get('nonPrimitive'),
+      PPValue.content,
+      MMatch.make,
+      MMatch.when(Predicate.isDate, (d) =>
+        Option.some(Number.isNaN(d.getTime()) ? quote('Invalid Date') : d.toISOString()),
+      ),
+      MMatch.when(
+        (u): u is RegExp => u instanceof RegExp,
+        (r) => Option.some(quote(r.toString())),
+      ),
+      MMatch.orElse(() => Option.none<string>()),
+    ),
+  });
+};
+
+/**
+ * `PPByPasser` instance that displays a `none` of effect's `Option` as `None`. Returns a `none` for
+ * all other non-primitive values. A `some` is handled by
+ * `PPNonPrimitiveParameters.effectOptionSome` so that its value is pretty-printed
+ *
+ * @category Instances
+ */
+export const effectNone: Type = make({
+  id: 'EffectNone',
+  action: flow(
+    Struct.get('nonPrimitive'),
+    PPValue.content,
+    Option.liftPredicate((u) => Option.isOption(u) && Option.isNone(u)),
+    Option.as('None'),
+  ),
+});
+
+/**
+ * `PPByPasser` instance that displays an effect `DateTime` as `DateTime.Utc(...)` or
+ * `DateTime.Zoned(...)` with its ISO representation between the parentheses, e.g.
+ * `DateTime.Utc(1970-01-01T00:00:00.000Z)`. Returns a `none` for all other non-primitive values
+ *
+ * @category Instances
+ */
+export const effectDateTime: Type = make({
+  id: 'EffectDateTime',
+  action: flow(
+    Struct.get('nonPrimitive'),
+    PPValue.content,
+    Option.liftPredicate(DateTime.isDateTime),
+    Option.map((d) =>
+      DateTime.isUtc(d)
+        ? `DateTime.Utc(${DateTime.formatIso(d)})`
+        : `DateTime.Zoned(${DateTime.formatIsoZoned(d)})`,
+    ),
+  ),
+});
+
+/** Parts of a `Duration` shown by `effectDuration`, with the singular name of their unit */
+const _durationUnits = [
+  ['days', 'day'],
+  ['hours', 'hour'],
+  ['minutes', 'minute'],
+  ['seconds', 'second'],
+  ['millis', 'millisecond'],
+  ['nanos', 'nanosecond'],
+] as const;
+
+/**
+ * `PPByPasser` instance that displays an effect `Duration` as the list of its non-null parts, e.g.
+ * `Duration(5 seconds)` or `Duration(1 minute 500 milliseconds)`. Infinite and null durations are
+ * displayed as `Duration(Infinity)` and `Duration(0)`. Returns a `none` for all other non-primitive
+ * values
+ *
+ * @category Instances
+ */
+export const effectDuration: Type = make({
+  id: 'EffectDuration',
+  action: flow(
+    Struct.get('nonPrimitive'),
+    PPValue.content,
+    Option.liftPredicate(Duration.isDuration),
+    Option.map((d) => {
+      if (!Duration.isFinite(d)) return 'Duration(Infinity)';
+      const parts = Duration.parts(d);
+      return pipe(
+        _durationUnits,
+        Array.filter(([part]) => parts[part] !== 0),
+        Array.map(
+          ([part, unit]) => `${parts[part]} ${unit}${Math.abs(parts[part]) === 1 ? '' : 's'}`,
+        ),
+        Array.match({
+          onEmpty: () => 'Duration(0)',
+          onNonEmpty: (units) => `Duration(${Array.join(units, ' ')})`,
+        }),
+      );
+    }),
+  ),
+});
+
+/**
+ * `PPByPasser` instance that displays an effect `Redacted` as `<redacted>` (or `<redacted:label>`
+ * if it was given a label), so its value never gets printed. Returns a `none` for all other
+ * non-primitive values
+ *
+ * @category Instances
+ */
+export const effectRedacted: Type = make({
+  id: 'EffectRedacted',
+  action: flow(
+    Struct.get('nonPrimitive'),
+    PPValue.content,
+    Option.liftPredicate(Redacted.isRedacted),
+    Option.map(({ label }) => (label === undefined ? '<redacted>' : `<redacted:${label}>`)),
+  ),
+});
+
+/**
+ * `PPByPasser` instance that displays a `CVDateTime` as `CVDateTime(...)` with its ISO
+ * representation between the parentheses, e.g. `CVDateTime(1970-01-01T00:00:00.000+00:00)`. Returns
+ * a `none` for all other non-primitive values
+ *
+ * @category Instances
+ */
+export const cvDateTime: Type = make({
+  id: 'CVDateTime',
+  action: flow(
+    Struct.get('nonPrimitive'),
+    PPValue.content,
+    Option.liftPredicate((u): u is CVDateTime.Type => u instanceof CVDateTime.Type),
+    Option.map((d) => `CVDateTime(${CVDateTime.getIsoString(d)})`),
+  ),
+});
+
+/**
+ * `PPByPasser` instance that displays an `ASText` as `ASText(...)` with its unstyled text between
+ * the parentheses, formatted as a string by the `primitiveFormatter` of the `PPParameters` in use,
+ * e.g. `ASText('foo')`. Returns a `none` for all other non-primitive values
+ *
+ * @category Instances
+ */
+export const asText: Type = make({
+  id: 'ASText',
+  action: ({ nonPrimitive, parameters }) =>
+    pipe(
+      nonPrimitive.content,
+      Option.liftPredicate((u): u is ASText.Type => u instanceof ASText.Type),
+      Option.map(
+        flow(
+          ASText.toUnstyledString,
+          PPValue.fromTopValue,
+          parameters.primitiveFormatter.action,
+          (s) => `ASText(${s})`,
+        ),
+      ),
+    ),
+});
+
+/**
+ * `PPByPasser` instance that merges `effectNone`, `effectDateTime`, `effectDuration`,
+ * `effectRedacted`, `cvDateTime`, `asText` and `dateAndRegExp`. It therefore handles the atomic
+ * effect data types as well as the dates and regular expressions handled by default. Container
+ * types are handled by `PPNonPrimitiveParameters` instances (see e.g.
+ * `PPNonPrimitiveParameters.effectOptionSome`) so that their contents get pretty-printed
+ *
+ * @category Instances
+ */
+export const effectDataTypes: Type = merge({
+  id: 'EffectDataTypes',
+  byPassers: [
+    effectNone,
+    effectDateTime,
+    effectDuration,
+    effectRedacted,
+    cvDateTime,
+    asText,
+    dateAndRegExp,
+  ],
+});
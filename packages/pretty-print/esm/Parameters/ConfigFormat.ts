@@ -0,0 +1,93 @@
+/**
+ * This module implements a type that represents the configuration-file formats that the YAML and
+ * TOML presets of `PPParameters` (see `PPParameters.yaml` and `PPParameters.toml`) can emit, as
+ * well as the functions that quote strings and keys according to each format.
+ */
+
+import { pipe } from 'effect';
+
+import * as MRegExp from '@parischap/effect-lib/MRegExp';
+import * as MRegExpString from '@parischap/effect-lib/MRegExpString';
+import * as MString from '@parischap/effect-lib/MString';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+/**
+ * Type of a PPConfigFormat
+ *
+ * @category Models
+ */
+export enum Type {
+  /**
+   * Block-style YAML: strings are left unquoted when they cannot be mistaken for another scalar,
+   * single-quoted otherwise and double-quoted when they contain control characters. Multi-line
+   * strings are written as literal block scalars by `PPPrimitiveFormatter.yaml`
+   */
+  YAML = 0,
+  /**
+   * TOML: strings are always double-quoted. Keys made only of ASCII letters, digits, `_` and `-`
+   * are left unquoted
+   */
+  TOML = 1,
+}
+
+/**
+ * Regular expression matching the strings that can be written as plain YAML scalars. Reserved words
+ * are excluded by `yamlReservedWordRegExp`
+ */
+const yamlPlainRegExp = pipe(
+  MRegExpString.anyCharIn([MRegExpString.anyWordLetter, ' ', '.', '/', '-']),
+  MRegExpString.zeroOrMore,
+  MString.append(MRegExpString.anyCharIn([MRegExpString.anyWordLetter, '.', '/', '-'])),
+  MRegExpString.optional,
+  MString.prepend(MRegExpString.either(MRegExpString.letter, '_')),
+  MRegExpString.makeLine,
+  MRegExp.fromRegExpString(),
+);
+
+/** Regular expression matching the plain YAML scalars that would be read as booleans or null */
+const yamlReservedWordRegExp = pipe(
+  MRegExpString.either('y', 'n', 'yes', 'no', 'true', 'false', 'on', 'off', 'null'),
+  MRegExpString.makeLine,
+  MRegExp.fromRegExpString('i'),
+);
+
+/** Regular expression matching the characters that cannot appear in a single-quoted YAML string */
+const yamlControlCharRegExp = pipe(
+  MRegExpString.anyCharIn([String.raw`\u0000-\u001F`, String.raw`\u007F-\u009F`]),
+  MRegExp.fromRegExpString(),
+);
+
+/** Regular expression matching the keys that can be left unquoted in TOML */
+const tomlBareKeyRegExp = pipe(
+  MRegExpString.anyCharIn([MRegExpString.anyWordLetter, '-']),
+  MRegExpString.oneOrMore,
+  MRegExpString.makeLine,
+  MRegExp.fromRegExpString(),
+);
+
+/**
+ * Returns a function that converts a string into a scalar of format `self`. For YAML, the string is
+ * left unquoted if possible, single-quoted if it contains no control characters and double-quoted
+ * otherwise. For TOML, the string is always double-quoted. Quotes, backslashes and control
+ * characters are escaped
+ *
+ * @category Destructors
+ */
+export const quoteString =
+  (self: Type): MTypes.OneArgFunction<string, string> =>
+  (s) => {
+    if (self === Type.TOML || yamlControlCharRegExp.test(s)) return JSON.stringify(s);
+    if (yamlPlainRegExp.test(s) && !yamlReservedWordRegExp.test(s)) return s;
+    return `'${s.replaceAll("'", "''")}'`;
+  };
+
+/**
+ * Returns a function that converts a property key into its representation in format `self`. YAML
+ * keys follow the same rules as YAML strings. TOML keys are unquoted when they are bare keys
+ *
+ * @category Destructors
+ */
+export const formatKey =
+  (self: Type): MTypes.OneArgFunction<string, string> =>
+  (key) =>
+    self === Type.TOML && tomlBareKeyRegExp.test(key) ? key : quoteString(self)(key);
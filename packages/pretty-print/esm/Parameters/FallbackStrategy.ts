@@ -0,0 +1,88 @@
+/**
+ * This module implements a type that tells the literal presets of `PPParameters` (see
+ * `PPParameters.literalMaker`) what to do when they meet a value that cannot be represented in the
+ * target format, e.g. a function or a circular reference:
+ *
+ * - `fail` makes the stringification throw an `MInputError`
+ * - `placeholder` replaces the value by a fixed text (`toNull` replaces it by `null`)
+ */
+
+import * as MInputError from '@parischap/effect-lib/MInputError';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+/**
+ * Module tag
+ *
+ * @category Module markers
+ */
+export const moduleTag = '@parischap/pretty-print/Parameters/FallbackStrategy/';
+
+/**
+ * Type of a `PPFallbackStrategy` that makes the stringification throw
+ *
+ * @category Models
+ */
+export interface Fail {
+  readonly _tag: 'Fail';
+}
+
+/**
+ * Type of a `PPFallbackStrategy` that replaces the value by `placeholder`
+ *
+ * @category Models
+ */
+export interface Placeholder {
+  readonly _tag: 'Placeholder';
+  /** Text that replaces the value. Must be valid in the target format (e.g. `null` or `'"?"'`) */
+  readonly placeholder: string;
+}
+
+/**
+ * Type of a `PPFallbackStrategy`
+ *
+ * @category Models
+ */
+export type Type = Fail | Placeholder;
+
+/**
+ * `PPFallbackStrategy` instance that makes the stringification throw
+ *
+ * @category Instances
+ */
+export const fail: Type = { _tag: 'Fail' };
+
+/**
+ * Constructs a `PPFallbackStrategy` that replaces the value by `placeholder`
+ *
+ * @category Constructors
+ */
+export const placeholder = (placeholder: string): Type => ({ _tag: 'Placeholder', placeholder });
+
+/**
+ * `PPFallbackStrategy` instance that replaces the value by `null`, which is valid in all the
+ * formats of `PPLiteralFormat`
+ *
+ * @category Instances
+ */
+export const toNull: Type = placeholder('null');
+
+/**
+ * Returns a string that identifies `self`. Useful to build the ids of the objects that use `self`
+ *
+ * @category Destructors
+ */
+export const id = (self: Type): string =>
+  self._tag === 'Fail' ? 'Fail' : `Placeholder/${self.placeholder}/`;
+
+/**
+ * Applies `self` to a value that cannot be represented: returns the placeholder text or throws an
+ * `MInputError` with message `message`
+ *
+ * @category Destructors
+ */
+export const apply =
+  (message: string): MTypes.OneArgFunction<Type, string> =>
+  (self) => {
+    if (self._tag === 'Placeholder') return self.placeholder;
+    throw new MInputError.Type({ message });
+  };
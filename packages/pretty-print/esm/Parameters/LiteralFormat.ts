@@ -0,0 +1,82 @@
+/**
+ * This module implements a type that represents the source formats that the literal presets of
+ * `PPParameters` (see `PPParameters.literalMaker`) can emit, as well as the functions that quote
+ * strings and keys according to each format.
+ */
+
+import { pipe } from 'effect';
+
+import * as MRegExp from '@parischap/effect-lib/MRegExp';
+import * as MRegExpString from '@parischap/effect-lib/MRegExpString';
+import * as MString from '@parischap/effect-lib/MString';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+/**
+ * Type of a PPLiteralFormat
+ *
+ * @category Models
+ */
+export enum Type {
+  /**
+   * Strict JSON: keys and strings in double quotes. `NaN`, `Infinity`, `-Infinity`, `undefined` and
+   * symbols are written as `null`. Bigints are written as JSON numbers
+   */
+  JSON = 0,
+  /**
+   * JSON5: keys that are valid identifiers are unquoted, other keys and strings are in single
+   * quotes. `NaN`, `Infinity` and `-Infinity` are kept. `undefined` and symbols are written as
+   * `null`. Bigints are written as JSON5 numbers
+   */
+  JSON5 = 1,
+  /**
+   * JavaScript literal: same as JSON5 except that `undefined`, bigints (e.g. `12n`), symbols (e.g.
+   * `Symbol('foo')`), dates (e.g. `new Date('1970-01-01T00:00:00.000Z')`) and regular expressions
+   * are kept
+   */
+  JavaScript = 2,
+}
+
+/** Regular expression matching the keys that can be left unquoted in JSON5 and JavaScript */
+const identifierRegExp = pipe(
+  MRegExpString.either(MRegExpString.anyWordLetter, MRegExpString.dollar),
+  MRegExpString.zeroOrMore,
+  MString.prepend(MRegExpString.either(MRegExpString.dollar, '_', MRegExpString.letter)),
+  MRegExpString.makeLine,
+  MRegExp.fromRegExpString(),
+);
+
+/**
+ * Regular expression matching, in the output of `JSON.stringify`, the escaped double quotes and the
+ * single quotes
+ */
+const quoteRegExp = pipe(
+  MRegExpString.either(MRegExpString.backslash + '"', "'"),
+  MRegExp.fromRegExpString('g'),
+);
+
+/**
+ * Returns a function that converts a string into a string literal of format `self`: double quotes
+ * for JSON, single quotes for JSON5 and JavaScript. Quotes, backslashes and control characters are
+ * escaped
+ *
+ * @category Destructors
+ */
+export const quoteString =
+  (self: Type): MTypes.OneArgFunction<string, string> =>
+  (s) => {
+    const doubleQuoted = JSON.stringify(s);
+    if (self === Type.JSON) return doubleQuoted;
+    // In the output of JSON.stringify, a `"` preceded by a backslash is always an escaped quote
+    return `'${doubleQuoted.slice(1, -1).replaceAll(quoteRegExp, (match) => (match === "'" ? String.raw`\'` : '"'))}'`;
+  };
+
+/**
+ * Returns a function that converts a property key into its representation in format `self`: always
+ * quoted in JSON, unquoted in JSON5 and JavaScript when it is a valid identifier
+ *
+ * @category Destructors
+ */
+export const formatKey =
+  (self: Type): MTypes.OneArgFunction<string, string> =>
+  (key) =>
+    self !== Type.JSON && identifierRegExp.test(key) ? key : quoteString(self)(key);
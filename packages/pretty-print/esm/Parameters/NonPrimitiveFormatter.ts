@@ -15,6 +15,7 @@ import * as Hash from 'effect/Hash';
 import * as Number from 'effect/Number';
 import * as Order from 'effect/Order';
 import * as Predicate from 'effect/Predicate';
+import * as String from 'effect/String';
 import * as Struct from 'effect/Struct';
 import * as Tuple from 'effect/Tuple';
 
@@ -22,6 +23,7 @@ import * as ASContextStyler from '@parischap/ansi-styles/ASContextStyler';
 import * as ASText from '@parischap/ansi-styles/ASText';
 import * as MData from '@parischap/effect-lib/MData';
 import * as MEquivalenceBasedEqualityData from '@parischap/effect-lib/MEquivalenceBasedEqualityData';
+import * as MFunction from '@parischap/effect-lib/MFunction';
 import * as MMatch from '@parischap/effect-lib/MMatch';
 import * as MString from '@parischap/effect-lib/MString';
 import * as MTuple from '@parischap/effect-lib/MTuple';
@@ -580,6 +582,54 @@ export const utilInspectLikeArray = splitOnTotalLength({
   nonPrimitiveValueClosingMark: ']',
 });
 
+/**
+ * Constructor that returns a `PPNonPrimitiveFormatter` instance that formats a non-primitive value
+ * like a call to constructor `name`, e.g. `Some(3)` or `NonLeaf('root', [])`. The value is printed
+ * on several lines if its length on a single line would exceed 80 characters. Uses two spaces as
+ * tab in that case
+ *
+ * @category Constructors
+ */
+export const constructorLike = (name: string): Type => {
+  const nonPrimitiveValueOpeningMark = `${name}(`;
+  const singleLineFormatter = singleLine({
+    inBetweenPropertySeparatorMark: ', ',
+    nonPrimitiveValueOpeningMark,
+    nonPrimitiveValueClosingMark: ')',
+    singleLineSpacingMark: '',
+  });
+  const multiLineFormatter = tabify({
+    inBetweenPropertySeparatorMark: defaultParams.inBetweenPropertySeparatorMark,
+    nonPrimitiveValueOpeningMark,
+    nonPrimitiveValueClosingMark: ')',
+    tabMark: defaultParams.tabMark,
+  });
+  return make({
+    id: `ConstructorLikeWith/${name}/Name`,
+    action: (params) => {
+      const singleLined = singleLineFormatter.action(params);
+      return PPStringifiedValue.toLength(singleLined) <= defaultParams.limit
+        ? singleLined
+        : multiLineFormatter.action(params);
+    },
+  });
+};
+
+/**
+ * Constructor that returns a `PPNonPrimitiveFormatter` instance that formats a non-primitive value
+ * as a JavaScript call to constructor `name` whose only argument is the array of the properties of
+ * that value, e.g. `new Set([ 1, 2 ])`. The value is split on several lines in the same conditions
+ * as `utilInspectLikeArray`
+ *
+ * @category Constructors
+ */
+export const javaScriptNewWithArray = (name: string): Type =>
+  splitOnTotalLength({
+    ...defaultParams,
+    nonPrimitiveValueOpeningMark: `new ${name}([`,
+    nonPrimitiveValueClosingMark: '])',
+  });
+
 /**
  * NonPrimitiveFormatter instance that treeifies a non-primitive value: no header, no value marks,
  * no inBetweenProperty separator. Tabs are replaced by lines.
@@ -592,3 +642,134 @@ export const usualTreeify = treeify({
   treeIndentForFirstLineOfLastPropMark: '└─ ',
   treeIndentForTailLinesOfLastPropMark: '   ',
 });
+
+/**
+ * Constructor that returns a `PPNonPrimitiveFormatter` instance that prints a non-primitive value
+ * as a block-style YAML collection. Meant to be used with `PPPropertyFormatter.yaml`:
+ *
+ * - An empty non-primitive value is printed on a single line as `emptyNonPrimitiveValueMark`,
+ *   preceded by the header if it is not empty (e.g. `&1 {}`)
+ * - The lines of the properties of a non-empty non-primitive value are printed one after the other.
+ *   The header is printed on a line of its own before them. Unless the non-primitive value is the
+ *   top-level value, that line is printed even when the header is empty so that
+ *   `PPPropertyFormatter.yaml` can tell a non-empty non-primitive value from a single-line one
+ * - When the top-level value ends with a `|+` block scalar, an empty line is added after its
+ *   properties so that the trailing line feeds of that block scalar are all kept
+ *
+ * @category Constructors
+ */
+export const yamlBlock = ({
+  emptyNonPrimitiveValueMark,
+}: {
+  /** Mark used to represent an empty non-primitive value */
+  readonly emptyNonPrimitiveValueMark: string;
+}): Type =>
+  make({
+    id: `YAMLBlockWith/${emptyNonPrimitiveValueMark}/Mark`,
+    action: ({ nonPrimitive, header, stringifiedProperties, parameters }) => {
+      const { styleMap } = parameters;
+      const fromPartNameStyler = (partName: PPPartName.Type) =>
+        pipe(
+          styleMap,
+          PPStyleMap.get(partName),
+          ASContextStyler.style,
+          Function.apply(nonPrimitive),
+        );
+      const styledHeader = header();
+
+      return Array.match(stringifiedProperties, {
+        onEmpty: () =>
+          pipe(
+            emptyNonPrimitiveValueMark,
+            fromPartNameStyler('NonPrimitiveValueMarks'),
+            Array.make,
+            Array.prepend(styledHeader),
+            ASText.removeEmptyAndJoin(
+              pipe(parameters.headerSeparatorMark, fromPartNameStyler('Tag')),
+            ),
+            PPStringifiedValue.fromText,
+          ),
+        onNonEmpty: (nonEmptyStringifiedProperties) => {
+          const stringifiedValue = PPStringifiedValue.fromFlattenedStringifiedProperties(
+            nonEmptyStringifiedProperties,
+          );
+          return pipe(
+            stringifiedValue,
+            MFunction.fIfTrue({
+              condition: nonPrimitive.depth > 0 || !ASText.isEmpty(styledHeader),
+              f: PPStringifiedValue.addLineBefore(styledHeader),
+            }),
+            // A last empty line can only end a `|+` block scalar. As the last line of a document is
+            // not followed by a line feed, an empty line must be added for it to be kept
+            MFunction.fIfTrue({
+              condition:
+                nonPrimitive.depth === 0 &&
+                ASText.isEmpty(PPStringifiedValue.lastLine(stringifiedValue)),
+              f: PPStringifiedValue.addLineAfter(ASText.empty),
+            }),
+          );
+        },
+      });
+    },
+  });
+
+/**
+ * NonPrimitiveFormatter instance that prints a non-primitive value as a block-style YAML mapping.
+ * Empty mappings are printed as `{}`
+ *
+ * @category Instances
+ */
+export const yamlMapping = yamlBlock({ emptyNonPrimitiveValueMark: '{}' });
+
+/**
+ * NonPrimitiveFormatter instance that prints a non-primitive value as a block-style YAML sequence.
+ * Empty sequences are printed as `[]`
+ *
+ * @category Instances
+ */
+export const yamlSequence = yamlBlock({ emptyNonPrimitiveValueMark: '[]' });
+
+/**
+ * NonPrimitiveFormatter instance that prints a non-primitive value as a TOML table. Meant to be
+ * used with `PPPropertyFormatter.toml`. The lines of the properties are printed one after the
+ * other, except sections (i.e. properties whose first line is a `[key]` table header) which are
+ * moved after all other properties, as required by TOML, and separated from what precedes them by
+ * an empty line
+ *
+ * @category Instances
+ */
+export const tomlTable: Type = make({
+  id: 'TOMLTable',
+  action: ({ stringifiedProperties }) => {
+    const isSection: Predicate.Predicate<PPStringifiedValue.Type> = flow(
+      PPStringifiedValue.firstLine,
+      ASText.toUnstyledString,
+      String.startsWith('['),
+    );
+    const keyValuePairs = Array.filter(stringifiedProperties, Predicate.not(isSection));
+    const sections = Array.filter(stringifiedProperties, isSection);
+    return pipe(
+      sections,
+      Array.map((section, index) =>
+        index === 0 && !Array.isReadonlyArrayNonEmpty(keyValuePairs)
+          ? section
+          : pipe(section, PPStringifiedValue.addLineBefore(ASText.empty)),
+      ),
+      Array.prependAll(keyValuePairs),
+      PPStringifiedValue.fromFlattenedStringifiedProperties,
+    );
+  },
+});
+
+/**
+ * NonPrimitiveFormatter instance that prints a non-primitive value as a TOML array on a single
+ * line, e.g. `[ 1, 2 ]`
+ *
+ * @category Instances
+ */
+export const tomlArray = singleLine({
+  inBetweenPropertySeparatorMark: ',',
+  nonPrimitiveValueOpeningMark: '[',
+  nonPrimitiveValueClosingMark: ']',
+  singleLineSpacingMark: ' ',
+});
@@ -12,22 +12,29 @@
  */
 
 import * as Array from 'effect/Array';
+import * as Cause from 'effect/Cause';
 import type * as Equivalence from 'effect/Equivalence';
 import * as Function from 'effect/Function';
 import * as Hash from 'effect/Hash';
-import type * as Option from 'effect/Option';
+import * as Option from 'effect/Option';
 import * as Predicate from 'effect/Predicate';
+import * as Result from 'effect/Result';
 import * as Struct from 'effect/Struct';
 
 import * as MData from '@parischap/effect-lib/MData';
 import * as MEquivalenceBasedEqualityData from '@parischap/effect-lib/MEquivalenceBasedEqualityData';
+import * as MTreeLeaf from '@parischap/effect-lib/MTreeLeaf';
+import * as MTreeNonLeaf from '@parischap/effect-lib/MTreeNonLeaf';
 import type * as MTypes from '@parischap/effect-lib/MTypes';
 
-import type * as PPPropertyFilter from './PropertyFilter.js';
 import type * as PPValueOrder from './ValueOrder.js';
 
 import * as PPByPasser from './ByPasser.js';
+import * as PPConfigFormat from './ConfigFormat.js';
+import * as PPFallbackStrategy from './FallbackStrategy.js';
+import * as PPLiteralFormat from './LiteralFormat.js';
 import * as PPNonPrimitiveFormatter from './NonPrimitiveFormatter.js';
+import * as PPPropertyFilter from './PropertyFilter.js';
 import * as PPPropertyFormatter from './PropertyFormatter.js';
 import * as PPPropertyNumberDisplayOption from './PropertyNumberDisplayOption.js';
 
@@ -148,6 +155,25 @@ export class Type extends MEquivalenceBasedEqualityData.Class {
    */
   declare readonly extractIterableElements?: boolean;
 
+  /**
+   * When `true`, the elements extracted via iteration from a non-primitive value other than an
+   * array that are two-element tuples `[key, value]` are shown as a property with key `key` and
+   * value `value` (this is the Map case). When `false`, they are shown as the value of a property
+   * with an auto-generated key, like any other element. Defaults to `true`.
+   */
+  declare readonly splitKeyValuePairs?: boolean;
+
+  /**
+   * When `some`, the non-primitive value is considered as a mere wrapper of the elements returned
+   * by the contained function: these elements are shown as its properties, with auto-generated
+   * keys, in place of its own properties and iterable elements. They have the same depth as the
+   * wrapper so that neither the wrapper nor the array it may hold count toward `maxDepth`. Example:
+   * the reasons of an effect `Cause`. Defaults to `none`.
+   */
+  declare readonly wrappedElements?: Option.Option<
+    MTypes.OneArgFunction<MTypes.ReadonlyNonPrimitive, ReadonlyArray<unknown>>
+  >;
+
   /** Returns the `id` of `this` */
   [MData.idSymbol](): string | (() => string) {
     return function idSymbol(this: Type) {
@@ -294,3 +320,400 @@ export const treeifyHideLeaves: Type = make({
   propertyFormatter: PPPropertyFormatter.usualTreeifyHideLeaves,
   hideAutoGeneratedKeys: false,
 });
+
+/**
+ * Constructor of a `PPNonPrimitiveParameters` instance for functions in literal output (see
+ * `PPParameters.literalMaker`). As functions cannot be represented in a literal, `strategy` decides
+ * whether the stringification throws or replaces them by a placeholder
+ *
+ * @category Constructors
+ */
+export const literalFunction = (strategy: PPFallbackStrategy.Type): Type =>
+  make({
+    id: `LiteralFunctionWith${PPFallbackStrategy.id(strategy)}`,
+    isApplicableTo: Predicate.isFunction,
+    byPasser: PPByPasser.fallback(strategy),
+  });
+
+/**
+ * Constructor of a `PPNonPrimitiveParameters` instance for maps and sets in JSON and JSON5 output
+ * (see `PPParameters.literalMaker`). As these formats have no representation for maps and sets,
+ * `strategy` decides whether the stringification throws or replaces them by a placeholder
+ *
+ * @category Constructors
+ */
+export const literalMapAndSet = (strategy: PPFallbackStrategy.Type): Type =>
+  make({
+    id: `LiteralMapAndSetWith${PPFallbackStrategy.id(strategy)}`,
+    isApplicableTo: (u) => Predicate.isMap(u) || Predicate.isSet(u),
+    byPasser: PPByPasser.fallback(strategy),
+  });
+
+/**
+ * Constructor of a `PPNonPrimitiveParameters` instance for regular expressions in JSON and JSON5
+ * output (see `PPParameters.literalMaker`). As these formats have no representation for regular
+ * expressions, `strategy` decides whether the stringification throws or replaces them by a
+ * placeholder
+ *
+ * @category Constructors
+ */
+export const literalRegExp = (strategy: PPFallbackStrategy.Type): Type =>
+  make({
+    id: `LiteralRegExpWith${PPFallbackStrategy.id(strategy)}`,
+    isApplicableTo: Predicate.isRegExp,
+    byPasser: PPByPasser.fallback(strategy),
+  });
+
+/**
+ * Constructor of a `PPNonPrimitiveParameters` instance that displays the non-primitive values that
+ * fulfill `isApplicableTo` in JavaScript literal output as a call to constructor `name` whose
+ * argument is the array of their iterable elements, e.g. `new Set([ 1, 2 ])`. Key/value pairs are
+ * not split so each entry of a map is shown as an array, e.g. `new Map([ [ 'a', 1 ] ])`
+ */
+const _javaScriptLiteralNew = ({
+  name,
+  isApplicableTo,
+}: {
+  readonly name: string;
+  readonly isApplicableTo: Predicate.Predicate<MTypes.ReadonlyNonPrimitive>;
+}): Type =>
+  make({
+    id: `JavaScriptLiteral${name}`,
+    isApplicableTo,
+    nonPrimitiveFormatter: PPNonPrimitiveFormatter.javaScriptNewWithArray(name),
+    propertyFormatter: PPPropertyFormatter.literal(PPLiteralFormat.Type.JavaScript),
+    maxPrototypeDepth: 0,
+    extractIterableElements: true,
+    splitKeyValuePairs: false,
+  });
+
+/**
+ * `PPNonPrimitiveParameters` instance for maps in JavaScript literal output (see
+ * `PPParameters.literalMaker`), e.g. `new Map([ [ 'a', 1 ] ])`
+ *
+ * Note: this instance must be placed **before** `literalRecord` in the
+ * `nonPrimitiveParametersArray` (lower index = higher priority during merge).
+ *
+ * @category Instances
+ */
+export const javaScriptLiteralMap: Type = _javaScriptLiteralNew({
+  name: 'Map',
+  isApplicableTo: Predicate.isMap,
+});
+
+/**
+ * `PPNonPrimitiveParameters` instance for sets in JavaScript literal output (see
+ * `PPParameters.literalMaker`), e.g. `new Set([ 1, 2 ])`
+ *
+ * Note: this instance must be placed **before** `literalRecord` in the
+ * `nonPrimitiveParametersArray` (lower index = higher priority during merge).
+ *
+ * @category Instances
+ */
+export const javaScriptLiteralSet: Type = _javaScriptLiteralNew({
+  name: 'Set',
+  isApplicableTo: Predicate.isSet,
+});
+
+/**
+ * Constructor of a `PPNonPrimitiveParameters` instance for arrays in literal output (see
+ * `PPParameters.literalMaker`). Only the elements of arrays are shown, e.g. `[ 1, 2 ]`
+ *
+ * Note: this instance must be placed **before** `literalRecord` in the
+ * `nonPrimitiveParametersArray` (lower index = higher priority during merge).
+ *
+ * @category Constructors
+ */
+export const literalArray = (format: PPLiteralFormat.Type): Type =>
+  make({
+    id: `${PPLiteralFormat.Type[format]}LiteralArray`,
+    isApplicableTo: Array.isArray,
+    nonPrimitiveFormatter: PPNonPrimitiveFormatter.utilInspectLikeArray,
+    propertyFormatter: PPPropertyFormatter.literal(format),
+    maxPrototypeDepth: 0,
+    extractIterableElements: true,
+  });
+
+/**
+ * Catch-all constructor of a `PPNonPrimitiveParameters` instance for literal output (see
+ * `PPParameters.literalMaker`). Non-primitive values are shown as records of their own enumerable
+ * properties with a string key, keys being quoted as required by `format`, e.g. `{ "a": 1 }` in
+ * JSON. Other iterables than arrays are not iterated, as `JSON.stringify` does: maps and sets must
+ * therefore be handled by `literalMapAndSet`, `javaScriptLiteralMap` or `javaScriptLiteralSet`.
+ * Dates and, for the `JavaScript` format, regular expressions are handled by
+ * `PPByPasser.literalDateAndRegExp`. In JSON and JSON5, regular expressions must be handled by
+ * `literalRegExp`.
+ *
+ * @category Constructors
+ */
+export const literalRecord = (format: PPLiteralFormat.Type): Type =>
+  make({
+    id: `${PPLiteralFormat.Type[format]}LiteralRecord`,
+    isApplicableTo: Function.constTrue,
+    byPasser: PPByPasser.literalDateAndRegExp(format),
+    propertyFilter: PPPropertyFilter.merge({
+      id: 'RemoveNonEnumerablesAndSymbolicKeys',
+      filters: [PPPropertyFilter.removeNonEnumerables, PPPropertyFilter.removeSymbolicKeys],
+    }),
+    propertyFormatter: PPPropertyFormatter.literal(format),
+    maxPrototypeDepth: 1,
+    extractIterableElements: false,
+  });
+
+/**
+ * Property filter used by the YAML and TOML presets: keeps only the enumerable properties with a
+ * string key whose value is not a function
+ */
+const _configPropertyFilter: PPPropertyFilter.Type = PPPropertyFilter.merge({
+  id: 'RemoveNonEnumerablesSymbolicKeysAndFunctions',
+  filters: [
+    PPPropertyFilter.removeNonEnumerables,
+    PPPropertyFilter.removeSymbolicKeys,
+    PPPropertyFilter.removeFunctions,
+  ],
+});
+
+/**
+ * `PPNonPrimitiveParameters` instance for arrays in YAML output (see `PPParameters.yaml`). Arrays
+ * are shown as block sequences of their elements, e.g. `- 1`
+ *
+ * Note: this instance must be placed **before** `yamlRecord` in the `nonPrimitiveParametersArray`
+ * (lower index = higher priority during merge).
+ *
+ * @category Instances
+ */
+export const yamlArray: Type = make({
+  id: 'YAMLArray',
+  isApplicableTo: Array.isArray,
+  nonPrimitiveFormatter: PPNonPrimitiveFormatter.yamlSequence,
+  maxPrototypeDepth: 0,
+  extractIterableElements: true,
+});
+
+/**
+ * Catch-all `PPNonPrimitiveParameters` instance for YAML output (see `PPParameters.yaml`).
+ * Non-primitive values are shown as block mappings of their own enumerable properties with a string
+ * key, e.g. `a: 1`. Functions are removed. Other iterables than arrays (e.g. maps and sets) are not
+ * iterated. Dates and regular expressions are handled by `PPByPasser.configDateAndRegExp`.
+ *
+ * @category Instances
+ */
+export const yamlRecord: Type = make({
+  id: 'YAMLRecord',
+  isApplicableTo: Function.constTrue,
+  byPasser: PPByPasser.configDateAndRegExp(PPConfigFormat.Type.YAML),
+  nonPrimitiveFormatter: PPNonPrimitiveFormatter.yamlMapping,
+  propertyFilter: _configPropertyFilter,
+  propertyFormatter: PPPropertyFormatter.yaml,
+  maxPrototypeDepth: 1,
+  extractIterableElements: false,
+});
+
+/**
+ * `PPNonPrimitiveParameters` instance for arrays in TOML output (see `PPParameters.toml`). Arrays
+ * are shown as single-line arrays of their elements, e.g. `[ 1, 2 ]`
+ *
+ * Note: this instance must be placed **before** `tomlRecord` in the `nonPrimitiveParametersArray`
+ * (lower index = higher priority during merge).
+ *
+ * @category Instances
+ */
+export const tomlArray: Type = make({
+  id: 'TOMLArray',
+  isApplicableTo: Array.isArray,
+  nonPrimitiveFormatter: PPNonPrimitiveFormatter.tomlArray,
+  maxPrototypeDepth: 0,
+  extractIterableElements: true,
+});
+
+/**
+ * Catch-all `PPNonPrimitiveParameters` instance for TOML output (see `PPParameters.toml`).
+ * Non-primitive values are shown as tables of their own enumerable properties with a string key.
+ * Functions and properties whose value is `null` or `undefined`, which TOML cannot represent, are
+ * removed. Other iterables than arrays (e.g. maps and sets) are not iterated. Dates and regular
+ * expressions are handled by `PPByPasser.configDateAndRegExp`.
+ *
+ * @category Instances
+ */
+export const tomlRecord: Type = make({
+  id: 'TOMLRecord',
+  isApplicableTo: Function.constTrue,
+  byPasser: PPByPasser.configDateAndRegExp(PPConfigFormat.Type.TOML),
+  nonPrimitiveFormatter: PPNonPrimitiveFormatter.tomlTable,
+  propertyFilter: PPPropertyFilter.merge({
+    id: 'RemoveNonEnumerablesSymbolicKeysFunctionsAndNullishValues',
+    filters: [_configPropertyFilter, PPPropertyFilter.removeNullishValues],
+  }),
+  propertyFormatter: PPPropertyFormatter.toml,
+  maxPrototypeDepth: 1,
+  extractIterableElements: false,
+});
+
+/**
+ * Constructor of a `PPNonPrimitiveParameters` instance that displays the non-primitive values that
+ * fulfill `isApplicableTo` like a call to constructor `name` whose arguments are the values of the
+ * properties with a key in `keys`, e.g. `Some(3)`. Those values are pretty-printed in turn. The
+ * fields that `utilInspectLikeIterable` sets are all overridden, so the returned instance must be
+ * placed **before** it in the `nonPrimitiveParametersArray`
+ */
+const _constructorLike = ({
+  id,
+  name,
+  isApplicableTo,
+  keys,
+}: {
+  readonly id: string;
+  readonly name: string;
+  readonly isApplicableTo: Predicate.Predicate<MTypes.ReadonlyNonPrimitive>;
+  readonly keys: MTypes.OverOne<string>;
+}): Type =>
+  make({
+    id,
+    isApplicableTo,
+    showName: false,
+    propertyNumberDisplayOption: PPPropertyNumberDisplayOption.Type.None,
+    nonPrimitiveFormatter: PPNonPrimitiveFormatter.constructorLike(name),
+    propertyFilter: PPPropertyFilter.removeNotFulfillingKeyPredicateMaker({
+      id: `Keep${Array.join(keys, 'And')}`,
+      predicate: (key) => Array.contains(keys, key),
+    }),
+    propertyFormatter: PPPropertyFormatter.valueOnly,
+    maxPrototypeDepth: 1,
+    extractIterableElements: false,
+  });
+
+/**
+ * `PPNonPrimitiveParameters` instance that displays a `some` of effect's `Option` as `Some(...)`,
+ * e.g. `Some(3)`. A `none` is handled by `PPByPasser.effectNone`
+ *
+ * @category Instances
+ */
+export const effectOptionSome: Type = _constructorLike({
+  id: 'EffectOptionSome',
+  name: 'Some',
+  isApplicableTo: (u) => Option.isOption(u) && Option.isSome(u),
+  keys: ['value'],
+});
+
+/**
+ * `PPNonPrimitiveParameters` instance that displays a success of effect's `Result` as
+ * `Success(...)`, e.g. `Success(3)`
+ *
+ * @category Instances
+ */
+export const effectResultSuccess: Type = _constructorLike({
+  id: 'EffectResultSuccess',
+  name: 'Success',
+  isApplicableTo: (u) => Result.isResult(u) && Result.isSuccess(u),
+  keys: ['success'],
+});
+
+/**
+ * `PPNonPrimitiveParameters` instance that displays a failure of effect's `Result` as
+ * `Failure(...)`, e.g. `Failure('error')`
+ *
+ * @category Instances
+ */
+export const effectResultFailure: Type = _constructorLike({
+  id: 'EffectResultFailure',
+  name: 'Failure',
+  isApplicableTo: (u) => Result.isResult(u) && Result.isFailure(u),
+  keys: ['failure'],
+});
+
+/**
+ * `PPNonPrimitiveParameters` instance that displays an effect `Cause` as `Cause(...)` with its
+ * reasons between the parentheses, e.g. `Cause(Fail('error'))`. Neither the `Cause` nor the array
+ * of its reasons count toward `maxDepth`. Reasons are handled by `effectCauseFail`,
+ * `effectCauseDie` and `effectCauseInterrupt`
+ *
+ * @category Instances
+ */
+export const effectCause: Type = make({
+  id: 'EffectCause',
+  isApplicableTo: Cause.isCause,
+  showName: false,
+  propertyNumberDisplayOption: PPPropertyNumberDisplayOption.Type.None,
+  nonPrimitiveFormatter: PPNonPrimitiveFormatter.constructorLike('Cause'),
+  propertyFilter: PPPropertyFilter.none,
+  propertyFormatter: PPPropertyFormatter.valueOnly,
+  wrappedElements: Option.some((u) => (u as Cause.Cause<unknown>).reasons),
+});
+
+/**
+ * `PPNonPrimitiveParameters` instance that displays a `Fail` reason of an effect `Cause` as
+ * `Fail(...)`, e.g. `Fail('error')`
+ *
+ * @category Instances
+ */
+export const effectCauseFail: Type = _constructorLike({
+  id: 'EffectCauseFail',
+  name: 'Fail',
+  isApplicableTo: (u) => Cause.isReason(u) && Cause.isFailReason(u),
+  keys: ['error'],
+});
+
+/**
+ * `PPNonPrimitiveParameters` instance that displays a `Die` reason of an effect `Cause` as
+ * `Die(...)` with the defect between the parentheses
+ *
+ * @category Instances
+ */
+export const effectCauseDie: Type = _constructorLike({
+  id: 'EffectCauseDie',
+  name: 'Die',
+  isApplicableTo: (u) => Cause.isReason(u) && Cause.isDieReason(u),
+  keys: ['defect'],
+});
+
+/**
+ * `PPNonPrimitiveParameters` instance that displays an `Interrupt` reason of an effect `Cause` as
+ * `Interrupt(...)` with the id of the interrupting fiber between the parentheses
+ *
+ * @category Instances
+ */
+export const effectCauseInterrupt: Type = _constructorLike({
+  id: 'EffectCauseInterrupt',
+  name: 'Interrupt',
+  isApplicableTo: (u) => Cause.isReason(u) && Cause.isInterruptReason(u),
+  keys: ['fiberId'],
+});
+
+/**
+ * `PPNonPrimitiveParameters` instance that displays an `MTreeLeaf` as `Leaf(...)`, e.g. `Leaf(3)`
+ *
+ * @category Instances
+ */
+export const treeLeaf: Type = _constructorLike({
+  id: 'TreeLeaf',
+  name: 'Leaf',
+  isApplicableTo: (u) => u instanceof MTreeLeaf.Type,
+  keys: ['value'],
+});
+
+/**
+ * `PPNonPrimitiveParameters` instance that displays an `MTreeNonLeaf` as `NonLeaf(...)` with its
+ * value and its forest between the parentheses, e.g. `NonLeaf('root', [ Leaf(1), Leaf(2) ])`
+ *
+ * @category Instances
+ */
+export const treeNonLeaf: Type = _constructorLike({
+  id: 'TreeNonLeaf',
+  name: 'NonLeaf',
+  isApplicableTo: (u) => u instanceof MTreeNonLeaf.Type,
+  keys: ['value', 'forest'],
+});
+
+/**
+ * Catch-all `PPNonPrimitiveParameters` instance that sets `PPByPasser.effectDataTypes` as
+ * `byPasser`, so that the atomic effect data types (`None`, `DateTime`, `Duration`, `Redacted`) as
+ * well as `CVDateTime`'s and `ASText`'s are displayed in a readable way. Must be placed **after**
+ * the instances that set another `byPasser`, e.g. `utilInspectLikeFunction`
+ *
+ * @category Instances
+ */
+export const effectDataTypes: Type = make({
+  id: 'EffectDataTypes',
+  isApplicableTo: Function.constTrue,
+  byPasser: PPByPasser.effectDataTypes,
+});
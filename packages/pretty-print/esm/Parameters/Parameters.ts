@@ -25,6 +25,8 @@ import * as MString from '@parischap/effect-lib/MString';
 import * as MStruct from '@parischap/effect-lib/MStruct';
 import type * as MTypes from '@parischap/effect-lib/MTypes';
 
+import * as PPFallbackStrategy from './FallbackStrategy.js';
+import * as PPLiteralFormat from './LiteralFormat.js';
 import * as PPNonPrimitiveParameters from './NonPrimitiveParameters.js';
 import * as PPPrimitiveFormatter from './PrimitiveFormatter.js';
 import * as PPStyleMap from './StyleMap.js';
@@ -117,6 +119,14 @@ export class Type extends MEquivalenceBasedEqualityData.Class {
    */
   readonly circularAnchorClosingMark: string;
 
+  /**
+   * When `none`, circular references are shown with `circularReferenceTag` and the circular anchor
+   * marks as `util.inspect` does. When `some`, the contained `PPFallbackStrategy` is applied to
+   * circular references instead (no anchor is shown): the stringification either throws or replaces
+   * them by a placeholder. Useful for outputs that must remain valid literals
+   */
+  readonly circularReferenceStrategy: Option.Option<PPFallbackStrategy.Type>;
+
   /**
    * Separator inserted between the header of a non-primitive value and the opening bracket of its
    * properties (e.g. the space in `Map(2) { 'a' => 1 }`)
@@ -162,6 +172,7 @@ export class Type extends MEquivalenceBasedEqualityData.Class {
     circularReferenceTag,
     circularAnchorOpeningMark,
     circularAnchorClosingMark,
+    circularReferenceStrategy,
     headerSeparatorMark,
     propertyNumberSeparatorMark,
     propertyNumberOpeningMark,
@@ -179,6 +190,7 @@ export class Type extends MEquivalenceBasedEqualityData.Class {
     this.circularReferenceTag = circularReferenceTag;
     this.circularAnchorOpeningMark = circularAnchorOpeningMark;
     this.circularAnchorClosingMark = circularAnchorClosingMark;
+    this.circularReferenceStrategy = circularReferenceStrategy;
     this.headerSeparatorMark = headerSeparatorMark;
     this.propertyNumberSeparatorMark = propertyNumberSeparatorMark;
     this.propertyNumberOpeningMark = propertyNumberOpeningMark;
@@ -240,7 +252,9 @@ export const styleMap: MTypes.OneArgFunction<Type, PPStyleMap.Type> = Struct.get
 
 /**
  * `PPParameters` instance that pretty-prints a value in a style very similar to `util.inspect`,
- * without any color styling
+ * without any color styling. Effect data types are displayed idiomatically, e.g. `Some(3)`,
+ * `Failure('error')` or `Duration(5 seconds)` (see `PPNonPrimitiveParameters.effectOptionSome` and
+ * the following instances, and `PPByPasser.effectDataTypes`)
  *
  * @category Instances
  */
@@ -278,6 +292,7 @@ export const utilInspectLike: Type = make({
   circularReferenceTag: 'Circular *',
   circularAnchorOpeningMark: '<Ref *',
   circularAnchorClosingMark: '>',
+  circularReferenceStrategy: Option.none(),
   headerSeparatorMark: ' ',
   propertyNumberSeparatorMark: ',',
   propertyNumberOpeningMark: '(',
@@ -287,8 +302,18 @@ export const utilInspectLike: Type = make({
   maxDepth: 2,
   nonPrimitiveParametersArray: Array.make(
     PPNonPrimitiveParameters.utilInspectLikeFunction,
+    PPNonPrimitiveParameters.effectOptionSome,
+    PPNonPrimitiveParameters.effectResultSuccess,
+    PPNonPrimitiveParameters.effectResultFailure,
+    PPNonPrimitiveParameters.effectCause,
+    PPNonPrimitiveParameters.effectCauseFail,
+    PPNonPrimitiveParameters.effectCauseDie,
+    PPNonPrimitiveParameters.effectCauseInterrupt,
+    PPNonPrimitiveParameters.treeLeaf,
+    PPNonPrimitiveParameters.treeNonLeaf,
     PPNonPrimitiveParameters.utilInspectLikeArray,
     PPNonPrimitiveParameters.utilInspectLikeIterable,
+    PPNonPrimitiveParameters.effectDataTypes,
   ),
 });
 
@@ -371,3 +396,187 @@ export const darkModeTreeifyHideLeaves: Type = pipe(
   }),
   make,
 );
+
+/**
+ * Constructor of a `PPParameters` instance whose output is valid source in `format`, e.g. to paste
+ * a dumped fixture into a test file:
+ *
+ * - Primitive values are formatted by `PPPrimitiveFormatter.literal`
+ * - Arrays are shown as arrays of their elements
+ * - For the `JavaScript` format, maps and sets are shown as constructor calls, e.g. `new Map([ [ 'a',
+ *   1 ] ])` and `new Set([ 1 ])`
+ * - Other non-primitive values are shown as records of their own enumerable properties with a string
+ *   key, except dates and, for the `JavaScript` format, regular expressions (see
+ *   `PPByPasser.literalDateAndRegExp`)
+ * - Functions, circular references and, for the `JSON` and `JSON5` formats, maps, sets and regular
+ *   expressions, which cannot be represented, are handled by `functionStrategy`,
+ *   `circularReferenceStrategy`, `mapAndSetStrategy` and `regExpStrategy` respectively. All four
+ *   default to `PPFallbackStrategy.toNull`, so the stringification does not throw unless you pass
+ *   `PPFallbackStrategy.fail`
+ *
+ * There is no depth limit. Non-primitive values are split on several lines as `util.inspect` does.
+ *
+ * @category Constructors
+ */
+export const literalMaker = ({
+  format,
+  functionStrategy = PPFallbackStrategy.toNull,
+  circularReferenceStrategy = PPFallbackStrategy.toNull,
+  mapAndSetStrategy = PPFallbackStrategy.toNull,
+  regExpStrategy = PPFallbackStrategy.toNull,
+}: {
+  readonly format: PPLiteralFormat.Type;
+  readonly functionStrategy?: PPFallbackStrategy.Type;
+  readonly circularReferenceStrategy?: PPFallbackStrategy.Type;
+  readonly mapAndSetStrategy?: PPFallbackStrategy.Type;
+  readonly regExpStrategy?: PPFallbackStrategy.Type;
+}): Type =>
+  pipe(
+    utilInspectLike,
+    MStruct.append({
+      id: `${PPLiteralFormat.Type[format]}LiteralWith${PPFallbackStrategy.id(functionStrategy)}For\
+Functions/${PPFallbackStrategy.id(circularReferenceStrategy)}ForCircularReferences/\
+${PPFallbackStrategy.id(mapAndSetStrategy)}ForMapsAndSets/${PPFallbackStrategy.id(regExpStrategy)}\
+ForRegExps`,
+      primitiveFormatter: PPPrimitiveFormatter.literal(format),
+      maxDepth: Infinity,
+      circularReferenceStrategy: Option.some(circularReferenceStrategy),
+      nonPrimitiveParametersArray: Array.make(
+        PPNonPrimitiveParameters.literalFunction(functionStrategy),
+        ...(format === PPLiteralFormat.Type.JavaScript
+          ? Array.make(
+              PPNonPrimitiveParameters.javaScriptLiteralMap,
+              PPNonPrimitiveParameters.javaScriptLiteralSet,
+            )
+          : Array.make(
+              PPNonPrimitiveParameters.literalMapAndSet(mapAndSetStrategy),
+              PPNonPrimitiveParameters.literalRegExp(regExpStrategy),
+            )),
+        PPNonPrimitiveParameters.literalArray(format),
+        PPNonPrimitiveParameters.literalRecord(format),
+      ),
+    }),
+    make,
+  );
+
+/**
+ * `PPParameters` instance whose output is valid JSON. Functions, circular references, maps, sets
+ * and regular expressions are written as `null`
+ *
+ * @category Instances
+ */
+export const json: Type = literalMaker({ format: PPLiteralFormat.Type.JSON });
+
+/**
+ * `PPParameters` instance whose output is valid JSON5. Functions, circular references, maps, sets
+ * and regular expressions are written as `null`
+ *
+ * @category Instances
+ */
+export const json5: Type = literalMaker({ format: PPLiteralFormat.Type.JSON5 });
+
+/**
+ * `PPParameters` instance whose output is a valid JavaScript literal. Functions and circular
+ * references are written as `null`
+ *
+ * @category Instances
+ */
+export const javaScript: Type = literalMaker({ format: PPLiteralFormat.Type.JavaScript });
+
+/**
+ * `PPParameters` instance whose output is a block-style YAML document, without any color styling:
+ *
+ * - Primitive values are formatted by `PPPrimitiveFormatter.yaml`. In particular, multi-line strings
+ *   are written as literal block scalars
+ * - Arrays are shown as block sequences of their elements
+ * - Other non-primitive values are shown as block mappings of their own enumerable properties with a
+ *   string key (maps and sets are therefore shown as `{}`), except dates and regular expressions
+ *   (see `PPByPasser.configDateAndRegExp`). Functions are removed
+ * - Circular references are shown as YAML aliases (e.g. `*1`) of the anchor (e.g. `&1`) added to the
+ *   referenced value
+ *
+ * There is no depth limit.
+ *
+ * @category Instances
+ */
+export const yaml: Type = pipe(
+  utilInspectLike,
+  MStruct.append({
+    id: 'YAML',
+    primitiveFormatter: PPPrimitiveFormatter.yaml,
+    maxDepth: Infinity,
+    openingTagMark: '',
+    closingTagMark: '',
+    circularReferenceTag: '*',
+    circularAnchorOpeningMark: '&',
+    circularAnchorClosingMark: '',
+    nonPrimitiveParametersArray: Array.make(
+      PPNonPrimitiveParameters.yamlArray,
+      PPNonPrimitiveParameters.yamlRecord,
+    ),
+  }),
+  make,
+);
+
+/**
+ * `PPParameters` instance whose output is a block-style YAML document with colors adapted to
+ * dark-mode terminals
+ *
+ * @category Instances
+ */
+export const darkModeYaml: Type = pipe(
+  yaml,
+  MStruct.append({
+    id: 'DarkModeYAML',
+    styleMap: PPStyleMap.darkMode,
+  }),
+  make,
+);
+
+/**
+ * `PPParameters` instance whose output is a TOML document, without any color styling:
+ *
+ * - Primitive values are formatted by `PPPrimitiveFormatter.toml`
+ * - Arrays are shown as single-line arrays of their elements. Records contained in arrays are shown
+ *   as inline tables
+ * - Other non-primitive values are shown as tables of their own enumerable properties with a string
+ *   key (maps and sets are therefore shown as `{}`), except dates and regular expressions (see
+ *   `PPByPasser.configDateAndRegExp`). The tables that are properties of the top-level value are
+ *   shown as sections. The other tables are flattened with dotted keys
+ * - Functions and properties whose value is `null` or `undefined` are removed
+ * - Circular references, which cannot be represented, make the stringification throw
+ *
+ * There is no depth limit. Note that only a record can be represented as a TOML document: other
+ * top-level values are shown as a TOML value.
+ *
+ * @category Instances
+ */
+export const toml: Type = pipe(
+  utilInspectLike,
+  MStruct.append({
+    id: 'TOML',
+    primitiveFormatter: PPPrimitiveFormatter.toml,
+    maxDepth: Infinity,
+    circularReferenceStrategy: Option.some(PPFallbackStrategy.fail),
+    nonPrimitiveParametersArray: Array.make(
+      PPNonPrimitiveParameters.tomlArray,
+      PPNonPrimitiveParameters.tomlRecord,
+    ),
+  }),
+  make,
+);
+
+/**
+ * `PPParameters` instance whose output is a TOML document with colors adapted to dark-mode
+ * terminals
+ *
+ * @category Instances
+ */
+export const darkModeToml: Type = pipe(
+  toml,
+  MStruct.append({
+    id: 'DarkModeTOML',
+    styleMap: PPStyleMap.darkMode,
+  }),
+  make,
+);
@@ -18,4 +18,7 @@ export type Type =
   | 'InBetweenPropertySeparator'
   | 'NonPrimitiveValueMarks'
   | 'Tab'
-  | 'Tag';
+  | 'Tag'
+  | 'DiffAdded'
+  | 'DiffRemoved'
+  | 'DiffChanged';
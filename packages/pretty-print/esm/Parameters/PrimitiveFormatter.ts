@@ -11,6 +11,7 @@ import type * as Equivalence from 'effect/Equivalence';
 import * as Function from 'effect/Function';
 import * as Hash from 'effect/Hash';
 import * as Number from 'effect/Number';
+import * as Option from 'effect/Option';
 import * as Predicate from 'effect/Predicate';
 import * as Result from 'effect/Result';
 import * as String from 'effect/String';
@@ -18,11 +19,16 @@ import * as Struct from 'effect/Struct';
 
 import * as MData from '@parischap/effect-lib/MData';
 import * as MEquivalenceBasedEqualityData from '@parischap/effect-lib/MEquivalenceBasedEqualityData';
+import * as MFunction from '@parischap/effect-lib/MFunction';
 import * as MMatch from '@parischap/effect-lib/MMatch';
+import * as MRegExp from '@parischap/effect-lib/MRegExp';
+import * as MRegExpString from '@parischap/effect-lib/MRegExpString';
 import * as MString from '@parischap/effect-lib/MString';
 import type * as MTypes from '@parischap/effect-lib/MTypes';
 
 import * as PPValue from '../internal/stringification/Value.js';
+import * as PPConfigFormat from './ConfigFormat.js';
+import * as PPLiteralFormat from './LiteralFormat.js';
 
 /**
  * Module tag
@@ -44,7 +50,8 @@ export class Type extends MEquivalenceBasedEqualityData.Class {
 
   /**
    * Action of `this` `PPPrimitiveFormatter`. Takes a `PPValue.Primitive` and returns its string
-   * representation (e.g. `'hello'` for a string, `42` for a number, `42n` for a bigint)
+   * representation (e.g. `'hello'` for a string, `42` for a number, `42n` for a bigint). Each line
+   * break in the returned string starts a new line of the output
    */
   readonly action: MTypes.OneArgFunction<PPValue.Primitive, string>;
 
@@ -185,3 +192,177 @@ export const utilInspectLike: Type = utilInspectLikeMaker({
   numberFormatter: MString.fromNumber(10),
   bigintFormatter: MString.fromNumber(10),
 });
+
+/**
+ * Constructor that builds a `PPPrimitiveFormatter` instance that outputs valid source in `format`
+ * (see `PPLiteralFormat` for the details of how each primitive type is handled in each format).
+ * Strings are never truncated.
+ *
+ * @category Constructors
+ */
+export const literal = (format: PPLiteralFormat.Type): Type => {
+  const isJSON = format === PPLiteralFormat.Type.JSON;
+  const isJavaScript = format === PPLiteralFormat.Type.JavaScript;
+  const quote = PPLiteralFormat.quoteString(format);
+  return make({
+    id: `${PPLiteralFormat.Type[format]}Literal`,
+    action: (value) =>
+      pipe(
+        value,
+        PPValue.content,
+        MMatch.make,
+        MMatch.when(Predicate.isString, quote),
+        MMatch.when(Predicate.isNumber, (n) => {
+          if (!Number.Number.isFinite(n)) return isJSON ? 'null' : n.toString();
+          return Object.is(n, -0) && !isJSON ? '-0' : n.toString();
+        }),
+        MMatch.when(Predicate.isBigInt, (n) =>
+          pipe(
+            n.toString(),
+            MFunction.fIfTrue({ condition: isJavaScript, f: MString.append('n') }),
+          ),
+        ),
+        MMatch.when(Predicate.isSymbol, (s) =>
+          isJavaScript
+            ? `Symbol(${pipe(s.description, Option.fromUndefinedOr, Option.match({ onNone: () => '', onSome: quote }))})`
+            : 'null',
+        ),
+        MMatch.when(Predicate.isUndefined, () => (isJavaScript ? 'undefined' : 'null')),
+        MMatch.orElse(MString.fromPrimitive),
+      ),
+  });
+};
+
+/**
+ * `PPPrimitiveFormatter` instance that outputs valid JSON
+ *
+ * @category Instances
+ */
+export const json: Type = literal(PPLiteralFormat.Type.JSON);
+
+/**
+ * `PPPrimitiveFormatter` instance that outputs valid JSON5
+ *
+ * @category Instances
+ */
+export const json5: Type = literal(PPLiteralFormat.Type.JSON5);
+
+/**
+ * `PPPrimitiveFormatter` instance that outputs valid JavaScript literals
+ *
+ * @category Instances
+ */
+export const javaScript: Type = literal(PPLiteralFormat.Type.JavaScript);
+
+/**
+ * Regular expression matching the strings that can be written as YAML literal block scalars if they
+ * contain a line feed: they must not start with a space or a line feed and must not contain any
+ * control character other than line feeds and tabs
+ */
+const yamlBlockScalarRegExp = pipe(
+  MRegExpString.charNotIn([
+    String.String.raw`\u0000-\u0008`,
+    String.String.raw`\u000B-\u001F`,
+    String.String.raw`\u007F-\u009F`,
+  ]),
+  MRegExpString.zeroOrMore,
+  MString.prepend(
+    MRegExpString.negativeLookAhead(MRegExpString.anyCharIn([MRegExpString.LF, ' '])),
+  ),
+  MRegExpString.makeLine,
+  MRegExp.fromRegExpString(),
+);
+
+/** Regular expression matching the line feeds at the end of a string */
+const trailingLineFeedsRegExp = pipe(
+  MRegExpString.LF,
+  MRegExpString.oneOrMore,
+  MRegExpString.atEnd,
+  MRegExp.fromRegExpString(),
+);
+
+/** Regular expression matching the last line feed of a string */
+const lastLineFeedRegExp = pipe(MRegExpString.LF, MRegExpString.atEnd, MRegExp.fromRegExpString());
+
+/**
+ * Returns the YAML literal block scalar that represents `s`: a `|` followed by the chomping
+ * indicator that preserves the number of trailing line feeds of `s`, then the lines of `s`. The
+ * lines are not indented: that is the job of `PPPropertyFormatter.yaml`. When `s` is the top-level
+ * value and has several trailing line feeds, an empty line is added because the last line of a
+ * document is not followed by a line feed
+ */
+const _yamlBlockScalar = ({
+  s,
+  isTopLevel,
+}: {
+  readonly s: string;
+  readonly isTopLevel: boolean;
+}): string => {
+  const trailingLineFeedNumber = s.length - s.replace(trailingLineFeedsRegExp, '').length;
+  const chompingIndicator =
+    trailingLineFeedNumber === 0 ? '-' : trailingLineFeedNumber === 1 ? '' : '+';
+  const lines = chompingIndicator === '+' && isTopLevel ? s : s.replace(lastLineFeedRegExp, '');
+  return `|${chompingIndicator}\n${lines}`;
+};
+
+/**
+ * Constructor that builds a `PPPrimitiveFormatter` instance that outputs valid scalars in `format`:
+ *
+ * - Strings are quoted as explained in `PPConfigFormat.quoteString`. For YAML, multi-line strings are
+ *   written as literal block scalars
+ * - `NaN`, `Infinity` and `-Infinity` are written `.nan`, `.inf` and `-.inf` in YAML, `nan`, `inf`
+ *   and `-inf` in TOML
+ * - Bigints are written as integers. In TOML, those that do not fit in a signed 64-bit integer are
+ *   written as strings
+ * - Symbols are written as the string returned by their `toString` method
+ * - `null` and `undefined` are written `null`. TOML has no null value so the `PPParameters.toml`
+ *   preset removes such properties
+ *
+ * Strings are never truncated.
+ *
+ * @category Constructors
+ */
+export const config = (format: PPConfigFormat.Type): Type => {
+  const isYAML = format === PPConfigFormat.Type.YAML;
+  const quote = PPConfigFormat.quoteString(format);
+  const nonFiniteNumberPrefix = isYAML ? '.' : '';
+  return make({
+    id: PPConfigFormat.Type[format],
+    action: (value) =>
+      pipe(
+        value,
+        PPValue.content,
+        MMatch.make,
+        MMatch.when(Predicate.isString, (s) =>
+          isYAML && s.includes('\n') && yamlBlockScalarRegExp.test(s)
+            ? _yamlBlockScalar({ s, isTopLevel: value.depth === 0 })
+            : quote(s),
+        ),
+        MMatch.when(Predicate.isNumber, (n) => {
+          if (Number.Number.isNaN(n)) return `${nonFiniteNumberPrefix}nan`;
+          if (!Number.Number.isFinite(n)) return `${n < 0 ? '-' : ''}${nonFiniteNumberPrefix}inf`;
+          return n.toString();
+        }),
+        MMatch.when(Predicate.isBigInt, (n) =>
+          isYAML || BigInt.asIntN(64, n) === n ? n.toString() : quote(n.toString()),
+        ),
+        MMatch.when(Predicate.isSymbol, (s) => quote(s.toString())),
+        MMatch.when(Predicate.isNullish, () => 'null'),
+        MMatch.orElse(MString.fromPrimitive),
+      ),
+  });
+};
+
+/**
+ * `PPPrimitiveFormatter` instance that outputs valid YAML scalars
+ *
+ * @category Instances
+ */
+export const yaml: Type = config(PPConfigFormat.Type.YAML);
+
+/**
+ * `PPPrimitiveFormatter` instance that outputs valid TOML values
+ *
+ * @category Instances
+ */
+export const toml: Type = config(PPConfigFormat.Type.TOML);
@@ -6,6 +6,7 @@
  * needs.
  */
 
+import { flow } from 'effect';
 import * as Array from 'effect/Array';
 import * as Boolean from 'effect/Boolean';
 import type * as Equivalence from 'effect/Equivalence';
@@ -159,6 +160,17 @@ export const removeFunctions: Type = make({
   action: Array.filter(Predicate.not(PPValue.isAnyFunction)),
 });
 
+/**
+ * PPPropertyFilter instance that removes properties of non-primitive values whose value is `null`
+ * or `undefined`
+ *
+ * @category Instances
+ */
+export const removeNullishValues: Type = make({
+  id: 'RemoveNullishValues',
+  action: Array.filter(flow(PPValue.content, Predicate.isNotNullish)),
+});
+
 /**
  * PPPropertyFilter instance that removes non-enumerable properties of non-primitive values
  *
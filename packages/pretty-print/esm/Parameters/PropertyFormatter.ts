@@ -27,6 +27,8 @@ import type * as PPParameters from './Parameters.js';
 import type * as PPPartName from './PartName.js';
 
 import * as PPStringifiedValue from '../stringification/StringifiedValue.js';
+import * as PPConfigFormat from './ConfigFormat.js';
+import * as PPLiteralFormat from './LiteralFormat.js';
 import * as PPStyleMap from './StyleMap.js';
 
 /**
@@ -160,7 +162,7 @@ export const valueOnly: Type = make({
  * the keyValueSeparator (however, the separator is not displayed if either the key or the value is
  * empty). The same happens for non-leaves, except if `nonLeafValueOnSameLine` is false. In that
  * case, the lines of the value are appended to the lines of the key and no keyValueSeparator is
- * used
+ * used. Each line of the key is converted by `keyFormatter` before being styled
  */
 const keyAndValueAction =
   ({
@@ -169,12 +171,14 @@ const keyAndValueAction =
     keyValueSeparatorMark,
     prototypePrefixMark,
     prototypeSuffixMark,
+    keyFormatter = Function.identity,
   }: {
     readonly nonLeafValueOnSameLine: boolean;
     readonly hideLeafValue: boolean;
     readonly keyValueSeparatorMark: string;
     readonly prototypePrefixMark: string;
     readonly prototypeSuffixMark: string;
+    readonly keyFormatter?: MTypes.OneArgFunction<string, string>;
   }): Type['action'] =>
   ({ property, stringifiedPropValue, isLeaf, hideKey, parameters }) => {
     const hideNodeValue = isLeaf && hideLeafValue;
@@ -191,7 +195,7 @@ const keyAndValueAction =
     const propertyKeyStyler = fromPartNameStyler('PropertyKey');
     //console.log(property.stringKey, isLeaf, hideLeaf);
     const stringifiedPropKey = Array.map(property.stringKey, (stringKeyLine) =>
-      propertyKeyStyler(stringKeyLine),
+      propertyKeyStyler(keyFormatter(stringKeyLine)),
     );
 
     const prototypeMarksStyler = fromPartNameStyler('PrototypeMarks');
@@ -271,6 +275,26 @@ export const keyAndValue = ({
     }),
   });
 
+/**
+ * Constructor that builds a `PPPropertyFormatter` instance that prints the key and value of a
+ * property on the same line, separated by `: `, the key being quoted as required by `format` (see
+ * `PPLiteralFormat.formatKey`). Meant to be used with non-primitive values whose properties all
+ * belong to the value itself (`maxPrototypeDepth = 1`) as no prototype marks can be represented in
+ * a literal.
+ *
+ * @category Constructors
+ */
+export const literal = (format: PPLiteralFormat.Type): Type =>
+  make({
+    id: `${PPLiteralFormat.Type[format]}Literal`,
+    action: keyAndValueAction({
+      ...defaultParams,
+      nonLeafValueOnSameLine: true,
+      hideLeafValue: false,
+      keyFormatter: PPLiteralFormat.formatKey(format),
+    }),
+  });
+
 /**
  * Constructor that builds a `PPPropertyFormatter` instance for tree-style output:
  *
@@ -371,3 +395,129 @@ export const usualTreeify = treeify({
 export const usualTreeifyHideLeaves = treeifyHideLeaves({
   ...defaultParams,
 });
+
+/**
+ * PropertyFormatter instance that formats the properties of a non-primitive value as the entries of
+ * a block-style YAML mapping (`key: value`) or, when keys are hidden, as the entries of a
+ * block-style YAML sequence (`- value`). Meant to be used with
+ * `PPNonPrimitiveFormatter.yamlMapping` and `PPNonPrimitiveFormatter.yamlSequence`, which output
+ * the header of a non-empty non-primitive value (i.e. its anchor, if any) on a line of its own,
+ * possibly empty, before its properties:
+ *
+ * - Leaves and single-line values are written on the same line as the key or the dash. The other
+ *   lines (e.g. the lines of a block scalar) are indented
+ * - The anchor of a non-empty non-primitive value is written on the same line as the key or the dash
+ *   and its properties are indented on the following lines. If there is no anchor, the properties
+ *   of a mapping value are indented on the lines following the key whereas the first property of a
+ *   sequence item is written on the same line as the dash (compact notation)
+ *
+ * @category Instances
+ */
+export const yaml: Type = make({
+  id: 'YAML',
+  action: ({ property, stringifiedPropValue, isLeaf, hideKey, parameters }) => {
+    const { styleMap } = parameters;
+    const fromPartNameStyler = (partName: PPPartName.Type) =>
+      pipe(styleMap, PPStyleMap.get(partName), ASContextStyler.style, Function.apply(property));
+
+    const keyValueSeparatorStyler = fromPartNameStyler('KeyValueSeparator');
+    const mark = hideKey
+      ? pipe('-', fromPartNameStyler('NonPrimitiveValueMarks'))
+      : pipe(
+          property.oneLineStringKey,
+          PPConfigFormat.formatKey(PPConfigFormat.Type.YAML),
+          fromPartNameStyler('PropertyKey'),
+          ASText.append(keyValueSeparatorStyler(':')),
+        );
+    const tab = pipe('  ', fromPartNameStyler('Tab'));
+    // Empty lines, which can only belong to block scalars, are not indented to avoid trailing spaces
+    const indent = Array.map((line: ASText.Type) =>
+      ASText.isEmpty(line) ? line : pipe(line, ASText.prepend(tab)),
+    );
+    const markAndText = (text: ASText.Type) =>
+      ASText.concat(mark, keyValueSeparatorStyler(' '), text);
+
+    const [firstLine, ...tailLines] = stringifiedPropValue;
+    if (isLeaf || !Array.isReadonlyArrayNonEmpty(tailLines) || !ASText.isEmpty(firstLine))
+      return pipe(tailLines, indent, PPStringifiedValue.addLineBefore(markAndText(firstLine)));
+
+    const [firstPropertyLine, ...otherPropertyLines] = tailLines;
+    return hideKey
+      ? pipe(
+          otherPropertyLines,
+          indent,
+          PPStringifiedValue.addLineBefore(markAndText(firstPropertyLine)),
+        )
+      : pipe(tailLines, indent, PPStringifiedValue.addLineBefore(mark));
+  },
+});
+
+/**
+ * PropertyFormatter instance that formats the properties of a non-primitive value as TOML key/value
+ * pairs (`key = value`) or, when keys are hidden, as the elements of a TOML array. Meant to be used
+ * with `PPNonPrimitiveFormatter.tomlTable` and `PPNonPrimitiveFormatter.tomlArray`:
+ *
+ * - A table that is the element of an array is written as an inline table, e.g. `{ a = 1, b = 2 }`
+ * - A non-empty table that is a property of the top-level value is written as a section, i.e. a
+ *   `[key]` line followed by its key/value pairs
+ * - The key/value pairs of the other non-empty tables are written with dotted keys, e.g. `key.a = 1`
+ * - Empty tables are written as empty inline tables, e.g. `key = {}`
+ *
+ * @category Instances
+ */
+export const toml: Type = make({
+  id: 'TOML',
+  action: ({ property, stringifiedPropValue, isLeaf, hideKey, parameters }) => {
+    const { styleMap } = parameters;
+    const fromPartNameStyler = (partName: PPPartName.Type) =>
+      pipe(styleMap, PPStyleMap.get(partName), ASContextStyler.style, Function.apply(property));
+
+    const nonPrimitiveValueMarksStyler = fromPartNameStyler('NonPrimitiveValueMarks');
+    const isTable = !isLeaf && !Array.isArray(property.content);
+    const stringifiedTable: PPStringifiedValue.Type = pipe(
+      stringifiedPropValue,
+      ASText.join(pipe(', ', fromPartNameStyler('InBetweenPropertySeparator'))),
+      ASText.surroundIfNotEmpty(
+        nonPrimitiveValueMarksStyler(' '),
+        nonPrimitiveValueMarksStyler(' '),
+      ),
+      ASText.surround(nonPrimitiveValueMarksStyler('{'), nonPrimitiveValueMarksStyler('}')),
+      PPStringifiedValue.fromText,
+    );
+
+    if (hideKey) return isTable ? stringifiedTable : stringifiedPropValue;
+
+    const propertyKeyStyler = fromPartNameStyler('PropertyKey');
+    const key = pipe(
+      property.oneLineStringKey,
+      PPConfigFormat.formatKey(PPConfigFormat.Type.TOML),
+      propertyKeyStyler,
+    );
+
+    if (isTable && !PPStringifiedValue.isEmpty(stringifiedPropValue))
+      return property.depth === 1
+        ? pipe(
+            stringifiedPropValue,
+            PPStringifiedValue.addLineBefore(
+              pipe(
+                key,
+                ASText.surround(
+                  nonPrimitiveValueMarksStyler('['),
+                  nonPrimitiveValueMarksStyler(']'),
+                ),
+              ),
+            ),
+          )
+        : pipe(
+            stringifiedPropValue,
+            PPStringifiedValue.prependToAllLines(pipe(key, ASText.append(propertyKeyStyler('.')))),
+          );
+
+    return pipe(
+      isTable ? stringifiedTable : stringifiedPropValue,
+      PPStringifiedValue.prependToFirstLine(
+        pipe(key, ASText.append(fromPartNameStyler('KeyValueSeparator')(' = '))),
+      ),
+    );
+  },
+});
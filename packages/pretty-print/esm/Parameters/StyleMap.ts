@@ -195,6 +195,12 @@ export const darkMode: Type = make({
     ['Tab', ASContextStyler.green] as const,
     /** Style used for tags (non-primitive value name, circular reference marks) */
     ['Tag', ASContextStyler.green] as const,
+    /** Style used by a `PPDiffer` for values and properties only present in the actual value */
+    ['DiffAdded', ASContextStyler.green] as const,
+    /** Style used by a `PPDiffer` for values and properties only present in the expected value */
+    ['DiffRemoved', ASContextStyler.red] as const,
+    /** Style used by a `PPDiffer` for the mark between an expected and an actual value */
+    ['DiffChanged', ASContextStyler.yellow] as const,
   ),
 });
 
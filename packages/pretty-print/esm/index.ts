@@ -1,6 +1,10 @@
 // ************** This file is automatically generated. Any modifications will be lost ************************
 
 export * as PPByPasser from './Parameters/ByPasser.js';
+export * as PPConfigFormat from './Parameters/ConfigFormat.js';
+export * as PPDiffer from './stringification/Differ.js';
+export * as PPFallbackStrategy from './Parameters/FallbackStrategy.js';
+export * as PPLiteralFormat from './Parameters/LiteralFormat.js';
 export * as PPNonPrimitiveFormatter from './Parameters/NonPrimitiveFormatter.js';
 export * as PPNonPrimitiveParameters from './Parameters/NonPrimitiveParameters.js';
 export * as PPParameters from './Parameters/Parameters.js';
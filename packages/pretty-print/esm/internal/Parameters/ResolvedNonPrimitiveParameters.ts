@@ -51,6 +51,10 @@ export class Type extends MData.Class {
   readonly nonPrimitiveFormatter: PPNonPrimitiveFormatter.Type;
   readonly hideAutoGeneratedKeys: boolean;
   readonly extractIterableElements: boolean;
+  readonly splitKeyValuePairs: boolean;
+  readonly wrappedElements: Option.Option<
+    MTypes.OneArgFunction<MTypes.ReadonlyNonPrimitive, ReadonlyArray<unknown>>
+  >;
 
   /** Returns the `id` of `this` */
   [MData.idSymbol](): string | (() => string) {
@@ -71,6 +75,8 @@ export class Type extends MData.Class {
     nonPrimitiveFormatter,
     hideAutoGeneratedKeys,
     extractIterableElements,
+    splitKeyValuePairs,
+    wrappedElements,
   }: MTypes.Data<Type>) {
     super();
     this.showName = showName;
@@ -85,6 +91,8 @@ export class Type extends MData.Class {
     this.nonPrimitiveFormatter = nonPrimitiveFormatter;
     this.hideAutoGeneratedKeys = hideAutoGeneratedKeys;
     this.extractIterableElements = extractIterableElements;
+    this.splitKeyValuePairs = splitKeyValuePairs;
+    this.wrappedElements = wrappedElements;
   }
 
   /** Returns the TypeMarker of the class */
@@ -166,4 +174,6 @@ export const utilInspectLikeRecord: Type = make({
   propertyFormatter: PPPropertyFormatter.utilInspectLikeArrayAndRecord,
   hideAutoGeneratedKeys: true,
   extractIterableElements: false,
+  splitKeyValuePairs: true,
+  wrappedElements: Option.none(),
 });
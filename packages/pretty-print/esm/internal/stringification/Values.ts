@@ -2,7 +2,8 @@
  * This module implements a type alias and utility functions for arrays of `PPValue`'s (see
  * `Value.ts`). It provides the two main constructors used during traversal — one that extracts own
  * and inherited properties from a non-primitive value, and one that extracts elements from an
- * iterable — plus sorting helpers.
+ * iterable — plus sorting helpers and the property pipeline shared by `PPStringifier` and
+ * `PPDiffer`.
  */
 
 import { flow, pipe } from 'effect';
@@ -24,6 +25,9 @@ import * as MStruct from '@parischap/effect-lib/MStruct';
 import * as MTuple from '@parischap/effect-lib/MTuple';
 import type * as MTypes from '@parischap/effect-lib/MTypes';
 
+import type * as PPResolvedNonPrimitiveParameters from '../Parameters/ResolvedNonPrimitiveParameters.js';
+
+import * as PPPropertyFilter from '../../Parameters/PropertyFilter.js';
 import * as PPStringifiedValue from '../../stringification/StringifiedValue.js';
 import * as PPValue from './Value.js';
 
@@ -118,21 +122,25 @@ export const fromNonPrimitiveKeysAndValues = ({
 
 /**
  * Returns an empty array if `nonPrimitive` is not iterable. Otherwise, returns a `PPValue` for each
- * element yielded by its iterator. If the element is a two-element tuple `[key, value]`, `key`
- * becomes the string key (using `stringifier` when it is not already a string) and `value` becomes
- * the content (this is the Map case). Otherwise the element becomes the content and the key is the
- * auto-generated string index of that element in the sequence.
+ * element yielded by its iterator. If `splitKeyValuePairs` is `true`, `nonPrimitive` is not an
+ * array and the element is a two-element tuple `[key, value]`, `key` becomes the string key (using
+ * `stringifier` when it is not already a string) and `value` becomes the content (this is the Map
+ * case). Otherwise the element becomes the content and the key is the auto-generated string index
+ * of that element in the sequence (so an array of pairs is shown as an array of arrays).
  *
  * @category Constructors
  */
 export const fromNonPrimitiveIterable = ({
   nonPrimitive,
+  splitKeyValuePairs,
   stringifier,
 }: {
   readonly nonPrimitive: PPValue.ReadonlyNonPrimitive;
+  readonly splitKeyValuePairs: boolean;
   readonly stringifier: MTypes.OneArgFunction<unknown, PPStringifiedValue.Type>;
 }): Type => {
   const depth = nonPrimitive.depth + 1;
+  const isPairSplit = splitKeyValuePairs && !Array.isArray(nonPrimitive.content);
 
   return pipe(
     nonPrimitive.content,
@@ -144,7 +152,8 @@ export const fromNonPrimitiveIterable = ({
           pipe(
             containedValue,
             Result.liftPredicate(
-              (u): u is [unknown, unknown] => Array.isArray(u) && MPredicate.isPair(u),
+              (u): u is [unknown, unknown] =>
+                isPairSplit && Array.isArray(u) && MPredicate.isPair(u),
               Function.identity,
             ),
             Result.mapBoth({
@@ -195,3 +204,84 @@ export const sort = (order: Option.Option<Order.Order<PPValue.Any>>): MTypes.One
     Option.map((order) => Array.sort(order)),
     Option.getOrElse(() => Function.identity),
   );
+
+/**
+ * Returns a `PPValue` for each element of `elements`, `nonPrimitive` being considered as a mere
+ * wrapper of these elements: the key of each element is its auto-generated string index and its
+ * depth is that of `nonPrimitive`
+ *
+ * @category Constructors
+ */
+export const fromWrappedElements = ({
+  nonPrimitive,
+  elements,
+}: {
+  readonly nonPrimitive: PPValue.ReadonlyNonPrimitive;
+  readonly elements: ReadonlyArray<unknown>;
+}): Type =>
+  Array.map(elements, (content, index) =>
+    PPValue.fromNonPrimitiveIterable({
+      content,
+      stringKey: pipe(index, MString.fromNumber(10), Array.of),
+      hasGeneratedKey: true,
+      depth: nonPrimitive.depth,
+    }),
+  );
+
+/**
+ * Returns all the properties of `nonPrimitive` before filtering. If
+ * `applicableNonPrimitiveParameters` has a `wrappedElements` function, these are the elements that
+ * function returns (see `fromWrappedElements`). Otherwise, these are its direct and inherited
+ * properties (see `fromNonPrimitiveKeysAndValues`) followed, if `applicableNonPrimitiveParameters`
+ * has `extractIterableElements` set to `true`, by its iterable elements (see
+ * `fromNonPrimitiveIterable`)
+ *
+ * @category Constructors
+ */
+export const fromNonPrimitive = ({
+  nonPrimitive,
+  applicableNonPrimitiveParameters,
+  stringifier,
+}: {
+  readonly nonPrimitive: PPValue.ReadonlyNonPrimitive;
+  readonly applicableNonPrimitiveParameters: PPResolvedNonPrimitiveParameters.Type;
+  readonly stringifier: MTypes.OneArgFunction<unknown, PPStringifiedValue.Type>;
+}): Type =>
+  Option.match(applicableNonPrimitiveParameters.wrappedElements, {
+    onNone: () =>
+      Array.appendAll(
+        fromNonPrimitiveKeysAndValues({
+          nonPrimitive,
+          maxPrototypeDepth: applicableNonPrimitiveParameters.maxPrototypeDepth,
+        }),
+        applicableNonPrimitiveParameters.extractIterableElements
+          ? fromNonPrimitiveIterable({
+              nonPrimitive,
+              splitKeyValuePairs: applicableNonPrimitiveParameters.splitKeyValuePairs,
+              stringifier,
+            })
+          : Array.empty(),
+      ),
+    onSome: (wrappedElements) =>
+      fromWrappedElements({ nonPrimitive, elements: wrappedElements(nonPrimitive.content) }),
+  });
+
+/**
+ * Returns a function that filters, sorts, dedupes and truncates a `PPValues` according to the
+ * `propertyFilter`, `propertySortOrder`, `dedupeProperties` and `maxPropertyNumber` fields of
+ * `applicableNonPrimitiveParameters`
+ *
+ * @category Utils
+ */
+export const filterAndSort = (
+  applicableNonPrimitiveParameters: PPResolvedNonPrimitiveParameters.Type,
+): MTypes.OneArgFunction<Type> =>
+  flow(
+    PPPropertyFilter.action(applicableNonPrimitiveParameters.propertyFilter),
+    sort(applicableNonPrimitiveParameters.propertySortOrder),
+    MFunction.fIfTrue({
+      condition: applicableNonPrimitiveParameters.dedupeProperties,
+      f: Array.dedupeWith((self, that) => self.oneLineStringKey === that.oneLineStringKey),
+    }),
+    Array.take(applicableNonPrimitiveParameters.maxPropertyNumber),
+  );
@@ -0,0 +1,511 @@
+/**
+ * This module implements a `PPDiffer`, i.e. an object built from a `PPParameters` instance that
+ * walks two values (an expected one and an actual one) in parallel and renders their differences as
+ * a `PPStringifiedValue`. The traversal is the same as that of a `PPStringifier`: properties are
+ * extracted, filtered, sorted, deduped and formatted according to the `PPNonPrimitiveParameters`
+ * applicable to each non-primitive value, and `maxDepth` and circular references are honored.
+ *
+ * Two values are deemed equal when `Equal.equals` returns `true`, so `effect` values that implement
+ * the `Equal` interface are compared with their own semantics and are never opened. In the output:
+ *
+ * - An unchanged primitive value is rendered as usual. An unchanged non-primitive value is collapsed
+ *   to a tag (e.g. `[Object]`) styled with the `ByPassed` style.
+ * - A changed leaf (primitive value, function, bypassed value, value implementing `Equal`, value
+ *   beyond `maxDepth`, circular reference, or non-primitive values with different names) is
+ *   rendered as `expected → actual`. `expected` is styled with the `DiffRemoved` style, `actual`
+ *   with the `DiffAdded` style and the arrow with the `DiffChanged` style.
+ * - A property only present in the expected value is prefixed with `- ` and styled with the
+ *   `DiffRemoved` style. A property only present in the actual value is prefixed with `+ ` and
+ *   styled with the `DiffAdded` style.
+ *
+ * Properties of the expected and actual values are matched on their `oneLineStringKey`. So array
+ * elements are compared position by position.
+ */
+
+import { flow, pipe } from 'effect';
+import * as Array from 'effect/Array';
+import * as Equal from 'effect/Equal';
+import type * as Equivalence from 'effect/Equivalence';
+import * as Function from 'effect/Function';
+import * as Hash from 'effect/Hash';
+import * as Option from 'effect/Option';
+import * as Predicate from 'effect/Predicate';
+import * as String from 'effect/String';
+
+import * as ASContextStyler from '@parischap/ansi-styles/ASContextStyler';
+import type * as ASStyle from '@parischap/ansi-styles/ASStyle';
+import * as ASText from '@parischap/ansi-styles/ASText';
+import * as MArray from '@parischap/effect-lib/MArray';
+import * as MData from '@parischap/effect-lib/MData';
+import * as MEquivalenceBasedEqualityData from '@parischap/effect-lib/MEquivalenceBasedEqualityData';
+import * as MFunction from '@parischap/effect-lib/MFunction';
+import * as MPredicate from '@parischap/effect-lib/MPredicate';
+import * as MRegExp from '@parischap/effect-lib/MRegExp';
+import * as MString from '@parischap/effect-lib/MString';
+import * as MStruct from '@parischap/effect-lib/MStruct';
+import type * as MTypes from '@parischap/effect-lib/MTypes';
+
+import type * as PPPartName from '../Parameters/PartName.js';
+
+import * as PPResolvedNonPrimitiveParameters from '../internal/Parameters/ResolvedNonPrimitiveParameters.js';
+import * as PPValue from '../internal/stringification/Value.js';
+import * as PPValues from '../internal/stringification/Values.js';
+import * as PPByPasser from '../Parameters/ByPasser.js';
+import * as PPNonPrimitiveFormatter from '../Parameters/NonPrimitiveFormatter.js';
+import * as PPParameters from '../Parameters/Parameters.js';
+import * as PPPrimitiveFormatter from '../Parameters/PrimitiveFormatter.js';
+import * as PPPropertyFormatter from '../Parameters/PropertyFormatter.js';
+import * as PPStyleMap from '../Parameters/StyleMap.js';
+import * as PPStringifiedValue from './StringifiedValue.js';
+import * as PPStringifier from './Stringifier.js';
+
+/**
+ * Module tag
+ *
+ * @category Module markers
+ */
+export const moduleTag = '@parischap/pretty-print/stringification/Differ/';
+const TypeId: unique symbol = Symbol.for(moduleTag) as TypeId;
+type TypeId = typeof TypeId;
+
+const addedMark = '+ ';
+const removedMark = '- ';
+const changedMark = ' → ';
+
+/**
+ * Type that represents a `PPDiffer`
+ *
+ * @category Models
+ */
+export class Type extends MEquivalenceBasedEqualityData.Class {
+  /** Id of `this` `PPDiffer`. Derived from the `id` of the `PPParameters` used to build it */
+  readonly id: string;
+
+  /**
+   * Function that walks `expected` and `actual` in parallel and returns a `PPStringifiedValue` that
+   * highlights their differences
+   */
+  readonly diff: (expected: unknown, actual: unknown) => PPStringifiedValue.Type;
+
+  /** Returns the `id` of `this` */
+  [MData.idSymbol](): string | (() => string) {
+    return function idSymbol(this: Type) {
+      return this.id;
+    };
+  }
+
+  /** Class constructor */
+  constructor(parameters: PPParameters.Type) {
+    super();
+    const { nonPrimitiveParametersArray, styleMap } = parameters;
+    const fromPartNameContextStyler = (partName: PPPartName.Type) =>
+      pipe(styleMap, PPStyleMap.get(partName), ASContextStyler.style);
+
+    const primitiveValueContextStyler = fromPartNameContextStyler('PrimitiveValue');
+    const tagContextStyler = fromPartNameContextStyler('Tag');
+    const byPassedContextStyler = fromPartNameContextStyler('ByPassed');
+    const addedContextStyler = fromPartNameContextStyler('DiffAdded');
+    const removedContextStyler = fromPartNameContextStyler('DiffRemoved');
+    const changedContextStyler = fromPartNameContextStyler('DiffChanged');
+
+    const { stringify } = PPStringifier.make(parameters);
+
+    // The styles of the stringified value are removed so that `style` is not overridden by them
+    const restyleAllLines = (style: ASStyle.Type): MTypes.OneArgFunction<PPStringifiedValue.Type> =>
+      Array.map((line) => style(ASText.toUnstyledString(line)));
+
+    const toTag = (text: string, style: ASStyle.Type): PPStringifiedValue.Type =>
+      pipe(
+        text,
+        MString.prepend(parameters.openingTagMark),
+        MString.append(parameters.closingTagMark),
+        (tag) => style(tag),
+        PPStringifiedValue.fromText,
+      );
+
+    interface Ancestor {
+      /** The expected non-primitive value */
+      readonly expected: unknown;
+      /** The actual non-primitive value */
+      readonly actual: unknown;
+      /**
+       * Optionally contains the index used to reference the non-primitive value displayed for this
+       * ancestor in case of circularity. Indexes start at 1 like those of `PPStringifier`
+       */
+      cyclicalRef: Option.Option<number>;
+    }
+
+    interface DiffContext {
+      /**
+       * Ancestors referenced by a circular reference tag. The index of an ancestor is its position
+       * in this array plus 1
+       */
+      readonly referencedAncestors: Array<Ancestor>;
+    }
+
+    const toCircularTag =
+      (context: DiffContext) =>
+      (value: PPValue.Any, ancestor: Ancestor): PPStringifiedValue.Type =>
+        toTag(
+          pipe(
+            ancestor.cyclicalRef,
+            Option.getOrElse(() => {
+              const index = context.referencedAncestors.push(ancestor);
+              ancestor.cyclicalRef = Option.some(index);
+              return index;
+            }),
+            MString.fromNumber(10),
+            MString.prepend(parameters.circularReferenceTag),
+          ),
+          tagContextStyler(value),
+        );
+
+    const applicableNonPrimitiveParameters = (nonPrimitive: PPValue.NonPrimitive) =>
+      PPResolvedNonPrimitiveParameters.fromApplicableNonPrimitiveParameters({
+        nonPrimitive: nonPrimitive.content,
+        nonPrimitiveParametersArray,
+      });
+
+    // Renders a single side of a changed, added or removed value. Non-primitive values are
+    // stringified with a `maxDepth` reduced by their own depth so that the global `maxDepth` is
+    // honored
+    const render = (
+      context: DiffContext,
+      value: PPValue.Any,
+      ancestor: Option.Option<Ancestor>,
+    ): PPStringifiedValue.Type => {
+      if (PPValue.isPrimitive(value))
+        return pipe(
+          value,
+          PPPrimitiveFormatter.action(parameters.primitiveFormatter),
+          String.split(MRegExp.lineBreak),
+          Array.map((line) => primitiveValueContextStyler(value)(line)),
+        );
+      if (Option.isSome(ancestor)) return toCircularTag(context)(value, ancestor.value);
+      return pipe(
+        parameters,
+        MStruct.append({
+          id: `${parameters.id}From${value.depth}`,
+          maxDepth: parameters.maxDepth - value.depth,
+        }),
+        PPParameters.make,
+        PPStringifier.make,
+        ({ stringify }) => stringify(value.content),
+      );
+    };
+
+    interface Diffed {
+      /** The representation of the differences */
+      readonly stringified: PPStringifiedValue.Type;
+      /** `true` if the expected and actual values are equal */
+      readonly isUnchanged: boolean;
+      /** `true` if the representation was not obtained by opening a non-primitive value */
+      readonly isLeaf: boolean;
+    }
+
+    const unchanged = (stringified: PPStringifiedValue.Type): Diffed => ({
+      stringified,
+      isUnchanged: true,
+      isLeaf: true,
+    });
+
+    const changedLeaf = ({
+      context,
+      expected,
+      actual,
+      expectedAncestor,
+      actualAncestor,
+    }: {
+      readonly context: DiffContext;
+      readonly expected: PPValue.Any;
+      readonly actual: PPValue.Any;
+      readonly expectedAncestor: Option.Option<Ancestor>;
+      readonly actualAncestor: Option.Option<Ancestor>;
+    }): Diffed => {
+      const stringifiedExpected = pipe(
+        render(context, expected, expectedAncestor),
+        restyleAllLines(removedContextStyler(expected)),
+      );
+      const stringifiedActual = pipe(
+        render(context, actual, actualAncestor),
+        restyleAllLines(addedContextStyler(actual)),
+      );
+      return {
+        stringified: pipe(
+          stringifiedActual,
+          PPStringifiedValue.prependToFirstLine(
+            ASText.concat(
+              PPStringifiedValue.lastLine(stringifiedExpected),
+              changedContextStyler(actual)(changedMark),
+            ),
+          ),
+          Array.prependAll(PPStringifiedValue.initLines(stringifiedExpected)),
+        ),
+        isUnchanged: false,
+        isLeaf: true,
+      };
+    };
+
+    const properties = (
+      nonPrimitive: PPValue.NonPrimitive,
+      applicable: PPResolvedNonPrimitiveParameters.Type,
+    ): PPValues.Type =>
+      pipe(
+        PPValues.fromNonPrimitive({
+          nonPrimitive,
+          applicableNonPrimitiveParameters: applicable,
+          stringifier: stringify,
+        }),
+        PPValues.filterAndSort(applicable),
+      );
+
+    const isByPassed = (
+      nonPrimitive: PPValue.NonPrimitive,
+      applicable: PPResolvedNonPrimitiveParameters.Type,
+    ): boolean =>
+      pipe(
+        { nonPrimitive, parameters, applicableNonPrimitiveParameters: applicable },
+        PPByPasser.action(applicable.byPasser),
+        Option.isSome,
+      );
+
+    const diffValues = ({
+      context,
+      expected,
+      actual,
+      ancestors,
+    }: {
+      readonly context: DiffContext;
+      readonly expected: PPValue.Any;
+      readonly actual: PPValue.Any;
+      readonly ancestors: ReadonlyArray<Ancestor>;
+    }): Diffed => {
+      const expectedAncestor = Array.findFirst(ancestors, (ancestor) =>
+        MPredicate.strictEquals(expected.content)(ancestor.expected),
+      );
+      const actualAncestor = Array.findFirst(ancestors, (ancestor) =>
+        MPredicate.strictEquals(actual.content)(ancestor.actual),
+      );
+      const leaf = () =>
+        changedLeaf({ context, expected, actual, expectedAncestor, actualAncestor });
+
+      if (Option.isSome(expectedAncestor) || Option.isSome(actualAncestor))
+        return Option.isSome(expectedAncestor) &&
+          Option.isSome(actualAncestor) &&
+          expectedAncestor.value === actualAncestor.value
+          ? unchanged(toCircularTag(context)(actual, actualAncestor.value))
+          : leaf();
+
+      if (Equal.equals(expected.content, actual.content))
+        return unchanged(
+          PPValue.isNonPrimitive(actual)
+            ? toTag(parameters.name(actual.content), byPassedContextStyler(actual))
+            : render(context, actual, Option.none()),
+        );
+
+      if (
+        !PPValue.isNonPrimitive(expected) ||
+        !PPValue.isNonPrimitive(actual) ||
+        Predicate.isFunction(expected.content) ||
+        Predicate.isFunction(actual.content) ||
+        Equal.isEqual(expected.content) ||
+        Equal.isEqual(actual.content) ||
+        actual.depth >= parameters.maxDepth ||
+        parameters.name(expected.content) !== parameters.name(actual.content)
+      )
+        return leaf();
+
+      const expectedApplicable = applicableNonPrimitiveParameters(expected);
+      const actualApplicable = applicableNonPrimitiveParameters(actual);
+      if (isByPassed(expected, expectedApplicable) || isByPassed(actual, actualApplicable))
+        return leaf();
+
+      const expectedProperties = properties(expected, expectedApplicable);
+      const actualProperties = properties(actual, actualApplicable);
+      const self: Ancestor = {
+        expected: expected.content,
+        actual: actual.content,
+        cyclicalRef: Option.none(),
+      };
+      const childAncestors = Array.append(ancestors, self);
+      const referencedAncestorNumber = context.referencedAncestors.length;
+      const hasKeyIn = (values: PPValues.Type) => (value: PPValue.Any) =>
+        Array.some(values, (v) => v.oneLineStringKey === value.oneLineStringKey);
+
+      interface DiffedProperty extends Diffed {
+        /** The property used as context to display the key */
+        readonly property: PPValue.Any;
+        /** The style and mark to apply to the whole property if it was added or removed */
+        readonly styleAndMark: Option.Option<MTypes.Pair<ASStyle.Type, string>>;
+      }
+
+      const diffedProperties: ReadonlyArray<DiffedProperty> = Array.appendAll(
+        Array.map(expectedProperties, (expectedProperty) =>
+          pipe(
+            actualProperties,
+            Array.findFirst(
+              (actualProperty) =>
+                actualProperty.oneLineStringKey === expectedProperty.oneLineStringKey,
+            ),
+            Option.match({
+              onNone: () => ({
+                property: expectedProperty,
+                stringified: render(context, expectedProperty, Option.none()),
+                isUnchanged: false,
+                isLeaf: !PPValue.isNonPrimitive(expectedProperty),
+                styleAndMark: Option.some([
+                  removedContextStyler(expectedProperty),
+                  removedMark,
+                ] as const),
+              }),
+              onSome: (actualProperty) => ({
+                property: actualProperty,
+                ...diffValues({
+                  context,
+                  expected: expectedProperty,
+                  actual: actualProperty,
+                  ancestors: childAncestors,
+                }),
+                styleAndMark: Option.none(),
+              }),
+            }),
+          ),
+        ),
+        pipe(
+          actualProperties,
+          Array.filter(Predicate.not(hasKeyIn(expectedProperties))),
+          Array.map((actualProperty) => ({
+            property: actualProperty,
+            stringified: render(context, actualProperty, Option.none()),
+            isUnchanged: false,
+            isLeaf: !PPValue.isNonPrimitive(actualProperty),
+            styleAndMark: Option.some([addedContextStyler(actualProperty), addedMark] as const),
+          })),
+        ),
+      );
+
+      // Can happen if `Equal.equals` considers two values as different for reasons that are not
+      // visible in the displayed properties
+      if (Array.every(diffedProperties, ({ isUnchanged }) => isUnchanged)) {
+        // The circular reference tags of the properties are not displayed, so the ancestors they
+        // reference must not be shown with an anchor
+        for (const ancestor of context.referencedAncestors.splice(referencedAncestorNumber))
+          ancestor.cyclicalRef = Option.none();
+        return unchanged(toTag(parameters.name(actual.content), byPassedContextStyler(actual)));
+      }
+
+      const hideKey =
+        actualApplicable.hideAutoGeneratedKeys &&
+        Array.every(diffedProperties, ({ property }) => PPValue.hasGeneratedKey(property));
+
+      const tagStyler = tagContextStyler(actual);
+      return {
+        stringified: pipe(
+          diffedProperties,
+          Array.map(({ property, stringified, isLeaf, styleAndMark }) =>
+            pipe(
+              PPPropertyFormatter.action(actualApplicable.propertyFormatter)({
+                property,
+                stringifiedPropValue: stringified,
+                isLeaf,
+                hideKey,
+                parameters,
+              }),
+              (stringifiedProperty) =>
+                pipe(
+                  styleAndMark,
+                  Option.match({
+                    onNone: Function.constant(stringifiedProperty),
+                    onSome: ([style, mark]) =>
+                      pipe(
+                        stringifiedProperty,
+                        restyleAllLines(style),
+                        PPStringifiedValue.prependToFirstLine(style(mark)),
+                      ),
+                  }),
+                ),
+            ),
+          ),
+          (stringifiedProperties) =>
+            PPNonPrimitiveFormatter.action(actualApplicable.nonPrimitiveFormatter)({
+              nonPrimitive: actual,
+              parameters,
+              applicableNonPrimitiveParameters: actualApplicable,
+              // Called once all properties have been diffed, so `self.cyclicalRef` is final
+              header: () =>
+                pipe(
+                  [
+                    actualApplicable.showName ? parameters.name(actual.content) : '',
+                    pipe(
+                      self.cyclicalRef,
+                      Option.map(
+                        flow(
+                          MString.fromNumber(10),
+                          MString.prepend(parameters.circularAnchorOpeningMark),
+                          MString.append(parameters.circularAnchorClosingMark),
+                        ),
+                      ),
+                      Option.getOrElse(MFunction.constEmptyString),
+                    ),
+                  ],
+                  MArray.removeEmptyAndJoin(parameters.headerSeparatorMark),
+                  tagStyler,
+                ),
+              stringifiedProperties,
+            }),
+        ),
+        isUnchanged: false,
+        isLeaf: false,
+      };
+    };
+
+    this.id = `${parameters.id}Differ`;
+    this.diff = (expected, actual) =>
+      diffValues({
+        context: { referencedAncestors: [] },
+        expected: PPValue.fromTopValue(expected),
+        actual: PPValue.fromTopValue(actual),
+        ancestors: Array.empty(),
+      }).stringified;
+  }
+
+  /** Calculates the hash value of `this` */
+  [Hash.symbol](): number {
+    return 0;
+  }
+
+  /** Function that implements the equivalence of `this` and `that` */
+  [MEquivalenceBasedEqualityData.isEquivalentToSymbol](this: this, that: this): boolean {
+    return equivalence(this, that);
+  }
+
+  /** Predicate that returns true if `that` has the same type marker as `this` */
+  [MEquivalenceBasedEqualityData.hasSameTypeMarkerAsSymbol](that: unknown): boolean {
+    return Predicate.hasProperty(that, TypeId);
+  }
+  /** Returns the TypeMarker of the class */
+  protected get [TypeId](): TypeId {
+    return TypeId;
+  }
+}
+
+/**
+ * Constructs a `PPDiffer` from a `PPParameters` instance
+ *
+ * @category Constructors
+ */
+export const make = (parameters: PPParameters.Type): Type => new Type(parameters);
+
+/**
+ * Equivalence
+ *
+ * @category Equivalences
+ */
+export const equivalence: Equivalence.Equivalence<Type> = (self, that) => that.id === self.id;
+
+/**
+ * Returns the `diff` property of `self`
+ *
+ * @category Getters
+ */
+export const diff = (self: Type): Type['diff'] => self.diff;
@@ -224,3 +224,64 @@ export const toAnsiString = (sep = ASText.lineBreak): MTypes.OneArgFunction<Type
 export const toUnstyledStrings: MTypes.OneArgFunction<Type, MTypes.OverOne<string>> = Array.map(
   ASText.toUnstyledString,
 );
+
+/**
+ * Options of `toAnsiLines`
+ *
+ * @category Models
+ */
+export interface LineBudget {
+  /** Maximum number of lines to output, truncation line excluded (default: no limit) */
+  readonly maxLines?: number;
+  /**
+   * Maximum number of bytes to output, truncation line excluded. Each line counts for the length of
+   * its UTF-8 encoded ANSI string plus one byte for the line break that separates it from the
+   * previous line (default: no limit)
+   */
+  readonly maxBytes?: number;
+  /**
+   * Function that builds the line that replaces the lines that exceed the budget from the number of
+   * those lines (default: `(n) => '... ' + n + ' more'`)
+   */
+  readonly truncationMark?: MTypes.OneArgFunction<number, string>;
+}
+
+/** Returns the number of bytes of the UTF-8 encoding of `s` */
+const _utf8Length = (s: string): number => {
+  let result = 0;
+  for (const char of s) {
+    const codePoint = char.codePointAt(0) ?? 0;
+    result += codePoint < 0x80 ? 1 : codePoint < 0x8_00 ? 2 : codePoint < 0x1_00_00 ? 3 : 4;
+  }
+  return result;
+};
+
+/**
+ * Returns a lazy iterable over the ANSI strings of the lines of `self`. Lines are only converted to
+ * ANSI strings when they are iterated, so no conversion is done for lines that are not consumed. As
+ * soon as the next line would exceed the `maxLines` or `maxBytes` budget, the iteration outputs the
+ * line returned by `truncationMark` (called with the number of remaining lines) and stops. Without
+ * a budget, the iterated lines joined with line breaks are identical to the result of
+ * `toAnsiString()`
+ *
+ * @category Destructors
+ */
+export const toAnsiLines =
+  ({ maxLines, maxBytes, truncationMark = (n) => `... ${n} more` }: LineBudget = {}) =>
+  (self: Type): Iterable<string> => ({
+    *[Symbol.iterator]() {
+      let byteLength = 0;
+      for (const [index, line] of self.entries()) {
+        const ansiLine = ASText.toAnsiString(line);
+        byteLength += _utf8Length(ansiLine) + (index === 0 ? 0 : 1);
+        if (
+          (maxLines !== undefined && index >= maxLines) ||
+          (maxBytes !== undefined && byteLength > maxBytes)
+        ) {
+          yield truncationMark(self.length - index);
+          return;
+        }
+        yield ansiLine;
+      }
+    },
+  });
@@ -40,9 +40,9 @@ import * as PPResolvedNonPrimitiveParameters from '../internal/Parameters/Resolv
 import * as PPValue from '../internal/stringification/Value.js';
 import * as PPValues from '../internal/stringification/Values.js';
 import * as PPByPasser from '../Parameters/ByPasser.js';
+import * as PPFallbackStrategy from '../Parameters/FallbackStrategy.js';
 import * as PPNonPrimitiveFormatter from '../Parameters/NonPrimitiveFormatter.js';
 import * as PPPrimitiveFormatter from '../Parameters/PrimitiveFormatter.js';
-import * as PPPropertyFilter from '../Parameters/PropertyFilter.js';
 import * as PPPropertyFormatter from '../Parameters/PropertyFormatter.js';
 import * as PPPropertyNumberDisplayOption from '../Parameters/PropertyNumberDisplayOption.js';
 import * as PPStyleMap from '../Parameters/StyleMap.js';
@@ -139,8 +139,8 @@ export class Type extends MEquivalenceBasedEqualityData.Class {
                     PPValue.isPrimitive,
                     flow(
                       PPPrimitiveFormatter.action(parameters.primitiveFormatter),
-                      primitiveValueContextStyler(seed),
-                      PPStringifiedValue.fromText,
+                      String.split(MRegExp.lineBreak),
+                      Array.map((line) => primitiveValueContextStyler(seed)(line)),
                       Result.fail,
                     ),
                   ),
@@ -188,50 +188,45 @@ export class Type extends MEquivalenceBasedEqualityData.Class {
                 const unCyclicalUnBypassedNonPrimitiveUnderMaxDepth = yield* pipe(
                   cycleSource,
                   Option.map((nonLeaf) =>
-                    pipe(
-                      nonLeaf.cyclicalRef,
-                      Option.getOrElse(() => {
-                        nonLeaf.cyclicalRef = Option.some(++lastCyclicalIndex);
-                        return lastCyclicalIndex;
-                      }),
-                      MString.fromNumber(10),
-                      MString.prepend(parameters.circularReferenceTag),
-                      tagStyler,
-                      ASText.surround(
-                        tagStyler(parameters.openingTagMark),
-                        tagStyler(parameters.closingTagMark),
+                    Option.match(parameters.circularReferenceStrategy, {
+                      onNone: () =>
+                        pipe(
+                          nonLeaf.cyclicalRef,
+                          Option.getOrElse(() => {
+                            nonLeaf.cyclicalRef = Option.some(++lastCyclicalIndex);
+                            return lastCyclicalIndex;
+                          }),
+                          MString.fromNumber(10),
+                          MString.prepend(parameters.circularReferenceTag),
+                          tagStyler,
+                          ASText.surround(
+                            tagStyler(parameters.openingTagMark),
+                            tagStyler(parameters.closingTagMark),
+                          ),
+                          PPStringifiedValue.fromText,
+                        ),
+                      onSome: flow(
+                        PPFallbackStrategy.apply(
+                          'Circular references cannot be represented as a literal',
+                        ),
+                        tagStyler,
+                        PPStringifiedValue.fromText,
                       ),
-                      PPStringifiedValue.fromText,
-                    ),
+                    }),
                   ),
                   Result.fromOption(Function.constant(unBypassedNonPrimitiveUnderMaxDepth)),
                   Result.flip,
                 );
 
-                const properties = Array.appendAll(
-                  PPValues.fromNonPrimitiveKeysAndValues({
-                    nonPrimitive: unCyclicalUnBypassedNonPrimitiveUnderMaxDepth,
-                    maxPrototypeDepth: applicableNonPrimitiveParameters.maxPrototypeDepth,
-                  }),
-                  applicableNonPrimitiveParameters.extractIterableElements
-                    ? PPValues.fromNonPrimitiveIterable({
-                        nonPrimitive: unCyclicalUnBypassedNonPrimitiveUnderMaxDepth,
-                        stringifier: internalStringify,
-                      })
-                    : Array.empty(),
-                );
+                const properties = PPValues.fromNonPrimitive({
+                  nonPrimitive: unCyclicalUnBypassedNonPrimitiveUnderMaxDepth,
+                  applicableNonPrimitiveParameters,
+                  stringifier: internalStringify,
+                });
 
                 const filteredAndSortedProperties = pipe(
                   properties,
-                  PPPropertyFilter.action(applicableNonPrimitiveParameters.propertyFilter),
-                  PPValues.sort(applicableNonPrimitiveParameters.propertySortOrder),
-                  MFunction.fIfTrue({
-                    condition: applicableNonPrimitiveParameters.dedupeProperties,
-                    f: Array.dedupeWith(
-                      (self, that) => self.oneLineStringKey === that.oneLineStringKey,
-                    ),
-                  }),
-                  Array.take(applicableNonPrimitiveParameters.maxPropertyNumber),
+                  PPValues.filterAndSort(applicableNonPrimitiveParameters),
                 );
 
                 const hideAutoGeneratedKeys =
@@ -1,8 +1,16 @@
+import * as DateTime from 'effect/DateTime';
+import * as Duration from 'effect/Duration';
 import * as Function from 'effect/Function';
 import * as Option from 'effect/Option';
+import * as Redacted from 'effect/Redacted';
 
+import * as ASText from '@parischap/ansi-styles/ASText';
 import * as TestUtils from '@parischap/configs/TestUtils';
+import * as CVDateTime from '@parischap/conversions/CVDateTime';
 import * as PPByPasser from '@parischap/pretty-print/PPByPasser';
+import * as PPConfigFormat from '@parischap/pretty-print/PPConfigFormat';
+import * as PPFallbackStrategy from '@parischap/pretty-print/PPFallbackStrategy';
+import * as PPLiteralFormat from '@parischap/pretty-print/PPLiteralFormat';
 import * as PPParameters from '@parischap/pretty-print/PPParameters';
 import * as PPResolvedNonPrimitiveParameters from '@parischap/pretty-print/PPResolvedNonPrimitiveParameters';
 import * as PPValue from '@parischap/pretty-print/PPValue';
@@ -156,4 +164,161 @@ describe('PPByPasser', () => {
       );
     });
   });
+
+  describe('literalDateAndRegExp', () => {
+    const apply = (byPasser: PPByPasser.Type, value: object) =>
+      PPByPasser.action(byPasser)({
+        nonPrimitive: PPValue.fromTopValue(value),
+        parameters: PPParameters.json,
+        applicableNonPrimitiveParameters: resolved,
+      });
+    const json = PPByPasser.literalDateAndRegExp(PPLiteralFormat.Type.JSON);
+    const javaScript = PPByPasser.literalDateAndRegExp(PPLiteralFormat.Type.JavaScript);
+
+    it('Applied to a Date', () => {
+      TestUtils.assertEquals(apply(json, new Date(0)), Option.some('"1970-01-01T00:00:00.000Z"'));
+      TestUtils.assertEquals(
+        apply(javaScript, new Date(0)),
+        Option.some("new Date('1970-01-01T00:00:00.000Z')"),
+      );
+    });
+
+    it('Applied to an invalid Date', () => {
+      TestUtils.assertEquals(apply(json, new Date(Number.NaN)), Option.some('null'));
+      TestUtils.assertEquals(apply(javaScript, new Date(Number.NaN)), Option.some('new Date(NaN)'));
+    });
+
+    it('Applied to a RegExp', () => {
+      TestUtils.assertNone(apply(json, /foo/g));
+      TestUtils.assertEquals(apply(javaScript, /foo/g), Option.some('/foo/g'));
+    });
+  });
+
+  describe('fallback', () => {
+    const foo = function foo(): void {};
+    const apply = (strategy: PPFallbackStrategy.Type) =>
+      PPByPasser.action(PPByPasser.fallback(strategy))({
+        nonPrimitive: PPValue.fromTopValue(foo),
+        parameters: PPParameters.json,
+        applicableNonPrimitiveParameters: resolved,
+      });
+
+    it('With a placeholder', () => {
+      TestUtils.assertEquals(apply(PPFallbackStrategy.placeholder('null')), Option.some('null'));
+    });
+
+    it('Failing', () => {
+      TestUtils.throws(() => apply(PPFallbackStrategy.fail));
+    });
+  });
+
+  describe('configDateAndRegExp', () => {
+    const apply = (byPasser: PPByPasser.Type, value: object) =>
+      PPByPasser.action(byPasser)({
+        nonPrimitive: PPValue.fromTopValue(value),
+        parameters: PPParameters.yaml,
+        applicableNonPrimitiveParameters: resolved,
+      });
+    const yaml = PPByPasser.configDateAndRegExp(PPConfigFormat.Type.YAML);
+    const toml = PPByPasser.configDateAndRegExp(PPConfigFormat.Type.TOML);
+
+    it('Applied to a Date', () => {
+      TestUtils.assertEquals(apply(yaml, new Date(0)), Option.some('1970-01-01T00:00:00.000Z'));
+      TestUtils.assertEquals(apply(toml, new Date(Number.NaN)), Option.some('"Invalid Date"'));
+    });
+
+    it('Applied to a RegExp', () => {
+      TestUtils.assertEquals(apply(yaml, /foo/g), Option.some("'/foo/g'"));
+      TestUtils.assertEquals(apply(toml, /foo/g), Option.some('"/foo/g"'));
+    });
+
+    it('Applied to another non-primitive value', () => {
+      TestUtils.assertNone(apply(yaml, { a: 1 }));
+    });
+  });
+
+  describe('Effect data types', () => {
+    const apply = (byPasser: PPByPasser.Type, value: object) =>
+      PPByPasser.action(byPasser)({
+        nonPrimitive: PPValue.fromTopValue(value),
+        parameters: PPParameters.utilInspectLike,
+        applicableNonPrimitiveParameters: resolved,
+      });
+
+    it('effectNone', () => {
+      TestUtils.assertEquals(apply(PPByPasser.effectNone, Option.none()), Option.some('None'));
+      TestUtils.assertNone(apply(PPByPasser.effectNone, Option.some(1)));
+    });
+
+    it('effectDateTime', () => {
+      TestUtils.assertEquals(
+        apply(PPByPasser.effectDateTime, DateTime.makeUnsafe(0)),
+        Option.some('DateTime.Utc(1970-01-01T00:00:00.000Z)'),
+      );
+      TestUtils.assertEquals(
+        apply(
+          PPByPasser.effectDateTime,
+          DateTime.makeZonedUnsafe(0, { timeZone: DateTime.zoneMakeOffset(3_600_000) }),
+        ),
+        Option.some('DateTime.Zoned(1970-01-01T01:00:00.000+01:00)'),
+      );
+      TestUtils.assertNone(apply(PPByPasser.effectDateTime, new Date(0)));
+    });
+
+    it('effectDuration', () => {
+      TestUtils.assertEquals(
+        apply(PPByPasser.effectDuration, Duration.seconds(5)),
+        Option.some('Duration(5 seconds)'),
+      );
+      TestUtils.assertEquals(
+        apply(PPByPasser.effectDuration, Duration.millis(61_500)),
+        Option.some('Duration(1 minute 1 second 500 milliseconds)'),
+      );
+      TestUtils.assertEquals(
+        apply(PPByPasser.effectDuration, Duration.zero),
+        Option.some('Duration(0)'),
+      );
+      TestUtils.assertEquals(
+        apply(PPByPasser.effectDuration, Duration.infinity),
+        Option.some('Duration(Infinity)'),
+      );
+    });
+
+    it('effectRedacted', () => {
+      TestUtils.assertEquals(
+        apply(PPByPasser.effectRedacted, Redacted.make('secret')),
+        Option.some('<redacted>'),
+      );
+      TestUtils.assertEquals(
+        apply(PPByPasser.effectRedacted, Redacted.make('secret', { label: 'password' })),
+        Option.some('<redacted:password>'),
+      );
+    });
+
+    it('cvDateTime', () => {
+      TestUtils.assertEquals(
+        apply(PPByPasser.cvDateTime, CVDateTime.fromTimestampOrThrow(0, 0)),
+        Option.some('CVDateTime(1970-01-01T00:00:00.000+00:00)'),
+      );
+    });
+
+    it('asText', () => {
+      TestUtils.assertEquals(
+        apply(PPByPasser.asText, ASText.fromString('foo')),
+        Option.some("ASText('foo')"),
+      );
+    });
+
+    it('effectDataTypes', () => {
+      TestUtils.assertEquals(
+        apply(PPByPasser.effectDataTypes, Duration.seconds(1)),
+        Option.some('Duration(1 second)'),
+      );
+      TestUtils.assertEquals(
+        apply(PPByPasser.effectDataTypes, new Date(0)),
+        Option.some('1970-01-01T00:00:00.000Z'),
+      );
+      TestUtils.assertNone(apply(PPByPasser.effectDataTypes, { a: 1 }));
+    });
+  });
 });
@@ -0,0 +1,36 @@
+import * as Option from 'effect/Option';
+
+import * as TestUtils from '@parischap/configs/TestUtils';
+import * as PPFallbackStrategy from '@parischap/pretty-print/PPFallbackStrategy';
+
+import { describe, it } from 'vitest';
+
+describe('PPFallbackStrategy', () => {
+  it('moduleTag', () => {
+    TestUtils.assertEquals(
+      Option.some(PPFallbackStrategy.moduleTag),
+      TestUtils.moduleTagFromTestFilePath(import.meta.filename),
+    );
+  });
+
+  it('id', () => {
+    TestUtils.strictEqual(PPFallbackStrategy.id(PPFallbackStrategy.fail), 'Fail');
+    TestUtils.strictEqual(
+      PPFallbackStrategy.id(PPFallbackStrategy.placeholder('null')),
+      'Placeholder/null/',
+    );
+  });
+
+  describe('apply', () => {
+    it('placeholder', () => {
+      TestUtils.strictEqual(
+        PPFallbackStrategy.apply('Unexpected')(PPFallbackStrategy.placeholder('null')),
+        'null',
+      );
+    });
+
+    it('fail', () => {
+      TestUtils.throws(() => PPFallbackStrategy.apply('Unexpected')(PPFallbackStrategy.fail));
+    });
+  });
+});
@@ -64,5 +64,14 @@ describe('PPNonPrimitiveParameters', () => {
     it('utilInspectLikeArray applies to arrays', () => {
       TestUtils.assertTrue(PPNonPrimitiveParameters.utilInspectLikeArray.isApplicableTo([1, 2, 3]));
     });
+
+    it('effectOptionSome applies to a some only', () => {
+      TestUtils.assertTrue(
+        PPNonPrimitiveParameters.effectOptionSome.isApplicableTo(Option.some(1)),
+      );
+      TestUtils.assertFalse(
+        PPNonPrimitiveParameters.effectOptionSome.isApplicableTo(Option.none()),
+      );
+    });
   });
 });
@@ -113,4 +113,97 @@ describe('PPPrimitiveFormatter', () => {
       TestUtils.strictEqual(format('foobar1'), "'foo...'");
     });
   });
+
+  describe('literal', () => {
+    const formatWith =
+      (primitiveFormatter: PPPrimitiveFormatter.Type) =>
+      (value: MTypes.Primitive): string =>
+        PPPrimitiveFormatter.action(primitiveFormatter)(PPValue.fromTopValue(value));
+    const json = formatWith(PPPrimitiveFormatter.json);
+    const json5 = formatWith(PPPrimitiveFormatter.json5);
+    const javaScript = formatWith(PPPrimitiveFormatter.javaScript);
+
+    it('string', () => {
+      const s = `it's "quoted" \\ \n`;
+      TestUtils.strictEqual(json(s), String.raw`"it's \"quoted\" \\ \n"`);
+      TestUtils.strictEqual(json5(s), String.raw`'it\'s "quoted" \\ \n'`);
+      TestUtils.strictEqual(javaScript(s), json5(s));
+    });
+
+    it('number', () => {
+      TestUtils.strictEqual(json(-1.5), '-1.5');
+      TestUtils.strictEqual(json(Number.NaN), 'null');
+      TestUtils.strictEqual(json(Number.NEGATIVE_INFINITY), 'null');
+      TestUtils.strictEqual(json(-0), '0');
+      TestUtils.strictEqual(json5(Number.NaN), 'NaN');
+      TestUtils.strictEqual(json5(Number.NEGATIVE_INFINITY), '-Infinity');
+      TestUtils.strictEqual(javaScript(-0), '-0');
+    });
+
+    it('bigint', () => {
+      TestUtils.strictEqual(json(5n), '5');
+      TestUtils.strictEqual(json5(5n), '5');
+      TestUtils.strictEqual(javaScript(5n), '5n');
+    });
+
+    it('symbol', () => {
+      TestUtils.strictEqual(json(Symbol.for('foo')), 'null');
+      TestUtils.strictEqual(javaScript(Symbol.for('foo')), "Symbol('foo')");
+      TestUtils.strictEqual(javaScript(Symbol()), 'Symbol()');
+    });
+
+    it('undefined and null', () => {
+      TestUtils.strictEqual(json(undefined), 'null');
+      TestUtils.strictEqual(json5(undefined), 'null');
+      TestUtils.strictEqual(javaScript(undefined), 'undefined');
+      TestUtils.strictEqual(javaScript(null), 'null');
+    });
+  });
+
+  describe('config', () => {
+    const formatWith =
+      (primitiveFormatter: PPPrimitiveFormatter.Type) =>
+      (value: MTypes.Primitive): string =>
+        PPPrimitiveFormatter.action(primitiveFormatter)(PPValue.fromTopValue(value));
+    const yaml = formatWith(PPPrimitiveFormatter.yaml);
+    const toml = formatWith(PPPrimitiveFormatter.toml);
+
+    it('string', () => {
+      TestUtils.strictEqual(yaml('foo bar/1.5'), 'foo bar/1.5');
+      TestUtils.strictEqual(yaml('Yes'), "'Yes'");
+      TestUtils.strictEqual(yaml('1.5'), "'1.5'");
+      TestUtils.strictEqual(yaml("it's: "), "'it''s: '");
+      TestUtils.strictEqual(yaml(''), "''");
+      TestUtils.strictEqual(yaml('a\tb'), String.raw`"a\tb"`);
+      TestUtils.strictEqual(toml('foo'), '"foo"');
+    });
+
+    it('multi-line string', () => {
+      TestUtils.strictEqual(yaml('a\nb'), '|-\na\nb');
+      TestUtils.strictEqual(yaml('a\nb\n'), '|\na\nb');
+      TestUtils.strictEqual(yaml('a\n\n'), '|+\na\n\n');
+      TestUtils.strictEqual(yaml(' a\nb'), String.raw`" a\nb"`);
+      TestUtils.strictEqual(yaml('a\r\nb'), String.raw`"a\r\nb"`);
+      TestUtils.strictEqual(toml('a\nb'), String.raw`"a\nb"`);
+    });
+
+    it('number', () => {
+      TestUtils.strictEqual(yaml(-1.5), '-1.5');
+      TestUtils.strictEqual(yaml(Number.NaN), '.nan');
+      TestUtils.strictEqual(yaml(Number.NEGATIVE_INFINITY), '-.inf');
+      TestUtils.strictEqual(toml(Number.NaN), 'nan');
+      TestUtils.strictEqual(toml(Number.POSITIVE_INFINITY), 'inf');
+    });
+
+    it('bigint, symbol, undefined and null', () => {
+      TestUtils.strictEqual(yaml(5n), '5');
+      TestUtils.strictEqual(yaml(2n ** 70n), '1180591620717411303424');
+      TestUtils.strictEqual(toml(-(2n ** 63n)), '-9223372036854775808');
+      TestUtils.strictEqual(toml(2n ** 63n), '"9223372036854775808"');
+      TestUtils.strictEqual(yaml(Symbol.for('foo')), "'Symbol(foo)'");
+      TestUtils.strictEqual(toml(Symbol.for('foo')), '"Symbol(foo)"');
+      TestUtils.strictEqual(yaml(undefined), 'null');
+      TestUtils.strictEqual(yaml(null), 'null');
+    });
+  });
 });
@@ -85,6 +85,17 @@ describe('PPPropertyFilter', () => {
     );
   });
 
+  it('removeNullishValues removes null and undefined values', () => {
+    const nullValue = PPValue.fromTopValue(null);
+    const undefinedValue = PPValue.fromTopValue(undefined);
+    TestUtils.deepStrictEqual(
+      PPPropertyFilter.action(PPPropertyFilter.removeNullishValues)(
+        Array.make(nullValue, objValue, undefinedValue, stringValue),
+      ),
+      Array.make(objValue, stringValue),
+    );
+  });
+
   it('removeNonEnumerables keeps only enumerable properties', () => {
     TestUtils.deepStrictEqual(
       PPPropertyFilter.action(PPPropertyFilter.removeNonEnumerables)(values),
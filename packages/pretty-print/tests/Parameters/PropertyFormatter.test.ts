@@ -1,7 +1,9 @@
+import * as Array from 'effect/Array';
 import * as Option from 'effect/Option';
 
 import * as ASText from '@parischap/ansi-styles/ASText';
 import * as TestUtils from '@parischap/configs/TestUtils';
+import * as PPLiteralFormat from '@parischap/pretty-print/PPLiteralFormat';
 import * as PPParameters from '@parischap/pretty-print/PPParameters';
 import * as PPPropertyFormatter from '@parischap/pretty-print/PPPropertyFormatter';
 import * as PPStringifiedValue from '@parischap/pretty-print/PPStringifiedValue';
@@ -152,4 +154,175 @@ describe('PPPropertyFormatter', () => {
       );
     });
   });
+
+  describe('literal', () => {
+    const keyAndValue = (format: PPLiteralFormat.Type, key: string) =>
+      PPStringifiedValue.toUnstyledStrings(
+        PPPropertyFormatter.action(PPPropertyFormatter.literal(format))({
+          property: PPValue.fromNonPrimitiveValueAndKey({
+            nonPrimitive: { [key]: 1 },
+            key,
+            depth: 1,
+            protoDepth: 0,
+          }),
+          stringifiedPropValue: stringifiedValue,
+          isLeaf: true,
+          hideKey: false,
+          parameters,
+        }),
+      );
+
+    it('JSON', () => {
+      TestUtils.deepStrictEqual(keyAndValue(PPLiteralFormat.Type.JSON, 'a'), ['"a": 1']);
+    });
+
+    it('JSON5', () => {
+      TestUtils.deepStrictEqual(keyAndValue(PPLiteralFormat.Type.JSON5, '$a_1'), ['$a_1: 1']);
+      TestUtils.deepStrictEqual(keyAndValue(PPLiteralFormat.Type.JSON5, "a-'b'"), [
+        String.raw`'a-\'b\'': 1`,
+      ]);
+      TestUtils.deepStrictEqual(keyAndValue(PPLiteralFormat.Type.JSON5, '1a'), ["'1a': 1"]);
+    });
+  });
+
+  describe('yaml', () => {
+    const yaml = ({
+      stringifiedPropValue,
+      isLeaf,
+      hideKey,
+    }: {
+      readonly stringifiedPropValue: Array.NonEmptyReadonlyArray<string>;
+      readonly isLeaf: boolean;
+      readonly hideKey: boolean;
+    }) =>
+      PPStringifiedValue.toUnstyledStrings(
+        PPPropertyFormatter.action(PPPropertyFormatter.yaml)({
+          property: PPValue.fromNonPrimitiveValueAndKey({
+            nonPrimitive: { 'a b': 1 },
+            key: 'a b',
+            depth: 1,
+            protoDepth: 0,
+          }),
+          stringifiedPropValue: Array.map(stringifiedPropValue, (line) => ASText.fromString(line)),
+          isLeaf,
+          hideKey,
+          parameters,
+        }),
+      );
+
+    it('Leaf', () => {
+      TestUtils.deepStrictEqual(
+        yaml({ stringifiedPropValue: ['1'], isLeaf: true, hideKey: false }),
+        ['a b: 1'],
+      );
+      TestUtils.deepStrictEqual(
+        yaml({ stringifiedPropValue: ['|', 'x', '', 'y'], isLeaf: true, hideKey: true }),
+        ['- |', '  x', '', '  y'],
+      );
+    });
+
+    it('Single-line non-leaf', () => {
+      TestUtils.deepStrictEqual(
+        yaml({ stringifiedPropValue: ['&1 {}'], isLeaf: false, hideKey: false }),
+        ['a b: &1 {}'],
+      );
+    });
+
+    it('Multi-line non-leaf without anchor', () => {
+      TestUtils.deepStrictEqual(
+        yaml({ stringifiedPropValue: ['', 'c: 1', 'd: 2'], isLeaf: false, hideKey: false }),
+        ['a b:', '  c: 1', '  d: 2'],
+      );
+      TestUtils.deepStrictEqual(
+        yaml({ stringifiedPropValue: ['', 'c: 1', 'd: 2'], isLeaf: false, hideKey: true }),
+        ['- c: 1', '  d: 2'],
+      );
+    });
+
+    it('Multi-line non-leaf with anchor', () => {
+      TestUtils.deepStrictEqual(
+        yaml({ stringifiedPropValue: ['&1', '- 1'], isLeaf: false, hideKey: false }),
+        ['a b: &1', '  - 1'],
+      );
+      TestUtils.deepStrictEqual(
+        yaml({ stringifiedPropValue: ['&1', '- 1'], isLeaf: false, hideKey: true }),
+        ['- &1', '  - 1'],
+      );
+    });
+  });
+
+  describe('toml', () => {
+    const toml = ({
+      content,
+      depth,
+      stringifiedPropValue,
+      isLeaf,
+      hideKey,
+    }: {
+      readonly content: unknown;
+      readonly depth: number;
+      readonly stringifiedPropValue: Array.NonEmptyReadonlyArray<string>;
+      readonly isLeaf: boolean;
+      readonly hideKey: boolean;
+    }) =>
+      PPStringifiedValue.toUnstyledStrings(
+        PPPropertyFormatter.action(PPPropertyFormatter.toml)({
+          property: PPValue.fromNonPrimitiveValueAndKey({
+            nonPrimitive: { 'a.b': content },
+            key: 'a.b',
+            depth,
+            protoDepth: 0,
+          }),
+          stringifiedPropValue: Array.map(stringifiedPropValue, (line) => ASText.fromString(line)),
+          isLeaf,
+          hideKey,
+          parameters,
+        }),
+      );
+
+    it('Leaf', () => {
+      TestUtils.deepStrictEqual(
+        toml({ content: 1, depth: 1, stringifiedPropValue: ['1'], isLeaf: true, hideKey: false }),
+        ['"a.b" = 1'],
+      );
+    });
+
+    it('Array', () => {
+      TestUtils.deepStrictEqual(
+        toml({
+          content: [1],
+          depth: 2,
+          stringifiedPropValue: ['[ 1 ]'],
+          isLeaf: false,
+          hideKey: false,
+        }),
+        ['"a.b" = [ 1 ]'],
+      );
+    });
+
+    it('Table', () => {
+      const table = {
+        content: { c: 1, d: 2 },
+        stringifiedPropValue: Array.make('c = 1', 'd = 2'),
+        isLeaf: false,
+      };
+      TestUtils.deepStrictEqual(toml({ ...table, depth: 1, hideKey: false }), [
+        '["a.b"]',
+        'c = 1',
+        'd = 2',
+      ]);
+      TestUtils.deepStrictEqual(toml({ ...table, depth: 2, hideKey: false }), [
+        '"a.b".c = 1',
+        '"a.b".d = 2',
+      ]);
+      TestUtils.deepStrictEqual(toml({ ...table, depth: 2, hideKey: true }), ['{ c = 1, d = 2 }']);
+    });
+
+    it('Empty table', () => {
+      TestUtils.deepStrictEqual(
+        toml({ content: {}, depth: 1, stringifiedPropValue: [''], isLeaf: false, hideKey: false }),
+        ['"a.b" = {}'],
+      );
+    });
+  });
 });
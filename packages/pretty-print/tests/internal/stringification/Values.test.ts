@@ -80,7 +80,11 @@ describe('PPValues', () => {
     describe('Array-like iterable (simple values)', () => {
       it('Returns a value for each element with an auto-generated key', () => {
         const nonPrimitive = PPValue.fromTopValue([10, 20, 30]);
-        const values = PPValues.fromNonPrimitiveIterable({ nonPrimitive, stringifier });
+        const values = PPValues.fromNonPrimitiveIterable({
+          nonPrimitive,
+          splitKeyValuePairs: true,
+          stringifier,
+        });
         TestUtils.strictEqual(values.length, 3);
         const [firstValue] = values;
         TestUtils.assertDefined(firstValue);
@@ -99,7 +103,11 @@ describe('PPValues', () => {
             ['b', 2],
           ]),
         );
-        const values = PPValues.fromNonPrimitiveIterable({ nonPrimitive, stringifier });
+        const values = PPValues.fromNonPrimitiveIterable({
+          nonPrimitive,
+          splitKeyValuePairs: true,
+          stringifier,
+        });
         TestUtils.strictEqual(values.length, 2);
         TestUtils.assertTrue(
           values.some((v) => PPValue.oneLineStringKey(v) === 'a' && PPValue.content(v) === 1),
@@ -108,11 +116,29 @@ describe('PPValues', () => {
         TestUtils.assertDefined(firstValue);
         TestUtils.assertFalse(PPValue.hasGeneratedKey(firstValue));
       });
+
+      it('Keeps the entries whole when splitKeyValuePairs is false', () => {
+        const nonPrimitive = PPValue.fromTopValue(new Map([['a', 1]]));
+        const values = PPValues.fromNonPrimitiveIterable({
+          nonPrimitive,
+          splitKeyValuePairs: false,
+          stringifier,
+        });
+        const [firstValue] = values;
+        TestUtils.assertDefined(firstValue);
+        TestUtils.strictEqual(PPValue.oneLineStringKey(firstValue), '0');
+        TestUtils.deepStrictEqual(PPValue.content(firstValue), ['a', 1]);
+        TestUtils.assertTrue(PPValue.hasGeneratedKey(firstValue));
+      });
     });
 
     it('Returns empty array for a non-iterable', () => {
       const nonPrimitive = PPValue.fromTopValue({ a: 1 });
-      const values = PPValues.fromNonPrimitiveIterable({ nonPrimitive, stringifier });
+      const values = PPValues.fromNonPrimitiveIterable({
+        nonPrimitive,
+        splitKeyValuePairs: true,
+        stringifier,
+      });
       TestUtils.deepStrictEqual(values, []);
     });
   });
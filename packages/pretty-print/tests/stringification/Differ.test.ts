@@ -0,0 +1,164 @@
+import * as HashSet from 'effect/HashSet';
+import * as Option from 'effect/Option';
+
+import * as TestUtils from '@parischap/configs/TestUtils';
+import * as PPDiffer from '@parischap/pretty-print/PPDiffer';
+import * as PPParameters from '@parischap/pretty-print/PPParameters';
+import * as PPStringifiedValue from '@parischap/pretty-print/PPStringifiedValue';
+
+import { describe, it } from 'vitest';
+
+describe('PPDiffer', () => {
+  it('moduleTag', () => {
+    TestUtils.assertEquals(
+      Option.some(PPDiffer.moduleTag),
+      TestUtils.moduleTagFromTestFilePath(import.meta.filename),
+    );
+  });
+
+  describe('Equal.equals', () => {
+    it('Matching', () => {
+      TestUtils.assertEquals(
+        PPDiffer.make(PPParameters.utilInspectLike),
+        PPDiffer.make(PPParameters.utilInspectLike),
+      );
+    });
+
+    it('Non-matching', () => {
+      TestUtils.assertNotEquals(
+        PPDiffer.make(PPParameters.utilInspectLike),
+        PPDiffer.make(PPParameters.treeify),
+      );
+    });
+  });
+
+  it('.toString()', () => {
+    TestUtils.strictEqual(
+      PPDiffer.make(PPParameters.utilInspectLike).toString(),
+      'UtilInspectLikeDiffer',
+    );
+  });
+
+  describe('diff (utilInspectLike)', () => {
+    const { diff } = PPDiffer.make(PPParameters.utilInspectLike);
+    const unstyledDiff = (expected: unknown, actual: unknown) =>
+      PPStringifiedValue.toUnstyledStrings(diff(expected, actual));
+
+    it('Equal primitives', () => {
+      TestUtils.deepStrictEqual(unstyledDiff(42, 42), ['42']);
+    });
+
+    it('Different primitives', () => {
+      TestUtils.deepStrictEqual(unstyledDiff('foo', 'bar'), ["'foo' → 'bar'"]);
+    });
+
+    it('Multi-line strings', () => {
+      TestUtils.deepStrictEqual(unstyledDiff('a\nb', 'c'), ["'a", "b' → 'c'"]);
+    });
+
+    it('Primitive and non-primitive', () => {
+      TestUtils.deepStrictEqual(unstyledDiff(1, { a: 1 }), ['1 → { a: 1 }']);
+    });
+
+    it('Added, removed, changed and unchanged properties', () => {
+      TestUtils.deepStrictEqual(
+        unstyledDiff({ a: 1, b: { c: 2 }, d: 3 }, { a: 2, b: { c: 2 }, e: 4 }),
+        ['{ a: 1 → 2, b: [Object], - d: 3, + e: 4 }'],
+      );
+    });
+
+    it('Arrays', () => {
+      TestUtils.deepStrictEqual(unstyledDiff([1, 2, 3], [1, 5]), ['[ 1, 2 → 5, - 3 ]']);
+    });
+
+    it('Structurally equal objects', () => {
+      TestUtils.deepStrictEqual(unstyledDiff({ a: [1, 2] }, { a: [1, 2] }), ['[Object]']);
+    });
+
+    it('Values beyond maxDepth', () => {
+      TestUtils.deepStrictEqual(unstyledDiff({ x: { y: { z: 1 } } }, { x: { y: { z: 2 } } }), [
+        '{ x: { y: [Object] → [Object] } }',
+      ]);
+    });
+
+    it('Values implementing Equal', () => {
+      TestUtils.deepStrictEqual(
+        unstyledDiff({ a: HashSet.make(1, 2) }, { a: HashSet.make(2, 1) }),
+        ['[Object]'],
+      );
+      TestUtils.deepStrictEqual(unstyledDiff(HashSet.make(1, 2), HashSet.make(1, 3)), [
+        'HashSet(2) { 1, 2 } → HashSet(2) { 1, 3 }',
+      ]);
+    });
+
+    it('Bypassed values', () => {
+      TestUtils.deepStrictEqual(unstyledDiff(new Date(0), new Date(1)), [
+        '1970-01-01T00:00:00.000Z → 1970-01-01T00:00:00.001Z',
+      ]);
+    });
+
+    it('Circular references', () => {
+      const expected: Record<string, unknown> = { a: 1 };
+      expected['self'] = expected;
+      const actual: Record<string, unknown> = { a: 2 };
+      actual['self'] = actual;
+      TestUtils.deepStrictEqual(unstyledDiff(expected, actual), [
+        '<Ref *1> { a: 1 → 2, self: [Circular *1] }',
+      ]);
+    });
+
+    it('Circular references numbered like PPStringifier', () => {
+      const makeValue = (a: number) => {
+        const b: Record<string, unknown> = { x: a };
+        const root = { a, b };
+        b['root'] = root;
+        b['self'] = b;
+        return root;
+      };
+      TestUtils.deepStrictEqual(unstyledDiff(makeValue(1), makeValue(2)), [
+        '<Ref *1> {',
+        '  a: 1 → 2,',
+        '  b: <Ref *2> { x: 1 → 2, root: [Circular *1], self: [Circular *2] }',
+        '}',
+      ]);
+    });
+
+    it('Circular references in an unchanged property', () => {
+      const makeValue = (a: number) => {
+        const b: Record<string, unknown> = {};
+        const root = { a, b };
+        b['root'] = root;
+        return root;
+      };
+      TestUtils.deepStrictEqual(unstyledDiff(makeValue(1), makeValue(2)), [
+        '{ a: 1 → 2, b: [Object] }',
+      ]);
+    });
+  });
+
+  it('diff (treeify)', () => {
+    const { diff } = PPDiffer.make(PPParameters.treeify);
+    TestUtils.deepStrictEqual(
+      PPStringifiedValue.toUnstyledStrings(
+        diff({ a: 1, b: { c: 2, d: [1, 2] } }, { a: 1, b: { c: 3, d: [1, 2, 3] } }),
+      ),
+      [
+        '├─ a: 1',
+        '└─ b',
+        '   ├─ c: 2 → 3',
+        '   └─ d',
+        '      ├─ 0: 1',
+        '      ├─ 1: 2',
+        '      └─ + 2: 3',
+      ],
+    );
+  });
+
+  it('diff (darkModeUtilInspectLike)', () => {
+    const { diff } = PPDiffer.make(PPParameters.darkModeUtilInspectLike);
+    TestUtils.strictEqual(
+      PPStringifiedValue.toAnsiString()(diff('a', 'b')),
+      "\u001B[31m'a'\u001B[33m → \u001B[32m'b'\u001B[0m",
+    );
+  });
+});
@@ -107,4 +107,65 @@ describe('PPStringifiedValue', () => {
       );
     });
   });
+
+  describe('toAnsiLines', () => {
+    const fiveLines: PPStringifiedValue.Type = Array.make(
+      ASText.fromString('a'),
+      ASText.fromString('bb'),
+      ASText.fromString('ccc'),
+      ASText.fromString('dddd'),
+      ASText.fromString('é'),
+    );
+
+    it('Without budget', () => {
+      TestUtils.deepStrictEqual(Array.fromIterable(PPStringifiedValue.toAnsiLines()(fiveLines)), [
+        'a',
+        'bb',
+        'ccc',
+        'dddd',
+        'é',
+      ]);
+    });
+
+    it('Line budget', () => {
+      TestUtils.deepStrictEqual(
+        Array.fromIterable(PPStringifiedValue.toAnsiLines({ maxLines: 2 })(fiveLines)),
+        ['a', 'bb', '... 3 more'],
+      );
+    });
+
+    it('Byte budget', () => {
+      // 'a' + '\nbb' + '\nccc' = 8 bytes
+      TestUtils.deepStrictEqual(
+        Array.fromIterable(PPStringifiedValue.toAnsiLines({ maxBytes: 10 })(fiveLines)),
+        ['a', 'bb', 'ccc', '... 2 more'],
+      );
+      // 'é' is 2 bytes long so the last line brings the total to 16 bytes
+      TestUtils.deepStrictEqual(
+        Array.fromIterable(PPStringifiedValue.toAnsiLines({ maxBytes: 15 })(fiveLines)),
+        ['a', 'bb', 'ccc', 'dddd', '... 1 more'],
+      );
+    });
+
+    it('Budget not reached', () => {
+      TestUtils.deepStrictEqual(
+        Array.fromIterable(
+          PPStringifiedValue.toAnsiLines({ maxLines: 5, maxBytes: 16 })(fiveLines),
+        ),
+        ['a', 'bb', 'ccc', 'dddd', 'é'],
+      );
+    });
+
+    it('Custom truncation mark', () => {
+      TestUtils.deepStrictEqual(
+        Array.fromIterable(
+          PPStringifiedValue.toAnsiLines({
+            maxLines: 0,
+            truncationMark: (n) => `<${n} lines hidden>`,
+          })(fiveLines),
+        ),
+        ['<5 lines hidden>'],
+      );
+    });
+  });
 });
@@ -1,6 +1,17 @@
+import { flow } from 'effect';
+import * as Cause from 'effect/Cause';
+import * as Chunk from 'effect/Chunk';
+import * as Duration from 'effect/Duration';
+import * as HashMap from 'effect/HashMap';
 import * as Option from 'effect/Option';
+import * as Redacted from 'effect/Redacted';
+import * as Result from 'effect/Result';
 
 import * as TestUtils from '@parischap/configs/TestUtils';
+import * as MTreeLeaf from '@parischap/effect-lib/MTreeLeaf';
+import * as MTreeNonLeaf from '@parischap/effect-lib/MTreeNonLeaf';
+import * as PPFallbackStrategy from '@parischap/pretty-print/PPFallbackStrategy';
+import * as PPLiteralFormat from '@parischap/pretty-print/PPLiteralFormat';
 import * as PPParameters from '@parischap/pretty-print/PPParameters';
 import * as PPStringifiedValue from '@parischap/pretty-print/PPStringifiedValue';
 import * as PPStringifier from '@parischap/pretty-print/PPStringifier';
@@ -100,5 +111,335 @@ describe('PPStringifier', () => {
       );
       TestUtils.assertTrue(result.includes('Map'));
     });
+
+    it('Stringifies an array of pairs as an array of arrays', () => {
+      TestUtils.deepStrictEqual(
+        PPStringifiedValue.toUnstyledStrings(
+          stringify([
+            ['a', 1],
+            ['b', 2],
+          ]),
+        ),
+        ["[ [ 'a', 1 ], [ 'b', 2 ] ]"],
+      );
+    });
+  });
+
+  describe('Literal presets', () => {
+    const value = {
+      a: 1,
+      'b-c': [Number.NaN, undefined, 2n],
+      d: new Date(0),
+      m: new Map([['a', 1]]),
+    };
+    const toString = (parameters: PPParameters.Type) =>
+      flow(PPStringifier.make(parameters).stringify, PPStringifiedValue.toAnsiString());
+
+    it('json', () => {
+      const result = toString(PPParameters.json)(value);
+      TestUtils.strictEqual(
+        result,
+        '{ "a": 1, "b-c": [ null, null, 2 ], "d": "1970-01-01T00:00:00.000Z", "m": null }',
+      );
+      TestUtils.deepStrictEqual(JSON.parse(result), {
+        a: 1,
+        'b-c': [null, null, 2],
+        d: '1970-01-01T00:00:00.000Z',
+        m: null,
+      });
+    });
+
+    it('json5', () => {
+      TestUtils.strictEqual(
+        toString(PPParameters.json5)(value),
+        "{ a: 1, 'b-c': [ NaN, null, 2 ], d: '1970-01-01T00:00:00.000Z', m: null }",
+      );
+    });
+
+    it('javaScript', () => {
+      TestUtils.strictEqual(
+        toString(PPParameters.javaScript)(value),
+        `{
+  a: 1,
+  'b-c': [ NaN, undefined, 2n ],
+  d: new Date('1970-01-01T00:00:00.000Z'),
+  m: new Map([ [ 'a', 1 ] ])
+}`,
+      );
+    });
+
+    it('javaScript maps and sets', () => {
+      const stringify = toString(PPParameters.javaScript);
+      TestUtils.strictEqual(
+        stringify(
+          new Map<unknown, unknown>([
+            [1, new Set(['x', [2, 3]])],
+            [{ k: 'v' }, new Map()],
+          ]),
+        ),
+        "new Map([ [ 1, new Set([ 'x', [ 2, 3 ] ]) ], [ { k: 'v' }, new Map([]) ] ])",
+      );
+      TestUtils.strictEqual(stringify(new Set()), 'new Set([])');
+    });
+
+    it('Regular expressions', () => {
+      const value = { re: /a\/b/g };
+      TestUtils.strictEqual(toString(PPParameters.json)(value), '{ "re": null }');
+      TestUtils.strictEqual(toString(PPParameters.json5)(value), '{ re: null }');
+      TestUtils.strictEqual(toString(PPParameters.javaScript)(value), String.raw`{ re: /a\/b/g }`);
+    });
+
+    it('No depth limit and multi-line output', () => {
+      TestUtils.strictEqual(
+        toString(PPParameters.json)({
+          a: { b: { c: { d: 'abcdefghijklmnopqrstuvwxyz'.repeat(3) } } },
+        }),
+        `{
+  "a": {
+    "b": {
+      "c": {
+        "d": "${'abcdefghijklmnopqrstuvwxyz'.repeat(3)}"
+      }
+    }
+  }
+}`,
+      );
+    });
+
+    describe('Functions and circular references', () => {
+      const circular: Record<string, unknown> = { a: 1, f: () => 1 };
+      circular['self'] = circular;
+
+      it('Default', () => {
+        TestUtils.strictEqual(
+          toString(PPParameters.json)(circular),
+          '{ "a": 1, "f": null, "self": null }',
+        );
+      });
+
+      it('Failing', () => {
+        const failing = toString(
+          PPParameters.literalMaker({
+            format: PPLiteralFormat.Type.JSON,
+            functionStrategy: PPFallbackStrategy.fail,
+            circularReferenceStrategy: PPFallbackStrategy.fail,
+            mapAndSetStrategy: PPFallbackStrategy.fail,
+            regExpStrategy: PPFallbackStrategy.fail,
+          }),
+        );
+        TestUtils.throws(() => failing({ f: () => 1 }));
+        TestUtils.throws(() => failing({ self: circular }));
+        TestUtils.throws(() => failing({ s: new Set() }));
+        TestUtils.throws(() => failing({ re: /a/ }));
+      });
+
+      it('With placeholders', () => {
+        TestUtils.strictEqual(
+          toString(
+            PPParameters.literalMaker({
+              format: PPLiteralFormat.Type.JSON,
+              functionStrategy: PPFallbackStrategy.placeholder('null'),
+              circularReferenceStrategy: PPFallbackStrategy.placeholder('"[Circular]"'),
+            }),
+          )(circular),
+          '{ "a": 1, "f": null, "self": "[Circular]" }',
+        );
+      });
+    });
+  });
+
+  describe('YAML and TOML presets', () => {
+    const toUnstyledStrings = (parameters: PPParameters.Type) =>
+      flow(PPStringifier.make(parameters).stringify, PPStringifiedValue.toUnstyledStrings);
+
+    describe('yaml', () => {
+      const yaml = toUnstyledStrings(PPParameters.yaml);
+
+      it('Records and arrays', () => {
+        TestUtils.deepStrictEqual(
+          yaml({
+            name: 'foo bar',
+            'is-on': 'on',
+            list: [1, [2, 3], { a: Number.NaN, b: null }, [], {}],
+            empty: {},
+            nested: { d: new Date(0), f: () => 1 },
+          }),
+          [
+            'name: foo bar',
+            "is-on: 'on'",
+            'list:',
+            '  - 1',
+            '  - - 2',
+            '    - 3',
+            '  - a: .nan',
+            '    b: null',
+            '  - []',
+            '  - {}',
+            'empty: {}',
+            'nested:',
+            '  d: 1970-01-01T00:00:00.000Z',
+          ],
+        );
+      });
+
+      it('Block scalars', () => {
+        TestUtils.deepStrictEqual(yaml({ a: 'x\n\ny\n', b: ['x\ny'] }), [
+          'a: |',
+          '  x',
+          '',
+          '  y',
+          'b:',
+          '  - |-',
+          '    x',
+          '    y',
+        ]);
+        TestUtils.deepStrictEqual(yaml('x\ny'), ['|-', 'x', 'y']);
+      });
+
+      it('Block scalars with trailing empty lines', () => {
+        // Joined with line feeds, these lines must read back as the stringified value
+        TestUtils.deepStrictEqual(yaml({ multi3: 'end\n\n', b: 1 }), [
+          'multi3: |+',
+          '  end',
+          '',
+          'b: 1',
+        ]);
+        TestUtils.deepStrictEqual(yaml({ multi3: 'end\n\n' }), ['multi3: |+', '  end', '', '']);
+        TestUtils.deepStrictEqual(yaml({ a: ['end\n\n\n'] }), [
+          'a:',
+          '  - |+',
+          '    end',
+          '',
+          '',
+          '',
+        ]);
+        TestUtils.deepStrictEqual(yaml('end\n\n'), ['|+', 'end', '', '']);
+      });
+
+      it('Anchors and aliases', () => {
+        const circular: Record<string, unknown> = { a: 1, list: [] };
+        circular['self'] = circular;
+        (circular['list'] as Array<unknown>).push(circular['list']);
+        TestUtils.deepStrictEqual(yaml(circular), ['&1', 'a: 1', 'list: &2', '  - *2', 'self: *1']);
+      });
+
+      it('Styling', () => {
+        const darkModeYaml = flow(
+          PPStringifier.make(PPParameters.darkModeYaml).stringify,
+          PPStringifiedValue.toAnsiString(),
+        );
+        TestUtils.assertTrue(darkModeYaml({ a: [1] }).includes('\u001B['));
+        TestUtils.strictEqual(
+          PPStringifiedValue.toUnstyledStrings(
+            PPStringifier.make(PPParameters.darkModeYaml).stringify({ a: [1] }),
+          ).join('\n'),
+          'a:\n  - 1',
+        );
+      });
+    });
+
+    describe('toml', () => {
+      const toml = toUnstyledStrings(PPParameters.toml);
+
+      it('Sections, dotted keys and inline tables', () => {
+        TestUtils.deepStrictEqual(
+          toml({
+            owner: { name: 'Tom', address: { city: 'Paris', geo: {} } },
+            title: 'TOML "example"',
+            'a b': [1, [2, 3], { c: 4, d: { e: 5 } }],
+            u: undefined,
+            f: () => 1,
+            dates: { d: new Date(0) },
+            n: { x: Number.NEGATIVE_INFINITY },
+          }),
+          [
+            String.raw`title = "TOML \"example\""`,
+            '"a b" = [ 1, [ 2, 3 ], { c = 4, d.e = 5 } ]',
+            '',
+            '[owner]',
+            'name = "Tom"',
+            'address.city = "Paris"',
+            'address.geo = {}',
+            '',
+            '[dates]',
+            'd = 1970-01-01T00:00:00.000Z',
+            '',
+            '[n]',
+            'x = -inf',
+          ],
+        );
+      });
+
+      it('Circular references', () => {
+        const circular: Record<string, unknown> = {};
+        circular['self'] = circular;
+        TestUtils.throws(() => toml(circular));
+      });
+
+      it('Bigints', () => {
+        TestUtils.deepStrictEqual(toml({ small: 2n ** 63n - 1n, big: 2n ** 70n }), [
+          'small = 9223372036854775807',
+          'big = "1180591620717411303424"',
+        ]);
+      });
+    });
+  });
+
+  describe('Effect data types', () => {
+    const { stringify } = PPStringifier.make(PPParameters.utilInspectLike);
+    const unstyled = flow(stringify, PPStringifiedValue.toUnstyledStrings);
+
+    it('Option', () => {
+      TestUtils.deepStrictEqual(unstyled(Option.some(3)), ['Some(3)']);
+      TestUtils.deepStrictEqual(unstyled(Option.none()), ['None']);
+      TestUtils.deepStrictEqual(unstyled(Option.some({ a: Option.none() })), ['Some({ a: None })']);
+    });
+
+    it('Result', () => {
+      TestUtils.deepStrictEqual(unstyled(Result.succeed([1, 2])), ['Success([ 1, 2 ])']);
+      TestUtils.deepStrictEqual(unstyled(Result.fail('error')), ["Failure('error')"]);
+    });
+
+    it('Cause', () => {
+      TestUtils.deepStrictEqual(unstyled(Cause.fail('boom')), ["Cause(Fail('boom'))"]);
+      TestUtils.deepStrictEqual(unstyled(Cause.fail({ a: { b: 1 } })), [
+        'Cause(Fail({ a: [Object] }))',
+      ]);
+      TestUtils.deepStrictEqual(unstyled(Cause.combine(Cause.fail('boom'), Cause.die('defect'))), [
+        "Cause(Fail('boom'), Die('defect'))",
+      ]);
+      TestUtils.deepStrictEqual(unstyled(Cause.empty), ['Cause()']);
+    });
+
+    it('Iterables', () => {
+      TestUtils.deepStrictEqual(unstyled(Chunk.make(Option.some(1), Option.none())), [
+        'Chunk(2) { Some(1), None }',
+      ]);
+      TestUtils.deepStrictEqual(unstyled(HashMap.make(['a', Duration.seconds(5)])), [
+        'HashMap(1) { a => Duration(5 seconds) }',
+      ]);
+    });
+
+    it('Redacted', () => {
+      TestUtils.deepStrictEqual(unstyled({ password: Redacted.make('secret') }), [
+        '{ password: <redacted> }',
+      ]);
+    });
+
+    it('MTree', () => {
+      TestUtils.deepStrictEqual(unstyled(MTreeLeaf.make(1)), ['Leaf(1)']);
+      TestUtils.deepStrictEqual(
+        unstyled({ tree: MTreeNonLeaf.make({ value: 'root', forest: [] }) }),
+        ["{ tree: NonLeaf('root', [Array]) }"],
+      );
+    });
+
+    it('Split on several lines', () => {
+      TestUtils.deepStrictEqual(unstyled(Option.some('a'.repeat(80))), [
+        'Some(',
+        `  '${'a'.repeat(80)}'`,
+        ')',
+      ]);
+    });
   });
 });